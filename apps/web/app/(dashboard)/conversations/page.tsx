@@ -0,0 +1,97 @@
+/**
+ * Conversations inbox page.
+ * 
+ * Lists the conversations the router handled and shows the messages of
+ * the selected one, with search by phone number or text. Operators can
+ * reply in the selected chat.
+ * 
+ * @returns React component for the conversations page
+ */
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MessageSquare, Search } from 'lucide-react'
+import { ConversationList } from '@/components/conversations/conversation-list'
+import { ConversationThread } from '@/components/conversations/conversation-thread'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { ConversationSummary } from '@/lib/types'
+
+/**
+ * Delay before a search is sent, so typing does not query on every key (in milliseconds).
+ */
+const SEARCH_DEBOUNCE_MS = 300
+
+export default function ConversationsPage() {
+  const [searchQuery, setSearchQuery] = useState('')
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<ConversationSummary | null>(null)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchQuery), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Conversations</h1>
+        <p className="text-muted-foreground">
+          Browse what users asked and what agents answered, and step into any chat.
+        </p>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[360px_1fr]">
+        <Card className="flex max-h-[75vh] flex-col">
+          <CardHeader>
+            <CardTitle>Chats</CardTitle>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Search by phone number or text..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </CardHeader>
+          <CardContent className="flex-1 overflow-y-auto">
+            <ConversationList
+              search={search}
+              selectedChannelId={selected?.channelId ?? null}
+              onSelect={setSelected}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="flex max-h-[75vh] flex-col">
+          {selected ? (
+            <>
+              <CardHeader>
+                <CardTitle className="font-mono">{selected.channelId}</CardTitle>
+                <CardDescription>Latest messages, oldest first</CardDescription>
+              </CardHeader>
+              <CardContent className="min-h-0 flex-1">
+                <ConversationThread
+                  key={selected.channelId}
+                  channelId={selected.channelId}
+                  chatId={selected.chatId}
+                />
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-12 text-center">
+              <EmptyState
+                icon={MessageSquare}
+                title="No conversation selected"
+                description="Select a chat to read its messages."
+              />
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -4,12 +4,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { RoutesSummaryCard } from '@/components/dashboard/routes-summary-card'
 import { ConnectionStatusCard } from '@/components/dashboard/connection-status-card'
+import { TakeoversCard } from '@/components/dashboard/takeovers-card'
 
 /**
  * Dashboard page component.
  * 
  * Displays system status overview and quick access to main functions.
- * Shows connection status, active routes summary, and other key metrics.
+ * Shows connection status, active routes summary, chats taken over by
+ * operators, and other key metrics.
  * 
  * @returns React component for dashboard page
  */
@@ -29,6 +31,9 @@ export default function DashboardPage() {
         
         {/* Routes Summary Card */}
         <RoutesSummaryCard />
+
+        {/* Chats taken over by operators */}
+        <TakeoversCard />
       </div>
 
       {/* Quick Actions Section */}
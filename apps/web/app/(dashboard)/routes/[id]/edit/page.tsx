@@ -0,0 +1,104 @@
+/**
+ * Edit route page.
+ * 
+ * Loads the route identified by the `id` URL segment and renders
+ * the route form pre-filled with its data. On success the user is
+ * redirected back to the routes list with a confirmation toast.
+ * 
+ * @returns React component for the edit route page
+ */
+'use client'
+
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { ArrowLeft, SearchX } from 'lucide-react'
+import { useRoute } from '@/lib/hooks/use-route'
+import { useUpdateRoute } from '@/lib/hooks/use-route-mutations'
+import { useToast } from '@/lib/hooks/use-toast'
+import { RouteForm } from '@/components/routes/route-form'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { Route } from '@/lib/types'
+
+/**
+ * Skeleton displayed while the route is loading.
+ */
+function RouteFormSkeleton() {
+  return (
+    <div className="rounded-xl border bg-card p-6 space-y-4">
+      <Skeleton className="h-6 w-48" />
+      <Skeleton className="h-9 w-full" />
+      <Skeleton className="h-9 w-full" />
+      <Skeleton className="h-9 w-full" />
+    </div>
+  )
+}
+
+export default function EditRoutePage() {
+  const params = useParams<{ id: string }>()
+  const id = params?.id ? decodeURIComponent(params.id) : null
+  const router = useRouter()
+  const { route, isLoading, isError } = useRoute(id)
+  const updateRoute = useUpdateRoute()
+  const { toast } = useToast()
+
+  /**
+   * Updates the route and navigates back to the routes list.
+   * 
+   * Errors are re-thrown so the form can display them inline.
+   * 
+   * @param updated - Route payload from the form
+   */
+  const handleSubmit = async (updated: Route) => {
+    if (!id) return
+
+    await updateRoute(id, updated)
+
+    toast({
+      title: 'Route updated',
+      description: `Route "${updated.channelId}" has been updated successfully.`,
+      variant: 'default',
+    })
+
+    router.push('/routes')
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex items-center gap-2">
+        <Button asChild variant="ghost" size="icon" aria-label="Back to routes">
+          <Link href="/routes">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Edit Route</h1>
+          <p className="text-muted-foreground font-mono">{route?.channelId ?? id}</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <RouteFormSkeleton />
+      ) : isError || !route ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <EmptyState
+              icon={SearchX}
+              title="Route not found"
+              description={`No route exists with ID "${id}".`}
+              action={
+                <Button asChild variant="outline">
+                  <Link href="/routes">Back to Routes</Link>
+                </Button>
+              }
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <RouteForm initialRoute={route} onSubmit={handleSubmit} />
+      )}
+    </div>
+  )
+}
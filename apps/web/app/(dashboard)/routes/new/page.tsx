@@ -0,0 +1,63 @@
+/**
+ * Create route page.
+ * 
+ * Renders the route form in create mode. On success the user is
+ * redirected back to the routes list with a confirmation toast.
+ * 
+ * @returns React component for the create route page
+ */
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { useCreateRoute } from '@/lib/hooks/use-route-mutations'
+import { useToast } from '@/lib/hooks/use-toast'
+import { RouteForm } from '@/components/routes/route-form'
+import { Button } from '@/components/ui/button'
+import type { Route } from '@/lib/types'
+
+export default function NewRoutePage() {
+  const router = useRouter()
+  const createRoute = useCreateRoute()
+  const { toast } = useToast()
+
+  /**
+   * Creates the route and navigates back to the routes list.
+   * 
+   * Errors are re-thrown so the form can display them inline.
+   * 
+   * @param route - Route payload from the form
+   */
+  const handleSubmit = async (route: Route) => {
+    await createRoute(route)
+
+    toast({
+      title: 'Route created',
+      description: `Route "${route.channelId}" has been created successfully.`,
+      variant: 'default',
+    })
+
+    router.push('/routes')
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex items-center gap-2">
+        <Button asChild variant="ghost" size="icon" aria-label="Back to routes">
+          <Link href="/routes">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Create New Route</h1>
+          <p className="text-muted-foreground">
+            Connect a WhatsApp channel to an AI agent.
+          </p>
+        </div>
+      </div>
+
+      <RouteForm submitLabel="Create Route" onSubmit={handleSubmit} />
+    </div>
+  )
+}
@@ -164,11 +164,11 @@ export default function RoutesPage() {
    * success/error toast notifications.
    */
   const handleDeleteConfirm = async () => {
-    if (!routeToDelete) return
+    if (!routeToDelete?.id) return
 
     setIsDeleting(true)
     try {
-      await deleteRoute(routeToDelete.channelId)
+      await deleteRoute(routeToDelete.id)
       
       // Refresh routes list
       await mutate()
@@ -293,7 +293,7 @@ export default function RoutesPage() {
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {filteredRoutes.map((route) => (
             <RouteCard
-              key={route.channelId}
+              key={route.id ?? route.channelId}
               route={route}
               onDelete={handleDeleteClick}
             />
@@ -0,0 +1,160 @@
+/**
+ * Conversation List component.
+ *
+ * Lists the conversations the router handled, most recently active first,
+ * with the latest message, the agent that answered and how many messages
+ * failed.
+ *
+ * @module components/conversations/conversation-list
+ */
+
+'use client'
+
+import { useConversations } from '@/lib/hooks/use-conversations'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { EmptyState } from '@/components/ui/empty-state'
+import { cn } from '@/lib/utils'
+import type { ConversationSummary } from '@/lib/types'
+import { AlertCircle, MessageSquare, Search, Users } from 'lucide-react'
+
+/**
+ * Props for ConversationList component.
+ */
+export interface ConversationListProps {
+  /** Phone number or text to search for */
+  search: string
+  /** Channel of the conversation shown in the thread */
+  selectedChannelId: string | null
+  /** Called when a conversation is clicked */
+  onSelect: (conversation: ConversationSummary) => void
+}
+
+/**
+ * Formats the time of the latest message: the time for today, the date otherwise.
+ *
+ * @param timestamp - ISO 8601 timestamp
+ * @returns e.g. "14:30" or "1/2/2026"
+ */
+function formatLastMessageAt(timestamp: string): string {
+  const date = new Date(timestamp)
+  if (date.toDateString() === new Date().toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+  return date.toLocaleDateString()
+}
+
+/**
+ * Describes the latest message of a conversation.
+ *
+ * @param conversation - The conversation
+ * @returns The message text, prefixed with "Agent: " for replies
+ */
+function formatLastMessage(conversation: ConversationSummary): string {
+  const text = conversation.lastMessageText || 'Media'
+  return conversation.lastDirection === 'outbound' ? `Agent: ${text}` : text
+}
+
+/**
+ * Conversation List component.
+ *
+ * Displays, for each conversation:
+ * - The channel (phone number or group ID)
+ * - The latest message and when it was received or sent
+ * - The agent endpoint that answered last
+ * - A badge with the number of failed messages, if any
+ *
+ * Handles loading, error and empty states gracefully.
+ *
+ * @param props - ConversationList component props
+ * @returns React component for the conversation list
+ */
+export function ConversationList({ search, selectedChannelId, onSelect }: ConversationListProps) {
+  const { conversations, isLoading, isError } = useConversations(search)
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    )
+  }
+
+  if (isError) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load conversations. Please try again later.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (conversations.length === 0) {
+    return search.trim() ? (
+      <EmptyState
+        icon={Search}
+        title="No conversations match your search"
+        description="Try another phone number or text."
+      />
+    ) : (
+      <EmptyState
+        icon={MessageSquare}
+        title="No conversations yet"
+        description="Messages routed to agents will show up here."
+      />
+    )
+  }
+
+  return (
+    <ul className="space-y-1">
+      {conversations.map((conversation) => (
+        <li key={conversation.channelId}>
+          <button
+            type="button"
+            onClick={() => onSelect(conversation)}
+            aria-current={conversation.channelId === selectedChannelId ? 'true' : undefined}
+            className={cn(
+              'w-full rounded-lg px-3 py-2 text-left transition-colors',
+              conversation.channelId === selectedChannelId
+                ? 'bg-muted'
+                : 'hover:bg-muted/50'
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex min-w-0 items-center gap-1 font-mono text-sm font-medium">
+                {conversation.chatId.endsWith('@g.us') && (
+                  <Users className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Group" />
+                )}
+                <span className="truncate">{conversation.channelId}</span>
+              </span>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {formatLastMessageAt(conversation.lastMessageAt)}
+              </span>
+            </div>
+            <p className="truncate text-sm text-muted-foreground">
+              {formatLastMessage(conversation)}
+            </p>
+            <div className="mt-1 flex items-center justify-between gap-2">
+              <span
+                className="truncate text-xs text-muted-foreground"
+                title={conversation.lastAgentEndpoint}
+              >
+                {conversation.lastAgentEndpoint ?? 'No agent'}
+              </span>
+              {conversation.errorCount > 0 && (
+                <Badge variant="destructive" className="shrink-0">
+                  {conversation.errorCount} {conversation.errorCount === 1 ? 'error' : 'errors'}
+                </Badge>
+              )}
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,95 @@
+/**
+ * Conversation Thread component.
+ *
+ * Shows the latest messages of a conversation in reading order, user
+ * messages and agent replies, with a composer to write in the chat.
+ *
+ * @module components/conversations/conversation-thread
+ */
+
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { useConversationMessages } from '@/lib/hooks/use-conversation-messages'
+import { MessageBubble } from '@/components/conversations/message-bubble'
+import { MessageComposer } from '@/components/conversations/message-composer'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { EmptyState } from '@/components/ui/empty-state'
+import { AlertCircle, MessageSquare } from 'lucide-react'
+
+/**
+ * Props for ConversationThread component.
+ */
+export interface ConversationThreadProps {
+  /** Channel of the conversation to show */
+  channelId: string
+  /** Chat JID messages written in the composer are sent to */
+  chatId: string
+}
+
+/**
+ * Conversation Thread component.
+ *
+ * Displays the latest messages of the conversation, oldest first, and
+ * scrolls to the newest one when messages arrive. Messages sent from the
+ * composer show up once the thread is refreshed.
+ *
+ * Handles loading, error and empty states gracefully.
+ *
+ * @param props - ConversationThread component props
+ * @returns React component for the conversation thread
+ */
+export function ConversationThread({ channelId, chatId }: ConversationThreadProps) {
+  const { messages, isLoading, isError, mutate } = useConversationMessages(channelId)
+  const endRef = useRef<HTMLDivElement>(null)
+  const lastMessageId = messages[messages.length - 1]?.id
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ block: 'end' })
+  }, [lastMessageId])
+
+  let content: React.ReactNode
+  if (isLoading) {
+    content = (
+      <div className="space-y-3">
+        <Skeleton className="h-12 w-2/3" />
+        <Skeleton className="ml-auto h-12 w-2/3" />
+        <Skeleton className="h-12 w-1/2" />
+      </div>
+    )
+  } else if (isError) {
+    content = (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load messages. Please try again later.
+        </AlertDescription>
+      </Alert>
+    )
+  } else if (messages.length === 0) {
+    content = (
+      <EmptyState
+        icon={MessageSquare}
+        title="No messages"
+        description="No messages are stored for this conversation."
+      />
+    )
+  } else {
+    content = (
+      <div className="space-y-2">
+        {messages.map((message) => (
+          <MessageBubble key={message.id} message={message} />
+        ))}
+        <div ref={endRef} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-4">
+      <div className="min-h-0 flex-1 overflow-y-auto">{content}</div>
+      <MessageComposer channelId={channelId} to={chatId} onSent={() => mutate()} />
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+/**
+ * Message Bubble component.
+ *
+ * Shows one message of a conversation: user messages on the left, agent
+ * replies on the right, with media placeholders and delivery failures.
+ *
+ * @module components/conversations/message-bubble
+ */
+
+import { cn } from '@/lib/utils'
+import type { ConversationMessage } from '@/lib/types'
+import {
+  AlertCircle,
+  Contact,
+  FileText,
+  Image as ImageIcon,
+  MapPin,
+  Mic,
+  Paperclip,
+  Sticker,
+  Video,
+  type LucideIcon,
+} from 'lucide-react'
+
+/**
+ * Props for MessageBubble component.
+ */
+export interface MessageBubbleProps {
+  /** The message to show */
+  message: ConversationMessage
+}
+
+/**
+ * Icons of media and rich content kinds.
+ */
+const MEDIA_ICONS: Record<string, LucideIcon> = {
+  image: ImageIcon,
+  video: Video,
+  audio: Mic,
+  document: FileText,
+  sticker: Sticker,
+  location: MapPin,
+  contact: Contact,
+}
+
+/**
+ * Placeholder for media that is not displayed.
+ *
+ * @param props.type - Kind of media or rich content
+ * @param props.label - Text shown next to the icon
+ */
+function MediaPlaceholder({ type, label }: { type: string; label: string }) {
+  const Icon = MEDIA_ICONS[type] ?? Paperclip
+  return (
+    <div className="mb-1 flex items-center gap-2 rounded-md bg-background/60 px-2 py-1 text-xs text-muted-foreground">
+      <Icon className="h-4 w-4 shrink-0" />
+      <span className="truncate">{label}</span>
+    </div>
+  )
+}
+
+/**
+ * Formats when a message was received or sent.
+ *
+ * @param timestamp - ISO 8601 timestamp
+ * @returns e.g. "1/2/2026, 14:30"
+ */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp)
+  return `${date.toLocaleDateString()}, ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+}
+
+/**
+ * Message Bubble component.
+ *
+ * Displays:
+ * - The message text, or placeholders for its media
+ * - When it was received or sent, and whether an operator sent it
+ * - Why the agent did not answer (user messages) or the reply was not
+ *   delivered (agent replies)
+ *
+ * @param props - MessageBubble component props
+ * @returns React component for a message bubble
+ */
+export function MessageBubble({ message }: MessageBubbleProps) {
+  const isAgent = message.direction === 'outbound'
+  const failed = !message.success
+
+  return (
+    <div className={cn('flex', isAgent ? 'justify-end' : 'justify-start')}>
+      <div
+        data-direction={message.direction}
+        className={cn(
+          'max-w-[75%] rounded-lg px-3 py-2 text-sm',
+          isAgent ? 'bg-primary/10' : 'bg-muted',
+          isAgent && failed && 'border border-destructive'
+        )}
+      >
+        {message.attachments?.map((attachment, index) => (
+          <MediaPlaceholder
+            key={index}
+            type={attachment.type}
+            label={attachment.filename ?? attachment.type}
+          />
+        ))}
+        {message.contentType && (
+          <MediaPlaceholder type={message.contentType} label={message.contentType} />
+        )}
+        {message.text && (
+          <p className="whitespace-pre-wrap break-words">{message.text}</p>
+        )}
+        <p className="mt-1 text-right text-xs text-muted-foreground">
+          {isAgent && !message.agentEndpoint && 'Operator · '}
+          {formatTimestamp(message.timestamp)}
+        </p>
+        {failed && (
+          <p className="mt-1 flex items-center gap-1 text-xs text-destructive">
+            <AlertCircle className="h-3 w-3 shrink-0" />
+            {isAgent ? 'Not delivered' : 'Not answered'}
+            {message.error ? `: ${message.error}` : ''}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+/**
+ * Message Composer component.
+ *
+ * Lets an operator write in a chat from the dashboard. Sending pauses the
+ * agent in the chat, as when the operator writes from the phone.
+ *
+ * @module components/conversations/message-composer
+ */
+
+'use client'
+
+import { useState, type FormEvent, type KeyboardEvent } from 'react'
+import { sendMessage } from '@/lib/api/messages'
+import { useToast } from '@/lib/hooks/use-toast'
+import { Textarea } from '@/components/ui/textarea'
+import { Button } from '@/components/ui/button'
+import { Send } from 'lucide-react'
+
+/**
+ * Props for MessageComposer component.
+ */
+export interface MessageComposerProps {
+  /** Channel of the conversation */
+  channelId: string
+  /** Chat JID the message is sent to */
+  to: string
+  /** Called after a message is sent */
+  onSent?: () => void
+}
+
+/**
+ * Message Composer component.
+ *
+ * Enter sends the message; Shift+Enter starts a new line.
+ *
+ * @param props - MessageComposer component props
+ * @returns React component for the message composer
+ */
+export function MessageComposer({ channelId, to, onSent }: MessageComposerProps) {
+  const { toast } = useToast()
+  const [text, setText] = useState('')
+  const [isSending, setIsSending] = useState(false)
+
+  /**
+   * Sends the message and clears the composer.
+   */
+  const handleSend = async () => {
+    if (!text.trim() || isSending) return
+
+    setIsSending(true)
+    try {
+      const result = await sendMessage({ to, channelId, text })
+      setText('')
+      onSent?.()
+      if (result.data?.pause) {
+        toast({
+          title: 'Message sent',
+          description: 'The agent is paused in this chat while you reply.',
+          variant: 'default',
+        })
+      }
+    } catch (error) {
+      toast({
+        title: 'Error sending message',
+        description: error instanceof Error
+          ? error.message
+          : 'Failed to send the message. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  /**
+   * Handles form submission.
+   *
+   * @param event - Form submit event
+   */
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    handleSend()
+  }
+
+  /**
+   * Sends on Enter, keeping Shift+Enter for new lines.
+   *
+   * @param event - Keyboard event
+   */
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault()
+      handleSend()
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-end gap-2">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Write a message..."
+        aria-label="Message"
+        rows={2}
+        disabled={isSending}
+        className="resize-none"
+      />
+      <Button type="submit" disabled={isSending || !text.trim()} aria-label="Send message">
+        <Send className="h-4 w-4" />
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,157 @@
+/**
+ * Takeovers Card component.
+ *
+ * Lists the chats where the agent is paused because a human operator
+ * took over, and lets the operator hand them back to the agent.
+ *
+ * @module components/dashboard/takeovers-card
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useTakeovers } from '@/lib/hooks/use-takeovers'
+import { useToast } from '@/lib/hooks/use-toast'
+import { resumeChat } from '@/lib/api/takeovers'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import type { ChatPause } from '@/lib/types'
+import { AlertCircle, Play, UserRound } from 'lucide-react'
+
+/**
+ * Formats a chat JID for display (phone number or group ID).
+ *
+ * @param chatId - Chat JID
+ * @returns The part before `@`
+ */
+function formatChatId(chatId: string): string {
+  return chatId.split('@')[0]
+}
+
+/**
+ * Describes until when a chat stays paused.
+ *
+ * @param pause - The pause to describe
+ * @returns e.g. "Until 14:30" or "Until resumed"
+ */
+function formatUntil(pause: ChatPause): string {
+  if (!pause.until) {
+    return 'Until resumed'
+  }
+  return `Until ${new Date(pause.until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+}
+
+/**
+ * Takeovers Card component.
+ *
+ * Displays:
+ * - Each paused chat with who paused it and until when
+ * - A button to resume the agent in the chat
+ *
+ * Handles loading and error states gracefully.
+ *
+ * @returns React component for the takeovers card
+ */
+export function TakeoversCard() {
+  const { pauses, isLoading, isError, mutate } = useTakeovers()
+  const { toast } = useToast()
+  const [resuming, setResuming] = useState<string | null>(null)
+
+  /**
+   * Hands a chat back to the agent and refreshes the list.
+   *
+   * @param chatId - Chat JID to resume
+   */
+  const handleResume = async (chatId: string) => {
+    setResuming(chatId)
+    try {
+      await resumeChat(chatId)
+      await mutate()
+      toast({
+        title: 'Agent resumed',
+        description: `The agent answers ${formatChatId(chatId)} again.`,
+        variant: 'default',
+      })
+    } catch (error) {
+      toast({
+        title: 'Error resuming chat',
+        description: error instanceof Error
+          ? error.message
+          : 'Failed to resume the chat. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setResuming(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserRound className="h-5 w-5" />
+          Human Takeover
+        </CardTitle>
+        <CardDescription>
+          Chats where an operator replied and the agent is paused
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : isError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Failed to load paused chats. Please try again later.
+            </AlertDescription>
+          </Alert>
+        ) : pauses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            The agent is active in every chat.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {pauses.map((pause) => (
+              <li key={pause.chatId} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-mono text-sm truncate" title={pause.chatId}>
+                    {formatChatId(pause.chatId)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatUntil(pause)}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="secondary">
+                    {pause.reason === 'operator' ? 'Operator' : 'Dashboard'}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResume(pause.chatId)}
+                    disabled={resuming === pause.chatId}
+                    aria-label={`Resume agent in ${formatChatId(pause.chatId)}`}
+                  >
+                    <Play className="mr-1 h-3 w-3" />
+                    Resume
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
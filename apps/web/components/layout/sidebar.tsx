@@ -7,6 +7,7 @@ import { useSidebar } from '@/context/sidebar-context'
 import { 
   LayoutDashboard, 
   Link as LinkIcon,
+  MessageSquare,
   Route
 } from 'lucide-react'
 
@@ -43,6 +44,11 @@ const navigation: NavItem[] = [
     path: '/routes', 
     icon: <Route className="h-5 w-5" /> 
   },
+  { 
+    name: 'Conversations', 
+    path: '/conversations', 
+    icon: <MessageSquare className="h-5 w-5" /> 
+  },
 ]
 
 /**
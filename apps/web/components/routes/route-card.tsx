@@ -2,7 +2,7 @@
  * Route Card component.
  * 
  * Displays a single route with its information (channelId, agentEndpoint,
- * environment, regexFilter) and action buttons (Edit, Delete).
+ * environment, priority, regexFilter, match conditions) and action buttons (Edit, Delete).
  * 
  * @module components/routes/route-card
  */
@@ -22,6 +22,8 @@ import {
   Globe,
   Filter,
   FlaskConical,
+  ListOrdered,
+  ListFilter,
   Server
 } from 'lucide-react'
 
@@ -44,7 +46,9 @@ export interface RouteCardProps {
  * - Channel ID with icon
  * - Agent endpoint with icon
  * - Environment badge (lab/prod)
+ * - Priority within the channel
  * - Regex filter badge (if present)
+ * - Match conditions summary (if present)
  * - ADK configuration info (if present)
  * - Action buttons (Edit, Delete)
  * 
@@ -55,7 +59,7 @@ export interface RouteCardProps {
  * @returns React component for route card
  */
 export function RouteCard({ route, onEdit, onDelete }: RouteCardProps) {
-  const editUrl = `/routes/${encodeURIComponent(route.channelId)}/edit`
+  const editUrl = `/routes/${encodeURIComponent(route.id ?? '')}/edit`
   
   return (
     <Card className="hover:shadow-md transition-shadow">
@@ -97,6 +101,15 @@ export function RouteCard({ route, onEdit, onDelete }: RouteCardProps) {
           </div>
         </div>
 
+        {/* Priority */}
+        <div className="flex items-start gap-2">
+          <ListOrdered className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-muted-foreground mb-1">Priority</p>
+            <p className="text-sm font-mono">{route.priority ?? 0}</p>
+          </div>
+        </div>
+
         {/* Regex Filter */}
         {route.regexFilter && (
           <div className="flex items-start gap-2">
@@ -110,6 +123,20 @@ export function RouteCard({ route, onEdit, onDelete }: RouteCardProps) {
           </div>
         )}
 
+        {/* Match Conditions */}
+        {route.match && route.match.conditions.length > 0 && (
+          <div className="flex items-start gap-2">
+            <ListFilter className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-muted-foreground mb-1">Match Conditions</p>
+              <Badge variant="outline" className="text-xs">
+                {route.match.conditions.length} condition{route.match.conditions.length !== 1 ? 's' : ''}
+                {route.match.conditions.length > 1 ? ` (${route.match.operator.toUpperCase()})` : ''}
+              </Badge>
+            </div>
+          </div>
+        )}
+
         {/* ADK Configuration */}
         {route.config?.adk && (
           <div className="flex items-start gap-2">
@@ -0,0 +1,600 @@
+/**
+ * Route Form component.
+ *
+ * Shared form used by the create (`/routes/new`) and edit
+ * (`/routes/:id/edit`) pages. Validates input with `routeSchema`
+ * and surfaces API validation errors (e.g. `INVALID_REGEX_PATTERN`)
+ * inline on the offending field.
+ *
+ * @module components/routes/route-form
+ */
+
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+import { BOOLEAN_MATCH_FIELDS, routeSchema, type RouteFormData } from '@/lib/schemas/route.schema'
+import { RouteMatchFields } from '@/components/routes/route-match-fields'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Separator } from '@/components/ui/separator'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { ApiError, Route, RouteMatchCondition } from '@/lib/types'
+
+/**
+ * Route Form component props.
+ */
+export interface RouteFormProps {
+  /** Existing route to edit (omit for create mode) */
+  initialRoute?: Route
+  /** Label for the submit button */
+  submitLabel?: string
+  /** Callback invoked with the cleaned route payload */
+  onSubmit: (route: Route) => Promise<void>
+}
+
+/**
+ * Converts a route into form values.
+ *
+ * Optional fields are represented as empty strings so inputs stay controlled.
+ *
+ * @param route - Route to convert (optional)
+ * @returns Default values for the form
+ */
+function toFormValues(route?: Route): RouteFormData {
+  return {
+    channelId: route?.channelId ?? '',
+    priority: route?.priority ?? 0,
+    agentEndpoint: route?.agentEndpoint ?? '',
+    environment: route?.environment ?? 'lab',
+    regexFilter: route?.regexFilter ?? '',
+    match: {
+      operator: route?.match?.operator ?? 'and',
+      conditions: (route?.match?.conditions ?? []).map((condition) => ({
+        field: condition.field,
+        operator: condition.operator,
+        value: Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value),
+      })),
+    },
+    config: {
+      ...route?.config,
+      adk: {
+        appName: route?.config?.adk?.appName ?? '',
+        baseUrl: route?.config?.adk?.baseUrl ?? '',
+        streaming: route?.config?.adk?.streaming ?? false,
+        streamingChunks: route?.config?.adk?.streamingChunks ?? 'message',
+        replyMode: route?.config?.adk?.replyMode ?? 'last',
+      },
+      replyDelayMs: route?.config?.replyDelayMs ?? 0,
+      debounceMs: route?.config?.debounceMs ?? 0,
+      readReceipts: route?.config?.readReceipts ?? true,
+      typingIndicator: route?.config?.typingIndicator ?? true,
+    },
+  }
+}
+
+/**
+ * Converts a match condition from its form representation to the API format.
+ *
+ * @param condition - Validated form condition
+ * @returns Condition with a boolean, list or string value
+ */
+function toMatchCondition(condition: NonNullable<RouteFormData['match']>['conditions'][number]): RouteMatchCondition {
+  let value: RouteMatchCondition['value']
+  if ((BOOLEAN_MATCH_FIELDS as readonly string[]).includes(condition.field)) {
+    value = condition.value === 'true'
+  } else if (condition.operator === 'in' || condition.operator === 'notIn') {
+    value = condition.value.split(',').map((item) => item.trim()).filter(Boolean)
+  } else if (condition.operator === 'regex') {
+    value = condition.value
+  } else {
+    value = condition.value.trim()
+  }
+  return { field: condition.field, operator: condition.operator, value }
+}
+
+/**
+ * Converts validated form values into a route payload for the API.
+ *
+ * Empty optional fields (including an empty condition list) are dropped
+ * so the backend stores them as unset.
+ *
+ * @param values - Validated form values
+ * @returns Route payload
+ */
+function toRoute(values: RouteFormData): Route {
+  const appName = values.config?.adk?.appName ?? ''
+  const baseUrl = values.config?.adk?.baseUrl?.trim()
+  const streaming = values.config?.adk?.streaming ?? false
+  const replyMode = values.config?.adk?.replyMode ?? 'last'
+  const replyDelayMs = values.config?.replyDelayMs
+  const debounceMs = values.config?.debounceMs
+  const regexFilter = values.regexFilter?.trim()
+  const conditions = values.match?.conditions ?? []
+
+  return {
+    channelId: values.channelId.trim(),
+    priority: values.priority ?? 0,
+    agentEndpoint: values.agentEndpoint.trim(),
+    environment: values.environment,
+    ...(regexFilter ? { regexFilter } : {}),
+    ...(conditions.length > 0
+      ? { match: { operator: values.match?.operator ?? 'and', conditions: conditions.map(toMatchCondition) } }
+      : {}),
+    config: {
+      ...values.config,
+      adk: {
+        appName: appName.trim(),
+        ...(baseUrl ? { baseUrl } : {}),
+        ...(streaming ? { streaming, streamingChunks: values.config?.adk?.streamingChunks ?? 'message' } : {}),
+        ...(replyMode === 'all' ? { replyMode } : {}),
+      },
+      replyDelayMs: replyDelayMs || undefined,
+      debounceMs: debounceMs || undefined,
+      // Both are on by default, so only an opt-out is stored
+      readReceipts: values.config?.readReceipts === false ? false : undefined,
+      typingIndicator: values.config?.typingIndicator === false ? false : undefined,
+      quoteReplies: values.config?.quoteReplies,
+      groupMode: values.config?.groupMode === 'all' ? undefined : values.config?.groupMode,
+    },
+  }
+}
+
+/**
+ * Extracts the validation message from an `INVALID_REGEX_PATTERN` API error.
+ *
+ * @param error - Error thrown by the API client
+ * @returns The regex error message, or null if the error is of another kind
+ */
+function getRegexErrorMessage(error: unknown): string | null {
+  const apiError = error as ApiError
+  if (apiError?.code !== 'INVALID_REGEX_PATTERN') {
+    return null
+  }
+  const details = apiError.details as { message?: string } | undefined
+  return details?.message ?? apiError.message
+}
+
+/**
+ * Route Form component.
+ *
+ * Renders basic, ADK and advanced sections for a route. On submit the
+ * cleaned payload is passed to `onSubmit`; if it throws an
+ * `INVALID_REGEX_PATTERN` error, the message is shown below the regex field,
+ * any other error is shown at the top of the form.
+ *
+ * @param props - Route form component props
+ * @param props.initialRoute - Existing route to pre-fill (edit mode)
+ * @param props.submitLabel - Label for the submit button
+ * @param props.onSubmit - Submit handler
+ * @returns React component for route form
+ */
+export function RouteForm({ initialRoute, submitLabel = 'Save Route', onSubmit }: RouteFormProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const form = useForm<RouteFormData>({
+    resolver: zodResolver(routeSchema),
+    defaultValues: toFormValues(initialRoute),
+  })
+
+  const isSubmitting = form.formState.isSubmitting
+  const streamingChunks = useWatch({ control: form.control, name: 'config.adk.streamingChunks' }) ?? 'message'
+
+  /**
+   * Submits the form and maps API errors back onto the form.
+   *
+   * @param values - Validated form values
+   */
+  const handleSubmit = async (values: RouteFormData) => {
+    setSubmitError(null)
+    try {
+      await onSubmit(toRoute(values))
+    } catch (error) {
+      const regexError = getRegexErrorMessage(error)
+      if (regexError) {
+        form.setError('regexFilter', { type: 'server', message: regexError }, { shouldFocus: true })
+        return
+      }
+      setSubmitError(error instanceof Error ? error.message : 'Failed to save route. Please try again.')
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+        {submitError && (
+          <Alert variant="destructive">
+            <AlertDescription>{submitError}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Basic Configuration</CardTitle>
+            <CardDescription>Which channel this route handles and where messages go.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="channelId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Channel ID *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="5491155551234" {...field} />
+                  </FormControl>
+                  <FormDescription>The WhatsApp channel ID or &quot;*&quot; for wildcard.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Priority</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step={1}
+                      {...field}
+                      value={Number.isNaN(field.value) ? '' : field.value ?? ''}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>Routes of the same channel are evaluated in ascending priority; the first match wins.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="environment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Environment *</FormLabel>
+                  <Select name="environment" value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select environment" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="lab">Lab</SelectItem>
+                      <SelectItem value="prod">Production</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="agentEndpoint"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Agent Endpoint *</FormLabel>
+                  <FormControl>
+                    <Input type="url" placeholder="http://localhost:8000" {...field} />
+                  </FormControl>
+                  <FormDescription>Full URL of the agent endpoint.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>ADK Configuration</CardTitle>
+            <CardDescription>Agent Development Kit settings used to call the agent.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="config.adk.appName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Agent Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="my_sample_agent" {...field} />
+                  </FormControl>
+                  <FormDescription>ADK agent directory name (e.g., my_sample_agent).</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.adk.baseUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Base URL</FormLabel>
+                  <FormControl>
+                    <Input type="url" placeholder="http://localhost:8000" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormDescription>ADK server base URL. If empty, uses Agent Endpoint.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.adk.streaming"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reply Delivery</FormLabel>
+                  <Select
+                    name="config.adk.streaming"
+                    value={field.value ? streamingChunks : 'batch'}
+                    onValueChange={(value) => {
+                      field.onChange(value !== 'batch')
+                      if (value !== 'batch') {
+                        form.setValue('config.adk.streamingChunks', value as 'message' | 'sentence')
+                      }
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="batch">When the agent finishes (/run)</SelectItem>
+                      <SelectItem value="message">Each message as it is ready (/run_sse)</SelectItem>
+                      <SelectItem value="sentence">Sentence by sentence (/run_sse)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Streaming sends replies to WhatsApp while long-running agents are still working.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.adk.replyMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Replies</FormLabel>
+                  <Select name="config.adk.replyMode" value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="last">Last model message only</SelectItem>
+                      <SelectItem value="all">Every model message</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Agents that acknowledge first or hand off between agents emit several messages. Streaming always sends every message.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.replyDelayMs"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Delay Between Replies (ms)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={100}
+                      {...field}
+                      value={Number.isNaN(field.value) ? '' : field.value ?? ''}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>Pause before each reply after the first when several are sent.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.debounceMs"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Merge Messages Within (ms)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={500}
+                      {...field}
+                      value={Number.isNaN(field.value) ? '' : field.value ?? ''}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>Wait this long for more messages from the sender and send them to the agent as one (0 sends each message on its own).</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.readReceipts"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Read Receipts</FormLabel>
+                  <Select
+                    name="config.readReceipts"
+                    value={field.value === false ? 'off' : 'on'}
+                    onValueChange={(value) => field.onChange(value === 'on')}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="on">Mark messages as read</SelectItem>
+                      <SelectItem value="off">Leave messages unread</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Blue ticks as soon as the message is routed (Baileys and Evolution API).</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.typingIndicator"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Typing Indicator</FormLabel>
+                  <Select
+                    name="config.typingIndicator"
+                    value={field.value === false ? 'off' : 'on'}
+                    onValueChange={(value) => field.onChange(value === 'on')}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="on">Show &quot;typing...&quot; while the agent works</SelectItem>
+                      <SelectItem value="off">Do not show</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Kept alive until the reply is sent (Baileys and Evolution API).</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.quoteReplies"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quote Replies</FormLabel>
+                  <Select
+                    name="config.quoteReplies"
+                    value={field.value === undefined ? 'groups' : field.value ? 'always' : 'never'}
+                    onValueChange={(value) => field.onChange(value === 'groups' ? undefined : value === 'always')}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="groups">In groups only</SelectItem>
+                      <SelectItem value="always">Always</SelectItem>
+                      <SelectItem value="never">Never</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>The first reply quotes the message it answers, so it is clear which question the agent replies to.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="config.groupMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Group Messages</FormLabel>
+                  <Select name="config.groupMode" value={field.value ?? 'all'} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="all">All messages</SelectItem>
+                      <SelectItem value="mention-only">Only when the bot is mentioned</SelectItem>
+                      <SelectItem value="mention-or-reply">When the bot is mentioned or replied to</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Which group messages reach the agent. Direct messages are always forwarded.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Advanced</CardTitle>
+            <CardDescription>Optional filters applied before a message is routed. All filters must match.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="regexFilter"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Regex Filter</FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" placeholder="^Test" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormDescription>Only route messages matching this pattern (e.g., ^Test).</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Match Conditions</p>
+              <p className="text-sm text-muted-foreground">
+                Only route messages whose sender, type or origin match these conditions.
+              </p>
+              <RouteMatchFields />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Separator />
+
+        <div className="flex justify-end gap-2">
+          <Button asChild variant="outline" disabled={isSubmitting}>
+            <Link href="/routes">Cancel</Link>
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isSubmitting ? 'Saving...' : submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
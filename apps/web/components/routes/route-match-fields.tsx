@@ -0,0 +1,249 @@
+/**
+ * Route Match Fields component.
+ *
+ * Editor for a route's match conditions, used inside `RouteForm`. Lets the
+ * user combine conditions on message metadata (sender, isGroup, messageType,
+ * fromMe, pushName) with AND or OR.
+ *
+ * @module components/routes/route-match-fields
+ */
+
+'use client'
+
+import { useFieldArray, useFormContext, useWatch } from 'react-hook-form'
+import { Plus, Trash2 } from 'lucide-react'
+import { BOOLEAN_MATCH_FIELDS, type RouteFormData } from '@/lib/schemas/route.schema'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { RouteMatchField, RouteMatchOperator } from '@/lib/types'
+
+/**
+ * Selectable message fields with their labels and value placeholders.
+ */
+const FIELD_OPTIONS: { value: RouteMatchField; label: string; placeholder: string }[] = [
+  { value: 'sender', label: 'Sender', placeholder: '5491155551234' },
+  { value: 'isGroup', label: 'Is group', placeholder: '' },
+  { value: 'messageType', label: 'Message type', placeholder: 'audioMessage' },
+  { value: 'fromMe', label: 'Sent by me', placeholder: '' },
+  { value: 'pushName', label: 'Push name', placeholder: 'Ana' },
+]
+
+/**
+ * Selectable operators with their labels.
+ */
+const OPERATOR_OPTIONS: { value: RouteMatchOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'notEquals', label: 'not equals' },
+  { value: 'in', label: 'is one of' },
+  { value: 'notIn', label: 'is not one of' },
+  { value: 'regex', label: 'matches regex' },
+]
+
+/**
+ * Checks whether a match field holds a boolean value.
+ *
+ * @param field - Match field
+ * @returns True for isGroup and fromMe
+ */
+function isBooleanField(field: string): boolean {
+  return (BOOLEAN_MATCH_FIELDS as readonly string[]).includes(field)
+}
+
+/**
+ * Route Match Fields component.
+ *
+ * Must be rendered inside a react-hook-form `Form` for `RouteFormData`.
+ * Boolean fields offer true/false and only the equals/not equals operators;
+ * "is one of" operators take a comma-separated list.
+ *
+ * @returns React component for the match conditions editor
+ */
+export function RouteMatchFields() {
+  const form = useFormContext<RouteFormData>()
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'match.conditions',
+  })
+  const conditions = useWatch({ control: form.control, name: 'match.conditions' }) ?? []
+
+  /**
+   * Changes the field of a condition, resetting operator and value when
+   * switching between boolean and text fields.
+   *
+   * @param index - Condition index
+   * @param field - New field
+   */
+  const handleFieldChange = (index: number, field: RouteMatchField) => {
+    const previous = conditions[index]?.field
+    form.setValue(`match.conditions.${index}.field`, field)
+    if (previous && isBooleanField(previous) === isBooleanField(field)) {
+      return
+    }
+    form.setValue(`match.conditions.${index}.operator`, 'equals')
+    form.setValue(`match.conditions.${index}.value`, isBooleanField(field) ? 'true' : '')
+  }
+
+  return (
+    <div className="space-y-4">
+      {fields.length > 1 && (
+        <FormField
+          control={form.control}
+          name="match.operator"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Combine conditions</FormLabel>
+              <Select name="match.operator" value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="and">All conditions (AND)</SelectItem>
+                  <SelectItem value="or">Any condition (OR)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      {fields.map((item, index) => {
+        const fieldName = conditions[index]?.field ?? item.field
+        const operator = conditions[index]?.operator ?? item.operator
+        const booleanField = isBooleanField(fieldName)
+        const option = FIELD_OPTIONS.find((candidate) => candidate.value === fieldName)
+        const placeholder = operator === 'in' || operator === 'notIn'
+          ? `${option?.placeholder}, ...`
+          : option?.placeholder
+
+        return (
+          <div key={item.id} className="grid gap-2 sm:grid-cols-[1fr_1fr_2fr_auto] items-start">
+            <FormField
+              control={form.control}
+              name={`match.conditions.${index}.field`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="sr-only">Condition {index + 1} field</FormLabel>
+                  <Select
+                    name={`match.conditions.${index}.field`}
+                    value={field.value}
+                    onValueChange={(value) => handleFieldChange(index, value as RouteMatchField)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {FIELD_OPTIONS.map((candidate) => (
+                        <SelectItem key={candidate.value} value={candidate.value}>
+                          {candidate.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`match.conditions.${index}.operator`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="sr-only">Condition {index + 1} operator</FormLabel>
+                  <Select name={`match.conditions.${index}.operator`} value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {OPERATOR_OPTIONS
+                        .filter((candidate) => !booleanField || candidate.value === 'equals' || candidate.value === 'notEquals')
+                        .map((candidate) => (
+                          <SelectItem key={candidate.value} value={candidate.value}>
+                            {candidate.label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name={`match.conditions.${index}.value`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="sr-only">Condition {index + 1} value</FormLabel>
+                  {booleanField ? (
+                    <Select name={`match.conditions.${index}.value`} value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="true">true</SelectItem>
+                        <SelectItem value="false">false</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <FormControl>
+                      <Input
+                        className={operator === 'regex' ? 'font-mono' : undefined}
+                        placeholder={placeholder}
+                        {...field}
+                      />
+                    </FormControl>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove condition ${index + 1}`}
+              onClick={() => remove(index)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => append({ field: 'messageType', operator: 'equals', value: '' })}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add condition
+      </Button>
+    </div>
+  )
+}
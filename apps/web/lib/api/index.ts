@@ -9,3 +9,5 @@
 export { fetcher, mutator, getApiUrl } from './client'
 export { createRoute, updateRoute, deleteRoute } from './routes'
 export { getQRImageUrl } from './connection'
+export { pauseChat, resumeChat } from './takeovers'
+export { sendMessage } from './messages'
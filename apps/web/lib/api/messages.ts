@@ -0,0 +1,45 @@
+/**
+ * Messages API client.
+ * 
+ * This module provides functions for sending messages to chats, e.g. an
+ * operator replying from the dashboard.
+ * Following Clean Architecture, this is part of the Infrastructure Layer.
+ * 
+ * @module lib/api/messages
+ */
+
+import { mutator } from './client'
+import { logger, isDebugMode } from '../utils/logger'
+import type { ApiResponse, SendMessageRequest, SendMessageResult } from '../types'
+
+/**
+ * Sends a message through the WhatsApp provider.
+ * 
+ * @param message - Recipient, conversation and text of the message
+ * @returns Promise resolving to API response with the delivery result
+ * @throws {ApiError} If the message is invalid or could not be delivered
+ */
+export async function sendMessage(message: SendMessageRequest): Promise<ApiResponse<SendMessageResult>> {
+  if (isDebugMode()) {
+    logger.debug('[MessagesApi] Sending message', {
+      to: message.to,
+      channelId: message.channelId,
+      textLength: message.text.length,
+    })
+  }
+
+  try {
+    const result = await mutator<SendMessageResult>('/api/messages', 'POST', message)
+    logger.info('[MessagesApi] Message sent successfully', {
+      to: message.to,
+      messageId: result.data?.messageId,
+    })
+    return result
+  } catch (error) {
+    logger.error('[MessagesApi] Failed to send message', {
+      to: message.to,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
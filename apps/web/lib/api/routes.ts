@@ -44,6 +44,7 @@ export async function createRoute(route: Route): Promise<ApiResponse<Route>> {
   try {
     const result = await mutator<Route>('/api/routes', 'POST', route)
     logger.info('[RoutesApi] Route created successfully', {
+      id: result.data?.id,
       channelId: route.channelId,
     })
     return result
@@ -59,7 +60,7 @@ export async function createRoute(route: Route): Promise<ApiResponse<Route>> {
 /**
  * Updates an existing route.
  * 
- * @param channelId - Channel ID of the route to update
+ * @param id - ID of the route to update
  * @param route - Updated route data
  * @returns Promise resolving to API response with updated route
  * @throws {ApiError} If update fails (route not found, validation error, etc.)
@@ -67,7 +68,7 @@ export async function createRoute(route: Route): Promise<ApiResponse<Route>> {
  * @example
  * ```tsx
  * try {
- *   const response = await updateRoute('5493777239922', {
+ *   const response = await updateRoute('0b6f8f3e-6f1c-4f5e-9a43-2b1f1c9d7e10', {
  *     channelId: '5493777239922',
  *     agentEndpoint: 'http://localhost:8001',
  *     environment: 'prod',
@@ -80,27 +81,27 @@ export async function createRoute(route: Route): Promise<ApiResponse<Route>> {
  * ```
  */
 export async function updateRoute(
-  channelId: string,
+  id: string,
   route: Route
 ): Promise<ApiResponse<Route>> {
   if (isDebugMode()) {
     logger.debug('[RoutesApi] Updating route', {
-      channelId,
+      id,
       agentEndpoint: route.agentEndpoint,
     })
   }
 
   try {
     const result = await mutator<Route>(
-      `/api/routes/${encodeURIComponent(channelId)}`,
+      `/api/routes/${encodeURIComponent(id)}`,
       'PUT',
       route
     )
-    logger.info('[RoutesApi] Route updated successfully', { channelId })
+    logger.info('[RoutesApi] Route updated successfully', { id })
     return result
   } catch (error) {
     logger.error('[RoutesApi] Failed to update route', {
-      channelId,
+      id,
       error: error instanceof Error ? error.message : String(error),
     })
     throw error
@@ -110,31 +111,31 @@ export async function updateRoute(
 /**
  * Deletes a route.
  * 
- * @param channelId - Channel ID of the route to delete
+ * @param id - ID of the route to delete
  * @returns Promise resolving when deletion is complete
  * @throws {ApiError} If deletion fails (route not found, server error, etc.)
  * 
  * @example
  * ```tsx
  * try {
- *   await deleteRoute('5493777239922')
+ *   await deleteRoute('0b6f8f3e-6f1c-4f5e-9a43-2b1f1c9d7e10')
  *   console.log('Route deleted successfully')
  * } catch (error) {
  *   console.error('Failed to delete route:', error.message)
  * }
  * ```
  */
-export async function deleteRoute(channelId: string): Promise<void> {
+export async function deleteRoute(id: string): Promise<void> {
   if (isDebugMode()) {
-    logger.debug('[RoutesApi] Deleting route', { channelId })
+    logger.debug('[RoutesApi] Deleting route', { id })
   }
 
   try {
-    await mutator(`/api/routes/${encodeURIComponent(channelId)}`, 'DELETE')
-    logger.info('[RoutesApi] Route deleted successfully', { channelId })
+    await mutator(`/api/routes/${encodeURIComponent(id)}`, 'DELETE')
+    logger.info('[RoutesApi] Route deleted successfully', { id })
   } catch (error) {
     logger.error('[RoutesApi] Failed to delete route', {
-      channelId,
+      id,
       error: error instanceof Error ? error.message : String(error),
     })
     throw error
@@ -0,0 +1,67 @@
+/**
+ * Takeovers API client.
+ * 
+ * This module provides functions for pausing and resuming the agent in
+ * chats taken over by a human operator.
+ * Following Clean Architecture, this is part of the Infrastructure Layer.
+ * 
+ * @module lib/api/takeovers
+ */
+
+import { mutator } from './client'
+import { logger, isDebugMode } from '../utils/logger'
+import type { ApiResponse, ChatPause } from '../types'
+
+/**
+ * Pauses the agent in a chat.
+ * 
+ * @param chatId - Chat JID
+ * @param durationMs - How long to pause (default: the router's cooldown; 0: until resumed)
+ * @returns Promise resolving to API response with the pause
+ * @throws {ApiError} If the request fails
+ */
+export async function pauseChat(chatId: string, durationMs?: number): Promise<ApiResponse<ChatPause>> {
+  if (isDebugMode()) {
+    logger.debug('[TakeoversApi] Pausing chat', { chatId, durationMs })
+  }
+
+  try {
+    const result = await mutator<ChatPause>(
+      `/api/takeovers/${encodeURIComponent(chatId)}`,
+      'PUT',
+      durationMs !== undefined ? { durationMs } : {}
+    )
+    logger.info('[TakeoversApi] Chat paused successfully', { chatId })
+    return result
+  } catch (error) {
+    logger.error('[TakeoversApi] Failed to pause chat', {
+      chatId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
+
+/**
+ * Hands a chat back to the agent.
+ * 
+ * @param chatId - Chat JID
+ * @returns Promise resolving when the chat is resumed
+ * @throws {ApiError} If the chat is not paused or the request fails
+ */
+export async function resumeChat(chatId: string): Promise<void> {
+  if (isDebugMode()) {
+    logger.debug('[TakeoversApi] Resuming chat', { chatId })
+  }
+
+  try {
+    await mutator(`/api/takeovers/${encodeURIComponent(chatId)}`, 'DELETE')
+    logger.info('[TakeoversApi] Chat resumed successfully', { chatId })
+  } catch (error) {
+    logger.error('[TakeoversApi] Failed to resume chat', {
+      chatId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
@@ -11,4 +11,7 @@ export { useRoute } from './use-route'
 export { useConnectionStatus } from './use-connection-status'
 export { useQRImageUrl } from './use-qr-image-url'
 export { useDeleteRoute, useCreateRoute, useUpdateRoute } from './use-route-mutations'
+export { useTakeovers } from './use-takeovers'
+export { useConversations } from './use-conversations'
+export { useConversationMessages } from './use-conversation-messages'
 export { useToast } from './use-toast'
@@ -0,0 +1,77 @@
+/**
+ * Hook for fetching the messages of a conversation.
+ * 
+ * This hook provides reactive data fetching for a conversation transcript
+ * using SWR. Following Clean Architecture, this is part of the Application Layer.
+ * 
+ * @module lib/hooks/use-conversation-messages
+ */
+
+'use client'
+
+import useSWR from 'swr'
+import { fetcher } from '../api/client'
+import { logger, isDebugMode } from '../utils/logger'
+import type { ApiResponse, ConversationMessage } from '../types'
+
+/**
+ * Refresh interval for conversation messages (in milliseconds).
+ */
+const CONVERSATIONS_REFRESH_INTERVAL = parseInt(
+  process.env.NEXT_PUBLIC_CONVERSATIONS_REFRESH_INTERVAL || '5000',
+  10
+)
+
+/**
+ * Number of latest messages fetched.
+ */
+const MESSAGES_LIMIT = 100
+
+/**
+ * SWR hook for fetching the latest messages of a conversation.
+ * 
+ * Automatically refreshes every CONVERSATIONS_REFRESH_INTERVAL milliseconds.
+ * Messages are returned oldest first, in reading order.
+ * 
+ * @param channelId - Channel/group identifier, or null when no conversation is selected
+ * @returns Object with messages array, loading state, error state, and mutate function
+ * 
+ * @example
+ * ```tsx
+ * const { messages, isLoading, isError } = useConversationMessages('5491155551234')
+ * ```
+ */
+export function useConversationMessages(channelId: string | null) {
+  const { data, error, mutate } = useSWR<ApiResponse<ConversationMessage[]>>(
+    channelId
+      ? `/api/conversations/${encodeURIComponent(channelId)}/messages?limit=${MESSAGES_LIMIT}`
+      : null,
+    (url: string) => fetcher<ApiResponse<ConversationMessage[]>>(url),
+    {
+      refreshInterval: CONVERSATIONS_REFRESH_INTERVAL,
+      revalidateOnFocus: true,
+      revalidateOnReconnect: true,
+      onError: (err) => {
+        logger.error('[useConversationMessages] Error fetching messages', {
+          channelId,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      },
+    }
+  )
+
+  if (isDebugMode() && data) {
+    logger.debug('[useConversationMessages] Data updated', {
+      channelId,
+      messageCount: data.data?.length || 0,
+    })
+  }
+
+  return {
+    // The API lists newest first
+    messages: [...(data?.data || [])].reverse(),
+    isLoading: !error && !data && channelId !== null,
+    isError: error,
+    mutate,
+  }
+}
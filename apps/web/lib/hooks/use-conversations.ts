@@ -0,0 +1,70 @@
+/**
+ * Hook for fetching the conversation list.
+ * 
+ * This hook provides reactive data fetching for conversations using SWR.
+ * Following Clean Architecture, this is part of the Application Layer.
+ * 
+ * @module lib/hooks/use-conversations
+ */
+
+'use client'
+
+import useSWR from 'swr'
+import { fetcher } from '../api/client'
+import { logger, isDebugMode } from '../utils/logger'
+import type { ApiResponse, ConversationSummary } from '../types'
+
+/**
+ * Refresh interval for conversations (in milliseconds).
+ */
+const CONVERSATIONS_REFRESH_INTERVAL = parseInt(
+  process.env.NEXT_PUBLIC_CONVERSATIONS_REFRESH_INTERVAL || '5000',
+  10
+)
+
+/**
+ * SWR hook for fetching conversations, most recently active first.
+ * 
+ * Automatically refreshes every CONVERSATIONS_REFRESH_INTERVAL milliseconds.
+ * The previous results stay visible while a new search loads.
+ * 
+ * @param search - Phone number or text to search for (optional)
+ * @returns Object with conversations array, loading state, error state, and mutate function
+ * 
+ * @example
+ * ```tsx
+ * const { conversations, isLoading, isError } = useConversations('5491155')
+ * ```
+ */
+export function useConversations(search = '') {
+  const query = search.trim()
+  const { data, error, mutate } = useSWR<ApiResponse<ConversationSummary[]>>(
+    query ? `/api/conversations?search=${encodeURIComponent(query)}` : '/api/conversations',
+    (url: string) => fetcher<ApiResponse<ConversationSummary[]>>(url),
+    {
+      refreshInterval: CONVERSATIONS_REFRESH_INTERVAL,
+      revalidateOnFocus: true,
+      revalidateOnReconnect: true,
+      keepPreviousData: true,
+      onError: (err) => {
+        logger.error('[useConversations] Error fetching conversations', {
+          search: query,
+          error: err instanceof Error ? err.message : String(err),
+        })
+      },
+    }
+  )
+
+  if (isDebugMode() && data) {
+    logger.debug('[useConversations] Data updated', {
+      conversationCount: data.data?.length || 0,
+    })
+  }
+
+  return {
+    conversations: data?.data || [],
+    isLoading: !error && !data,
+    isError: error,
+    mutate,
+  }
+}
@@ -17,7 +17,7 @@ import type { Route, ApiResponse } from '../types'
 /**
  * Hook for deleting a route.
  * 
- * Returns a function that deletes a route by channelId.
+ * Returns a function that deletes a route by ID.
  * 
  * @returns Function to delete a route
  * 
@@ -27,7 +27,7 @@ import type { Route, ApiResponse } from '../types'
  * 
  * const handleDelete = async () => {
  *   try {
- *     await deleteRoute('5493777239922')
+ *     await deleteRoute('0b6f8f3e-6f1c-4f5e-9a43-2b1f1c9d7e10')
  *     // Route deleted successfully
  *   } catch (error) {
  *     // Handle error
@@ -36,17 +36,17 @@ import type { Route, ApiResponse } from '../types'
  * ```
  */
 export function useDeleteRoute() {
-  return useCallback(async (channelId: string): Promise<void> => {
+  return useCallback(async (id: string): Promise<void> => {
     if (isDebugMode()) {
-      logger.debug('[useDeleteRoute] Deleting route', { channelId })
+      logger.debug('[useDeleteRoute] Deleting route', { id })
     }
 
     try {
-      await deleteRoute(channelId)
-      logger.info('[useDeleteRoute] Route deleted successfully', { channelId })
+      await deleteRoute(id)
+      logger.info('[useDeleteRoute] Route deleted successfully', { id })
     } catch (error) {
       logger.error('[useDeleteRoute] Failed to delete route', {
-        channelId,
+        id,
         error: error instanceof Error ? error.message : String(error),
       })
       throw error
@@ -117,7 +117,7 @@ export function useCreateRoute() {
  * 
  * const handleUpdate = async () => {
  *   try {
- *     const result = await updateRoute('5493777239922', {
+ *     const result = await updateRoute('0b6f8f3e-6f1c-4f5e-9a43-2b1f1c9d7e10', {
  *       channelId: '5493777239922',
  *       agentEndpoint: 'http://localhost:8001',
  *       environment: 'prod',
@@ -131,21 +131,21 @@ export function useCreateRoute() {
  */
 export function useUpdateRoute() {
   return useCallback(
-    async (channelId: string, route: Route): Promise<ApiResponse<Route>> => {
+    async (id: string, route: Route): Promise<ApiResponse<Route>> => {
       if (isDebugMode()) {
         logger.debug('[useUpdateRoute] Updating route', {
-          channelId,
+          id,
           agentEndpoint: route.agentEndpoint,
         })
       }
 
       try {
-        const result = await updateRoute(channelId, route)
-        logger.info('[useUpdateRoute] Route updated successfully', { channelId })
+        const result = await updateRoute(id, route)
+        logger.info('[useUpdateRoute] Route updated successfully', { id })
         return result
       } catch (error) {
         logger.error('[useUpdateRoute] Failed to update route', {
-          channelId,
+          id,
           error: error instanceof Error ? error.message : String(error),
         })
         throw error
@@ -1,5 +1,5 @@
 /**
- * Hook for fetching a single route by channelId.
+ * Hook for fetching a single route by ID.
  * 
  * This hook provides reactive data fetching for a single route using SWR.
  * Following Clean Architecture, this is part of the Application Layer.
@@ -15,28 +15,28 @@ import { logger, isDebugMode } from '../utils/logger'
 import type { Route, ApiResponse } from '../types'
 
 /**
- * SWR hook for fetching a single route by channelId.
+ * SWR hook for fetching a single route by ID.
  * 
- * Does not auto-refresh (only fetches when channelId changes).
+ * Does not auto-refresh (only fetches when the ID changes).
  * 
- * @param channelId - Channel ID to fetch
+ * @param id - Route ID to fetch
  * @returns Object with route, loading state, and error state
  * 
  * @example
  * ```tsx
- * const { route, isLoading, isError } = useRoute('5493777239922')
+ * const { route, isLoading, isError } = useRoute('0b6f8f3e-6f1c-4f5e-9a43-2b1f1c9d7e10')
  * ```
  */
-export function useRoute(channelId: string | null) {
+export function useRoute(id: string | null) {
   const { data, error } = useSWR<ApiResponse<Route>>(
-    channelId ? `/api/routes/${encodeURIComponent(channelId)}` : null,
-    channelId ? (url: string) => fetcher<ApiResponse<Route>>(url) : null,
+    id ? `/api/routes/${encodeURIComponent(id)}` : null,
+    id ? (url: string) => fetcher<ApiResponse<Route>>(url) : null,
     {
       revalidateOnFocus: false,
       revalidateOnReconnect: false,
       onError: (err) => {
         logger.error('[useRoute] Error fetching route', {
-          channelId,
+          id,
           error: err instanceof Error ? err.message : String(err),
         })
       },
@@ -45,14 +45,14 @@ export function useRoute(channelId: string | null) {
 
   if (isDebugMode() && data) {
     logger.debug('[useRoute] Data updated', {
-      channelId,
+      id,
       hasRoute: !!data.data,
     })
   }
 
   return {
     route: data?.data || null,
-    isLoading: !error && !data && channelId !== null,
+    isLoading: !error && !data && id !== null,
     isError: error,
   }
 }
@@ -0,0 +1,65 @@
+/**
+ * Hook for fetching the chats taken over by human operators.
+ * 
+ * This hook provides reactive data fetching for paused chats using SWR.
+ * Following Clean Architecture, this is part of the Application Layer.
+ * 
+ * @module lib/hooks/use-takeovers
+ */
+
+'use client'
+
+import useSWR from 'swr'
+import { fetcher } from '../api/client'
+import { logger, isDebugMode } from '../utils/logger'
+import type { ApiResponse, ChatPause } from '../types'
+
+/**
+ * Refresh interval for paused chats (in milliseconds).
+ */
+const TAKEOVERS_REFRESH_INTERVAL = parseInt(
+  process.env.NEXT_PUBLIC_TAKEOVERS_REFRESH_INTERVAL || '10000',
+  10
+)
+
+/**
+ * SWR hook for fetching the chats where the agent is paused.
+ * 
+ * Automatically refreshes every TAKEOVERS_REFRESH_INTERVAL milliseconds.
+ * 
+ * @returns Object with pauses array, loading state, error state, and mutate function
+ * 
+ * @example
+ * ```tsx
+ * const { pauses, isLoading, isError, mutate } = useTakeovers()
+ * ```
+ */
+export function useTakeovers() {
+  const { data, error, mutate } = useSWR<ApiResponse<ChatPause[]>>(
+    '/api/takeovers',
+    (url: string) => fetcher<ApiResponse<ChatPause[]>>(url),
+    {
+      refreshInterval: TAKEOVERS_REFRESH_INTERVAL,
+      revalidateOnFocus: true,
+      revalidateOnReconnect: true,
+      onError: (err) => {
+        logger.error('[useTakeovers] Error fetching paused chats', {
+          error: err instanceof Error ? err.message : String(err),
+        })
+      },
+    }
+  )
+
+  if (isDebugMode() && data) {
+    logger.debug('[useTakeovers] Data updated', {
+      pauseCount: data.data?.length || 0,
+    })
+  }
+
+  return {
+    pauses: data?.data || [],
+    isLoading: !error && !data,
+    isError: error,
+    mutate,
+  }
+}
@@ -11,12 +11,85 @@
 
 import { z } from 'zod'
 
+/**
+ * Checks whether a string compiles as a JavaScript regular expression.
+ * 
+ * Empty values are considered valid (the regex filter is optional).
+ * 
+ * @param pattern - Pattern to check
+ * @returns True if the pattern is empty or a valid regular expression
+ */
+export function isValidRegex(pattern: string | undefined): boolean {
+  if (!pattern) {
+    return true
+  }
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
 /**
  * Schema for ADK configuration within a route.
  */
 export const adkConfigSchema = z.object({
-  appName: z.string().min(1, 'App name is required'),
-  baseUrl: z.string().url('Base URL must be a valid URL').optional(),
+  appName: z
+    .string()
+    .min(1, 'App name is required')
+    .regex(/^[A-Za-z0-9_-]+$/, 'App name may only contain letters, numbers, hyphens and underscores'),
+  baseUrl: z
+    .union([z.literal(''), z.string().url('Base URL must be a valid URL')])
+    .optional(),
+  streaming: z.boolean().optional(),
+  streamingChunks: z.enum(['message', 'sentence']).optional(),
+  replyMode: z.enum(['last', 'all']).optional(),
+})
+
+/**
+ * Match fields holding a boolean value.
+ */
+export const BOOLEAN_MATCH_FIELDS = ['isGroup', 'fromMe'] as const
+
+/**
+ * Schema for a route match condition as edited in the form.
+ * 
+ * The value is always a string: "true"/"false" for boolean fields and a
+ * comma-separated list for the `in`/`notIn` operators.
+ */
+export const matchConditionSchema = z
+  .object({
+    field: z.enum(['sender', 'isGroup', 'messageType', 'fromMe', 'pushName']),
+    operator: z.enum(['equals', 'notEquals', 'in', 'notIn', 'regex']),
+    value: z.string(),
+  })
+  .superRefine((condition, ctx) => {
+    const isBooleanField = (BOOLEAN_MATCH_FIELDS as readonly string[]).includes(condition.field)
+    if (isBooleanField) {
+      if (condition.operator !== 'equals' && condition.operator !== 'notEquals') {
+        ctx.addIssue({ code: 'custom', path: ['operator'], message: 'Only "equals" and "not equals" apply to this field' })
+      }
+      if (condition.value !== 'true' && condition.value !== 'false') {
+        ctx.addIssue({ code: 'custom', path: ['value'], message: 'Value must be true or false' })
+      }
+      return
+    }
+    if (!condition.value.trim()) {
+      ctx.addIssue({ code: 'custom', path: ['value'], message: 'Value is required' })
+      return
+    }
+    if (condition.operator === 'regex' && !isValidRegex(condition.value)) {
+      ctx.addIssue({ code: 'custom', path: ['value'], message: 'Value must be a valid regular expression' })
+    }
+  })
+
+/**
+ * Schema for route match conditions as edited in the form.
+ */
+export const routeMatchSchema = z.object({
+  operator: z.enum(['and', 'or']),
+  conditions: z.array(matchConditionSchema),
 })
 
 /**
@@ -24,6 +97,22 @@ export const adkConfigSchema = z.object({
  */
 export const routeConfigSchema = z.object({
   adk: adkConfigSchema.optional(),
+  replyDelayMs: z
+    .number({ message: 'Delay must be a number' })
+    .int('Delay must be an integer')
+    .min(0, 'Delay must be 0 or more')
+    .max(60000, 'Delay must be at most 60000 ms')
+    .optional(),
+  debounceMs: z
+    .number({ message: 'Window must be a number' })
+    .int('Window must be an integer')
+    .min(0, 'Window must be 0 or more')
+    .max(30000, 'Window must be at most 30000 ms')
+    .optional(),
+  readReceipts: z.boolean().optional(),
+  typingIndicator: z.boolean().optional(),
+  quoteReplies: z.boolean().optional(),
+  groupMode: z.enum(['all', 'mention-only', 'mention-or-reply']).optional(),
 }).passthrough() // Allow additional fields
 
 /**
@@ -33,11 +122,19 @@ export const routeConfigSchema = z.object({
  */
 export const routeSchema = z.object({
   channelId: z.string().min(1, 'Channel ID is required'),
+  priority: z
+    .number({ message: 'Priority must be a number' })
+    .int('Priority must be an integer')
+    .optional(),
   agentEndpoint: z.string().url('Agent endpoint must be a valid URL'),
   environment: z.enum(['lab', 'prod'], {
     message: 'Environment must be either "lab" or "prod"',
   }),
-  regexFilter: z.string().optional(),
+  regexFilter: z
+    .string()
+    .optional()
+    .refine(isValidRegex, { message: 'Regex filter must be a valid regular expression' }),
+  match: routeMatchSchema.optional(),
   config: routeConfigSchema.optional(),
 })
 
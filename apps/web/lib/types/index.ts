@@ -23,20 +23,58 @@ export type ConnectionStatus =
   | 'qr_ready' 
   | 'disconnected'
 
+/**
+ * Message field tested by a route match condition.
+ */
+export type RouteMatchField = 'sender' | 'isGroup' | 'messageType' | 'fromMe' | 'pushName'
+
+/**
+ * Comparison applied by a route match condition.
+ */
+export type RouteMatchOperator = 'equals' | 'notEquals' | 'in' | 'notIn' | 'regex'
+
+/**
+ * Single route match condition.
+ */
+export interface RouteMatchCondition {
+  /** Message field to test */
+  field: RouteMatchField
+  /** Comparison to apply */
+  operator: RouteMatchOperator
+  /** Boolean for isGroup/fromMe, string list for in/notIn, string otherwise */
+  value: string | boolean | string[]
+}
+
+/**
+ * Route match conditions combined with AND or OR.
+ */
+export interface RouteMatch {
+  /** `and` requires every condition, `or` at least one */
+  operator: 'and' | 'or'
+  /** Conditions to evaluate */
+  conditions: RouteMatchCondition[]
+}
+
 /**
  * Route configuration interface.
  * 
  * Matches the Route model from the backend (`router/src/core/models.ts`).
  */
 export interface Route {
+  /** Unique route identifier (assigned by the backend on creation) */
+  id?: string
   /** Channel identifier that triggers this route (or "*" for wildcard) */
   channelId: string
+  /** Evaluation order within the channel (lower first, defaults to 0) */
+  priority?: number
   /** Agent endpoint URL */
   agentEndpoint: string
   /** Environment (lab or prod) */
   environment: Environment
   /** Optional regular expression to filter messages by text content */
   regexFilter?: string
+  /** Optional match conditions on message metadata */
+  match?: RouteMatch
   /** Additional route configuration */
   config?: {
     /** ADK (Agent Development Kit) configuration */
@@ -45,7 +83,25 @@ export interface Route {
       appName: string
       /** ADK server base URL (optional, defaults to agentEndpoint) */
       baseUrl?: string
+      /** Stream replies through /run_sse while the agent runs (optional, default false) */
+      streaming?: boolean
+      /** Streamed reply size (optional, default 'message') */
+      streamingChunks?: 'message' | 'sentence'
+      /** Reply with the last model event only, or with every model event (optional, default 'last') */
+      replyMode?: 'last' | 'all'
     }
+    /** Delay between consecutive replies in milliseconds (optional, default 0) */
+    replyDelayMs?: number
+    /** Window in milliseconds for merging consecutive messages from a sender (optional, default 0) */
+    debounceMs?: number
+    /** Mark incoming messages as read (optional, default true) */
+    readReceipts?: boolean
+    /** Show "typing..." while the agent works (optional, default true) */
+    typingIndicator?: boolean
+    /** Quote the user's message in replies (optional, default: only in groups) */
+    quoteReplies?: boolean
+    /** Which group messages reach the agent (optional, default 'all') */
+    groupMode?: 'all' | 'mention-only' | 'mention-or-reply'
     /** Additional configuration fields */
     [key: string]: unknown
   }
@@ -67,6 +123,142 @@ export interface ConnectionState {
   error?: string
 }
 
+/**
+ * A chat where the agent is paused because a human operator took over.
+ * 
+ * Matches the items of `GET /api/takeovers`.
+ */
+export interface ChatPause {
+  /** Chat JID (e.g. `5491155551234@s.whatsapp.net`) */
+  chatId: string
+  /** When the chat was paused (ISO 8601) */
+  pausedAt: string
+  /** When the agent takes over again (ISO 8601), or null until resumed */
+  until: string | null
+  /** `operator` when paused by a message from the phone, `api` when paused from the dashboard */
+  reason: 'operator' | 'api'
+}
+
+/**
+ * Whether a message was received from a user or sent to one.
+ */
+export type MessageDirection = 'inbound' | 'outbound'
+
+/**
+ * Latest activity of a conversation.
+ * 
+ * Matches the items of `GET /api/conversations`.
+ */
+export interface ConversationSummary {
+  /** Channel/group identifier */
+  channelId: string
+  /** Chat JID of the latest message */
+  chatId: string
+  /** Messages stored for the conversation */
+  messageCount: number
+  /** When the latest message was received or sent (ISO 8601) */
+  lastMessageAt: string
+  /** Text of the latest message */
+  lastMessageText: string
+  /** Direction of the latest message */
+  lastDirection: MessageDirection
+  /** Agent endpoint that handled the latest routed message */
+  lastAgentEndpoint?: string
+  /** Messages the agent failed to answer or that could not be delivered */
+  errorCount: number
+}
+
+/**
+ * A media file attached to a received message.
+ */
+export interface MessageAttachment {
+  /** Kind of media */
+  type: 'image' | 'video' | 'audio' | 'document' | 'sticker'
+  /** MIME type (e.g. `image/jpeg`) */
+  mimeType: string
+  /** Original file name (documents) */
+  filename?: string
+}
+
+/**
+ * A message of a conversation transcript.
+ * 
+ * Matches the items of `GET /api/conversations/:channelId/messages`.
+ */
+export interface ConversationMessage {
+  /** Record identifier */
+  id: string
+  /** Channel/group identifier */
+  channelId: string
+  /** Chat JID: the sender of inbound messages, the recipient of outbound ones */
+  chatId: string
+  /** Whether the message was received or sent */
+  direction: MessageDirection
+  /** Provider message ID */
+  messageId?: string
+  /** Message text (empty for media without caption) */
+  text: string
+  /** Media attached to a received message */
+  attachments?: MessageAttachment[]
+  /** Kind of rich content of a sent message (e.g. `image`, `location`) */
+  contentType?: string
+  /** ID of the route that handled the message */
+  routeId?: string
+  /** Agent endpoint that handled the message */
+  agentEndpoint?: string
+  /** Agent session ID */
+  sessionId?: string
+  /** Agent latency (received) or time to the reply (sent), in milliseconds */
+  latencyMs?: number
+  /** Whether the agent answered (received) or the reply was delivered (sent) */
+  success: boolean
+  /** Why the message failed */
+  error?: string
+  /** When the message was received or sent (ISO 8601) */
+  timestamp: string
+}
+
+/**
+ * A message to send to a chat.
+ * 
+ * Matches the body of `POST /api/messages`.
+ */
+export interface SendMessageRequest {
+  /** Recipient chat JID (e.g. `5491155551234@s.whatsapp.net`) */
+  to: string
+  /** Channel/group identifier (the conversation) */
+  channelId: string
+  /** Message text */
+  text: string
+  /** Message to reply to, shown as a quote */
+  quoted?: {
+    /** Provider message ID */
+    id: string
+    /** Text of the quoted message */
+    text?: string
+  }
+  /** Whether to pause the agent in the chat (default: true) */
+  pauseAgent?: boolean
+}
+
+/**
+ * Delivery result of a sent message.
+ * 
+ * Matches the data of `POST /api/messages`.
+ */
+export interface SendMessageResult {
+  /** Whether the provider accepted the message */
+  delivered: boolean
+  /** Provider ID of the sent message */
+  messageId?: string
+  /** Why the message could not be sent */
+  error?: string
+  /** When the message was sent (ISO 8601) */
+  sentAt: string
+  /** The pause of the agent in the chat, when it was paused */
+  pause?: ChatPause
+}
+
 /**
  * Generic API response wrapper.
  * 
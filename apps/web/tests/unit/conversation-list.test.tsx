@@ -0,0 +1,114 @@
+/**
+ * Unit tests for ConversationList component.
+ *
+ * Tests the list of conversations, state handling, and selecting a conversation.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ConversationList } from '@/components/conversations/conversation-list'
+import * as hooks from '@/lib/hooks/use-conversations'
+import type { ConversationSummary } from '@/lib/types'
+
+vi.mock('@/lib/hooks/use-conversations', () => ({
+  useConversations: vi.fn(),
+}))
+
+describe('ConversationList', () => {
+  const conversations: ConversationSummary[] = [
+    {
+      channelId: '5491155551234',
+      chatId: '5491155551234@s.whatsapp.net',
+      messageCount: 4,
+      lastMessageAt: '2026-01-01T12:00:00.000Z',
+      lastMessageText: 'Your order ships tomorrow.',
+      lastDirection: 'outbound',
+      lastAgentEndpoint: 'http://localhost:8000',
+      errorCount: 2,
+    },
+    {
+      channelId: '120363025246125486',
+      chatId: '120363025246125486@g.us',
+      messageCount: 1,
+      lastMessageAt: '2026-01-01T11:00:00.000Z',
+      lastMessageText: 'Hola',
+      lastDirection: 'inbound',
+      errorCount: 0,
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const mockConversations = (overrides: Partial<ReturnType<typeof hooks.useConversations>> = {}) => {
+    vi.mocked(hooks.useConversations).mockReturnValue({
+      conversations,
+      isLoading: false,
+      isError: undefined,
+      mutate: vi.fn(),
+      ...overrides,
+    })
+  }
+
+  it('should display loading state with skeletons', () => {
+    mockConversations({ conversations: [], isLoading: true })
+
+    render(<ConversationList search="" selectedChannelId={null} onSelect={vi.fn()} />)
+
+    expect(document.querySelectorAll('.animate-pulse').length).toBeGreaterThan(0)
+  })
+
+  it('should display error state with alert', () => {
+    mockConversations({ conversations: [], isError: new Error('Network error') })
+
+    render(<ConversationList search="" selectedChannelId={null} onSelect={vi.fn()} />)
+
+    expect(screen.getByText('Failed to load conversations. Please try again later.')).toBeInTheDocument()
+  })
+
+  it('should tell an empty inbox from a search without results', () => {
+    mockConversations({ conversations: [] })
+
+    const { rerender } = render(<ConversationList search="" selectedChannelId={null} onSelect={vi.fn()} />)
+    expect(screen.getByText('No conversations yet')).toBeInTheDocument()
+
+    rerender(<ConversationList search="999" selectedChannelId={null} onSelect={vi.fn()} />)
+    expect(screen.getByText('No conversations match your search')).toBeInTheDocument()
+  })
+
+  it('should pass the search to the hook', () => {
+    mockConversations()
+
+    render(<ConversationList search="549115" selectedChannelId={null} onSelect={vi.fn()} />)
+
+    expect(hooks.useConversations).toHaveBeenCalledWith('549115')
+  })
+
+  it('should list conversations with the last message, agent and errors', () => {
+    mockConversations()
+
+    render(<ConversationList search="" selectedChannelId={null} onSelect={vi.fn()} />)
+
+    expect(screen.getByText('5491155551234')).toBeInTheDocument()
+    expect(screen.getByText('Agent: Your order ships tomorrow.')).toBeInTheDocument()
+    expect(screen.getByText('http://localhost:8000')).toBeInTheDocument()
+    expect(screen.getByText('2 errors')).toBeInTheDocument()
+    expect(screen.getByText('Hola')).toBeInTheDocument()
+    expect(screen.getByText('No agent')).toBeInTheDocument()
+    expect(screen.getByLabelText('Group')).toBeInTheDocument()
+  })
+
+  it('should select a conversation and mark the selected one', async () => {
+    const user = userEvent.setup()
+    const onSelect = vi.fn()
+    mockConversations()
+
+    render(<ConversationList search="" selectedChannelId="120363025246125486" onSelect={onSelect} />)
+    await user.click(screen.getByText('5491155551234'))
+
+    expect(onSelect).toHaveBeenCalledWith(conversations[0])
+    expect(screen.getByText('Hola').closest('button')).toHaveAttribute('aria-current', 'true')
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for ConversationThread and MessageBubble components.
+ *
+ * Tests the message thread, state handling, media placeholders and failures.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ConversationThread } from '@/components/conversations/conversation-thread'
+import { MessageBubble } from '@/components/conversations/message-bubble'
+import * as hooks from '@/lib/hooks/use-conversation-messages'
+import type { ConversationMessage } from '@/lib/types'
+
+vi.mock('@/lib/hooks/use-conversation-messages', () => ({
+  useConversationMessages: vi.fn(),
+}))
+
+vi.mock('@/lib/api/messages', () => ({
+  sendMessage: vi.fn(),
+}))
+
+describe('ConversationThread', () => {
+  const inbound: ConversationMessage = {
+    id: 'record-1',
+    channelId: '5491155551234',
+    chatId: '5491155551234@s.whatsapp.net',
+    direction: 'inbound',
+    messageId: 'MSG001',
+    text: 'Where is my order?',
+    agentEndpoint: 'http://localhost:8000',
+    latencyMs: 1200,
+    success: true,
+    timestamp: '2026-01-01T10:00:00.000Z',
+  }
+  const outbound: ConversationMessage = {
+    ...inbound,
+    id: 'record-2',
+    direction: 'outbound',
+    messageId: '3EB0A1B2C3D4E5F6',
+    text: 'It ships tomorrow.',
+    timestamp: '2026-01-01T10:00:02.000Z',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const mockMessages = (overrides: Partial<ReturnType<typeof hooks.useConversationMessages>> = {}) => {
+    vi.mocked(hooks.useConversationMessages).mockReturnValue({
+      messages: [inbound, outbound],
+      isLoading: false,
+      isError: undefined,
+      mutate: vi.fn(),
+      ...overrides,
+    })
+  }
+
+  it('should display loading state with skeletons', () => {
+    mockMessages({ messages: [], isLoading: true })
+
+    render(<ConversationThread channelId="5491155551234" chatId="5491155551234@s.whatsapp.net" />)
+
+    expect(document.querySelectorAll('.animate-pulse').length).toBeGreaterThan(0)
+  })
+
+  it('should display error state with alert', () => {
+    mockMessages({ messages: [], isError: new Error('Network error') })
+
+    render(<ConversationThread channelId="5491155551234" chatId="5491155551234@s.whatsapp.net" />)
+
+    expect(screen.getByText('Failed to load messages. Please try again later.')).toBeInTheDocument()
+  })
+
+  it('should say when the conversation has no messages', () => {
+    mockMessages({ messages: [] })
+
+    render(<ConversationThread channelId="5491155551234" chatId="5491155551234@s.whatsapp.net" />)
+
+    expect(screen.getByText('No messages')).toBeInTheDocument()
+  })
+
+  it('should show user messages and agent replies in order', () => {
+    mockMessages()
+
+    render(<ConversationThread channelId="5491155551234" chatId="5491155551234@s.whatsapp.net" />)
+
+    expect(hooks.useConversationMessages).toHaveBeenCalledWith('5491155551234')
+    const bubbles = document.querySelectorAll('[data-direction]')
+    expect(Array.from(bubbles).map((bubble) => bubble.getAttribute('data-direction'))).toEqual(['inbound', 'outbound'])
+    expect(bubbles[0]).toHaveTextContent('Where is my order?')
+    expect(bubbles[1]).toHaveTextContent('It ships tomorrow.')
+    expect(screen.queryByText(/Operator/)).not.toBeInTheDocument()
+  })
+
+  it('should show the composer even without messages', () => {
+    mockMessages({ messages: [] })
+
+    render(<ConversationThread channelId="5491155551234" chatId="5491155551234@s.whatsapp.net" />)
+
+    expect(screen.getByLabelText('Message')).toBeInTheDocument()
+  })
+
+  describe('MessageBubble', () => {
+    it('should show placeholders for media', () => {
+      render(
+        <MessageBubble
+          message={{
+            ...inbound,
+            text: '',
+            attachments: [
+              { type: 'image', mimeType: 'image/jpeg' },
+              { type: 'document', mimeType: 'application/pdf', filename: 'invoice.pdf' },
+            ],
+          }}
+        />
+      )
+
+      expect(screen.getByText('image')).toBeInTheDocument()
+      expect(screen.getByText('invoice.pdf')).toBeInTheDocument()
+    })
+
+    it('should show the rich content of agent replies', () => {
+      render(<MessageBubble message={{ ...outbound, contentType: 'location' }} />)
+
+      expect(screen.getByText('location')).toBeInTheDocument()
+      expect(screen.getByText('It ships tomorrow.')).toBeInTheDocument()
+    })
+
+    it('should show failed deliveries', () => {
+      render(<MessageBubble message={{ ...outbound, success: false, error: 'Connection closed' }} />)
+
+      expect(screen.getByText('Not delivered: Connection closed')).toBeInTheDocument()
+    })
+
+    it('should mark messages sent by an operator', () => {
+      render(<MessageBubble message={{ ...outbound, agentEndpoint: undefined }} />)
+
+      expect(screen.getByText(/Operator/)).toBeInTheDocument()
+    })
+
+    it('should show messages the agent did not answer', () => {
+      render(<MessageBubble message={{ ...inbound, success: false, error: 'Agent down' }} />)
+
+      expect(screen.getByText('Not answered: Agent down')).toBeInTheDocument()
+    })
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for MessageComposer component.
+ *
+ * Tests sending a message from the dashboard and error handling.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MessageComposer } from '@/components/conversations/message-composer'
+import * as api from '@/lib/api/messages'
+
+vi.mock('@/lib/api/messages', () => ({
+  sendMessage: vi.fn(),
+}))
+
+const mockToast = vi.fn()
+vi.mock('@/lib/hooks/use-toast', () => ({
+  useToast: vi.fn(() => ({
+    toast: mockToast,
+    dismiss: vi.fn(),
+    toasts: [],
+  })),
+}))
+
+describe('MessageComposer', () => {
+  const to = '5491155551234@s.whatsapp.net'
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should not send an empty message', () => {
+    render(<MessageComposer channelId="5491155551234" to={to} />)
+
+    expect(screen.getByRole('button', { name: 'Send message' })).toBeDisabled()
+  })
+
+  it('should send the message, clear the composer and refresh the thread', async () => {
+    const user = userEvent.setup()
+    const onSent = vi.fn()
+    vi.mocked(api.sendMessage).mockResolvedValue({
+      success: true,
+      data: {
+        delivered: true,
+        messageId: '3EB0A1B2C3D4E5F6',
+        sentAt: '2026-01-01T10:05:00.000Z',
+        pause: { chatId: to, pausedAt: '2026-01-01T10:05:00.000Z', until: null, reason: 'api' },
+      },
+    })
+
+    render(<MessageComposer channelId="5491155551234" to={to} onSent={onSent} />)
+    await user.type(screen.getByLabelText('Message'), 'Let me check')
+    await user.click(screen.getByRole('button', { name: 'Send message' }))
+
+    await waitFor(() => {
+      expect(api.sendMessage).toHaveBeenCalledWith({ to, channelId: '5491155551234', text: 'Let me check' })
+      expect(onSent).toHaveBeenCalled()
+      expect(screen.getByLabelText('Message')).toHaveValue('')
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Message sent' }))
+    })
+  })
+
+  it('should send on Enter and keep Shift+Enter for new lines', async () => {
+    const user = userEvent.setup()
+    vi.mocked(api.sendMessage).mockResolvedValue({ success: true })
+
+    render(<MessageComposer channelId="5491155551234" to={to} />)
+    await user.type(screen.getByLabelText('Message'), 'Line 1{Shift>}{Enter}{/Shift}Line 2{Enter}')
+
+    await waitFor(() => {
+      expect(api.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ text: 'Line 1\nLine 2' }))
+    })
+  })
+
+  it('should keep the text and show an error toast when sending fails', async () => {
+    const user = userEvent.setup()
+    vi.mocked(api.sendMessage).mockRejectedValue(new Error('Failed to send message: Connection closed'))
+
+    render(<MessageComposer channelId="5491155551234" to={to} />)
+    await user.type(screen.getByLabelText('Message'), 'Hello')
+    await user.click(screen.getByRole('button', { name: 'Send message' }))
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Error sending message',
+        description: 'Failed to send message: Connection closed',
+        variant: 'destructive',
+      }))
+    })
+    expect(screen.getByLabelText('Message')).toHaveValue('Hello')
+  })
+})
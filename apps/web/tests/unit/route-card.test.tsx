@@ -28,7 +28,9 @@ vi.mock('next/link', () => ({
 
 describe('RouteCard', () => {
   const mockRoute: Route = {
+    id: 'route-1',
     channelId: '5493777239922',
+    priority: 5,
     agentEndpoint: 'http://localhost:8000',
     environment: 'lab',
     regexFilter: '^Test.*',
@@ -58,6 +60,45 @@ describe('RouteCard', () => {
       expect(screen.getByText('http://localhost:8000')).toBeInTheDocument()
     })
 
+    it('should render priority', () => {
+      render(<RouteCard route={mockRoute} />)
+
+      expect(screen.getByText('Priority')).toBeInTheDocument()
+      expect(screen.getByText('5')).toBeInTheDocument()
+    })
+
+    it('should render default priority when route has none', () => {
+      render(<RouteCard route={{ ...mockRoute, priority: undefined }} />)
+
+      expect(screen.getByText('0')).toBeInTheDocument()
+    })
+
+    it('should summarize match conditions', () => {
+      render(
+        <RouteCard
+          route={{
+            ...mockRoute,
+            match: {
+              operator: 'or',
+              conditions: [
+                { field: 'isGroup', operator: 'equals', value: true },
+                { field: 'messageType', operator: 'equals', value: 'audioMessage' },
+              ],
+            },
+          }}
+        />
+      )
+
+      expect(screen.getByText('Match Conditions')).toBeInTheDocument()
+      expect(screen.getByText('2 conditions (OR)')).toBeInTheDocument()
+    })
+
+    it('should not render match conditions when route has none', () => {
+      render(<RouteCard route={mockRoute} />)
+
+      expect(screen.queryByText('Match Conditions')).not.toBeInTheDocument()
+    })
+
     it('should render with correct title attribute for channelId', () => {
       render(<RouteCard route={mockRoute} />)
 
@@ -254,7 +295,7 @@ describe('RouteCard', () => {
       expect(editButton).toBeInTheDocument()
       
       const editLink = editButton.closest('a')
-      expect(editLink).toHaveAttribute('href', '/routes/5493777239922/edit')
+      expect(editLink).toHaveAttribute('href', '/routes/route-1/edit')
     })
 
     it('should render Delete button', () => {
@@ -264,33 +305,16 @@ describe('RouteCard', () => {
       expect(deleteButton).toBeInTheDocument()
     })
 
-    it('should encode channelId correctly in edit URL', () => {
+    it('should encode route ID correctly in edit URL', () => {
       const routeWithSpecialChars: Route = {
         ...mockRoute,
-        channelId: 'test@example.com',
+        id: 'route/1',
       }
 
       render(<RouteCard route={routeWithSpecialChars} />)
 
       const editLink = screen.getByText('Edit').closest('a')
-      expect(editLink).toHaveAttribute('href', '/routes/test%40example.com/edit')
-    })
-
-    it('should encode wildcard channelId correctly in edit URL', () => {
-      const wildcardRoute: Route = {
-        ...mockRoute,
-        channelId: '*',
-      }
-
-      render(<RouteCard route={wildcardRoute} />)
-
-      const editLink = screen.getByText('Edit').closest('a')
-      // Next.js Link may handle encoding differently, but the component uses encodeURIComponent
-      // The href should contain the encoded or raw wildcard
-      const href = editLink?.getAttribute('href')
-      expect(href).toBeTruthy()
-      // Either encoded or raw wildcard is acceptable (Next.js Link behavior)
-      expect(href === '/routes/%2A/edit' || href === '/routes/*/edit').toBe(true)
+      expect(editLink).toHaveAttribute('href', '/routes/route%2F1/edit')
     })
   })
 
@@ -0,0 +1,391 @@
+/**
+ * Unit tests for RouteForm component.
+ *
+ * Tests rendering, validation, payload cleanup, match condition editing
+ * and inline display of API validation errors (INVALID_REGEX_PATTERN).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { RouteForm } from '@/components/routes/route-form'
+import type { ApiError, Route } from '@/lib/types'
+
+// Mock next/link
+vi.mock('next/link', () => ({
+  default: ({ children, href }: { children: React.ReactNode; href: string }) => (
+    <a href={href}>{children}</a>
+  ),
+}))
+
+// Mock Select component to use native select for easier testing
+vi.mock('@/components/ui/select', () => ({
+  Select: ({ children, name, value, onValueChange }: { children: React.ReactNode; name: string; value: string; onValueChange: (value: string) => void }) => (
+    <select value={value} onChange={(e) => onValueChange(e.target.value)} data-testid={`${name}-select`}>
+      {children}
+    </select>
+  ),
+  SelectTrigger: ({ children }: { children: React.ReactNode }) => <>{children}</>,
+  SelectValue: () => null,
+  SelectContent: ({ children }: { children: React.ReactNode }) => <>{children}</>,
+  SelectItem: ({ children, value }: { children: React.ReactNode; value: string }) => (
+    <option value={value}>{children}</option>
+  ),
+}))
+
+describe('RouteForm', () => {
+  const onSubmit = vi.fn<(route: Route) => Promise<void>>()
+
+  beforeEach(() => {
+    onSubmit.mockReset()
+    onSubmit.mockResolvedValue(undefined)
+  })
+
+  /**
+   * Fills the required fields with valid values.
+   */
+  async function fillRequiredFields(user: ReturnType<typeof userEvent.setup>) {
+    await user.type(screen.getByLabelText(/Channel ID/), '5491155551234')
+    await user.type(screen.getByLabelText(/Agent Endpoint/), 'http://localhost:8000')
+    await user.type(screen.getByLabelText(/Agent Name/), 'my_agent')
+  }
+
+  it('should render all sections and fields', () => {
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    expect(screen.getByText('Basic Configuration')).toBeInTheDocument()
+    expect(screen.getByText('ADK Configuration')).toBeInTheDocument()
+    expect(screen.getByText('Advanced')).toBeInTheDocument()
+    expect(screen.getByLabelText(/Channel ID/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Agent Endpoint/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Agent Name/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Base URL/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Regex Filter/)).toBeInTheDocument()
+    expect(screen.getByLabelText(/Priority/)).toHaveValue(0)
+    expect(screen.getByRole('link', { name: 'Cancel' })).toHaveAttribute('href', '/routes')
+  })
+
+  it('should show validation errors for missing required fields', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    expect(await screen.findByText('Channel ID is required')).toBeInTheDocument()
+    expect(screen.getByText('Agent endpoint must be a valid URL')).toBeInTheDocument()
+    expect(screen.getByText('App name is required')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('should reject an invalid regex before submitting', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.type(screen.getByLabelText(/Regex Filter/), '[[invalid')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    expect(await screen.findByText('Regex filter must be a valid regular expression')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('should reject a non-integer priority before submitting', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.clear(screen.getByLabelText(/Priority/))
+    await user.type(screen.getByLabelText(/Priority/), '1.5')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    expect(await screen.findByText('Priority must be an integer')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('should submit a cleaned route payload', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.selectOptions(screen.getByTestId('environment-select'), 'prod')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({
+        channelId: '5491155551234',
+        priority: 0,
+        agentEndpoint: 'http://localhost:8000',
+        environment: 'prod',
+        config: { adk: { appName: 'my_agent' } },
+      })
+    })
+  })
+
+  it('should pre-fill fields and keep extra config when editing', async () => {
+    const user = userEvent.setup()
+    const route: Route = {
+      channelId: '*',
+      priority: 3,
+      agentEndpoint: 'http://localhost:8001',
+      environment: 'lab',
+      regexFilter: '^Test',
+      config: { adk: { appName: 'agent', baseUrl: 'http://adk:8000' }, timeout: 5000 },
+    }
+    render(<RouteForm initialRoute={route} onSubmit={onSubmit} />)
+
+    expect(screen.getByLabelText(/Channel ID/)).toHaveValue('*')
+    expect(screen.getByLabelText(/Priority/)).toHaveValue(3)
+    expect(screen.getByLabelText(/Regex Filter/)).toHaveValue('^Test')
+    expect(screen.getByLabelText(/Base URL/)).toHaveValue('http://adk:8000')
+
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(route)
+    })
+  })
+
+  it('should submit the streaming reply delivery', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.selectOptions(screen.getByTestId('config.adk.streaming-select'), 'sentence')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        config: { adk: { appName: 'my_agent', streaming: true, streamingChunks: 'sentence' } },
+      }))
+    })
+  })
+
+  it('should submit every-message replies with a delay', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.selectOptions(screen.getByTestId('config.adk.replyMode-select'), 'all')
+    await user.clear(screen.getByLabelText(/Delay Between Replies/))
+    await user.type(screen.getByLabelText(/Delay Between Replies/), '1500')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        config: { adk: { appName: 'my_agent', replyMode: 'all' }, replyDelayMs: 1500 },
+      }))
+    })
+  })
+
+  it('should submit a window for merging messages', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.clear(screen.getByLabelText(/Merge Messages Within/))
+    await user.type(screen.getByLabelText(/Merge Messages Within/), '2000')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        config: { adk: { appName: 'my_agent' }, debounceMs: 2000 },
+      }))
+    })
+  })
+
+  it('should submit read receipt and typing indicator opt-outs', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    expect(screen.getByTestId('config.readReceipts-select')).toHaveValue('on')
+    await user.selectOptions(screen.getByTestId('config.readReceipts-select'), 'off')
+    await user.selectOptions(screen.getByTestId('config.typingIndicator-select'), 'off')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        config: { adk: { appName: 'my_agent' }, readReceipts: false, typingIndicator: false },
+      }))
+    })
+  })
+
+  it('should submit and pre-fill the quote replies option', async () => {
+    const user = userEvent.setup()
+    const { unmount } = render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    expect(screen.getByTestId('config.quoteReplies-select')).toHaveValue('groups')
+    await user.selectOptions(screen.getByTestId('config.quoteReplies-select'), 'always')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        config: { adk: { appName: 'my_agent' }, quoteReplies: true },
+      }))
+    })
+    unmount()
+
+    render(
+      <RouteForm
+        initialRoute={{
+          channelId: '*',
+          agentEndpoint: 'http://localhost:8001',
+          environment: 'lab',
+          config: { adk: { appName: 'agent' }, quoteReplies: false },
+        }}
+        onSubmit={onSubmit}
+      />
+    )
+    expect(screen.getByTestId('config.quoteReplies-select')).toHaveValue('never')
+  })
+
+  it('should submit and pre-fill the group mode', async () => {
+    const user = userEvent.setup()
+    const { unmount } = render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    expect(screen.getByTestId('config.groupMode-select')).toHaveValue('all')
+    await user.selectOptions(screen.getByTestId('config.groupMode-select'), 'mention-or-reply')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        config: { adk: { appName: 'my_agent' }, groupMode: 'mention-or-reply' },
+      }))
+    })
+    unmount()
+
+    render(
+      <RouteForm
+        initialRoute={{
+          channelId: '*',
+          agentEndpoint: 'http://localhost:8001',
+          environment: 'lab',
+          config: { adk: { appName: 'agent' }, groupMode: 'mention-only' },
+        }}
+        onSubmit={onSubmit}
+      />
+    )
+    expect(screen.getByTestId('config.groupMode-select')).toHaveValue('mention-only')
+  })
+
+  it('should pre-fill the streaming reply delivery when editing', () => {
+    render(
+      <RouteForm
+        initialRoute={{
+          channelId: '*',
+          agentEndpoint: 'http://localhost:8001',
+          environment: 'lab',
+          config: { adk: { appName: 'agent', streaming: true, streamingChunks: 'message' } },
+        }}
+        onSubmit={onSubmit}
+      />
+    )
+
+    expect(screen.getByTestId('config.adk.streaming-select')).toHaveValue('message')
+  })
+
+  it('should submit match conditions in the API format', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.click(screen.getByRole('button', { name: 'Add condition' }))
+    await user.selectOptions(screen.getByTestId('match.conditions.0.operator-select'), 'in')
+    await user.type(screen.getByLabelText('Condition 1 value'), 'audioMessage, imageMessage')
+    await user.click(screen.getByRole('button', { name: 'Add condition' }))
+    await user.selectOptions(screen.getByTestId('match.conditions.1.field-select'), 'isGroup')
+    await user.selectOptions(screen.getByTestId('match.operator-select'), 'or')
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        match: {
+          operator: 'or',
+          conditions: [
+            { field: 'messageType', operator: 'in', value: ['audioMessage', 'imageMessage'] },
+            { field: 'isGroup', operator: 'equals', value: true },
+          ],
+        },
+      }))
+    })
+  })
+
+  it('should pre-fill match conditions when editing', async () => {
+    const user = userEvent.setup()
+    const route: Route = {
+      channelId: '*',
+      priority: 0,
+      agentEndpoint: 'http://localhost:8001',
+      environment: 'lab',
+      match: {
+        operator: 'and',
+        conditions: [
+          { field: 'sender', operator: 'notIn', value: ['5491111111111', '5492222222222'] },
+          { field: 'fromMe', operator: 'equals', value: false },
+        ],
+      },
+      config: { adk: { appName: 'agent' } },
+    }
+    render(<RouteForm initialRoute={route} onSubmit={onSubmit} />)
+
+    expect(screen.getByLabelText('Condition 1 value')).toHaveValue('5491111111111, 5492222222222')
+    expect(screen.getByTestId('match.conditions.1.value-select')).toHaveValue('false')
+
+    await user.click(screen.getByRole('button', { name: 'Remove condition 2' }))
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({
+        ...route,
+        match: {
+          operator: 'and',
+          conditions: [{ field: 'sender', operator: 'notIn', value: ['5491111111111', '5492222222222'] }],
+        },
+      })
+    })
+  })
+
+  it('should require a value for text match conditions', async () => {
+    const user = userEvent.setup()
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.click(screen.getByRole('button', { name: 'Add condition' }))
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    expect(await screen.findByText('Value is required')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('should display INVALID_REGEX_PATTERN details inline on the regex field', async () => {
+    const user = userEvent.setup()
+    const apiError = new Error('Invalid regex pattern: Nothing to repeat') as ApiError
+    apiError.code = 'INVALID_REGEX_PATTERN'
+    apiError.details = { field: 'regexFilter', value: '*a', message: 'Nothing to repeat' }
+    onSubmit.mockRejectedValueOnce(apiError)
+
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    const message = await screen.findByText('Nothing to repeat')
+    expect(message).toBeInTheDocument()
+    expect(screen.getByLabelText(/Regex Filter/)).toHaveAttribute('aria-invalid', 'true')
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+  })
+
+  it('should display other API errors at the top of the form', async () => {
+    const user = userEvent.setup()
+    onSubmit.mockRejectedValueOnce(new Error('Server exploded'))
+
+    render(<RouteForm onSubmit={onSubmit} />)
+
+    await fillRequiredFields(user)
+    await user.click(screen.getByRole('button', { name: 'Save Route' }))
+
+    expect(await screen.findByText('Server exploded')).toBeInTheDocument()
+  })
+})
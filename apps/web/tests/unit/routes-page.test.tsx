@@ -103,6 +103,7 @@ vi.mock('next/navigation', () => ({
 describe('RoutesPage', () => {
   const mockRoutes: Route[] = [
     {
+      id: 'route-1',
       channelId: '5493777239922',
       agentEndpoint: 'http://localhost:8000',
       environment: 'lab',
@@ -113,18 +114,21 @@ describe('RoutesPage', () => {
       },
     },
     {
+      id: 'route-2',
       channelId: '5493777239923',
       agentEndpoint: 'http://localhost:8001',
       environment: 'lab',
       regexFilter: '^Test.*',
     },
     {
+      id: 'route-3',
       channelId: '*',
       agentEndpoint: 'http://localhost:8002',
       environment: 'prod',
       regexFilter: '^Prod.*',
     },
     {
+      id: 'route-4',
       channelId: '1234567890',
       agentEndpoint: 'https://api.example.com/agent',
       environment: 'prod',
@@ -780,7 +784,7 @@ describe('RoutesPage', () => {
       await user.click(confirmButton)
 
       await waitFor(() => {
-        expect(mockDeleteRouteFn).toHaveBeenCalledWith(mockRoutes[0].channelId)
+        expect(mockDeleteRouteFn).toHaveBeenCalledWith(mockRoutes[0].id)
         expect(mockMutate).toHaveBeenCalled()
       })
     })
@@ -56,6 +56,7 @@ describe('Sidebar', () => {
     expect(screen.getByText('Dashboard')).toBeInTheDocument()
     expect(screen.getByText('Connection')).toBeInTheDocument()
     expect(screen.getByText('Routes')).toBeInTheDocument()
+    expect(screen.getByText('Conversations')).toBeInTheDocument()
   })
 
   it('should render logo', () => {
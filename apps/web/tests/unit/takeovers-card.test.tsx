@@ -0,0 +1,151 @@
+/**
+ * Unit tests for TakeoversCard component.
+ *
+ * Tests the list of paused chats, state handling, and resuming a chat.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { TakeoversCard } from '@/components/dashboard/takeovers-card'
+import * as hooks from '@/lib/hooks/use-takeovers'
+import * as api from '@/lib/api/takeovers'
+import type { ChatPause } from '@/lib/types'
+
+vi.mock('@/lib/hooks/use-takeovers', () => ({
+  useTakeovers: vi.fn(),
+}))
+
+vi.mock('@/lib/api/takeovers', () => ({
+  resumeChat: vi.fn(),
+}))
+
+const mockToast = vi.fn()
+vi.mock('@/lib/hooks/use-toast', () => ({
+  useToast: vi.fn(() => ({
+    toast: mockToast,
+    dismiss: vi.fn(),
+    toasts: [],
+  })),
+}))
+
+describe('TakeoversCard', () => {
+  const pauses: ChatPause[] = [
+    {
+      chatId: '5491155551234@s.whatsapp.net',
+      pausedAt: '2026-01-01T12:00:00.000Z',
+      until: '2026-01-01T12:30:00.000Z',
+      reason: 'operator',
+    },
+    {
+      chatId: '120363025246125486@g.us',
+      pausedAt: '2026-01-01T11:00:00.000Z',
+      until: null,
+      reason: 'api',
+    },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should display loading state with skeletons', () => {
+    vi.mocked(hooks.useTakeovers).mockReturnValue({
+      pauses: [],
+      isLoading: true,
+      isError: undefined,
+      mutate: vi.fn(),
+    })
+
+    render(<TakeoversCard />)
+
+    expect(document.querySelectorAll('.animate-pulse').length).toBeGreaterThan(0)
+    expect(screen.getByText('Human Takeover')).toBeInTheDocument()
+  })
+
+  it('should display error state with alert', () => {
+    vi.mocked(hooks.useTakeovers).mockReturnValue({
+      pauses: [],
+      isLoading: false,
+      isError: new Error('Network error'),
+      mutate: vi.fn(),
+    })
+
+    render(<TakeoversCard />)
+
+    expect(screen.getByText('Failed to load paused chats. Please try again later.')).toBeInTheDocument()
+  })
+
+  it('should say when no chat is paused', () => {
+    vi.mocked(hooks.useTakeovers).mockReturnValue({
+      pauses: [],
+      isLoading: false,
+      isError: undefined,
+      mutate: vi.fn(),
+    })
+
+    render(<TakeoversCard />)
+
+    expect(screen.getByText('The agent is active in every chat.')).toBeInTheDocument()
+  })
+
+  it('should list paused chats with who paused them', () => {
+    vi.mocked(hooks.useTakeovers).mockReturnValue({
+      pauses,
+      isLoading: false,
+      isError: undefined,
+      mutate: vi.fn(),
+    })
+
+    render(<TakeoversCard />)
+
+    expect(screen.getByText('5491155551234')).toBeInTheDocument()
+    expect(screen.getByText('120363025246125486')).toBeInTheDocument()
+    expect(screen.getByText('Operator')).toBeInTheDocument()
+    expect(screen.getByText('Dashboard')).toBeInTheDocument()
+    expect(screen.getByText('Until resumed')).toBeInTheDocument()
+  })
+
+  it('should resume a chat and refresh the list', async () => {
+    const user = userEvent.setup()
+    const mutate = vi.fn().mockResolvedValue(undefined)
+    vi.mocked(hooks.useTakeovers).mockReturnValue({
+      pauses,
+      isLoading: false,
+      isError: undefined,
+      mutate,
+    })
+    vi.mocked(api.resumeChat).mockResolvedValue(undefined)
+
+    render(<TakeoversCard />)
+    await user.click(screen.getByRole('button', { name: 'Resume agent in 5491155551234' }))
+
+    await waitFor(() => {
+      expect(api.resumeChat).toHaveBeenCalledWith('5491155551234@s.whatsapp.net')
+      expect(mutate).toHaveBeenCalled()
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Agent resumed' }))
+    })
+  })
+
+  it('should show an error toast when resuming fails', async () => {
+    const user = userEvent.setup()
+    vi.mocked(hooks.useTakeovers).mockReturnValue({
+      pauses,
+      isLoading: false,
+      isError: undefined,
+      mutate: vi.fn(),
+    })
+    vi.mocked(api.resumeChat).mockRejectedValue(new Error('Chat is not paused'))
+
+    render(<TakeoversCard />)
+    await user.click(screen.getByRole('button', { name: 'Resume agent in 5491155551234' }))
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Error resuming chat',
+        description: 'Chat is not paused',
+        variant: 'destructive',
+      }))
+    })
+  })
+})
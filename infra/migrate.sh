@@ -0,0 +1,30 @@
+#!/bin/bash
+#
+# Applies the wa2ai database schema to an existing PostgreSQL database.
+#
+# The schema files in infra/schema are only run by the postgres container
+# when its data volume is empty. Run this script after upgrading wa2ai to
+# create new tables and migrate existing ones. The schema files are
+# idempotent, so running it more than once is safe.
+#
+# Usage:
+#   ./infra/migrate.sh
+#
+
+set -e
+
+# Get the directory where this script is located
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+SCHEMA_DIR="$SCRIPT_DIR/schema"
+
+# Same database and user as the postgres service in docker-compose.lab.yml
+DB_NAME="evolution_lab"
+DB_USER="evolution"
+
+for schema_file in "$SCHEMA_DIR"/*.sql; do
+  echo "[migrate.sh] Applying $(basename "$schema_file")"
+  "$SCRIPT_DIR/docker-compose.sh" exec -T postgres \
+    psql -v ON_ERROR_STOP=1 -q -U "$DB_USER" -d "$DB_NAME" < "$schema_file"
+done
+
+echo "[migrate.sh] Schema is up to date"
@@ -0,0 +1,71 @@
+-- Inbound messages table schema for wa2ai router
+-- This table stores incoming messages until they are routed, so messages
+-- survive agent outages and restarts. Failed messages are retried with
+-- exponential backoff and dead-lettered after the last attempt.
+
+CREATE TABLE IF NOT EXISTS inbound_messages (
+  -- Primary key: queue entry ID
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- WhatsApp message ID (not unique: providers may deliver a message twice)
+  message_id VARCHAR(255) NOT NULL,
+
+  -- Channel ID of the message (for management queries)
+  channel_id VARCHAR(255) NOT NULL,
+
+  -- The normalized incoming message (IncomingMessage as JSON)
+  message JSONB NOT NULL,
+
+  -- Processing state: pending, processing, done or dead
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+
+  -- Routing attempts so far
+  attempts INTEGER NOT NULL DEFAULT 0,
+
+  -- When the message is due to be routed
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  -- Error of the last failed attempt
+  last_error TEXT,
+
+  -- Timestamps for tracking
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT inbound_messages_status_check CHECK (status IN ('pending', 'processing', 'done', 'dead'))
+);
+
+-- Index for claiming due messages in arrival order
+CREATE INDEX IF NOT EXISTS idx_inbound_messages_due ON inbound_messages(status, next_attempt_at, created_at);
+
+-- Index for listing messages by state, newest first
+CREATE INDEX IF NOT EXISTS idx_inbound_messages_status_created ON inbound_messages(status, created_at DESC);
+
+-- Function to automatically update updated_at timestamp (shared with routes)
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = CURRENT_TIMESTAMP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to automatically update updated_at on row updates
+DROP TRIGGER IF EXISTS update_inbound_messages_updated_at ON inbound_messages;
+CREATE TRIGGER update_inbound_messages_updated_at
+  BEFORE UPDATE ON inbound_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON TABLE inbound_messages IS 'Durable queue of incoming messages waiting to be routed, with retries and dead-lettering';
+COMMENT ON COLUMN inbound_messages.id IS 'Unique queue entry identifier';
+COMMENT ON COLUMN inbound_messages.message_id IS 'WhatsApp message ID';
+COMMENT ON COLUMN inbound_messages.channel_id IS 'WhatsApp channel identifier of the message';
+COMMENT ON COLUMN inbound_messages.message IS 'Normalized incoming message (IncomingMessage) stored as JSON';
+COMMENT ON COLUMN inbound_messages.status IS 'pending (waiting to be routed), processing, done (routed, routed messages are deleted after the retention period) or dead (failed on every attempt)';
+COMMENT ON COLUMN inbound_messages.attempts IS 'Routing attempts so far; reset when a dead-lettered message is replayed';
+COMMENT ON COLUMN inbound_messages.next_attempt_at IS 'When a pending message is due to be routed';
+COMMENT ON COLUMN inbound_messages.last_error IS 'Error of the last failed attempt, or why a routed message was not answered (e.g. no route)';
+COMMENT ON COLUMN inbound_messages.created_at IS 'Timestamp when the message was stored';
+COMMENT ON COLUMN inbound_messages.updated_at IS 'Timestamp when the entry was last updated';
@@ -0,0 +1,81 @@
+-- Messages table schema for wa2ai router
+-- This table stores conversation transcripts: each routed message and the
+-- replies sent for it, with the route, agent endpoint, agent latency,
+-- outcome and agent session. Messages are deleted after the retention
+-- period (WA2AI_TRANSCRIPT_RETENTION_DAYS).
+
+CREATE TABLE IF NOT EXISTS messages (
+  -- Primary key: record ID
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Channel/group identifier (the conversation)
+  channel_id VARCHAR(255) NOT NULL,
+
+  -- Chat JID: sender of inbound messages, recipient of outbound ones
+  chat_id VARCHAR(255) NOT NULL,
+
+  -- inbound (from a user) or outbound (agent reply)
+  direction VARCHAR(10) NOT NULL,
+
+  -- Provider message ID
+  message_id VARCHAR(255),
+
+  -- Message text (empty for media without caption)
+  text TEXT NOT NULL DEFAULT '',
+
+  -- Media attached to an inbound message (type, mimeType, filename)
+  attachments JSONB,
+
+  -- Kind of rich content of an outbound message (image, location...)
+  content_type VARCHAR(20),
+
+  -- Route and agent that handled the message (not a foreign key: routes may be deleted)
+  route_id UUID,
+  agent_endpoint VARCHAR(500),
+
+  -- Agent session ID (ADK or OpenAI-compatible)
+  session_id VARCHAR(255),
+
+  -- Milliseconds from the agent call to the agent result (inbound) or to the reply (outbound)
+  latency_ms INTEGER,
+
+  -- Whether the agent answered (inbound) or the reply was delivered (outbound)
+  success BOOLEAN NOT NULL,
+  error TEXT,
+
+  -- When the message was received or sent
+  timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  -- Timestamp for tracking
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT messages_direction_check CHECK (direction IN ('inbound', 'outbound'))
+);
+
+-- Index for listing the messages of a conversation, newest first
+CREATE INDEX IF NOT EXISTS idx_messages_channel_timestamp ON messages(channel_id, timestamp DESC);
+
+-- Index for listing conversations by activity and purging old messages
+CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+
+-- Index for finding the chat of an agent session (agent callbacks)
+CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id, timestamp DESC) WHERE session_id IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON TABLE messages IS 'Conversation transcripts: routed messages and agent replies';
+COMMENT ON COLUMN messages.id IS 'Unique record identifier';
+COMMENT ON COLUMN messages.channel_id IS 'WhatsApp channel identifier (the conversation)';
+COMMENT ON COLUMN messages.chat_id IS 'Chat JID: sender of inbound messages, recipient of outbound ones';
+COMMENT ON COLUMN messages.direction IS 'inbound (received from a user) or outbound (sent to a user)';
+COMMENT ON COLUMN messages.message_id IS 'Provider message ID';
+COMMENT ON COLUMN messages.text IS 'Message text; bursts merged by the debounce window are stored as one message';
+COMMENT ON COLUMN messages.attachments IS 'Media attached to an inbound message';
+COMMENT ON COLUMN messages.content_type IS 'Kind of rich content of an outbound message';
+COMMENT ON COLUMN messages.route_id IS 'Route that handled the message';
+COMMENT ON COLUMN messages.agent_endpoint IS 'Agent endpoint that handled the message';
+COMMENT ON COLUMN messages.session_id IS 'Agent session ID reported by the agent (ADK or OpenAI-compatible)';
+COMMENT ON COLUMN messages.latency_ms IS 'Milliseconds from the agent call to the agent result (inbound) or to the reply (outbound)';
+COMMENT ON COLUMN messages.success IS 'Whether the agent answered (inbound) or the reply was delivered (outbound)';
+COMMENT ON COLUMN messages.error IS 'Why the message failed';
+COMMENT ON COLUMN messages.timestamp IS 'When the message was received or sent';
+COMMENT ON COLUMN messages.created_at IS 'Timestamp when the record was stored';
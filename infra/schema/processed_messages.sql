@@ -0,0 +1,23 @@
+-- Processed messages table schema for wa2ai router
+-- This table remembers the IDs of recent incoming messages, so messages
+-- delivered more than once by a provider are answered only once.
+
+CREATE TABLE IF NOT EXISTS processed_messages (
+  -- Primary key: message key (channel ID and provider message ID)
+  key VARCHAR(512) PRIMARY KEY,
+
+  -- When the key is forgotten
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  -- Timestamp for tracking
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index for purging expired keys
+CREATE INDEX IF NOT EXISTS idx_processed_messages_expires_at ON processed_messages(expires_at);
+
+-- Comments for documentation
+COMMENT ON TABLE processed_messages IS 'IDs of recent incoming messages, used to ignore duplicate deliveries';
+COMMENT ON COLUMN processed_messages.key IS 'Channel ID and provider message ID, separated by |';
+COMMENT ON COLUMN processed_messages.expires_at IS 'When the key is forgotten and a delivery with the same ID is processed again';
+COMMENT ON COLUMN processed_messages.created_at IS 'Timestamp when the message was first received';
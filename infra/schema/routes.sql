@@ -1,9 +1,16 @@
 -- Routes table schema for wa2ai router
--- This table stores routing rules that map channel IDs to agent endpoints
+-- This table stores routing rules that map channel IDs to agent endpoints.
+-- A channel may have several routes, evaluated in ascending priority order.
 
 CREATE TABLE IF NOT EXISTS routes (
-  -- Primary key: channel ID (WhatsApp number without @s.whatsapp.net)
-  channel_id VARCHAR(255) PRIMARY KEY,
+  -- Primary key: route ID
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Channel ID (WhatsApp number without @s.whatsapp.net, or '*' for wildcard)
+  channel_id VARCHAR(255) NOT NULL,
+
+  -- Evaluation order within the channel (lower values are evaluated first)
+  priority INTEGER NOT NULL DEFAULT 0,
   
   -- Agent endpoint URL where messages should be forwarded
   agent_endpoint TEXT NOT NULL,
@@ -13,6 +20,9 @@ CREATE TABLE IF NOT EXISTS routes (
   
   -- Optional regular expression filter for message text content
   regex_filter TEXT,
+
+  -- Optional match conditions on message metadata (stored as JSON)
+  match_conditions JSONB,
   
   -- Additional route configuration (stored as JSON)
   config JSONB,
@@ -22,6 +32,27 @@ CREATE TABLE IF NOT EXISTS routes (
   updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Migration from the single-route-per-channel schema (channel_id primary key).
+-- Existing databases get it by running infra/migrate.sh.
+ALTER TABLE routes ADD COLUMN IF NOT EXISTS id UUID NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE routes ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE routes ADD COLUMN IF NOT EXISTS match_conditions JSONB;
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM information_schema.key_column_usage k
+    JOIN information_schema.table_constraints c ON c.constraint_name = k.constraint_name
+    WHERE c.table_name = 'routes' AND c.constraint_type = 'PRIMARY KEY' AND k.column_name = 'channel_id'
+  ) THEN
+    ALTER TABLE routes DROP CONSTRAINT routes_pkey;
+    ALTER TABLE routes ADD PRIMARY KEY (id);
+  END IF;
+END $$;
+
+-- Index for ordered route evaluation per channel
+CREATE INDEX IF NOT EXISTS idx_routes_channel_priority ON routes(channel_id, priority, created_at);
+
 -- Index for faster lookups by environment
 CREATE INDEX IF NOT EXISTS idx_routes_environment ON routes(environment);
 
@@ -46,10 +77,13 @@ CREATE TRIGGER update_routes_updated_at
 
 -- Comments for documentation
 COMMENT ON TABLE routes IS 'Stores routing rules mapping channel IDs to agent endpoints';
-COMMENT ON COLUMN routes.channel_id IS 'WhatsApp channel identifier (phone number without @s.whatsapp.net)';
+COMMENT ON COLUMN routes.id IS 'Unique route identifier';
+COMMENT ON COLUMN routes.channel_id IS 'WhatsApp channel identifier (phone number without @s.whatsapp.net), or * for wildcard routes';
+COMMENT ON COLUMN routes.priority IS 'Evaluation order within the channel. Lower values are evaluated first; the first matching route wins.';
 COMMENT ON COLUMN routes.agent_endpoint IS 'URL of the AI agent endpoint where messages should be forwarded';
 COMMENT ON COLUMN routes.environment IS 'Environment identifier (lab, prod, etc.)';
 COMMENT ON COLUMN routes.regex_filter IS 'Optional regular expression to filter messages by text content. Only messages matching this regex will be routed.';
+COMMENT ON COLUMN routes.match_conditions IS 'Optional match conditions on message metadata: {"operator": "and"|"or", "conditions": [{"field", "operator", "value"}]}. Fields: sender, isGroup, messageType, fromMe, pushName.';
 COMMENT ON COLUMN routes.config IS 'Additional route configuration stored as JSON. Can contain arbitrary key-value pairs for route-specific settings.';
 COMMENT ON COLUMN routes.created_at IS 'Timestamp when the route was created';
 COMMENT ON COLUMN routes.updated_at IS 'Timestamp when the route was last updated';
@@ -0,0 +1,332 @@
+/**
+ * Callbacks controller - HTTP endpoints for agent-initiated messages.
+ *
+ * This module lets agents follow up on a conversation later (e.g. "your
+ * report is ready") instead of only answering inside the agent call. Each
+ * route has its own token, and an agent can only message chats of the
+ * channels its route serves. Route tokens are only handed out to callers
+ * holding the admin token. It only handles HTTP concerns; tokens are
+ * verified by CallbackTokens and messages sent by MessageSender.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import type { FastifyInstance, FastifyReply } from 'fastify'
+import { logger, isDebugMode } from './core/logger.js'
+import type { Route } from './core/models.js'
+import type { RouterService, RoutesRepository } from './core/router-service.js'
+import type { CallbackTokens } from './core/callback-tokens.js'
+import type { MessageSender } from './core/message-sender.js'
+import type { TakeoverService } from './core/takeover.js'
+import type { TranscriptRecord, TranscriptService } from './core/transcript.js'
+
+/**
+ * Dependencies for the callback endpoints.
+ */
+export interface CallbackEndpointDependencies {
+  /** Issues and verifies route tokens */
+  tokens: CallbackTokens
+  /** Routes the tokens belong to */
+  routesRepository: RoutesRepository
+  /** Router service, used to find the routes that serve a channel */
+  routerService: RouterService
+  /** Token required to read route tokens; when unset, they cannot be read over HTTP */
+  adminToken?: string
+  /** Sends the messages */
+  sender: MessageSender
+  /** Transcript, used to find the chat of a session or channel */
+  transcript: TranscriptService
+  /** Takeover service: chats taken over by an operator are not messaged (optional) */
+  takeover?: TakeoverService
+}
+
+/**
+ * Body of POST /api/callbacks/messages.
+ *
+ * Exactly one of `sessionId` and `channelId` identifies the conversation.
+ */
+interface CallbackMessageBody {
+  /** Agent session ID the router used when calling the agent */
+  sessionId?: string
+  /** Channel/group identifier of the conversation */
+  channelId?: string
+  /** Message text */
+  text: string
+}
+
+/**
+ * Checks if a route serves a channel, as the router resolves it.
+ *
+ * @param routerService - Router service
+ * @param route - The route of the token
+ * @param channelId - Channel/group identifier
+ * @returns true if the route may answer messages of the channel (see RouterService.findServingRoutes)
+ */
+async function servesChannel(routerService: RouterService, route: Route, channelId: string): Promise<boolean> {
+  const servingRoutes = await routerService.findServingRoutes(channelId)
+  return servingRoutes.some((servingRoute) => servingRoute.id === route.id)
+}
+
+/**
+ * Gets the token of an `Authorization: Bearer <token>` header.
+ *
+ * @param header - Authorization header value
+ * @returns The token, or null if the header is missing or not a bearer token
+ */
+function getBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
+
+/**
+ * Checks if a request carries the admin token.
+ *
+ * @param header - Authorization header value
+ * @param adminToken - Configured admin token
+ * @returns true if the header is `Bearer <adminToken>`; always false when no admin token is configured
+ */
+function isAdminRequest(header: string | undefined, adminToken: string | undefined): boolean {
+  const token = getBearerToken(header)
+  if (!adminToken || !token) {
+    return false
+  }
+  const received = Buffer.from(token)
+  const expected = Buffer.from(adminToken)
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+/**
+ * Validates the body of POST /api/callbacks/messages.
+ *
+ * @param body - Request body
+ * @returns Error message, or null if the body is valid
+ */
+function validateCallbackMessage(body: Partial<CallbackMessageBody>): string | null {
+  if (typeof body.text !== 'string' || !body.text.trim()) {
+    return 'text must be a non-empty string'
+  }
+
+  const references = [body.sessionId, body.channelId].filter((value) => value !== undefined)
+  if (references.length !== 1 || typeof references[0] !== 'string' || !references[0]) {
+    return 'exactly one of sessionId and channelId must be a non-empty string'
+  }
+
+  return null
+}
+
+/**
+ * Answers 401 for a missing or invalid token.
+ *
+ * @param reply - Fastify reply
+ * @param kind - Which token was expected (default: the callback token)
+ */
+function sendUnauthorized(reply: FastifyReply, kind: 'callback' | 'admin' = 'callback'): void {
+  reply.code(401).send({
+    success: false,
+    error: `Missing or invalid ${kind} token`,
+    code: 'UNAUTHORIZED',
+  })
+}
+
+/**
+ * Registers callback endpoints on the Fastify instance.
+ *
+ * - GET /api/routes/:id/callback-token - Get the callback token of a route
+ * - POST /api/callbacks/messages - Send a message on behalf of a route's agent
+ *
+ * @param app - Fastify application instance
+ * @param deps - Tokens, routes, router service, sender, transcript, takeover service and admin token
+ */
+export function registerCallbackEndpoints(app: FastifyInstance, deps: CallbackEndpointDependencies): void {
+  const { tokens, routesRepository, routerService, sender, transcript, takeover, adminToken } = deps
+
+  /**
+   * GET /api/routes/:id/callback-token - Get the callback token of a route.
+   *
+   * Headers: Authorization: Bearer <admin token>
+   */
+  app.get<{ Params: { id: string } }>('/api/routes/:id/callback-token', async (request, reply) => {
+    const { id } = request.params
+
+    if (!isAdminRequest(request.headers.authorization, adminToken)) {
+      logger.warn('[CallbacksController] Callback token request rejected: invalid admin token', {
+        id,
+        adminTokenConfigured: !!adminToken,
+      })
+      sendUnauthorized(reply, 'admin')
+      return
+    }
+
+    try {
+      const route = await routesRepository.findById(id)
+      if (!route) {
+        reply.code(404).send({
+          success: false,
+          error: `Route not found: ${id}`,
+        })
+        return
+      }
+
+      reply.code(200).send({
+        success: true,
+        data: {
+          routeId: id,
+          token: tokens.issue(id),
+        },
+      })
+    } catch (error) {
+      logger.error('[CallbacksController] Failed to get callback token', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+      })
+
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+
+  /**
+   * POST /api/callbacks/messages - Send a message on behalf of a route's agent.
+   *
+   * Headers: Authorization: Bearer <route token>
+   * Body: { sessionId? | channelId?, text }
+   */
+  app.post<{ Body: CallbackMessageBody | undefined }>('/api/callbacks/messages', async (request, reply) => {
+    const token = getBearerToken(request.headers.authorization)
+    const routeId = token ? tokens.verify(token) : null
+    if (!routeId) {
+      logger.warn('[CallbacksController] Callback rejected: invalid token', { hasToken: !!token })
+      sendUnauthorized(reply)
+      return
+    }
+
+    const body = request.body ?? {}
+    const validationError = validateCallbackMessage(body)
+    if (validationError) {
+      logger.warn('[CallbacksController] Invalid callback message provided', { routeId, error: validationError })
+      reply.code(400).send({
+        success: false,
+        error: `Invalid message: ${validationError}`,
+        code: 'INVALID_MESSAGE',
+      })
+      return
+    }
+
+    const { sessionId, channelId, text } = body as CallbackMessageBody
+
+    try {
+      const route = await routesRepository.findById(routeId)
+      if (!route) {
+        logger.warn('[CallbacksController] Callback rejected: route no longer exists', { routeId })
+        sendUnauthorized(reply)
+        return
+      }
+
+      // Channels are checked before the lookup, so other channels' chats are not revealed
+      if (channelId && !(await servesChannel(routerService, route, channelId))) {
+        sendRecipientNotAllowed(reply, route, channelId)
+        return
+      }
+
+      const target: TranscriptRecord | null = sessionId
+        ? await transcript.findLatestBySession(sessionId)
+        : (await transcript.listMessages(channelId!, { limit: 1 }))[0] ?? null
+
+      if (!target) {
+        reply.code(404).send({
+          success: false,
+          error: sessionId
+            ? `No conversation found for session: ${sessionId}`
+            : `No conversation found for channel: ${channelId}`,
+          code: 'CONVERSATION_NOT_FOUND',
+        })
+        return
+      }
+
+      if (!(await servesChannel(routerService, route, target.channelId))) {
+        sendRecipientNotAllowed(reply, route, target.channelId)
+        return
+      }
+
+      if (takeover?.isPaused(target.chatId)) {
+        logger.info('[CallbacksController] Callback dropped, chat taken over by an operator', {
+          routeId,
+          chatId: target.chatId,
+        })
+        reply.code(409).send({
+          success: false,
+          error: `Chat is taken over by an operator: ${target.chatId}`,
+          code: 'CHAT_TAKEN_OVER',
+        })
+        return
+      }
+
+      if (isDebugMode()) {
+        logger.debug('[CallbacksController] Sending agent message', {
+          routeId,
+          channelId: target.channelId,
+          chatId: target.chatId,
+          textLength: text.length,
+        })
+      }
+
+      const result = await sender.send(
+        {
+          to: target.chatId,
+          channelId: target.channelId,
+          text,
+          metadata: { routeId, callback: true },
+        },
+        { routeId, agentEndpoint: route.agentEndpoint }
+      )
+      const data = { ...result, to: target.chatId, channelId: target.channelId }
+
+      if (!result.delivered) {
+        reply.code(502).send({
+          success: false,
+          error: `Failed to send message: ${result.error}`,
+          code: 'DELIVERY_FAILED',
+          data,
+        })
+        return
+      }
+
+      reply.code(200).send({
+        success: true,
+        message: 'Message sent',
+        data,
+      })
+    } catch (error) {
+      logger.error('[CallbacksController] Failed to handle callback', {
+        error: error instanceof Error ? error.message : String(error),
+        routeId,
+      })
+
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+}
+
+/**
+ * Answers 403 for a channel the route does not serve.
+ *
+ * @param reply - Fastify reply
+ * @param route - The route of the token
+ * @param channelId - Channel the agent tried to message
+ */
+function sendRecipientNotAllowed(reply: FastifyReply, route: Route, channelId: string): void {
+  logger.warn('[CallbacksController] Callback rejected: channel not served by the route', {
+    routeId: route.id,
+    routeChannelId: route.channelId,
+    channelId,
+  })
+  reply.code(403).send({
+    success: false,
+    error: `Route does not serve channel: ${channelId}`,
+    code: 'RECIPIENT_NOT_ALLOWED',
+  })
+}
@@ -0,0 +1,175 @@
+/**
+ * Conversations controller - HTTP endpoints for conversation transcripts.
+ *
+ * This module lists the conversations the router handled and the messages
+ * exchanged in each, with pagination, time filters and search. It only handles
+ * HTTP concerns; transcripts are recorded and queried by TranscriptService.
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify'
+import { logger, isDebugMode } from './core/logger.js'
+import type { TranscriptQuery, TranscriptService } from './core/transcript.js'
+
+/**
+ * Default page size of the list endpoints.
+ */
+const DEFAULT_LIST_LIMIT = 50
+
+/**
+ * Maximum page size of the list endpoints.
+ */
+const MAX_LIST_LIMIT = 200
+
+/**
+ * Query of the list endpoints.
+ */
+interface TranscriptListQuery {
+  /** Page size (default: 50, at most MAX_LIST_LIMIT) */
+  limit?: string
+  /** Number of results to skip (default: 0) */
+  offset?: string
+  /** Only messages at or after this time (ISO 8601) */
+  since?: string
+  /** Only messages before this time (ISO 8601) */
+  until?: string
+  /** Only conversations containing this text (conversation list only) */
+  search?: string
+}
+
+/**
+ * Registers conversation endpoints on the Fastify instance.
+ *
+ * - GET /api/conversations - List conversations, most recently active first
+ * - GET /api/conversations/:channelId/messages - List the messages of a conversation, newest first
+ *
+ * @param app - Fastify application instance
+ * @param transcript - Transcript service
+ */
+export function registerConversationEndpoints(app: FastifyInstance, transcript: TranscriptService): void {
+  /**
+   * GET /api/conversations - List conversations.
+   *
+   * Query: { limit?, offset?, since?, until?, search? }
+   */
+  app.get<{ Querystring: TranscriptListQuery }>('/api/conversations', async (request, reply) => {
+    const query = parseListQuery(request.query ?? {}, reply)
+    if (!query) {
+      return
+    }
+    const search = request.query?.search?.trim()
+
+    try {
+      const conversations = await transcript.listConversations({
+        ...query,
+        ...(search ? { search } : {}),
+      })
+
+      if (isDebugMode()) {
+        logger.debug('[ConversationsController] Conversations listed', { count: conversations.length })
+      }
+
+      reply.code(200).send({
+        success: true,
+        data: conversations,
+        count: conversations.length,
+      })
+    } catch (error) {
+      logger.error('[ConversationsController] Failed to list conversations', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+
+  /**
+   * GET /api/conversations/:channelId/messages - List the messages of a conversation.
+   *
+   * Query: { limit?, offset?, since?, until? }
+   */
+  app.get<{ Params: { channelId: string }; Querystring: TranscriptListQuery }>(
+    '/api/conversations/:channelId/messages',
+    async (request, reply) => {
+      const { channelId } = request.params
+      const query = parseListQuery(request.query ?? {}, reply)
+      if (!query) {
+        return
+      }
+
+      try {
+        const messages = await transcript.listMessages(channelId, query)
+
+        if (isDebugMode()) {
+          logger.debug('[ConversationsController] Messages listed', { channelId, count: messages.length })
+        }
+
+        reply.code(200).send({
+          success: true,
+          data: messages,
+          count: messages.length,
+        })
+      } catch (error) {
+        logger.error('[ConversationsController] Failed to list messages', {
+          error: error instanceof Error ? error.message : String(error),
+          channelId,
+        })
+
+        reply.code(500).send({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  )
+}
+
+/**
+ * Parses pagination and time filters, answering 400 if they are invalid.
+ *
+ * @param raw - Query string values
+ * @param reply - Fastify reply, used for the 400 response
+ * @returns The transcript query, or null if a 400 response was sent
+ */
+function parseListQuery(raw: TranscriptListQuery, reply: FastifyReply): TranscriptQuery | null {
+  const limit = raw.limit === undefined ? DEFAULT_LIST_LIMIT : Number(raw.limit)
+  const offset = raw.offset === undefined ? 0 : Number(raw.offset)
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT || !Number.isInteger(offset) || offset < 0) {
+    reply.code(400).send({
+      success: false,
+      error: `limit must be an integer between 1 and ${MAX_LIST_LIMIT}, and offset a non-negative integer`,
+      code: 'INVALID_PAGINATION',
+      details: {
+        limit: raw.limit,
+        offset: raw.offset,
+      },
+    })
+    return null
+  }
+
+  const since = raw.since === undefined ? undefined : new Date(raw.since)
+  const until = raw.until === undefined ? undefined : new Date(raw.until)
+
+  if ((since && Number.isNaN(since.getTime())) || (until && Number.isNaN(until.getTime()))) {
+    reply.code(400).send({
+      success: false,
+      error: 'since and until must be ISO 8601 dates',
+      code: 'INVALID_TIME_FILTER',
+      details: {
+        since: raw.since,
+        until: raw.until,
+      },
+    })
+    return null
+  }
+
+  return {
+    limit,
+    offset,
+    ...(since ? { since } : {}),
+    ...(until ? { until } : {}),
+  }
+}
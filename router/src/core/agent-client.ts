@@ -5,13 +5,23 @@
  * Following Clean Architecture, this is a domain port that belongs in the core layer.
  * 
  * Implementations (HTTP/ADK, gRPC, WebSocket, etc.) should be in the infrastructure layer.
- * Currently, only the ADK HTTP implementation exists (`HttpAgentClient`), but the system
- * is designed to support other agent protocols in the future.
+ * Each protocol is described by an `AgentProtocol` and selected per route through the
+ * `route.config.type` discriminator (see `AgentProtocolRegistry`).
  * 
  * @module core/agent-client
  */
 
-import type { IncomingMessage } from './models.js'
+import type { IncomingMessage, OutgoingContent, Route } from './models.js'
+
+/**
+ * A reply to send back to the user as its own WhatsApp message.
+ */
+export interface AgentReplyPart {
+  /** Reply text (the caption when `content` is set) */
+  text: string
+  /** Media, location or contact to send (optional) */
+  content?: OutgoingContent
+}
 
 /**
  * Response from an agent endpoint.
@@ -21,12 +31,33 @@ export interface AgentResponse {
   success: boolean
   /** Response text to send back to the user */
   response?: string
+  /**
+   * Ordered replies to send as separate messages.
+   * 
+   * When set, these are sent instead of `response` (which then holds the
+   * joined text, for logging and API results).
+   */
+  parts?: AgentReplyPart[]
   /** Error message if processing failed */
   error?: string
+  /** Whether the response text was already delivered through `onReply` */
+  streamed?: boolean
   /** Additional metadata from the agent */
   metadata?: Record<string, unknown>
 }
 
+/**
+ * Per-request options for agent clients.
+ */
+export interface AgentRequestOptions {
+  /**
+   * Called with each reply as soon as it is ready, for clients that stream
+   * (e.g. ADK `/run_sse`). Clients that deliver replies this way set
+   * `streamed` on the final response so they are not sent twice.
+   */
+  onReply?: (text: string, content?: OutgoingContent) => Promise<void>
+}
+
 /**
  * Configuration for agent client.
  */
@@ -49,40 +80,109 @@ export interface AgentClient {
    * 
    * @param agentEndpoint - The URL of the agent endpoint
    * @param message - The incoming message to send
+   * @param options - Optional per-request options (e.g. `onReply` for streaming)
    * @returns Promise resolving to the agent response
    * 
    * @throws {Error} If the request fails or times out
    */
-  sendMessage(agentEndpoint: string, message: IncomingMessage): Promise<AgentResponse>
+  sendMessage(agentEndpoint: string, message: IncomingMessage, options?: AgentRequestOptions): Promise<AgentResponse>
 }
 
 /**
- * Configuration for creating an ADK agent client.
+ * An agent protocol (adk, openai, webhook, ...).
+ * 
+ * A protocol validates the agent configuration of a route and creates the
+ * client that talks to the agent. Protocols are registered in an
+ * `AgentProtocolRegistry` under their `type`.
  */
-export interface AdkClientConfig {
-  /** ADK agent name (directory name, not constructor name) */
-  appName: string
-  /** Base URL of ADK server (e.g., 'http://localhost:8000') */
-  baseUrl: string
-  /** Optional: Custom session ID generator. Default uses from_channelId format */
-  sessionIdGenerator?: (message: IncomingMessage) => string
-  /** Request timeout in milliseconds */
-  timeout?: number
+export interface AgentProtocol {
+  /** Discriminator value matched against `route.config.type` */
+  readonly type: string
+
+  /**
+   * Validates the agent configuration of a route for this protocol.
+   * 
+   * @param route - The route to validate
+   * @returns An error message, or null if the configuration is valid
+   */
+  validateConfig(route: Route): string | null
+
+  /**
+   * Creates an agent client for a route whose configuration is valid.
+   * 
+   * @param route - The route to create a client for
+   * @returns A configured AgentClient instance
+   */
+  createClient(route: Route): AgentClient
+
+  /**
+   * Returns the endpoint the client should send messages to.
+   * 
+   * Optional: defaults to `route.agentEndpoint`.
+   * 
+   * @param route - The route being served
+   * @returns The agent endpoint URL
+   */
+  getEndpoint?(route: Route): string
+
+  /**
+   * Keys of the protocol's configuration section (`route.config[type]`)
+   * that hold secrets, masked in API responses.
+   *
+   * Optional: protocols without secrets leave it out.
+   */
+  readonly secretKeys?: readonly string[]
 }
 
 /**
  * Factory interface for creating agent clients.
  * 
- * This factory allows creating agent clients with specific configurations
- * without coupling the core layer to infrastructure implementations.
+ * This factory allows creating agent clients for a route without coupling
+ * the core layer to infrastructure implementations or to a specific protocol.
  */
 export interface AgentClientFactory {
   /**
-   * Creates an ADK agent client with the specified configuration.
+   * Validates the agent configuration of a route.
    * 
-   * @param config - ADK client configuration
+   * @param route - The route to validate
+   * @returns An error message (e.g. unknown agent type), or null if valid
+   */
+  validateRoute(route: Route): string | null
+
+  /**
+   * Creates an agent client for a route.
+   * 
+   * @param route - The route to create a client for
    * @returns A configured AgentClient instance
+   * 
+   * @throws {Error} If the agent type is unknown or its configuration is invalid
    */
-  createAdkClient(config: AdkClientConfig): AgentClient
-}
+  createClient(route: Route): AgentClient
 
+  /**
+   * Returns the endpoint messages for a route should be sent to.
+   * 
+   * @param route - The route being served
+   * @returns The agent endpoint URL
+   */
+  resolveEndpoint(route: Route): string
+
+  /**
+   * Returns a copy of a route with the secrets of its agent configuration masked.
+   * 
+   * Optional: factories whose protocols hold no secrets leave it out.
+   * 
+   * @param route - The route to show
+   * @returns The route, safe to return from the API
+   */
+  redactRoute?(route: Route): Route
+
+  /**
+   * Puts back the secrets a route update carries masked, as returned by `redactRoute`.
+   * 
+   * @param route - The route update
+   * @param stored - The stored route, holding the secrets
+   * @returns The update with its masked secrets replaced by the stored ones
+   */
+  restoreSecrets?(route: Route, stored: Route): Route
+}
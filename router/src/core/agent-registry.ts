@@ -0,0 +1,210 @@
+/**
+ * Agent protocol registry.
+ *
+ * This module maps the `route.config.type` discriminator to the agent
+ * protocol that serves it. MessageRouter only talks to the registry through
+ * the AgentClientFactory port, so adding a protocol means registering it
+ * here rather than changing the routing flow.
+ *
+ * @module core/agent-registry
+ */
+
+import type { Route } from './models.js'
+import type { AgentClient, AgentClientFactory, AgentProtocol } from './agent-client.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Agent type used for routes without `config.type`.
+ *
+ * Routes created before the registry existed are ADK routes.
+ */
+export const DEFAULT_AGENT_TYPE = 'adk'
+
+/**
+ * Value secrets of an agent configuration are replaced with in API responses.
+ */
+export const REDACTED_SECRET = '********'
+
+/**
+ * Returns the agent type of a route.
+ *
+ * @param route - The route to inspect
+ * @returns `route.config.type`, or DEFAULT_AGENT_TYPE if unset
+ */
+export function getAgentType(route: Route): unknown {
+  return route.config?.type ?? DEFAULT_AGENT_TYPE
+}
+
+/**
+ * Registry of agent protocols keyed by type.
+ *
+ * @example
+ * ```typescript
+ * const registry = new AgentProtocolRegistry()
+ * registry.register(new AdkAgentProtocol())
+ *
+ * const error = registry.validateRoute(route)
+ * if (!error) {
+ *   const client = registry.createClient(route)
+ *   await client.sendMessage(registry.resolveEndpoint(route), message)
+ * }
+ * ```
+ */
+export class AgentProtocolRegistry implements AgentClientFactory {
+  private protocols = new Map<string, AgentProtocol>()
+
+  /**
+   * Registers an agent protocol.
+   *
+   * @param protocol - The protocol to register
+   * @returns This registry, for chaining
+   *
+   * @throws {Error} If a protocol with the same type is already registered
+   */
+  register(protocol: AgentProtocol): this {
+    if (this.protocols.has(protocol.type)) {
+      throw new Error(`Agent type already registered: ${protocol.type}`)
+    }
+
+    this.protocols.set(protocol.type, protocol)
+
+    if (isDebugMode()) {
+      logger.debug('[AgentProtocolRegistry] Protocol registered', {
+        type: protocol.type,
+        types: this.getTypes(),
+      })
+    }
+
+    return this
+  }
+
+  /**
+   * Lists the registered agent types.
+   *
+   * @returns Registered types, in registration order
+   */
+  getTypes(): string[] {
+    return [...this.protocols.keys()]
+  }
+
+  /**
+   * Validates the agent configuration of a route.
+   *
+   * @param route - The route to validate
+   * @returns An error message, or null if the route can be served
+   */
+  validateRoute(route: Route): string | null {
+    const type = getAgentType(route)
+
+    if (typeof type !== 'string') {
+      return 'config.type must be a string'
+    }
+
+    const protocol = this.protocols.get(type)
+    if (!protocol) {
+      return `Unknown agent type "${type}". Supported types: ${this.getTypes().join(', ')}`
+    }
+
+    return protocol.validateConfig(route)
+  }
+
+  /**
+   * Creates an agent client for a route.
+   *
+   * @param route - The route to create a client for
+   * @returns A configured AgentClient instance
+   *
+   * @throws {Error} If the agent type is unknown or its configuration is invalid
+   */
+  createClient(route: Route): AgentClient {
+    const error = this.validateRoute(route)
+    if (error) {
+      throw new Error(`Invalid agent configuration: ${error}`)
+    }
+
+    const protocol = this.getProtocol(route)
+
+    if (isDebugMode()) {
+      logger.debug('[AgentProtocolRegistry] Creating agent client', {
+        type: protocol.type,
+        routeId: route.id,
+        channelId: route.channelId,
+      })
+    }
+
+    return protocol.createClient(route)
+  }
+
+  /**
+   * Returns the endpoint messages for a route should be sent to.
+   *
+   * @param route - The route being served
+   * @returns The protocol's endpoint for the route, or `route.agentEndpoint`
+   */
+  resolveEndpoint(route: Route): string {
+    const protocol = this.protocols.get(String(getAgentType(route)))
+    return protocol?.getEndpoint?.(route) ?? route.agentEndpoint
+  }
+
+  /**
+   * Returns a copy of a route with the secrets of its agent configuration masked.
+   *
+   * @param route - The route to show
+   * @returns The route with every secret set replaced by REDACTED_SECRET
+   */
+  redactRoute(route: Route): Route {
+    return this.replaceSecrets(route, (value) => (value === undefined ? undefined : REDACTED_SECRET))
+  }
+
+  /**
+   * Puts back the secrets a route update carries masked.
+   *
+   * Clients edit routes as returned by the API, so an unchanged secret comes
+   * back as REDACTED_SECRET and must not overwrite the stored one.
+   *
+   * @param route - The route update
+   * @param stored - The stored route, holding the secrets
+   * @returns The update with REDACTED_SECRET values replaced by the stored ones
+   */
+  restoreSecrets(route: Route, stored: Route): Route {
+    const storedSection = stored.config?.[String(getAgentType(route))] as Record<string, unknown> | undefined
+    return this.replaceSecrets(route, (value, key) => (value === REDACTED_SECRET ? storedSection?.[key] : value))
+  }
+
+  /**
+   * Replaces the secrets of a route's agent configuration.
+   *
+   * @param route - The route
+   * @param replace - Returns the new value of a secret (undefined removes it)
+   * @returns A copy of the route, or the route itself if its protocol holds no secrets
+   */
+  private replaceSecrets(route: Route, replace: (value: unknown, key: string) => unknown): Route {
+    const type = String(getAgentType(route))
+    const secretKeys = this.protocols.get(type)?.secretKeys ?? []
+    const section = route.config?.[type]
+    if (secretKeys.length === 0 || typeof section !== 'object' || section === null) {
+      return route
+    }
+
+    const replaced: Record<string, unknown> = { ...section }
+    for (const key of secretKeys) {
+      const value = replace(replaced[key], key)
+      if (value === undefined) {
+        delete replaced[key]
+      } else {
+        replaced[key] = value
+      }
+    }
+    return { ...route, config: { ...route.config, [type]: replaced } }
+  }
+
+  /**
+   * Returns the protocol serving a route.
+   *
+   * @param route - A route that passed validation
+   * @returns The registered protocol
+   */
+  private getProtocol(route: Route): AgentProtocol {
+    return this.protocols.get(String(getAgentType(route)))!
+  }
+}
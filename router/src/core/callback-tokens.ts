@@ -0,0 +1,84 @@
+/**
+ * Credentials of the agent callback API.
+ *
+ * Agents push messages into chats through the callback API, authenticated
+ * with a token scoped to their route. Tokens are derived from the route ID
+ * and a server secret (HMAC-SHA256), so nothing is stored: a token stops
+ * working when its route is deleted or the secret changes.
+ *
+ * @module core/callback-tokens
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * Configuration for CallbackTokens.
+ */
+export interface CallbackTokensConfig {
+  /** Server secret tokens are derived from */
+  secret: string
+}
+
+/**
+ * Issues and verifies route callback tokens.
+ *
+ * @example
+ * ```typescript
+ * const tokens = new CallbackTokens({ secret: process.env.WA2AI_CALLBACK_SECRET })
+ * const token = tokens.issue(route.id)
+ * tokens.verify(token) // route.id
+ * ```
+ */
+export class CallbackTokens {
+  private secret: string
+
+  constructor(config: CallbackTokensConfig) {
+    if (!config.secret) {
+      throw new Error('Failed to create callback tokens: secret is empty')
+    }
+    this.secret = config.secret
+  }
+
+  /**
+   * Issues the token of a route.
+   *
+   * The same route always gets the same token.
+   *
+   * @param routeId - Route ID
+   * @returns Token in the form `<routeId>.<signature>`
+   */
+  issue(routeId: string): string {
+    return `${routeId}.${this.sign(routeId)}`
+  }
+
+  /**
+   * Verifies a token.
+   *
+   * @param token - Token sent by the agent
+   * @returns The ID of the route the token belongs to, or null if the token is invalid
+   */
+  verify(token: string): string | null {
+    const separator = token.lastIndexOf('.')
+    if (separator <= 0) {
+      return null
+    }
+
+    const routeId = token.slice(0, separator)
+    const signature = Buffer.from(token.slice(separator + 1))
+    const expected = Buffer.from(this.sign(routeId))
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      return null
+    }
+    return routeId
+  }
+
+  /**
+   * Signs a route ID.
+   *
+   * @param routeId - Route ID
+   * @returns Base64url HMAC-SHA256 signature
+   */
+  private sign(routeId: string): string {
+    return createHmac('sha256', this.secret).update(`route:${routeId}`).digest('base64url')
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Conversation queue - ordered processing per conversation.
+ *
+ * Messages of the same conversation are answered one at a time and in the
+ * order they arrived; messages of different conversations are answered in
+ * parallel, up to a global concurrency cap. The queue is bounded: when it
+ * is full, new messages are rejected so webhook senders can retry later.
+ *
+ * @module core/conversation-queue
+ */
+
+import type { IncomingMessage } from './models.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Configuration for the conversation queue.
+ */
+export interface ConversationQueueConfig {
+  /** Maximum number of messages processed at the same time (default: 10) */
+  maxConcurrency?: number
+  /** Maximum number of messages queued or in process (default: 1000) */
+  maxQueueSize?: number
+}
+
+/**
+ * Queue depth metrics.
+ */
+export interface ConversationQueueStats {
+  /** Messages queued or in process */
+  pending: number
+  /** Messages in process */
+  active: number
+  /** Conversations with at least one pending message */
+  conversations: number
+  /** Pending messages of the busiest conversation */
+  maxConversationDepth: number
+  /** Messages processed since startup */
+  processed: number
+  /** Messages rejected because the queue was full, since startup */
+  rejected: number
+  /** Configured concurrency cap */
+  maxConcurrency: number
+  /** Configured queue size */
+  maxQueueSize: number
+}
+
+/**
+ * Place of a message in its conversation.
+ *
+ * A slot is reserved when the message arrives and settled exactly once:
+ * either it runs a task, after the earlier messages of the conversation, or
+ * it is released without one (e.g. the message was skipped). Until then,
+ * later messages of the conversation wait.
+ */
+export interface QueueSlot {
+  /**
+   * Runs a task once the earlier messages of the conversation are done and
+   * a concurrency slot is free.
+   *
+   * @param task - The work for the message
+   * @returns The task's result
+   */
+  run<T>(task: () => Promise<T>): Promise<T>
+  /** Gives up the slot without running a task (no-op once settled) */
+  release(): void
+}
+
+/**
+ * Default concurrency cap.
+ */
+const DEFAULT_MAX_CONCURRENCY = 10
+
+/**
+ * Default queue size.
+ */
+const DEFAULT_MAX_QUEUE_SIZE = 1000
+
+/**
+ * Returns the conversation a message belongs to.
+ *
+ * @param message - The incoming message
+ * @returns Queue key made of the sender and the channel
+ */
+export function getConversationKey(message: IncomingMessage): string {
+  return `${message.from}|${message.channelId}`
+}
+
+/**
+ * In-process work queue keyed by conversation.
+ *
+ * @example
+ * ```typescript
+ * const queue = new ConversationQueue({ maxConcurrency: 5 })
+ * const slot = queue.reserve(getConversationKey(message))
+ * if (!slot) {
+ *   // Queue full: ask the sender to retry
+ * } else {
+ *   await slot.run(() => answer(message))
+ * }
+ * ```
+ */
+export class ConversationQueue {
+  readonly maxConcurrency: number
+  readonly maxQueueSize: number
+  /** Last slot of each conversation, settled when the conversation is idle */
+  private tails = new Map<string, Promise<void>>()
+  /** Pending messages per conversation */
+  private depths = new Map<string, number>()
+  /** Tasks waiting for a concurrency slot, in order */
+  private waiters: Array<() => void> = []
+  private pending = 0
+  private active = 0
+  private processed = 0
+  private rejected = 0
+
+  constructor(config: ConversationQueueConfig = {}) {
+    this.maxConcurrency = config.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY
+    this.maxQueueSize = config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE
+
+    if (isDebugMode()) {
+      logger.debug('[ConversationQueue] Initialized', {
+        maxConcurrency: this.maxConcurrency,
+        maxQueueSize: this.maxQueueSize,
+      })
+    }
+  }
+
+  /**
+   * Reserves the next place in a conversation.
+   *
+   * Must be called in arrival order, before any asynchronous work on the
+   * message, so the conversation keeps its order.
+   *
+   * @param key - Conversation key (see getConversationKey)
+   * @returns The slot, or null if the queue is full
+   */
+  reserve(key: string): QueueSlot | null {
+    if (this.pending >= this.maxQueueSize) {
+      this.rejected++
+      logger.warn('[ConversationQueue] Queue full, message rejected', {
+        key,
+        pending: this.pending,
+        maxQueueSize: this.maxQueueSize,
+      })
+      return null
+    }
+
+    const previous = this.tails.get(key) ?? Promise.resolve()
+    let settle!: () => void
+    const current = new Promise<void>((resolve) => {
+      settle = resolve
+    })
+    this.tails.set(key, current)
+    this.depths.set(key, (this.depths.get(key) ?? 0) + 1)
+    this.pending++
+
+    let settled = false
+    const finish = () => {
+      this.pending--
+      const depth = (this.depths.get(key) ?? 1) - 1
+      if (depth > 0) {
+        this.depths.set(key, depth)
+      } else {
+        this.depths.delete(key)
+      }
+      if (this.tails.get(key) === current) {
+        this.tails.delete(key)
+      }
+      settle()
+    }
+
+    return {
+      run: async <T>(task: () => Promise<T>): Promise<T> => {
+        if (settled) {
+          throw new Error('Failed to run queued task: slot already settled')
+        }
+        settled = true
+        try {
+          await previous
+          await this.acquire()
+          try {
+            return await task()
+          } finally {
+            this.processed++
+            this.releaseConcurrency()
+          }
+        } finally {
+          finish()
+        }
+      },
+      release: () => {
+        if (settled) {
+          return
+        }
+        settled = true
+        // Later messages must still wait for the earlier ones
+        void previous.then(finish)
+      },
+    }
+  }
+
+  /**
+   * Returns the queue depth metrics.
+   *
+   * @returns Current counters
+   */
+  getStats(): ConversationQueueStats {
+    return {
+      pending: this.pending,
+      active: this.active,
+      conversations: this.depths.size,
+      maxConversationDepth: Math.max(0, ...this.depths.values()),
+      processed: this.processed,
+      rejected: this.rejected,
+      maxConcurrency: this.maxConcurrency,
+      maxQueueSize: this.maxQueueSize,
+    }
+  }
+
+  /**
+   * Waits for a concurrency slot.
+   */
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++
+      return
+    }
+    // The releasing task hands its slot over, so `active` stays the same
+    await new Promise<void>((resolve) => this.waiters.push(resolve))
+  }
+
+  /**
+   * Frees a concurrency slot, handing it to the next waiting task if any.
+   */
+  private releaseConcurrency(): void {
+    const next = this.waiters.shift()
+    if (next) {
+      next()
+    } else {
+      this.active--
+    }
+  }
+}
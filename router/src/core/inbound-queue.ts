@@ -0,0 +1,524 @@
+/**
+ * Inbound queue - durable processing of incoming messages.
+ *
+ * Providers hand incoming messages to the inbound queue, which stores them
+ * before they are routed. A worker then routes the stored messages,
+ * retries those that failed for a transient reason (the agent was down, the
+ * conversation queue was full) with exponential backoff, and dead-letters
+ * them after a number of attempts. Messages in process when the router
+ * stopped are routed again on startup.
+ *
+ * Following Clean Architecture, storage is a port (InboundQueueRepository)
+ * implemented in the infrastructure layer.
+ *
+ * @module core/inbound-queue
+ */
+
+import type { IncomingMessage } from './models.js'
+import type { MessageHandlerCallback, MessageHandlerResult } from './message-handler.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * State of a stored message.
+ *
+ * - `pending`: waiting to be routed (first attempt or retry)
+ * - `processing`: being routed
+ * - `done`: routed (including messages no route or agent wanted)
+ * - `dead`: failed on every attempt, kept for inspection and replay
+ */
+export type InboundMessageStatus = 'pending' | 'processing' | 'done' | 'dead'
+
+/**
+ * Supported values of InboundMessageStatus.
+ */
+export const INBOUND_MESSAGE_STATUSES: readonly InboundMessageStatus[] = ['pending', 'processing', 'done', 'dead']
+
+/**
+ * A message stored in the inbound queue.
+ */
+export interface InboundMessageRecord {
+  /** Queue entry identifier */
+  id: string
+  /** The incoming message */
+  message: IncomingMessage
+  /** Processing state */
+  status: InboundMessageStatus
+  /** Routing attempts so far */
+  attempts: number
+  /** When the message is due to be routed (pending messages) */
+  nextAttemptAt: Date
+  /** Error of the last failed attempt, if any */
+  lastError?: string
+  /** When the message was stored */
+  createdAt: Date
+  /** When the entry last changed */
+  updatedAt: Date
+}
+
+/**
+ * Filters for listing stored messages.
+ */
+export interface InboundMessageQuery {
+  /** Only messages in this state */
+  status?: InboundMessageStatus
+  /** Maximum number of messages (default: 50) */
+  limit?: number
+  /** Number of messages to skip */
+  offset?: number
+}
+
+/**
+ * Storage of the inbound queue (port).
+ */
+export interface InboundQueueRepository {
+  /**
+   * Stores a message as pending, due right away.
+   *
+   * @param message - The incoming message
+   * @returns The stored entry
+   */
+  add(message: IncomingMessage): Promise<InboundMessageRecord>
+
+  /**
+   * Marks due pending messages as processing and counts the attempt.
+   *
+   * @param limit - Maximum number of messages to claim
+   * @returns The claimed entries, oldest first
+   */
+  claimDue(limit: number): Promise<InboundMessageRecord[]>
+
+  /**
+   * Marks a message as routed.
+   *
+   * @param id - Queue entry identifier
+   * @param error - Why the message was not answered, if it was not (e.g. no route)
+   */
+  markDone(id: string, error?: string): Promise<void>
+
+  /**
+   * Records a failed attempt.
+   *
+   * @param id - Queue entry identifier
+   * @param error - Error of the attempt
+   * @param nextAttemptAt - When to retry, or null to dead-letter the message
+   */
+  markFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void>
+
+  /**
+   * Puts messages left in process (e.g. by a crash) back in the queue.
+   *
+   * @returns Number of messages requeued
+   */
+  requeueProcessing(): Promise<number>
+
+  /**
+   * Makes a dead-lettered message pending again, with no attempts.
+   *
+   * @param id - Queue entry identifier
+   * @returns The updated entry, or null if there is no dead-lettered message with this ID
+   */
+  replay(id: string): Promise<InboundMessageRecord | null>
+
+  /**
+   * Finds a stored message.
+   *
+   * @param id - Queue entry identifier
+   * @returns The entry, or null if not found
+   */
+  findById(id: string): Promise<InboundMessageRecord | null>
+
+  /**
+   * Lists stored messages, newest first.
+   *
+   * @param query - Filters and pagination
+   * @returns Matching entries
+   */
+  list(query: InboundMessageQuery): Promise<InboundMessageRecord[]>
+
+  /**
+   * Deletes routed messages stored before a date.
+   *
+   * @param before - Cut-off date
+   * @returns Number of messages deleted
+   */
+  deleteDone(before: Date): Promise<number>
+}
+
+/**
+ * Configuration for the inbound queue.
+ */
+export interface InboundQueueConfig {
+  /** Storage of the queue (required) */
+  repository: InboundQueueRepository
+  /** Routes a message, e.g. MessageRouter.routeMessage (required) */
+  handler: MessageHandlerCallback
+  /** Attempts before a message is dead-lettered (default: 5) */
+  maxAttempts?: number
+  /** Delay before the first retry, doubled on each retry, in milliseconds (default: 2000) */
+  retryBaseDelayMs?: number
+  /** Maximum delay between retries, in milliseconds (default: 300000) */
+  retryMaxDelayMs?: number
+  /** How often due messages are polled, in milliseconds (default: 1000) */
+  pollIntervalMs?: number
+  /** Maximum number of messages being routed at the same time (default: 100) */
+  maxInFlight?: number
+  /** How long routed messages are kept, in milliseconds (default: 24 hours; 0: forever) */
+  retentionMs?: number
+}
+
+/**
+ * Default number of attempts.
+ */
+const DEFAULT_MAX_ATTEMPTS = 5
+
+/**
+ * Default delay before the first retry, in milliseconds.
+ */
+const DEFAULT_RETRY_BASE_DELAY_MS = 2000
+
+/**
+ * Default maximum delay between retries, in milliseconds.
+ */
+const DEFAULT_RETRY_MAX_DELAY_MS = 5 * 60 * 1000
+
+/**
+ * Default poll interval, in milliseconds.
+ */
+const DEFAULT_POLL_INTERVAL_MS = 1000
+
+/**
+ * Default number of messages routed at the same time.
+ */
+const DEFAULT_MAX_IN_FLIGHT = 100
+
+/**
+ * Default retention of routed messages, in milliseconds.
+ */
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How often routed messages past the retention are deleted, in milliseconds.
+ */
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Durable inbound queue with a polling worker.
+ *
+ * @example
+ * ```typescript
+ * const inboundQueue = new InboundQueue({
+ *   repository: new PostgresInboundQueueRepository(),
+ *   handler: (message) => messageRouter.routeMessage(message),
+ * })
+ * await inboundQueue.start()
+ *
+ * // In a provider or webhook
+ * await inboundQueue.submit(message)
+ * ```
+ */
+export class InboundQueue {
+  readonly maxAttempts: number
+  private repository: InboundQueueRepository
+  private handler: MessageHandlerCallback
+  private retryBaseDelayMs: number
+  private retryMaxDelayMs: number
+  private pollIntervalMs: number
+  private maxInFlight: number
+  private retentionMs: number
+  private inFlight = 0
+  private running = false
+  private polling = false
+  private pollAgain = false
+  private pollTimer: ReturnType<typeof setInterval> | null = null
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(config: InboundQueueConfig) {
+    this.repository = config.repository
+    this.handler = config.handler
+    this.maxAttempts = config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS
+    this.retryMaxDelayMs = config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS
+    this.pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+    this.maxInFlight = config.maxInFlight ?? DEFAULT_MAX_IN_FLIGHT
+    this.retentionMs = config.retentionMs ?? DEFAULT_RETENTION_MS
+
+    if (isDebugMode()) {
+      logger.debug('[InboundQueue] Initialized', {
+        maxAttempts: this.maxAttempts,
+        retryBaseDelayMs: this.retryBaseDelayMs,
+        retryMaxDelayMs: this.retryMaxDelayMs,
+        pollIntervalMs: this.pollIntervalMs,
+        maxInFlight: this.maxInFlight,
+        retentionMs: this.retentionMs,
+      })
+    }
+  }
+
+  /**
+   * Starts the worker.
+   *
+   * Messages left in process by a previous run are requeued first. If the
+   * database is not reachable yet, the worker starts anyway and those
+   * messages stay in process until the next startup.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return
+    }
+    this.running = true
+
+    try {
+      const requeued = await this.repository.requeueProcessing()
+      if (requeued > 0) {
+        logger.warn('[InboundQueue] Requeued messages left in process by a previous run', { requeued })
+      }
+    } catch (error) {
+      logger.error('[InboundQueue] Failed to requeue messages left in process', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+
+    this.pollTimer = setInterval(() => this.poke(), this.pollIntervalMs)
+    if (this.retentionMs > 0) {
+      this.cleanupTimer = setInterval(() => void this.cleanup(), CLEANUP_INTERVAL_MS)
+    }
+
+    logger.info('[InboundQueue] Worker started', {
+      maxAttempts: this.maxAttempts,
+      pollIntervalMs: this.pollIntervalMs,
+    })
+    this.poke()
+  }
+
+  /**
+   * Stops the worker. Messages being routed finish in the background.
+   */
+  stop(): void {
+    this.running = false
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+    logger.info('[InboundQueue] Worker stopped')
+  }
+
+  /**
+   * Stores an incoming message and wakes the worker up.
+   *
+   * @param message - The incoming message
+   * @returns The stored entry
+   *
+   * @throws {Error} If the message could not be stored
+   */
+  async submit(message: IncomingMessage): Promise<InboundMessageRecord> {
+    let record: InboundMessageRecord
+    try {
+      record = await this.repository.add(message)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('[InboundQueue] Failed to store message', {
+        messageId: message.id,
+        channelId: message.channelId,
+        error: errorMessage,
+      })
+      throw new Error(`Failed to enqueue message: ${errorMessage}`)
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[InboundQueue] Message stored', {
+        id: record.id,
+        messageId: message.id,
+        channelId: message.channelId,
+      })
+    }
+
+    this.poke()
+    return record
+  }
+
+  /**
+   * Makes a dead-lettered message pending again and wakes the worker up.
+   *
+   * @param id - Queue entry identifier
+   * @returns The updated entry, or null if there is no dead-lettered message with this ID
+   */
+  async replay(id: string): Promise<InboundMessageRecord | null> {
+    const record = await this.repository.replay(id)
+    if (record) {
+      logger.info('[InboundQueue] Dead-lettered message replayed', {
+        id,
+        messageId: record.message.id,
+      })
+      this.poke()
+    }
+    return record
+  }
+
+  /**
+   * Finds a stored message.
+   *
+   * @param id - Queue entry identifier
+   * @returns The entry, or null if not found
+   */
+  findById(id: string): Promise<InboundMessageRecord | null> {
+    return this.repository.findById(id)
+  }
+
+  /**
+   * Lists stored messages, newest first.
+   *
+   * @param query - Filters and pagination
+   * @returns Matching entries
+   */
+  list(query: InboundMessageQuery = {}): Promise<InboundMessageRecord[]> {
+    return this.repository.list(query)
+  }
+
+  /**
+   * Returns the delay before the next attempt.
+   *
+   * @param attempts - Attempts made so far (at least 1)
+   * @returns Delay in milliseconds, doubled for each attempt up to the maximum
+   */
+  getRetryDelayMs(attempts: number): number {
+    return Math.min(this.retryBaseDelayMs * 2 ** (attempts - 1), this.retryMaxDelayMs)
+  }
+
+  /**
+   * Polls for due messages now, or again right after the running poll.
+   */
+  private poke(): void {
+    if (!this.running) {
+      return
+    }
+    if (this.polling) {
+      this.pollAgain = true
+      return
+    }
+    void this.poll()
+  }
+
+  /**
+   * Claims due messages and starts routing them, oldest first.
+   *
+   * Messages are handed to the handler in order without waiting for each
+   * other, so the conversation queue keeps them in order per conversation.
+   * A message waiting for a retry does not hold back later messages of its
+   * conversation, which can be routed before it.
+   */
+  private async poll(): Promise<void> {
+    this.polling = true
+    try {
+      do {
+        this.pollAgain = false
+        const capacity = this.maxInFlight - this.inFlight
+        if (capacity <= 0) {
+          break
+        }
+
+        const records = await this.repository.claimDue(capacity)
+        for (const record of records) {
+          void this.process(record)
+        }
+        if (records.length === capacity) {
+          this.pollAgain = true
+        }
+      } while (this.pollAgain && this.running)
+    } catch (error) {
+      logger.error('[InboundQueue] Failed to poll for due messages', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    } finally {
+      this.polling = false
+    }
+  }
+
+  /**
+   * Routes a claimed message and records the outcome.
+   *
+   * @param record - The claimed entry
+   */
+  private async process(record: InboundMessageRecord): Promise<void> {
+    this.inFlight++
+    try {
+      let result: MessageHandlerResult
+      try {
+        result = await this.handler(record.message)
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          metadata: { retryable: true },
+        }
+      }
+
+      if (result.success || result.metadata?.retryable !== true) {
+        await this.repository.markDone(record.id, result.success ? undefined : result.error)
+        return
+      }
+
+      await this.fail(record, result.error || 'Message processing failed')
+    } catch (error) {
+      // The entry stays in process and is requeued on the next startup
+      logger.error('[InboundQueue] Failed to record message outcome', {
+        id: record.id,
+        messageId: record.message.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    } finally {
+      this.inFlight--
+      this.poke()
+    }
+  }
+
+  /**
+   * Schedules a retry of a failed message, or dead-letters it.
+   *
+   * @param record - The claimed entry (attempts includes the failed one)
+   * @param error - Error of the attempt
+   */
+  private async fail(record: InboundMessageRecord, error: string): Promise<void> {
+    if (record.attempts >= this.maxAttempts) {
+      await this.repository.markFailed(record.id, error, null)
+      logger.error('[InboundQueue] Message dead-lettered', {
+        id: record.id,
+        messageId: record.message.id,
+        channelId: record.message.channelId,
+        attempts: record.attempts,
+        error,
+      })
+      return
+    }
+
+    const delayMs = this.getRetryDelayMs(record.attempts)
+    await this.repository.markFailed(record.id, error, new Date(Date.now() + delayMs))
+    logger.warn('[InboundQueue] Message failed, retry scheduled', {
+      id: record.id,
+      messageId: record.message.id,
+      channelId: record.message.channelId,
+      attempts: record.attempts,
+      delayMs,
+      error,
+    })
+  }
+
+  /**
+   * Deletes routed messages past the retention period.
+   */
+  private async cleanup(): Promise<void> {
+    try {
+      const deleted = await this.repository.deleteDone(new Date(Date.now() - this.retentionMs))
+      if (deleted > 0) {
+        logger.info('[InboundQueue] Routed messages past retention deleted', { deleted })
+      }
+    } catch (error) {
+      logger.error('[InboundQueue] Failed to delete routed messages', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Media store interface (port).
+ *
+ * This module defines the contract for storing media downloaded from
+ * WhatsApp (photos, voice notes, documents) so agents can receive the
+ * actual files. Following Clean Architecture, this interface lives in the
+ * core layer and is implemented by infrastructure (e.g. the filesystem).
+ *
+ * @module core/media-store
+ */
+
+/**
+ * Describes a file being saved.
+ */
+export interface SaveMediaOptions {
+  /** ID of the message the file belongs to */
+  messageId: string
+  /** MIME type of the file */
+  mimeType: string
+  /** Original file name (optional) */
+  filename?: string
+}
+
+/**
+ * A saved file.
+ */
+export interface StoredMedia {
+  /** Location of the file, used as `MessageAttachment.url` */
+  url: string
+  /** File size in bytes */
+  size: number
+}
+
+/**
+ * Interface for media store implementations.
+ */
+export interface MediaStore {
+  /** Maximum size in bytes of a single file */
+  readonly maxBytes: number
+
+  /**
+   * Saves a file.
+   *
+   * @param data - File contents
+   * @param options - File description
+   * @returns The stored file location and size
+   * @throws {Error} If the file exceeds `maxBytes` or cannot be written
+   */
+  save(data: Buffer, options: SaveMediaOptions): Promise<StoredMedia>
+
+  /**
+   * Reads a stored file.
+   *
+   * @param url - Location returned by `save`
+   * @returns File contents
+   * @throws {Error} If the file does not belong to this store or no longer exists
+   */
+  read(url: string): Promise<Buffer>
+
+  /**
+   * Deletes files older than the store's retention period.
+   *
+   * @returns Number of files deleted
+   */
+  purgeExpired(): Promise<number>
+}
@@ -0,0 +1,129 @@
+/**
+ * Message debouncer - merges bursts of messages from the same conversation.
+ *
+ * WhatsApp users often split one thought over several short messages. When
+ * a route sets `config.debounceMs`, MessageRouter collects the messages of a
+ * conversation here until the sender stays quiet for that long, and sends
+ * them to the agent as a single message.
+ *
+ * @module core/message-debouncer
+ */
+
+import type { IncomingMessage } from './models.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Maximum number of messages merged into one. A burst that reaches it is
+ * released right away, so a sender who never pauses still gets answers.
+ */
+export const MAX_BURST_MESSAGES = 20
+
+/**
+ * Messages of a conversation waiting for the sender to pause.
+ */
+interface PendingBurst {
+  /** Buffered messages, in arrival order */
+  messages: IncomingMessage[]
+  /** Timer that releases the burst */
+  timer: ReturnType<typeof setTimeout>
+  /** Settles the call of the latest message */
+  resolve: (messages: IncomingMessage[] | null) => void
+}
+
+/**
+ * Collects consecutive messages per conversation.
+ *
+ * Every message restarts the window of its conversation. When the window
+ * ends, the call of the latest message resolves with the whole burst; the
+ * calls of the earlier messages resolve with null as soon as a newer message
+ * arrives, so their handlers can return without calling the agent.
+ *
+ * @example
+ * ```typescript
+ * const debouncer = new MessageDebouncer()
+ * const burst = await debouncer.collect(`${route.id}|${message.from}`, message, 2000)
+ * if (burst) {
+ *   await agentClient.sendMessage(endpoint, mergeMessages(burst))
+ * }
+ * ```
+ */
+export class MessageDebouncer {
+  private bursts = new Map<string, PendingBurst>()
+
+  /**
+   * Adds a message to the burst of its conversation.
+   *
+   * @param key - Conversation key (messages with the same key are merged)
+   * @param message - The incoming message
+   * @param windowMs - How long to wait for another message, in milliseconds
+   * @returns The burst once the sender paused, or null if a newer message took it over
+   */
+  collect(key: string, message: IncomingMessage, windowMs: number): Promise<IncomingMessage[] | null> {
+    const pending = this.bursts.get(key)
+    const messages = pending ? [...pending.messages, message] : [message]
+
+    if (pending) {
+      clearTimeout(pending.timer)
+      pending.resolve(null)
+    }
+
+    return new Promise((resolve) => {
+      const release = () => {
+        this.bursts.delete(key)
+        if (isDebugMode()) {
+          logger.debug('[MessageDebouncer] Burst released', {
+            key,
+            messageCount: messages.length,
+          })
+        }
+        resolve(messages)
+      }
+
+      if (messages.length >= MAX_BURST_MESSAGES) {
+        release()
+        return
+      }
+
+      this.bursts.set(key, { messages, timer: setTimeout(release, windowMs), resolve })
+    })
+  }
+
+  /**
+   * Returns the number of conversations with a burst waiting.
+   *
+   * @returns Number of pending bursts
+   */
+  getPendingCount(): number {
+    return this.bursts.size
+  }
+}
+
+/**
+ * Merges a burst into a single message for the agent.
+ *
+ * The merged message takes the ID, timestamp and metadata of the latest
+ * message, so replies quote it; the texts are joined by line breaks and the
+ * attachments are concatenated. `metadata.messageIds` lists the IDs of all
+ * merged messages, in order.
+ *
+ * @param messages - The burst, in arrival order (at least one message)
+ * @returns The merged message, or the only message of the burst unchanged
+ */
+export function mergeMessages(messages: IncomingMessage[]): IncomingMessage {
+  const last = messages[messages.length - 1]
+  if (messages.length === 1) {
+    return last
+  }
+
+  const attachments = messages.flatMap((message) => message.attachments ?? [])
+
+  return {
+    ...last,
+    text: messages.map((message) => message.text).filter((text) => text.trim()).join('\n'),
+    ...(attachments.length > 0 ? { attachments } : {}),
+    metadata: {
+      ...last.metadata,
+      messageIds: messages.map((message) => message.id),
+    },
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Deduplication of incoming messages.
+ *
+ * Providers can deliver the same message more than once: Evolution API
+ * retries webhooks, Baileys redelivers on reconnect and Meta retries
+ * unacknowledged webhooks. Without a check, the agent answers the same
+ * message twice. This module remembers the provider IDs of recent
+ * messages and tells redeliveries apart, counting and logging them.
+ *
+ * The store is a port: InMemoryDedupStore keeps IDs in this process, and
+ * infrastructure can keep them in a database so they survive restarts and
+ * are shared between instances.
+ *
+ * @module core/message-dedup
+ */
+
+import { createHash } from 'crypto'
+import type { IncomingMessage } from './models.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Interface for stores of seen message keys (port).
+ */
+export interface DedupStore {
+  /**
+   * Records a key unless it is already recorded and not expired.
+   *
+   * Implementations must check and record atomically, so two deliveries
+   * arriving at the same time are not both taken as new.
+   *
+   * @param key - Message key
+   * @param ttlMs - How long the key is remembered, in milliseconds
+   * @returns true if the key was recorded (first delivery), false if it was already recorded
+   */
+  add(key: string, ttlMs: number): Promise<boolean>
+
+  /**
+   * Forgets a key, so a later delivery is taken as new.
+   *
+   * @param key - Message key
+   */
+  remove(key: string): Promise<void>
+
+  /**
+   * Deletes expired keys.
+   *
+   * @returns Number of keys deleted
+   */
+  purgeExpired(): Promise<number>
+}
+
+/**
+ * Configuration for InMemoryDedupStore.
+ */
+export interface InMemoryDedupStoreConfig {
+  /** Maximum number of keys remembered; the oldest are dropped first (default: 100000) */
+  maxEntries?: number
+  /** Clock, in milliseconds (for testing) */
+  now?: () => number
+}
+
+/**
+ * Configuration for MessageDeduplicator.
+ */
+export interface MessageDeduplicatorConfig {
+  /** Where seen message keys are stored */
+  store: DedupStore
+  /** How long a message ID is remembered, in milliseconds (default: 24 hours) */
+  ttlMs?: number
+}
+
+/**
+ * Deduplication counters.
+ */
+export interface DedupStats {
+  /** Messages checked */
+  checked: number
+  /** Messages ignored as duplicates */
+  duplicates: number
+}
+
+/**
+ * Default time a message ID is remembered: 24 hours.
+ */
+export const DEFAULT_DEDUP_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Default maximum number of keys kept by InMemoryDedupStore.
+ */
+const DEFAULT_MAX_ENTRIES = 100000
+
+/**
+ * Builds a stable message ID from message contents, for providers that
+ * deliver a message without one.
+ *
+ * The same contents give the same ID, so a redelivered message is
+ * recognized as a duplicate.
+ *
+ * @param parts - Contents identifying the message (e.g. sender, timestamp, raw message); undefined parts are skipped
+ * @returns ID in the form `hash-<32 hex characters>`
+ *
+ * @example
+ * ```typescript
+ * hashMessageId('5491155551234@s.whatsapp.net', 1700000000, JSON.stringify(data.message))
+ * ```
+ */
+export function hashMessageId(...parts: Array<string | number | undefined>): string {
+  const hash = createHash('sha256')
+  for (const part of parts) {
+    if (part !== undefined) {
+      hash.update(String(part))
+    }
+    // Separator keeps ('ab', 'c') and ('a', 'bc') apart
+    hash.update('\u0000')
+  }
+  return `hash-${hash.digest('hex').slice(0, 32)}`
+}
+
+/**
+ * Gets the key a message is deduplicated by.
+ *
+ * Provider message IDs are unique within a chat.
+ *
+ * @param message - The incoming message
+ * @returns `channelId|messageId`
+ */
+export function getDedupKey(message: IncomingMessage): string {
+  return `${message.channelId}|${message.id}`
+}
+
+/**
+ * In-memory implementation of DedupStore.
+ *
+ * Keys are lost on restart and not shared between instances.
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryDedupStore({ maxEntries: 50000 })
+ * await store.add('5491155551234|3EB0C767D71D', 60000) // true
+ * await store.add('5491155551234|3EB0C767D71D', 60000) // false
+ * ```
+ */
+export class InMemoryDedupStore implements DedupStore {
+  private maxEntries: number
+  private now: () => number
+  /** Keys and when they expire (Map keeps insertion order) */
+  private entries: Map<string, number> = new Map()
+
+  constructor(config: InMemoryDedupStoreConfig = {}) {
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES
+    this.now = config.now ?? Date.now
+  }
+
+  /**
+   * Records a key unless it is already recorded and not expired.
+   *
+   * @param key - Message key
+   * @param ttlMs - How long the key is remembered, in milliseconds
+   * @returns true if the key was recorded
+   */
+  async add(key: string, ttlMs: number): Promise<boolean> {
+    const now = this.now()
+    const expiresAt = this.entries.get(key)
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false
+    }
+
+    this.entries.delete(key)
+    this.entries.set(key, now + ttlMs)
+
+    // Keys are in insertion order, so the oldest are at the front
+    for (const [entryKey, entryExpiresAt] of this.entries) {
+      if (this.entries.size <= this.maxEntries && entryExpiresAt > now) {
+        break
+      }
+      this.entries.delete(entryKey)
+    }
+
+    return true
+  }
+
+  /**
+   * Forgets a key.
+   *
+   * @param key - Message key
+   */
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  /**
+   * Deletes expired keys.
+   *
+   * @returns Number of keys deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const now = this.now()
+    let deleted = 0
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(key)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  /**
+   * Gets the number of keys remembered.
+   *
+   * @returns Number of keys, including expired ones not purged yet
+   */
+  getSize(): number {
+    return this.entries.size
+  }
+}
+
+/**
+ * Recognizes redelivered messages by their provider ID.
+ *
+ * @example
+ * ```typescript
+ * const deduplicator = new MessageDeduplicator({ store: new InMemoryDedupStore() })
+ * if (await deduplicator.isDuplicate(message)) {
+ *   return { success: true, metadata: { skipped: true, duplicate: true } }
+ * }
+ * ```
+ */
+export class MessageDeduplicator {
+  readonly ttlMs: number
+  private store: DedupStore
+  private checked = 0
+  private duplicates = 0
+  private cleanupTimer: NodeJS.Timeout | null = null
+
+  constructor(config: MessageDeduplicatorConfig) {
+    this.store = config.store
+    this.ttlMs = config.ttlMs ?? DEFAULT_DEDUP_TTL_MS
+
+    if (isDebugMode()) {
+      logger.debug('[MessageDeduplicator] Initialized', { ttlMs: this.ttlMs })
+    }
+  }
+
+  /**
+   * Checks if a message was already delivered, and remembers it if not.
+   *
+   * If the store fails, the message is taken as new: answering twice is
+   * better than not answering.
+   *
+   * @param message - The incoming message
+   * @returns true if the message is a duplicate and should not be processed
+   */
+  async isDuplicate(message: IncomingMessage): Promise<boolean> {
+    this.checked++
+
+    let added: boolean
+    try {
+      added = await this.store.add(getDedupKey(message), this.ttlMs)
+    } catch (error) {
+      logger.error('[MessageDeduplicator] Failed to check message, processing it', {
+        messageId: message.id,
+        channelId: message.channelId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return false
+    }
+
+    if (added) {
+      return false
+    }
+
+    this.duplicates++
+    logger.info('[MessageDeduplicator] Duplicate message ignored', {
+      messageId: message.id,
+      channelId: message.channelId,
+      duplicates: this.duplicates,
+    })
+    return true
+  }
+
+  /**
+   * Forgets a message, so its next delivery is processed.
+   *
+   * Used when a message was not accepted (e.g. the queue was full) and the
+   * provider is asked to deliver it again.
+   *
+   * @param message - The incoming message
+   */
+  async forget(message: IncomingMessage): Promise<void> {
+    try {
+      await this.store.remove(getDedupKey(message))
+    } catch (error) {
+      logger.error('[MessageDeduplicator] Failed to forget message', {
+        messageId: message.id,
+        channelId: message.channelId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Gets the deduplication counters.
+   *
+   * @returns Messages checked and duplicates ignored since startup
+   */
+  getStats(): DedupStats {
+    return {
+      checked: this.checked,
+      duplicates: this.duplicates,
+    }
+  }
+
+  /**
+   * Starts purging expired keys periodically.
+   *
+   * The timer does not keep the process alive.
+   *
+   * @param intervalMs - Time between purges (default: 1 hour)
+   */
+  startCleanup(intervalMs = 60 * 60 * 1000): void {
+    this.stopCleanup()
+    this.cleanupTimer = setInterval(() => {
+      this.store.purgeExpired().catch((error) => {
+        logger.error('[MessageDeduplicator] Cleanup failed', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+    }, intervalMs)
+    this.cleanupTimer.unref()
+  }
+
+  /**
+   * Stops periodic cleanup.
+   */
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+  }
+}
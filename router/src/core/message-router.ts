@@ -11,11 +11,25 @@
  * @module core/message-router
  */
 
-import type { IncomingMessage } from './models.js'
+import type { IncomingMessage, OutgoingContent, QuotedMessage, Route } from './models.js'
 import type { MessageHandlerResult } from './message-handler.js'
 import type { WhatsAppProvider } from './whatsapp-provider.js'
 import type { AgentClientFactory } from './agent-client.js'
 import { RouterService } from './router-service.js'
+import type { TakeoverService } from './takeover.js'
+import type { TranscriptReply, TranscriptService } from './transcript.js'
+import { MessageDebouncer, mergeMessages } from './message-debouncer.js'
+import { getConversationKey, type ConversationQueue, type QueueSlot } from './conversation-queue.js'
+import {
+  getDebounceMs,
+  getGroupMode,
+  getReplyDelayMs,
+  isAddressedToAgent,
+  isReadReceiptsEnabled,
+  isTypingIndicatorEnabled,
+  shouldQuoteReplies,
+  validateRouteOptions,
+} from './route-options.js'
 import { logger, isDebugMode } from './logger.js'
 
 /**
@@ -26,17 +40,80 @@ export interface MessageRouterConfig {
   whatsappProvider: WhatsAppProvider
   /** Factory for creating agent clients (required) */
   agentClientFactory: AgentClientFactory
+  /** Pauses chats where a human operator writes from the phone (optional) */
+  takeover?: TakeoverService
+  /** Answers each conversation in order, with a concurrency cap (optional; unbounded without it) */
+  queue?: ConversationQueue
+  /** Stores routed messages and the replies sent for them (optional) */
+  transcript?: TranscriptService
+}
+
+/**
+ * How often the typing indicator is repeated while an agent works, in
+ * milliseconds. WhatsApp clients hide it after a few seconds without updates.
+ */
+const TYPING_KEEPALIVE_MS = 8000
+
+/**
+ * Handle of the typing indicator shown while an agent works.
+ */
+interface TypingIndicator {
+  /** Shows the indicator again, e.g. after a streamed reply cleared it */
+  refresh(): void
+  /** Stops repeating the indicator and clears it */
+  stop(): Promise<void>
+}
+
+/**
+ * Result of answering a debounced burst, awaited by its earlier messages.
+ */
+interface BurstOutcome {
+  /** Settles with the result of the agent call of the burst */
+  promise: Promise<MessageHandlerResult>
+  /** Settles the outcome */
+  resolve(result: MessageHandlerResult): void
+}
+
+/**
+ * Creates the pending outcome of a burst.
+ *
+ * @returns An unsettled outcome
+ */
+function createBurstOutcome(): BurstOutcome {
+  let resolve!: (result: MessageHandlerResult) => void
+  const promise = new Promise<MessageHandlerResult>((settle) => {
+    resolve = settle
+  })
+  return { promise, resolve }
+}
+
+/**
+ * Checks if any reply reached the user.
+ *
+ * @param replies - Replies sent so far
+ * @returns true if at least one reply was delivered
+ */
+function hasDeliveredReplies(replies: TranscriptReply[]): boolean {
+  return replies.some((reply) => !reply.error)
 }
 
 /**
  * Service that routes incoming messages to appropriate AI agents.
  * 
  * This service handles the complete flow:
- * 1. Receives incoming message
- * 2. Finds route using RouterService
- * 3. Sends message to agent endpoint
- * 4. Handles agent response (if any)
- * 5. Returns result for sending back to user
+ * 1. Receives incoming message (operator messages and chats taken over by an
+ *    operator stop here when takeover is enabled) and takes its place in the
+ *    conversation queue, if configured
+ * 2. Finds route using RouterService (group messages that do not address the
+ *    bot stop here when the route's group mode requires a mention)
+ * 3. Marks the message read and, if the route sets a debounce window, waits
+ *    for more messages from the sender and merges them into one
+ * 4. Waits for the earlier messages of the conversation, shows the typing
+ *    indicator (if the provider supports it) and sends the message to the
+ *    agent endpoint
+ * 5. Handles agent response (if any) and records the message and replies in
+ *    the transcript, if configured
+ * 6. Returns result for sending back to user
  * 
  * @example
  * ```typescript
@@ -54,6 +131,11 @@ export interface MessageRouterConfig {
 export class MessageRouter {
   private whatsappProvider: WhatsAppProvider
   private agentClientFactory: AgentClientFactory
+  private takeover?: TakeoverService
+  private queue?: ConversationQueue
+  private transcript?: TranscriptService
+  private debouncer = new MessageDebouncer()
+  private burstOutcomes = new Map<string, BurstOutcome>()
 
   constructor(
     private routerService: RouterService,
@@ -61,11 +143,17 @@ export class MessageRouter {
   ) {
     this.whatsappProvider = config.whatsappProvider
     this.agentClientFactory = config.agentClientFactory
+    this.takeover = config.takeover
+    this.queue = config.queue
+    this.transcript = config.transcript
 
     if (isDebugMode()) {
       logger.debug('[MessageRouter] Initialized', {
         hasRouterService: !!routerService,
         hasAgentClientFactory: !!config.agentClientFactory,
+        hasTakeover: !!config.takeover,
+        hasQueue: !!config.queue,
+        hasTranscript: !!config.transcript,
       })
     }
   }
@@ -74,9 +162,21 @@ export class MessageRouter {
    * Routes an incoming message to the appropriate agent.
    * 
    * This method:
-   * 1. Finds the route for the message's channel
-   * 2. Sends the message to the agent endpoint
-   * 3. Returns the agent's response
+   * 1. Takes the message's place in its conversation queue (if configured)
+   * 2. Finds the route for the message's channel
+   * 3. Sends the message to the agent endpoint, after the earlier messages
+   *    of the conversation
+   * 4. Returns the agent's response
+   * 
+   * When the queue is full the message is rejected right away with
+   * `metadata.queueFull`, so webhook senders can retry it later. Failures
+   * worth retrying (a full queue, agent errors before any reply reached the
+   * user) set `metadata.retryable`; messages without a route or with an
+   * invalid route are not retried, and neither are agent errors after a
+   * reply was delivered, since a retry would send that reply again.
+   * 
+   * The earlier messages of a debounced burst resolve once the burst was
+   * answered: skipped if it was, or with the failure of the burst.
    * 
    * @param message - The incoming message to route
    * @returns Promise resolving to the handler result
@@ -90,6 +190,41 @@ export class MessageRouter {
       })
     }
 
+    const takeoverResult = this.applyTakeover(message)
+    if (takeoverResult) {
+      return takeoverResult
+    }
+
+    // The place in the conversation is taken on arrival, before any await
+    const slot = this.queue?.reserve(getConversationKey(message))
+    if (slot === null) {
+      return {
+        success: false,
+        error: 'Message queue is full',
+        metadata: { queueFull: true, retryable: true },
+      }
+    }
+
+    try {
+      return await this.routeInOrder(message, slot)
+    } finally {
+      // No-op if the message was answered; lets the conversation go on if it was skipped
+      slot?.release()
+    }
+  }
+
+  /**
+   * Routes a message that holds its place in the conversation queue.
+   * 
+   * Finding the route, read receipts and the debounce window run right
+   * away; only the agent call and the replies wait for the earlier
+   * messages of the conversation, so a burst can still be merged.
+   * 
+   * @param message - The incoming message to route
+   * @param slot - Place of the message in its conversation (unset without a queue)
+   * @returns Promise resolving to the handler result
+   */
+  private async routeInOrder(message: IncomingMessage, slot?: QueueSlot): Promise<MessageHandlerResult> {
     // Step 1: Find route
     const route = await this.routerService.routeMessage(message)
 
@@ -131,37 +266,154 @@ export class MessageRouter {
       })
     }
 
-    // Step 2: Send to agent
+    // Group chatter that does not address the bot stays unread
+    if (!isAddressedToAgent(route, message)) {
+      const groupMode = getGroupMode(route)
+      if (isDebugMode()) {
+        logger.debug('[MessageRouter] Group message not addressed to the agent, skipped', {
+          messageId: message.id,
+          routeId: route.id,
+          channelId: route.channelId,
+          groupMode,
+        })
+      }
+      return {
+        success: true,
+        metadata: { skipped: true, groupMode },
+      }
+    }
+
+    await this.markRead(message, route)
+
+    // The call of the latest message in a burst sends the whole burst
+    const { burst, outcome } = await this.collectBurst(message, route)
+    if (!burst) {
+      // The latest message takes the turn in the conversation, this one waits for its outcome
+      slot?.release()
+      const result = await outcome.promise
+      return result.success
+        ? { success: true, metadata: { skipped: true, debounced: true } }
+        : result
+    }
+
+    // Step 2: Send to agent, after the earlier messages of the conversation
+    const merged = mergeMessages(burst)
+    let result: MessageHandlerResult | undefined
+    try {
+      result = slot
+        ? await slot.run(() => this.answer(merged, route))
+        : await this.answer(merged, route)
+      return result
+    } finally {
+      outcome.resolve(result ?? {
+        success: false,
+        error: 'Burst was not answered',
+        metadata: { retryable: true },
+      })
+    }
+  }
+
+  /**
+   * Sends a message to the agent of its route and delivers the replies,
+   * then records the exchange in the transcript (if configured).
+   * 
+   * @param message - The message to answer (merged, if it ended a burst)
+   * @param route - The route that handles the message
+   * @returns Promise resolving to the handler result
+   */
+  private async answer(message: IncomingMessage, route: Route): Promise<MessageHandlerResult> {
+    const startedAt = new Date()
+    const replies: TranscriptReply[] = []
+    const result = await this.callAgent(message, route, replies)
+
+    await this.transcript?.recordExchange({
+      message,
+      route,
+      result,
+      replies,
+      startedAt,
+      latencyMs: Date.now() - startedAt.getTime(),
+    })
+
+    return result
+  }
+
+  /**
+   * Sends a message to the agent of its route and delivers the replies.
+   * 
+   * @param message - The message to answer
+   * @param route - The route that handles the message
+   * @param replies - Receives the replies sent, in order
+   * @returns Promise resolving to the handler result
+   */
+  private async callAgent(
+    message: IncomingMessage,
+    route: Route,
+    replies: TranscriptReply[]
+  ): Promise<MessageHandlerResult> {
+    let typing: TypingIndicator | undefined
     try {
-      // Get agent configuration from route
-      // Currently only ADK is supported, but the system is designed to support
-      // other agent types in the future (e.g., gRPC, WebSocket)
-      const adkConfig = route.config?.adk as
-        | { appName: string; baseUrl?: string; sessionIdGenerator?: string }
-        | undefined
-
-      if (!adkConfig?.appName) {
-        logger.error('[MessageRouter] Route missing agent configuration', {
+      const optionsError = validateRouteOptions(route)
+
+      if (optionsError) {
+        logger.error('[MessageRouter] Route has invalid options', {
           messageId: message.id,
+          routeId: route.id,
+          channelId: route.channelId,
+          field: optionsError.field,
+          error: optionsError.message,
+        })
+        return {
+          success: false,
+          error: `Invalid route options: ${optionsError.message}`,
+        }
+      }
+
+      // Validate the route's agent configuration (config.type selects the protocol)
+      const configError = this.agentClientFactory.validateRoute(route)
+
+      if (configError) {
+        logger.error('[MessageRouter] Route has invalid agent configuration', {
+          messageId: message.id,
+          routeId: route.id,
           channelId: route.channelId,
           agentEndpoint: route.agentEndpoint,
+          error: configError,
         })
         return {
           success: false,
-          error: 'Route missing required agent configuration (config.adk.appName). Currently only ADK agents are supported.',
+          error: `Invalid agent configuration: ${configError}`,
         }
       }
 
-      // Create ADK client using factory (avoids direct dependency on infra layer)
-      const adkClient = this.agentClientFactory.createAdkClient({
-        appName: adkConfig.appName,
-        baseUrl: adkConfig.baseUrl || route.agentEndpoint,
-        timeout: 30000,
-      })
+      // Create agent client using factory (avoids direct dependency on infra layer)
+      const agentClient = this.agentClientFactory.createClient(route)
+      typing = this.startTyping(message, route)
+      const activeTyping = typing
 
-      const agentResponse = await adkClient.sendMessage(
-        adkConfig.baseUrl || route.agentEndpoint,
-        message
+      // Only the first reply quotes the user's message
+      let quoted: QuotedMessage | undefined = shouldQuoteReplies(route, message)
+        ? this.toQuotedMessage(message)
+        : undefined
+      const deliver = async (text: string, content?: OutgoingContent) => {
+        const reply = await this.sendReply(message, route, text, content, quoted)
+        if (reply) {
+          replies.push(reply)
+        }
+        quoted = undefined
+      }
+
+      // Streaming clients deliver replies while the agent is still running
+      const agentResponse = await agentClient.sendMessage(
+        this.agentClientFactory.resolveEndpoint(route),
+        message,
+        {
+          onReply: async (text, content) => {
+            await deliver(text, content)
+            // A delivered message clears the indicator on the user's phone
+            activeTyping.refresh()
+          },
+        }
       )
 
       if (isDebugMode()) {
@@ -182,7 +434,10 @@ export class MessageRouter {
         return {
           success: false,
           error: agentResponse.error || 'Agent processing failed',
-          metadata: agentResponse.metadata,
+          metadata: {
+            ...agentResponse.metadata,
+            ...(hasDeliveredReplies(replies) ? {} : { retryable: true }),
+          },
         }
       }
 
@@ -193,36 +448,17 @@ export class MessageRouter {
         hasResponse: !!agentResponse.response,
       })
 
-      // If agent returned a response, send it back via WhatsApp provider
-      if (agentResponse.response) {
-        try {
-          await this.whatsappProvider.sendMessage({
-            to: message.from,
-            channelId: message.channelId,
-            text: agentResponse.response,
-            metadata: {
-              originalMessageId: message.id,
-              agentEndpoint: route.agentEndpoint,
-            },
-          })
-
-          if (isDebugMode()) {
-            logger.debug('[MessageRouter] Response sent back to user via provider', {
-              messageId: message.id,
-              responseLength: agentResponse.response.length,
-            })
-          }
+      // If agent returned replies that were not streamed already, send them back via WhatsApp provider
+      if (!agentResponse.streamed) {
+        const parts = agentResponse.parts
+          ?? (agentResponse.response ? [{ text: agentResponse.response }] : [])
+        const replyDelayMs = getReplyDelayMs(route)
 
-          logger.info('[MessageRouter] Complete message flow successful', {
-            messageId: message.id,
-            channelId: message.channelId,
-          })
-        } catch (error) {
-          logger.error('[MessageRouter] Failed to send response back via provider', {
-            messageId: message.id,
-            error: error instanceof Error ? error.message : String(error),
-          })
-          // Continue and return success even if sending response fails
+        for (const [index, reply] of parts.entries()) {
+          if (index > 0 && replyDelayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, replyDelayMs))
+          }
+          await deliver(reply.text, reply.content)
         }
       }
 
@@ -250,10 +486,265 @@ export class MessageRouter {
         error: `Failed to communicate with agent: ${errorMessage}`,
         metadata: {
           agentEndpoint: route.agentEndpoint,
+          ...(hasDeliveredReplies(replies) ? {} : { retryable: true }),
         },
       }
+    } finally {
+      await typing?.stop()
     }
   }
-}
 
+  /**
+   * Applies human takeover to a message before routing.
+   * 
+   * Messages sent from the connected account (`fromMe`) are never routed
+   * when takeover is enabled: the router's own replies are ignored, and
+   * operator messages pause the chat (or resume it with the resume
+   * command). Messages in a paused chat are left to the operator.
+   * 
+   * @param message - The incoming message
+   * @returns A result for messages that must not reach an agent, or null
+   */
+  private applyTakeover(message: IncomingMessage): MessageHandlerResult | null {
+    if (!this.takeover) {
+      return null
+    }
+
+    if (message.metadata?.fromMe === true) {
+      const outcome = this.takeover.handleOwnMessage(message)
+      if (isDebugMode()) {
+        logger.debug('[MessageRouter] Message from the connected account', {
+          messageId: message.id,
+          from: message.from,
+          outcome,
+        })
+      }
+      return {
+        success: true,
+        metadata: { skipped: true, takeover: outcome },
+      }
+    }
+
+    const pause = this.takeover.getPause(message.from)
+    if (!pause) {
+      return null
+    }
+
+    logger.info('[MessageRouter] Chat taken over by an operator, message not routed', {
+      messageId: message.id,
+      channelId: message.channelId,
+      from: message.from,
+      until: pause.until?.toISOString() ?? null,
+    })
+    return {
+      success: true,
+      metadata: { skipped: true, takeover: 'paused' },
+    }
+  }
+
+  /**
+   * Waits for the rest of a burst when the route sets `config.debounceMs`.
+   * 
+   * Messages are grouped per route, chat and sender (the group participant,
+   * in groups).
+   * 
+   * @param message - The incoming message
+   * @param route - The route that handles the message
+   * @returns The burst to send (null if a newer message of the burst will
+   *   send it) and the outcome shared by the messages of the burst
+   */
+  private async collectBurst(
+    message: IncomingMessage,
+    route: Route
+  ): Promise<{ burst: IncomingMessage[] | null; outcome: BurstOutcome }> {
+    const windowMs = getDebounceMs(route)
+    // Routes with an invalid configuration fail right away when validated
+    if (windowMs <= 0 || validateRouteOptions(route) || this.agentClientFactory.validateRoute(route)) {
+      return { burst: [message], outcome: createBurstOutcome() }
+    }
+
+    const participant = message.metadata?.participant
+    const key = [
+      route.id ?? route.channelId,
+      message.from,
+      typeof participant === 'string' ? participant : '',
+    ].join('|')
+
+    let outcome = this.burstOutcomes.get(key)
+    if (!outcome) {
+      outcome = createBurstOutcome()
+      this.burstOutcomes.set(key, outcome)
+    }
+
+    const burst = await this.debouncer.collect(key, message, windowMs)
+
+    if (burst) {
+      // Released: the next message of the conversation starts a new burst
+      this.burstOutcomes.delete(key)
+    } else if (isDebugMode()) {
+      logger.debug('[MessageRouter] Message merged into a newer message of its burst', {
+        messageId: message.id,
+        routeId: route.id,
+        from: message.from,
+      })
+    }
+
+    return { burst, outcome }
+  }
+
+  /**
+   * Describes an incoming message for quoting in a reply.
+   * 
+   * @param message - The message being answered
+   * @returns The quoted message (with the group participant, if any)
+   */
+  private toQuotedMessage(message: IncomingMessage): QuotedMessage {
+    const participant = message.metadata?.participant
+    return {
+      id: message.id,
+      text: message.text,
+      ...(typeof participant === 'string' && participant ? { participant } : {}),
+    }
+  }
+
+  /**
+   * Marks an incoming message as read via the WhatsApp provider.
+   * 
+   * Skipped if the provider has no read receipts or the route sets
+   * `config.readReceipts` to false. Failures are logged and not rethrown.
+   * 
+   * @param message - The message being routed
+   * @param route - The route that handles the message
+   */
+  private async markRead(message: IncomingMessage, route: Route): Promise<void> {
+    if (!this.whatsappProvider.markRead || !isReadReceiptsEnabled(route)) {
+      return
+    }
+
+    try {
+      await this.whatsappProvider.markRead(message)
+    } catch (error) {
+      logger.warn('[MessageRouter] Failed to mark message as read', {
+        messageId: message.id,
+        channelId: message.channelId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Shows the typing indicator in the sender's chat until stopped.
+   * 
+   * The indicator is repeated every TYPING_KEEPALIVE_MS so it stays visible
+   * while the agent works. Presence updates are not awaited, so a slow
+   * provider never delays the agent call, and failures are only logged.
+   * 
+   * @param message - The message being answered
+   * @param route - The route that handles the message
+   * @returns Handle to refresh and stop the indicator (a no-op if disabled)
+   */
+  private startTyping(message: IncomingMessage, route: Route): TypingIndicator {
+    const provider = this.whatsappProvider
+    if (!provider.setTyping || !isTypingIndicatorEnabled(route)) {
+      return { refresh: () => {}, stop: async () => {} }
+    }
+
+    const send = (typing: boolean) => provider.setTyping!(message.from, typing).catch((error) => {
+      logger.warn('[MessageRouter] Failed to update typing indicator', {
+        messageId: message.id,
+        channelId: message.channelId,
+        typing,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+
+    void send(true)
+    const timer = setInterval(() => void send(true), TYPING_KEEPALIVE_MS)
+
+    return {
+      refresh: () => void send(true),
+      stop: async () => {
+        clearInterval(timer)
+        await send(false)
+      },
+    }
+  }
+
+  /**
+   * Sends an agent reply back to the user via the WhatsApp provider.
+   * 
+   * Failures are logged and not rethrown: the message was processed by the
+   * agent even if the reply could not be delivered.
+   * 
+   * @param message - The message being answered
+   * @param route - The route that handled the message
+   * @param text - Reply text
+   * @param content - Media, location or contact to send (optional)
+   * @param quoted - Message to quote (optional)
+   * @returns The reply as sent (or failed), or null if it was dropped
+   */
+  private async sendReply(
+    message: IncomingMessage,
+    route: Route,
+    text: string,
+    content?: OutgoingContent,
+    quoted?: QuotedMessage
+  ): Promise<TranscriptReply | null> {
+    // An operator may have stepped in while the agent was working
+    if (this.takeover?.isPaused(message.from)) {
+      logger.info('[MessageRouter] Reply dropped, chat taken over by an operator', {
+        messageId: message.id,
+        channelId: message.channelId,
+        from: message.from,
+      })
+      return null
+    }
+
+    const reply: TranscriptReply = {
+      text,
+      ...(content ? { contentType: content.type } : {}),
+      sentAt: new Date(),
+    }
+
+    try {
+      const sentMessageId = await this.whatsappProvider.sendMessage({
+        to: message.from,
+        channelId: message.channelId,
+        text,
+        ...(content ? { content } : {}),
+        ...(quoted ? { quoted } : {}),
+        metadata: {
+          originalMessageId: message.id,
+          agentEndpoint: route.agentEndpoint,
+        },
+      })
+      if (sentMessageId) {
+        this.takeover?.recordSentMessage(sentMessageId)
+      }
+
+      if (isDebugMode()) {
+        logger.debug('[MessageRouter] Response sent back to user via provider', {
+          messageId: message.id,
+          responseLength: text.length,
+          contentType: content?.type,
+          quoted: Boolean(quoted),
+        })
+      }
+
+      logger.info('[MessageRouter] Complete message flow successful', {
+        messageId: message.id,
+        channelId: message.channelId,
+      })
+      return { ...reply, ...(sentMessageId ? { messageId: sentMessageId } : {}) }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('[MessageRouter] Failed to send response back via provider', {
+        messageId: message.id,
+        error: errorMessage,
+      })
+      // Continue and return success even if sending response fails
+      return { ...reply, error: errorMessage }
+    }
+  }
+}
 
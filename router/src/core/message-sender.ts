@@ -0,0 +1,149 @@
+/**
+ * Sending of messages outside an agent reply.
+ *
+ * Agent replies are sent by MessageRouter while it answers a message. This
+ * module sends the other messages: those an operator writes from the
+ * dashboard and those pushed through the API. Sent messages are remembered
+ * by the takeover service, so their echo does not pause the chat, and
+ * stored in the conversation transcript.
+ *
+ * @module core/message-sender
+ */
+
+import type { OutgoingMessage } from './models.js'
+import type { WhatsAppProvider } from './whatsapp-provider.js'
+import type { TakeoverService } from './takeover.js'
+import type { TranscriptService } from './transcript.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Configuration for MessageSender.
+ */
+export interface MessageSenderConfig {
+  /** Provider the messages are sent through */
+  provider: WhatsAppProvider
+  /** Takeover service, told about sent messages so their echo is ignored (optional) */
+  takeover?: TakeoverService
+  /** Transcript service, where sent messages are stored (optional) */
+  transcript?: TranscriptService
+}
+
+/**
+ * Who a message is sent for, stored with it in the transcript.
+ */
+export interface SendOrigin {
+  /** ID of the route the message is sent for */
+  routeId?: string
+  /** Agent endpoint that wrote the message (unset for operators) */
+  agentEndpoint?: string
+}
+
+/**
+ * Delivery result of a sent message.
+ */
+export interface SendResult {
+  /** Whether the provider accepted the message */
+  delivered: boolean
+  /** Provider ID of the sent message, when the provider reports one */
+  messageId?: string
+  /** Why the message could not be sent */
+  error?: string
+  /** When the message was sent */
+  sentAt: Date
+}
+
+/**
+ * Sends messages through the WhatsApp provider and records them.
+ *
+ * @example
+ * ```typescript
+ * const sender = new MessageSender({ provider, takeover, transcript })
+ * const result = await sender.send({ to: '5491155551234@s.whatsapp.net', channelId: '5491155551234', text: 'Hi' })
+ * ```
+ */
+export class MessageSender {
+  private provider: WhatsAppProvider
+  private takeover?: TakeoverService
+  private transcript?: TranscriptService
+
+  constructor(config: MessageSenderConfig) {
+    this.provider = config.provider
+    this.takeover = config.takeover
+    this.transcript = config.transcript
+  }
+
+  /**
+   * Returns the chat ID a recipient's messages arrive with.
+   *
+   * Chats are keyed by this ID in the takeover service and the transcript.
+   *
+   * @param to - Chat JID or phone number
+   * @returns The provider's chat ID for the recipient
+   */
+  resolveChatId(to: string): string {
+    return this.provider.toChatId?.(to) ?? to
+  }
+
+  /**
+   * Sends a message.
+   *
+   * The recipient is resolved to its chat ID first (see `resolveChatId`).
+   * Delivery failures are returned, not thrown.
+   *
+   * @param message - The message to send
+   * @param origin - Who the message is sent for (default: an operator)
+   * @returns The delivery result
+   */
+  async send(outgoing: OutgoingMessage, origin: SendOrigin = {}): Promise<SendResult> {
+    const message = { ...outgoing, to: this.resolveChatId(outgoing.to) }
+    const sentAt = new Date()
+    let result: SendResult
+
+    try {
+      const messageId = await this.provider.sendMessage(message)
+      if (messageId) {
+        this.takeover?.recordSentMessage(messageId)
+      }
+      result = { delivered: true, ...(messageId ? { messageId } : {}), sentAt }
+
+      logger.info('[MessageSender] Message sent', {
+        to: message.to,
+        channelId: message.channelId,
+        messageId,
+        agentEndpoint: origin.agentEndpoint,
+      })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('[MessageSender] Failed to send message', {
+        to: message.to,
+        channelId: message.channelId,
+        error: errorMessage,
+      })
+      result = { delivered: false, error: errorMessage, sentAt }
+    }
+
+    await this.transcript?.record([{
+      channelId: message.channelId,
+      chatId: message.to,
+      direction: 'outbound',
+      ...(result.messageId ? { messageId: result.messageId } : {}),
+      text: message.text,
+      ...(message.content ? { contentType: message.content.type } : {}),
+      ...(origin.routeId ? { routeId: origin.routeId } : {}),
+      ...(origin.agentEndpoint ? { agentEndpoint: origin.agentEndpoint } : {}),
+      success: result.delivered,
+      ...(result.error ? { error: result.error } : {}),
+      timestamp: sentAt,
+    }])
+
+    if (isDebugMode()) {
+      logger.debug('[MessageSender] Send finished', {
+        to: message.to,
+        delivered: result.delivered,
+        quoted: Boolean(message.quoted),
+      })
+    }
+
+    return result
+  }
+}
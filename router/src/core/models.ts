@@ -19,10 +19,33 @@ export interface IncomingMessage {
   text: string
   /** Timestamp when the message was received */
   timestamp: Date
+  /** Media files attached to the message (optional) */
+  attachments?: MessageAttachment[]
   /** Additional metadata (optional) */
   metadata?: Record<string, unknown>
 }
 
+/**
+ * Kind of media attached to a message.
+ */
+export type AttachmentType = 'image' | 'video' | 'audio' | 'document' | 'sticker'
+
+/**
+ * A media file attached to an incoming message.
+ */
+export interface MessageAttachment {
+  /** Kind of media */
+  type: AttachmentType
+  /** MIME type (e.g. `image/jpeg`, `audio/ogg; codecs=opus`) */
+  mimeType: string
+  /** File size in bytes, when known */
+  size?: number
+  /** Original file name (documents) */
+  filename?: string
+  /** Location of the stored file (`file://` or storage URL); unset if it was not downloaded */
+  url?: string
+}
+
 /**
  * Represents an outgoing message to be sent via WhatsApp.
  */
@@ -31,24 +54,149 @@ export interface OutgoingMessage {
   to: string
   /** Channel/group identifier */
   channelId: string
-  /** Message text content */
+  /**
+   * Message text content. With `content`, this is the caption of images,
+   * videos and documents, and is not sent for audio, locations and contacts.
+   */
   text: string
+  /** Media, location or contact to send instead of a plain text message (optional) */
+  content?: OutgoingContent
+  /** Incoming message this message replies to, shown as a quote (optional) */
+  quoted?: QuotedMessage
   /** Additional metadata (optional) */
   metadata?: Record<string, unknown>
 }
 
+/**
+ * An incoming message quoted by a reply.
+ */
+export interface QuotedMessage {
+  /** Provider message ID of the quoted message */
+  id: string
+  /** Text of the quoted message */
+  text: string
+  /** Group member who sent the quoted message (group chats only) */
+  participant?: string
+}
+
+/**
+ * Kind of media file in an outgoing message.
+ */
+export type OutgoingMediaType = 'image' | 'video' | 'audio' | 'document'
+
+/**
+ * A media file to send.
+ *
+ * The file is given either as a URL the provider can download (`url`) or
+ * inline as base64 (`data`).
+ */
+export interface OutgoingMedia {
+  /** Kind of media */
+  type: OutgoingMediaType
+  /** MIME type (e.g. `image/png`, `application/pdf`) */
+  mimeType: string
+  /** Public http(s) URL of the file */
+  url?: string
+  /** Base64-encoded file contents */
+  data?: string
+  /** File name shown to the recipient (documents) */
+  filename?: string
+}
+
+/**
+ * A location pin to send.
+ */
+export interface OutgoingLocation {
+  type: 'location'
+  /** Latitude in degrees */
+  latitude: number
+  /** Longitude in degrees */
+  longitude: number
+  /** Place name (optional) */
+  name?: string
+  /** Place address (optional) */
+  address?: string
+}
+
+/**
+ * A contact card to send.
+ */
+export interface OutgoingContact {
+  type: 'contact'
+  /** Contact display name */
+  name: string
+  /** Phone number in international format (e.g. `+5491155551234`) */
+  phone: string
+}
+
+/**
+ * Rich content of an outgoing message.
+ */
+export type OutgoingContent = OutgoingMedia | OutgoingLocation | OutgoingContact
+
+/**
+ * Message fields that route match conditions can test.
+ *
+ * - `sender`: JID of the actual sender (the group participant in groups)
+ * - `isGroup`: whether the message was sent in a group
+ * - `messageType`: WhatsApp message type (e.g. `conversation`, `audioMessage`)
+ * - `fromMe`: whether the message was sent by the connected account
+ * - `pushName`: display name of the sender
+ */
+export type RouteMatchField = 'sender' | 'isGroup' | 'messageType' | 'fromMe' | 'pushName'
+
+/**
+ * Comparison applied by a route match condition.
+ *
+ * Boolean fields (`isGroup`, `fromMe`) only support `equals` and `notEquals`.
+ */
+export type RouteMatchOperator = 'equals' | 'notEquals' | 'in' | 'notIn' | 'regex'
+
+/**
+ * A single condition on a message field.
+ */
+export interface RouteMatchCondition {
+  /** Message field to test */
+  field: RouteMatchField
+  /** Comparison to apply */
+  operator: RouteMatchOperator
+  /** Expected value: boolean for boolean fields, string list for `in`/`notIn`, string otherwise */
+  value: string | boolean | string[]
+}
+
+/**
+ * Declarative match conditions of a route, combined with AND or OR.
+ */
+export interface RouteMatch {
+  /** How conditions are combined: `and` requires all, `or` requires at least one */
+  operator: 'and' | 'or'
+  /** Conditions to evaluate */
+  conditions: RouteMatchCondition[]
+}
+
 /**
  * Represents a routing rule that maps a channel to an agent endpoint.
+ *
+ * A channel may have several routes. They are evaluated in ascending
+ * `priority` order and the first one whose filters match wins.
+ * A route matches when both its `regexFilter` and its `match` conditions
+ * (if present) match the message.
  */
 export interface Route {
+  /** Unique route identifier (assigned by the repository on creation) */
+  id?: string
   /** Channel identifier that triggers this route */
   channelId: string
+  /** Evaluation order within the channel, lower values first (default: 0) */
+  priority?: number
   /** Agent endpoint URL */
   agentEndpoint: string
   /** Environment (lab or prod) */
   environment: 'lab' | 'prod'
   /** Optional regular expression to filter messages by text content */
   regexFilter?: string
+  /** Optional match conditions on message metadata */
+  match?: RouteMatch
   /** Additional route configuration */
   config?: Record<string, unknown>
 }
@@ -0,0 +1,281 @@
+/**
+ * Route match conditions - declarative filters on message metadata.
+ *
+ * This module contains pure domain logic for validating and evaluating
+ * the `match` conditions of a route against an incoming message.
+ * Conditions read the fields that providers put in `message.metadata`
+ * (sender participant, isGroup, messageType, fromMe, pushName).
+ */
+
+import type {
+  IncomingMessage,
+  RouteMatch,
+  RouteMatchCondition,
+  RouteMatchField,
+  RouteMatchOperator,
+} from './models.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Fields holding a boolean value.
+ */
+const BOOLEAN_FIELDS: ReadonlySet<RouteMatchField> = new Set(['isGroup', 'fromMe'])
+
+/**
+ * All supported match fields.
+ */
+const MATCH_FIELDS: ReadonlySet<string> = new Set(['sender', 'isGroup', 'messageType', 'fromMe', 'pushName'])
+
+/**
+ * All supported match operators.
+ */
+const MATCH_OPERATORS: ReadonlySet<string> = new Set(['equals', 'notEquals', 'in', 'notIn', 'regex'])
+
+/**
+ * Describes why a route's match conditions are invalid.
+ */
+export interface RouteMatchValidationError {
+  /** Path of the offending value within the route (e.g. `match.conditions[0].value`) */
+  field: string
+  /** Offending value */
+  value: unknown
+  /** Human-readable reason */
+  message: string
+}
+
+/**
+ * Validates the structure of route match conditions.
+ *
+ * @param match - Match conditions from a route body (untrusted input)
+ * @returns A validation error, or null if the conditions are valid
+ */
+export function validateRouteMatch(match: unknown): RouteMatchValidationError | null {
+  if (typeof match !== 'object' || match === null || Array.isArray(match)) {
+    return { field: 'match', value: match, message: 'Match must be an object' }
+  }
+
+  const { operator, conditions } = match as Partial<RouteMatch>
+
+  if (operator !== 'and' && operator !== 'or') {
+    return { field: 'match.operator', value: operator, message: 'Match operator must be "and" or "or"' }
+  }
+
+  if (!Array.isArray(conditions)) {
+    return { field: 'match.conditions', value: conditions, message: 'Match conditions must be an array' }
+  }
+
+  for (let index = 0; index < conditions.length; index++) {
+    const error = validateCondition(conditions[index], `match.conditions[${index}]`)
+    if (error) {
+      return error
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validates a single match condition.
+ *
+ * @param condition - Condition to validate (untrusted input)
+ * @param path - Path of the condition within the route
+ * @returns A validation error, or null if the condition is valid
+ */
+function validateCondition(condition: unknown, path: string): RouteMatchValidationError | null {
+  if (typeof condition !== 'object' || condition === null) {
+    return { field: path, value: condition, message: 'Condition must be an object' }
+  }
+
+  const { field, operator, value } = condition as Partial<RouteMatchCondition>
+
+  if (typeof field !== 'string' || !MATCH_FIELDS.has(field)) {
+    return {
+      field: `${path}.field`,
+      value: field,
+      message: `Field must be one of: ${[...MATCH_FIELDS].join(', ')}`,
+    }
+  }
+
+  if (typeof operator !== 'string' || !MATCH_OPERATORS.has(operator)) {
+    return {
+      field: `${path}.operator`,
+      value: operator,
+      message: `Operator must be one of: ${[...MATCH_OPERATORS].join(', ')}`,
+    }
+  }
+
+  if (BOOLEAN_FIELDS.has(field)) {
+    if (operator !== 'equals' && operator !== 'notEquals') {
+      return {
+        field: `${path}.operator`,
+        value: operator,
+        message: `Field "${field}" only supports the equals and notEquals operators`,
+      }
+    }
+    if (typeof value !== 'boolean') {
+      return { field: `${path}.value`, value, message: `Field "${field}" requires a boolean value` }
+    }
+    return null
+  }
+
+  if (operator === 'in' || operator === 'notIn') {
+    if (!Array.isArray(value) || value.length === 0 || !value.every((item) => typeof item === 'string')) {
+      return {
+        field: `${path}.value`,
+        value,
+        message: `Operator "${operator}" requires a non-empty array of strings`,
+      }
+    }
+    return null
+  }
+
+  if (typeof value !== 'string') {
+    return { field: `${path}.value`, value, message: `Operator "${operator}" requires a string value` }
+  }
+
+  if (operator === 'regex') {
+    try {
+      new RegExp(value)
+    } catch (error) {
+      return {
+        field: `${path}.value`,
+        value,
+        message: `Invalid regex pattern: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Reads the value of a match field from a message.
+ *
+ * @param message - The incoming message
+ * @param field - Field to read
+ * @returns The field value, or undefined if the provider did not supply it
+ */
+function getFieldValue(message: IncomingMessage, field: RouteMatchField): string | boolean | undefined {
+  const metadata = message.metadata ?? {}
+
+  switch (field) {
+    case 'sender':
+      return typeof metadata.participant === 'string' && metadata.participant
+        ? metadata.participant
+        : message.from
+    case 'isGroup':
+      return typeof metadata.isGroup === 'boolean' ? metadata.isGroup : message.from.endsWith('@g.us')
+    case 'fromMe':
+      return metadata.fromMe === true
+    case 'messageType':
+      return typeof metadata.messageType === 'string' ? metadata.messageType : undefined
+    case 'pushName':
+      return typeof metadata.pushName === 'string' ? metadata.pushName : undefined
+  }
+}
+
+/**
+ * Returns the representations a field value can be compared by.
+ *
+ * A sender JID (e.g. `5491155551234@s.whatsapp.net`) also compares equal
+ * to its bare number (`5491155551234`).
+ *
+ * @param field - Field the value was read from
+ * @param actual - Field value
+ * @returns Comparable string forms of the value
+ */
+function getComparableValues(field: RouteMatchField, actual: string): string[] {
+  if (field === 'sender' && actual.includes('@')) {
+    return [actual, actual.split('@')[0]]
+  }
+  return [actual]
+}
+
+/**
+ * Applies an operator to a field value.
+ *
+ * @param field - Field the value was read from
+ * @param operator - Comparison to apply
+ * @param actual - Field value read from the message
+ * @param expected - Value from the condition
+ * @returns True if the comparison holds
+ */
+function compare(
+  field: RouteMatchField,
+  operator: RouteMatchOperator,
+  actual: string | boolean | undefined,
+  expected: string | boolean | string[]
+): boolean {
+  if (typeof actual === 'boolean') {
+    return operator === 'equals' ? actual === expected : actual !== expected
+  }
+
+  const candidates = actual === undefined ? [] : getComparableValues(field, actual)
+  const expectedValues = Array.isArray(expected) ? expected : [String(expected)]
+  const found = candidates.some((candidate) => expectedValues.includes(candidate))
+
+  switch (operator) {
+    case 'equals':
+    case 'in':
+      return found
+    case 'notEquals':
+    case 'notIn':
+      return !found
+    case 'regex':
+      return actual !== undefined && new RegExp(String(expected)).test(actual)
+  }
+}
+
+/**
+ * Evaluates a single condition against a message.
+ *
+ * @param condition - The condition to evaluate
+ * @param message - The message to test
+ * @returns True if the condition holds; invalid regex patterns never match
+ */
+function evaluateCondition(condition: RouteMatchCondition, message: IncomingMessage): boolean {
+  const actual = getFieldValue(message, condition.field)
+
+  try {
+    return compare(condition.field, condition.operator, actual, condition.value)
+  } catch (error) {
+    logger.error('[RouteMatch] Invalid match condition', {
+      field: condition.field,
+      operator: condition.operator,
+      value: condition.value,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return false
+  }
+}
+
+/**
+ * Evaluates route match conditions against a message.
+ *
+ * With `and` every condition must hold; with `or` at least one must.
+ * An empty condition list always matches.
+ *
+ * @param match - The route's match conditions
+ * @param message - The message to test
+ * @returns True if the message satisfies the conditions
+ */
+export function evaluateRouteMatch(match: RouteMatch, message: IncomingMessage): boolean {
+  if (match.conditions.length === 0) {
+    return true
+  }
+
+  const matches = match.operator === 'or'
+    ? match.conditions.some((condition) => evaluateCondition(condition, message))
+    : match.conditions.every((condition) => evaluateCondition(condition, message))
+
+  if (isDebugMode()) {
+    logger.debug('[RouteMatch] Match conditions evaluated', {
+      messageId: message.id,
+      operator: match.operator,
+      conditions: match.conditions.length,
+      matches,
+    })
+  }
+
+  return matches
+}
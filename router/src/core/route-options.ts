@@ -0,0 +1,219 @@
+/**
+ * Route options - settings of a route that apply to every agent type.
+ *
+ * Besides the agent protocol settings, `route.config` holds options that
+ * shape how the router delivers messages and replies: reply pacing,
+ * debouncing, read receipts, typing indicator, quoting and group mode.
+ * This module contains pure domain logic for validating and reading them.
+ *
+ * @module core/route-options
+ */
+
+import type { IncomingMessage, Route } from './models.js'
+
+/**
+ * Maximum `config.replyDelayMs`, in milliseconds.
+ */
+export const MAX_REPLY_DELAY_MS = 60000
+
+/**
+ * Maximum `config.debounceMs`, in milliseconds.
+ */
+export const MAX_DEBOUNCE_MS = 30000
+
+/**
+ * Which group messages a route forwards to its agent (`config.groupMode`).
+ *
+ * - `all`: every message (default)
+ * - `mention-only`: messages that @mention the bot
+ * - `mention-or-reply`: messages that @mention the bot or reply to one of its messages
+ */
+export type GroupMode = 'all' | 'mention-only' | 'mention-or-reply'
+
+/**
+ * Supported values of `config.groupMode`.
+ */
+export const GROUP_MODES: readonly GroupMode[] = ['all', 'mention-only', 'mention-or-reply']
+
+/**
+ * Boolean options, all enabled or defaulted when unset.
+ */
+const BOOLEAN_OPTIONS = ['readReceipts', 'typingIndicator', 'quoteReplies'] as const
+
+/**
+ * Describes why a route's options are invalid.
+ */
+export interface RouteOptionsValidationError {
+  /** Path of the offending value within the route (e.g. `config.replyDelayMs`) */
+  field: string
+  /** Offending value */
+  value: unknown
+  /** Human-readable reason */
+  message: string
+}
+
+/**
+ * Validates the options of a route.
+ *
+ * Agent protocol settings are validated by the agent protocol registry.
+ *
+ * @param route - Route to validate (untrusted input)
+ * @returns A validation error, or null if the options are valid
+ */
+export function validateRouteOptions(route: Route): RouteOptionsValidationError | null {
+  const config = route.config
+
+  const replyDelayMs = config?.replyDelayMs
+  if (replyDelayMs !== undefined && !isIntegerInRange(replyDelayMs, MAX_REPLY_DELAY_MS)) {
+    return {
+      field: 'config.replyDelayMs',
+      value: replyDelayMs,
+      message: `config.replyDelayMs must be an integer between 0 and ${MAX_REPLY_DELAY_MS}`,
+    }
+  }
+
+  const debounceMs = config?.debounceMs
+  if (debounceMs !== undefined && !isIntegerInRange(debounceMs, MAX_DEBOUNCE_MS)) {
+    return {
+      field: 'config.debounceMs',
+      value: debounceMs,
+      message: `config.debounceMs must be an integer between 0 and ${MAX_DEBOUNCE_MS}`,
+    }
+  }
+
+  for (const option of BOOLEAN_OPTIONS) {
+    const value = config?.[option]
+    if (value !== undefined && typeof value !== 'boolean') {
+      return { field: `config.${option}`, value, message: `config.${option} must be a boolean` }
+    }
+  }
+
+  const groupMode = config?.groupMode
+  if (groupMode !== undefined && !GROUP_MODES.includes(groupMode as GroupMode)) {
+    return {
+      field: 'config.groupMode',
+      value: groupMode,
+      message: `config.groupMode must be one of: ${GROUP_MODES.join(', ')}`,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Checks if a value is an integer between 0 and a maximum.
+ *
+ * @param value - Value to check (untrusted input)
+ * @param max - Maximum allowed value
+ * @returns true if the value is an integer in [0, max]
+ */
+function isIntegerInRange(value: unknown, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max
+}
+
+/**
+ * Returns the delay between consecutive replies of a route.
+ *
+ * @param route - The route being served
+ * @returns Delay in milliseconds (0 if unset)
+ */
+export function getReplyDelayMs(route: Route): number {
+  const delay = route.config?.replyDelayMs
+  return typeof delay === 'number' ? delay : 0
+}
+
+/**
+ * Returns how long a route waits for more messages before calling its agent.
+ *
+ * Messages from the same sender within this window are merged into one.
+ *
+ * @param route - The route being served
+ * @returns Window in milliseconds (0 if unset: every message is sent on its own)
+ */
+export function getDebounceMs(route: Route): number {
+  const debounce = route.config?.debounceMs
+  return typeof debounce === 'number' ? debounce : 0
+}
+
+/**
+ * Returns whether incoming messages of a route are marked as read.
+ *
+ * @param route - The route being served
+ * @returns false only if `config.readReceipts` is false
+ */
+export function isReadReceiptsEnabled(route: Route): boolean {
+  return route.config?.readReceipts !== false
+}
+
+/**
+ * Returns whether the typing indicator is shown while the agent of a route works.
+ *
+ * @param route - The route being served
+ * @returns false only if `config.typingIndicator` is false
+ */
+export function isTypingIndicatorEnabled(route: Route): boolean {
+  return route.config?.typingIndicator !== false
+}
+
+/**
+ * Returns whether replies of a route quote the message they answer.
+ *
+ * `config.quoteReplies` turns quoting on or off for every chat; when unset,
+ * only replies in groups are quoted, where it is otherwise unclear which
+ * question the agent is answering.
+ *
+ * @param route - The route being served
+ * @param message - The message being answered
+ * @returns true if the reply should be sent as a quoted reply
+ */
+export function shouldQuoteReplies(route: Route, message: IncomingMessage): boolean {
+  const quoteReplies = route.config?.quoteReplies
+  if (typeof quoteReplies === 'boolean') {
+    return quoteReplies
+  }
+  return isGroupMessage(message)
+}
+
+/**
+ * Checks if a message was sent in a group chat.
+ *
+ * @param message - The incoming message
+ * @returns `metadata.isGroup` when set by the provider, otherwise whether the sender is a group JID
+ */
+function isGroupMessage(message: IncomingMessage): boolean {
+  const isGroup = message.metadata?.isGroup
+  return typeof isGroup === 'boolean' ? isGroup : message.from.endsWith('@g.us')
+}
+
+/**
+ * Returns the group mode of a route.
+ *
+ * @param route - The route being served
+ * @returns `config.groupMode`, or `all` if unset
+ */
+export function getGroupMode(route: Route): GroupMode {
+  const mode = route.config?.groupMode
+  return GROUP_MODES.includes(mode as GroupMode) ? mode as GroupMode : 'all'
+}
+
+/**
+ * Checks if a route forwards a message to its agent, given its group mode.
+ *
+ * Direct messages are always forwarded. In groups, `mention-only` needs
+ * `metadata.mentionsBot` and `mention-or-reply` also accepts
+ * `metadata.repliesToBot`; providers that do not detect mentions set neither.
+ *
+ * @param route - The route being served
+ * @param message - The incoming message
+ * @returns true if the message should reach the agent
+ */
+export function isAddressedToAgent(route: Route, message: IncomingMessage): boolean {
+  const mode = getGroupMode(route)
+  if (mode === 'all' || !isGroupMessage(message)) {
+    return true
+  }
+  if (message.metadata?.mentionsBot === true) {
+    return true
+  }
+  return mode === 'mention-or-reply' && message.metadata?.repliesToBot === true
+}
@@ -7,6 +7,7 @@
 
 import type { IncomingMessage, Route } from './models.js'
 import { logger, isDebugMode } from './logger.js'
+import { evaluateRouteMatch } from './route-match.js'
 
 /**
  * Repository interface for route storage.
@@ -14,12 +15,22 @@ import { logger, isDebugMode } from './logger.js'
  */
 export interface RoutesRepository {
   /**
-   * Finds a route by channel ID.
+   * Finds a route by its ID.
    * 
-   * @param channelId - The channel identifier
+   * @param id - The route identifier
    * @returns The route if found, null otherwise
    */
-  findByChannelId(channelId: string): Promise<Route | null>
+  findById(id: string): Promise<Route | null>
+
+  /**
+   * Finds all routes for a channel ID, in evaluation order.
+   * 
+   * Routes are sorted by ascending priority, then by creation order.
+   * 
+   * @param channelId - The channel identifier
+   * @returns Array of routes for the channel (empty if none)
+   */
+  findByChannelId(channelId: string): Promise<Route[]>
 
   /**
    * Lists all available routes.
@@ -32,25 +43,36 @@ export interface RoutesRepository {
 /**
  * Extended repository interface for mutable route storage.
  * 
- * This interface adds methods for modifying routes (add, remove).
+ * This interface adds methods for modifying routes (add, update, remove).
  * Not all repository implementations may support mutations (e.g., read-only repositories).
  */
 export interface MutableRoutesRepository extends RoutesRepository {
   /**
    * Adds a route to the repository.
    * 
+   * A new route ID is always assigned; any `id` on the input is ignored.
+   * 
    * @param route - The route to add
-   * @returns Promise that resolves when the route is added
+   * @returns Promise resolving to the stored route, including its ID
    */
-  addRoute(route: Route): Promise<void>
+  addRoute(route: Route): Promise<Route>
+
+  /**
+   * Updates an existing route.
+   * 
+   * @param id - The ID of the route to update
+   * @param route - The new route data
+   * @returns Promise resolving to the updated route, or null if not found
+   */
+  updateRoute(id: string, route: Route): Promise<Route | null>
 
   /**
    * Removes a route from the repository.
    * 
-   * @param channelId - The channel ID of the route to remove
+   * @param id - The ID of the route to remove
    * @returns Promise that resolves to true if route was removed, false otherwise
    */
-  removeRoute(channelId: string): Promise<boolean>
+  removeRoute(id: string): Promise<boolean>
 }
 
 /**
@@ -62,39 +84,101 @@ export class RouterService {
   /**
    * Processes an incoming message and determines the target agent.
    * 
-   * If no specific route is found for the channelId, looks for a wildcard route ("*")
-   * that accepts messages from any origin.
+   * Routes for the message's channelId are evaluated in priority order and the
+   * first one that matches wins. If none matches, the wildcard routes ("*")
+   * that accept messages from any origin are evaluated the same way.
    * 
    * If a route has a regexFilter, the message text must match the regular expression
-   * for the route to be selected.
+   * for the route to be selected. If it has match conditions, the message metadata
+   * must satisfy them as well.
    * 
    * @param message - The incoming message to route
-   * @returns The route if found and passes regex filter (if any), null otherwise
+   * @returns The first matching route, or null if no route matches
    */
   async routeMessage(message: IncomingMessage): Promise<Route | null> {
-    // First, try to find a specific route for this channelId
-    const specificRoute = await this.routesRepository.findByChannelId(message.channelId)
-    if (specificRoute) {
-      // Apply regex filter if present
-      if (this.matchesRegexFilter(specificRoute, message)) {
-        return specificRoute
-      }
-      // Route found but doesn't match regex filter, continue to wildcard
+    // First, evaluate the routes specific to this channelId
+    const specificRoutes = await this.routesRepository.findByChannelId(message.channelId)
+    const specificMatch = this.findFirstMatch(specificRoutes, message)
+    if (specificMatch) {
+      return specificMatch
     }
 
-    // If no specific route found or it didn't match regex, look for a wildcard route ("*")
-    const wildcardRoute = await this.routesRepository.findByChannelId('*')
-    if (wildcardRoute) {
-      // Apply regex filter if present
-      if (this.matchesRegexFilter(wildcardRoute, message)) {
-        return wildcardRoute
+    // No specific route matched, evaluate wildcard routes ("*")
+    const wildcardRoutes = await this.routesRepository.findByChannelId('*')
+    return this.findFirstMatch(wildcardRoutes, message)
+  }
+
+  /**
+   * Returns the routes that may answer messages of a channel.
+   * 
+   * These are the channel's own routes and, as in `routeMessage`, the
+   * wildcard routes ("*") whenever a message can match none of them. Only a
+   * route without regex filter and match conditions matches every message,
+   * so a channel with such a route is never served by wildcard routes.
+   * 
+   * @param channelId - Channel/group identifier
+   * @returns The channel's routes, followed by the wildcard routes that may serve it
+   */
+  async findServingRoutes(channelId: string): Promise<Route[]> {
+    const specificRoutes = await this.routesRepository.findByChannelId(channelId)
+    if (specificRoutes.some((route) => !route.regexFilter && !route.match)) {
+      return specificRoutes
+    }
+    return [...specificRoutes, ...await this.routesRepository.findByChannelId('*')]
+  }
+
+  /**
+   * Returns the first route (in the given order) that matches the message.
+   * 
+   * @param routes - Routes sorted in evaluation order
+   * @param message - The message to test
+   * @returns The first matching route, or null if none matches
+   */
+  private findFirstMatch(routes: Route[], message: IncomingMessage): Route | null {
+    for (const route of routes) {
+      if (this.matchesRegexFilter(route, message) && this.matchesConditions(route, message)) {
+        if (isDebugMode()) {
+          logger.debug('[RouterService] Route matched', {
+            routeId: route.id,
+            channelId: route.channelId,
+            priority: route.priority,
+            candidates: routes.length,
+          })
+        }
+        return route
       }
-      // Wildcard route found but doesn't match regex filter
     }
 
     return null
   }
 
+  /**
+   * Checks if a message satisfies the match conditions of a route.
+   * 
+   * @param route - The route to check
+   * @param message - The message to test
+   * @returns True if route has no match conditions or if the message satisfies them
+   */
+  private matchesConditions(route: Route, message: IncomingMessage): boolean {
+    if (!route.match) {
+      return true
+    }
+
+    const matches = evaluateRouteMatch(route.match, message)
+
+    if (isDebugMode()) {
+      logger.debug('[RouterService] Match conditions applied', {
+        routeId: route.id,
+        channelId: route.channelId,
+        operator: route.match.operator,
+        conditions: route.match.conditions.length,
+        matches,
+      })
+    }
+
+    return matches
+  }
+
   /**
    * Checks if a message matches the regex filter of a route.
    * 
@@ -114,6 +198,7 @@ export class RouterService {
 
       if (isDebugMode()) {
         logger.debug('[RouterService] Regex filter applied', {
+          routeId: route.id,
           channelId: route.channelId,
           regexFilter: route.regexFilter,
           messageText: message.text,
@@ -125,6 +210,7 @@ export class RouterService {
     } catch (error) {
       // Invalid regex pattern - log error but don't throw
       logger.error('[RouterService] Invalid regex pattern in route', {
+        routeId: route.id,
         channelId: route.channelId,
         regexFilter: route.regexFilter,
         error: error instanceof Error ? error.message : String(error),
@@ -12,6 +12,7 @@
  * @module core/routes-repository
  */
 
+import { randomUUID } from 'crypto'
 import type { Route } from './models.js'
 import type { MutableRoutesRepository } from './router-service.js'
 import { logger, isDebugMode } from './logger.js'
@@ -25,38 +26,56 @@ import { logger, isDebugMode } from './logger.js'
  * @example
  * ```typescript
  * const repository = new InMemoryRoutesRepository()
- * await repository.addRoute({
+ * const route = await repository.addRoute({
  *   channelId: '5491155551234',
  *   agentEndpoint: 'http://localhost:8000/agent',
  *   environment: 'lab'
  * })
- * const route = await repository.findByChannelId('5491155551234')
+ * const routes = await repository.findByChannelId('5491155551234')
  * ```
  */
 export class InMemoryRoutesRepository implements MutableRoutesRepository {
+  /** Routes keyed by route ID (Map keeps insertion order) */
   private routes: Map<string, Route> = new Map()
 
   /**
-   * Finds a route by channel ID.
+   * Finds a route by its ID.
    * 
-   * @param channelId - The channel identifier
+   * @param id - The route identifier
    * @returns Promise resolving to the route if found, null otherwise
    */
-  async findByChannelId(channelId: string): Promise<Route | null> {
+  async findById(id: string): Promise<Route | null> {
+    if (isDebugMode()) {
+      logger.debug('[InMemoryRoutesRepository] Finding route by id', { id })
+    }
+
+    return this.routes.get(id) || null
+  }
+
+  /**
+   * Finds all routes for a channel ID, sorted by priority.
+   * 
+   * Routes with the same priority keep their insertion order.
+   * 
+   * @param channelId - The channel identifier
+   * @returns Promise resolving to the channel's routes (empty if none)
+   */
+  async findByChannelId(channelId: string): Promise<Route[]> {
     if (isDebugMode()) {
-      logger.debug('[InMemoryRoutesRepository] Finding route', {
+      logger.debug('[InMemoryRoutesRepository] Finding routes', {
         channelId,
         totalRoutes: this.routes.size,
       })
     }
 
-    const route = this.routes.get(channelId) || null
+    const routes = sortByPriority(
+      Array.from(this.routes.values()).filter((route) => route.channelId === channelId)
+    )
 
-    if (route) {
-      logger.info('[InMemoryRoutesRepository] Route found', {
+    if (routes.length > 0) {
+      logger.info('[InMemoryRoutesRepository] Routes found', {
         channelId,
-        agentEndpoint: route.agentEndpoint,
-        environment: route.environment,
+        count: routes.length,
       })
     } else {
       if (isDebugMode()) {
@@ -64,11 +83,11 @@ export class InMemoryRoutesRepository implements MutableRoutesRepository {
       }
     }
 
-    return route
+    return routes
   }
 
   /**
-   * Lists all available routes.
+   * Lists all available routes, sorted by priority.
    * 
    * @returns Promise resolving to array of all routes
    */
@@ -79,53 +98,91 @@ export class InMemoryRoutesRepository implements MutableRoutesRepository {
       })
     }
 
-    return Array.from(this.routes.values())
+    return sortByPriority(Array.from(this.routes.values()))
   }
 
   /**
    * Adds a route to the repository.
    * 
    * This is a convenience method for populating the repository.
+   * A new ID is generated for every added route.
    * 
    * @param route - The route to add
-   * @returns Promise that resolves when the route is added
+   * @returns Promise resolving to the stored route, including its ID
    */
-  async addRoute(route: Route): Promise<void> {
+  async addRoute(route: Route): Promise<Route> {
     if (isDebugMode()) {
       logger.debug('[InMemoryRoutesRepository] Adding route', {
         channelId: route.channelId,
         agentEndpoint: route.agentEndpoint,
+        priority: route.priority,
       })
     }
 
-    this.routes.set(route.channelId, route)
+    const stored: Route = { ...route, id: randomUUID(), priority: route.priority ?? 0 }
+    this.routes.set(stored.id as string, stored)
 
     logger.info('[InMemoryRoutesRepository] Route added', {
-      channelId: route.channelId,
-      agentEndpoint: route.agentEndpoint,
-      environment: route.environment,
+      id: stored.id,
+      channelId: stored.channelId,
+      agentEndpoint: stored.agentEndpoint,
+      environment: stored.environment,
+      priority: stored.priority,
+    })
+
+    return stored
+  }
+
+  /**
+   * Updates an existing route.
+   * 
+   * @param id - The ID of the route to update
+   * @param route - The new route data
+   * @returns Promise resolving to the updated route, or null if not found
+   */
+  async updateRoute(id: string, route: Route): Promise<Route | null> {
+    if (isDebugMode()) {
+      logger.debug('[InMemoryRoutesRepository] Updating route', { id })
+    }
+
+    if (!this.routes.has(id)) {
+      if (isDebugMode()) {
+        logger.debug('[InMemoryRoutesRepository] Route not found for update', { id })
+      }
+      return null
+    }
+
+    const updated: Route = { ...route, id, priority: route.priority ?? 0 }
+    this.routes.set(id, updated)
+
+    logger.info('[InMemoryRoutesRepository] Route updated', {
+      id,
+      channelId: updated.channelId,
+      agentEndpoint: updated.agentEndpoint,
+      priority: updated.priority,
     })
+
+    return updated
   }
 
   /**
    * Removes a route from the repository.
    * 
-   * @param channelId - The channel ID of the route to remove
+   * @param id - The ID of the route to remove
    * @returns Promise that resolves to true if route was removed, false otherwise
    */
-  async removeRoute(channelId: string): Promise<boolean> {
+  async removeRoute(id: string): Promise<boolean> {
     if (isDebugMode()) {
-      logger.debug('[InMemoryRoutesRepository] Removing route', { channelId })
+      logger.debug('[InMemoryRoutesRepository] Removing route', { id })
     }
 
-    const existed = this.routes.has(channelId)
-    this.routes.delete(channelId)
+    const existed = this.routes.delete(id)
 
     if (existed) {
-      logger.info('[InMemoryRoutesRepository] Route removed', { channelId })
+      logger.info('[InMemoryRoutesRepository] Route removed', { id })
     } else {
       if (isDebugMode()) {
-        logger.debug('[InMemoryRoutesRepository] Route not found for removal', { channelId })
+        logger.debug('[InMemoryRoutesRepository] Route not found for removal', { id })
       }
     }
 
@@ -154,3 +211,12 @@ export class InMemoryRoutesRepository implements MutableRoutesRepository {
   }
 }
 
+/**
+ * Sorts routes by ascending priority (stable, so ties keep their order).
+ * 
+ * @param routes - Routes to sort
+ * @returns A new sorted array
+ */
+function sortByPriority(routes: Route[]): Route[] {
+  return [...routes].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+}
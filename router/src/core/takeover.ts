@@ -0,0 +1,268 @@
+/**
+ * Human takeover of conversations.
+ *
+ * When a human operator writes in a chat from the linked phone, the agent
+ * should step back instead of answering over them. This module tells the
+ * router's own replies apart from operator messages (both arrive with
+ * `fromMe`), and keeps the chats paused for the agent until a cooldown
+ * ends or the operator sends the resume command.
+ *
+ * State is kept in memory: pauses end when the router restarts.
+ *
+ * @module core/takeover
+ */
+
+import type { IncomingMessage } from './models.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Configuration for TakeoverService.
+ */
+export interface TakeoverConfig {
+  /** How long an operator message pauses the chat, in milliseconds (0: until resumed) */
+  cooldownMs?: number
+  /** Operator message that hands the chat back to the agent (default: '/bot') */
+  resumeCommand?: string
+  /** Clock, in milliseconds (for testing) */
+  now?: () => number
+}
+
+/**
+ * A chat paused for the agent.
+ */
+export interface ChatPause {
+  /** Chat JID (`message.from`) */
+  chatId: string
+  /** When the chat was paused */
+  pausedAt: Date
+  /** When the agent takes over again (null: until resumed) */
+  until: Date | null
+  /** `operator` when paused by a message from the phone, `api` when paused through the API */
+  reason: 'operator' | 'api'
+}
+
+/**
+ * What an outgoing (`fromMe`) message meant for its chat.
+ *
+ * - `echo`: a message the router sent itself
+ * - `paused`: an operator message; the chat is paused
+ * - `resumed`: the operator's resume command; the chat is back with the agent
+ */
+export type OwnMessageOutcome = 'echo' | 'paused' | 'resumed'
+
+/**
+ * Default cooldown: 30 minutes.
+ */
+export const DEFAULT_TAKEOVER_COOLDOWN_MS = 30 * 60 * 1000
+
+/**
+ * Default resume command.
+ */
+export const DEFAULT_RESUME_COMMAND = '/bot'
+
+/**
+ * How long the IDs of sent messages are remembered, in milliseconds.
+ * Their echoes arrive within seconds.
+ */
+const SENT_MESSAGE_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Maximum number of sent message IDs remembered.
+ */
+const MAX_SENT_MESSAGES = 5000
+
+/**
+ * Tracks the router's own messages and the chats taken over by operators.
+ *
+ * @example
+ * ```typescript
+ * const takeover = new TakeoverService({ cooldownMs: 15 * 60 * 1000 })
+ * takeover.recordSentMessage('3EB0C767D71D')
+ * takeover.handleOwnMessage(message) // 'echo', 'paused' or 'resumed'
+ * takeover.isPaused('5491155551234@s.whatsapp.net')
+ * ```
+ */
+export class TakeoverService {
+  readonly cooldownMs: number
+  readonly resumeCommand: string
+  private now: () => number
+  /** Sent message IDs and when they were sent (Map keeps insertion order) */
+  private sentMessages: Map<string, number> = new Map()
+  private pauses: Map<string, ChatPause> = new Map()
+
+  constructor(config: TakeoverConfig = {}) {
+    this.cooldownMs = config.cooldownMs ?? DEFAULT_TAKEOVER_COOLDOWN_MS
+    this.resumeCommand = (config.resumeCommand ?? DEFAULT_RESUME_COMMAND).trim()
+    this.now = config.now ?? Date.now
+
+    if (isDebugMode()) {
+      logger.debug('[TakeoverService] Initialized', {
+        cooldownMs: this.cooldownMs,
+        resumeCommand: this.resumeCommand,
+      })
+    }
+  }
+
+  /**
+   * Remembers a message sent by the router, so its echo is not taken for
+   * an operator message.
+   *
+   * @param messageId - Provider ID of the sent message
+   */
+  recordSentMessage(messageId: string): void {
+    const now = this.now()
+    this.sentMessages.delete(messageId)
+    this.sentMessages.set(messageId, now)
+
+    // Entries are in send order, so expired ones are at the front
+    for (const [id, sentAt] of this.sentMessages) {
+      if (this.sentMessages.size <= MAX_SENT_MESSAGES && now - sentAt <= SENT_MESSAGE_TTL_MS) {
+        break
+      }
+      this.sentMessages.delete(id)
+    }
+  }
+
+  /**
+   * Checks if a message was sent by the router.
+   *
+   * @param messageId - Provider ID of the message
+   * @returns true if the router sent it recently
+   */
+  isSentByRouter(messageId: string): boolean {
+    const sentAt = this.sentMessages.get(messageId)
+    return sentAt !== undefined && this.now() - sentAt <= SENT_MESSAGE_TTL_MS
+  }
+
+  /**
+   * Handles a message sent from the connected account (`fromMe`).
+   *
+   * @param message - The outgoing message as received from the provider
+   * @returns What the message meant for its chat
+   */
+  handleOwnMessage(message: IncomingMessage): OwnMessageOutcome {
+    if (this.isSentByRouter(message.id)) {
+      return 'echo'
+    }
+
+    if (this.resumeCommand && message.text.trim().toLowerCase() === this.resumeCommand.toLowerCase()) {
+      this.resume(message.from)
+      return 'resumed'
+    }
+
+    this.pause(message.from, 'operator')
+    return 'paused'
+  }
+
+  /**
+   * Pauses a chat for the agent.
+   *
+   * Pausing an already paused chat restarts its cooldown.
+   *
+   * @param chatId - Chat JID
+   * @param reason - Who paused the chat
+   * @param durationMs - How long to pause (default: the cooldown; 0: until resumed)
+   * @returns The pause
+   */
+  pause(chatId: string, reason: ChatPause['reason'], durationMs: number = this.cooldownMs): ChatPause {
+    const now = this.now()
+    const pause: ChatPause = {
+      chatId,
+      pausedAt: new Date(now),
+      until: durationMs > 0 ? new Date(now + durationMs) : null,
+      reason,
+    }
+    this.pauses.set(chatId, pause)
+
+    logger.info('[TakeoverService] Chat paused for the agent', {
+      chatId,
+      reason,
+      until: pause.until?.toISOString() ?? null,
+    })
+
+    return pause
+  }
+
+  /**
+   * Hands a chat back to the agent.
+   *
+   * @param chatId - Chat JID
+   * @returns true if the chat was paused
+   */
+  resume(chatId: string): boolean {
+    const wasPaused = this.getPause(chatId) !== null
+    this.pauses.delete(chatId)
+
+    if (wasPaused) {
+      logger.info('[TakeoverService] Chat resumed for the agent', { chatId })
+    }
+
+    return wasPaused
+  }
+
+  /**
+   * Puts back an earlier pause of a chat, e.g. when the action that replaced it failed.
+   *
+   * @param pause - Pause returned by `pause` or `getPause`
+   */
+  restore(pause: ChatPause): void {
+    this.pauses.set(pause.chatId, pause)
+
+    if (isDebugMode()) {
+      logger.debug('[TakeoverService] Chat pause restored', {
+        chatId: pause.chatId,
+        reason: pause.reason,
+        until: pause.until?.toISOString() ?? null,
+      })
+    }
+  }
+
+  /**
+   * Returns the pause of a chat.
+   *
+   * @param chatId - Chat JID
+   * @returns The pause, or null if the agent is active in the chat
+   */
+  getPause(chatId: string): ChatPause | null {
+    const pause = this.pauses.get(chatId)
+    if (!pause) {
+      return null
+    }
+    if (this.isExpired(pause)) {
+      this.pauses.delete(chatId)
+      return null
+    }
+    return pause
+  }
+
+  /**
+   * Checks if a chat is paused for the agent.
+   *
+   * @param chatId - Chat JID
+   * @returns true if an operator has taken over the chat
+   */
+  isPaused(chatId: string): boolean {
+    return this.getPause(chatId) !== null
+  }
+
+  /**
+   * Lists the paused chats.
+   *
+   * @returns Active pauses, most recent first
+   */
+  listPauses(): ChatPause[] {
+    for (const [chatId, pause] of this.pauses) {
+      if (this.isExpired(pause)) {
+        this.pauses.delete(chatId)
+      }
+    }
+    return [...this.pauses.values()].sort((a, b) => b.pausedAt.getTime() - a.pausedAt.getTime())
+  }
+
+  /**
+   * Checks if the cooldown of a pause is over.
+   */
+  private isExpired(pause: ChatPause): boolean {
+    return pause.until !== null && pause.until.getTime() <= this.now()
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Conversation transcripts.
+ *
+ * Keeps a record of what users asked and what agents answered: each routed
+ * message and the replies sent for it, with the route and agent endpoint
+ * used, the agent latency, the outcome and the agent session. Following
+ * Clean Architecture, storage is a port (TranscriptRepository) implemented
+ * by infrastructure (e.g. PostgreSQL).
+ *
+ * Recording never fails routing: storage errors are logged and dropped.
+ *
+ * @module core/transcript
+ */
+
+import type { IncomingMessage, MessageAttachment, Route } from './models.js'
+import type { MessageHandlerResult } from './message-handler.js'
+import { logger, isDebugMode } from './logger.js'
+
+/**
+ * Whether a message was received from a user or sent to one.
+ */
+export type TranscriptDirection = 'inbound' | 'outbound'
+
+/**
+ * A message to store in the transcript.
+ */
+export interface TranscriptEntry {
+  /** Channel/group identifier (the conversation) */
+  channelId: string
+  /** Chat JID: the sender of inbound messages, the recipient of outbound ones */
+  chatId: string
+  /** Whether the message was received or sent */
+  direction: TranscriptDirection
+  /** Provider message ID (unset for replies the provider did not identify) */
+  messageId?: string
+  /** Message text (empty for media without caption) */
+  text: string
+  /** Media attached to an inbound message */
+  attachments?: Array<Pick<MessageAttachment, 'type' | 'mimeType' | 'filename'>>
+  /** Kind of rich content of an outbound message (e.g. `image`, `location`) */
+  contentType?: string
+  /** ID of the route that handled the message */
+  routeId?: string
+  /** Agent endpoint that handled the message */
+  agentEndpoint?: string
+  /** Agent session ID (ADK or OpenAI-compatible), when the agent reported one */
+  sessionId?: string
+  /** Milliseconds from the agent call to the agent result (inbound) or to the reply (outbound) */
+  latencyMs?: number
+  /** Whether the agent answered (inbound) or the reply was delivered (outbound) */
+  success: boolean
+  /** Why the message failed */
+  error?: string
+  /** When the message was received or sent */
+  timestamp: Date
+}
+
+/**
+ * A stored transcript message.
+ */
+export interface TranscriptRecord extends TranscriptEntry {
+  /** Record identifier */
+  id: string
+  /** When the record was stored */
+  createdAt: Date
+}
+
+/**
+ * Latest activity of a conversation.
+ */
+export interface ConversationSummary {
+  /** Channel/group identifier */
+  channelId: string
+  /** Chat JID of the latest message */
+  chatId: string
+  /** Messages stored for the conversation (within the time filter) */
+  messageCount: number
+  /** When the latest message was received or sent */
+  lastMessageAt: Date
+  /** Text of the latest message */
+  lastMessageText: string
+  /** Direction of the latest message */
+  lastDirection: TranscriptDirection
+  /** Agent endpoint that handled the latest routed message */
+  lastAgentEndpoint?: string
+  /** Messages the agent failed to answer or that could not be delivered */
+  errorCount: number
+}
+
+/**
+ * Pagination and time filter of transcript queries.
+ */
+export interface TranscriptQuery {
+  /** Page size */
+  limit?: number
+  /** Number of results to skip */
+  offset?: number
+  /** Only messages at or after this time */
+  since?: Date
+  /** Only messages before this time */
+  until?: Date
+}
+
+/**
+ * Query of the conversation list.
+ */
+export interface ConversationQuery extends TranscriptQuery {
+  /** Only conversations whose channel, chat or a message text contains this text (case-insensitive) */
+  search?: string
+}
+
+/**
+ * Interface for transcript storage (port).
+ */
+export interface TranscriptRepository {
+  /**
+   * Stores messages.
+   *
+   * @param entries - Messages to store
+   */
+  add(entries: TranscriptEntry[]): Promise<void>
+
+  /**
+   * Lists conversations, most recently active first.
+   *
+   * @param query - Pagination, time filter and search
+   * @returns Conversation summaries
+   */
+  listConversations(query: ConversationQuery): Promise<ConversationSummary[]>
+
+  /**
+   * Lists the messages of a conversation, newest first.
+   *
+   * @param channelId - Channel/group identifier
+   * @param query - Pagination and time filter
+   * @returns Stored messages
+   */
+  listMessages(channelId: string, query: TranscriptQuery): Promise<TranscriptRecord[]>
+
+  /**
+   * Finds the latest message of an agent session.
+   *
+   * @param sessionId - Agent session ID
+   * @returns The latest message, or null if none is stored for the session
+   */
+  findLatestBySession(sessionId: string): Promise<TranscriptRecord | null>
+
+  /**
+   * Deletes messages received or sent before a date.
+   *
+   * @param before - Cut-off date
+   * @returns Number of messages deleted
+   */
+  deleteBefore(before: Date): Promise<number>
+}
+
+/**
+ * A reply sent (or attempted) for a routed message.
+ */
+export interface TranscriptReply {
+  /** Reply text */
+  text: string
+  /** Kind of rich content, if any */
+  contentType?: string
+  /** Provider ID of the sent message */
+  messageId?: string
+  /** Why the reply could not be sent */
+  error?: string
+  /** When the reply was sent */
+  sentAt: Date
+}
+
+/**
+ * A routed message, the agent outcome and the replies sent for it.
+ */
+export interface TranscriptExchange {
+  /** The message sent to the agent */
+  message: IncomingMessage
+  /** The route that handled it */
+  route: Route
+  /** Result of handling the message */
+  result: MessageHandlerResult
+  /** Replies sent to the user, in order */
+  replies: TranscriptReply[]
+  /** When the agent was called */
+  startedAt: Date
+  /** Milliseconds until the agent result */
+  latencyMs: number
+}
+
+/**
+ * Configuration for TranscriptService.
+ */
+export interface TranscriptServiceConfig {
+  /** Where transcripts are stored */
+  repository: TranscriptRepository
+  /** How long messages are kept, in milliseconds (0: forever; default: 30 days) */
+  retentionMs?: number
+}
+
+/**
+ * Default retention: 30 days.
+ */
+export const DEFAULT_TRANSCRIPT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * Gets the agent session ID from agent response metadata.
+ *
+ * ADK clients report it in `metadata.adk.sessionId`, OpenAI-compatible
+ * clients in `metadata.openai.sessionId`.
+ *
+ * @param metadata - Result or agent response metadata
+ * @returns The session ID, or undefined if the agent reported none
+ */
+export function getSessionId(metadata?: Record<string, unknown>): string | undefined {
+  for (const key of ['adk', 'openai']) {
+    const details = metadata?.[key]
+    if (details && typeof details === 'object') {
+      const sessionId = (details as Record<string, unknown>).sessionId
+      if (typeof sessionId === 'string' && sessionId) {
+        return sessionId
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Records conversations and answers transcript queries.
+ *
+ * @example
+ * ```typescript
+ * const transcript = new TranscriptService({ repository: new PostgresTranscriptRepository() })
+ * await transcript.recordExchange({ message, route, result, replies, startedAt, latencyMs })
+ * await transcript.record([{ channelId, chatId, direction: 'outbound', text: 'Hi', success: true, timestamp: new Date() }])
+ * const conversations = await transcript.listConversations({ limit: 20 })
+ * ```
+ */
+export class TranscriptService {
+  readonly retentionMs: number
+  private repository: TranscriptRepository
+  private cleanupTimer: NodeJS.Timeout | null = null
+
+  constructor(config: TranscriptServiceConfig) {
+    this.repository = config.repository
+    this.retentionMs = config.retentionMs ?? DEFAULT_TRANSCRIPT_RETENTION_MS
+
+    if (isDebugMode()) {
+      logger.debug('[TranscriptService] Initialized', { retentionMs: this.retentionMs })
+    }
+  }
+
+  /**
+   * Stores a routed message and the replies sent for it.
+   *
+   * Errors are logged, never thrown.
+   *
+   * @param exchange - The message, the agent outcome and the replies
+   */
+  async recordExchange(exchange: TranscriptExchange): Promise<void> {
+    const { message, route, result, replies, startedAt, latencyMs } = exchange
+    const sessionId = getSessionId(result.metadata)
+    const shared = {
+      channelId: message.channelId,
+      ...(route.id ? { routeId: route.id } : {}),
+      agentEndpoint: route.agentEndpoint,
+      ...(sessionId ? { sessionId } : {}),
+    }
+
+    const entries: TranscriptEntry[] = [
+      {
+        ...shared,
+        chatId: message.from,
+        direction: 'inbound',
+        messageId: message.id,
+        text: message.text,
+        ...(message.attachments?.length
+          ? {
+            attachments: message.attachments.map(({ type, mimeType, filename }) => ({
+              type,
+              mimeType,
+              ...(filename ? { filename } : {}),
+            })),
+          }
+          : {}),
+        latencyMs,
+        success: result.success,
+        ...(result.error ? { error: result.error } : {}),
+        timestamp: message.timestamp,
+      },
+      ...replies.map((reply): TranscriptEntry => ({
+        ...shared,
+        chatId: message.from,
+        direction: 'outbound',
+        ...(reply.messageId ? { messageId: reply.messageId } : {}),
+        text: reply.text,
+        ...(reply.contentType ? { contentType: reply.contentType } : {}),
+        latencyMs: reply.sentAt.getTime() - startedAt.getTime(),
+        success: !reply.error,
+        ...(reply.error ? { error: reply.error } : {}),
+        timestamp: reply.sentAt,
+      })),
+    ]
+
+    await this.record(entries)
+  }
+
+  /**
+   * Stores messages received or sent outside a routed exchange (e.g. sent
+   * by an operator from the dashboard).
+   *
+   * Errors are logged, never thrown.
+   *
+   * @param entries - Messages to store
+   */
+  async record(entries: TranscriptEntry[]): Promise<void> {
+    try {
+      await this.repository.add(entries)
+    } catch (error) {
+      logger.error('[TranscriptService] Failed to record conversation', {
+        messageId: entries[0]?.messageId,
+        channelId: entries[0]?.channelId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Lists conversations, most recently active first.
+   *
+   * @param query - Pagination, time filter and search
+   * @returns Conversation summaries
+   */
+  listConversations(query: ConversationQuery = {}): Promise<ConversationSummary[]> {
+    return this.repository.listConversations(query)
+  }
+
+  /**
+   * Lists the messages of a conversation, newest first.
+   *
+   * @param channelId - Channel/group identifier
+   * @param query - Pagination and time filter
+   * @returns Stored messages
+   */
+  listMessages(channelId: string, query: TranscriptQuery = {}): Promise<TranscriptRecord[]> {
+    return this.repository.listMessages(channelId, query)
+  }
+
+  /**
+   * Finds the latest message of an agent session.
+   *
+   * @param sessionId - Agent session ID
+   * @returns The latest message, or null if none is stored for the session
+   */
+  findLatestBySession(sessionId: string): Promise<TranscriptRecord | null> {
+    return this.repository.findLatestBySession(sessionId)
+  }
+
+  /**
+   * Deletes messages older than the retention period.
+   *
+   * @returns Number of messages deleted
+   */
+  async purgeExpired(): Promise<number> {
+    if (this.retentionMs <= 0) {
+      return 0
+    }
+
+    const deleted = await this.repository.deleteBefore(new Date(Date.now() - this.retentionMs))
+    if (deleted > 0) {
+      logger.info('[TranscriptService] Expired messages purged', {
+        deleted,
+        retentionMs: this.retentionMs,
+      })
+    }
+    return deleted
+  }
+
+  /**
+   * Starts purging expired messages periodically.
+   *
+   * The timer does not keep the process alive.
+   *
+   * @param intervalMs - Time between purges (default: 1 hour)
+   */
+  startCleanup(intervalMs = 60 * 60 * 1000): void {
+    this.stopCleanup()
+    this.cleanupTimer = setInterval(() => {
+      this.purgeExpired().catch((error) => {
+        logger.error('[TranscriptService] Cleanup failed', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+    }, intervalMs)
+    this.cleanupTimer.unref()
+  }
+
+  /**
+   * Stops periodic cleanup.
+   */
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+  }
+}
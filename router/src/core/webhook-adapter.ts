@@ -7,6 +7,7 @@
 
 import type { IncomingMessage } from './models.js'
 import { logger, isDebugMode } from './logger.js'
+import { hashMessageId } from './message-dedup.js'
 
 /**
  * Evolution API webhook payload structure.
@@ -90,7 +91,8 @@ export function normalizeEvolutionApiWebhook(
   
   // Extract message information
   const remoteJid = data.key?.remoteJid || data.from || 'unknown'
-  const messageId = data.key?.id || `msg-${Date.now()}`
+  // Without a provider ID, derive one from the contents so redeliveries get the same ID
+  const messageId = data.key?.id || hashMessageId(remoteJid, data.messageTimestamp, JSON.stringify(data.message ?? null))
   
   // Extract message text from different message types
   let messageText = '[media or unsupported message type]'
@@ -20,10 +20,10 @@ export interface WhatsAppProvider {
    * Sends a message via the configured WhatsApp provider.
    * 
    * @param message - The message to send
-   * @returns Promise that resolves when the message is sent
+   * @returns Promise resolving to the provider's ID of the sent message, when it reports one
    * @throws {Error} If the message fails to send
    */
-  sendMessage(message: OutgoingMessage): Promise<void>
+  sendMessage(message: OutgoingMessage): Promise<string | void>
 
   /**
    * Normalizes a webhook payload from the provider's specific format
@@ -35,5 +35,54 @@ export interface WhatsAppProvider {
    * @returns Normalized IncomingMessage or null if payload is invalid or not a message
    */
   normalizeWebhook(payload: unknown): IncomingMessage | null
+
+  /**
+   * Normalizes a webhook payload that may contain several messages.
+   *
+   * Optional: providers whose webhooks batch messages (e.g. Cloud API)
+   * implement this so no message is dropped. Callers fall back to
+   * `normalizeWebhook` when it is not available.
+   *
+   * @param payload - Raw webhook payload from the provider
+   * @returns Array of normalized messages (empty if none)
+   */
+  normalizeWebhookBatch?(payload: unknown): IncomingMessage[]
+
+  /**
+   * Marks an incoming message as read (blue ticks).
+   *
+   * Optional: providers that cannot send read receipts leave it out.
+   *
+   * @param message - The message to mark as read
+   * @returns Promise that resolves when the receipt is sent
+   * @throws {Error} If the receipt fails to send
+   */
+  markRead?(message: IncomingMessage): Promise<void>
+
+  /**
+   * Shows or clears the "typing..." indicator in a chat.
+   *
+   * Optional: providers without presence updates leave it out. WhatsApp
+   * clears the indicator after a few seconds, so callers repeat it while
+   * the reply is being prepared.
+   *
+   * @param to - The chat to show the indicator in (JID or phone number)
+   * @param typing - true for composing, false to clear the indicator
+   * @returns Promise that resolves when the presence is sent
+   * @throws {Error} If the presence update fails
+   */
+  setTyping?(to: string, typing: boolean): Promise<void>
+
+  /**
+   * Returns the chat ID a recipient's messages arrive with.
+   *
+   * Optional: providers whose chat IDs are the recipients as given leave it
+   * out. Chats are keyed by this ID (takeover, transcript), so a message sent
+   * to a phone number is tracked in the same chat as the replies to it.
+   *
+   * @param recipient - Chat JID or phone number
+   * @returns The `from` value of the chat's incoming messages
+   */
+  toChatId?(recipient: string): string
 }
 
@@ -6,22 +6,63 @@
  */
 
 import fastify from 'fastify'
-import { registerWebhooks } from './webhooks-controller.js'
+import { registerWebhooks, type CloudApiWebhookConfig } from './webhooks-controller.js'
 import { registerRouteEndpoints } from './routes-controller.js'
+import { registerTakeoverEndpoints } from './takeover-controller.js'
+import { registerQueueEndpoints } from './queue-controller.js'
+import { registerConversationEndpoints } from './conversations-controller.js'
+import { registerMessageEndpoints } from './messages-controller.js'
+import { registerCallbackEndpoints } from './callbacks-controller.js'
 import { logger, isDebugMode } from './core/logger.js'
 import type { WhatsAppProvider } from './core/whatsapp-provider.js'
 import { getBaileysConnection } from './providers/baileys-connection.js'
 import { BaileysProvider } from './providers/baileys-provider.js'
 import { EvolutionProvider } from './providers/evolution-provider.js'
+import { CloudApiProvider } from './providers/cloud-provider.js'
 import { PostgresRoutesRepository } from './infra/postgres-routes-repository.js'
+import { PostgresInboundQueueRepository } from './infra/postgres-inbound-queue-repository.js'
+import { PostgresDedupStore } from './infra/postgres-dedup-store.js'
+import { PostgresTranscriptRepository } from './infra/postgres-transcript-repository.js'
 import { HttpAgentClientFactory } from './infra/agent-client-factory.js'
+import { FileSystemMediaStore } from './infra/filesystem-media-store.js'
 import { RouterService } from './core/router-service.js'
 import { MessageRouter } from './core/message-router.js'
+import { TakeoverService } from './core/takeover.js'
+import { ConversationQueue } from './core/conversation-queue.js'
+import { InboundQueue } from './core/inbound-queue.js'
+import { MessageDeduplicator, InMemoryDedupStore } from './core/message-dedup.js'
+import { TranscriptService } from './core/transcript.js'
+import { MessageSender } from './core/message-sender.js'
+import { CallbackTokens } from './core/callback-tokens.js'
 import { setupBaileysDirectRouting } from './providers/baileys-routing.js'
 
 const DEBUG = process.env.WA2AI_DEBUG === 'true'
 const PORT = parseInt(process.env.WA2AI_PORT || '3000', 10)
 const PROVIDER = (process.env.WA2AI_PROVIDER || 'baileys').toLowerCase()
+const MEDIA_MAX_BYTES = parseInt(process.env.WA2AI_MEDIA_MAX_BYTES || String(16 * 1024 * 1024), 10)
+const MEDIA_RETENTION_HOURS = parseFloat(process.env.WA2AI_MEDIA_RETENTION_HOURS || '24')
+const TAKEOVER_ENABLED = process.env.WA2AI_TAKEOVER_ENABLED !== 'false'
+const TAKEOVER_COOLDOWN_MINUTES = parseFloat(process.env.WA2AI_TAKEOVER_COOLDOWN_MINUTES || '30')
+const QUEUE_CONCURRENCY = parseInt(process.env.WA2AI_QUEUE_CONCURRENCY || '10', 10)
+const QUEUE_MAX_SIZE = parseInt(process.env.WA2AI_QUEUE_MAX_SIZE || '1000', 10)
+const INBOUND_QUEUE_ENABLED = process.env.WA2AI_INBOUND_QUEUE_ENABLED !== 'false'
+const INBOUND_QUEUE_MAX_ATTEMPTS = parseInt(process.env.WA2AI_INBOUND_QUEUE_MAX_ATTEMPTS || '5', 10)
+const INBOUND_QUEUE_RETRY_DELAY_SECONDS = parseFloat(process.env.WA2AI_INBOUND_QUEUE_RETRY_DELAY_SECONDS || '2')
+const INBOUND_QUEUE_RETENTION_HOURS = parseFloat(process.env.WA2AI_INBOUND_QUEUE_RETENTION_HOURS || '24')
+const DEDUP_ENABLED = process.env.WA2AI_DEDUP_ENABLED !== 'false'
+const DEDUP_STORE = (process.env.WA2AI_DEDUP_STORE || 'memory').toLowerCase()
+const DEDUP_TTL_HOURS = parseFloat(process.env.WA2AI_DEDUP_TTL_HOURS || '24')
+const TRANSCRIPT_ENABLED = process.env.WA2AI_TRANSCRIPT_ENABLED !== 'false'
+const TRANSCRIPT_RETENTION_DAYS = parseFloat(process.env.WA2AI_TRANSCRIPT_RETENTION_DAYS || '30')
+const CALLBACK_SECRET = process.env.WA2AI_CALLBACK_SECRET || ''
+const ADMIN_TOKEN = process.env.WA2AI_ADMIN_TOKEN || ''
+
+// Media downloaded from incoming messages, purged after the retention period
+const mediaStore = new FileSystemMediaStore({
+  dir: process.env.WA2AI_MEDIA_DIR || './media',
+  maxBytes: MEDIA_MAX_BYTES,
+  retentionMs: MEDIA_RETENTION_HOURS * 60 * 60 * 1000,
+})
 
 const server = fastify({
   logger: DEBUG
@@ -53,6 +94,7 @@ function createWhatsAppProvider(): WhatsAppProvider | null {
         ignoreStatusBroadcast: true,
         ignoreJids: [],
       },
+      mediaStore,
     })
   } else if (PROVIDER === 'evolution') {
     return new EvolutionProvider({
@@ -60,18 +102,59 @@ function createWhatsAppProvider(): WhatsAppProvider | null {
       apiKey: process.env.WA2AI_EVOLUTION_API_KEY || 'default_key_change_me',
       instanceName: 'wa2ai-lab',
     })
+  } else if (PROVIDER === 'cloud') {
+    const accessToken = process.env.WA2AI_CLOUD_API_ACCESS_TOKEN
+    const phoneNumberId = process.env.WA2AI_CLOUD_API_PHONE_NUMBER_ID
+    if (!accessToken || !phoneNumberId || !process.env.WA2AI_CLOUD_API_APP_SECRET) {
+      throw new Error(
+        'Cloud API provider requires WA2AI_CLOUD_API_ACCESS_TOKEN, WA2AI_CLOUD_API_PHONE_NUMBER_ID and WA2AI_CLOUD_API_APP_SECRET'
+      )
+    }
+    return new CloudApiProvider({
+      accessToken,
+      phoneNumberId,
+      apiUrl: process.env.WA2AI_CLOUD_API_URL,
+      apiVersion: process.env.WA2AI_CLOUD_API_VERSION,
+    })
   }
   return null
 }
 
+/**
+ * Builds the prod webhook security settings for the Cloud API provider.
+ *
+ * @returns Verification and signature settings, or undefined for other providers
+ */
+function createCloudApiWebhookConfig(): CloudApiWebhookConfig | undefined {
+  if (PROVIDER !== 'cloud') {
+    return undefined
+  }
+
+  if (!process.env.WA2AI_CLOUD_API_VERIFY_TOKEN) {
+    logger.warn('[Index] WA2AI_CLOUD_API_VERIFY_TOKEN not set - Cloud API webhook verification will be rejected')
+  }
+
+  return {
+    verifyToken: process.env.WA2AI_CLOUD_API_VERIFY_TOKEN,
+    appSecret: process.env.WA2AI_CLOUD_API_APP_SECRET,
+  }
+}
+
 /**
  * Initializes the routing system.
  * 
- * Sets up routes repository, router service, and message router.
+ * Sets up routes repository, router service, message router and, unless
+ * disabled, the durable inbound queue, the message deduplicator and the
+ * conversation transcript.
  * 
- * @returns The message router instance
+ * @returns The message router and the optional services (undefined if disabled)
  */
-function initializeRouting(): MessageRouter {
+function initializeRouting(): {
+  messageRouter: MessageRouter
+  inboundQueue?: InboundQueue
+  deduplicator?: MessageDeduplicator
+  transcript?: TranscriptService
+} {
   if (DEBUG) {
     logger.debug('[Index] Initializing routing system')
   }
@@ -83,12 +166,34 @@ function initializeRouting(): MessageRouter {
   // Create router service
   const routerService = new RouterService(globalRoutesRepository)
 
-  // Create agent client factory (infrastructure implementation)
-  const agentClientFactory = new HttpAgentClientFactory()
+  // Create agent client factory (agent protocol registry with the built-in protocols)
+  const agentClientFactory = new HttpAgentClientFactory({ mediaStore })
 
   // Create WhatsApp provider
   const whatsappProvider = createWhatsAppProvider()
 
+  // Operators writing from the phone pause the agent in that chat
+  const takeover = TAKEOVER_ENABLED
+    ? new TakeoverService({
+      cooldownMs: TAKEOVER_COOLDOWN_MINUTES * 60 * 1000,
+      resumeCommand: process.env.WA2AI_TAKEOVER_RESUME_COMMAND,
+    })
+    : undefined
+
+  // Each conversation is answered in order; conversations run in parallel
+  const queue = new ConversationQueue({
+    maxConcurrency: QUEUE_CONCURRENCY,
+    maxQueueSize: QUEUE_MAX_SIZE,
+  })
+
+  // Routed messages and agent replies are stored for the conversations API
+  const transcript = TRANSCRIPT_ENABLED
+    ? new TranscriptService({
+      repository: new PostgresTranscriptRepository(),
+      retentionMs: TRANSCRIPT_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    })
+    : undefined
+
   if (isDebugMode()) {
     logger.debug('[Index] Dependencies created', {
       provider: PROVIDER,
@@ -105,16 +210,85 @@ function initializeRouting(): MessageRouter {
   const messageRouter = new MessageRouter(routerService, {
     whatsappProvider,
     agentClientFactory,
+    takeover,
+    queue,
+    transcript,
   })
 
+  // Incoming messages are stored before routing and retried when the agent fails
+  const inboundQueue = INBOUND_QUEUE_ENABLED
+    ? new InboundQueue({
+      repository: new PostgresInboundQueueRepository(),
+      handler: (message) => messageRouter.routeMessage(message),
+      maxAttempts: INBOUND_QUEUE_MAX_ATTEMPTS,
+      retryBaseDelayMs: INBOUND_QUEUE_RETRY_DELAY_SECONDS * 1000,
+      retentionMs: INBOUND_QUEUE_RETENTION_HOURS * 60 * 60 * 1000,
+    })
+    : undefined
+
+  // Messages delivered more than once by the provider are answered once
+  const deduplicator = DEDUP_ENABLED
+    ? new MessageDeduplicator({
+      store: DEDUP_STORE === 'postgres' ? new PostgresDedupStore() : new InMemoryDedupStore(),
+      ttlMs: DEDUP_TTL_HOURS * 60 * 60 * 1000,
+    })
+    : undefined
+
   // Register route management endpoints BEFORE server starts listening
   if (globalRoutesRepository) {
-    registerRouteEndpoints(server, globalRoutesRepository)
+    registerRouteEndpoints(server, globalRoutesRepository, agentClientFactory)
     if (DEBUG) {
       logger.debug('[Index] Route management endpoints registered')
     }
   }
 
+  if (takeover) {
+    registerTakeoverEndpoints(server, takeover)
+    if (DEBUG) {
+      logger.debug('[Index] Takeover endpoints registered')
+    }
+  }
+
+  registerQueueEndpoints(server, queue, inboundQueue, deduplicator)
+  if (DEBUG) {
+    logger.debug('[Index] Queue endpoints registered')
+  }
+
+  if (transcript) {
+    registerConversationEndpoints(server, transcript)
+    if (DEBUG) {
+      logger.debug('[Index] Conversation endpoints registered')
+    }
+  }
+
+  // Operators, API clients and agent callbacks send messages through the same provider
+  const sender = new MessageSender({ provider: whatsappProvider, takeover, transcript })
+  registerMessageEndpoints(server, sender, takeover)
+  if (DEBUG) {
+    logger.debug('[Index] Message endpoints registered')
+  }
+
+  // Agents push follow-up messages with a token scoped to their route
+  if (CALLBACK_SECRET && transcript) {
+    registerCallbackEndpoints(server, {
+      tokens: new CallbackTokens({ secret: CALLBACK_SECRET }),
+      routesRepository: globalRoutesRepository,
+      routerService,
+      sender,
+      transcript,
+      takeover,
+      adminToken: ADMIN_TOKEN || undefined,
+    })
+    if (DEBUG) {
+      logger.debug('[Index] Callback endpoints registered')
+    }
+    if (!ADMIN_TOKEN) {
+      logger.warn('[Index] WA2AI_ADMIN_TOKEN not set - route callback tokens cannot be read over HTTP')
+    }
+  } else if (CALLBACK_SECRET) {
+    logger.warn('[Index] Agent callbacks need the conversation transcript - callback endpoints not registered')
+  }
+
   // Routes are now persisted in PostgreSQL database
   // Routes can be added via API endpoints and will persist across container restarts
 
@@ -127,6 +301,9 @@ function initializeRouting(): MessageRouter {
     registerWebhooks(server, {
       messageRouter,
       whatsappProvider,
+      cloudApi: createCloudApiWebhookConfig(),
+      inboundQueue,
+      deduplicator,
     })
     if (DEBUG) {
       logger.debug('[Index] Webhook endpoints registered with dependencies')
@@ -135,7 +312,7 @@ function initializeRouting(): MessageRouter {
     logger.warn('[Index] WhatsApp provider not available - webhook endpoints not registered')
   }
 
-  return messageRouter
+  return { messageRouter, inboundQueue, deduplicator, transcript }
 }
 
 /**
@@ -144,8 +321,16 @@ function initializeRouting(): MessageRouter {
  * This starts the connection process in the background and sets up
  * message routing to AI agents.
  * QR code will be available at /qr endpoint once generated.
+ * 
+ * @param messageRouter - The message router instance
+ * @param inboundQueue - Durable inbound queue (undefined if disabled)
+ * @param deduplicator - Message deduplicator (undefined if disabled)
  */
-async function initializeBaileysConnection(messageRouter: MessageRouter): Promise<void> {
+async function initializeBaileysConnection(
+  messageRouter: MessageRouter,
+  inboundQueue?: InboundQueue,
+  deduplicator?: MessageDeduplicator
+): Promise<void> {
   // Get the already-configured connection (created in createWhatsAppProvider)
   const connection = getBaileysConnection()
 
@@ -153,7 +338,7 @@ async function initializeBaileysConnection(messageRouter: MessageRouter): Promis
     await connection.connect()
     
     // Set up direct routing
-    setupBaileysDirectRouting(messageRouter)
+    setupBaileysDirectRouting(messageRouter, inboundQueue, deduplicator)
 
     logger.info('Baileys connection initiated with direct routing', {
       qrEndpoint: `http://localhost:${PORT}/qr`,
@@ -167,7 +352,7 @@ async function initializeBaileysConnection(messageRouter: MessageRouter): Promis
 }
 
 // Initialize routing system BEFORE server starts listening
-const messageRouter = initializeRouting()
+const { messageRouter, inboundQueue, deduplicator, transcript } = initializeRouting()
 
 // Start server
 server.listen({ port: PORT, host: '0.0.0.0' }, async (err, address) => {
@@ -186,16 +371,25 @@ server.listen({ port: PORT, host: '0.0.0.0' }, async (err, address) => {
     provider: PROVIDER,
   })
 
+  mediaStore.startCleanup()
+  deduplicator?.startCleanup()
+  transcript?.startCleanup()
+
+  await inboundQueue?.start()
+
   // Initialize provider based on WA2AI_PROVIDER environment variable
   if (PROVIDER === 'baileys') {
-    await initializeBaileysConnection(messageRouter)
+    await initializeBaileysConnection(messageRouter, inboundQueue, deduplicator)
   } else if (PROVIDER === 'evolution') {
     logger.info('Evolution API provider selected - webhook endpoints available at /webhooks/whatsapp/lab')
     // Evolution API uses webhooks, no direct connection needed
     // Messages will be received via webhook endpoints registered in registerWebhooks
+  } else if (PROVIDER === 'cloud') {
+    logger.info('WhatsApp Cloud API provider selected - webhook endpoint available at /webhooks/whatsapp/prod')
+    // Cloud API delivers messages via Meta webhooks, no direct connection needed
   } else {
-    logger.warn(`Unknown provider: ${PROVIDER}. Valid options: 'baileys' or 'evolution'. Defaulting to 'baileys'.`)
-    await initializeBaileysConnection(messageRouter)
+    logger.warn(`Unknown provider: ${PROVIDER}. Valid options: 'baileys', 'evolution' or 'cloud'. Defaulting to 'baileys'.`)
+    await initializeBaileysConnection(messageRouter, inboundQueue, deduplicator)
   }
 })
 
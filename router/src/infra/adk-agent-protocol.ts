@@ -0,0 +1,151 @@
+/**
+ * ADK agent protocol.
+ *
+ * This module registers ADK (Agent Development Kit) agents with the agent
+ * protocol registry. Routes select it with `config.type: 'adk'` (the default)
+ * and configure it under `config.adk`.
+ *
+ * @module infra/adk-agent-protocol
+ */
+
+import type { Route } from '../core/models.js'
+import type { AgentClient, AgentProtocol } from '../core/agent-client.js'
+import type { MediaStore } from '../core/media-store.js'
+import {
+  AdkSessionCache,
+  HttpAgentClient,
+  type AdkReplyMode,
+  type AdkStreamingChunks,
+} from './http-agent-client.js'
+
+/**
+ * Shape of `route.config.adk`.
+ */
+export interface AdkRouteConfig {
+  /** ADK agent name (directory name, not constructor name) */
+  appName: string
+  /** Base URL of ADK server (defaults to the route's agentEndpoint) */
+  baseUrl?: string
+  /** Use /run_sse and send replies while the run is going (default: false) */
+  streaming?: boolean
+  /** Streamed reply size: each finished model message or sentence-sized chunks (default: 'message') */
+  streamingChunks?: AdkStreamingChunks
+  /** Reply with the last model event only, or with every model event (default: 'last') */
+  replyMode?: AdkReplyMode
+  /** Look up and create sessions through the ADK session API before running (default: true) */
+  createSessions?: boolean
+}
+
+/**
+ * Valid values of `config.adk.streamingChunks`.
+ */
+const STREAMING_CHUNKS: readonly AdkStreamingChunks[] = ['message', 'sentence']
+
+/**
+ * Valid values of `config.adk.replyMode`.
+ */
+const REPLY_MODES: readonly AdkReplyMode[] = ['last', 'all']
+
+/**
+ * Default request timeout for ADK agents, in milliseconds.
+ */
+const DEFAULT_TIMEOUT = 30000
+
+/**
+ * Agent protocol for ADK agents (POST /run).
+ *
+ * Configuration:
+ * - `config.adk.appName` (required)
+ * - `config.adk.baseUrl` (optional, defaults to `agentEndpoint`)
+ * - `config.adk.streaming` (optional, POST /run_sse instead of /run)
+ * - `config.adk.streamingChunks` (optional, 'message' or 'sentence')
+ * - `config.adk.replyMode` (optional, 'last' or 'all' model events of /run)
+ * - `config.adk.createSessions` (optional, false for servers that create sessions themselves)
+ *
+ * Sessions known to exist are remembered across messages, since a new
+ * client is created for every message. Message attachments are sent as
+ * `inline_data` parts when a media store is provided.
+ */
+export class AdkAgentProtocol implements AgentProtocol {
+  readonly type = 'adk'
+  private sessions: AdkSessionCache
+  private mediaStore?: MediaStore
+
+  constructor(options: { maxSessions?: number; mediaStore?: MediaStore } = {}) {
+    this.sessions = new AdkSessionCache({ maxSessions: options.maxSessions })
+    this.mediaStore = options.mediaStore
+  }
+
+  /**
+   * Validates `config.adk` of a route.
+   *
+   * @param route - The route to validate
+   * @returns An error message, or null if the configuration is valid
+   */
+  validateConfig(route: Route): string | null {
+    const adk = route.config?.adk as Partial<AdkRouteConfig> | undefined
+
+    if (typeof adk?.appName !== 'string' || !adk.appName) {
+      return 'ADK routes require config.adk.appName'
+    }
+
+    if (adk.baseUrl !== undefined && (typeof adk.baseUrl !== 'string' || !HttpAgentClient.isValidEndpoint(adk.baseUrl))) {
+      return 'config.adk.baseUrl must be an http(s) URL'
+    }
+
+    if (adk.streaming !== undefined && typeof adk.streaming !== 'boolean') {
+      return 'config.adk.streaming must be a boolean'
+    }
+
+    if (adk.streamingChunks !== undefined && !STREAMING_CHUNKS.includes(adk.streamingChunks)) {
+      return `config.adk.streamingChunks must be one of: ${STREAMING_CHUNKS.join(', ')}`
+    }
+
+    if (adk.replyMode !== undefined && !REPLY_MODES.includes(adk.replyMode)) {
+      return `config.adk.replyMode must be one of: ${REPLY_MODES.join(', ')}`
+    }
+
+    if (adk.createSessions !== undefined && typeof adk.createSessions !== 'boolean') {
+      return 'config.adk.createSessions must be a boolean'
+    }
+
+    return null
+  }
+
+  /**
+   * Creates an HttpAgentClient for the route's ADK agent.
+   *
+   * @param route - A route with a valid ADK configuration
+   * @returns A configured AgentClient instance
+   */
+  createClient(route: Route): AgentClient {
+    const adk = route.config!.adk as AdkRouteConfig
+
+    return new HttpAgentClient({
+      timeout: DEFAULT_TIMEOUT,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      adk: {
+        appName: adk.appName,
+        baseUrl: this.getEndpoint(route),
+        streaming: adk.streaming,
+        streamingChunks: adk.streamingChunks,
+        replyMode: adk.replyMode,
+        sessions: adk.createSessions === false ? undefined : this.sessions,
+        mediaStore: this.mediaStore,
+      },
+    })
+  }
+
+  /**
+   * Returns the ADK server base URL for a route.
+   *
+   * @param route - The route being served
+   * @returns `config.adk.baseUrl`, or `agentEndpoint` if unset
+   */
+  getEndpoint(route: Route): string {
+    const adk = route.config?.adk as Partial<AdkRouteConfig> | undefined
+    return adk?.baseUrl || route.agentEndpoint
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * ADK reply content mapping.
+ *
+ * This module maps files produced by ADK agents (inline data parts of
+ * events and artifacts announced in `artifactDelta`) to outbound WhatsApp
+ * content: images, videos, audio and documents by MIME type, plus
+ * locations and contacts through wa2ai-specific JSON MIME types.
+ *
+ * @module infra/adk-content
+ */
+
+import type { OutgoingContent, OutgoingMediaType } from '../core/models.js'
+
+/**
+ * MIME type of a JSON location (`{ latitude, longitude, name?, address? }`).
+ */
+export const LOCATION_MIME_TYPE = 'application/vnd.wa2ai.location+json'
+
+/**
+ * MIME type of a JSON contact card (`{ name, phone }`).
+ */
+export const CONTACT_MIME_TYPE = 'application/vnd.wa2ai.contact+json'
+
+/**
+ * Inline data of an ADK part.
+ *
+ * The ADK server serializes events in camelCase; snake_case is accepted too.
+ */
+export interface AdkInlineData {
+  mimeType?: string
+  mime_type?: string
+  /** Base64 (standard or URL-safe) file contents */
+  data?: string
+  displayName?: string
+  display_name?: string
+}
+
+/**
+ * Part of an ADK event content or artifact.
+ */
+export interface AdkPart {
+  text?: string
+  inlineData?: AdkInlineData
+  inline_data?: AdkInlineData
+}
+
+/**
+ * Picks the outbound media type for a MIME type.
+ *
+ * @param mimeType - MIME type of the file
+ * @returns image, video or audio by MIME family, document otherwise
+ */
+export function getOutgoingMediaType(mimeType: string): OutgoingMediaType {
+  const family = mimeType.split('/')[0].toLowerCase()
+  if (family === 'image' || family === 'video' || family === 'audio') {
+    return family
+  }
+  return 'document'
+}
+
+/**
+ * Parses the JSON body of a location or contact part.
+ *
+ * @returns The parsed object, or null if it is not a JSON object
+ */
+function parseJsonData(data: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(Buffer.from(data, 'base64').toString('utf8')) as unknown
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Converts ADK inline data to outbound content.
+ *
+ * @param inline - Inline data of a part
+ * @param filename - File name to show (e.g. the artifact name)
+ * @returns The content, or null if the data is missing or malformed
+ */
+export function toOutgoingContent(inline: AdkInlineData, filename?: string): OutgoingContent | null {
+  const mimeType = inline.mimeType ?? inline.mime_type
+  if (!mimeType || !inline.data) {
+    return null
+  }
+
+  // Providers expect standard base64
+  const data = inline.data.replace(/-/g, '+').replace(/_/g, '/')
+  const baseType = mimeType.split(';')[0].trim().toLowerCase()
+
+  if (baseType === LOCATION_MIME_TYPE) {
+    const location = parseJsonData(data)
+    if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
+      return null
+    }
+    return {
+      type: 'location',
+      latitude: location.latitude,
+      longitude: location.longitude,
+      ...(typeof location.name === 'string' ? { name: location.name } : {}),
+      ...(typeof location.address === 'string' ? { address: location.address } : {}),
+    }
+  }
+
+  if (baseType === CONTACT_MIME_TYPE) {
+    const contact = parseJsonData(data)
+    if (!contact || typeof contact.name !== 'string' || typeof contact.phone !== 'string') {
+      return null
+    }
+    return { type: 'contact', name: contact.name, phone: contact.phone }
+  }
+
+  const name = filename ?? inline.displayName ?? inline.display_name
+  return {
+    type: getOutgoingMediaType(baseType),
+    mimeType,
+    data,
+    ...(name ? { filename: name } : {}),
+  }
+}
+
+/**
+ * Returns the outbound contents of the inline data parts of an ADK event.
+ *
+ * @param parts - Parts of the event content
+ * @returns Contents in part order (malformed parts are skipped)
+ */
+export function getPartContents(parts: AdkPart[]): OutgoingContent[] {
+  return parts
+    .map((part) => part.inlineData ?? part.inline_data)
+    .filter((inline): inline is AdkInlineData => Boolean(inline))
+    .map((inline) => toOutgoingContent(inline))
+    .filter((content): content is OutgoingContent => content !== null)
+}
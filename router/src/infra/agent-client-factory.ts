@@ -1,42 +1,38 @@
 /**
  * Agent client factory implementation.
- * 
+ *
  * This module provides the infrastructure implementation of AgentClientFactory.
  * Following Clean Architecture, this is an infrastructure concern that
  * implements the core AgentClientFactory interface.
- * 
+ *
  * @module infra/agent-client-factory
  */
 
-import type { AgentClientFactory, AdkClientConfig } from '../core/agent-client.js'
-import type { AgentClient } from '../core/agent-client.js'
-import { HttpAgentClient, type HttpAgentClientConfig } from './http-agent-client.js'
+import { AgentProtocolRegistry } from '../core/agent-registry.js'
+import type { MediaStore } from '../core/media-store.js'
+import { AdkAgentProtocol } from './adk-agent-protocol.js'
+import { OpenAiAgentProtocol } from './openai-agent-protocol.js'
+import { WebhookAgentProtocol } from './webhook-agent-protocol.js'
 
 /**
- * Infrastructure implementation of AgentClientFactory.
- * 
- * This factory creates HttpAgentClient instances for ADK agents.
+ * Options for HttpAgentClientFactory.
  */
-export class HttpAgentClientFactory implements AgentClientFactory {
-  /**
-   * Creates an ADK agent client with the specified configuration.
-   * 
-   * @param config - ADK client configuration
-   * @returns A configured AgentClient instance
-   */
-  createAdkClient(config: AdkClientConfig): AgentClient {
-    const httpConfig: HttpAgentClientConfig = {
-      timeout: config.timeout ?? 30000,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      adk: {
-        appName: config.appName,
-        baseUrl: config.baseUrl,
-        sessionIdGenerator: config.sessionIdGenerator,
-      },
-    }
+export interface HttpAgentClientFactoryOptions {
+  /** Store holding downloaded media, for protocols that send attachments to agents */
+  mediaStore?: MediaStore
+}
 
-    return new HttpAgentClient(httpConfig)
+/**
+ * Infrastructure implementation of AgentClientFactory.
+ *
+ * An agent protocol registry with the built-in HTTP protocols registered.
+ * Additional protocols can be added with `register()`.
+ */
+export class HttpAgentClientFactory extends AgentProtocolRegistry {
+  constructor(options: HttpAgentClientFactoryOptions = {}) {
+    super()
+    this.register(new AdkAgentProtocol({ mediaStore: options.mediaStore }))
+    this.register(new OpenAiAgentProtocol())
+    this.register(new WebhookAgentProtocol())
   }
 }
@@ -0,0 +1,246 @@
+/**
+ * Filesystem implementation of MediaStore.
+ *
+ * This module stores media downloaded from WhatsApp as files in a local
+ * directory and serves them back to agent clients by `file://` URL.
+ * Following Clean Architecture, this is an infrastructure concern that
+ * implements the core MediaStore interface.
+ *
+ * @module infra/filesystem-media-store
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises'
+import { extname, join, relative, resolve, isAbsolute } from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { logger, isDebugMode } from '../core/logger.js'
+import type { MediaStore, SaveMediaOptions, StoredMedia } from '../core/media-store.js'
+
+/**
+ * Configuration for FileSystemMediaStore.
+ */
+export interface FileSystemMediaStoreConfig {
+  /** Directory where files are stored (default: './media') */
+  dir?: string
+  /** Maximum size in bytes of a single file (default: 16 MB) */
+  maxBytes?: number
+  /** How long files are kept, in milliseconds (default: 24 hours) */
+  retentionMs?: number
+}
+
+/**
+ * Default maximum file size: 16 MB, the WhatsApp limit for photos, audio and video.
+ */
+export const DEFAULT_MAX_MEDIA_BYTES = 16 * 1024 * 1024
+
+/**
+ * Default retention: 24 hours.
+ */
+export const DEFAULT_MEDIA_RETENTION_MS = 24 * 60 * 60 * 1000
+
+/**
+ * File extensions of common WhatsApp MIME types.
+ */
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'application/pdf': '.pdf',
+}
+
+/**
+ * Picks a file extension from the MIME type, falling back to the file name.
+ *
+ * @param mimeType - MIME type, possibly with parameters (`audio/ogg; codecs=opus`)
+ * @param filename - Original file name (optional)
+ * @returns Extension including the dot
+ */
+function getExtension(mimeType: string, filename?: string): string {
+  const known = EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()]
+  if (known) {
+    return known
+  }
+  const fromName = filename ? extname(filename).toLowerCase() : ''
+  return /^\.[a-z0-9]{1,8}$/.test(fromName) ? fromName : '.bin'
+}
+
+/**
+ * MediaStore that keeps files in a local directory.
+ *
+ * File names start with the save time so retention cleanup only needs the
+ * directory listing and file modification times.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSystemMediaStore({ dir: './media', retentionMs: 6 * 60 * 60 * 1000 })
+ * store.startCleanup()
+ * const { url } = await store.save(buffer, { messageId: 'ABC', mimeType: 'image/jpeg' })
+ * const data = await store.read(url)
+ * ```
+ */
+export class FileSystemMediaStore implements MediaStore {
+  readonly maxBytes: number
+  private dir: string
+  private retentionMs: number
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(config: FileSystemMediaStoreConfig = {}) {
+    this.dir = resolve(config.dir ?? './media')
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_MEDIA_BYTES
+    this.retentionMs = config.retentionMs ?? DEFAULT_MEDIA_RETENTION_MS
+
+    if (isDebugMode()) {
+      logger.debug('[FileSystemMediaStore] Initialized', {
+        dir: this.dir,
+        maxBytes: this.maxBytes,
+        retentionMs: this.retentionMs,
+      })
+    }
+  }
+
+  /**
+   * Saves a file in the media directory.
+   *
+   * @param data - File contents
+   * @param options - File description
+   * @returns The `file://` URL and size of the saved file
+   *
+   * @throws {Error} If the file exceeds `maxBytes` or cannot be written
+   */
+  async save(data: Buffer, options: SaveMediaOptions): Promise<StoredMedia> {
+    if (data.length > this.maxBytes) {
+      throw new Error(`Media of ${data.length} bytes exceeds the ${this.maxBytes} byte limit`)
+    }
+
+    const name = [
+      Date.now(),
+      options.messageId.replace(/[^a-zA-Z0-9_-]/g, '_'),
+      randomUUID().slice(0, 8),
+    ].join('-') + getExtension(options.mimeType, options.filename)
+    const path = join(this.dir, name)
+
+    try {
+      await mkdir(this.dir, { recursive: true })
+      await writeFile(path, data)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Failed to save media: ${errorMessage}`)
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[FileSystemMediaStore] Media saved', {
+        messageId: options.messageId,
+        mimeType: options.mimeType,
+        size: data.length,
+        path,
+      })
+    }
+
+    return { url: pathToFileURL(path).href, size: data.length }
+  }
+
+  /**
+   * Reads a file saved by this store.
+   *
+   * @param url - `file://` URL returned by `save`
+   * @returns File contents
+   *
+   * @throws {Error} If the URL points outside the media directory or the file is gone
+   */
+  async read(url: string): Promise<Buffer> {
+    let path: string
+    try {
+      path = fileURLToPath(url)
+    } catch {
+      throw new Error(`Not a media store URL: ${url}`)
+    }
+
+    const relativePath = relative(this.dir, path)
+    if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new Error(`Not a media store URL: ${url}`)
+    }
+
+    try {
+      return await readFile(path)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Failed to read media: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Deletes files older than the retention period.
+   *
+   * @param now - Current time in milliseconds (for testing)
+   * @returns Number of files deleted
+   */
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    let names: string[]
+    try {
+      names = await readdir(this.dir)
+    } catch {
+      // Nothing saved yet
+      return 0
+    }
+
+    let deleted = 0
+    for (const name of names) {
+      const path = join(this.dir, name)
+      try {
+        const info = await stat(path)
+        if (info.isFile() && now - info.mtimeMs > this.retentionMs) {
+          await rm(path, { force: true })
+          deleted++
+        }
+      } catch (error) {
+        logger.warn('[FileSystemMediaStore] Failed to purge media file', {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    if (deleted > 0) {
+      logger.info('[FileSystemMediaStore] Expired media purged', {
+        deleted,
+        retentionMs: this.retentionMs,
+      })
+    }
+
+    return deleted
+  }
+
+  /**
+   * Starts purging expired files periodically.
+   *
+   * The timer does not keep the process alive.
+   *
+   * @param intervalMs - Time between purges (default: 1 hour)
+   */
+  startCleanup(intervalMs = 60 * 60 * 1000): void {
+    this.stopCleanup()
+    this.cleanupTimer = setInterval(() => {
+      this.purgeExpired().catch((error) => {
+        logger.error('[FileSystemMediaStore] Media cleanup failed', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      })
+    }, intervalMs)
+    this.cleanupTimer.unref()
+  }
+
+  /**
+   * Stops periodic cleanup.
+   */
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+  }
+}
@@ -6,16 +6,23 @@
  * Following Clean Architecture, this is an infrastructure concern that
  * implements the core AgentClient interface.
  * 
- * Note: This is currently the only agent client implementation. Other implementations
- * (e.g., gRPC, WebSocket, or other agent protocols) can be added in the future
- * by implementing the AgentClient interface.
+ * Other protocols (e.g., OpenAI-compatible servers in openai-agent-client.ts)
+ * implement the AgentClient interface in their own modules.
  * 
  * @module infra/http-agent-client
  */
 
 import { logger, isDebugMode } from '../core/logger.js'
 import type { IncomingMessage } from '../core/models.js'
-import type { AgentClient, AgentClientConfig, AgentResponse } from '../core/agent-client.js'
+import type { MediaStore } from '../core/media-store.js'
+import type {
+  AgentClient,
+  AgentClientConfig,
+  AgentReplyPart,
+  AgentRequestOptions,
+  AgentResponse,
+} from '../core/agent-client.js'
+import { getPartContents, toOutgoingContent, type AdkPart } from './adk-content.js'
 
 /**
  * ADK-specific configuration.
@@ -27,8 +34,43 @@ export interface AdkConfig {
   baseUrl: string
   /** Optional: Custom session ID generator. Default uses from_channelId format */
   sessionIdGenerator?: (message: IncomingMessage) => string
+  /** Optional: Use POST /run_sse and deliver replies while the run is going (default: false) */
+  streaming?: boolean
+  /**
+   * Optional: What a streamed reply is (default: 'message').
+   * - 'message': each finished model event
+   * - 'sentence': sentence-sized chunks of token-level output
+   */
+  streamingChunks?: AdkStreamingChunks
+  /**
+   * Optional: Which model events of a /run response become replies (default: 'last').
+   * - 'last': only the last model event
+   * - 'all': every model event with text, each as its own message
+   */
+  replyMode?: AdkReplyMode
+  /**
+   * Optional: Sessions known to exist on the ADK server. When set, the session
+   * is looked up (and created if missing) before the first message and then
+   * remembered here, so later messages go straight to /run.
+   */
+  sessions?: AdkSessionCache
+  /**
+   * Optional: Store holding downloaded media. When set, message attachments
+   * are sent to the agent as `inline_data` parts.
+   */
+  mediaStore?: MediaStore
 }
 
+/**
+ * Granularity of streamed ADK replies.
+ */
+export type AdkStreamingChunks = 'message' | 'sentence'
+
+/**
+ * Model events of a /run response that become replies.
+ */
+export type AdkReplyMode = 'last' | 'all'
+
 /**
  * Configuration for HttpAgentClient (always requires ADK config).
  */
@@ -37,6 +79,75 @@ export interface HttpAgentClientConfig extends AgentClientConfig {
   adk: AdkConfig
 }
 
+/**
+ * Default maximum number of sessions remembered by AdkSessionCache.
+ */
+const DEFAULT_MAX_SESSIONS = 10000
+
+/**
+ * Remembers which ADK sessions are known to exist.
+ *
+ * Keys are built with `AdkSessionCache.key()`. The oldest entries are
+ * dropped once `maxSessions` is reached; a dropped session is simply looked
+ * up again on its next message.
+ */
+export class AdkSessionCache {
+  private sessions = new Set<string>()
+  private maxSessions: number
+
+  constructor(options: { maxSessions?: number } = {}) {
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS
+  }
+
+  /**
+   * Builds the cache key of a session.
+   *
+   * @param baseUrl - Base URL of the ADK server
+   * @param appName - ADK agent name
+   * @param userId - ADK user ID
+   * @param sessionId - ADK session ID
+   * @returns The cache key
+   */
+  static key(baseUrl: string, appName: string, userId: string, sessionId: string): string {
+    return [baseUrl.replace(/\/$/, ''), appName, userId, sessionId].join('|')
+  }
+
+  /**
+   * Returns whether a session is known to exist.
+   */
+  has(key: string): boolean {
+    return this.sessions.has(key)
+  }
+
+  /**
+   * Records a session as existing, dropping the oldest entry if full.
+   */
+  add(key: string): void {
+    if (this.sessions.has(key)) {
+      return
+    }
+    if (this.sessions.size >= this.maxSessions) {
+      const oldest = this.sessions.values().next().value as string
+      this.sessions.delete(oldest)
+    }
+    this.sessions.add(key)
+  }
+
+  /**
+   * Forgets a session (e.g. after the server lost it).
+   */
+  delete(key: string): void {
+    this.sessions.delete(key)
+  }
+
+  /**
+   * Number of known sessions.
+   */
+  get size(): number {
+    return this.sessions.size
+  }
+}
+
 /**
  * Default configuration for agent client.
  */
@@ -52,17 +163,139 @@ const DEFAULT_CONFIG: Required<AgentClientConfig> = {
  */
 interface AdkEvent {
   content: {
-    parts: Array<{ text?: string }>
+    parts: AdkPart[]
     role: 'user' | 'model'
   }
   invocationId: string
   author: 'user' | 'model'
+  /** Set on token-level chunks when streaming (`streaming: true` on /run_sse) */
+  partial?: boolean
   actions?: {
     stateDelta?: Record<string, unknown>
+    /** Artifact names mapped to their new version */
     artifactDelta?: Record<string, unknown>
   }
 }
 
+/**
+ * Event sent by /run_sse when the run fails.
+ */
+interface AdkErrorEvent {
+  error: string
+}
+
+/**
+ * Reads Server-Sent Events from a response body and yields their JSON data.
+ *
+ * @param body - Response body stream
+ * @param onChunk - Called whenever bytes arrive (used to reset the idle timeout)
+ * @returns Async iterator of parsed `data:` payloads
+ */
+async function* readSseEvents(
+  body: ReadableStream<Uint8Array>,
+  onChunk: () => void
+): AsyncGenerator<AdkEvent | AdkErrorEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  /**
+   * Parses one SSE block (lines up to a blank line).
+   */
+  const parseBlock = (block: string): AdkEvent | AdkErrorEvent | null => {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''))
+      .join('\n')
+    return data ? JSON.parse(data) as AdkEvent | AdkErrorEvent : null
+  }
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      onChunk()
+      buffer += decoder.decode(value, { stream: true })
+
+      const blocks = buffer.split(/\r?\n\r?\n/)
+      buffer = blocks.pop() ?? ''
+      for (const block of blocks) {
+        const event = parseBlock(block)
+        if (event) {
+          yield event
+        }
+      }
+    }
+
+    const event = parseBlock(buffer + decoder.decode())
+    if (event) {
+      yield event
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Splits streamed text after its last sentence boundary.
+ *
+ * @param text - Accumulated text
+ * @returns The complete sentences and the unfinished rest
+ */
+function splitSentences(text: string): { complete: string; rest: string } {
+  let end = 0
+  for (const match of text.matchAll(/[.!?…](?=\s)|\n/g)) {
+    end = match.index! + match[0].length
+  }
+  return { complete: text.slice(0, end), rest: text.slice(end) }
+}
+
+/**
+ * Returns the text of an ADK event.
+ */
+function getEventText(event: AdkEvent): string {
+  return (event.content?.parts ?? [])
+    .filter((p) => p.text)
+    .map((p) => p.text!)
+    .join('')
+}
+
+/**
+ * Builds the WhatsApp context sent to ADK agents in `state_delta`.
+ *
+ * The context is stored under the `whatsapp` state key so agents can
+ * personalize replies (e.g. `state["whatsapp"]["pushName"]`). Fields the
+ * provider did not supply are left out.
+ *
+ * @param message - The incoming message
+ * @returns The state delta for the run
+ */
+export function buildWhatsAppState(message: IncomingMessage): Record<string, unknown> {
+  const metadata = message.metadata ?? {}
+  const context: Record<string, unknown> = {
+    channelId: message.channelId,
+    isGroup: typeof metadata.isGroup === 'boolean' ? metadata.isGroup : message.from.endsWith('@g.us'),
+  }
+
+  for (const field of ['pushName', 'participant', 'messageType']) {
+    if (typeof metadata[field] === 'string' && metadata[field]) {
+      context[field] = metadata[field]
+    }
+  }
+
+  return { whatsapp: context }
+}
+
+/**
+ * Part of an ADK message content.
+ */
+type AdkContentPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } }
+
 /**
  * HTTP-based implementation of AgentClient for ADK agents.
  * 
@@ -116,18 +349,294 @@ export class HttpAgentClient implements AgentClient {
   /**
    * Sends a message to an ADK agent endpoint.
    * 
-   * Uses ADK format (POST /run endpoint) as specified in refs/adk_api.md.
+   * Uses ADK format (POST /run endpoint) as specified in refs/adk_api.md,
+   * or POST /run_sse when streaming is enabled.
    * 
    * @param agentEndpoint - The base URL of the ADK server
    * @param message - The incoming message to send
+   * @param options - Optional request options (`onReply` receives streamed replies)
    * @returns Promise resolving to the agent response
    * 
    * @throws {Error} If the request fails or times out
    */
-  async sendMessage(agentEndpoint: string, message: IncomingMessage): Promise<AgentResponse> {
+  async sendMessage(
+    agentEndpoint: string,
+    message: IncomingMessage,
+    options: AgentRequestOptions = {}
+  ): Promise<AgentResponse> {
+    if (this.adkConfig.streaming) {
+      return this.sendAdkStreamingMessage(agentEndpoint, message, options)
+    }
     return this.sendAdkMessage(agentEndpoint, message)
   }
 
+  /**
+   * Builds the ADK request body for a message.
+   * 
+   * @param message - The incoming message to send
+   * @param streaming - Value of the ADK `streaming` flag (token-level output)
+   * @returns Session ID, user ID, WhatsApp state and request body
+   */
+  private async buildAdkRequest(message: IncomingMessage, streaming: boolean) {
+    // Generate session ID (default: from_channelId format)
+    const sessionId = this.adkConfig.sessionIdGenerator
+      ? this.adkConfig.sessionIdGenerator(message)
+      : `${message.from}_${message.channelId}`.replace(/[^a-zA-Z0-9_]/g, '_')
+
+    // Extract user ID from message.from (remove @s.whatsapp.net suffix if present)
+    const userId = message.from.replace(/@.*$/, '').replace(/[^a-zA-Z0-9_]/g, '_')
+
+    const state = buildWhatsAppState(message)
+
+    // Build ADK request body according to adk_api.md
+    const request = {
+      app_name: this.adkConfig.appName,
+      user_id: userId,
+      session_id: sessionId,
+      new_message: {
+        parts: [{ text: message.text }, ...await this.buildMediaParts(message)] as AdkContentPart[],
+      },
+      streaming,
+      state_delta: state,
+      invocation_id: null,
+    }
+
+    return { sessionId, userId, state, request }
+  }
+
+  /**
+   * Reads the stored attachments of a message as `inline_data` parts.
+   * 
+   * Attachments that were not downloaded, or whose file can no longer be
+   * read (e.g. purged by retention), are skipped so the text still goes through.
+   * 
+   * @param message - The incoming message
+   * @returns One part per readable attachment
+   */
+  private async buildMediaParts(message: IncomingMessage): Promise<AdkContentPart[]> {
+    const mediaStore = this.adkConfig.mediaStore
+    if (!mediaStore || !message.attachments?.length) {
+      return []
+    }
+
+    const parts: AdkContentPart[] = []
+    for (const attachment of message.attachments) {
+      if (!attachment.url) {
+        continue
+      }
+
+      try {
+        const data = await mediaStore.read(attachment.url)
+        parts.push({
+          inline_data: {
+            // Drop parameters such as `codecs=opus`
+            mime_type: attachment.mimeType.split(';')[0].trim(),
+            data: data.toString('base64'),
+          },
+        })
+      } catch (error) {
+        logger.warn('[HttpAgentClient] Attachment not sent to ADK agent', {
+          messageId: message.id,
+          type: attachment.type,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    return parts
+  }
+
+  /**
+   * Makes sure an ADK session exists before running the agent.
+   *
+   * Does nothing unless a session cache is configured or when the session
+   * is already cached. Otherwise looks the session up and creates it with
+   * the WhatsApp state if the server does not have it.
+   *
+   * @param baseUrl - Base URL of ADK server
+   * @param userId - ADK user ID
+   * @param sessionId - ADK session ID
+   * @param state - Initial session state
+   * @param signal - Abort signal of the request
+   *
+   * @throws {Error} If the session cannot be looked up or created
+   */
+  private async ensureSession(
+    baseUrl: string,
+    userId: string,
+    sessionId: string,
+    state: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<void> {
+    const sessions = this.adkConfig.sessions
+    if (!sessions) {
+      return
+    }
+
+    const key = AdkSessionCache.key(baseUrl, this.adkConfig.appName, userId, sessionId)
+    if (sessions.has(key)) {
+      return
+    }
+
+    const sessionUrl = [
+      baseUrl.replace(/\/$/, ''),
+      'apps', encodeURIComponent(this.adkConfig.appName),
+      'users', encodeURIComponent(userId),
+      'sessions', encodeURIComponent(sessionId),
+    ].join('/')
+
+    const lookup = await fetch(sessionUrl, {
+      method: 'GET',
+      headers: this.config.headers,
+      signal,
+    })
+
+    if (lookup.ok) {
+      sessions.add(key)
+      return
+    }
+
+    if (lookup.status !== 404) {
+      const errorText = await lookup.text().catch(() => 'Unknown error')
+      throw new Error(`Failed to look up ADK session: ADK session endpoint returned ${lookup.status}: ${errorText}`)
+    }
+
+    const created = await fetch(sessionUrl, {
+      method: 'POST',
+      headers: this.config.headers,
+      body: JSON.stringify(state),
+      signal,
+    })
+
+    if (!created.ok) {
+      const errorText = await created.text().catch(() => 'Unknown error')
+      // Another message may have created it in the meantime
+      const exists = created.status === 409 || (created.status === 400 && /already exists/i.test(errorText))
+      if (!exists) {
+        throw new Error(`Failed to create ADK session: ADK session endpoint returned ${created.status}: ${errorText}`)
+      }
+    }
+
+    sessions.add(key)
+
+    logger.info('[HttpAgentClient] ADK session ready', {
+      baseUrl,
+      appName: this.adkConfig.appName,
+      userId,
+      sessionId,
+      created: created.ok,
+    })
+  }
+
+  /**
+   * Returns the media, locations and contacts of an ADK event as replies.
+   * 
+   * Inline data parts of model events come first, then the artifacts the
+   * event announced in `artifactDelta`, loaded from the ADK artifact API.
+   * Artifacts that cannot be loaded are logged and skipped.
+   * 
+   * @param baseUrl - Base URL of ADK server
+   * @param event - The ADK event
+   * @param ids - User ID and session ID of the run
+   * @returns Replies with `content` set and an empty caption
+   */
+  private async getEventContents(
+    baseUrl: string,
+    event: AdkEvent,
+    ids: { userId: string; sessionId: string }
+  ): Promise<AgentReplyPart[]> {
+    const contents = event.author === 'model' && !event.partial
+      ? getPartContents(event.content?.parts ?? [])
+      : []
+
+    for (const [name, version] of Object.entries(event.actions?.artifactDelta ?? {})) {
+      const artifactUrl = [
+        baseUrl.replace(/\/$/, ''),
+        'apps', encodeURIComponent(this.adkConfig.appName),
+        'users', encodeURIComponent(ids.userId),
+        'sessions', encodeURIComponent(ids.sessionId),
+        'artifacts', encodeURIComponent(name),
+      ].join('/') + (typeof version === 'number' ? `?version=${version}` : '')
+
+      try {
+        const response = await fetch(artifactUrl, {
+          method: 'GET',
+          headers: this.config.headers,
+          signal: AbortSignal.timeout(this.config.timeout),
+        })
+        if (!response.ok) {
+          throw new Error(`ADK artifact endpoint returned ${response.status}`)
+        }
+
+        const part = await response.json() as AdkPart
+        const inline = part.inlineData ?? part.inline_data
+        const content = inline ? toOutgoingContent(inline, name) : null
+        if (!content) {
+          throw new Error('Artifact has no usable inline data')
+        }
+        contents.push(content)
+      } catch (error) {
+        logger.warn('[HttpAgentClient] Failed to load ADK artifact', {
+          baseUrl,
+          artifact: name,
+          version,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    return contents.map((content) => ({ text: '', content }))
+  }
+
+  /**
+   * Posts a run request, making sure the session exists first.
+   *
+   * If the run reports a missing session although it was cached (e.g. an
+   * ADK server with in-memory sessions restarted), the session is forgotten,
+   * created again and the run retried once.
+   *
+   * @param baseUrl - Base URL of ADK server
+   * @param endpoint - Run endpoint URL (/run or /run_sse)
+   * @param init - Fetch options of the run request
+   * @param session - User ID, session ID and initial state of the session
+   * @returns The run response
+   *
+   * @throws {Error} If the session cannot be created, or on other 404 errors of a cached session
+   */
+  private async postRun(
+    baseUrl: string,
+    endpoint: string,
+    init: RequestInit & { signal: AbortSignal },
+    session: { userId: string; sessionId: string; state: Record<string, unknown> }
+  ): Promise<Response> {
+    const { userId, sessionId, state } = session
+    const sessions = this.adkConfig.sessions
+    const key = AdkSessionCache.key(baseUrl, this.adkConfig.appName, userId, sessionId)
+
+    await this.ensureSession(baseUrl, userId, sessionId, state, init.signal)
+    const response = await fetch(endpoint, init)
+
+    if (response.status !== 404 || !sessions?.has(key)) {
+      return response
+    }
+
+    // A 404 may also mean an unknown app; only a missing session is retried
+    const errorText = await response.text().catch(() => 'Unknown error')
+    if (!/session not found/i.test(errorText)) {
+      throw new Error(`ADK agent endpoint returned ${response.status}: ${errorText}`)
+    }
+
+    logger.warn('[HttpAgentClient] ADK session not found, creating it again', {
+      baseUrl,
+      appName: this.adkConfig.appName,
+      sessionId,
+    })
+
+    sessions.delete(key)
+    await this.ensureSession(baseUrl, userId, sessionId, state, init.signal)
+    return fetch(endpoint, init)
+  }
+
   /**
    * Sends a message using ADK format (POST /run endpoint).
    * 
@@ -148,26 +657,7 @@ export class HttpAgentClient implements AgentClient {
       })
     }
 
-    // Generate session ID (default: from_channelId format)
-    const sessionId = this.adkConfig!.sessionIdGenerator
-      ? this.adkConfig!.sessionIdGenerator(message)
-      : `${message.from}_${message.channelId}`.replace(/[^a-zA-Z0-9_]/g, '_')
-
-    // Extract user ID from message.from (remove @s.whatsapp.net suffix if present)
-    const userId = message.from.replace(/@.*$/, '').replace(/[^a-zA-Z0-9_]/g, '_')
-
-    // Build ADK request body according to adk_api.md
-    const adkRequest = {
-      app_name: this.adkConfig!.appName,
-      user_id: userId,
-      session_id: sessionId,
-      new_message: {
-        parts: [{ text: message.text }],
-      },
-      streaming: false,
-      state_delta: null,
-      invocation_id: null,
-    }
+    const { sessionId, userId, state, request: adkRequest } = await this.buildAdkRequest(message, false)
 
     // ADK endpoint is /run
     const adkEndpoint = `${baseUrl.replace(/\/$/, '')}/run`
@@ -176,12 +666,12 @@ export class HttpAgentClient implements AgentClient {
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
 
     try {
-      const response = await fetch(adkEndpoint, {
+      const response = await this.postRun(baseUrl, adkEndpoint, {
         method: 'POST',
         headers: this.config.headers,
         body: JSON.stringify(adkRequest),
         signal: controller.signal,
-      })
+      }, { userId, sessionId, state })
 
       clearTimeout(timeoutId)
 
@@ -197,9 +687,15 @@ export class HttpAgentClient implements AgentClient {
         throw new Error('ADK response is not an array of events')
       }
 
-      // Extract text from the last model event (author === 'model')
+      // Extract text from the model events (author === 'model')
       const modelEvents = events.filter((e) => e.author === 'model')
-      if (modelEvents.length === 0) {
+      const ids = { userId, sessionId }
+      const contentsByEvent = await Promise.all(
+        events.map((event) => this.getEventContents(baseUrl, event, ids))
+      )
+      const contents = contentsByEvent.flat()
+
+      if (modelEvents.length === 0 && contents.length === 0) {
         logger.warn('[HttpAgentClient] No model events in ADK response', {
           baseUrl,
           messageId: message.id,
@@ -211,11 +707,25 @@ export class HttpAgentClient implements AgentClient {
         }
       }
 
-      const lastEvent = modelEvents[modelEvents.length - 1]
-      const textParts = lastEvent.content.parts
-        .filter((p) => p.text)
-        .map((p) => p.text!)
-      const responseText = textParts.join('')
+      const lastEvent = modelEvents[modelEvents.length - 1] as AdkEvent | undefined
+      const lastText = lastEvent ? getEventText(lastEvent) : ''
+      const replyMode = this.adkConfig.replyMode ?? 'last'
+
+      // 'all' keeps every model event with text, in order; 'last' only the final one.
+      // Media, locations and contacts are sent in both modes.
+      let parts: AgentReplyPart[] | undefined
+      if (replyMode === 'all') {
+        parts = events.flatMap((event, index) => {
+          const text = event.author === 'model' ? getEventText(event) : ''
+          return [...(text ? [{ text }] : []), ...contentsByEvent[index]]
+        })
+      } else if (contents.length > 0) {
+        parts = [...(lastText ? [{ text: lastText }] : []), ...contents]
+      }
+
+      const responseText = parts
+        ? parts.map((part) => part.text).filter(Boolean).join('\n\n')
+        : lastText
 
       if (isDebugMode()) {
         logger.debug('[HttpAgentClient] ADK response processed', {
@@ -223,6 +733,8 @@ export class HttpAgentClient implements AgentClient {
           messageId: message.id,
           eventCount: events.length,
           modelEventCount: modelEvents.length,
+          contentCount: contents.length,
+          replyMode,
           responseLength: responseText.length,
         })
       }
@@ -237,12 +749,14 @@ export class HttpAgentClient implements AgentClient {
       return {
         success: true,
         response: responseText,
+        ...(parts ? { parts } : {}),
         metadata: {
           adk: {
             sessionId,
             userId,
             eventCount: events.length,
-            invocationId: lastEvent.invocationId,
+            invocationId: lastEvent?.invocationId ?? events[events.length - 1]?.invocationId,
+            ...(parts ? { replyCount: parts.length } : {}),
           },
         },
       }
@@ -268,6 +782,205 @@ export class HttpAgentClient implements AgentClient {
     }
   }
 
+  /**
+   * Sends a message using ADK streaming (POST /run_sse endpoint).
+   * 
+   * Replies are passed to `options.onReply` as they arrive: each finished
+   * model event, or sentence-sized chunks of token-level output when
+   * `streamingChunks` is 'sentence'. The timeout applies to inactivity on
+   * the stream rather than to the whole run, so long runs are not cut off
+   * while the agent keeps sending events.
+   * 
+   * @param baseUrl - Base URL of ADK server
+   * @param message - The incoming message to send
+   * @param options - Request options
+   * @returns Promise resolving to the agent response, with all replies joined
+   * 
+   * @throws {Error} If the request fails, the run reports an error or the stream goes idle
+   */
+  private async sendAdkStreamingMessage(
+    baseUrl: string,
+    message: IncomingMessage,
+    options: AgentRequestOptions
+  ): Promise<AgentResponse> {
+    const chunks = this.adkConfig.streamingChunks ?? 'message'
+
+    if (isDebugMode()) {
+      logger.debug('[HttpAgentClient] Sending ADK streaming message', {
+        baseUrl,
+        appName: this.adkConfig.appName,
+        messageId: message.id,
+        channelId: message.channelId,
+        from: message.from,
+        chunks,
+      })
+    }
+
+    // Token-level output is only needed to cut sentence-sized chunks
+    const { sessionId, userId, state, request: adkRequest } = await this.buildAdkRequest(message, chunks === 'sentence')
+    const adkEndpoint = `${baseUrl.replace(/\/$/, '')}/run_sse`
+
+    const controller = new AbortController()
+    let timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+    const resetTimeout = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+    }
+
+    const replies: AgentReplyPart[] = []
+    let eventCount = 0
+    let invocationId: string | undefined
+    let partialText = ''
+    let hasPartials = false
+
+    /**
+     * Records a reply and hands it to onReply.
+     */
+    const deliverReply = async (reply: AgentReplyPart) => {
+      replies.push(reply)
+      if (options.onReply) {
+        await (reply.content
+          ? options.onReply(reply.text, reply.content)
+          : options.onReply(reply.text))
+      }
+    }
+
+    /**
+     * Delivers a text reply, skipping blank text.
+     */
+    const deliver = async (text: string) => {
+      const reply = text.trim()
+      if (reply) {
+        await deliverReply({ text: reply })
+      }
+    }
+
+    /**
+     * Delivers the media, locations and contacts of an event.
+     */
+    const deliverContents = async (event: AdkEvent) => {
+      for (const reply of await this.getEventContents(baseUrl, event, { userId, sessionId })) {
+        await deliverReply(reply)
+      }
+    }
+
+    try {
+      const response = await this.postRun(baseUrl, adkEndpoint, {
+        method: 'POST',
+        headers: {
+          ...this.config.headers,
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify(adkRequest),
+        signal: controller.signal,
+      }, { userId, sessionId, state })
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error')
+        throw new Error(`ADK agent endpoint returned ${response.status}: ${errorText}`)
+      }
+
+      if (!response.body) {
+        throw new Error('ADK streaming response has no body')
+      }
+
+      for await (const event of readSseEvents(response.body, resetTimeout)) {
+        eventCount++
+
+        if ('error' in event) {
+          throw new Error(`ADK run failed: ${event.error}`)
+        }
+
+        if (event.author !== 'model') {
+          // Tool events may still announce artifacts
+          await deliverContents(event)
+          continue
+        }
+
+        invocationId = event.invocationId
+        const text = getEventText(event)
+
+        if (event.partial) {
+          // Token-level chunk: send the sentences completed so far
+          const { complete, rest } = splitSentences(partialText + text)
+          partialText = rest
+          hasPartials = true
+          await deliver(complete)
+          continue
+        }
+
+        if (hasPartials) {
+          // The final event repeats the streamed text; only the tail is new
+          await deliver(partialText)
+          partialText = ''
+          hasPartials = false
+          await deliverContents(event)
+          continue
+        }
+
+        await deliver(text)
+        await deliverContents(event)
+      }
+
+      await deliver(partialText)
+      clearTimeout(timeoutId)
+
+      if (replies.length === 0) {
+        logger.warn('[HttpAgentClient] No model events in ADK stream', {
+          baseUrl,
+          messageId: message.id,
+          eventCount,
+        })
+      }
+
+      logger.info('[HttpAgentClient] ADK streaming message sent successfully', {
+        baseUrl,
+        appName: this.adkConfig.appName,
+        messageId: message.id,
+        sessionId,
+        replyCount: replies.length,
+      })
+
+      return {
+        success: true,
+        ...(replies.length > 0
+          ? { response: replies.map((reply) => reply.text).filter(Boolean).join('\n\n') }
+          : {}),
+        parts: replies,
+        streamed: Boolean(options.onReply) && replies.length > 0,
+        metadata: {
+          adk: {
+            sessionId,
+            userId,
+            eventCount,
+            invocationId,
+            streaming: true,
+            replyCount: replies.length,
+          },
+        },
+      }
+    } catch (error) {
+      clearTimeout(timeoutId)
+
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      const isTimeout = error instanceof Error && error.name === 'AbortError'
+
+      logger.error('[HttpAgentClient] Failed to send ADK streaming message', {
+        baseUrl,
+        appName: this.adkConfig.appName,
+        messageId: message.id,
+        error: errorMessage,
+        timeout: isTimeout,
+        deliveredReplies: replies.length,
+      })
+
+      throw new Error(
+        isTimeout
+          ? `ADK stream timed out after ${this.config.timeout}ms without events`
+          : `Failed to send message to ADK agent: ${errorMessage}`
+      )
+    }
+  }
 
   /**
    * Validates that an agent endpoint URL is valid.
@@ -0,0 +1,364 @@
+/**
+ * HTTP implementation of AgentClient for OpenAI-compatible chat servers.
+ *
+ * This module provides the client for agents served behind an OpenAI-compatible
+ * `/v1/chat/completions` endpoint (vLLM, LiteLLM, Ollama, OpenAI itself, ...).
+ * These servers are stateless, so the client keeps the conversation history of
+ * each session and sends it with every request.
+ * Following Clean Architecture, this is an infrastructure concern that
+ * implements the core AgentClient interface.
+ *
+ * @module infra/openai-agent-client
+ */
+
+import { logger, isDebugMode } from '../core/logger.js'
+import type { IncomingMessage } from '../core/models.js'
+import type { AgentClient, AgentClientConfig, AgentResponse } from '../core/agent-client.js'
+
+/**
+ * A chat message in OpenAI format.
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * OpenAI-specific configuration.
+ */
+export interface OpenAiConfig {
+  /** Model name sent in the request (e.g., 'meta-llama/Llama-3.1-8B-Instruct') */
+  model: string
+  /** Optional system prompt prepended to every request */
+  systemPrompt?: string
+  /** Optional sampling temperature */
+  temperature?: number
+  /** Optional API key */
+  apiKey?: string
+  /** Header carrying the API key (default: 'Authorization', sent as `Bearer <key>`) */
+  apiKeyHeader?: string
+  /** Conversation history shared by the clients of a protocol */
+  history: ChatHistoryStore
+  /** Optional: Maximum history messages kept per session (default: the store's limit) */
+  maxHistoryMessages?: number
+  /** Optional: Custom session ID generator. Default uses from_channelId format */
+  sessionIdGenerator?: (message: IncomingMessage) => string
+}
+
+/**
+ * Configuration for OpenAiAgentClient.
+ */
+export interface OpenAiAgentClientConfig extends AgentClientConfig {
+  /** OpenAI configuration (required) */
+  openai: OpenAiConfig
+}
+
+/**
+ * Default configuration for agent client.
+ */
+const DEFAULT_CONFIG: Required<AgentClientConfig> = {
+  timeout: 30000, // 30 seconds
+  headers: {
+    'Content-Type': 'application/json',
+  },
+}
+
+/**
+ * Default API key header.
+ */
+const DEFAULT_API_KEY_HEADER = 'Authorization'
+
+/**
+ * Chat completion response (subset of the OpenAI API).
+ */
+interface ChatCompletionResponse {
+  id?: string
+  model?: string
+  choices?: Array<{
+    message?: { role?: string; content?: string | null }
+    finish_reason?: string | null
+  }>
+  usage?: Record<string, number>
+}
+
+/**
+ * Options for ChatHistoryStore.
+ */
+export interface ChatHistoryStoreOptions {
+  /** Maximum messages kept per session, oldest dropped first (default: 20) */
+  maxMessages?: number
+  /** Sessions idle for longer than this are forgotten, in milliseconds (default: 24h) */
+  ttlMs?: number
+}
+
+/**
+ * In-memory conversation history, keyed by session ID.
+ *
+ * Sessions are kept in least-recently-updated order so expired sessions can
+ * be dropped from the front of the map on every write.
+ */
+export class ChatHistoryStore {
+  private sessions = new Map<string, { messages: ChatMessage[]; updatedAt: number }>()
+  private maxMessages: number
+  private ttlMs: number
+
+  constructor(options: ChatHistoryStoreOptions = {}) {
+    this.maxMessages = options.maxMessages ?? 20
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000
+  }
+
+  /**
+   * Returns the history of a session.
+   *
+   * @param sessionId - Session ID
+   * @returns Messages in chronological order (empty for unknown or expired sessions)
+   */
+  get(sessionId: string): ChatMessage[] {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      return []
+    }
+
+    if (Date.now() - session.updatedAt > this.ttlMs) {
+      this.sessions.delete(sessionId)
+      return []
+    }
+
+    return [...session.messages]
+  }
+
+  /**
+   * Appends messages to the history of a session.
+   *
+   * @param sessionId - Session ID
+   * @param messages - Messages to append
+   * @param maxMessages - Maximum messages to keep (default: the store's limit, 0 keeps none)
+   */
+  append(sessionId: string, messages: ChatMessage[], maxMessages: number = this.maxMessages): void {
+    const now = Date.now()
+    const history = [...this.get(sessionId), ...messages]
+
+    this.sessions.delete(sessionId)
+    if (maxMessages > 0) {
+      this.sessions.set(sessionId, {
+        messages: history.slice(-maxMessages),
+        updatedAt: now,
+      })
+    }
+
+    for (const [id, session] of this.sessions) {
+      if (now - session.updatedAt <= this.ttlMs) {
+        break
+      }
+      this.sessions.delete(id)
+    }
+  }
+
+  /**
+   * Forgets the history of a session.
+   *
+   * @param sessionId - Session ID
+   */
+  clear(sessionId: string): void {
+    this.sessions.delete(sessionId)
+  }
+
+  /**
+   * Returns the number of sessions with history.
+   */
+  get size(): number {
+    return this.sessions.size
+  }
+}
+
+/**
+ * Builds the chat completions URL for an endpoint.
+ *
+ * Accepts the server root (`http://vllm:8000`), the API base
+ * (`http://vllm:8000/v1`) or the full completions URL.
+ *
+ * @param endpoint - Agent endpoint
+ * @returns The `/chat/completions` URL
+ */
+export function buildChatCompletionsUrl(endpoint: string): string {
+  const base = endpoint.replace(/\/+$/, '')
+
+  if (base.endsWith('/chat/completions')) {
+    return base
+  }
+
+  return base.endsWith('/v1') ? `${base}/chat/completions` : `${base}/v1/chat/completions`
+}
+
+/**
+ * HTTP-based implementation of AgentClient for OpenAI-compatible servers.
+ *
+ * Each incoming message is sent as a user message after the system prompt and
+ * the session history. The reply is appended to the history only when the
+ * request succeeds, so failed turns are not replayed.
+ *
+ * @example
+ * ```typescript
+ * const client = new OpenAiAgentClient({
+ *   openai: {
+ *     model: 'gpt-4o-mini',
+ *     systemPrompt: 'You are a helpful assistant.',
+ *     apiKey: process.env.OPENAI_API_KEY,
+ *     history: new ChatHistoryStore(),
+ *   }
+ * })
+ * const response = await client.sendMessage('http://localhost:4000/v1', incomingMessage)
+ * ```
+ */
+export class OpenAiAgentClient implements AgentClient {
+  private config: Required<AgentClientConfig>
+  private openaiConfig: OpenAiConfig
+
+  constructor(config: OpenAiAgentClientConfig) {
+    this.config = {
+      timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
+      headers: {
+        ...DEFAULT_CONFIG.headers,
+        ...config.headers,
+      },
+    }
+
+    this.openaiConfig = config.openai
+
+    if (this.openaiConfig.apiKey) {
+      const header = this.openaiConfig.apiKeyHeader || DEFAULT_API_KEY_HEADER
+      this.config.headers[header] = header.toLowerCase() === 'authorization'
+        ? `Bearer ${this.openaiConfig.apiKey}`
+        : this.openaiConfig.apiKey
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[OpenAiAgentClient] Initialized', {
+        timeout: this.config.timeout,
+        headers: Object.keys(this.config.headers),
+        model: this.openaiConfig.model,
+        hasSystemPrompt: Boolean(this.openaiConfig.systemPrompt),
+      })
+    }
+  }
+
+  /**
+   * Sends a message to an OpenAI-compatible chat completions endpoint.
+   *
+   * @param agentEndpoint - Server root, API base or chat completions URL
+   * @param message - The incoming message to send
+   * @returns Promise resolving to the agent response
+   *
+   * @throws {Error} If the request fails or times out
+   */
+  async sendMessage(agentEndpoint: string, message: IncomingMessage): Promise<AgentResponse> {
+    const url = buildChatCompletionsUrl(agentEndpoint)
+    const { model, systemPrompt, temperature, history } = this.openaiConfig
+
+    // Generate session ID (default: from_channelId format, as for ADK)
+    const sessionId = this.openaiConfig.sessionIdGenerator
+      ? this.openaiConfig.sessionIdGenerator(message)
+      : `${message.from}_${message.channelId}`.replace(/[^a-zA-Z0-9_]/g, '_')
+
+    const previous = history.get(sessionId)
+    const userMessage: ChatMessage = { role: 'user', content: message.text }
+    const messages: ChatMessage[] = [
+      ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+      ...previous,
+      userMessage,
+    ]
+
+    if (isDebugMode()) {
+      logger.debug('[OpenAiAgentClient] Sending chat completion', {
+        url,
+        model,
+        messageId: message.id,
+        channelId: message.channelId,
+        from: message.from,
+        sessionId,
+        historyLength: previous.length,
+      })
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.config.headers,
+        body: JSON.stringify({
+          model,
+          messages,
+          ...(temperature !== undefined ? { temperature } : {}),
+          stream: false,
+        }),
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error')
+        throw new Error(`Chat completions endpoint returned ${response.status}: ${errorText}`)
+      }
+
+      const completion = await response.json() as ChatCompletionResponse
+      const choice = completion.choices?.[0]
+
+      if (!choice) {
+        throw new Error('Chat completion response has no choices')
+      }
+
+      const responseText = choice.message?.content ?? ''
+
+      history.append(
+        sessionId,
+        responseText ? [userMessage, { role: 'assistant', content: responseText }] : [userMessage],
+        this.openaiConfig.maxHistoryMessages
+      )
+
+      logger.info('[OpenAiAgentClient] Chat completion received', {
+        url,
+        model: completion.model ?? model,
+        messageId: message.id,
+        sessionId,
+        finishReason: choice.finish_reason,
+      })
+
+      return {
+        success: true,
+        ...(responseText ? { response: responseText } : {}),
+        metadata: {
+          openai: {
+            sessionId,
+            completionId: completion.id,
+            model: completion.model ?? model,
+            finishReason: choice.finish_reason,
+            usage: completion.usage,
+            historyLength: previous.length,
+          },
+        },
+      }
+    } catch (error) {
+      clearTimeout(timeoutId)
+
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      const isTimeout = error instanceof Error && error.name === 'AbortError'
+
+      logger.error('[OpenAiAgentClient] Failed to send chat completion', {
+        url,
+        model,
+        messageId: message.id,
+        error: errorMessage,
+        timeout: isTimeout,
+      })
+
+      throw new Error(
+        isTimeout
+          ? `Chat completion request timed out after ${this.config.timeout}ms`
+          : `Failed to send message to OpenAI-compatible agent: ${errorMessage}`
+      )
+    }
+  }
+}
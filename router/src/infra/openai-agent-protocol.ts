@@ -0,0 +1,175 @@
+/**
+ * OpenAI-compatible agent protocol.
+ *
+ * This module registers agents served behind an OpenAI-compatible chat
+ * completions API (vLLM, LiteLLM, ...) with the agent protocol registry.
+ * Routes select it with `config.type: 'openai'` and configure it under
+ * `config.openai`.
+ *
+ * @module infra/openai-agent-protocol
+ */
+
+import type { Route } from '../core/models.js'
+import type { AgentClient, AgentProtocol } from '../core/agent-client.js'
+import { HttpAgentClient } from './http-agent-client.js'
+import { ChatHistoryStore, OpenAiAgentClient, type ChatHistoryStoreOptions } from './openai-agent-client.js'
+
+/**
+ * Shape of `route.config.openai`.
+ */
+export interface OpenAiRouteConfig {
+  /** Model name sent in the request */
+  model: string
+  /** Base URL of the server (defaults to the route's agentEndpoint) */
+  baseUrl?: string
+  /** System prompt prepended to every request */
+  systemPrompt?: string
+  /** Sampling temperature, between 0 and 2 */
+  temperature?: number
+  /** API key sent with every request */
+  apiKey?: string
+  /** Name of an environment variable holding the API key, starting with API_KEY_ENV_PREFIX (used when apiKey is unset) */
+  apiKeyEnv?: string
+  /** Header carrying the API key (default: 'Authorization', sent as `Bearer <key>`) */
+  apiKeyHeader?: string
+  /** Maximum history messages kept per conversation (default: 20, 0 disables history) */
+  maxHistoryMessages?: number
+}
+
+/**
+ * Default request timeout for chat completions, in milliseconds.
+ */
+const DEFAULT_TIMEOUT = 30000
+
+/**
+ * Prefix of the environment variables `config.openai.apiKeyEnv` may name.
+ *
+ * Routes are managed over HTTP, so any other name would let a caller send
+ * the router's own secrets to an agent URL of their choice.
+ */
+export const API_KEY_ENV_PREFIX = 'WA2AI_AGENT_KEY_'
+
+/**
+ * Checks that an optional config value is a non-empty string.
+ */
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || (typeof value === 'string' && value.length > 0)
+}
+
+/**
+ * Reads the API key named by `config.openai.apiKeyEnv`.
+ *
+ * Names without API_KEY_ENV_PREFIX are ignored, also for routes stored
+ * before the prefix was enforced.
+ *
+ * @param name - Environment variable name
+ * @returns The API key, or undefined if unset or not allowed
+ */
+function readApiKeyEnv(name: string | undefined): string | undefined {
+  return name?.startsWith(API_KEY_ENV_PREFIX) ? process.env[name] : undefined
+}
+
+/**
+ * Agent protocol for OpenAI-compatible servers (POST /v1/chat/completions).
+ *
+ * The conversation history lives in the protocol so it survives across the
+ * per-message clients created by the registry. Sessions are scoped to the
+ * route, so two routes serving the same chat do not share history.
+ *
+ * Configuration:
+ * - `config.openai.model` (required)
+ * - `config.openai.baseUrl` (optional, defaults to `agentEndpoint`)
+ * - `config.openai.systemPrompt`, `temperature`, `apiKey`, `apiKeyEnv`,
+ *   `apiKeyHeader`, `maxHistoryMessages` (optional)
+ *
+ * `apiKey` is a secret: it is masked in API responses.
+ */
+export class OpenAiAgentProtocol implements AgentProtocol {
+  readonly type = 'openai'
+  readonly secretKeys = ['apiKey'] as const
+  private history: ChatHistoryStore
+
+  constructor(historyOptions: ChatHistoryStoreOptions = {}) {
+    this.history = new ChatHistoryStore(historyOptions)
+  }
+
+  /**
+   * Validates `config.openai` of a route.
+   *
+   * @param route - The route to validate
+   * @returns An error message, or null if the configuration is valid
+   */
+  validateConfig(route: Route): string | null {
+    const openai = route.config?.openai as Partial<OpenAiRouteConfig> | undefined
+
+    if (typeof openai?.model !== 'string' || !openai.model) {
+      return 'OpenAI routes require config.openai.model'
+    }
+
+    if (openai.baseUrl !== undefined && (typeof openai.baseUrl !== 'string' || !HttpAgentClient.isValidEndpoint(openai.baseUrl))) {
+      return 'config.openai.baseUrl must be an http(s) URL'
+    }
+
+    if (openai.temperature !== undefined
+      && (typeof openai.temperature !== 'number' || openai.temperature < 0 || openai.temperature > 2)) {
+      return 'config.openai.temperature must be a number between 0 and 2'
+    }
+
+    if (openai.maxHistoryMessages !== undefined
+      && (!Number.isInteger(openai.maxHistoryMessages) || openai.maxHistoryMessages < 0)) {
+      return 'config.openai.maxHistoryMessages must be a non-negative integer'
+    }
+
+    for (const key of ['systemPrompt', 'apiKey', 'apiKeyEnv', 'apiKeyHeader'] as const) {
+      if (!isOptionalString(openai[key])) {
+        return `config.openai.${key} must be a non-empty string`
+      }
+    }
+
+    if (openai.apiKeyEnv !== undefined && !openai.apiKeyEnv.startsWith(API_KEY_ENV_PREFIX)) {
+      return `config.openai.apiKeyEnv must start with ${API_KEY_ENV_PREFIX}`
+    }
+
+    return null
+  }
+
+  /**
+   * Creates an OpenAiAgentClient for the route's agent.
+   *
+   * @param route - A route with a valid OpenAI configuration
+   * @returns A configured AgentClient instance
+   */
+  createClient(route: Route): AgentClient {
+    const openai = route.config!.openai as OpenAiRouteConfig
+    const scope = route.id ?? route.channelId
+
+    return new OpenAiAgentClient({
+      timeout: DEFAULT_TIMEOUT,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      openai: {
+        model: openai.model,
+        systemPrompt: openai.systemPrompt,
+        temperature: openai.temperature,
+        apiKey: openai.apiKey ?? readApiKeyEnv(openai.apiKeyEnv),
+        apiKeyHeader: openai.apiKeyHeader,
+        history: this.history,
+        maxHistoryMessages: openai.maxHistoryMessages,
+        sessionIdGenerator: (message) =>
+          `${scope}:${`${message.from}_${message.channelId}`.replace(/[^a-zA-Z0-9_]/g, '_')}`,
+      },
+    })
+  }
+
+  /**
+   * Returns the server base URL for a route.
+   *
+   * @param route - The route being served
+   * @returns `config.openai.baseUrl`, or `agentEndpoint` if unset
+   */
+  getEndpoint(route: Route): string {
+    const openai = route.config?.openai as Partial<OpenAiRouteConfig> | undefined
+    return openai?.baseUrl || route.agentEndpoint
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * PostgreSQL implementation of DedupStore.
+ *
+ * Keeps the keys of recent messages in the `processed_messages` table (see
+ * infra/schema/processed_messages.sql), so duplicates are recognized across
+ * restarts and between router instances sharing the database.
+ *
+ * @module infra/postgres-dedup-store
+ */
+
+import type { Pool } from 'pg'
+import type { DedupStore } from '../core/message-dedup.js'
+import { logger, isDebugMode } from '../core/logger.js'
+import { createPostgresPool, type PostgresConnectionConfig } from './postgres-pool.js'
+
+/**
+ * PostgreSQL implementation of DedupStore.
+ *
+ * @example
+ * ```typescript
+ * const store = new PostgresDedupStore({ host: 'localhost' })
+ * const deduplicator = new MessageDeduplicator({ store })
+ * ```
+ */
+export class PostgresDedupStore implements DedupStore {
+  private pool: Pool
+
+  constructor(config: PostgresConnectionConfig = {}) {
+    this.pool = createPostgresPool(config, 'PostgresDedupStore')
+    logger.info('[PostgresDedupStore] Initialized')
+  }
+
+  /**
+   * Records a key unless it is already recorded and not expired.
+   *
+   * The insert and the check are one statement, so concurrent deliveries
+   * cannot both record the key. Expired keys are overwritten.
+   *
+   * @param key - Message key
+   * @param ttlMs - How long the key is remembered, in milliseconds
+   * @returns true if the key was recorded
+   */
+  async add(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.query(
+      'record message',
+      `INSERT INTO processed_messages (key, expires_at)
+       VALUES ($1, CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond')
+       ON CONFLICT (key) DO UPDATE
+       SET expires_at = EXCLUDED.expires_at, created_at = CURRENT_TIMESTAMP
+       WHERE processed_messages.expires_at <= CURRENT_TIMESTAMP
+       RETURNING key`,
+      [key, ttlMs]
+    )
+    return (result.rowCount ?? 0) > 0
+  }
+
+  /**
+   * Forgets a key.
+   *
+   * @param key - Message key
+   */
+  async remove(key: string): Promise<void> {
+    await this.query('forget message', 'DELETE FROM processed_messages WHERE key = $1', [key])
+  }
+
+  /**
+   * Deletes expired keys.
+   *
+   * @returns Number of keys deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await this.query(
+      'purge expired messages',
+      'DELETE FROM processed_messages WHERE expires_at <= CURRENT_TIMESTAMP',
+      []
+    )
+    const deleted = result.rowCount ?? 0
+
+    if (isDebugMode()) {
+      logger.debug('[PostgresDedupStore] Expired messages purged', { deleted })
+    }
+
+    return deleted
+  }
+
+  /**
+   * Closes the database connection pool.
+   */
+  async close(): Promise<void> {
+    await this.pool.end()
+    logger.info('[PostgresDedupStore] Connection pool closed')
+  }
+
+  /**
+   * Runs a query, logging and wrapping its errors.
+   *
+   * @param action - What the query does, for error messages (e.g. 'record message')
+   * @param sql - SQL statement
+   * @param params - Statement parameters
+   * @returns The query result
+   *
+   * @throws {Error} "Failed to <action>: <cause>" if the query fails
+   */
+  private async query(action: string, sql: string, params: unknown[]) {
+    try {
+      return await this.pool.query(sql, params)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error(`[PostgresDedupStore] Failed to ${action}`, {
+        error: errorMessage,
+      })
+      throw new Error(`Failed to ${action}: ${errorMessage}`)
+    }
+  }
+}
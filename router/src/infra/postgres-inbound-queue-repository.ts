@@ -0,0 +1,327 @@
+/**
+ * PostgreSQL implementation of InboundQueueRepository.
+ *
+ * Stores incoming messages in the `inbound_messages` table (see
+ * infra/schema/inbound_messages.sql) until they are routed. Due messages
+ * are claimed with `FOR UPDATE SKIP LOCKED`, so a message is never routed
+ * by two workers at the same time.
+ *
+ * @module infra/postgres-inbound-queue-repository
+ */
+
+import type { Pool, QueryResultRow } from 'pg'
+import type { IncomingMessage } from '../core/models.js'
+import type {
+  InboundMessageQuery,
+  InboundMessageRecord,
+  InboundMessageStatus,
+  InboundQueueRepository,
+} from '../core/inbound-queue.js'
+import { logger, isDebugMode } from '../core/logger.js'
+import { createPostgresPool, type PostgresConnectionConfig } from './postgres-pool.js'
+
+/**
+ * Database row shape of the inbound_messages table.
+ */
+interface InboundMessageRow {
+  id: string
+  message: IncomingMessage & { timestamp: string }
+  status: InboundMessageStatus
+  attempts: number
+  next_attempt_at: Date
+  last_error: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+/**
+ * Columns selected when reading queue entries.
+ */
+const INBOUND_COLUMNS = 'id, message, status, attempts, next_attempt_at, last_error, created_at, updated_at'
+
+/**
+ * Default page size of list().
+ */
+const DEFAULT_LIST_LIMIT = 50
+
+/**
+ * Checks if a query failed because a queue entry ID is not a valid UUID.
+ *
+ * Postgres rejects such IDs (SQLSTATE 22P02) instead of matching no row;
+ * for lookups by ID they mean the entry does not exist.
+ *
+ * @param error - Error thrown by the query
+ * @returns true if the error is an invalid UUID error
+ */
+function isInvalidEntryId(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === '22P02'
+}
+
+/**
+ * PostgreSQL implementation of InboundQueueRepository.
+ *
+ * @example
+ * ```typescript
+ * const repository = new PostgresInboundQueueRepository({ host: 'localhost' })
+ * const record = await repository.add(message)
+ * const due = await repository.claimDue(10)
+ * ```
+ */
+export class PostgresInboundQueueRepository implements InboundQueueRepository {
+  private pool: Pool
+
+  constructor(config: PostgresConnectionConfig = {}) {
+    this.pool = createPostgresPool(config, 'PostgresInboundQueueRepository')
+    logger.info('[PostgresInboundQueueRepository] Initialized')
+  }
+
+  /**
+   * Stores a message as pending, due right away.
+   *
+   * @param message - The incoming message
+   * @returns The stored entry
+   */
+  async add(message: IncomingMessage): Promise<InboundMessageRecord> {
+    const result = await this.query<InboundMessageRow>(
+      'store message',
+      `INSERT INTO inbound_messages (message_id, channel_id, message)
+       VALUES ($1, $2, $3)
+       RETURNING ${INBOUND_COLUMNS}`,
+      [message.id, message.channelId, JSON.stringify(message)]
+    )
+    return this.mapRowToRecord(result.rows[0])
+  }
+
+  /**
+   * Marks due pending messages as processing and counts the attempt.
+   *
+   * @param limit - Maximum number of messages to claim
+   * @returns The claimed entries, oldest first
+   */
+  async claimDue(limit: number): Promise<InboundMessageRecord[]> {
+    const result = await this.query<InboundMessageRow>(
+      'claim due messages',
+      `UPDATE inbound_messages
+       SET status = 'processing', attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM inbound_messages
+         WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY created_at ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING ${INBOUND_COLUMNS}`,
+      [limit]
+    )
+
+    if (isDebugMode() && result.rows.length > 0) {
+      logger.debug('[PostgresInboundQueueRepository] Due messages claimed', {
+        count: result.rows.length,
+      })
+    }
+
+    // RETURNING does not keep the subquery order
+    return result.rows
+      .map((row) => this.mapRowToRecord(row))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  }
+
+  /**
+   * Marks a message as routed.
+   *
+   * @param id - Queue entry identifier
+   * @param error - Why the message was not answered, if it was not
+   */
+  async markDone(id: string, error?: string): Promise<void> {
+    await this.query(
+      'mark message as routed',
+      `UPDATE inbound_messages SET status = 'done', last_error = $2 WHERE id = $1`,
+      [id, error ?? null]
+    )
+  }
+
+  /**
+   * Records a failed attempt.
+   *
+   * @param id - Queue entry identifier
+   * @param error - Error of the attempt
+   * @param nextAttemptAt - When to retry, or null to dead-letter the message
+   */
+  async markFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    if (nextAttemptAt) {
+      await this.query(
+        'schedule message retry',
+        `UPDATE inbound_messages SET status = 'pending', last_error = $2, next_attempt_at = $3 WHERE id = $1`,
+        [id, error, nextAttemptAt]
+      )
+      return
+    }
+
+    await this.query(
+      'dead-letter message',
+      `UPDATE inbound_messages SET status = 'dead', last_error = $2 WHERE id = $1`,
+      [id, error]
+    )
+  }
+
+  /**
+   * Puts messages left in process back in the queue.
+   *
+   * @returns Number of messages requeued
+   */
+  async requeueProcessing(): Promise<number> {
+    const result = await this.query(
+      'requeue messages in process',
+      `UPDATE inbound_messages SET status = 'pending', next_attempt_at = CURRENT_TIMESTAMP
+       WHERE status = 'processing'`,
+      []
+    )
+    return result.rowCount ?? 0
+  }
+
+  /**
+   * Makes a dead-lettered message pending again, with no attempts.
+   *
+   * @param id - Queue entry identifier
+   * @returns The updated entry, or null if there is no dead-lettered message with this ID
+   */
+  async replay(id: string): Promise<InboundMessageRecord | null> {
+    try {
+      const result = await this.query<InboundMessageRow>(
+        'replay message',
+        `UPDATE inbound_messages
+         SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'dead'
+         RETURNING ${INBOUND_COLUMNS}`,
+        [id]
+      )
+      return result.rows.length > 0 ? this.mapRowToRecord(result.rows[0]) : null
+    } catch (error) {
+      if (isInvalidEntryId(error)) {
+        if (isDebugMode()) {
+          logger.debug('[PostgresInboundQueueRepository] Message not found for replay, id is not a UUID', { id })
+        }
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Finds a stored message.
+   *
+   * @param id - Queue entry identifier
+   * @returns The entry, or null if not found
+   */
+  async findById(id: string): Promise<InboundMessageRecord | null> {
+    try {
+      const result = await this.query<InboundMessageRow>(
+        'find message',
+        `SELECT ${INBOUND_COLUMNS} FROM inbound_messages WHERE id = $1`,
+        [id]
+      )
+      return result.rows.length > 0 ? this.mapRowToRecord(result.rows[0]) : null
+    } catch (error) {
+      if (isInvalidEntryId(error)) {
+        if (isDebugMode()) {
+          logger.debug('[PostgresInboundQueueRepository] Message not found, id is not a UUID', { id })
+        }
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Lists stored messages, newest first.
+   *
+   * @param query - Filters and pagination
+   * @returns Matching entries
+   */
+  async list(query: InboundMessageQuery): Promise<InboundMessageRecord[]> {
+    const params: unknown[] = [query.limit ?? DEFAULT_LIST_LIMIT, query.offset ?? 0]
+    let where = ''
+    if (query.status) {
+      params.push(query.status)
+      where = 'WHERE status = $3'
+    }
+
+    const result = await this.query<InboundMessageRow>(
+      'list messages',
+      `SELECT ${INBOUND_COLUMNS} FROM inbound_messages ${where}
+       ORDER BY created_at DESC
+       LIMIT $1 OFFSET $2`,
+      params
+    )
+    return result.rows.map((row) => this.mapRowToRecord(row))
+  }
+
+  /**
+   * Deletes routed messages stored before a date.
+   *
+   * @param before - Cut-off date
+   * @returns Number of messages deleted
+   */
+  async deleteDone(before: Date): Promise<number> {
+    const result = await this.query(
+      'delete routed messages',
+      `DELETE FROM inbound_messages WHERE status = 'done' AND created_at < $1`,
+      [before]
+    )
+    return result.rowCount ?? 0
+  }
+
+  /**
+   * Closes the database connection pool.
+   */
+  async close(): Promise<void> {
+    await this.pool.end()
+    logger.info('[PostgresInboundQueueRepository] Connection pool closed')
+  }
+
+  /**
+   * Runs a query, logging and wrapping its errors.
+   *
+   * @param action - What the query does, for error messages (e.g. 'store message')
+   * @param sql - SQL statement
+   * @param params - Statement parameters
+   * @returns The query result
+   *
+   * @throws {Error} "Failed to <action>: <cause>" if the query fails; invalid
+   *   ID errors are rethrown as is, for lookups by ID to treat as not found
+   */
+  private async query<T extends QueryResultRow = QueryResultRow>(action: string, sql: string, params: unknown[]) {
+    try {
+      return await this.pool.query<T>(sql, params)
+    } catch (error) {
+      if (isInvalidEntryId(error)) {
+        throw error
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error(`[PostgresInboundQueueRepository] Failed to ${action}`, {
+        error: errorMessage,
+      })
+      throw new Error(`Failed to ${action}: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Maps a database row to a queue entry.
+   *
+   * @param row - Database row from inbound_messages table
+   * @returns Queue entry (the message timestamp is revived as a Date)
+   */
+  private mapRowToRecord(row: InboundMessageRow): InboundMessageRecord {
+    return {
+      id: row.id,
+      message: { ...row.message, timestamp: new Date(row.message.timestamp) },
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      ...(row.last_error ? { lastError: row.last_error } : {}),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * PostgreSQL connection pool shared settings.
+ *
+ * Repositories added after PostgresRoutesRepository create their pool
+ * here, with the same defaults (the docker-compose `postgres` service).
+ *
+ * @module infra/postgres-pool
+ */
+
+import { Pool } from 'pg'
+import { logger, isDebugMode } from '../core/logger.js'
+
+/**
+ * PostgreSQL connection settings.
+ */
+export interface PostgresConnectionConfig {
+  /** PostgreSQL connection host (default: 'postgres') */
+  host?: string
+  /** PostgreSQL connection port (default: 5432) */
+  port?: number
+  /** PostgreSQL database name (default: 'evolution_lab') */
+  database?: string
+  /** PostgreSQL username (default: 'evolution') */
+  user?: string
+  /** PostgreSQL password (default: 'evolution_pass') */
+  password?: string
+  /** Connection pool configuration */
+  pool?: {
+    min?: number
+    max?: number
+    idleTimeoutMillis?: number
+  }
+}
+
+/**
+ * Default PostgreSQL connection settings.
+ */
+const DEFAULT_CONFIG = {
+  host: 'postgres',
+  port: 5432,
+  database: 'evolution_lab',
+  user: 'evolution',
+  password: 'evolution_pass',
+  pool: {
+    min: 0,
+    max: 5,
+    idleTimeoutMillis: 30000,
+  },
+} as const
+
+/**
+ * Creates a connection pool that logs errors of idle clients.
+ *
+ * @param config - Connection settings (defaults apply to unset fields)
+ * @param component - Name of the owner, used as the log prefix (e.g. 'PostgresInboundQueueRepository')
+ * @returns The pool
+ */
+export function createPostgresPool(config: PostgresConnectionConfig, component: string): Pool {
+  const pool = new Pool({
+    host: config.host ?? DEFAULT_CONFIG.host,
+    port: config.port ?? DEFAULT_CONFIG.port,
+    database: config.database ?? DEFAULT_CONFIG.database,
+    user: config.user ?? DEFAULT_CONFIG.user,
+    password: config.password ?? DEFAULT_CONFIG.password,
+    min: config.pool?.min ?? DEFAULT_CONFIG.pool.min,
+    max: config.pool?.max ?? DEFAULT_CONFIG.pool.max,
+    idleTimeoutMillis: config.pool?.idleTimeoutMillis ?? DEFAULT_CONFIG.pool.idleTimeoutMillis,
+  })
+
+  pool.on('error', (err) => {
+    logger.error(`[${component}] Unexpected error on idle client`, {
+      error: err instanceof Error ? err.message : String(err),
+    })
+  })
+
+  if (isDebugMode()) {
+    logger.debug(`[${component}] Connection pool created`, {
+      host: config.host ?? DEFAULT_CONFIG.host,
+      port: config.port ?? DEFAULT_CONFIG.port,
+      database: config.database ?? DEFAULT_CONFIG.database,
+    })
+  }
+
+  return pool
+}
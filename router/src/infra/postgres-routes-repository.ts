@@ -8,7 +8,7 @@
  * @module infra/postgres-routes-repository
  */
 
-import type { Route } from '../core/models.js'
+import type { Route, RouteMatch } from '../core/models.js'
 import type { MutableRoutesRepository } from '../core/router-service.js'
 import { logger, isDebugMode } from '../core/logger.js'
 import { Pool } from 'pg'
@@ -51,6 +51,45 @@ const DEFAULT_CONFIG = {
   },
 } as const
 
+/**
+ * Database row shape of the routes table.
+ */
+interface RouteRow {
+  id: string
+  channel_id: string
+  priority: number
+  agent_endpoint: string
+  environment: string
+  regex_filter: string | null
+  match_conditions: RouteMatch | null
+  config: Record<string, unknown> | null
+  created_at: Date
+  updated_at: Date
+}
+
+/**
+ * Columns selected when reading routes.
+ */
+const ROUTE_COLUMNS = 'id, channel_id, priority, agent_endpoint, environment, regex_filter, match_conditions, config, created_at, updated_at'
+
+/**
+ * Evaluation order for routes: ascending priority, then creation order.
+ */
+const ROUTE_ORDER = 'ORDER BY priority ASC, created_at ASC'
+
+/**
+ * Checks if a query failed because a route ID is not a valid UUID.
+ *
+ * Postgres rejects such IDs (SQLSTATE 22P02) instead of matching no row;
+ * for lookups by ID they mean the route does not exist.
+ *
+ * @param error - Error thrown by the query
+ * @returns true if the error is an invalid UUID error
+ */
+function isInvalidRouteId(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === '22P02'
+}
+
 /**
  * PostgreSQL implementation of RoutesRepository.
  * 
@@ -66,12 +105,12 @@ const DEFAULT_CONFIG = {
  *   user: 'wa2ai',
  *   password: 'password'
  * })
- * await repository.addRoute({
+ * const route = await repository.addRoute({
  *   channelId: '5491155551234',
  *   agentEndpoint: 'http://localhost:8000/agent',
  *   environment: 'lab'
  * })
- * const route = await repository.findByChannelId('5491155551234')
+ * const routes = await repository.findByChannelId('5491155551234')
  * ```
  */
 export class PostgresRoutesRepository implements MutableRoutesRepository {
@@ -151,12 +190,81 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
   }
 
   /**
-   * Finds a route by channel ID.
+   * Finds a route by its ID.
    * 
-   * @param channelId - The channel identifier
+   * @param id - The route identifier
    * @returns Promise resolving to the route if found, null otherwise
    */
-  async findByChannelId(channelId: string): Promise<Route | null> {
+  async findById(id: string): Promise<Route | null> {
+    if (isDebugMode()) {
+      logger.debug('[PostgresRoutesRepository] findById called', { id })
+    }
+
+    const client = await this.pool.connect()
+
+    if (isDebugMode()) {
+      logger.debug('[PostgresRoutesRepository] Database client acquired from pool')
+    }
+
+    try {
+      if (isDebugMode()) {
+        logger.debug('[PostgresRoutesRepository] Executing query', {
+          query: 'SELECT ... WHERE id = $1',
+          id,
+        })
+      }
+
+      const result = await client.query<RouteRow>(
+        `SELECT ${ROUTE_COLUMNS} FROM routes WHERE id = $1`,
+        [id]
+      )
+
+      if (result.rows.length === 0) {
+        if (isDebugMode()) {
+          logger.debug('[PostgresRoutesRepository] Route not found', { id })
+        }
+        return null
+      }
+
+      const route = this.mapRowToRoute(result.rows[0])
+
+      logger.info('[PostgresRoutesRepository] Route found', {
+        id,
+        channelId: route.channelId,
+        agentEndpoint: route.agentEndpoint,
+        environment: route.environment,
+      })
+
+      return route
+    } catch (error) {
+      if (isInvalidRouteId(error)) {
+        if (isDebugMode()) {
+          logger.debug('[PostgresRoutesRepository] Route not found, id is not a UUID', { id })
+        }
+        return null
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('[PostgresRoutesRepository] Error finding route by id', {
+        id,
+        error: errorMessage,
+      })
+      throw new Error(`Failed to find route: ${errorMessage}`)
+    } finally {
+      client.release()
+      if (isDebugMode()) {
+        logger.debug('[PostgresRoutesRepository] Database client released to pool')
+      }
+    }
+  }
+
+  /**
+   * Finds all routes for a channel ID, in evaluation order.
+   * 
+   * @param channelId - The channel identifier
+   * @returns Promise resolving to the channel's routes sorted by priority (empty if none)
+   */
+  async findByChannelId(channelId: string): Promise<Route[]> {
     if (isDebugMode()) {
       logger.debug('[PostgresRoutesRepository] findByChannelId called', {
         channelId,
@@ -173,21 +281,13 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
     try {
       if (isDebugMode()) {
         logger.debug('[PostgresRoutesRepository] Executing query', {
-          query: 'SELECT ... WHERE channel_id = $1',
+          query: `SELECT ... WHERE channel_id = $1 ${ROUTE_ORDER}`,
           channelId,
         })
       }
 
-      const result = await client.query<{
-        channel_id: string
-        agent_endpoint: string
-        environment: string
-        regex_filter: string | null
-        config: Record<string, unknown> | null
-        created_at: Date
-        updated_at: Date
-      }>(
-        'SELECT channel_id, agent_endpoint, environment, regex_filter, config, created_at, updated_at FROM routes WHERE channel_id = $1',
+      const result = await client.query<RouteRow>(
+        `SELECT ${ROUTE_COLUMNS} FROM routes WHERE channel_id = $1 ${ROUTE_ORDER}`,
         [channelId]
       )
 
@@ -202,35 +302,24 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
         if (isDebugMode()) {
           logger.debug('[PostgresRoutesRepository] Route not found', { channelId })
         }
-        return null
+        return []
       }
 
-      const row = result.rows[0]
-
-      if (isDebugMode()) {
-        logger.debug('[PostgresRoutesRepository] Mapping database row to Route', {
-          channelId: row.channel_id,
-          agentEndpoint: row.agent_endpoint,
-          environment: row.environment,
-        })
-      }
-
-      const route = this.mapRowToRoute(row)
+      const routes = result.rows.map((row) => this.mapRowToRoute(row))
 
-      logger.info('[PostgresRoutesRepository] Route found', {
+      logger.info('[PostgresRoutesRepository] Routes found', {
         channelId,
-        agentEndpoint: route.agentEndpoint,
-        environment: route.environment,
+        count: routes.length,
       })
 
       if (isDebugMode()) {
         logger.debug('[PostgresRoutesRepository] findByChannelId completed successfully', {
           channelId,
-          hasRoute: true,
+          routeIds: routes.map((route) => route.id),
         })
       }
 
-      return route
+      return routes
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       logger.error('[PostgresRoutesRepository] Error finding route', {
@@ -267,20 +356,12 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
     try {
       if (isDebugMode()) {
         logger.debug('[PostgresRoutesRepository] Executing query', {
-          query: 'SELECT ... ORDER BY created_at ASC',
+          query: `SELECT ... ${ROUTE_ORDER}`,
         })
       }
 
-      const result = await client.query<{
-        channel_id: string
-        agent_endpoint: string
-        environment: string
-        regex_filter: string | null
-        config: Record<string, unknown> | null
-        created_at: Date
-        updated_at: Date
-      }>(
-        'SELECT channel_id, agent_endpoint, environment, regex_filter, config, created_at, updated_at FROM routes ORDER BY created_at ASC'
+      const result = await client.query<RouteRow>(
+        `SELECT ${ROUTE_COLUMNS} FROM routes ${ROUTE_ORDER}`
       )
 
       if (isDebugMode()) {
@@ -331,16 +412,20 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
   /**
    * Adds a route to the repository.
    * 
+   * The route ID is generated by the database.
+   * 
    * @param route - The route to add
-   * @returns Promise that resolves when the route is added
+   * @returns Promise resolving to the stored route, including its ID
    */
-  async addRoute(route: Route): Promise<void> {
+  async addRoute(route: Route): Promise<Route> {
     if (isDebugMode()) {
       logger.debug('[PostgresRoutesRepository] addRoute called', {
         channelId: route.channelId,
         agentEndpoint: route.agentEndpoint,
         environment: route.environment,
+        priority: route.priority,
         hasRegexFilter: !!route.regexFilter,
+        hasMatch: !!route.match,
         hasConfig: !!route.config,
       })
     }
@@ -353,36 +438,35 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
 
     try {
       if (isDebugMode()) {
-        logger.debug('[PostgresRoutesRepository] Executing INSERT ... ON CONFLICT query', {
+        logger.debug('[PostgresRoutesRepository] Executing INSERT query', {
           channelId: route.channelId,
           agentEndpoint: route.agentEndpoint,
           environment: route.environment,
         })
       }
 
-      const result = await client.query(
-        `INSERT INTO routes (channel_id, agent_endpoint, environment, regex_filter, config)
-         VALUES ($1, $2, $3, $4, $5)
-         ON CONFLICT (channel_id) 
-         DO UPDATE SET 
-           agent_endpoint = EXCLUDED.agent_endpoint,
-           environment = EXCLUDED.environment,
-           regex_filter = EXCLUDED.regex_filter,
-           config = EXCLUDED.config,
-           updated_at = CURRENT_TIMESTAMP`,
+      const result = await client.query<RouteRow>(
+        `INSERT INTO routes (channel_id, priority, agent_endpoint, environment, regex_filter, match_conditions, config)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING ${ROUTE_COLUMNS}`,
         [
           route.channelId,
+          route.priority ?? 0,
           route.agentEndpoint,
           route.environment,
           route.regexFilter || null,
+          route.match ? JSON.stringify(route.match) : null,
           route.config ? JSON.stringify(route.config) : null,
         ]
       )
 
+      const stored = this.mapRowToRoute(result.rows[0])
+
       if (isDebugMode()) {
         logger.debug('[PostgresRoutesRepository] Query executed', {
           rowCount: result.rowCount,
-          channelId: route.channelId,
+          id: stored.id,
+          channelId: stored.channelId,
         })
       }
 
@@ -398,16 +482,14 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
       }
 
       logger.info('[PostgresRoutesRepository] Route added', {
-        channelId: route.channelId,
-        agentEndpoint: route.agentEndpoint,
-        environment: route.environment,
+        id: stored.id,
+        channelId: stored.channelId,
+        agentEndpoint: stored.agentEndpoint,
+        environment: stored.environment,
+        priority: stored.priority,
       })
 
-      if (isDebugMode()) {
-        logger.debug('[PostgresRoutesRepository] addRoute completed successfully', {
-          channelId: route.channelId,
-        })
-      }
+      return stored
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       logger.error('[PostgresRoutesRepository] Error adding route', {
@@ -425,16 +507,103 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
     }
   }
 
+  /**
+   * Updates an existing route.
+   * 
+   * @param id - The ID of the route to update
+   * @param route - The new route data
+   * @returns Promise resolving to the updated route, or null if not found
+   */
+  async updateRoute(id: string, route: Route): Promise<Route | null> {
+    if (isDebugMode()) {
+      logger.debug('[PostgresRoutesRepository] updateRoute called', {
+        id,
+        channelId: route.channelId,
+        agentEndpoint: route.agentEndpoint,
+        priority: route.priority,
+      })
+    }
+
+    const client = await this.pool.connect()
+
+    if (isDebugMode()) {
+      logger.debug('[PostgresRoutesRepository] Database client acquired from pool')
+    }
+
+    try {
+      const result = await client.query<RouteRow>(
+        `UPDATE routes SET
+           channel_id = $2,
+           priority = $3,
+           agent_endpoint = $4,
+           environment = $5,
+           regex_filter = $6,
+           match_conditions = $7,
+           config = $8
+         WHERE id = $1
+         RETURNING ${ROUTE_COLUMNS}`,
+        [
+          id,
+          route.channelId,
+          route.priority ?? 0,
+          route.agentEndpoint,
+          route.environment,
+          route.regexFilter || null,
+          route.match ? JSON.stringify(route.match) : null,
+          route.config ? JSON.stringify(route.config) : null,
+        ]
+      )
+
+      if (result.rows.length === 0) {
+        if (isDebugMode()) {
+          logger.debug('[PostgresRoutesRepository] Route not found for update', { id })
+        }
+        return null
+      }
+
+      const updated = this.mapRowToRoute(result.rows[0])
+
+      logger.info('[PostgresRoutesRepository] Route updated', {
+        id,
+        channelId: updated.channelId,
+        agentEndpoint: updated.agentEndpoint,
+        environment: updated.environment,
+        priority: updated.priority,
+      })
+
+      return updated
+    } catch (error) {
+      if (isInvalidRouteId(error)) {
+        if (isDebugMode()) {
+          logger.debug('[PostgresRoutesRepository] Route not found for update, id is not a UUID', { id })
+        }
+        return null
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('[PostgresRoutesRepository] Error updating route', {
+        id,
+        error: errorMessage,
+      })
+      throw new Error(`Failed to update route: ${errorMessage}`)
+    } finally {
+      client.release()
+      if (isDebugMode()) {
+        logger.debug('[PostgresRoutesRepository] Database client released to pool')
+      }
+    }
+  }
+
   /**
    * Removes a route from the repository.
    * 
-   * @param channelId - The channel ID of the route to remove
+   * @param id - The ID of the route to remove
    * @returns Promise that resolves to true if route was removed, false otherwise
    */
-  async removeRoute(channelId: string): Promise<boolean> {
+  async removeRoute(id: string): Promise<boolean> {
     if (isDebugMode()) {
       logger.debug('[PostgresRoutesRepository] removeRoute called', {
-        channelId,
+        id,
         cacheCount: this.routeCountCache,
       })
     }
@@ -448,13 +617,13 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
     try {
       if (isDebugMode()) {
         logger.debug('[PostgresRoutesRepository] Executing DELETE query', {
-          channelId,
+          id,
         })
       }
 
       const result = await client.query(
-        'DELETE FROM routes WHERE channel_id = $1',
-        [channelId]
+        'DELETE FROM routes WHERE id = $1',
+        [id]
       )
 
       const existed = result.rowCount !== null && result.rowCount > 0
@@ -463,7 +632,7 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
         logger.debug('[PostgresRoutesRepository] Query executed', {
           rowCount: result.rowCount,
           existed,
-          channelId,
+          id,
         })
       }
 
@@ -479,25 +648,32 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
           })
         }
 
-        logger.info('[PostgresRoutesRepository] Route removed', { channelId })
+        logger.info('[PostgresRoutesRepository] Route removed', { id })
       } else {
         if (isDebugMode()) {
-          logger.debug('[PostgresRoutesRepository] Route not found for removal', { channelId })
+          logger.debug('[PostgresRoutesRepository] Route not found for removal', { id })
         }
       }
 
       if (isDebugMode()) {
         logger.debug('[PostgresRoutesRepository] removeRoute completed', {
-          channelId,
+          id,
           existed,
         })
       }
 
       return existed
     } catch (error) {
+      if (isInvalidRouteId(error)) {
+        if (isDebugMode()) {
+          logger.debug('[PostgresRoutesRepository] Route not found for removal, id is not a UUID', { id })
+        }
+        return false
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error)
       logger.error('[PostgresRoutesRepository] Error removing route', {
-        channelId,
+        id,
         error: errorMessage,
       })
       throw new Error(`Failed to remove route: ${errorMessage}`)
@@ -685,18 +861,15 @@ export class PostgresRoutesRepository implements MutableRoutesRepository {
    * @param row - Database row from routes table
    * @returns Route domain model
    */
-  private mapRowToRoute(row: {
-    channel_id: string
-    agent_endpoint: string
-    environment: string
-    regex_filter?: string | null
-    config?: Record<string, unknown> | null
-  }): Route {
+  private mapRowToRoute(row: RouteRow): Route {
     return {
+      id: row.id,
       channelId: row.channel_id,
+      priority: row.priority,
       agentEndpoint: row.agent_endpoint,
       environment: row.environment as 'lab' | 'prod',
       regexFilter: row.regex_filter || undefined,
+      match: row.match_conditions || undefined,
       config: row.config || undefined,
     }
   }
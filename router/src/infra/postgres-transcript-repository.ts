@@ -0,0 +1,331 @@
+/**
+ * PostgreSQL implementation of TranscriptRepository.
+ *
+ * Stores conversation transcripts in the `messages` table (see
+ * infra/schema/messages.sql).
+ *
+ * @module infra/postgres-transcript-repository
+ */
+
+import type { Pool, QueryResultRow } from 'pg'
+import type {
+  ConversationQuery,
+  ConversationSummary,
+  TranscriptDirection,
+  TranscriptEntry,
+  TranscriptQuery,
+  TranscriptRecord,
+  TranscriptRepository,
+} from '../core/transcript.js'
+import { logger, isDebugMode } from '../core/logger.js'
+import { createPostgresPool, type PostgresConnectionConfig } from './postgres-pool.js'
+
+/**
+ * Database row shape of the messages table.
+ */
+interface MessageRow {
+  id: string
+  channel_id: string
+  chat_id: string
+  direction: TranscriptDirection
+  message_id: string | null
+  text: string
+  attachments: TranscriptEntry['attachments'] | null
+  content_type: string | null
+  route_id: string | null
+  agent_endpoint: string | null
+  session_id: string | null
+  latency_ms: number | null
+  success: boolean
+  error: string | null
+  timestamp: Date
+  created_at: Date
+}
+
+/**
+ * Row shape of the conversations query.
+ */
+interface ConversationRow {
+  channel_id: string
+  chat_id: string
+  message_count: number
+  last_message_at: Date
+  last_message_text: string
+  last_direction: TranscriptDirection
+  last_agent_endpoint: string | null
+  error_count: number
+}
+
+/**
+ * Columns written for each message, in insert order.
+ */
+const INSERT_COLUMNS = [
+  'channel_id',
+  'chat_id',
+  'direction',
+  'message_id',
+  'text',
+  'attachments',
+  'content_type',
+  'route_id',
+  'agent_endpoint',
+  'session_id',
+  'latency_ms',
+  'success',
+  'error',
+  'timestamp',
+]
+
+/**
+ * Default page size of list queries.
+ */
+const DEFAULT_LIST_LIMIT = 50
+
+/**
+ * PostgreSQL implementation of TranscriptRepository.
+ *
+ * @example
+ * ```typescript
+ * const repository = new PostgresTranscriptRepository({ host: 'localhost' })
+ * const transcript = new TranscriptService({ repository })
+ * ```
+ */
+export class PostgresTranscriptRepository implements TranscriptRepository {
+  private pool: Pool
+
+  constructor(config: PostgresConnectionConfig = {}) {
+    this.pool = createPostgresPool(config, 'PostgresTranscriptRepository')
+    logger.info('[PostgresTranscriptRepository] Initialized')
+  }
+
+  /**
+   * Stores messages in one statement.
+   *
+   * @param entries - Messages to store
+   */
+  async add(entries: TranscriptEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return
+    }
+
+    const params: unknown[] = []
+    const rows = entries.map((entry) => {
+      const values = [
+        entry.channelId,
+        entry.chatId,
+        entry.direction,
+        entry.messageId ?? null,
+        entry.text,
+        entry.attachments ? JSON.stringify(entry.attachments) : null,
+        entry.contentType ?? null,
+        entry.routeId ?? null,
+        entry.agentEndpoint ?? null,
+        entry.sessionId ?? null,
+        entry.latencyMs ?? null,
+        entry.success,
+        entry.error ?? null,
+        entry.timestamp,
+      ]
+      const placeholders = values.map((value) => {
+        params.push(value)
+        return `$${params.length}`
+      })
+      return `(${placeholders.join(', ')})`
+    })
+
+    await this.query(
+      'store messages',
+      `INSERT INTO messages (${INSERT_COLUMNS.join(', ')}) VALUES ${rows.join(', ')}`,
+      params
+    )
+
+    if (isDebugMode()) {
+      logger.debug('[PostgresTranscriptRepository] Messages stored', { count: entries.length })
+    }
+  }
+
+  /**
+   * Lists conversations, most recently active first.
+   *
+   * A search matches a conversation if its channel, or the chat or text of
+   * any of its messages, contains the search text.
+   *
+   * @param query - Pagination, time filter and search
+   * @returns Conversation summaries
+   */
+  async listConversations(query: ConversationQuery): Promise<ConversationSummary[]> {
+    const params: unknown[] = [query.limit ?? DEFAULT_LIST_LIMIT, query.offset ?? 0]
+    const where = this.buildTimeFilter(query, params)
+
+    let having = ''
+    if (query.search) {
+      params.push(`%${query.search.replace(/[\\%_]/g, '\\$&')}%`)
+      const pattern = `$${params.length}`
+      having = `HAVING bool_or(channel_id ILIKE ${pattern} OR chat_id ILIKE ${pattern} OR text ILIKE ${pattern})`
+    }
+
+    const result = await this.query<ConversationRow>(
+      'list conversations',
+      `SELECT channel_id,
+         (array_agg(chat_id ORDER BY timestamp DESC))[1] AS chat_id,
+         COUNT(*)::int AS message_count,
+         MAX(timestamp) AS last_message_at,
+         (array_agg(text ORDER BY timestamp DESC))[1] AS last_message_text,
+         (array_agg(direction ORDER BY timestamp DESC))[1] AS last_direction,
+         (array_agg(agent_endpoint ORDER BY timestamp DESC) FILTER (WHERE agent_endpoint IS NOT NULL))[1] AS last_agent_endpoint,
+         (COUNT(*) FILTER (WHERE NOT success))::int AS error_count
+       FROM messages
+       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+       GROUP BY channel_id
+       ${having}
+       ORDER BY last_message_at DESC
+       LIMIT $1 OFFSET $2`,
+      params
+    )
+
+    return result.rows.map((row) => ({
+      channelId: row.channel_id,
+      chatId: row.chat_id,
+      messageCount: row.message_count,
+      lastMessageAt: row.last_message_at,
+      lastMessageText: row.last_message_text,
+      lastDirection: row.last_direction,
+      ...(row.last_agent_endpoint ? { lastAgentEndpoint: row.last_agent_endpoint } : {}),
+      errorCount: row.error_count,
+    }))
+  }
+
+  /**
+   * Lists the messages of a conversation, newest first.
+   *
+   * @param channelId - Channel/group identifier
+   * @param query - Pagination and time filter
+   * @returns Stored messages
+   */
+  async listMessages(channelId: string, query: TranscriptQuery): Promise<TranscriptRecord[]> {
+    const params: unknown[] = [query.limit ?? DEFAULT_LIST_LIMIT, query.offset ?? 0, channelId]
+    const where = ['channel_id = $3', ...this.buildTimeFilter(query, params)]
+
+    const result = await this.query<MessageRow>(
+      'list messages',
+      `SELECT id, ${INSERT_COLUMNS.join(', ')}, created_at
+       FROM messages
+       WHERE ${where.join(' AND ')}
+       ORDER BY timestamp DESC, created_at DESC
+       LIMIT $1 OFFSET $2`,
+      params
+    )
+    return result.rows.map((row) => this.mapRowToRecord(row))
+  }
+
+  /**
+   * Finds the latest message of an agent session.
+   *
+   * @param sessionId - Agent session ID
+   * @returns The latest message, or null if none is stored for the session
+   */
+  async findLatestBySession(sessionId: string): Promise<TranscriptRecord | null> {
+    const result = await this.query<MessageRow>(
+      'find session',
+      `SELECT id, ${INSERT_COLUMNS.join(', ')}, created_at
+       FROM messages
+       WHERE session_id = $1
+       ORDER BY timestamp DESC, created_at DESC
+       LIMIT 1`,
+      [sessionId]
+    )
+    return result.rows[0] ? this.mapRowToRecord(result.rows[0]) : null
+  }
+
+  /**
+   * Deletes messages received or sent before a date.
+   *
+   * @param before - Cut-off date
+   * @returns Number of messages deleted
+   */
+  async deleteBefore(before: Date): Promise<number> {
+    const result = await this.query(
+      'delete old messages',
+      'DELETE FROM messages WHERE timestamp < $1',
+      [before]
+    )
+    return result.rowCount ?? 0
+  }
+
+  /**
+   * Closes the database connection pool.
+   */
+  async close(): Promise<void> {
+    await this.pool.end()
+    logger.info('[PostgresTranscriptRepository] Connection pool closed')
+  }
+
+  /**
+   * Builds the conditions of a time filter, adding their parameters.
+   *
+   * @param query - Query with `since` and `until`
+   * @param params - Statement parameters (appended to)
+   * @returns SQL conditions
+   */
+  private buildTimeFilter(query: TranscriptQuery, params: unknown[]): string[] {
+    const conditions: string[] = []
+    if (query.since) {
+      params.push(query.since)
+      conditions.push(`timestamp >= $${params.length}`)
+    }
+    if (query.until) {
+      params.push(query.until)
+      conditions.push(`timestamp < $${params.length}`)
+    }
+    return conditions
+  }
+
+  /**
+   * Runs a query, logging and wrapping its errors.
+   *
+   * @param action - What the query does, for error messages (e.g. 'store messages')
+   * @param sql - SQL statement
+   * @param params - Statement parameters
+   * @returns The query result
+   *
+   * @throws {Error} "Failed to <action>: <cause>" if the query fails
+   */
+  private async query<T extends QueryResultRow = QueryResultRow>(action: string, sql: string, params: unknown[]) {
+    try {
+      return await this.pool.query<T>(sql, params)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error(`[PostgresTranscriptRepository] Failed to ${action}`, {
+        error: errorMessage,
+      })
+      throw new Error(`Failed to ${action}: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Maps a database row to a transcript record.
+   *
+   * @param row - Database row from messages table
+   * @returns Transcript record (unset columns are left out)
+   */
+  private mapRowToRecord(row: MessageRow): TranscriptRecord {
+    return {
+      id: row.id,
+      channelId: row.channel_id,
+      chatId: row.chat_id,
+      direction: row.direction,
+      ...(row.message_id ? { messageId: row.message_id } : {}),
+      text: row.text,
+      ...(row.attachments ? { attachments: row.attachments } : {}),
+      ...(row.content_type ? { contentType: row.content_type } : {}),
+      ...(row.route_id ? { routeId: row.route_id } : {}),
+      ...(row.agent_endpoint ? { agentEndpoint: row.agent_endpoint } : {}),
+      ...(row.session_id ? { sessionId: row.session_id } : {}),
+      ...(row.latency_ms !== null ? { latencyMs: row.latency_ms } : {}),
+      success: row.success,
+      ...(row.error ? { error: row.error } : {}),
+      timestamp: row.timestamp,
+      createdAt: row.created_at,
+    }
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * HTTP implementation of AgentClient for generic JSON webhooks.
+ *
+ * This module provides the client for HTTP bots that accept a JSON request
+ * and return JSON, without following the ADK or OpenAI formats. The request
+ * body is built from a template over IncomingMessage fields and the reply is
+ * extracted from the response with a JSON path, so new bots can be connected
+ * through route configuration alone.
+ * Following Clean Architecture, this is an infrastructure concern that
+ * implements the core AgentClient interface.
+ *
+ * @module infra/webhook-agent-client
+ */
+
+import { logger, isDebugMode } from '../core/logger.js'
+import type { IncomingMessage } from '../core/models.js'
+import type { AgentClient, AgentClientConfig, AgentResponse } from '../core/agent-client.js'
+
+/**
+ * HTTP methods supported for webhook requests.
+ */
+export const WEBHOOK_METHODS = ['POST', 'PUT', 'PATCH'] as const
+
+/**
+ * HTTP method of a webhook request.
+ */
+export type WebhookMethod = typeof WEBHOOK_METHODS[number]
+
+/**
+ * Default request body template: the whole message.
+ */
+export const DEFAULT_BODY_TEMPLATE = {
+  id: '{{id}}',
+  from: '{{from}}',
+  channelId: '{{channelId}}',
+  text: '{{text}}',
+  timestamp: '{{timestamp}}',
+  metadata: '{{metadata}}',
+}
+
+/**
+ * Default JSON path of the reply in the response.
+ */
+export const DEFAULT_RESPONSE_PATH = '$.response'
+
+/**
+ * Webhook-specific configuration.
+ */
+export interface WebhookConfig {
+  /** HTTP method (default: POST) */
+  method?: WebhookMethod
+  /** Request body template (default: DEFAULT_BODY_TEMPLATE) */
+  bodyTemplate?: unknown
+  /** JSON path of the reply text in the response (default: '$.response') */
+  responsePath?: string
+}
+
+/**
+ * Configuration for WebhookAgentClient.
+ */
+export interface WebhookAgentClientConfig extends AgentClientConfig {
+  /** Webhook configuration */
+  webhook?: WebhookConfig
+}
+
+/**
+ * Default configuration for agent client.
+ */
+const DEFAULT_CONFIG: Required<AgentClientConfig> = {
+  timeout: 30000, // 30 seconds
+  headers: {
+    'Content-Type': 'application/json',
+  },
+}
+
+/**
+ * Matches `{{ field.path }}` placeholders in template strings.
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.]+)\s*\}\}/g
+
+/**
+ * Matches a template string that is a single placeholder.
+ */
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([A-Za-z0-9_.]+)\s*\}\}$/
+
+/**
+ * Resolves a dotted field path (e.g. `metadata.pushName`) over a message.
+ *
+ * @param message - The incoming message
+ * @param path - Dotted field path
+ * @returns The field value, or undefined if any segment is missing
+ */
+function resolveMessageField(message: IncomingMessage, path: string): unknown {
+  const root: Record<string, unknown> = {
+    ...message,
+    timestamp: message.timestamp instanceof Date ? message.timestamp.toISOString() : message.timestamp,
+  }
+
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') {
+      return undefined
+    }
+    return (value as Record<string, unknown>)[key]
+  }, root)
+}
+
+/**
+ * Renders a request body template over a message.
+ *
+ * Strings that are a single placeholder (`"{{metadata}}"`) are replaced with
+ * the raw field value, keeping objects, numbers and booleans. Placeholders
+ * inside longer strings are interpolated as text. Missing fields render as
+ * null (single placeholder) or an empty string (interpolated).
+ *
+ * @param template - JSON template (object, array, string or scalar)
+ * @param message - The incoming message
+ * @returns The rendered body
+ */
+export function renderBodyTemplate(template: unknown, message: IncomingMessage): unknown {
+  if (typeof template === 'string') {
+    const single = template.match(SINGLE_PLACEHOLDER_PATTERN)
+    if (single) {
+      return resolveMessageField(message, single[1]) ?? null
+    }
+
+    return template.replace(PLACEHOLDER_PATTERN, (_placeholder, path: string) => {
+      const value = resolveMessageField(message, path)
+      if (value === undefined || value === null) {
+        return ''
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+    })
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => renderBodyTemplate(item, message))
+  }
+
+  if (template !== null && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderBodyTemplate(value, message)])
+    )
+  }
+
+  return template
+}
+
+/**
+ * Parses a JSON path such as `$.reply.text`, `$.choices[0].text` or
+ * `$['reply-text']` into its segments.
+ *
+ * Only member and index access are supported (no wildcards or filters).
+ *
+ * @param path - JSON path starting with `$`
+ * @returns Path segments, or null if the path is invalid
+ */
+export function parseJsonPath(path: string): Array<string | number> | null {
+  if (!path.startsWith('$')) {
+    return null
+  }
+
+  const segments: Array<string | number> = []
+  const tokenPattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y
+  tokenPattern.lastIndex = 1
+
+  while (tokenPattern.lastIndex < path.length) {
+    const token = tokenPattern.exec(path)
+    if (!token) {
+      return null
+    }
+    segments.push(token[2] !== undefined ? Number(token[2]) : (token[1] ?? token[3] ?? token[4]))
+  }
+
+  return segments
+}
+
+/**
+ * Reads the value at a JSON path.
+ *
+ * @param value - Parsed JSON document
+ * @param path - JSON path starting with `$`
+ * @returns The value, or undefined if the path does not resolve
+ *
+ * @throws {Error} If the path is invalid
+ */
+export function extractJsonPath(value: unknown, path: string): unknown {
+  const segments = parseJsonPath(path)
+  if (!segments) {
+    throw new Error(`Invalid JSON path: ${path}`)
+  }
+
+  return segments.reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') {
+      return undefined
+    }
+    return (current as Record<string | number, unknown>)[segment]
+  }, value)
+}
+
+/**
+ * HTTP-based implementation of AgentClient for generic JSON webhooks.
+ *
+ * @example
+ * ```typescript
+ * const client = new WebhookAgentClient({
+ *   headers: { 'X-Api-Key': 'secret' },
+ *   webhook: {
+ *     bodyTemplate: { user: '{{from}}', message: '{{text}}' },
+ *     responsePath: '$.reply.text',
+ *   }
+ * })
+ * const response = await client.sendMessage('https://bots.internal/support', incomingMessage)
+ * ```
+ */
+export class WebhookAgentClient implements AgentClient {
+  private config: Required<AgentClientConfig>
+  private webhookConfig: Required<WebhookConfig>
+
+  constructor(config: WebhookAgentClientConfig = {}) {
+    this.config = {
+      timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
+      headers: {
+        ...DEFAULT_CONFIG.headers,
+        ...config.headers,
+      },
+    }
+
+    this.webhookConfig = {
+      method: config.webhook?.method ?? 'POST',
+      bodyTemplate: config.webhook?.bodyTemplate ?? DEFAULT_BODY_TEMPLATE,
+      responsePath: config.webhook?.responsePath ?? DEFAULT_RESPONSE_PATH,
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[WebhookAgentClient] Initialized', {
+        timeout: this.config.timeout,
+        headers: Object.keys(this.config.headers),
+        method: this.webhookConfig.method,
+        responsePath: this.webhookConfig.responsePath,
+      })
+    }
+  }
+
+  /**
+   * Sends a message to a JSON webhook.
+   *
+   * @param agentEndpoint - The webhook URL
+   * @param message - The incoming message to send
+   * @returns Promise resolving to the agent response
+   *
+   * @throws {Error} If the request fails, times out or the reply is not text
+   */
+  async sendMessage(agentEndpoint: string, message: IncomingMessage): Promise<AgentResponse> {
+    const { method, bodyTemplate, responsePath } = this.webhookConfig
+    const body = renderBodyTemplate(bodyTemplate, message)
+
+    if (isDebugMode()) {
+      logger.debug('[WebhookAgentClient] Sending webhook request', {
+        url: agentEndpoint,
+        method,
+        messageId: message.id,
+        channelId: message.channelId,
+        from: message.from,
+      })
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+
+    try {
+      const response = await fetch(agentEndpoint, {
+        method,
+        headers: this.config.headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error')
+        throw new Error(`Webhook returned ${response.status}: ${errorText}`)
+      }
+
+      const data = await response.json() as unknown
+      const reply = extractJsonPath(data, responsePath)
+
+      if (reply !== undefined && reply !== null && typeof reply === 'object') {
+        throw new Error(`Response path ${responsePath} did not resolve to text`)
+      }
+
+      if (reply === undefined || reply === null || reply === '') {
+        logger.warn('[WebhookAgentClient] No reply at response path', {
+          url: agentEndpoint,
+          messageId: message.id,
+          responsePath,
+        })
+        return {
+          success: true,
+          // No response text
+        }
+      }
+
+      logger.info('[WebhookAgentClient] Webhook message sent successfully', {
+        url: agentEndpoint,
+        method,
+        messageId: message.id,
+      })
+
+      return {
+        success: true,
+        response: String(reply),
+        metadata: {
+          webhook: {
+            status: response.status,
+            responsePath,
+          },
+        },
+      }
+    } catch (error) {
+      clearTimeout(timeoutId)
+
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      const isTimeout = error instanceof Error && error.name === 'AbortError'
+
+      logger.error('[WebhookAgentClient] Failed to send webhook request', {
+        url: agentEndpoint,
+        method,
+        messageId: message.id,
+        error: errorMessage,
+        timeout: isTimeout,
+      })
+
+      throw new Error(
+        isTimeout
+          ? `Webhook request timed out after ${this.config.timeout}ms`
+          : `Failed to send message to webhook agent: ${errorMessage}`
+      )
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Generic JSON webhook agent protocol.
+ *
+ * This module registers plain HTTP bots that accept and return JSON with the
+ * agent protocol registry. Routes select it with `config.type: 'webhook'` and
+ * configure it under `config.webhook`.
+ *
+ * @module infra/webhook-agent-protocol
+ */
+
+import type { Route } from '../core/models.js'
+import type { AgentClient, AgentProtocol } from '../core/agent-client.js'
+import { HttpAgentClient } from './http-agent-client.js'
+import {
+  WEBHOOK_METHODS,
+  WebhookAgentClient,
+  parseJsonPath,
+  type WebhookMethod,
+} from './webhook-agent-client.js'
+
+/**
+ * Shape of `route.config.webhook`.
+ */
+export interface WebhookRouteConfig {
+  /** Webhook URL (defaults to the route's agentEndpoint) */
+  url?: string
+  /** HTTP method: POST (default), PUT or PATCH */
+  method?: WebhookMethod
+  /** Extra request headers */
+  headers?: Record<string, string>
+  /** Request body template with `{{field}}` placeholders over IncomingMessage */
+  bodyTemplate?: unknown
+  /** JSON path of the reply text in the response (default: '$.response') */
+  responsePath?: string
+  /** Request timeout in milliseconds (default: 30000) */
+  timeoutMs?: number
+}
+
+/**
+ * Default request timeout for webhooks, in milliseconds.
+ */
+const DEFAULT_TIMEOUT = 30000
+
+/**
+ * Agent protocol for generic JSON webhooks.
+ *
+ * Configuration (all optional):
+ * - `config.webhook.url` (defaults to `agentEndpoint`)
+ * - `config.webhook.method`, `headers`, `bodyTemplate`, `responsePath`, `timeoutMs`
+ */
+export class WebhookAgentProtocol implements AgentProtocol {
+  readonly type = 'webhook'
+
+  /**
+   * Validates `config.webhook` of a route.
+   *
+   * @param route - The route to validate
+   * @returns An error message, or null if the configuration is valid
+   */
+  validateConfig(route: Route): string | null {
+    const webhook = route.config?.webhook as Partial<WebhookRouteConfig> | undefined
+
+    if (webhook === undefined) {
+      return null
+    }
+
+    if (webhook === null || typeof webhook !== 'object' || Array.isArray(webhook)) {
+      return 'config.webhook must be an object'
+    }
+
+    if (webhook.url !== undefined && (typeof webhook.url !== 'string' || !HttpAgentClient.isValidEndpoint(webhook.url))) {
+      return 'config.webhook.url must be an http(s) URL'
+    }
+
+    if (webhook.method !== undefined && !(WEBHOOK_METHODS as readonly unknown[]).includes(webhook.method)) {
+      return `config.webhook.method must be one of: ${WEBHOOK_METHODS.join(', ')}`
+    }
+
+    if (webhook.headers !== undefined && (
+      webhook.headers === null
+      || typeof webhook.headers !== 'object'
+      || Array.isArray(webhook.headers)
+      || Object.values(webhook.headers).some((value) => typeof value !== 'string')
+    )) {
+      return 'config.webhook.headers must be an object of string values'
+    }
+
+    if (webhook.responsePath !== undefined
+      && (typeof webhook.responsePath !== 'string' || !parseJsonPath(webhook.responsePath))) {
+      return 'config.webhook.responsePath must be a JSON path such as $.reply.text'
+    }
+
+    if (webhook.timeoutMs !== undefined && (!Number.isInteger(webhook.timeoutMs) || webhook.timeoutMs <= 0)) {
+      return 'config.webhook.timeoutMs must be a positive integer'
+    }
+
+    return null
+  }
+
+  /**
+   * Creates a WebhookAgentClient for the route's webhook.
+   *
+   * @param route - A route with a valid webhook configuration
+   * @returns A configured AgentClient instance
+   */
+  createClient(route: Route): AgentClient {
+    const webhook = (route.config?.webhook ?? {}) as WebhookRouteConfig
+
+    return new WebhookAgentClient({
+      timeout: webhook.timeoutMs ?? DEFAULT_TIMEOUT,
+      headers: {
+        'Content-Type': 'application/json',
+        ...webhook.headers,
+      },
+      webhook: {
+        method: webhook.method,
+        bodyTemplate: webhook.bodyTemplate,
+        responsePath: webhook.responsePath,
+      },
+    })
+  }
+
+  /**
+   * Returns the webhook URL for a route.
+   *
+   * @param route - The route being served
+   * @returns `config.webhook.url`, or `agentEndpoint` if unset
+   */
+  getEndpoint(route: Route): string {
+    const webhook = route.config?.webhook as Partial<WebhookRouteConfig> | undefined
+    return webhook?.url || route.agentEndpoint
+  }
+}
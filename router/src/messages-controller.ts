@@ -0,0 +1,170 @@
+/**
+ * Messages controller - HTTP endpoint for sending messages.
+ *
+ * This module lets operators write in a chat from the dashboard, or any
+ * client push a message, through the configured WhatsApp provider. It only
+ * handles HTTP concerns; sending and recording is done by MessageSender.
+ */
+
+import type { FastifyInstance } from 'fastify'
+import { logger, isDebugMode } from './core/logger.js'
+import type { MessageSender } from './core/message-sender.js'
+import type { TakeoverService } from './core/takeover.js'
+
+/**
+ * Body of POST /api/messages.
+ */
+interface SendMessageBody {
+  /** Recipient: chat JID (e.g. `5491155551234@s.whatsapp.net`) or phone number, resolved to the provider's chat ID */
+  to: string
+  /** Channel/group identifier (the conversation) */
+  channelId: string
+  /** Message text */
+  text: string
+  /** Message to reply to, shown as a quote (optional) */
+  quoted?: {
+    /** Provider message ID */
+    id: string
+    /** Text of the quoted message (some providers show it in the quote) */
+    text?: string
+    /** Group member who sent the quoted message (group chats only) */
+    participant?: string
+  }
+  /** Whether to pause the agent in the chat, as when an operator writes from the phone (default: true) */
+  pauseAgent?: boolean
+}
+
+/**
+ * Error response payload for an invalid message body.
+ */
+interface MessageValidationError {
+  error: string
+  code: string
+  details: {
+    field: string
+    value: unknown
+    message: string
+  }
+}
+
+/**
+ * Validates the body of POST /api/messages.
+ *
+ * @param body - Request body
+ * @returns A validation error payload, or null if the body is valid
+ */
+function validateMessage(body: Partial<SendMessageBody>): MessageValidationError | null {
+  const invalid = (field: string, value: unknown, message: string): MessageValidationError => ({
+    error: `Invalid message: ${message}`,
+    code: 'INVALID_MESSAGE',
+    details: { field, value, message },
+  })
+
+  for (const field of ['to', 'channelId', 'text'] as const) {
+    const value = body[field]
+    if (typeof value !== 'string' || !value.trim()) {
+      return invalid(field, value, `${field} must be a non-empty string`)
+    }
+  }
+
+  if (body.quoted !== undefined && (typeof body.quoted?.id !== 'string' || !body.quoted.id)) {
+    return invalid('quoted.id', body.quoted?.id, 'quoted.id must be a non-empty string')
+  }
+
+  if (body.pauseAgent !== undefined && typeof body.pauseAgent !== 'boolean') {
+    return invalid('pauseAgent', body.pauseAgent, 'pauseAgent must be a boolean')
+  }
+
+  return null
+}
+
+/**
+ * Registers message endpoints on the Fastify instance.
+ *
+ * - POST /api/messages - Send a message through the WhatsApp provider
+ *
+ * @param app - Fastify application instance
+ * @param sender - Message sender
+ * @param takeover - Takeover service, to pause the agent in the chat (optional)
+ */
+export function registerMessageEndpoints(
+  app: FastifyInstance,
+  sender: MessageSender,
+  takeover?: TakeoverService
+): void {
+  /**
+   * POST /api/messages - Send a message.
+   *
+   * Body: { to, channelId, text, quoted?, pauseAgent? }
+   */
+  app.post<{ Body: SendMessageBody | undefined }>('/api/messages', async (request, reply) => {
+    const body = request.body ?? {}
+    const validationError = validateMessage(body)
+    if (validationError) {
+      logger.warn('[MessagesController] Invalid message provided', {
+        code: validationError.code,
+        field: validationError.details.field,
+        error: validationError.details.message,
+      })
+      reply.code(400).send({ success: false, ...validationError })
+      return
+    }
+
+    const { channelId, text, quoted, pauseAgent = true } = body as SendMessageBody
+    const to = sender.resolveChatId((body as SendMessageBody).to)
+
+    // Paused before sending, so a reply the agent is preparing is dropped
+    const previousPause = takeover?.getPause(to) ?? null
+    const pause = takeover && pauseAgent ? takeover.pause(to, 'api') : undefined
+
+    if (isDebugMode()) {
+      logger.debug('[MessagesController] Sending message', {
+        to,
+        channelId,
+        textLength: text.length,
+        quoted: Boolean(quoted),
+        paused: Boolean(pause),
+      })
+    }
+
+    const result = await sender.send({
+      to,
+      channelId,
+      text,
+      ...(quoted
+        ? {
+          quoted: {
+            id: quoted.id,
+            text: quoted.text ?? '',
+            ...(quoted.participant ? { participant: quoted.participant } : {}),
+          },
+        }
+        : {}),
+    })
+
+    if (!result.delivered) {
+      // Nothing reached the chat, so it goes back to how it was
+      if (pause && previousPause) {
+        takeover?.restore(previousPause)
+      } else if (pause) {
+        takeover?.resume(to)
+      }
+      reply.code(502).send({
+        success: false,
+        error: `Failed to send message: ${result.error}`,
+        code: 'DELIVERY_FAILED',
+        data: result,
+      })
+      return
+    }
+
+    reply.code(200).send({
+      success: true,
+      message: 'Message sent',
+      data: {
+        ...result,
+        ...(pause ? { pause } : {}),
+      },
+    })
+  })
+}
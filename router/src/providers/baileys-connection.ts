@@ -11,6 +11,9 @@ import makeWASocket, {
   DisconnectReason,
   useMultiFileAuthState,
   type WASocket,
+  type WAMessage,
+  type AnyMessageContent,
+  type WAPresence,
   type ConnectionState,
   type proto,
 } from '@whiskeysockets/baileys'
@@ -19,9 +22,11 @@ import * as qrcode from 'qrcode'
 import { rm } from 'fs/promises'
 import { logger, isDebugMode } from '../core/logger.js'
 import type { IncomingMessage } from '../core/models.js'
+import type { MediaStore } from '../core/media-store.js'
 import type { MessageFilterOptions, MessageHandlerCallback } from '../core/message-handler.js'
 import { DEFAULT_MESSAGE_FILTER_OPTIONS } from '../core/message-handler.js'
 import { processBaileysMessages } from './baileys-message-adapter.js'
+import { downloadBaileysAttachments } from './baileys-media.js'
 
 /**
  * Connection status for the Baileys service.
@@ -107,8 +112,28 @@ export interface BaileysConnectionConfig {
   onMessage?: MessageHandlerCallback
   /** Message filter options */
   messageFilter?: MessageFilterOptions
+  /** Where media of incoming messages is downloaded (media is not downloaded if unset) */
+  mediaStore?: MediaStore
 }
 
+/**
+ * Options for sending a message.
+ */
+export interface BaileysSendOptions {
+  /** ID of a recently received message to quote (sent unquoted if it is no longer cached) */
+  quotedMessageId?: string
+}
+
+/**
+ * How long received messages are kept for quoting, in milliseconds.
+ */
+const QUOTED_MESSAGE_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Maximum number of received messages kept for quoting.
+ */
+const MAX_QUOTED_MESSAGES = 1000
+
 /**
  * Service that manages the Baileys WhatsApp connection.
  * 
@@ -141,13 +166,16 @@ export class BaileysConnectionService {
   private lastError: string | null = null
   private lastDisconnectReason: number | null = null
   private needsCredentialsClear = false
-  private config: Required<Omit<BaileysConnectionConfig, 'onStateChange' | 'onMessage'>> & { 
+  private config: Required<Omit<BaileysConnectionConfig, 'onStateChange' | 'onMessage' | 'mediaStore'>> & { 
     onStateChange?: ConnectionStateCallback
     onMessage?: MessageHandlerCallback
+    mediaStore?: MediaStore
   }
   private reconnectAttempts = 0
   private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null
   private messageHandlers: MessageHandlerCallback[] = []
+  /** Recently received messages by ID, oldest first, so replies can quote them */
+  private recentMessages = new Map<string, { message: WAMessage; receivedAt: number }>()
 
   constructor(config: BaileysConnectionConfig = {}) {
     this.config = {
@@ -157,6 +185,7 @@ export class BaileysConnectionService {
       messageFilter: config.messageFilter ?? DEFAULT_MESSAGE_FILTER_OPTIONS,
       onStateChange: config.onStateChange,
       onMessage: config.onMessage,
+      mediaStore: config.mediaStore,
     }
     
     // Register initial message handler if provided
@@ -274,7 +303,7 @@ export class BaileysConnectionService {
     }
 
     // Process and normalize messages
-    const normalizedMessages = processBaileysMessages(messages, this.config.messageFilter)
+    const normalizedMessages = processBaileysMessages(messages, this.config.messageFilter, this.getBotJids())
 
     if (normalizedMessages.length === 0) {
       if (isDebugMode()) {
@@ -287,10 +316,113 @@ export class BaileysConnectionService {
       count: normalizedMessages.length,
     })
 
-    // Call all registered message handlers
+    // Handlers are started in order but not awaited one by one, so a slow
+    // agent in one chat does not hold up the others (ordering within a chat
+    // is kept by the handler, e.g. MessageRouter's conversation queue)
+    const dispatches: Promise<void>[] = []
     for (const message of normalizedMessages) {
-      await this.dispatchMessage(message)
+      this.rememberMessage(message, messages)
+      await this.downloadAttachments(message, messages)
+      dispatches.push(this.dispatchMessage(message))
+    }
+    await Promise.all(dispatches)
+  }
+
+  /**
+   * Returns the JIDs of the connected account.
+   * 
+   * Groups may address the account by phone number or by LID, so both are
+   * returned when known.
+   * 
+   * @returns JIDs of the account (empty when not logged in)
+   */
+  private getBotJids(): string[] {
+    const user = this.socket?.user
+    if (!user) {
+      return []
     }
+    return [user.id, user.lid].filter((jid): jid is string => !!jid)
+  }
+
+  /**
+   * Keeps the raw message of a routed message so replies can quote it.
+   * 
+   * Baileys needs the full WAMessage to send a quoted reply. Messages are
+   * kept for QUOTED_MESSAGE_TTL_MS, and at most MAX_QUOTED_MESSAGES of them.
+   * 
+   * @param message - The normalized incoming message
+   * @param rawMessages - The raw Baileys messages of the upsert event
+   */
+  private rememberMessage(message: IncomingMessage, rawMessages: proto.IWebMessageInfo[]): void {
+    const raw = rawMessages.find((msg) => msg.key?.id === message.id)
+    if (!raw) {
+      return
+    }
+
+    const now = Date.now()
+    this.recentMessages.delete(message.id)
+    this.recentMessages.set(message.id, { message: raw as WAMessage, receivedAt: now })
+
+    // Entries are in arrival order, so expired ones are at the front
+    for (const [id, entry] of this.recentMessages) {
+      if (this.recentMessages.size <= MAX_QUOTED_MESSAGES && now - entry.receivedAt <= QUOTED_MESSAGE_TTL_MS) {
+        break
+      }
+      this.recentMessages.delete(id)
+    }
+  }
+
+  /**
+   * Builds the Baileys send options of a message.
+   * 
+   * @param to - The recipient JID (for logging)
+   * @param options - Send options
+   * @returns Options with the cached message to quote, or undefined
+   */
+  private getSendOptions(to: string, options: BaileysSendOptions): { quoted: WAMessage } | undefined {
+    if (!options.quotedMessageId) {
+      return undefined
+    }
+
+    const entry = this.recentMessages.get(options.quotedMessageId)
+    if (!entry || Date.now() - entry.receivedAt > QUOTED_MESSAGE_TTL_MS) {
+      if (isDebugMode()) {
+        logger.debug('[BaileysConnection] Quoted message not cached, sending without quote', {
+          to,
+          quotedMessageId: options.quotedMessageId,
+        })
+      }
+      return undefined
+    }
+
+    return { quoted: entry.message }
+  }
+
+  /**
+   * Downloads the media of a message into the media store, if configured.
+   * 
+   * @param message - The normalized incoming message (attachments are updated in place)
+   * @param rawMessages - The raw Baileys messages of the upsert event
+   */
+  private async downloadAttachments(
+    message: IncomingMessage,
+    rawMessages: proto.IWebMessageInfo[]
+  ): Promise<void> {
+    if (!this.config.mediaStore || !message.attachments?.length) {
+      return
+    }
+
+    const raw = rawMessages.find((msg) => msg.key?.id === message.id)
+    if (!raw) {
+      return
+    }
+
+    message.attachments = await downloadBaileysAttachments(
+      raw as WAMessage,
+      message.attachments,
+      this.config.mediaStore,
+      this.socket
+    )
   }
 
   /**
@@ -341,9 +473,10 @@ export class BaileysConnectionService {
    * 
    * @param to - The recipient JID
    * @param text - The message text
-   * @returns Promise that resolves when the message is sent
+   * @param options - Send options (e.g. a message to quote)
+   * @returns Promise resolving to the ID of the sent message
    */
-  async sendTextMessage(to: string, text: string): Promise<void> {
+  async sendTextMessage(to: string, text: string, options: BaileysSendOptions = {}): Promise<string | undefined> {
     if (!this.socket) {
       throw new Error('Not connected to WhatsApp')
     }
@@ -356,8 +489,46 @@ export class BaileysConnectionService {
     }
 
     try {
-      await this.socket.sendMessage(to, { text })
-      logger.info('[BaileysConnection] Message sent', { to })
+      const sent = await this.socket.sendMessage(to, { text }, this.getSendOptions(to, options))
+      logger.info('[BaileysConnection] Message sent', { to, messageId: sent?.key.id })
+      return sent?.key.id ?? undefined
+    } catch (error) {
+      logger.error('[BaileysConnection] Failed to send message', {
+        to,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Sends a media, location or contact message via WhatsApp.
+   * 
+   * @param to - The recipient JID
+   * @param content - Baileys message content (e.g. `{ image, caption }`)
+   * @param options - Send options (e.g. a message to quote)
+   * @returns Promise resolving to the ID of the sent message
+   */
+  async sendContentMessage(
+    to: string,
+    content: AnyMessageContent,
+    options: BaileysSendOptions = {}
+  ): Promise<string | undefined> {
+    if (!this.socket) {
+      throw new Error('Not connected to WhatsApp')
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[BaileysConnection] Sending content message', {
+        to,
+        contentKeys: Object.keys(content),
+      })
+    }
+
+    try {
+      const sent = await this.socket.sendMessage(to, content, this.getSendOptions(to, options))
+      logger.info('[BaileysConnection] Message sent', { to, messageId: sent?.key.id })
+      return sent?.key.id ?? undefined
     } catch (error) {
       logger.error('[BaileysConnection] Failed to send message', {
         to,
@@ -367,6 +538,45 @@ export class BaileysConnectionService {
     }
   }
 
+  /**
+   * Sends read receipts for received messages.
+   * 
+   * @param keys - Keys of the messages to mark as read
+   * @returns Promise that resolves when the receipts are sent
+   */
+  async markRead(keys: proto.IMessageKey[]): Promise<void> {
+    if (!this.socket) {
+      throw new Error('Not connected to WhatsApp')
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[BaileysConnection] Marking messages as read', {
+        messageIds: keys.map((key) => key.id),
+      })
+    }
+
+    await this.socket.readMessages(keys)
+  }
+
+  /**
+   * Sends a presence update (e.g. composing) to a chat.
+   * 
+   * @param to - The chat JID
+   * @param presence - Presence to show ('composing', 'paused', ...)
+   * @returns Promise that resolves when the update is sent
+   */
+  async sendPresence(to: string, presence: WAPresence): Promise<void> {
+    if (!this.socket) {
+      throw new Error('Not connected to WhatsApp')
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[BaileysConnection] Sending presence update', { to, presence })
+    }
+
+    await this.socket.sendPresenceUpdate(presence, to)
+  }
+
   /**
    * Registers a message handler callback.
    * 
@@ -0,0 +1,158 @@
+/**
+ * Baileys media download and outbound content.
+ *
+ * This module downloads and decrypts the media of Baileys messages
+ * (photos, voice notes, documents, stickers) into a MediaStore, so the
+ * attachments of an IncomingMessage point to the actual files. It also
+ * maps the rich content of outgoing messages to Baileys message content.
+ *
+ * @module providers/baileys-media
+ */
+
+import {
+  downloadMediaMessage,
+  type AnyMessageContent,
+  type WASocket,
+  type WAMessage,
+} from '@whiskeysockets/baileys'
+import { logger, isDebugMode } from '../core/logger.js'
+import type { MessageAttachment, OutgoingContact, OutgoingContent } from '../core/models.js'
+import type { MediaStore } from '../core/media-store.js'
+
+/**
+ * Downloads the media of a Baileys message into a media store.
+ *
+ * Attachments larger than the store's limit, and attachments whose download
+ * fails, are returned without `url` so the message is still routed.
+ *
+ * @param msg - The raw Baileys message
+ * @param attachments - Attachments extracted from the message
+ * @param store - Where the files are saved
+ * @param socket - Connected socket, used to ask the sender to re-upload expired media (optional)
+ * @returns The attachments, with `url` and `size` set for downloaded files
+ */
+export async function downloadBaileysAttachments(
+  msg: WAMessage,
+  attachments: MessageAttachment[],
+  store: MediaStore,
+  socket?: WASocket | null
+): Promise<MessageAttachment[]> {
+  const messageId = msg.key?.id ?? 'unknown'
+
+  return Promise.all(attachments.map(async (attachment) => {
+    if (attachment.size !== undefined && attachment.size > store.maxBytes) {
+      logger.warn('[BaileysMedia] Attachment exceeds size limit, not downloaded', {
+        messageId,
+        type: attachment.type,
+        size: attachment.size,
+        maxBytes: store.maxBytes,
+      })
+      return attachment
+    }
+
+    try {
+      const data = await downloadMediaMessage(
+        msg,
+        'buffer',
+        {},
+        socket ? { logger: socket.logger, reuploadRequest: socket.updateMediaMessage } : undefined
+      )
+      const stored = await store.save(data, {
+        messageId,
+        mimeType: attachment.mimeType,
+        filename: attachment.filename,
+      })
+
+      if (isDebugMode()) {
+        logger.debug('[BaileysMedia] Attachment downloaded', {
+          messageId,
+          type: attachment.type,
+          size: stored.size,
+        })
+      }
+
+      return { ...attachment, url: stored.url, size: stored.size }
+    } catch (error) {
+      logger.error('[BaileysMedia] Failed to download attachment', {
+        messageId,
+        type: attachment.type,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return attachment
+    }
+  }))
+}
+
+/**
+ * Builds the vCard of a contact card.
+ *
+ * The `waid` parameter lets WhatsApp show the "Message" button.
+ *
+ * @param contact - The contact to send
+ * @returns vCard 3.0 text
+ */
+export function buildVCard(contact: OutgoingContact): string {
+  const waid = contact.phone.replace(/\D/g, '')
+  return [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${contact.name}`,
+    `TEL;type=CELL;waid=${waid}:${contact.phone}`,
+    'END:VCARD',
+  ].join('\n')
+}
+
+/**
+ * Maps the rich content of an outgoing message to Baileys message content.
+ *
+ * Media is sent from its URL when given, otherwise from the inline data.
+ *
+ * @param content - Media, location or contact to send
+ * @param caption - Caption of images, videos and documents (ignored when empty)
+ * @returns Content for `socket.sendMessage`
+ *
+ * @throws {Error} If a media file has neither `url` nor `data`
+ */
+export function toBaileysContent(content: OutgoingContent, caption: string): AnyMessageContent {
+  if (content.type === 'location') {
+    return {
+      location: {
+        degreesLatitude: content.latitude,
+        degreesLongitude: content.longitude,
+        ...(content.name ? { name: content.name } : {}),
+        ...(content.address ? { address: content.address } : {}),
+      },
+    }
+  }
+
+  if (content.type === 'contact') {
+    return {
+      contacts: {
+        displayName: content.name,
+        contacts: [{ vcard: buildVCard(content) }],
+      },
+    }
+  }
+
+  if (!content.url && !content.data) {
+    throw new Error(`Outgoing ${content.type} has neither url nor data`)
+  }
+  const media = content.url ? { url: content.url } : Buffer.from(content.data!, 'base64')
+  const captionField = caption ? { caption } : {}
+
+  switch (content.type) {
+    case 'image':
+      return { image: media, mimetype: content.mimeType, ...captionField }
+    case 'video':
+      return { video: media, mimetype: content.mimeType, ...captionField }
+    case 'audio':
+      return { audio: media, mimetype: content.mimeType }
+    case 'document':
+      return {
+        document: media,
+        mimetype: content.mimeType,
+        fileName: content.filename ?? 'file',
+        ...captionField,
+      }
+  }
+}
@@ -10,8 +10,8 @@
  * @module providers/baileys-message-adapter
  */
 
-import { getContentType, type proto } from '@whiskeysockets/baileys'
-import type { IncomingMessage } from '../core/models.js'
+import { getContentType, jidNormalizedUser, type proto } from '@whiskeysockets/baileys'
+import type { AttachmentType, IncomingMessage, MessageAttachment } from '../core/models.js'
 import type { MessageFilterOptions } from '../core/message-handler.js'
 import { DEFAULT_MESSAGE_FILTER_OPTIONS } from '../core/message-handler.js'
 import { logger, isDebugMode } from '../core/logger.js'
@@ -183,13 +183,136 @@ export function getMessageType(message: BaileysMessageContent | null | undefined
   return 'unknown'
 }
 
+/**
+ * Baileys media message fields and the attachment type they map to.
+ */
+const MEDIA_MESSAGE_TYPES: Array<[keyof BaileysMessageContent, AttachmentType]> = [
+  ['imageMessage', 'image'],
+  ['videoMessage', 'video'],
+  ['audioMessage', 'audio'],
+  ['documentMessage', 'document'],
+  ['stickerMessage', 'sticker'],
+]
+
+/**
+ * Default MIME types for media messages that do not carry one.
+ */
+const DEFAULT_MIME_TYPES: Record<AttachmentType, string> = {
+  image: 'image/jpeg',
+  video: 'video/mp4',
+  audio: 'audio/ogg; codecs=opus',
+  document: 'application/octet-stream',
+  sticker: 'image/webp',
+}
+
+/**
+ * Extracts attachment descriptions from a Baileys media message.
+ * 
+ * The returned attachments have no `url` yet: the file itself is
+ * downloaded separately (see `downloadBaileysAttachments`).
+ * 
+ * @param message - The Baileys message content
+ * @returns Attachments of the message (empty for non-media messages)
+ */
+export function extractAttachments(message: BaileysMessageContent | null | undefined): MessageAttachment[] {
+  // Documents sent with a caption are wrapped in documentWithCaptionMessage
+  const content = message?.documentWithCaptionMessage?.message ?? message
+  if (!content) {
+    return []
+  }
+
+  for (const [field, type] of MEDIA_MESSAGE_TYPES) {
+    const media = content[field] as {
+      mimetype?: string | null
+      fileLength?: number | { toNumber(): number } | null
+      fileName?: string | null
+    } | null | undefined
+    if (!media) {
+      continue
+    }
+
+    const size = typeof media.fileLength === 'number' ? media.fileLength : media.fileLength?.toNumber()
+    return [{
+      type,
+      mimeType: media.mimetype || DEFAULT_MIME_TYPES[type],
+      ...(size !== undefined ? { size } : {}),
+      ...(media.fileName ? { filename: media.fileName } : {}),
+    }]
+  }
+
+  return []
+}
+
+/**
+ * Mentions and quoted message of a Baileys message.
+ */
+export interface BaileysMessageContext {
+  /** JIDs @mentioned in the text */
+  mentionedJids: string[]
+  /** ID of the message this one replies to */
+  quotedMessageId?: string
+  /** Author of the message this one replies to */
+  quotedParticipant?: string
+}
+
+/**
+ * Extracts mentions and reply information from a Baileys message.
+ * 
+ * They are carried in the `contextInfo` of the message content
+ * (`extendedTextMessage` for text, or the media message for captions).
+ * 
+ * @param message - The Baileys message content
+ * @returns The mentioned JIDs and the quoted message, if any
+ */
+export function extractMessageContext(message: BaileysMessageContent | null | undefined): BaileysMessageContext {
+  const contentType = message ? getContentType(message) : undefined
+  const content = contentType ? message![contentType] as { contextInfo?: proto.IContextInfo | null } | null : null
+  const contextInfo = content && typeof content === 'object' ? content.contextInfo : null
+
+  if (!contextInfo) {
+    return { mentionedJids: [] }
+  }
+
+  return {
+    mentionedJids: contextInfo.mentionedJid ?? [],
+    ...(contextInfo.stanzaId && contextInfo.quotedMessage ? { quotedMessageId: contextInfo.stanzaId } : {}),
+    ...(contextInfo.stanzaId && contextInfo.participant ? { quotedParticipant: contextInfo.participant } : {}),
+  }
+}
+
+/**
+ * Removes mentions of the bot from a message text.
+ * 
+ * WhatsApp writes a mention as `@` followed by the user part of the
+ * mentioned JID (phone number or LID).
+ * 
+ * @param text - The message text
+ * @param botJids - JIDs of the bot account
+ * @returns The text without the bot's mentions and surrounding extra spaces
+ */
+export function stripBotMentions(text: string, botJids: string[]): string {
+  let stripped = text
+  for (const jid of botJids) {
+    const user = extractChannelId(jid)
+    if (user) {
+      stripped = stripped.split(`@${user}`).join('')
+    }
+  }
+  return stripped === text ? text : stripped.replace(/[ \t]{2,}/g, ' ').trim()
+}
+
 /**
  * Normalizes a Baileys message to the wa2ai IncomingMessage format.
  * 
  * This is the main adapter function that converts Baileys-specific
  * message format to the domain model.
  * 
+ * When the bot's JIDs are known, the metadata tells whether the message
+ * mentions the bot (`mentionsBot`) or replies to one of its messages
+ * (`repliesToBot`), and the bot's mentions are removed from the text.
+ * 
  * @param msg - The raw Baileys message
+ * @param botJids - JIDs of the connected account, in phone number and LID form (optional)
  * @returns The normalized IncomingMessage or null if message is invalid
  * 
  * @example
@@ -199,7 +322,10 @@ export function getMessageType(message: BaileysMessageContent | null | undefined
  * // { id: 'abc', from: '123@s.whatsapp.net', channelId: '123', ... }
  * ```
  */
-export function normalizeBaileysMessage(msg: BaileysWebMessageInfo): IncomingMessage | null {
+export function normalizeBaileysMessage(
+  msg: BaileysWebMessageInfo,
+  botJids: string[] = []
+): IncomingMessage | null {
   if (isDebugMode()) {
     logger.debug('[BaileysMessageAdapter] Normalizing message', {
       hasKey: !!msg.key,
@@ -224,8 +350,17 @@ export function normalizeBaileysMessage(msg: BaileysWebMessageInfo): IncomingMes
   }
 
   const jid = msg.key.remoteJid
-  const text = extractTextContent(msg.message)
   const messageType = getMessageType(msg.message)
+  const attachments = extractAttachments(msg.message)
+  const context = extractMessageContext(msg.message)
+
+  // Device suffixes (`123:4@s.whatsapp.net`) do not matter for identity
+  const bot = new Set(botJids.map((botJid) => jidNormalizedUser(botJid)))
+  const mentionsBot = context.mentionedJids.some((mentioned) => bot.has(jidNormalizedUser(mentioned)))
+  const repliesToBot = !!context.quotedParticipant && bot.has(jidNormalizedUser(context.quotedParticipant))
+
+  const rawText = extractTextContent(msg.message)
+  const text = mentionsBot ? stripBotMentions(rawText, [...bot]) : rawText
 
   // Convert timestamp (Baileys uses seconds, we need Date)
   let timestamp: Date
@@ -245,12 +380,17 @@ export function normalizeBaileysMessage(msg: BaileysWebMessageInfo): IncomingMes
     channelId: extractChannelId(jid),
     text,
     timestamp,
+    ...(attachments.length > 0 ? { attachments } : {}),
     metadata: {
       messageType,
       fromMe: msg.key.fromMe ?? false,
       isGroup: isGroupJid(jid),
       pushName: msg.pushName,
       participant: msg.key.participant, // For group messages, the actual sender
+      ...(context.mentionedJids.length > 0 ? { mentionedJids: context.mentionedJids } : {}),
+      ...(context.quotedMessageId ? { quotedMessageId: context.quotedMessageId } : {}),
+      ...(context.quotedParticipant ? { quotedParticipant: context.quotedParticipant } : {}),
+      ...(bot.size > 0 ? { mentionsBot, repliesToBot } : {}),
     },
   }
 
@@ -261,6 +401,10 @@ export function normalizeBaileysMessage(msg: BaileysWebMessageInfo): IncomingMes
       channelId: normalized.channelId,
       messageType,
       textLength: text.length,
+      attachmentCount: attachments.length,
+      mentionCount: context.mentionedJids.length,
+      mentionsBot,
+      repliesToBot,
     })
   }
 
@@ -343,11 +487,13 @@ export function shouldProcessMessage(
  * 
  * @param messages - Array of Baileys messages
  * @param options - Filter options
+ * @param botJids - JIDs of the connected account (optional, see normalizeBaileysMessage)
  * @returns Array of normalized IncomingMessage objects
  */
 export function processBaileysMessages(
   messages: BaileysWebMessageInfo[],
-  options: MessageFilterOptions = DEFAULT_MESSAGE_FILTER_OPTIONS
+  options: MessageFilterOptions = DEFAULT_MESSAGE_FILTER_OPTIONS,
+  botJids: string[] = []
 ): IncomingMessage[] {
   if (isDebugMode()) {
     logger.debug('[BaileysMessageAdapter] Processing batch of messages', {
@@ -359,7 +505,7 @@ export function processBaileysMessages(
 
   for (const msg of messages) {
     if (shouldProcessMessage(msg, options)) {
-      const normalizedMsg = normalizeBaileysMessage(msg)
+      const normalizedMsg = normalizeBaileysMessage(msg, botJids)
       if (normalizedMsg) {
         normalized.push(normalizedMsg)
       }
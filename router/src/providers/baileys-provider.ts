@@ -7,8 +7,10 @@
 import type { IncomingMessage, OutgoingMessage } from '../core/models.js'
 import type { WhatsAppProvider } from '../core/whatsapp-provider.js'
 import type { MessageFilterOptions } from '../core/message-handler.js'
+import type { MediaStore } from '../core/media-store.js'
 import { logger, isDebugMode } from '../core/logger.js'
 import { getBaileysConnection } from './baileys-connection.js'
+import { toBaileysContent } from './baileys-media.js'
 
 /**
  * Configuration for Baileys provider.
@@ -22,6 +24,8 @@ export interface BaileysProviderConfig {
   printQRInTerminal?: boolean
   /** Optional: Message filter options. Only used if connectionService is not provided. */
   messageFilter?: MessageFilterOptions
+  /** Optional: Where media of incoming messages is downloaded. Only used if connectionService is not provided. */
+  mediaStore?: MediaStore
 }
 
 /**
@@ -44,6 +48,7 @@ export class BaileysProvider implements WhatsAppProvider {
         authDir: config.authDir,
         printQRInTerminal: config.printQRInTerminal,
         messageFilter: config.messageFilter,
+        mediaStore: config.mediaStore,
       })
     }
   }
@@ -52,18 +57,20 @@ export class BaileysProvider implements WhatsAppProvider {
    * Sends a message via Baileys direct connection.
    * 
    * Uses the BaileysConnectionService to send messages through
-   * the active WhatsApp Web connection.
+   * the active WhatsApp Web connection. Messages with `content` are sent
+   * as media, location or contact messages.
    * 
    * @param message - The message to send
-   * @returns Promise that resolves when the message is sent
+   * @returns Promise resolving to the ID of the sent message
    * @throws {Error} If the message fails to send or connection is not available
    */
-  async sendMessage(message: OutgoingMessage): Promise<void> {
+  async sendMessage(message: OutgoingMessage): Promise<string | undefined> {
     if (isDebugMode()) {
       logger.debug('[BaileysProvider] Sending message', {
         to: message.to,
         channelId: message.channelId,
         textLength: message.text.length,
+        contentType: message.content?.type,
       })
     }
 
@@ -83,8 +90,11 @@ export class BaileysProvider implements WhatsAppProvider {
         throw new Error(errorMessage)
       }
 
-      // Send message via BaileysConnectionService
-      await this.connectionService.sendTextMessage(jid, message.text)
+      // Send message via BaileysConnectionService (the connection caches messages to quote)
+      const options = message.quoted ? { quotedMessageId: message.quoted.id } : {}
+      const messageId = message.content
+        ? await this.connectionService.sendContentMessage(jid, toBaileysContent(message.content, message.text), options)
+        : await this.connectionService.sendTextMessage(jid, message.text, options)
 
       if (isDebugMode()) {
         logger.debug('[BaileysProvider] Message sent successfully', {
@@ -97,7 +107,10 @@ export class BaileysProvider implements WhatsAppProvider {
       logger.info('[BaileysProvider] Message sent via Baileys', {
         to: message.to,
         channelId: message.channelId,
+        messageId,
       })
+
+      return messageId
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       
@@ -111,6 +124,55 @@ export class BaileysProvider implements WhatsAppProvider {
     }
   }
 
+  /**
+   * Marks an incoming message as read via Baileys.
+   * 
+   * Group messages are acknowledged with the participant who sent them.
+   * 
+   * @param message - The message to mark as read
+   * @throws {Error} If the receipt fails to send
+   */
+  async markRead(message: IncomingMessage): Promise<void> {
+    const participant = message.metadata?.participant
+    try {
+      await this.connectionService.markRead([{
+        remoteJid: this.ensureJidFormat(message.from),
+        id: message.id,
+        fromMe: false,
+        ...(typeof participant === 'string' ? { participant } : {}),
+      }])
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Failed to mark message as read via Baileys: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Shows or clears the typing indicator via Baileys presence updates.
+   * 
+   * @param to - The chat (JID or phone number)
+   * @param typing - true for 'composing', false for 'paused'
+   * @throws {Error} If the presence update fails
+   */
+  async setTyping(to: string, typing: boolean): Promise<void> {
+    try {
+      await this.connectionService.sendPresence(this.ensureJidFormat(to), typing ? 'composing' : 'paused')
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Failed to update presence via Baileys: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Returns the chat ID of a recipient: its JID.
+   * 
+   * @param recipient - Chat JID or phone number
+   * @returns The JID-formatted recipient
+   */
+  toChatId(recipient: string): string {
+    return this.ensureJidFormat(recipient)
+  }
+
   /**
    * Ensures the recipient identifier is in JID format.
    * 
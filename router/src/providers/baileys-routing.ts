@@ -9,6 +9,8 @@
 
 import { logger, isDebugMode } from '../core/logger.js'
 import type { MessageRouter } from '../core/message-router.js'
+import type { InboundQueue } from '../core/inbound-queue.js'
+import type { MessageDeduplicator } from '../core/message-dedup.js'
 import { getBaileysConnection } from './baileys-connection.js'
 
 /**
@@ -17,7 +19,16 @@ import { getBaileysConnection } from './baileys-connection.js'
  * This function connects BaileysConnectionService with MessageRouter,
  * creating a complete message flow from WhatsApp to AI agents.
  * 
+ * When a durable inbound queue is given, messages are stored and routed
+ * by its worker. If a message cannot be stored it is routed right away,
+ * since WhatsApp does not deliver it again.
+ * 
+ * Baileys can deliver a message again after a reconnect; with a
+ * deduplicator, redelivered messages are skipped.
+ * 
  * @param messageRouter - The message router instance
+ * @param inboundQueue - Durable inbound queue (optional)
+ * @param deduplicator - Ignores messages delivered more than once (optional)
  * 
  * @example
  * ```typescript
@@ -26,7 +37,11 @@ import { getBaileysConnection } from './baileys-connection.js'
  * setupBaileysDirectRouting(messageRouter)
  * ```
  */
-export function setupBaileysDirectRouting(messageRouter: MessageRouter): void {
+export function setupBaileysDirectRouting(
+  messageRouter: MessageRouter,
+  inboundQueue?: InboundQueue,
+  deduplicator?: MessageDeduplicator
+): void {
   if (isDebugMode()) {
     logger.debug('[BaileysRouting] Setting up Baileys direct routing')
   }
@@ -42,6 +57,22 @@ export function setupBaileysDirectRouting(messageRouter: MessageRouter): void {
       })
     }
 
+    if (deduplicator && await deduplicator.isDuplicate(message)) {
+      return { success: true, metadata: { skipped: true, duplicate: true } }
+    }
+
+    if (inboundQueue) {
+      try {
+        await inboundQueue.submit(message)
+        return { success: true, metadata: { queued: true } }
+      } catch (error) {
+        logger.warn('[BaileysRouting] Message could not be queued, routing it right away', {
+          messageId: message.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
     const result = await messageRouter.routeMessage(message)
 
     // Response sending is handled by MessageRouter via its configured WhatsApp provider
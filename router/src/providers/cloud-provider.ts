@@ -1,12 +1,16 @@
 /**
  * WhatsApp Cloud API provider implementation.
- * 
+ *
  * This adapter implements the WhatsAppProvider interface for the official
- * WhatsApp Cloud API. This will be implemented in Phase 2.
+ * WhatsApp Cloud API (Meta Graph API). Outbound messages are sent through
+ * `POST /{phoneNumberId}/messages` and inbound webhooks
+ * (`entry[].changes[].value.messages[]`) are normalized to IncomingMessage.
  */
 
-import type { IncomingMessage, OutgoingMessage } from '../core/models.js'
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { IncomingMessage, OutgoingMedia, OutgoingMessage } from '../core/models.js'
 import type { WhatsAppProvider } from '../core/whatsapp-provider.js'
+import { logger, isDebugMode } from '../core/logger.js'
 
 /**
  * Configuration for WhatsApp Cloud API provider.
@@ -16,40 +20,518 @@ export interface CloudApiProviderConfig {
   accessToken: string
   /** Phone number ID */
   phoneNumberId: string
+  /** Graph API base URL (default: 'https://graph.facebook.com') */
+  apiUrl?: string
+  /** Graph API version (default: 'v21.0') */
+  apiVersion?: string
+}
+
+/**
+ * Default Graph API base URL.
+ */
+const DEFAULT_API_URL = 'https://graph.facebook.com'
+
+/**
+ * Default Graph API version.
+ */
+const DEFAULT_API_VERSION = 'v21.0'
+
+/**
+ * Cloud API message types mapped to the message type names used by
+ * the Baileys adapter, so routing metadata is provider-independent.
+ */
+const MESSAGE_TYPE_MAP: Record<string, string> = {
+  text: 'conversation',
+  image: 'imageMessage',
+  video: 'videoMessage',
+  audio: 'audioMessage',
+  document: 'documentMessage',
+  sticker: 'stickerMessage',
+  contacts: 'contactMessage',
+  location: 'locationMessage',
+  reaction: 'reactionMessage',
+}
+
+/**
+ * Cloud API webhook payload structure.
+ */
+interface CloudApiWebhookPayload {
+  object?: string
+  entry?: Array<{
+    id?: string
+    changes?: Array<{
+      field?: string
+      value?: CloudApiChangeValue
+    }>
+  }>
+}
+
+/**
+ * Value of a `messages` field change in a Cloud API webhook.
+ */
+interface CloudApiChangeValue {
+  messaging_product?: string
+  metadata?: {
+    display_phone_number?: string
+    phone_number_id?: string
+  }
+  contacts?: Array<{
+    wa_id?: string
+    profile?: {
+      name?: string
+    }
+  }>
+  messages?: CloudApiMessage[]
+  statuses?: unknown[]
+}
+
+/**
+ * Cloud API inbound message structure.
+ */
+interface CloudApiMessage {
+  from?: string
+  id?: string
+  timestamp?: string
+  type?: string
+  text?: { body?: string }
+  image?: { caption?: string }
+  video?: { caption?: string }
+  document?: { caption?: string; filename?: string }
+  button?: { text?: string; payload?: string }
+  interactive?: {
+    type?: string
+    button_reply?: { id?: string; title?: string }
+    list_reply?: { id?: string; title?: string }
+  }
+  context?: {
+    from?: string
+    id?: string
+  }
+  [key: string]: unknown
+}
+
+/**
+ * Cloud API send message response structure.
+ */
+interface CloudApiSendResponse {
+  messaging_product?: string
+  contacts?: Array<{ input?: string; wa_id?: string }>
+  messages?: Array<{ id?: string }>
+  error?: {
+    message?: string
+    type?: string
+    code?: number
+  }
+}
+
+/**
+ * Cloud API media upload response structure.
+ */
+interface CloudApiMediaResponse {
+  id?: string
+}
+
+/**
+ * Reads the error message of a Graph API error body.
+ *
+ * @param errorText - Raw response body
+ * @returns `error.message` of a JSON body, or the raw text
+ */
+function getErrorDetail(errorText: string): string {
+  try {
+    const errorData = JSON.parse(errorText) as CloudApiSendResponse
+    return errorData.error?.message || errorText
+  } catch {
+    // Non-JSON error body, keep raw text
+    return errorText
+  }
+}
+
+/**
+ * Extracts text content from a Cloud API message.
+ *
+ * Handles text bodies, media captions and interactive replies.
+ * Other message types are represented by a `[type]` placeholder.
+ *
+ * @param message - The Cloud API message
+ * @returns The extracted text or a placeholder
+ */
+export function extractCloudApiText(message: CloudApiMessage): string {
+  switch (message.type) {
+    case 'text':
+      return message.text?.body ?? ''
+    case 'image':
+      return message.image?.caption ?? '[image]'
+    case 'video':
+      return message.video?.caption ?? '[video]'
+    case 'document':
+      return message.document?.caption ?? '[document]'
+    case 'button':
+      return message.button?.text ?? '[button]'
+    case 'interactive':
+      return message.interactive?.button_reply?.title
+        ?? message.interactive?.list_reply?.title
+        ?? '[interactive]'
+    default:
+      return message.type ? `[${message.type}]` : ''
+  }
+}
+
+/**
+ * Verifies the `X-Hub-Signature-256` header of a Cloud API webhook.
+ *
+ * Meta signs every webhook delivery with an HMAC-SHA256 of the raw
+ * request body, keyed with the app secret, formatted as `sha256=<hex>`.
+ * The comparison is constant-time.
+ *
+ * @param rawBody - The raw request body exactly as received
+ * @param signatureHeader - Value of the `X-Hub-Signature-256` header
+ * @param appSecret - The Meta app secret
+ * @returns true if the signature matches the body
+ */
+export function verifyCloudApiSignature(
+  rawBody: Buffer | string,
+  signatureHeader: string | undefined,
+  appSecret: string
+): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith('sha256=')) {
+    return false
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody).digest()
+  const received = Buffer.from(signatureHeader.slice('sha256='.length), 'hex')
+
+  if (received.length !== expected.length) {
+    return false
+  }
+
+  return timingSafeEqual(received, expected)
+}
+
+/**
+ * Normalizes a WhatsApp Cloud API webhook payload into IncomingMessages.
+ *
+ * A single webhook may batch several entries, changes and messages.
+ * Status updates (`statuses[]`) and non-message fields are ignored.
+ *
+ * @param payload - Raw webhook payload from WhatsApp Cloud API
+ * @returns Array of normalized messages (empty if none)
+ */
+export function normalizeCloudApiWebhook(payload: unknown): IncomingMessage[] {
+  const webhook = payload as CloudApiWebhookPayload
+
+  if (!webhook || webhook.object !== 'whatsapp_business_account' || !Array.isArray(webhook.entry)) {
+    logger.warn('[CloudApiProvider] Received webhook with unknown format', {
+      object: webhook?.object,
+    })
+    return []
+  }
+
+  const normalized: IncomingMessage[] = []
+
+  for (const entry of webhook.entry) {
+    for (const change of entry.changes ?? []) {
+      if (change.field !== 'messages' || !change.value) {
+        if (isDebugMode()) {
+          logger.debug('[CloudApiProvider] Ignoring non-message change', {
+            field: change.field,
+          })
+        }
+        continue
+      }
+
+      const value = change.value
+      const contacts = value.contacts ?? []
+
+      for (const message of value.messages ?? []) {
+        if (!message.from || !message.id) {
+          logger.warn('[CloudApiProvider] Skipping message without sender or id', {
+            entryId: entry.id,
+          })
+          continue
+        }
+
+        // Batched deliveries list one contact per sender; never borrow another sender's profile
+        const contact = contacts.find((c) => c.wa_id === message.from)
+        const timestamp = message.timestamp
+          ? new Date(parseInt(message.timestamp, 10) * 1000)
+          : new Date()
+        const cloudType = message.type ?? 'unknown'
+
+        normalized.push({
+          id: message.id,
+          from: message.from,
+          channelId: message.from,
+          text: extractCloudApiText(message),
+          timestamp,
+          metadata: {
+            messageType: MESSAGE_TYPE_MAP[cloudType] ?? cloudType,
+            cloudMessageType: cloudType,
+            fromMe: false,
+            isGroup: false,
+            pushName: contact?.profile?.name,
+            waId: contact?.wa_id,
+            phoneNumberId: value.metadata?.phone_number_id,
+            displayPhoneNumber: value.metadata?.display_phone_number,
+            context: message.context,
+          },
+        })
+      }
+
+      if (isDebugMode() && value.statuses?.length) {
+        logger.debug('[CloudApiProvider] Ignoring status updates', {
+          count: value.statuses.length,
+        })
+      }
+    }
+  }
+
+  if (normalized.length > 0) {
+    logger.info('[CloudApiProvider] Webhook normalized', {
+      count: normalized.length,
+      messageIds: normalized.map((m) => m.id),
+    })
+  }
+
+  return normalized
 }
 
 /**
  * WhatsApp Cloud API provider implementation.
  */
 export class CloudApiProvider implements WhatsAppProvider {
+  private readonly apiUrl: string
+  private readonly apiVersion: string
+
   constructor(private config: CloudApiProviderConfig) {
-    // Config will be used when implementing sendMessage
-    void this.config
+    this.apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/$/, '')
+    this.apiVersion = config.apiVersion || DEFAULT_API_VERSION
   }
 
   /**
    * Sends a message via WhatsApp Cloud API.
-   * 
+   *
+   * Uses Graph API endpoint: POST /{apiVersion}/{phoneNumberId}/messages.
+   * Messages with `content` are sent as image, video, audio, document,
+   * location or contacts messages; inline media is uploaded first.
+   * Replies to a `quoted` message set `context.message_id`.
+   *
    * @param message - The message to send
-   * @returns Promise that resolves when the message is sent
+   * @returns Promise resolving to the `wamid` of the sent message
    * @throws {Error} If the message fails to send
    */
-  async sendMessage(_message: OutgoingMessage): Promise<void> {
-    // TODO: Implement WhatsApp Cloud API HTTP client
-    // This will be implemented in Phase 2
-    throw new Error('CloudApiProvider.sendMessage not yet implemented')
+  async sendMessage(message: OutgoingMessage): Promise<string | undefined> {
+    if (isDebugMode()) {
+      logger.debug('[CloudApiProvider] Sending message', {
+        phoneNumberId: this.config.phoneNumberId,
+        to: message.to,
+        channelId: message.channelId,
+        textLength: message.text.length,
+        contentType: message.content?.type,
+      })
+    }
+
+    // Cloud API expects a bare phone number (no JID suffix)
+    const recipient = message.to.replace(/@.*$/, '')
+    const url = `${this.apiUrl}/${this.apiVersion}/${this.config.phoneNumberId}/messages`
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.config.accessToken}`,
+        },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: recipient,
+          ...(message.quoted ? { context: { message_id: message.quoted.id } } : {}),
+          ...await this.buildMessagePayload(message),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error')
+        const errorDetail = getErrorDetail(errorText)
+
+        logger.error('[CloudApiProvider] Failed to send message', {
+          phoneNumberId: this.config.phoneNumberId,
+          to: message.to,
+          channelId: message.channelId,
+          status: response.status,
+          error: errorDetail,
+        })
+
+        throw new Error(`Cloud API returned ${response.status}: ${errorDetail}`)
+      }
+
+      const responseData = await response.json() as CloudApiSendResponse
+      const messageId = responseData.messages?.[0]?.id
+
+      if (isDebugMode()) {
+        logger.debug('[CloudApiProvider] Message sent successfully', {
+          phoneNumberId: this.config.phoneNumberId,
+          to: message.to,
+          messageId,
+        })
+      }
+
+      logger.info('[CloudApiProvider] Message sent via Cloud API', {
+        phoneNumberId: this.config.phoneNumberId,
+        to: message.to,
+        channelId: message.channelId,
+      })
+
+      return messageId
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+
+      logger.error('[CloudApiProvider] Error sending message', {
+        phoneNumberId: this.config.phoneNumberId,
+        to: message.to,
+        channelId: message.channelId,
+        error: errorMessage,
+      })
+
+      throw new Error(`Failed to send message via Cloud API: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Builds the type-specific fields of a Cloud API message.
+   *
+   * @param message - The message to send
+   * @returns `type` and the matching object (e.g. `{ type: 'image', image: {...} }`)
+   *
+   * @throws {Error} If inline media cannot be uploaded
+   */
+  private async buildMessagePayload(message: OutgoingMessage): Promise<Record<string, unknown>> {
+    const content = message.content
+    if (!content) {
+      return { type: 'text', text: { preview_url: false, body: message.text } }
+    }
+
+    if (content.type === 'location') {
+      return {
+        type: 'location',
+        location: {
+          latitude: content.latitude,
+          longitude: content.longitude,
+          ...(content.name ? { name: content.name } : {}),
+          ...(content.address ? { address: content.address } : {}),
+        },
+      }
+    }
+
+    if (content.type === 'contact') {
+      return {
+        type: 'contacts',
+        contacts: [{
+          name: { formatted_name: content.name, first_name: content.name },
+          phones: [{ phone: content.phone, type: 'CELL' }],
+        }],
+      }
+    }
+
+    const media: Record<string, unknown> = content.url
+      ? { link: content.url }
+      : { id: await this.uploadMedia(content) }
+
+    // Audio messages cannot have a caption
+    if (message.text && content.type !== 'audio') {
+      media.caption = message.text
+    }
+    if (content.type === 'document' && content.filename) {
+      media.filename = content.filename
+    }
+
+    return { type: content.type, [content.type]: media }
+  }
+
+  /**
+   * Uploads inline media to the Cloud API.
+   *
+   * Uses Graph API endpoint: POST /{apiVersion}/{phoneNumberId}/media
+   *
+   * @param media - Media with base64 `data`
+   * @returns The media ID to send
+   *
+   * @throws {Error} If the media has no data or the upload fails
+   */
+  private async uploadMedia(media: OutgoingMedia): Promise<string> {
+    if (!media.data) {
+      throw new Error(`Outgoing ${media.type} has neither url nor data`)
+    }
+
+    const form = new FormData()
+    form.append('messaging_product', 'whatsapp')
+    form.append('type', media.mimeType)
+    form.append(
+      'file',
+      new Blob([Buffer.from(media.data, 'base64')], { type: media.mimeType }),
+      media.filename ?? media.type
+    )
+
+    const response = await fetch(`${this.apiUrl}/${this.apiVersion}/${this.config.phoneNumberId}/media`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.accessToken}`,
+      },
+      body: form,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error')
+      throw new Error(`Cloud API media upload returned ${response.status}: ${getErrorDetail(errorText)}`)
+    }
+
+    const { id } = await response.json() as CloudApiMediaResponse
+    if (!id) {
+      throw new Error('Cloud API media upload returned no media ID')
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[CloudApiProvider] Media uploaded', {
+        phoneNumberId: this.config.phoneNumberId,
+        type: media.type,
+        mediaId: id,
+      })
+    }
+
+    return id
+  }
+
+  /**
+   * Returns the chat ID of a recipient: its bare phone number (wa_id).
+   *
+   * @param recipient - Chat JID or phone number
+   * @returns The recipient without its JID suffix
+   */
+  toChatId(recipient: string): string {
+    return recipient.replace(/@.*$/, '')
   }
 
   /**
    * Normalizes WhatsApp Cloud API webhook payload to domain IncomingMessage.
-   * 
-   * @param _payload - Raw webhook payload from WhatsApp Cloud API
-   * @returns Normalized IncomingMessage or null if payload is invalid
+   *
+   * Returns the first message in the payload. Use `normalizeWebhookBatch`
+   * to get every message when Meta batches several in one delivery.
+   *
+   * @param payload - Raw webhook payload from WhatsApp Cloud API
+   * @returns Normalized IncomingMessage or null if payload has no messages
    */
-  normalizeWebhook(_payload: unknown): IncomingMessage | null {
-    // TODO: Implement WhatsApp Cloud API webhook normalization
-    // This will be implemented in Phase 2
-    return null
+  normalizeWebhook(payload: unknown): IncomingMessage | null {
+    return normalizeCloudApiWebhook(payload)[0] ?? null
   }
-}
 
+  /**
+   * Normalizes every message contained in a Cloud API webhook payload.
+   *
+   * @param payload - Raw webhook payload from WhatsApp Cloud API
+   * @returns Array of normalized messages (empty if none)
+   */
+  normalizeWebhookBatch(payload: unknown): IncomingMessage[] {
+    return normalizeCloudApiWebhook(payload)
+  }
+}
@@ -7,6 +7,7 @@
 import type { IncomingMessage, OutgoingMessage } from '../core/models.js'
 import type { WhatsAppProvider } from '../core/whatsapp-provider.js'
 import { logger, isDebugMode } from '../core/logger.js'
+import { hashMessageId } from '../core/message-dedup.js'
 
 /**
  * Configuration for Evolution API provider.
@@ -68,6 +69,14 @@ interface EvolutionApiMessageData {
   messageTimestamp?: number
 }
 
+/**
+ * How long Evolution API shows a composing presence, in milliseconds.
+ *
+ * Evolution sends 'paused' itself when the delay ends, so this stays just
+ * under the interval at which MessageRouter repeats the indicator (8 s).
+ */
+const PRESENCE_DELAY_MS = 7500
+
 /**
  * Evolution API provider implementation.
  */
@@ -81,39 +90,40 @@ export class EvolutionProvider implements WhatsAppProvider {
   /**
    * Sends a message via Evolution API.
    * 
-   * Uses Evolution API v2 endpoint: POST /message/sendText/{instance}
+   * Uses Evolution API v2 endpoint: POST /message/sendText/{instance}, or
+   * the sendMedia, sendWhatsAppAudio, sendLocation and sendContact
+   * endpoints for messages with `content`. Replies to a `quoted` message
+   * are sent with the Evolution `quoted` field.
    * 
    * @param message - The message to send
-   * @returns Promise that resolves when the message is sent
+   * @returns Promise resolving to the ID of the sent message, when Evolution API returns it
    * @throws {Error} If the message fails to send
    */
-  async sendMessage(message: OutgoingMessage): Promise<void> {
+  async sendMessage(message: OutgoingMessage): Promise<string | undefined> {
     if (isDebugMode()) {
       logger.debug('[EvolutionProvider] Sending message', {
         instanceName: this.instanceName,
         to: message.to,
         channelId: message.channelId,
         textLength: message.text.length,
+        contentType: message.content?.type,
       })
     }
 
     // Extract phone number from 'to' field (remove @s.whatsapp.net if present)
     const phoneNumber = message.to.replace('@s.whatsapp.net', '').replace('@g.us', '')
 
-    // Evolution API endpoint: POST /message/sendText/{instance}
-    const url = `${this.config.apiUrl}/message/sendText/${this.instanceName}`
-
     try {
-      const response = await fetch(url, {
+      const { endpoint, body } = this.buildSendRequest(phoneNumber, message)
+      const response = await fetch(`${this.config.apiUrl}/message/${endpoint}/${this.instanceName}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'apikey': this.config.apiKey,
         },
-        body: JSON.stringify({
-          number: phoneNumber,
-          text: message.text,
-        }),
+        body: JSON.stringify(message.quoted
+          ? { ...body, quoted: { key: { id: message.quoted.id }, message: { conversation: message.quoted.text } } }
+          : body),
       })
 
       if (!response.ok) {
@@ -132,13 +142,14 @@ export class EvolutionProvider implements WhatsAppProvider {
       }
 
       const responseData = await response.json() as EvolutionApiResponse
+      const messageId = responseData.key?.id || responseData.response?.id
 
       if (isDebugMode()) {
         logger.debug('[EvolutionProvider] Message sent successfully', {
           instanceName: this.instanceName,
           to: message.to,
           channelId: message.channelId,
-          messageId: responseData.key?.id || responseData.response?.id,
+          messageId,
           status: responseData.status || responseData.response?.status,
         })
       }
@@ -148,6 +159,8 @@ export class EvolutionProvider implements WhatsAppProvider {
         to: message.to,
         channelId: message.channelId,
       })
+
+      return messageId
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
       
@@ -162,6 +175,147 @@ export class EvolutionProvider implements WhatsAppProvider {
     }
   }
 
+  /**
+   * Marks an incoming message as read via Evolution API.
+   * 
+   * Uses Evolution API v2 endpoint: POST /chat/markMessageAsRead/{instance}
+   * 
+   * @param message - The message to mark as read
+   * @throws {Error} If the request fails
+   */
+  async markRead(message: IncomingMessage): Promise<void> {
+    await this.postChat('markMessageAsRead', {
+      readMessages: [{ remoteJid: message.from, fromMe: false, id: message.id }],
+    })
+  }
+
+  /**
+   * Shows or clears the typing indicator via Evolution API.
+   * 
+   * Uses Evolution API v2 endpoint: POST /chat/sendPresence/{instance}
+   * 
+   * @param to - The chat (JID or phone number)
+   * @param typing - true for 'composing', false for 'paused'
+   * @throws {Error} If the request fails
+   */
+  async setTyping(to: string, typing: boolean): Promise<void> {
+    await this.postChat('sendPresence', {
+      number: to.replace('@s.whatsapp.net', '').replace('@g.us', ''),
+      presence: typing ? 'composing' : 'paused',
+      delay: typing ? PRESENCE_DELAY_MS : 0,
+    })
+  }
+
+  /**
+   * Returns the chat ID of a recipient: its JID.
+   * 
+   * Phone numbers are taken as individual chats (`@s.whatsapp.net`).
+   * 
+   * @param recipient - Chat JID or phone number
+   * @returns The JID-formatted recipient
+   */
+  toChatId(recipient: string): string {
+    return recipient.includes('@') ? recipient : `${recipient}@s.whatsapp.net`
+  }
+
+  /**
+   * Posts to an Evolution API v2 chat endpoint.
+   * 
+   * @param endpoint - Endpoint name (e.g. 'sendPresence')
+   * @param body - JSON body
+   * @throws {Error} If the request fails or returns a non-OK status
+   */
+  private async postChat(endpoint: string, body: Record<string, unknown>): Promise<void> {
+    const response = await fetch(`${this.config.apiUrl}/chat/${endpoint}/${this.instanceName}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': this.config.apiKey,
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error')
+      throw new Error(`Evolution API returned ${response.status}: ${errorText}`)
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[EvolutionProvider] Chat request sent', {
+        instanceName: this.instanceName,
+        endpoint,
+      })
+    }
+  }
+
+  /**
+   * Picks the Evolution API v2 send endpoint and body for a message.
+   * 
+   * @param phoneNumber - Recipient number without JID suffix
+   * @param message - The message to send
+   * @returns Endpoint name (e.g. 'sendText') and JSON body
+   * 
+   * @throws {Error} If a media file has neither `url` nor `data`
+   */
+  private buildSendRequest(
+    phoneNumber: string,
+    message: OutgoingMessage
+  ): { endpoint: string; body: Record<string, unknown> } {
+    const content = message.content
+    if (!content) {
+      return { endpoint: 'sendText', body: { number: phoneNumber, text: message.text } }
+    }
+
+    if (content.type === 'location') {
+      return {
+        endpoint: 'sendLocation',
+        body: {
+          number: phoneNumber,
+          name: content.name ?? '',
+          address: content.address ?? '',
+          latitude: content.latitude,
+          longitude: content.longitude,
+        },
+      }
+    }
+
+    if (content.type === 'contact') {
+      return {
+        endpoint: 'sendContact',
+        body: {
+          number: phoneNumber,
+          contact: [{
+            fullName: content.name,
+            wuid: content.phone.replace(/\D/g, ''),
+            phoneNumber: content.phone,
+          }],
+        },
+      }
+    }
+
+    // Evolution accepts either a URL or raw base64
+    const media = content.url ?? content.data
+    if (!media) {
+      throw new Error(`Outgoing ${content.type} has neither url nor data`)
+    }
+
+    if (content.type === 'audio') {
+      return { endpoint: 'sendWhatsAppAudio', body: { number: phoneNumber, audio: media } }
+    }
+
+    return {
+      endpoint: 'sendMedia',
+      body: {
+        number: phoneNumber,
+        mediatype: content.type,
+        mimetype: content.mimeType,
+        media,
+        ...(message.text ? { caption: message.text } : {}),
+        ...(content.filename ? { fileName: content.filename } : {}),
+      },
+    }
+  }
+
   /**
    * Normalizes Evolution API webhook payload to domain IncomingMessage.
    * 
@@ -210,7 +364,8 @@ export class EvolutionProvider implements WhatsAppProvider {
     
     // Extract message information
     const remoteJid = data.key?.remoteJid || data.from || 'unknown'
-    const messageId = data.key?.id || `msg-${Date.now()}`
+    // Without a provider ID, derive one from the contents so redeliveries get the same ID
+    const messageId = data.key?.id || hashMessageId(remoteJid, data.messageTimestamp, JSON.stringify(data.message ?? null))
     
     // Extract message text from different message types
     let messageText = '[media or unsupported message type]'
@@ -246,6 +401,7 @@ export class EvolutionProvider implements WhatsAppProvider {
       metadata: {
         instance,
         eventType,
+        fromMe: data.key?.fromMe ?? false,
         rawMessage: data.message,
       },
     }
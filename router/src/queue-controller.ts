@@ -0,0 +1,221 @@
+/**
+ * Queue controller - HTTP endpoints for the message queues.
+ *
+ * This module exposes the depth of the in-process queue that answers each
+ * conversation in order, the duplicate deliveries ignored, and the messages
+ * stored in the durable inbound queue, so dead-lettered messages can be
+ * inspected and replayed. It only
+ * handles HTTP concerns; the queues live in ConversationQueue and
+ * InboundQueue.
+ */
+
+import type { FastifyInstance } from 'fastify'
+import { logger, isDebugMode } from './core/logger.js'
+import type { ConversationQueue } from './core/conversation-queue.js'
+import type { MessageDeduplicator } from './core/message-dedup.js'
+import {
+  INBOUND_MESSAGE_STATUSES,
+  type InboundMessageStatus,
+  type InboundQueue,
+} from './core/inbound-queue.js'
+
+/**
+ * Maximum page size of GET /api/queue/messages.
+ */
+const MAX_LIST_LIMIT = 200
+
+/**
+ * Query of GET /api/queue/messages.
+ */
+interface ListQueuedMessagesQuery {
+  /** Only messages in this state (default: dead) */
+  status?: string
+  /** Page size (default: 50, at most MAX_LIST_LIMIT) */
+  limit?: string
+  /** Number of messages to skip (default: 0) */
+  offset?: string
+}
+
+/**
+ * Registers queue endpoints on the Fastify instance.
+ *
+ * - GET /api/queue - Queue depth metrics (and duplicates ignored, with a deduplicator)
+ *
+ * With a durable inbound queue:
+ * - GET /api/queue/messages - List stored messages (dead-lettered by default)
+ * - GET /api/queue/messages/:id - Inspect a stored message
+ * - POST /api/queue/messages/:id/replay - Route a dead-lettered message again
+ *
+ * @param app - Fastify application instance
+ * @param queue - Conversation queue shared with MessageRouter
+ * @param inboundQueue - Durable inbound queue (optional)
+ * @param deduplicator - Deduplicator of incoming messages (optional)
+ */
+export function registerQueueEndpoints(
+  app: FastifyInstance,
+  queue: ConversationQueue,
+  inboundQueue?: InboundQueue,
+  deduplicator?: MessageDeduplicator
+): void {
+  /**
+   * GET /api/queue - Queue depth metrics.
+   */
+  app.get('/api/queue', async (_request, reply) => {
+    reply.code(200).send({
+      success: true,
+      data: {
+        ...queue.getStats(),
+        ...(deduplicator ? { deduplication: deduplicator.getStats() } : {}),
+      },
+    })
+  })
+
+  if (!inboundQueue) {
+    return
+  }
+
+  /**
+   * GET /api/queue/messages - List stored messages, newest first.
+   *
+   * Query: { status?, limit?, offset? }
+   */
+  app.get<{ Querystring: ListQueuedMessagesQuery }>('/api/queue/messages', async (request, reply) => {
+    const status = request.query?.status ?? 'dead'
+    const limit = request.query?.limit === undefined ? 50 : Number(request.query.limit)
+    const offset = request.query?.offset === undefined ? 0 : Number(request.query.offset)
+
+    if (!INBOUND_MESSAGE_STATUSES.includes(status as InboundMessageStatus)) {
+      reply.code(400).send({
+        success: false,
+        error: `status must be one of: ${INBOUND_MESSAGE_STATUSES.join(', ')}`,
+        code: 'INVALID_STATUS',
+        details: {
+          field: 'status',
+          value: status,
+        },
+      })
+      return
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      reply.code(400).send({
+        success: false,
+        error: `limit must be an integer between 1 and ${MAX_LIST_LIMIT}, and offset a non-negative integer`,
+        code: 'INVALID_PAGINATION',
+        details: {
+          limit: request.query?.limit,
+          offset: request.query?.offset,
+        },
+      })
+      return
+    }
+
+    try {
+      const records = await inboundQueue.list({ status: status as InboundMessageStatus, limit, offset })
+
+      if (isDebugMode()) {
+        logger.debug('[QueueController] Queued messages listed', { status, count: records.length })
+      }
+
+      reply.code(200).send({
+        success: true,
+        data: records,
+        count: records.length,
+      })
+    } catch (error) {
+      logger.error('[QueueController] Failed to list queued messages', {
+        error: error instanceof Error ? error.message : String(error),
+        status,
+      })
+
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+
+  /**
+   * GET /api/queue/messages/:id - Inspect a stored message.
+   */
+  app.get<{ Params: { id: string } }>('/api/queue/messages/:id', async (request, reply) => {
+    const { id } = request.params
+
+    try {
+      const record = await inboundQueue.findById(id)
+
+      if (!record) {
+        reply.code(404).send({
+          success: false,
+          error: `Queued message not found: ${id}`,
+        })
+        return
+      }
+
+      reply.code(200).send({
+        success: true,
+        data: record,
+      })
+    } catch (error) {
+      logger.error('[QueueController] Failed to get queued message', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+      })
+
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+
+  /**
+   * POST /api/queue/messages/:id/replay - Route a dead-lettered message again.
+   *
+   * The message gets a fresh set of attempts.
+   */
+  app.post<{ Params: { id: string } }>('/api/queue/messages/:id/replay', async (request, reply) => {
+    const { id } = request.params
+
+    try {
+      const record = await inboundQueue.replay(id)
+
+      if (!record) {
+        const existing = await inboundQueue.findById(id)
+        if (!existing) {
+          reply.code(404).send({
+            success: false,
+            error: `Queued message not found: ${id}`,
+          })
+          return
+        }
+
+        reply.code(409).send({
+          success: false,
+          error: `Message is not dead-lettered: ${id}`,
+          code: 'NOT_DEAD_LETTERED',
+          details: {
+            status: existing.status,
+          },
+        })
+        return
+      }
+
+      reply.code(200).send({
+        success: true,
+        message: 'Message queued for replay',
+        data: record,
+      })
+    } catch (error) {
+      logger.error('[QueueController] Failed to replay queued message', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+      })
+
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+}
@@ -10,75 +10,174 @@ import type { FastifyInstance } from 'fastify'
 import { logger, isDebugMode } from './core/logger.js'
 import type { Route } from './core/models.js'
 import type { MutableRoutesRepository } from './core/router-service.js'
+import type { AgentClientFactory } from './core/agent-client.js'
+import { validateRouteMatch } from './core/route-match.js'
+import { validateRouteOptions } from './core/route-options.js'
+
+/**
+ * Error response payload for an invalid route body.
+ */
+interface RouteValidationError {
+  error: string
+  code: string
+  details: {
+    field: string
+    value: unknown
+    message: string
+  }
+}
+
+/**
+ * Validates the user-provided fields of a route body.
+ * 
+ * @param route - Route body from the request
+ * @param agentClientFactory - When provided, the route's agent configuration is validated too
+ * @returns A validation error payload, or null if the route is valid
+ */
+function validateRoute(route: Route, agentClientFactory?: AgentClientFactory): RouteValidationError | null {
+  if (route.regexFilter) {
+    try {
+      new RegExp(route.regexFilter)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return {
+        error: `Invalid regex pattern: ${message}`,
+        code: 'INVALID_REGEX_PATTERN',
+        details: {
+          field: 'regexFilter',
+          value: route.regexFilter,
+          message,
+        },
+      }
+    }
+  }
+
+  if (route.priority !== undefined && !Number.isInteger(route.priority)) {
+    return {
+      error: 'Invalid priority: must be an integer',
+      code: 'INVALID_PRIORITY',
+      details: {
+        field: 'priority',
+        value: route.priority,
+        message: 'Priority must be an integer',
+      },
+    }
+  }
+
+  if (route.match !== undefined && route.match !== null) {
+    const matchError = validateRouteMatch(route.match)
+    if (matchError) {
+      return {
+        error: `Invalid match condition: ${matchError.message}`,
+        code: 'INVALID_MATCH_CONDITION',
+        details: matchError,
+      }
+    }
+  }
+
+  const optionsError = validateRouteOptions(route)
+  if (optionsError) {
+    return {
+      error: `Invalid route options: ${optionsError.message}`,
+      code: 'INVALID_ROUTE_OPTIONS',
+      details: optionsError,
+    }
+  }
+
+  const agentConfigError = agentClientFactory?.validateRoute(route)
+  if (agentConfigError) {
+    return {
+      error: `Invalid agent configuration: ${agentConfigError}`,
+      code: 'INVALID_AGENT_CONFIG',
+      details: {
+        field: 'config',
+        value: route.config,
+        message: agentConfigError,
+      },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Masks the secrets of a route's agent configuration before it is returned.
+ * 
+ * @param route - Stored route
+ * @param agentClientFactory - Agent client factory that knows the secrets of each protocol
+ * @returns The route, safe to return from the API
+ */
+function redactRoute(route: Route, agentClientFactory?: AgentClientFactory): Route {
+  return agentClientFactory?.redactRoute?.(route) ?? route
+}
 
 /**
  * Registers route management endpoints on the Fastify instance.
  * 
  * These endpoints allow managing routing rules via HTTP API:
  * - POST /api/routes - Add a new route
- * - GET /api/routes - List all routes
- * - GET /api/routes/:channelId - Get a specific route
- * - DELETE /api/routes/:channelId - Remove a route
+ * - GET /api/routes - List all routes (optionally filtered by `?channelId=`)
+ * - GET /api/routes/:id - Get a specific route
+ * - PUT /api/routes/:id - Update a route
+ * - DELETE /api/routes/:id - Remove a route
+ * 
+ * Routes are identified by their route ID; a channel may have several routes.
+ * Secrets of the agent configuration (e.g. `config.openai.apiKey`) are
+ * masked in responses, and kept when an update sends them back masked.
  * 
  * @param app - Fastify application instance
- * @param routesRepository - Routes repository instance (must implement MutableRoutesRepository for addRoute/removeRoute)
+ * @param routesRepository - Routes repository instance (must implement MutableRoutesRepository for addRoute/updateRoute/removeRoute)
+ * @param agentClientFactory - Optional agent client factory used to reject unknown agent types and invalid agent configuration
  */
 export function registerRouteEndpoints(
   app: FastifyInstance,
-  routesRepository: MutableRoutesRepository
+  routesRepository: MutableRoutesRepository,
+  agentClientFactory?: AgentClientFactory
 ): void {
   /**
    * POST /api/routes - Add a new route.
    * 
-   * Body: { channelId, agentEndpoint, environment, regexFilter?, config? }
+   * Body: { channelId, agentEndpoint, environment, priority?, regexFilter?, match?, config? }
    */
   app.post<{ Body: Route }>('/api/routes', async (request, reply) => {
     if (isDebugMode()) {
       logger.debug('[RoutesController] Adding route', {
         channelId: request.body.channelId,
         agentEndpoint: request.body.agentEndpoint,
+        priority: request.body.priority,
         hasRegexFilter: !!request.body.regexFilter,
+        hasMatch: !!request.body.match,
       })
     }
 
-    // Validate regexFilter if provided
-    if (request.body.regexFilter) {
-      try {
-        new RegExp(request.body.regexFilter)
-      } catch (error) {
-        logger.warn('[RoutesController] Invalid regex pattern provided', {
-          channelId: request.body.channelId,
-          regexFilter: request.body.regexFilter,
-          error: error instanceof Error ? error.message : String(error),
-        })
-        reply.code(400).send({
-          success: false,
-          error: `Invalid regex pattern: ${error instanceof Error ? error.message : String(error)}`,
-          code: 'INVALID_REGEX_PATTERN',
-          details: {
-            field: 'regexFilter',
-            value: request.body.regexFilter,
-            message: error instanceof Error ? error.message : String(error),
-          },
-        })
-        return
-      }
+    const validationError = validateRoute(request.body, agentClientFactory)
+    if (validationError) {
+      logger.warn('[RoutesController] Invalid route provided', {
+        channelId: request.body.channelId,
+        code: validationError.code,
+        field: validationError.details.field,
+        error: validationError.details.message,
+      })
+      reply.code(400).send({ success: false, ...validationError })
+      return
     }
 
     try {
-      await routesRepository.addRoute(request.body)
+      const route = await routesRepository.addRoute(request.body)
 
       logger.info('[RoutesController] Route added via API', {
-        channelId: request.body.channelId,
-        agentEndpoint: request.body.agentEndpoint,
-        environment: request.body.environment,
-        hasRegexFilter: !!request.body.regexFilter,
+        id: route.id,
+        channelId: route.channelId,
+        agentEndpoint: route.agentEndpoint,
+        environment: route.environment,
+        priority: route.priority,
+        hasRegexFilter: !!route.regexFilter,
       })
 
       reply.code(201).send({
         success: true,
         message: 'Route added successfully',
-        data: request.body,
+        data: redactRoute(route, agentClientFactory),
       })
     } catch (error) {
       logger.error('[RoutesController] Failed to add route', {
@@ -95,22 +194,29 @@ export function registerRouteEndpoints(
 
   /**
    * GET /api/routes - List all routes.
+   * 
+   * Query: { channelId? } - only list the routes of this channel, in evaluation order
    */
-  app.get('/api/routes', async (_request, reply) => {
+  app.get<{ Querystring: { channelId?: string } }>('/api/routes', async (request, reply) => {
+    const channelId = request.query?.channelId
+
     if (isDebugMode()) {
-      logger.debug('[RoutesController] Listing all routes')
+      logger.debug('[RoutesController] Listing routes', { channelId })
     }
 
     try {
-      const routes = await routesRepository.findAll()
+      const routes = channelId
+        ? await routesRepository.findByChannelId(channelId)
+        : await routesRepository.findAll()
 
       logger.info('[RoutesController] Routes listed via API', {
         count: routes.length,
+        channelId,
       })
 
       reply.code(200).send({
         success: true,
-        data: routes,
+        data: routes.map((route) => redactRoute(route, agentClientFactory)),
         count: routes.length,
       })
     } catch (error) {
@@ -126,34 +232,34 @@ export function registerRouteEndpoints(
   })
 
   /**
-   * GET /api/routes/:channelId - Get a specific route.
+   * GET /api/routes/:id - Get a specific route.
    */
-  app.get<{ Params: { channelId: string } }>('/api/routes/:channelId', async (request, reply) => {
-    const { channelId } = request.params
+  app.get<{ Params: { id: string } }>('/api/routes/:id', async (request, reply) => {
+    const { id } = request.params
 
     if (isDebugMode()) {
-      logger.debug('[RoutesController] Getting route', { channelId })
+      logger.debug('[RoutesController] Getting route', { id })
     }
 
     try {
-      const route = await routesRepository.findByChannelId(channelId)
+      const route = await routesRepository.findById(id)
 
       if (!route) {
         reply.code(404).send({
           success: false,
-          error: `Route not found for channel: ${channelId}`,
+          error: `Route not found: ${id}`,
         })
         return
       }
 
       reply.code(200).send({
         success: true,
-        data: route,
+        data: redactRoute(route, agentClientFactory),
       })
     } catch (error) {
       logger.error('[RoutesController] Failed to get route', {
         error: error instanceof Error ? error.message : String(error),
-        channelId,
+        id,
       })
 
       reply.code(500).send({
@@ -164,104 +270,74 @@ export function registerRouteEndpoints(
   })
 
   /**
-   * PUT /api/routes/:channelId - Update an existing route.
+   * PUT /api/routes/:id - Update an existing route.
    * 
-   * Body: { channelId?, agentEndpoint, environment, regexFilter?, config? }
-   * If channelId is provided in body, it will change the route's channelId (effectively moving it)
+   * Body: { channelId?, agentEndpoint, environment, priority?, regexFilter?, match?, config? }
+   * channelId and priority keep their current values when omitted.
+   * Changing channelId moves the route to another channel while keeping its ID.
    */
-  app.put<{ Params: { channelId: string }; Body: Route }>('/api/routes/:channelId', async (request, reply) => {
-    const { channelId: oldChannelId } = request.params
-    const newChannelId = request.body.channelId || oldChannelId
+  app.put<{ Params: { id: string }; Body: Route }>('/api/routes/:id', async (request, reply) => {
+    const { id } = request.params
 
     if (isDebugMode()) {
       logger.debug('[RoutesController] Updating route', {
-        oldChannelId,
-        newChannelId,
+        id,
+        channelId: request.body.channelId,
         agentEndpoint: request.body.agentEndpoint,
+        priority: request.body.priority,
       })
     }
 
-    // Validate regexFilter if provided
-    if (request.body.regexFilter) {
-      try {
-        new RegExp(request.body.regexFilter)
-      } catch (error) {
-        logger.warn('[RoutesController] Invalid regex pattern provided', {
-          oldChannelId,
-          regexFilter: request.body.regexFilter,
-          error: error instanceof Error ? error.message : String(error),
-        })
-        reply.code(400).send({
-          success: false,
-          error: `Invalid regex pattern: ${error instanceof Error ? error.message : String(error)}`,
-          code: 'INVALID_REGEX_PATTERN',
-          details: {
-            field: 'regexFilter',
-            value: request.body.regexFilter,
-            message: error instanceof Error ? error.message : String(error),
-          },
-        })
-        return
-      }
+    const validationError = validateRoute(request.body, agentClientFactory)
+    if (validationError) {
+      logger.warn('[RoutesController] Invalid route provided', {
+        id,
+        code: validationError.code,
+        field: validationError.details.field,
+        error: validationError.details.message,
+      })
+      reply.code(400).send({ success: false, ...validationError })
+      return
     }
 
     try {
-      // Check if route exists
-      const existingRoute = await routesRepository.findByChannelId(oldChannelId)
-      if (!existingRoute) {
-        // If route doesn't exist, create it (upsert behavior)
-        const newRoute: Route = {
-          channelId: newChannelId,
-          agentEndpoint: request.body.agentEndpoint,
-          environment: request.body.environment,
-          regexFilter: request.body.regexFilter,
-          config: request.body.config,
-        }
-        await routesRepository.addRoute(newRoute)
-
-        logger.info('[RoutesController] Route created via PUT (upsert)', {
-          channelId: newChannelId,
-          agentEndpoint: newRoute.agentEndpoint,
-        })
-
-        reply.code(201).send({
-          success: true,
-          message: 'Route created successfully',
-          data: newRoute,
-        })
-        return
-      }
-
-      // Create updated route
-      const updatedRoute: Route = {
-        channelId: newChannelId,
+      const existingRoute = await routesRepository.findById(id)
+      const updatedRoute = existingRoute && await routesRepository.updateRoute(id, {
+        channelId: request.body.channelId || existingRoute.channelId,
+        priority: request.body.priority ?? existingRoute.priority,
         agentEndpoint: request.body.agentEndpoint,
         environment: request.body.environment,
         regexFilter: request.body.regexFilter,
-        config: request.body.config,
-      }
+        match: request.body.match ?? undefined,
+        config: (agentClientFactory?.restoreSecrets?.(request.body, existingRoute) ?? request.body).config,
+      })
 
-      // Remove old route and add updated one (even if channelId changed)
-      await routesRepository.removeRoute(oldChannelId)
-      await routesRepository.addRoute(updatedRoute)
+      if (!updatedRoute) {
+        reply.code(404).send({
+          success: false,
+          error: `Route not found: ${id}`,
+        })
+        return
+      }
 
       logger.info('[RoutesController] Route updated via API', {
-        oldChannelId,
-        newChannelId,
+        id,
+        channelId: updatedRoute.channelId,
         agentEndpoint: updatedRoute.agentEndpoint,
         environment: updatedRoute.environment,
+        priority: updatedRoute.priority,
         hasRegexFilter: !!updatedRoute.regexFilter,
       })
 
       reply.code(200).send({
         success: true,
         message: 'Route updated successfully',
-        data: updatedRoute,
+        data: redactRoute(updatedRoute, agentClientFactory),
       })
     } catch (error) {
       logger.error('[RoutesController] Failed to update route', {
         error: error instanceof Error ? error.message : String(error),
-        oldChannelId,
+        id,
       })
 
       reply.code(500).send({
@@ -272,33 +348,33 @@ export function registerRouteEndpoints(
   })
 
   /**
-   * DELETE /api/routes/:channelId - Remove a route.
+   * DELETE /api/routes/:id - Remove a route.
    */
-  app.delete<{ Params: { channelId: string } }>('/api/routes/:channelId', async (request, reply) => {
-    const { channelId } = request.params
+  app.delete<{ Params: { id: string } }>('/api/routes/:id', async (request, reply) => {
+    const { id } = request.params
 
     if (isDebugMode()) {
-      logger.debug('[RoutesController] Removing route', { channelId })
+      logger.debug('[RoutesController] Removing route', { id })
     }
 
     try {
-      const removed = await routesRepository.removeRoute(channelId)
+      const removed = await routesRepository.removeRoute(id)
 
       if (!removed) {
         reply.code(404).send({
           success: false,
-          error: `Route not found for channel: ${channelId}`,
+          error: `Route not found: ${id}`,
         })
         return
       }
 
-      logger.info('[RoutesController] Route removed via API', { channelId })
+      logger.info('[RoutesController] Route removed via API', { id })
 
       reply.code(204).send()
     } catch (error) {
       logger.error('[RoutesController] Failed to remove route', {
         error: error instanceof Error ? error.message : String(error),
-        channelId,
+        id,
       })
 
       reply.code(500).send({
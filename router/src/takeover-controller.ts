@@ -0,0 +1,127 @@
+/**
+ * Takeover controller - HTTP endpoints for human takeover of chats.
+ *
+ * This module exposes which chats are paused for the agent because a
+ * human operator took over, and lets the dashboard pause and resume them.
+ * It only handles HTTP concerns; pause state lives in TakeoverService.
+ */
+
+import type { FastifyInstance } from 'fastify'
+import { logger, isDebugMode } from './core/logger.js'
+import type { TakeoverService } from './core/takeover.js'
+
+/**
+ * Body of PUT /api/takeovers/:chatId.
+ */
+interface PauseChatBody {
+  /** How long to pause, in milliseconds (default: the takeover cooldown; 0: until resumed) */
+  durationMs?: number
+}
+
+/**
+ * Registers takeover endpoints on the Fastify instance.
+ *
+ * - GET /api/takeovers - List the chats paused for the agent
+ * - GET /api/takeovers/:chatId - Get the pause of a chat
+ * - PUT /api/takeovers/:chatId - Pause a chat for the agent
+ * - DELETE /api/takeovers/:chatId - Hand a chat back to the agent
+ *
+ * Chats are identified by their JID (e.g. `5491155551234@s.whatsapp.net`).
+ *
+ * @param app - Fastify application instance
+ * @param takeover - Takeover service shared with MessageRouter
+ */
+export function registerTakeoverEndpoints(app: FastifyInstance, takeover: TakeoverService): void {
+  /**
+   * GET /api/takeovers - List the chats paused for the agent.
+   */
+  app.get('/api/takeovers', async (_request, reply) => {
+    const pauses = takeover.listPauses()
+
+    if (isDebugMode()) {
+      logger.debug('[TakeoverController] Paused chats listed', { count: pauses.length })
+    }
+
+    reply.code(200).send({
+      success: true,
+      data: pauses,
+      count: pauses.length,
+      cooldownMs: takeover.cooldownMs,
+      resumeCommand: takeover.resumeCommand,
+    })
+  })
+
+  /**
+   * GET /api/takeovers/:chatId - Get the pause of a chat.
+   */
+  app.get<{ Params: { chatId: string } }>('/api/takeovers/:chatId', async (request, reply) => {
+    const { chatId } = request.params
+    const pause = takeover.getPause(chatId)
+
+    if (!pause) {
+      reply.code(404).send({
+        success: false,
+        error: `Chat is not paused: ${chatId}`,
+      })
+      return
+    }
+
+    reply.code(200).send({
+      success: true,
+      data: pause,
+    })
+  })
+
+  /**
+   * PUT /api/takeovers/:chatId - Pause a chat for the agent.
+   *
+   * Body: { durationMs? }
+   */
+  app.put<{ Params: { chatId: string }; Body: PauseChatBody | undefined }>(
+    '/api/takeovers/:chatId',
+    async (request, reply) => {
+      const { chatId } = request.params
+      const durationMs = request.body?.durationMs
+
+      if (durationMs !== undefined && (!Number.isInteger(durationMs) || durationMs < 0)) {
+        logger.warn('[TakeoverController] Invalid pause duration provided', { chatId, durationMs })
+        reply.code(400).send({
+          success: false,
+          error: 'durationMs must be a non-negative integer',
+          code: 'INVALID_PAUSE_DURATION',
+          details: {
+            field: 'durationMs',
+            value: durationMs,
+            message: 'durationMs must be a non-negative integer',
+          },
+        })
+        return
+      }
+
+      const pause = takeover.pause(chatId, 'api', durationMs)
+
+      reply.code(200).send({
+        success: true,
+        message: 'Chat paused for the agent',
+        data: pause,
+      })
+    }
+  )
+
+  /**
+   * DELETE /api/takeovers/:chatId - Hand a chat back to the agent.
+   */
+  app.delete<{ Params: { chatId: string } }>('/api/takeovers/:chatId', async (request, reply) => {
+    const { chatId } = request.params
+
+    if (!takeover.resume(chatId)) {
+      reply.code(404).send({
+        success: false,
+        error: `Chat is not paused: ${chatId}`,
+      })
+      return
+    }
+
+    reply.code(204).send()
+  })
+}
@@ -6,11 +6,39 @@
  * Business logic is delegated to domain services.
  */
 
-import type { FastifyInstance } from 'fastify'
+import type { FastifyInstance, FastifyReply } from 'fastify'
 import { logger, isDebugMode } from './core/logger.js'
+import type { IncomingMessage } from './core/models.js'
 import type { MessageRouter } from './core/message-router.js'
+import type { MessageHandlerResult } from './core/message-handler.js'
+import type { InboundQueue } from './core/inbound-queue.js'
+import type { MessageDeduplicator } from './core/message-dedup.js'
 import type { WhatsAppProvider } from './core/whatsapp-provider.js'
 import { getBaileysConnection } from './providers/baileys-connection.js'
+import { verifyCloudApiSignature } from './providers/cloud-provider.js'
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Raw JSON request body, captured when webhook signature validation is enabled */
+    rawBody?: Buffer
+  }
+}
+
+/**
+ * Seconds webhook senders are asked to wait before retrying when a message
+ * could not be accepted.
+ */
+const RETRY_AFTER_SECONDS = 5
+
+/**
+ * Security settings for the production (Cloud API) webhook.
+ */
+export interface CloudApiWebhookConfig {
+  /** Token Meta must echo in `hub.verify_token` during subscription verification */
+  verifyToken?: string
+  /** App secret used to validate the `X-Hub-Signature-256` header */
+  appSecret?: string
+}
 
 /**
  * Dependencies required by webhook controller.
@@ -20,6 +48,12 @@ export interface WebhookControllerDependencies {
   messageRouter: MessageRouter
   /** WhatsApp provider for normalizing webhook payloads */
   whatsappProvider: WhatsAppProvider
+  /** Optional Cloud API verification and signature settings for the prod webhook */
+  cloudApi?: CloudApiWebhookConfig
+  /** Durable inbound queue; when set, messages are stored and routed by its worker */
+  inboundQueue?: InboundQueue
+  /** Ignores messages delivered more than once (optional) */
+  deduplicator?: MessageDeduplicator
 }
 
 /**
@@ -35,10 +69,68 @@ export function registerWebhooks(
   app: FastifyInstance,
   dependencies: WebhookControllerDependencies
 ): void {
-  const { messageRouter, whatsappProvider } = dependencies
+  const { messageRouter, whatsappProvider, cloudApi, inboundQueue, deduplicator } = dependencies
+  const appSecret = cloudApi?.appSecret
+
+  /**
+   * Accepts an incoming message, skipping duplicate deliveries.
+   *
+   * A message that was not accepted is forgotten by the deduplicator, so
+   * the sender's retry is processed.
+   *
+   * @param message - The normalized incoming message
+   * @returns The routing result, `metadata.queued` once the message is stored,
+   *   or `metadata.duplicate` for a duplicate
+   */
+  const handleMessage = async (message: IncomingMessage): Promise<MessageHandlerResult> => {
+    if (deduplicator && await deduplicator.isDuplicate(message)) {
+      return { success: true, metadata: { skipped: true, duplicate: true } }
+    }
+
+    const result = await queueOrRoute(message)
+    if (deduplicator && getRetryLaterCode(result)) {
+      await deduplicator.forget(message)
+    }
+    return result
+  }
+
+  /**
+   * Stores a message in the inbound queue, or routes it right away without one.
+   *
+   * @param message - The normalized incoming message
+   * @returns The routing result, or `metadata.queued` once the message is stored
+   */
+  const queueOrRoute = async (message: IncomingMessage): Promise<MessageHandlerResult> => {
+    if (!inboundQueue) {
+      return messageRouter.routeMessage(message)
+    }
+
+    try {
+      await inboundQueue.submit(message)
+      return { success: true, metadata: { queued: true } }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('[WebhookController] Message could not be queued', {
+        messageId: message.id,
+        error: errorMessage,
+      })
+      return {
+        success: false,
+        error: errorMessage,
+        metadata: { queueUnavailable: true },
+      }
+    }
+  }
 
   if (isDebugMode()) {
-    logger.debug('[WebhookController] Registering webhooks with dependencies')
+    logger.debug('[WebhookController] Registering webhooks with dependencies', {
+      signatureValidation: !!appSecret,
+    })
+  }
+
+  // Signatures are computed over the exact bytes Meta sent, so keep them
+  if (appSecret) {
+    registerRawJsonBodyParser(app)
   }
   app.post('/webhooks/whatsapp/lab', async (request, reply) => {
     const body = request.body as unknown
@@ -54,8 +146,8 @@ export function registerWebhooks(
     const normalizedMessage = whatsappProvider.normalizeWebhook(body)
     
     if (normalizedMessage) {
-      // Route message through MessageRouter
-      const result = await messageRouter.routeMessage(normalizedMessage)
+      // Route message through MessageRouter (via the inbound queue, if enabled)
+      const result = await handleMessage(normalizedMessage)
       
       if (isDebugMode()) {
         logger.debug('[WebhookController] Message routed', {
@@ -70,14 +162,107 @@ export function registerWebhooks(
         channelId: normalizedMessage.channelId,
         success: result.success,
       })
+
+      const retryCode = getRetryLaterCode(result)
+      if (retryCode) {
+        sendRetryLater(reply, retryCode)
+        return
+      }
     }
     
     reply.code(200).send({ status: 'ok', received: true })
   })
 
-  app.post('/webhooks/whatsapp/prod', async (_request, reply) => {
-    // TODO: Handle WhatsApp Cloud API webhook (Phase 2)
-    reply.code(200).send({ status: 'ok' })
+  /**
+   * GET /webhooks/whatsapp/prod - Cloud API subscription verification.
+   *
+   * Meta calls this with `hub.mode=subscribe`, `hub.verify_token` and
+   * `hub.challenge` when the webhook is configured. The challenge is
+   * echoed back only if the token matches.
+   */
+  app.get('/webhooks/whatsapp/prod', async (request, reply) => {
+    const query = request.query as Record<string, string | undefined>
+    const mode = query['hub.mode']
+    const token = query['hub.verify_token']
+    const challenge = query['hub.challenge']
+
+    if (!cloudApi?.verifyToken) {
+      logger.warn('[WebhookController] Webhook verification requested but no verify token is configured')
+      reply.code(403).send({ error: 'Webhook verification not configured' })
+      return
+    }
+
+    if (mode !== 'subscribe' || token !== cloudApi.verifyToken || !challenge) {
+      logger.warn('[WebhookController] Webhook verification failed', {
+        mode,
+        hasToken: !!token,
+        hasChallenge: !!challenge,
+      })
+      reply.code(403).send({ error: 'Webhook verification failed' })
+      return
+    }
+
+    logger.info('[WebhookController] Webhook verification succeeded')
+    reply.type('text/plain').code(200).send(challenge)
+  })
+
+  app.post('/webhooks/whatsapp/prod', async (request, reply) => {
+    const body = request.body as unknown
+
+    if (appSecret) {
+      const signature = request.headers['x-hub-signature-256'] as string | undefined
+
+      if (!request.rawBody || !verifyCloudApiSignature(request.rawBody, signature, appSecret)) {
+        logger.warn('[WebhookController] Rejected prod webhook with invalid signature', {
+          ip: request.ip,
+          hasSignature: !!signature,
+          hasRawBody: !!request.rawBody,
+        })
+        reply.code(401).send({ error: 'Invalid signature' })
+        return
+      }
+    }
+
+    if (isDebugMode()) {
+      logger.debug('[WebhookController] Received prod webhook', {
+        body,
+      })
+    }
+
+    // Cloud API may batch several messages in a single delivery
+    const messages = whatsappProvider.normalizeWebhookBatch
+      ? whatsappProvider.normalizeWebhookBatch(body)
+      : [whatsappProvider.normalizeWebhook(body)].filter((m): m is IncomingMessage => m !== null)
+
+    // Started in order, so MessageRouter keeps the order within each chat
+    const results = await Promise.all(messages.map(async (message) => {
+      const result = await handleMessage(message)
+
+      logger.info('[WebhookController] Message processed via router', {
+        messageId: message.id,
+        channelId: message.channelId,
+        success: result.success,
+      })
+      return result
+    }))
+
+    const retryCodes = results.map(getRetryLaterCode)
+    const retryCode = retryCodes.find((code) => code !== null)
+    // Meta delivers the whole batch again, so the accepted messages must be skipped as duplicates
+    if (retryCode && (deduplicator || retryCodes.every((code) => code !== null))) {
+      sendRetryLater(reply, retryCode)
+      return
+    }
+
+    if (retryCode) {
+      logger.warn('[WebhookController] Messages dropped, retrying the batch would route accepted messages again', {
+        code: retryCode,
+        messageIds: messages.filter((_message, index) => retryCodes[index] !== null).map((message) => message.id),
+        received: messages.length,
+      })
+    }
+
+    reply.code(200).send({ status: 'ok', received: messages.length })
   })
 
   app.get('/health', async (_request, reply) => {
@@ -88,6 +273,59 @@ export function registerWebhooks(
   registerQREndpoints(app)
 }
 
+/**
+ * Tells whether the webhook sender should deliver a message again later.
+ *
+ * @param result - Result of handling the message
+ * @returns `QUEUE_FULL` or `QUEUE_UNAVAILABLE` (the message could not be stored), or null
+ */
+function getRetryLaterCode(result: MessageHandlerResult): 'QUEUE_FULL' | 'QUEUE_UNAVAILABLE' | null {
+  if (result.metadata?.queueFull) {
+    return 'QUEUE_FULL'
+  }
+  if (result.metadata?.queueUnavailable) {
+    return 'QUEUE_UNAVAILABLE'
+  }
+  return null
+}
+
+/**
+ * Asks the webhook sender to retry later.
+ *
+ * @param reply - Fastify reply
+ * @param code - Why the message was not accepted
+ */
+function sendRetryLater(reply: FastifyReply, code: 'QUEUE_FULL' | 'QUEUE_UNAVAILABLE'): void {
+  reply.code(503).header('Retry-After', String(RETRY_AFTER_SECONDS)).send({
+    error: code === 'QUEUE_FULL' ? 'Message queue is full' : 'Message could not be stored',
+    code,
+  })
+}
+
+/**
+ * Replaces the default JSON body parser with one that also keeps the
+ * raw request body on `request.rawBody` for signature validation.
+ *
+ * @param app - Fastify application instance
+ */
+function registerRawJsonBodyParser(app: FastifyInstance): void {
+  app.removeContentTypeParser('application/json')
+  app.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) => {
+    const rawBody = body as Buffer
+    request.rawBody = rawBody
+
+    try {
+      done(null, JSON.parse(rawBody.toString('utf8')))
+    } catch (error) {
+      const parseError = new Error(
+        `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`
+      ) as Error & { statusCode: number }
+      parseError.statusCode = 400
+      done(parseError, undefined)
+    }
+  })
+}
+
 /**
  * Registers QR code related endpoints for Baileys authentication.
  * 
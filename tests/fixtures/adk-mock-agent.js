@@ -7,6 +7,8 @@
  * 
  * Endpoints:
  *   - POST /run - Executes the agent and returns events (ADK format)
+ *   - POST /run_sse - Executes the agent and streams events as Server-Sent Events
+ *   - GET/POST /apps/{app}/users/{user}/sessions/{session} - Looks up or creates a session
  *   - GET /list-apps - Lists available agents (optional, for testing)
  * 
  * Safety mechanism: Limits responses to 3 messages to prevent sending messages to everyone.
@@ -55,6 +57,17 @@ const server = http.createServer((req, res) => {
     return
   }
 
+  if (req.url === '/run_sse' && req.method === 'POST') {
+    handleRunSse(req, res)
+    return
+  }
+
+  const sessionMatch = req.url.match(/^\/apps\/([^/]+)\/users\/([^/]+)\/sessions\/([^/]+)$/)
+  if (sessionMatch && (req.method === 'GET' || req.method === 'POST')) {
+    handleSession(req, res, sessionMatch.slice(1).map(decodeURIComponent))
+    return
+  }
+
   // Unknown endpoint
   res.writeHead(404, { 'Content-Type': 'application/json' })
   res.end(JSON.stringify({ error: 'Not found' }))
@@ -69,6 +82,52 @@ function handleListApps(req, res) {
   res.end(JSON.stringify(response))
 }
 
+/**
+ * Handles GET/POST /apps/{app}/users/{user}/sessions/{session} - Looks up
+ * or creates a session (POST body is the initial state)
+ */
+function handleSession(req, res, [appName, userId, sessionId]) {
+  if (appName !== APP_NAME) {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ detail: `Agent '${appName}' not found` }))
+    return
+  }
+
+  if (req.method === 'GET') {
+    const session = sessions.get(sessionId)
+    res.writeHead(session ? 200 : 404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(session ?? { detail: 'Session not found' }))
+    return
+  }
+
+  let body = ''
+  req.on('data', (chunk) => {
+    body += chunk.toString()
+  })
+
+  req.on('end', () => {
+    if (sessions.has(sessionId)) {
+      res.writeHead(409, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ detail: `Session already exists: ${sessionId}` }))
+      return
+    }
+
+    const session = {
+      id: sessionId,
+      appName,
+      userId,
+      state: body ? JSON.parse(body) : {},
+      events: [],
+      lastUpdateTime: Date.now() / 1000,
+    }
+    sessions.set(sessionId, session)
+    console.log(`[AdkMockAgent] Created session:`, { sessionId, state: session.state })
+
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(session))
+  })
+}
+
 /**
  * Handles POST /run - Executes the agent (ADK format)
  */
@@ -128,6 +187,10 @@ function handleRun(req, res) {
       }
 
       const session = sessions.get(sessionId)
+      if (request.state_delta) {
+        Object.assign(session.state, request.state_delta)
+        console.log(`[AdkMockAgent] Session state:`, session.state)
+      }
 
       // Check if we've reached the message limit
       if (messagesSentCount >= MAX_MESSAGES_TO_SEND) {
@@ -206,12 +269,108 @@ function handleRun(req, res) {
   })
 }
 
+/**
+ * Builds a model event (ADK format).
+ */
+function modelEvent(text, partial = false) {
+  return {
+    content: {
+      parts: [{ text }],
+      role: 'model',
+    },
+    invocationId: `e-${randomUUID()}`,
+    author: 'model',
+    ...(partial ? { partial: true } : {}),
+    actions: {
+      stateDelta: {},
+      artifactDelta: {},
+    },
+  }
+}
+
+/**
+ * Handles POST /run_sse - Executes the agent and streams events (ADK format)
+ *
+ * Sends an acknowledgement and then the echo as separate model events.
+ * With `streaming: true` the echo is sent word by word as partial events,
+ * followed by the complete event, as ADK does for token-level streaming.
+ */
+function handleRunSse(req, res) {
+  let body = ''
+  req.on('data', (chunk) => {
+    body += chunk.toString()
+  })
+
+  req.on('end', () => {
+    let request
+    try {
+      request = JSON.parse(body)
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'Invalid JSON or request format' }))
+      return
+    }
+
+    if (request.app_name !== APP_NAME) {
+      res.writeHead(404, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: `Agent '${request.app_name}' not found` }))
+      return
+    }
+
+    const messageText = request.new_message?.parts
+      ?.map((part) => part.text)
+      .filter(Boolean)
+      .join('') || ''
+
+    console.log(`[AdkMockAgent] Received ADK SSE request:`, {
+      session_id: request.session_id,
+      message: messageText,
+      streaming: request.streaming || false,
+    })
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+
+    // Same safety mechanism as /run: stop answering after the limit
+    if (messagesSentCount >= MAX_MESSAGES_TO_SEND) {
+      console.log(`[AdkMockAgent] Message limit reached (${MAX_MESSAGES_TO_SEND}). Logging only, no response sent.`)
+      res.end()
+      return
+    }
+    messagesSentCount++
+
+    const responseText = `Echo from ADK mock agent: ${messageText}`
+    const events = [modelEvent(`Received "${messageText}", thinking...`)]
+    if (request.streaming) {
+      const words = responseText.split(/(?<= )/)
+      events.push(...words.map((word) => modelEvent(word, true)))
+    }
+    events.push(modelEvent(responseText))
+
+    // Simulate a long-running agent emitting events over time
+    events.forEach((event, index) => {
+      setTimeout(() => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`)
+        if (index === events.length - 1) {
+          res.end()
+          console.log(`[AdkMockAgent] Streamed ${events.length} events (${messagesSentCount}/${MAX_MESSAGES_TO_SEND})`)
+        }
+      }, (index + 1) * 200)
+    })
+  })
+}
+
 server.listen(PORT, '0.0.0.0', () => {
   console.log(`[AdkMockAgent] Server running on http://0.0.0.0:${PORT}`)
   console.log(`[AdkMockAgent] App name: ${APP_NAME}`)
   console.log(`[AdkMockAgent] Endpoints:`)
   console.log(`[AdkMockAgent]   POST /run - Execute agent`)
+  console.log(`[AdkMockAgent]   POST /run_sse - Execute agent (Server-Sent Events)`)
   console.log(`[AdkMockAgent]   GET /list-apps - List available agents`)
+  console.log(`[AdkMockAgent]   GET/POST /apps/{app}/users/{user}/sessions/{session} - Look up or create a session`)
   console.log(`[AdkMockAgent] Ready to receive messages...`)
   console.log(`[AdkMockAgent] Press Ctrl+C to stop`)
 })
@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+/**
+ * OpenAI-compatible Mock Agent for testing wa2ai routing.
+ *
+ * This HTTP server simulates an OpenAI-compatible chat completions server
+ * (vLLM, LiteLLM, ...). Like those servers it is stateless: the reply echoes
+ * the last user message and reports how many user turns the request carried,
+ * which makes the history kept by wa2ai visible.
+ *
+ * Endpoints:
+ *   - POST /v1/chat/completions - Returns a chat completion (OpenAI format)
+ *   - GET /v1/models - Lists the served model
+ *
+ * Usage:
+ *   node tests/fixtures/openai-mock-agent.js [port] [model] [api_key]
+ *
+ * Default: port 8001, model "mock-model", no API key required
+ */
+
+import http from 'http'
+import { randomUUID } from 'crypto'
+
+const PORT = parseInt(process.argv[2] || '8001', 10)
+const MODEL = process.argv[3] || 'mock-model'
+const API_KEY = process.argv[4]
+
+const server = http.createServer((req, res) => {
+  if (API_KEY && req.headers.authorization !== `Bearer ${API_KEY}`) {
+    sendJson(res, 401, { error: { message: 'Invalid API key', type: 'invalid_request_error' } })
+    return
+  }
+
+  if (req.url === '/v1/models' && req.method === 'GET') {
+    sendJson(res, 200, { object: 'list', data: [{ id: MODEL, object: 'model' }] })
+    return
+  }
+
+  if (req.url === '/v1/chat/completions' && req.method === 'POST') {
+    handleChatCompletions(req, res)
+    return
+  }
+
+  sendJson(res, 404, { error: { message: 'Not found' } })
+})
+
+/**
+ * Writes a JSON response.
+ */
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Handles POST /v1/chat/completions
+ */
+function handleChatCompletions(req, res) {
+  let body = ''
+  req.on('data', (chunk) => {
+    body += chunk.toString()
+  })
+
+  req.on('end', () => {
+    try {
+      const request = JSON.parse(body)
+
+      if (!request.model || !Array.isArray(request.messages) || request.messages.length === 0) {
+        sendJson(res, 400, { error: { message: 'model and messages are required' } })
+        return
+      }
+
+      if (request.model !== MODEL) {
+        sendJson(res, 404, { error: { message: `The model '${request.model}' does not exist` } })
+        return
+      }
+
+      const userMessages = request.messages.filter((m) => m.role === 'user')
+      const lastMessage = userMessages[userMessages.length - 1]?.content ?? ''
+      const systemPrompt = request.messages.find((m) => m.role === 'system')?.content
+
+      console.log('[OpenAiMockAgent] Received chat completion request:', {
+        model: request.model,
+        messages: request.messages.length,
+        temperature: request.temperature,
+        systemPrompt,
+        message: lastMessage,
+      })
+
+      const content = `Echo from OpenAI mock agent (turn ${userMessages.length}): ${lastMessage}`
+
+      sendJson(res, 200, {
+        id: `chatcmpl-${randomUUID()}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: MODEL,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content },
+          finish_reason: 'stop',
+        }],
+        usage: {
+          prompt_tokens: request.messages.length,
+          completion_tokens: 1,
+          total_tokens: request.messages.length + 1,
+        },
+      })
+    } catch (error) {
+      console.error('[OpenAiMockAgent] Error processing request:', error)
+      sendJson(res, 400, { error: { message: 'Invalid JSON or request format' } })
+    }
+  })
+}
+
+server.listen(PORT, '0.0.0.0', () => {
+  console.log(`[OpenAiMockAgent] Server running on http://0.0.0.0:${PORT}`)
+  console.log(`[OpenAiMockAgent] Model: ${MODEL}`)
+  console.log(`[OpenAiMockAgent] Endpoints:`)
+  console.log(`[OpenAiMockAgent]   POST /v1/chat/completions - Chat completion`)
+  console.log(`[OpenAiMockAgent]   GET /v1/models - List models`)
+  console.log(`[OpenAiMockAgent] Press Ctrl+C to stop`)
+})
+
+server.on('error', (error) => {
+  if (error.code === 'EADDRINUSE') {
+    console.error(`[OpenAiMockAgent] Port ${PORT} is already in use`)
+  } else {
+    console.error('[OpenAiMockAgent] Server error:', error)
+  }
+  process.exit(1)
+})
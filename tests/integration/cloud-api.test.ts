@@ -0,0 +1,204 @@
+/**
+ * Integration tests for the WhatsApp Cloud API provider.
+ *
+ * Runs CloudApiProvider against a local HTTP server that stands in for
+ * the Meta Graph API, exercising real fetch calls end to end, and checks
+ * the prod webhook verification and signature validation on a real
+ * Fastify instance.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import http from 'http'
+import { createHmac } from 'crypto'
+import type { AddressInfo } from 'net'
+import fastify, { type FastifyInstance } from 'fastify'
+import { CloudApiProvider } from '../../router/src/providers/cloud-provider.js'
+import { registerWebhooks } from '../../router/src/webhooks-controller.js'
+import type { MessageRouter } from '../../router/src/core/message-router.js'
+
+interface RecordedRequest {
+  method?: string
+  url?: string
+  headers: http.IncomingHttpHeaders
+  body: unknown
+}
+
+describe('CloudApiProvider against local Graph stand-in', () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: RecordedRequest[]
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => {
+        body += chunk.toString()
+      })
+      req.on('end', () => {
+        requests.push({
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: body ? JSON.parse(body) : null,
+        })
+
+        if (req.headers.authorization !== 'Bearer valid-token') {
+          res.writeHead(401, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ error: { message: 'Invalid OAuth access token', code: 190 } }))
+          return
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          messaging_product: 'whatsapp',
+          contacts: [{ input: '5491155551234', wa_id: '5491155551234' }],
+          messages: [{ id: 'wamid.local' }],
+        }))
+      })
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    baseUrl = `http://127.0.0.1:${port}`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  beforeEach(() => {
+    requests = []
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should deliver a text message to /{phoneNumberId}/messages', async () => {
+    const provider = new CloudApiProvider({
+      accessToken: 'valid-token',
+      phoneNumberId: 'PHONE_ID',
+      apiUrl: baseUrl,
+      apiVersion: 'v21.0',
+    })
+
+    await provider.sendMessage({
+      to: '5491155551234',
+      channelId: '5491155551234',
+      text: 'Hello!',
+    })
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].method).toBe('POST')
+    expect(requests[0].url).toBe('/v21.0/PHONE_ID/messages')
+    expect(requests[0].body).toEqual({
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: '5491155551234',
+      type: 'text',
+      text: { preview_url: false, body: 'Hello!' },
+    })
+  })
+
+  it('should surface Graph API errors', async () => {
+    const provider = new CloudApiProvider({
+      accessToken: 'expired-token',
+      phoneNumberId: 'PHONE_ID',
+      apiUrl: baseUrl,
+    })
+
+    await expect(provider.sendMessage({
+      to: '5491155551234',
+      channelId: '5491155551234',
+      text: 'Hello!',
+    })).rejects.toThrow('Cloud API returned 401: Invalid OAuth access token')
+  })
+})
+
+describe('Prod webhook security on Fastify', () => {
+  const appSecret = 'integration-app-secret'
+  let app: FastifyInstance
+  let routeMessage: ReturnType<typeof vi.fn>
+
+  const payload = JSON.stringify({
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'WABA_ID',
+      changes: [{
+        field: 'messages',
+        value: {
+          metadata: { phone_number_id: 'PHONE_ID' },
+          contacts: [{ wa_id: '5491155551234', profile: { name: 'Ana' } }],
+          messages: [{ from: '5491155551234', id: 'wamid.1', timestamp: '1700000000', type: 'text', text: { body: 'Hola' } }],
+        },
+      }],
+    }],
+  })
+
+  const sign = (body: string, secret = appSecret) =>
+    `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    routeMessage = vi.fn().mockResolvedValue({ success: true })
+
+    app = fastify({ logger: false })
+    registerWebhooks(app, {
+      messageRouter: { routeMessage } as unknown as MessageRouter,
+      whatsappProvider: new CloudApiProvider({ accessToken: 'token', phoneNumberId: 'PHONE_ID' }),
+      cloudApi: { appSecret, verifyToken: 'verify-me' },
+    })
+    await app.ready()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    vi.restoreAllMocks()
+  })
+
+  it('should answer the subscription verification challenge', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/webhooks/whatsapp/prod?hub.mode=subscribe&hub.verify_token=verify-me&hub.challenge=42',
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body).toBe('42')
+  })
+
+  it('should route a webhook whose signature matches the raw body', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks/whatsapp/prod',
+      headers: { 'content-type': 'application/json', 'x-hub-signature-256': sign(payload) },
+      payload,
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(JSON.parse(response.body)).toEqual({ status: 'ok', received: 1 })
+    expect(routeMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'wamid.1', text: 'Hola' }))
+  })
+
+  it('should reject a webhook with a forged signature', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks/whatsapp/prod',
+      headers: { 'content-type': 'application/json', 'x-hub-signature-256': sign(payload, 'attacker') },
+      payload,
+    })
+
+    expect(response.statusCode).toBe(401)
+    expect(routeMessage).not.toHaveBeenCalled()
+  })
+
+  it('should reject a webhook whose body was altered after signing', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/webhooks/whatsapp/prod',
+      headers: { 'content-type': 'application/json', 'x-hub-signature-256': sign(payload) },
+      payload: payload.replace('Hola', 'Injected'),
+    })
+
+    expect(response.statusCode).toBe(401)
+    expect(routeMessage).not.toHaveBeenCalled()
+  })
+})
@@ -40,6 +40,9 @@ vi.mock('@whiskeysockets/baileys', () => ({
 // Mock fetch for agent client
 global.fetch = vi.fn()
 
+// ADK session lookup response (sessions are looked up before their first run)
+const adkSessionFound = { ok: true, status: 200, json: async () => ({}) }
+
 describe('Direct Routing Integration', () => {
   let routesRepository: InMemoryRoutesRepository
   let routerService: RouterService
@@ -100,7 +103,7 @@ describe('Direct Routing Integration', () => {
         },
       ]
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -117,8 +120,13 @@ describe('Direct Routing Integration', () => {
       // Route message
       const result = await messageRouter.routeMessage(incomingMessage)
 
-      // Verify agent was called with ADK format
-      expect(fetchMock).toHaveBeenCalledTimes(1)
+      // Verify the session was looked up and the agent called with ADK format
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(fetchMock).toHaveBeenNthCalledWith(
+        1,
+        'http://localhost:8000/apps/test_agent/users/test_user_123/sessions/test_user_123_s_whatsapp_net_test_channel_123',
+        expect.objectContaining({ method: 'GET' })
+      )
       expect(fetchMock).toHaveBeenCalledWith(
         'http://localhost:8000/run',
         expect.objectContaining({
@@ -164,6 +172,7 @@ describe('Direct Routing Integration', () => {
       ]
 
       fetchMock
+        .mockResolvedValueOnce(adkSessionFound)
         .mockResolvedValueOnce({
           ok: true,
           json: async () => adkResponse1,
@@ -192,7 +201,8 @@ describe('Direct Routing Integration', () => {
       const result1 = await messageRouter.routeMessage(message1)
       const result2 = await messageRouter.routeMessage(message2)
 
-      expect(fetchMock).toHaveBeenCalledTimes(2)
+      // The session is only looked up for the first message
+      expect(fetchMock).toHaveBeenCalledTimes(3)
       expect(result1.response).toBe('Response 1')
       expect(result2.response).toBe('Response 2')
     })
@@ -212,7 +222,7 @@ describe('Direct Routing Integration', () => {
       await routesRepository.addRoute(route)
 
       // Mock ADK HTTP error (404 - agent not found)
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: false,
         status: 404,
         text: async () => 'Agent not found',
@@ -320,7 +330,7 @@ describe('Direct Routing Integration', () => {
         },
       ]
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -372,6 +382,7 @@ describe('Direct Routing Integration', () => {
       await routesRepository.addRoute(route2)
 
       fetchMock
+        .mockResolvedValueOnce(adkSessionFound)
         .mockResolvedValueOnce({
           ok: true,
           json: async () => [
@@ -383,6 +394,7 @@ describe('Direct Routing Integration', () => {
             },
           ],
         })
+        .mockResolvedValueOnce(adkSessionFound)
         .mockResolvedValueOnce({
           ok: true,
           json: async () => [
@@ -414,9 +426,9 @@ describe('Direct Routing Integration', () => {
       const result1 = await messageRouter.routeMessage(message1)
       const result2 = await messageRouter.routeMessage(message2)
 
-      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(fetchMock).toHaveBeenCalledTimes(4)
       expect(fetchMock).toHaveBeenNthCalledWith(
-        1,
+        2,
         'http://localhost:8000/run',
         expect.objectContaining({
           method: 'POST',
@@ -424,7 +436,7 @@ describe('Direct Routing Integration', () => {
         })
       )
       expect(fetchMock).toHaveBeenNthCalledWith(
-        2,
+        4,
         'http://localhost:8000/run',
         expect.objectContaining({
           method: 'POST',
@@ -19,6 +19,9 @@ import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.j
 // Mock fetch for agent client
 global.fetch = vi.fn()
 
+// ADK session lookup response (sessions are looked up before their first run)
+const adkSessionFound = { ok: true, status: 200, json: async () => ({}) }
+
 describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
   let routesRepository: InMemoryRoutesRepository
   let routerService: RouterService
@@ -88,7 +91,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
         },
       ]
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -105,8 +108,8 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
       // Route message
       const result = await messageRouter.routeMessage(incomingMessage)
 
-      // Verify agent was called with ADK format
-      expect(fetchMock).toHaveBeenCalledTimes(1)
+      // Verify the session was looked up and the agent called with ADK format
+      expect(fetchMock).toHaveBeenCalledTimes(2)
       expect(fetchMock).toHaveBeenCalledWith(
         'http://localhost:8000/run',
         expect.objectContaining({
@@ -138,6 +141,53 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
       expect(result.response).toBe('Hello from agent!')
     })
 
+    it('should send each streamed ADK reply through provider as it arrives', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        config: {
+          adk: {
+            appName: 'test_agent',
+            streaming: true,
+          },
+        },
+        environment: 'lab',
+      }
+      await routesRepository.addRoute(route)
+
+      const modelEvent = (text: string) => ({
+        content: { parts: [{ text }], role: 'model' },
+        invocationId: 'e-stream-1',
+        author: 'model',
+      })
+      const sentBeforeSecondEvent: number[] = []
+
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce(new Response(new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const encoder = new TextEncoder()
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(modelEvent('Looking that up...'))}\n\n`))
+          // Let the first reply reach the provider before the run finishes
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          sentBeforeSecondEvent.push(sendMessageSpy.mock.calls.length)
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(modelEvent('Found it!'))}\n\n`))
+          controller.close()
+        },
+      })))
+
+      const result = await messageRouter.routeMessage({
+        id: 'MSG_STREAM',
+        from: 'test-user-123@s.whatsapp.net',
+        channelId: 'test-channel-123',
+        text: 'Find my order',
+        timestamp: new Date(),
+      })
+
+      expect(result.success).toBe(true)
+      expect(fetchMock).toHaveBeenCalledWith('http://localhost:8000/run_sse', expect.anything())
+      expect(sentBeforeSecondEvent).toEqual([1])
+      expect(sendMessageSpy.mock.calls.map(([sent]) => sent.text)).toEqual(['Looking that up...', 'Found it!'])
+    })
+
     it('should not send message through provider if agent does not respond', async () => {
       // Setup route with ADK config
       const route: Route = {
@@ -156,7 +206,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
       // Mock ADK response with no model events (empty array or only user events)
       const adkResponse: any[] = []
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -174,7 +224,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
       const result = await messageRouter.routeMessage(incomingMessage)
 
       // Verify agent was called
-      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
 
       // Verify provider.sendMessage was NOT called (no response from agent)
       expect(sendMessageSpy).not.toHaveBeenCalled()
@@ -200,7 +250,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
       await routesRepository.addRoute(route)
 
       // Mock ADK HTTP error (404 - agent not found)
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: false,
         status: 404,
         text: async () => 'Agent not found',
@@ -219,7 +269,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
       const result = await messageRouter.routeMessage(incomingMessage)
 
       // Verify agent was called
-      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
 
       // Verify provider.sendMessage was NOT called (agent failed)
       expect(sendMessageSpy).not.toHaveBeenCalled()
@@ -260,7 +310,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
         },
       ]
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -282,7 +332,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
       const result = await messageRouter.routeMessage(incomingMessage)
 
       // Verify agent was called
-      expect(fetchMock).toHaveBeenCalledTimes(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
 
       // Verify provider.sendMessage was called (but failed)
       expect(sendMessageSpy).toHaveBeenCalledTimes(1)
@@ -323,7 +373,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
         },
       ]
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -384,7 +434,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
         },
       ]
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -438,7 +488,7 @@ describe('Message Sending Flow (wa2ai → Provider → WhatsApp)', () => {
         },
       ]
 
-      fetchMock.mockResolvedValueOnce({
+      fetchMock.mockResolvedValueOnce(adkSessionFound).mockResolvedValueOnce({
         ok: true,
         json: async () => adkResponse,
       })
@@ -0,0 +1,154 @@
+/**
+ * Integration tests for OpenAI-compatible agents.
+ *
+ * Routes messages through MessageRouter to a local HTTP server that stands
+ * in for a stateless chat completions server (vLLM, LiteLLM), exercising
+ * real fetch calls and the per-session history kept by wa2ai.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { InMemoryRoutesRepository } from '../../router/src/core/routes-repository.js'
+import { RouterService } from '../../router/src/core/router-service.js'
+import { MessageRouter } from '../../router/src/core/message-router.js'
+import { HttpAgentClientFactory } from '../../router/src/infra/agent-client-factory.js'
+import type { IncomingMessage, OutgoingMessage } from '../../router/src/core/models.js'
+import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.js'
+
+interface ChatRequest {
+  model: string
+  messages: Array<{ role: string; content: string }>
+  temperature?: number
+}
+
+describe('OpenAI-compatible agent against local chat completions stand-in', () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: Array<{ url?: string; authorization?: string; body: ChatRequest }>
+  let messageRouter: MessageRouter
+  let sendMessageSpy: ReturnType<typeof vi.fn<[OutgoingMessage], Promise<void>>>
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => {
+        body += chunk.toString()
+      })
+      req.on('end', () => {
+        const request = JSON.parse(body) as ChatRequest
+        requests.push({ url: req.url, authorization: req.headers.authorization, body: request })
+
+        if (req.url !== '/v1/chat/completions') {
+          res.writeHead(404, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ error: { message: 'Not found' } }))
+          return
+        }
+
+        const userMessages = request.messages.filter((m) => m.role === 'user')
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          id: `chatcmpl-${requests.length}`,
+          object: 'chat.completion',
+          model: request.model,
+          choices: [{
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: `Turn ${userMessages.length}: ${userMessages[userMessages.length - 1].content}`,
+            },
+            finish_reason: 'stop',
+          }],
+        }))
+      })
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    baseUrl = `http://127.0.0.1:${port}`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  beforeEach(async () => {
+    requests = []
+
+    const routesRepository = new InMemoryRoutesRepository()
+    await routesRepository.addRoute({
+      channelId: 'openai-channel',
+      agentEndpoint: baseUrl,
+      environment: 'lab',
+      config: {
+        type: 'openai',
+        openai: {
+          model: 'llama-3.1-8b',
+          systemPrompt: 'You are a WhatsApp assistant.',
+          temperature: 0.3,
+          apiKey: 'sk-local',
+        },
+      },
+    })
+
+    sendMessageSpy = vi.fn<[OutgoingMessage], Promise<void>>().mockResolvedValue(undefined)
+    const whatsappProvider: WhatsAppProvider = {
+      sendMessage: sendMessageSpy,
+      normalizeWebhook: vi.fn().mockReturnValue(null),
+    }
+
+    messageRouter = new MessageRouter(new RouterService(routesRepository), {
+      whatsappProvider,
+      agentClientFactory: new HttpAgentClientFactory(),
+    })
+  })
+
+  /**
+   * Builds an incoming message for the OpenAI route.
+   */
+  function incoming(text: string, from = '5491155551234@s.whatsapp.net'): IncomingMessage {
+    return {
+      id: `msg-${text}`,
+      from,
+      channelId: 'openai-channel',
+      text,
+      timestamp: new Date(),
+    }
+  }
+
+  it('should reply with the chat completion', async () => {
+    const result = await messageRouter.routeMessage(incoming('Hello'))
+
+    expect(result.success).toBe(true)
+    expect(requests).toHaveLength(1)
+    expect(requests[0].authorization).toBe('Bearer sk-local')
+    expect(requests[0].body).toEqual(expect.objectContaining({
+      model: 'llama-3.1-8b',
+      temperature: 0.3,
+      messages: [
+        { role: 'system', content: 'You are a WhatsApp assistant.' },
+        { role: 'user', content: 'Hello' },
+      ],
+    }))
+    expect(sendMessageSpy).toHaveBeenCalledWith(expect.objectContaining({
+      to: '5491155551234@s.whatsapp.net',
+      channelId: 'openai-channel',
+      text: 'Turn 1: Hello',
+    }))
+  })
+
+  it('should carry the conversation history across messages', async () => {
+    await messageRouter.routeMessage(incoming('Hello'))
+    await messageRouter.routeMessage(incoming('How are you?'))
+    await messageRouter.routeMessage(incoming('Hi', '5491166667777@s.whatsapp.net'))
+
+    expect(requests[1].body.messages).toEqual([
+      { role: 'system', content: 'You are a WhatsApp assistant.' },
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Turn 1: Hello' },
+      { role: 'user', content: 'How are you?' },
+    ])
+    expect(sendMessageSpy).toHaveBeenNthCalledWith(2, expect.objectContaining({ text: 'Turn 2: How are you?' }))
+    expect(sendMessageSpy).toHaveBeenNthCalledWith(3, expect.objectContaining({ text: 'Turn 1: Hi' }))
+  })
+})
@@ -145,7 +145,8 @@ describe('WhatsApp Providers', () => {
 
       expect(mockConnectionService.sendTextMessage).toHaveBeenCalledWith(
         '1234567890@s.whatsapp.net',
-        'Test message'
+        'Test message',
+        {}
       )
     })
 
@@ -186,20 +187,31 @@ describe('WhatsApp Providers', () => {
       expect(provider).toBeInstanceOf(CloudApiProvider)
     })
 
-    it('should throw error when sendMessage is called (not yet implemented)', async () => {
+    it('should send message successfully via Cloud API', async () => {
       const provider = new CloudApiProvider({
         accessToken: 'test-token',
         phoneNumberId: 'test-phone-id',
       })
 
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({
+          messaging_product: 'whatsapp',
+          messages: [{ id: 'wamid.test' }],
+        }),
+      })
+
       const message: OutgoingMessage = {
         to: '1234567890',
         channelId: 'channel-1',
         text: 'Test',
       }
 
-      await expect(provider.sendMessage(message)).rejects.toThrow(
-        'CloudApiProvider.sendMessage not yet implemented'
+      await expect(provider.sendMessage(message)).resolves.toBe('wamid.test')
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://graph.facebook.com/v21.0/test-phone-id/messages',
+        expect.objectContaining({ method: 'POST' })
       )
     })
   })
@@ -176,7 +176,20 @@ describe('wa2ai Smoke Tests', () => {
     it('should respond to POST /api/routes with valid data', async () => {
       // Setup mock for addRoute
       mockClient.query
-        .mockResolvedValueOnce({ rows: [], rowCount: 1 }) // INSERT
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'route-smoke',
+            channel_id: 'test-channel-smoke',
+            priority: 0,
+            agent_endpoint: 'http://localhost:8000/agent',
+            environment: 'lab',
+            regex_filter: null,
+            config: null,
+            created_at: new Date(),
+            updated_at: new Date(),
+          }],
+          rowCount: 1,
+        }) // INSERT ... RETURNING
         .mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1 }) // COUNT
 
       const routeData = {
@@ -197,13 +210,16 @@ describe('wa2ai Smoke Tests', () => {
       expect(body.success).toBe(true)
       expect(body).toHaveProperty('data')
       expect(body.data.channelId).toBe(routeData.channelId)
+      expect(body.data.id).toBe('route-smoke')
     })
 
-    it('should respond to GET /api/routes/:channelId', async () => {
-      // Setup mock for findByChannelId - must be called before the request
+    it('should respond to GET /api/routes/:id', async () => {
+      // Setup mock for findById - must be called before the request
       mockClient.query.mockResolvedValueOnce({
         rows: [{
+          id: 'route-get',
           channel_id: 'test-channel-get',
+          priority: 0,
           agent_endpoint: 'http://localhost:8000/agent',
           environment: 'lab',
           regex_filter: null,
@@ -216,7 +232,7 @@ describe('wa2ai Smoke Tests', () => {
 
       const response = await app.inject({
         method: 'GET',
-        url: '/api/routes/test-channel-get',
+        url: '/api/routes/route-get',
       })
 
       expect(response.statusCode).toBe(200)
@@ -225,10 +241,11 @@ describe('wa2ai Smoke Tests', () => {
       expect(body.success).toBe(true)
       expect(body).toHaveProperty('data')
       expect(body.data.channelId).toBe('test-channel-get')
+      expect(body.data.id).toBe('route-get')
     })
 
     it('should return 404 for non-existent route', async () => {
-      // Setup mock for findByChannelId returning empty result
+      // Setup mock for findById returning empty result
       mockClient.query.mockResolvedValueOnce({
         rows: [],
         rowCount: 0,
@@ -236,7 +253,7 @@ describe('wa2ai Smoke Tests', () => {
 
       const response = await app.inject({
         method: 'GET',
-        url: '/api/routes/non-existent-channel',
+        url: '/api/routes/non-existent-route',
       })
 
       expect(response.statusCode).toBe(404)
@@ -0,0 +1,122 @@
+/**
+ * Integration tests for generic JSON webhook agents.
+ *
+ * Routes messages through MessageRouter to a local HTTP server that stands
+ * in for an internal bot with its own JSON format, exercising real fetch
+ * calls and the request/response mapping taken from route config.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { InMemoryRoutesRepository } from '../../router/src/core/routes-repository.js'
+import { RouterService } from '../../router/src/core/router-service.js'
+import { MessageRouter } from '../../router/src/core/message-router.js'
+import { HttpAgentClientFactory } from '../../router/src/infra/agent-client-factory.js'
+import type { OutgoingMessage } from '../../router/src/core/models.js'
+import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.js'
+
+interface RecordedRequest {
+  method?: string
+  url?: string
+  headers: http.IncomingHttpHeaders
+  body: Record<string, unknown>
+}
+
+describe('Webhook agent against local bot stand-in', () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: RecordedRequest[]
+  let routesRepository: InMemoryRoutesRepository
+  let messageRouter: MessageRouter
+  let sendMessageSpy: ReturnType<typeof vi.fn<[OutgoingMessage], Promise<void>>>
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => {
+        body += chunk.toString()
+      })
+      req.on('end', () => {
+        const request = JSON.parse(body) as Record<string, unknown>
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body: request })
+
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({
+          status: 'ok',
+          reply: { text: `Ticket opened for ${request.customer}: ${request.question}` },
+        }))
+      })
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    baseUrl = `http://127.0.0.1:${port}`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  beforeEach(() => {
+    requests = []
+    routesRepository = new InMemoryRoutesRepository()
+
+    sendMessageSpy = vi.fn<[OutgoingMessage], Promise<void>>().mockResolvedValue(undefined)
+    const whatsappProvider: WhatsAppProvider = {
+      sendMessage: sendMessageSpy,
+      normalizeWebhook: vi.fn().mockReturnValue(null),
+    }
+
+    messageRouter = new MessageRouter(new RouterService(routesRepository), {
+      whatsappProvider,
+      agentClientFactory: new HttpAgentClientFactory(),
+    })
+  })
+
+  it('should map the message into the bot format and send its reply', async () => {
+    await routesRepository.addRoute({
+      channelId: 'support-channel',
+      agentEndpoint: `${baseUrl}/unused`,
+      environment: 'lab',
+      config: {
+        type: 'webhook',
+        webhook: {
+          url: `${baseUrl}/tickets`,
+          method: 'PUT',
+          headers: { 'X-Api-Key': 'internal-secret' },
+          bodyTemplate: {
+            customer: '{{metadata.pushName}}',
+            question: '{{text}}',
+            source: { channel: '{{channelId}}', messageId: '{{id}}' },
+          },
+          responsePath: '$.reply.text',
+        },
+      },
+    })
+
+    const result = await messageRouter.routeMessage({
+      id: 'MSG123',
+      from: '5491155551234@s.whatsapp.net',
+      channelId: 'support-channel',
+      text: 'My order is late',
+      timestamp: new Date(),
+      metadata: { pushName: 'Ana' },
+    })
+
+    expect(result.success).toBe(true)
+    expect(requests).toHaveLength(1)
+    expect(requests[0].method).toBe('PUT')
+    expect(requests[0].url).toBe('/tickets')
+    expect(requests[0].headers['x-api-key']).toBe('internal-secret')
+    expect(requests[0].body).toEqual({
+      customer: 'Ana',
+      question: 'My order is late',
+      source: { channel: 'support-channel', messageId: 'MSG123' },
+    })
+    expect(sendMessageSpy).toHaveBeenCalledWith(expect.objectContaining({
+      to: '5491155551234@s.whatsapp.net',
+      text: 'Ticket opened for Ana: My order is late',
+    }))
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for ADK reply content mapping.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  CONTACT_MIME_TYPE,
+  LOCATION_MIME_TYPE,
+  getOutgoingMediaType,
+  getPartContents,
+  toOutgoingContent,
+} from '../../router/src/infra/adk-content.js'
+
+/**
+ * Encodes a value as base64 JSON.
+ */
+const json = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64')
+
+describe('getOutgoingMediaType', () => {
+  it('should map MIME families and fall back to document', () => {
+    expect(getOutgoingMediaType('image/webp')).toBe('image')
+    expect(getOutgoingMediaType('video/mp4')).toBe('video')
+    expect(getOutgoingMediaType('audio/ogg; codecs=opus')).toBe('audio')
+    expect(getOutgoingMediaType('application/pdf')).toBe('document')
+  })
+})
+
+describe('toOutgoingContent', () => {
+  it('should convert URL-safe base64 and use the display name', () => {
+    expect(toOutgoingContent({ mime_type: 'text/csv', data: 'a-b_', display_name: 'sales.csv' })).toEqual({
+      type: 'document',
+      mimeType: 'text/csv',
+      data: 'a+b/',
+      filename: 'sales.csv',
+    })
+  })
+
+  it('should parse locations', () => {
+    expect(toOutgoingContent({
+      mimeType: LOCATION_MIME_TYPE,
+      data: json({ latitude: -34.6, longitude: -58.38, name: 'Office', address: 7 }),
+    })).toEqual({ type: 'location', latitude: -34.6, longitude: -58.38, name: 'Office' })
+  })
+
+  it('should parse contacts', () => {
+    expect(toOutgoingContent({ mimeType: CONTACT_MIME_TYPE, data: json({ name: 'Support', phone: '+5491155550000' }) }))
+      .toEqual({ type: 'contact', name: 'Support', phone: '+5491155550000' })
+  })
+
+  it('should return null for missing or malformed data', () => {
+    expect(toOutgoingContent({ mimeType: 'image/png' })).toBeNull()
+    expect(toOutgoingContent({ mimeType: LOCATION_MIME_TYPE, data: json({ latitude: '1', longitude: 2 }) })).toBeNull()
+    expect(toOutgoingContent({ mimeType: CONTACT_MIME_TYPE, data: Buffer.from('not json').toString('base64') })).toBeNull()
+  })
+})
+
+describe('getPartContents', () => {
+  it('should return the contents of inline data parts in order', () => {
+    expect(getPartContents([
+      { text: 'Here you go' },
+      { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+      { inline_data: { mime_type: 'audio/mpeg' } },
+      { inline_data: { mime_type: 'audio/mpeg', data: 'BBBB' } },
+    ])).toEqual([
+      { type: 'image', mimeType: 'image/png', data: 'AAAA' },
+      { type: 'audio', mimeType: 'audio/mpeg', data: 'BBBB' },
+    ])
+  })
+})
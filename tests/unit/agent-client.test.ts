@@ -3,13 +3,46 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { HttpAgentClient } from '../../router/src/infra/http-agent-client.js'
+import { AdkSessionCache, HttpAgentClient, buildWhatsAppState } from '../../router/src/infra/http-agent-client.js'
 import type { AgentClient } from '../../router/src/core/agent-client.js'
 import type { IncomingMessage } from '../../router/src/core/models.js'
+import type { MediaStore } from '../../router/src/core/media-store.js'
 
 // Mock fetch globally
 global.fetch = vi.fn()
 
+describe('buildWhatsAppState', () => {
+  it('should include group context and leave out missing fields', () => {
+    expect(buildWhatsAppState({
+      id: 'MSG001',
+      from: '120363025246125486@g.us',
+      channelId: '120363025246125486',
+      text: 'Hi all',
+      timestamp: new Date(),
+      metadata: { participant: '5491155551234@s.whatsapp.net', pushName: '' },
+    })).toEqual({
+      whatsapp: {
+        channelId: '120363025246125486',
+        isGroup: true,
+        participant: '5491155551234@s.whatsapp.net',
+      },
+    })
+  })
+})
+
+describe('AdkSessionCache', () => {
+  it('should drop the oldest session when full', () => {
+    const cache = new AdkSessionCache({ maxSessions: 2 })
+    cache.add('a')
+    cache.add('b')
+    cache.add('c')
+
+    expect(cache.has('a')).toBe(false)
+    expect(cache.has('c')).toBe(true)
+    expect(cache.size).toBe(2)
+  })
+})
+
 describe('HttpAgentClient', () => {
   let client: AgentClient
   let fetchMock: ReturnType<typeof vi.fn>
@@ -187,6 +220,442 @@ describe('HttpAgentClient', () => {
     })
   })
 
+  describe('sendMessage with replyMode', () => {
+    const mockMessage: IncomingMessage = {
+      id: 'MSG001',
+      from: 'test-user-123@s.whatsapp.net',
+      channelId: 'test-channel-123',
+      text: 'Hello, agent!',
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+    }
+
+    const events = [
+      { content: { parts: [{ text: 'Hello, agent!' }], role: 'user' }, invocationId: 'e-1', author: 'user' },
+      { content: { parts: [{ text: 'On it.' }], role: 'model' }, invocationId: 'e-1', author: 'model' },
+      { content: { parts: [{}], role: 'model' }, invocationId: 'e-1', author: 'model' },
+      { content: { parts: [{ text: 'Handing over to ' }, { text: 'billing.' }], role: 'model' }, invocationId: 'e-1', author: 'model' },
+      { content: { parts: [{ text: 'Your invoice is paid.' }], role: 'model' }, invocationId: 'e-2', author: 'model' },
+    ]
+
+    it('should return every model event with text as an ordered part in "all" mode', async () => {
+      const allClient = new HttpAgentClient({
+        adk: { appName: 'test_agent', baseUrl: 'http://localhost:8000', replyMode: 'all' },
+      })
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => events })
+
+      const result = await allClient.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(result.parts).toEqual([
+        { text: 'On it.' },
+        { text: 'Handing over to billing.' },
+        { text: 'Your invoice is paid.' },
+      ])
+      expect(result.response).toBe('On it.\n\nHanding over to billing.\n\nYour invoice is paid.')
+      expect(result.metadata?.adk).toEqual(expect.objectContaining({ replyCount: 3, invocationId: 'e-2' }))
+    })
+
+    it('should only return the last model event by default', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => events })
+
+      const result = await client.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(result.response).toBe('Your invoice is paid.')
+      expect(result.parts).toBeUndefined()
+    })
+  })
+
+  describe('sendMessage with streaming', () => {
+    const mockMessage: IncomingMessage = {
+      id: 'MSG001',
+      from: 'test-user-123@s.whatsapp.net',
+      channelId: 'test-channel-123',
+      text: 'Hello, agent!',
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+    }
+
+    /**
+     * Builds a model (or user) ADK event.
+     */
+    const adkEvent = (text: string, options: { author?: 'user' | 'model'; partial?: boolean } = {}) => ({
+      content: { parts: [{ text }], role: options.author ?? 'model' },
+      invocationId: 'e-stream-1',
+      author: options.author ?? 'model',
+      ...(options.partial ? { partial: true } : {}),
+    })
+
+    /**
+     * Builds an SSE response whose body is delivered in the given chunks.
+     */
+    const sseResponse = (chunks: string[]) => new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        const encoder = new TextEncoder()
+        for (const chunk of chunks) {
+          controller.enqueue(encoder.encode(chunk))
+        }
+        controller.close()
+      },
+    }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+
+    /**
+     * Serializes events as SSE data lines.
+     */
+    const sse = (...events: unknown[]) => events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('')
+
+    /**
+     * Creates a streaming client.
+     */
+    const streamingClient = (streamingChunks?: 'message' | 'sentence', timeout = 30000) => new HttpAgentClient({
+      timeout,
+      adk: {
+        appName: 'test_agent',
+        baseUrl: 'http://localhost:8000',
+        streaming: true,
+        streamingChunks,
+      },
+    })
+
+    it('should post to /run_sse and deliver each model event', async () => {
+      fetchMock.mockResolvedValueOnce(sseResponse([
+        sse(adkEvent('Hello, agent!', { author: 'user' }), adkEvent('Let me check.'), adkEvent('It is sunny.')),
+      ]))
+      const onReply = vi.fn().mockResolvedValue(undefined)
+
+      const result = await streamingClient().sendMessage('http://localhost:8000', mockMessage, { onReply })
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:8000/run_sse',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Accept: 'text/event-stream' }),
+        })
+      )
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).streaming).toBe(false)
+      expect(onReply.mock.calls).toEqual([['Let me check.'], ['It is sunny.']])
+      expect(result).toEqual(expect.objectContaining({
+        success: true,
+        response: 'Let me check.\n\nIt is sunny.',
+        streamed: true,
+      }))
+      expect(result.metadata?.adk).toEqual(expect.objectContaining({ eventCount: 3, replyCount: 2, streaming: true }))
+    })
+
+    it('should deliver sentence-sized chunks of partial events', async () => {
+      fetchMock.mockResolvedValueOnce(sseResponse([
+        sse(adkEvent('Hello wor', { partial: true }), adkEvent('ld. How are', { partial: true })),
+        sse(adkEvent(' you? Fine', { partial: true }), adkEvent('Hello world. How are you? Fine')),
+      ]))
+      const onReply = vi.fn().mockResolvedValue(undefined)
+
+      await streamingClient('sentence').sendMessage('http://localhost:8000', mockMessage, { onReply })
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).streaming).toBe(true)
+      expect(onReply.mock.calls).toEqual([['Hello world.'], ['How are you?'], ['Fine']])
+    })
+
+    it('should parse events split across chunks', async () => {
+      const payload = sse(adkEvent('Split reply'))
+      fetchMock.mockResolvedValueOnce(sseResponse([payload.slice(0, 20), payload.slice(20)]))
+      const onReply = vi.fn().mockResolvedValue(undefined)
+
+      await streamingClient().sendMessage('http://localhost:8000', mockMessage, { onReply })
+
+      expect(onReply).toHaveBeenCalledWith('Split reply')
+    })
+
+    it('should return the joined replies without onReply', async () => {
+      fetchMock.mockResolvedValueOnce(sseResponse([sse(adkEvent('One.'), adkEvent('Two.'))]))
+
+      const result = await streamingClient().sendMessage('http://localhost:8000', mockMessage)
+
+      expect(result.response).toBe('One.\n\nTwo.')
+      expect(result.streamed).toBe(false)
+    })
+
+    it('should throw when the run reports an error', async () => {
+      fetchMock.mockResolvedValueOnce(sseResponse([sse({ error: 'Tool failed' })]))
+
+      await expect(streamingClient().sendMessage('http://localhost:8000', mockMessage)).rejects.toThrow(
+        'Failed to send message to ADK agent: ADK run failed: Tool failed'
+      )
+    })
+
+    it('should time out when the stream goes idle', async () => {
+      fetchMock.mockImplementationOnce(async (_url: string, init: RequestInit) => new Response(new ReadableStream({
+        start(controller) {
+          init.signal?.addEventListener('abort', () => {
+            const error = new Error('aborted')
+            error.name = 'AbortError'
+            controller.error(error)
+          })
+        },
+      })))
+
+      await expect(streamingClient('message', 10).sendMessage('http://localhost:8000', mockMessage)).rejects.toThrow(
+        'ADK stream timed out after 10ms without events'
+      )
+    })
+  })
+
+  describe('sendMessage with sessions', () => {
+    const mockMessage: IncomingMessage = {
+      id: 'MSG001',
+      from: '5491155551234@s.whatsapp.net',
+      channelId: '5491155551234',
+      text: 'Hello, agent!',
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      metadata: { messageType: 'conversation', pushName: 'Ana', isGroup: false },
+    }
+
+    const sessionUrl = 'http://localhost:8000/apps/test_agent/users/5491155551234/sessions/5491155551234_s_whatsapp_net_5491155551234'
+    const runResponse = {
+      ok: true,
+      json: async () => [
+        { content: { parts: [{ text: 'Hi Ana!' }], role: 'model' }, invocationId: 'e-1', author: 'model' },
+      ],
+    }
+
+    let sessions: AdkSessionCache
+    let sessionClient: HttpAgentClient
+
+    beforeEach(() => {
+      sessions = new AdkSessionCache()
+      sessionClient = new HttpAgentClient({
+        adk: { appName: 'test_agent', baseUrl: 'http://localhost:8000', sessions },
+      })
+    })
+
+    it('should send the WhatsApp context in state_delta', async () => {
+      fetchMock.mockResolvedValueOnce(runResponse)
+
+      await client.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).state_delta).toEqual({
+        whatsapp: {
+          channelId: '5491155551234',
+          isGroup: false,
+          pushName: 'Ana',
+          messageType: 'conversation',
+        },
+      })
+    })
+
+    it('should create a missing session with the WhatsApp state before the first run', async () => {
+      fetchMock
+        .mockResolvedValueOnce({ ok: false, status: 404, text: async () => '{"detail":"Session not found"}' })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) })
+        .mockResolvedValueOnce(runResponse)
+
+      const result = await sessionClient.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(result.response).toBe('Hi Ana!')
+      expect(fetchMock.mock.calls.map(([url, init]) => [url, init.method])).toEqual([
+        [sessionUrl, 'GET'],
+        [sessionUrl, 'POST'],
+        ['http://localhost:8000/run', 'POST'],
+      ])
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual(buildWhatsAppState(mockMessage))
+      expect(sessions.size).toBe(1)
+    })
+
+    it('should only look up a session once', async () => {
+      fetchMock
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) })
+        .mockResolvedValueOnce(runResponse)
+        .mockResolvedValueOnce(runResponse)
+
+      await sessionClient.sendMessage('http://localhost:8000', mockMessage)
+      await sessionClient.sendMessage('http://localhost:8000', { ...mockMessage, id: 'MSG002' })
+
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      expect(fetchMock.mock.calls[2][0]).toBe('http://localhost:8000/run')
+    })
+
+    it('should treat a session created concurrently as existing', async () => {
+      fetchMock
+        .mockResolvedValueOnce({ ok: false, status: 404, text: async () => 'Session not found' })
+        .mockResolvedValueOnce({ ok: false, status: 409, text: async () => 'Session already exists' })
+        .mockResolvedValueOnce(runResponse)
+
+      const result = await sessionClient.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(result.success).toBe(true)
+      expect(sessions.size).toBe(1)
+    })
+
+    it('should create the session again when the server lost it', async () => {
+      sessions.add(AdkSessionCache.key(
+        'http://localhost:8000', 'test_agent', '5491155551234', '5491155551234_s_whatsapp_net_5491155551234'
+      ))
+      fetchMock
+        .mockResolvedValueOnce({ ok: false, status: 404, text: async () => '{"detail":"Session not found"}' })
+        .mockResolvedValueOnce({ ok: false, status: 404, text: async () => '{"detail":"Session not found"}' })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) })
+        .mockResolvedValueOnce(runResponse)
+
+      const result = await sessionClient.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(result.response).toBe('Hi Ana!')
+      expect(fetchMock.mock.calls.map(([url, init]) => [url, init.method])).toEqual([
+        ['http://localhost:8000/run', 'POST'],
+        [sessionUrl, 'GET'],
+        [sessionUrl, 'POST'],
+        ['http://localhost:8000/run', 'POST'],
+      ])
+    })
+
+    it('should throw when the session cannot be created', async () => {
+      fetchMock
+        .mockResolvedValueOnce({ ok: false, status: 404, text: async () => 'Session not found' })
+        .mockResolvedValueOnce({ ok: false, status: 500, text: async () => 'Database unavailable' })
+
+      await expect(sessionClient.sendMessage('http://localhost:8000', mockMessage)).rejects.toThrow(
+        'Failed to send message to ADK agent: Failed to create ADK session: ADK session endpoint returned 500: Database unavailable'
+      )
+      expect(sessions.size).toBe(0)
+    })
+  })
+
+  describe('sendMessage with attachments', () => {
+    const mockMessage: IncomingMessage = {
+      id: 'MSG001',
+      from: '5491155551234@s.whatsapp.net',
+      channelId: '5491155551234',
+      text: '[audioMessage]',
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      attachments: [
+        { type: 'audio', mimeType: 'audio/ogg; codecs=opus', size: 5, url: 'file:///media/voice.ogg' },
+        { type: 'image', mimeType: 'image/jpeg', size: 4096 },
+        { type: 'image', mimeType: 'image/jpeg', size: 4, url: 'file:///media/purged.jpg' },
+      ],
+    }
+
+    const mediaStore: MediaStore = {
+      maxBytes: 1024,
+      save: vi.fn(),
+      read: vi.fn(async (url: string) => {
+        if (url.endsWith('purged.jpg')) {
+          throw new Error('Failed to read media: ENOENT')
+        }
+        return Buffer.from('voice')
+      }),
+      purgeExpired: vi.fn(),
+    }
+
+    it('should send stored attachments as inline_data parts', async () => {
+      const mediaClient = new HttpAgentClient({
+        adk: { appName: 'test_agent', baseUrl: 'http://localhost:8000', mediaStore },
+      })
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => [] })
+
+      await mediaClient.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).new_message.parts).toEqual([
+        { text: '[audioMessage]' },
+        { inline_data: { mime_type: 'audio/ogg', data: Buffer.from('voice').toString('base64') } },
+      ])
+    })
+
+    it('should only send the text without a media store', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => [] })
+
+      await client.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).new_message.parts).toEqual([{ text: '[audioMessage]' }])
+    })
+  })
+
+  describe('sendMessage with media replies', () => {
+    const mockMessage: IncomingMessage = {
+      id: 'MSG001',
+      from: 'test-user-123@s.whatsapp.net',
+      channelId: 'test-channel-123',
+      text: 'Send me the chart',
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+    }
+
+    const png = Buffer.from('png').toString('base64')
+
+    it('should send inline_data parts of model events after the last text', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          {
+            content: { parts: [{ text: 'Here is the chart.' }, { inlineData: { mimeType: 'image/png', data: png } }] },
+            invocationId: 'e-1',
+            author: 'model',
+          },
+        ],
+      })
+
+      const result = await client.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(result.parts).toEqual([
+        { text: 'Here is the chart.' },
+        { text: '', content: { type: 'image', mimeType: 'image/png', data: png } },
+      ])
+      expect(result.response).toBe('Here is the chart.')
+    })
+
+    it('should load artifacts announced in artifactDelta and skip failing ones', async () => {
+      fetchMock
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [
+            {
+              invocationId: 'e-1',
+              author: 'report_agent',
+              actions: { artifactDelta: { 'report.pdf': 2, 'missing.png': 0 } },
+            },
+            { content: { parts: [{ text: 'Report attached.' }] }, invocationId: 'e-1', author: 'model' },
+          ],
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ inlineData: { mimeType: 'application/pdf', data: 'JVBERi0_' } }),
+        })
+        .mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) })
+
+      const result = await client.sendMessage('http://localhost:8000', mockMessage)
+
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        'http://localhost:8000/apps/test_agent/users/test_user_123/sessions/'
+          + 'test_user_123_s_whatsapp_net_test_channel_123/artifacts/report.pdf?version=2'
+      )
+      expect(result.parts).toEqual([
+        { text: 'Report attached.' },
+        {
+          text: '',
+          content: { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0/', filename: 'report.pdf' },
+        },
+      ])
+    })
+
+    it('should deliver media of streamed events through onReply', async () => {
+      const event = {
+        content: { parts: [{ text: 'Chart:' }, { inline_data: { mime_type: 'image/png', data: png } }] },
+        invocationId: 'e-1',
+        author: 'model',
+      }
+      fetchMock.mockResolvedValueOnce(new Response(`data: ${JSON.stringify(event)}\n\n`, {
+        status: 200,
+        headers: { 'Content-Type': 'text/event-stream' },
+      }))
+      const onReply = vi.fn().mockResolvedValue(undefined)
+      const streamingClient = new HttpAgentClient({
+        adk: { appName: 'test_agent', baseUrl: 'http://localhost:8000', streaming: true },
+      })
+
+      const result = await streamingClient.sendMessage('http://localhost:8000', mockMessage, { onReply })
+
+      expect(onReply.mock.calls).toEqual([
+        ['Chart:'],
+        ['', { type: 'image', mimeType: 'image/png', data: png }],
+      ])
+      expect(result.streamed).toBe(true)
+      expect(result.response).toBe('Chart:')
+    })
+  })
+
   describe('isValidEndpoint', () => {
     it('should validate HTTP URLs', () => {
       expect(HttpAgentClient.isValidEndpoint('http://localhost:8000/agent')).toBe(true)
@@ -0,0 +1,237 @@
+/**
+ * Unit tests for the agent protocol registry and the built-in ADK protocol.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { AgentProtocolRegistry, REDACTED_SECRET, getAgentType } from '../../router/src/core/agent-registry.js'
+import { AdkAgentProtocol } from '../../router/src/infra/adk-agent-protocol.js'
+import { HttpAgentClientFactory } from '../../router/src/infra/agent-client-factory.js'
+import { HttpAgentClient } from '../../router/src/infra/http-agent-client.js'
+import type { AgentClient, AgentProtocol } from '../../router/src/core/agent-client.js'
+import type { Route } from '../../router/src/core/models.js'
+
+describe('AgentProtocolRegistry', () => {
+  const adkRoute: Route = {
+    channelId: 'channel-1',
+    agentEndpoint: 'http://localhost:8000',
+    environment: 'lab',
+    config: { adk: { appName: 'test_agent' } },
+  }
+
+  /**
+   * Creates a protocol stub for the given type.
+   */
+  function createProtocol(type: string, client: AgentClient = { sendMessage: vi.fn() }): AgentProtocol {
+    return {
+      type,
+      validateConfig: vi.fn((route: Route) => (route.config?.url ? null : `${type} routes require config.url`)),
+      createClient: vi.fn().mockReturnValue(client),
+    }
+  }
+
+  describe('getAgentType', () => {
+    it('should default to adk when config.type is not set', () => {
+      expect(getAgentType(adkRoute)).toBe('adk')
+      expect(getAgentType({ ...adkRoute, config: undefined })).toBe('adk')
+    })
+
+    it('should return config.type when set', () => {
+      expect(getAgentType({ ...adkRoute, config: { type: 'openai' } })).toBe('openai')
+    })
+  })
+
+  describe('register', () => {
+    it('should list registered types in order', () => {
+      const registry = new AgentProtocolRegistry()
+        .register(createProtocol('adk'))
+        .register(createProtocol('openai'))
+
+      expect(registry.getTypes()).toEqual(['adk', 'openai'])
+    })
+
+    it('should reject a duplicate type', () => {
+      const registry = new AgentProtocolRegistry().register(createProtocol('adk'))
+
+      expect(() => registry.register(createProtocol('adk'))).toThrow('Agent type already registered: adk')
+    })
+  })
+
+  describe('validateRoute', () => {
+    it('should delegate to the protocol selected by config.type', () => {
+      const protocol = createProtocol('custom')
+      const registry = new AgentProtocolRegistry().register(protocol)
+      const route: Route = { ...adkRoute, config: { type: 'custom' } }
+
+      expect(registry.validateRoute(route)).toBe('custom routes require config.url')
+      expect(protocol.validateConfig).toHaveBeenCalledWith(route)
+      expect(registry.validateRoute({ ...route, config: { type: 'custom', url: 'x' } })).toBeNull()
+    })
+
+    it('should report unknown types with the supported ones', () => {
+      const registry = new AgentProtocolRegistry()
+        .register(createProtocol('adk'))
+        .register(createProtocol('openai'))
+
+      expect(registry.validateRoute({ ...adkRoute, config: { type: 'grpc' } })).toBe(
+        'Unknown agent type "grpc". Supported types: adk, openai'
+      )
+    })
+
+    it('should reject a non-string type', () => {
+      const registry = new AgentProtocolRegistry().register(createProtocol('adk'))
+
+      expect(registry.validateRoute({ ...adkRoute, config: { type: 42 } })).toBe('config.type must be a string')
+    })
+  })
+
+  describe('createClient', () => {
+    it('should create the client of the selected protocol', () => {
+      const client: AgentClient = { sendMessage: vi.fn() }
+      const protocol = createProtocol('custom', client)
+      const registry = new AgentProtocolRegistry().register(protocol)
+      const route: Route = { ...adkRoute, config: { type: 'custom', url: 'x' } }
+
+      expect(registry.createClient(route)).toBe(client)
+      expect(protocol.createClient).toHaveBeenCalledWith(route)
+    })
+
+    it('should throw for an invalid configuration', () => {
+      const registry = new AgentProtocolRegistry().register(createProtocol('custom'))
+
+      expect(() => registry.createClient({ ...adkRoute, config: { type: 'custom' } })).toThrow(
+        'Invalid agent configuration: custom routes require config.url'
+      )
+    })
+  })
+
+  describe('resolveEndpoint', () => {
+    it('should use the protocol endpoint when provided', () => {
+      const protocol: AgentProtocol = { ...createProtocol('custom'), getEndpoint: () => 'http://custom:9000' }
+      const registry = new AgentProtocolRegistry().register(protocol)
+
+      expect(registry.resolveEndpoint({ ...adkRoute, config: { type: 'custom' } })).toBe('http://custom:9000')
+    })
+
+    it('should fall back to agentEndpoint', () => {
+      const registry = new AgentProtocolRegistry().register(createProtocol('custom'))
+
+      expect(registry.resolveEndpoint({ ...adkRoute, config: { type: 'custom' } })).toBe('http://localhost:8000')
+    })
+  })
+
+  describe('redactRoute and restoreSecrets', () => {
+    const registry = new AgentProtocolRegistry()
+      .register({ ...createProtocol('custom'), secretKeys: ['token'] })
+      .register(createProtocol('plain'))
+    const route: Route = {
+      ...adkRoute,
+      config: { type: 'custom', replyDelayMs: 500, custom: { url: 'http://custom:9000', token: 'secret' } },
+    }
+
+    it('should mask the secrets of the protocol', () => {
+      expect(registry.redactRoute(route).config).toEqual({
+        type: 'custom',
+        replyDelayMs: 500,
+        custom: { url: 'http://custom:9000', token: REDACTED_SECRET },
+      })
+      expect(route.config?.custom).toEqual({ url: 'http://custom:9000', token: 'secret' })
+    })
+
+    it('should leave routes without secrets unchanged', () => {
+      const plainRoute: Route = { ...adkRoute, config: { type: 'plain', plain: { token: 'visible' } } }
+
+      expect(registry.redactRoute(plainRoute)).toBe(plainRoute)
+      expect(registry.redactRoute(adkRoute)).toBe(adkRoute)
+    })
+
+    it('should restore masked secrets from the stored route', () => {
+      const update: Route = { ...route, config: { type: 'custom', custom: { url: 'http://other', token: REDACTED_SECRET } } }
+      const replaced: Route = { ...route, config: { type: 'custom', custom: { token: 'new-secret' } } }
+
+      expect(registry.restoreSecrets(update, route).config?.custom).toEqual({ url: 'http://other', token: 'secret' })
+      expect(registry.restoreSecrets(replaced, route).config?.custom).toEqual({ token: 'new-secret' })
+      expect(registry.restoreSecrets(update, adkRoute).config?.custom).toEqual({ url: 'http://other' })
+    })
+  })
+})
+
+describe('AdkAgentProtocol', () => {
+  const protocol = new AdkAgentProtocol()
+  const route: Route = {
+    channelId: 'channel-1',
+    agentEndpoint: 'http://localhost:8000',
+    environment: 'lab',
+    config: { adk: { appName: 'test_agent' } },
+  }
+
+  it('should accept a route with an appName', () => {
+    expect(protocol.validateConfig(route)).toBeNull()
+  })
+
+  it('should require config.adk.appName', () => {
+    expect(protocol.validateConfig({ ...route, config: {} })).toBe('ADK routes require config.adk.appName')
+    expect(protocol.validateConfig({ ...route, config: undefined })).toBe('ADK routes require config.adk.appName')
+  })
+
+  it('should reject an invalid baseUrl', () => {
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', baseUrl: 'not-a-url' } },
+    })).toBe('config.adk.baseUrl must be an http(s) URL')
+  })
+
+  it('should validate the streaming options', () => {
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', streaming: true, streamingChunks: 'sentence' } },
+    })).toBeNull()
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', streaming: 'yes' } },
+    })).toBe('config.adk.streaming must be a boolean')
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', streaming: true, streamingChunks: 'token' } },
+    })).toBe('config.adk.streamingChunks must be one of: message, sentence')
+  })
+
+  it('should validate the reply mode', () => {
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', replyMode: 'all' } },
+    })).toBeNull()
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', replyMode: 'first' } },
+    })).toBe('config.adk.replyMode must be one of: last, all')
+  })
+
+  it('should validate createSessions', () => {
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', createSessions: false } },
+    })).toBeNull()
+    expect(protocol.validateConfig({
+      ...route,
+      config: { adk: { appName: 'test_agent', createSessions: 'no' } },
+    })).toBe('config.adk.createSessions must be a boolean')
+  })
+
+  it('should use baseUrl as endpoint, falling back to agentEndpoint', () => {
+    expect(protocol.getEndpoint(route)).toBe('http://localhost:8000')
+    expect(protocol.getEndpoint({
+      ...route,
+      config: { adk: { appName: 'test_agent', baseUrl: 'http://adk:9000' } },
+    })).toBe('http://adk:9000')
+  })
+
+  it('should create an HttpAgentClient', () => {
+    expect(protocol.createClient(route)).toBeInstanceOf(HttpAgentClient)
+  })
+})
+
+describe('HttpAgentClientFactory', () => {
+  it('should register the built-in protocols', () => {
+    expect(new HttpAgentClientFactory().getTypes()).toEqual(['adk', 'openai', 'webhook'])
+  })
+})
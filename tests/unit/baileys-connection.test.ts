@@ -2,19 +2,25 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { WASocket, ConnectionState } from '@whiskeysockets/baileys'
 
 // Mock the external dependencies before importing the module
-vi.mock('@whiskeysockets/baileys', () => ({
-  default: vi.fn(),
-  DisconnectReason: {
-    loggedOut: 401,
-    connectionClosed: 428,
-    connectionLost: 408,
-    connectionReplaced: 440,
-    timedOut: 408,
-    badSession: 500,
-    restartRequired: 515,
-  },
-  useMultiFileAuthState: vi.fn(),
-}))
+vi.mock('@whiskeysockets/baileys', async (importOriginal) => {
+  // Message parsing helpers are used as-is
+  const { getContentType, jidNormalizedUser } = await importOriginal<typeof import('@whiskeysockets/baileys')>()
+  return {
+    default: vi.fn(),
+    getContentType,
+    jidNormalizedUser,
+    DisconnectReason: {
+      loggedOut: 401,
+      connectionClosed: 428,
+      connectionLost: 408,
+      connectionReplaced: 440,
+      timedOut: 408,
+      badSession: 500,
+      restartRequired: 515,
+    },
+    useMultiFileAuthState: vi.fn(),
+  }
+})
 
 vi.mock('qrcode', () => ({
   toDataURL: vi.fn(),
@@ -467,6 +473,89 @@ describe('BaileysConnectionService', () => {
     })
   })
 
+  describe('quoted replies', () => {
+    it('should quote a recently received message and send unknown ones unquoted', async () => {
+      const sendMessage = vi.fn().mockResolvedValue(undefined)
+      mockSocket.sendMessage = sendMessage
+      const service = new BaileysConnectionService()
+      await service.connect()
+
+      const upsertHandler = vi.mocked(mockSocket.ev!.on).mock.calls
+        .find(([event]) => event === 'messages.upsert')![1] as (event: unknown) => void
+      const raw = {
+        key: { remoteJid: '120363025246125486@g.us', id: 'MSG001', fromMe: false, participant: '5491155551234@s.whatsapp.net' },
+        message: { conversation: 'Who is on call?' },
+        messageTimestamp: 1704067200,
+      }
+      upsertHandler({ type: 'notify', messages: [raw] })
+      await new Promise((resolve) => setImmediate(resolve))
+
+      await service.sendTextMessage('120363025246125486@g.us', 'Ana is', { quotedMessageId: 'MSG001' })
+      await service.sendTextMessage('120363025246125486@g.us', 'Hello', { quotedMessageId: 'OTHER' })
+
+      expect(sendMessage.mock.calls).toEqual([
+        ['120363025246125486@g.us', { text: 'Ana is' }, { quoted: raw }],
+        ['120363025246125486@g.us', { text: 'Hello' }, undefined],
+      ])
+    })
+  })
+
+  describe('group mentions', () => {
+    it('should flag and strip mentions of the connected account', async () => {
+      mockSocket.user = { id: '5491100000000:3@s.whatsapp.net', lid: '123456789:3@lid' }
+      const handler = vi.fn().mockResolvedValue({ success: true })
+      const service = new BaileysConnectionService()
+      service.onMessage(handler)
+      await service.connect()
+
+      const upsertHandler = vi.mocked(mockSocket.ev!.on).mock.calls
+        .find(([event]) => event === 'messages.upsert')![1] as (event: unknown) => void
+      upsertHandler({
+        type: 'notify',
+        messages: [{
+          key: { remoteJid: '120363025246125486@g.us', id: 'MSG002', fromMe: false, participant: '5491155551234@s.whatsapp.net' },
+          message: {
+            extendedTextMessage: {
+              text: '@123456789 who is on call?',
+              contextInfo: { mentionedJid: ['123456789@lid'] },
+            },
+          },
+          messageTimestamp: 1704067200,
+        }],
+      })
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+        text: 'who is on call?',
+        metadata: expect.objectContaining({ mentionsBot: true, repliesToBot: false }),
+      }))
+    })
+  })
+
+  describe('message dispatch', () => {
+    it('should not wait for one message to be handled before dispatching the next', async () => {
+      // Handlers that never finish, like a stuck agent
+      const handler = vi.fn((_message: { id: string }) => new Promise<never>(() => {}))
+      const service = new BaileysConnectionService()
+      service.onMessage(handler)
+      await service.connect()
+
+      const upsertHandler = vi.mocked(mockSocket.ev!.on).mock.calls
+        .find(([event]) => event === 'messages.upsert')![1] as (event: unknown) => void
+      upsertHandler({
+        type: 'notify',
+        messages: ['5491155551234', '5491166662345'].map((phone, index) => ({
+          key: { remoteJid: `${phone}@s.whatsapp.net`, id: `MSG00${index}`, fromMe: false },
+          message: { conversation: 'Hi' },
+          messageTimestamp: 1704067200,
+        })),
+      })
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(handler.mock.calls.map(([message]) => message.id)).toEqual(['MSG000', 'MSG001'])
+    })
+  })
+
   describe('disconnect', () => {
     it('should disconnect and reset state', async () => {
       const service = new BaileysConnectionService()
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for Baileys media download and outbound content.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@whiskeysockets/baileys', () => ({
+  downloadMediaMessage: vi.fn(),
+}))
+
+import { downloadMediaMessage, type WAMessage, type WASocket } from '@whiskeysockets/baileys'
+import { downloadBaileysAttachments, toBaileysContent } from '../../router/src/providers/baileys-media.js'
+import type { MediaStore } from '../../router/src/core/media-store.js'
+import type { MessageAttachment } from '../../router/src/core/models.js'
+
+describe('downloadBaileysAttachments', () => {
+  const msg = {
+    key: { remoteJid: '5491155551234@s.whatsapp.net', id: 'IMG001' },
+    message: { imageMessage: { mimetype: 'image/jpeg' } },
+  } as WAMessage
+  const image: MessageAttachment = { type: 'image', mimeType: 'image/jpeg', size: 4 }
+
+  let store: MediaStore
+
+  beforeEach(() => {
+    vi.mocked(downloadMediaMessage).mockReset()
+    store = {
+      maxBytes: 1024,
+      save: vi.fn().mockResolvedValue({ url: 'file:///media/img.jpg', size: 4 }),
+      read: vi.fn(),
+      purgeExpired: vi.fn(),
+    }
+  })
+
+  it('should download the media into the store and set its URL', async () => {
+    vi.mocked(downloadMediaMessage).mockResolvedValueOnce(Buffer.from('jpeg'))
+    const socket = { logger: {}, updateMediaMessage: vi.fn() } as unknown as WASocket
+
+    const result = await downloadBaileysAttachments(msg, [image], store, socket)
+
+    expect(result).toEqual([{ ...image, url: 'file:///media/img.jpg' }])
+    expect(downloadMediaMessage).toHaveBeenCalledWith(msg, 'buffer', {}, {
+      logger: socket.logger,
+      reuploadRequest: socket.updateMediaMessage,
+    })
+    expect(store.save).toHaveBeenCalledWith(Buffer.from('jpeg'), {
+      messageId: 'IMG001',
+      mimeType: 'image/jpeg',
+      filename: undefined,
+    })
+  })
+
+  it('should not download attachments over the size limit', async () => {
+    const large = { ...image, size: 4096 }
+
+    expect(await downloadBaileysAttachments(msg, [large], store)).toEqual([large])
+    expect(downloadMediaMessage).not.toHaveBeenCalled()
+  })
+
+  it('should keep the attachment without URL when the download fails', async () => {
+    vi.mocked(downloadMediaMessage).mockRejectedValueOnce(new Error('media expired'))
+
+    expect(await downloadBaileysAttachments(msg, [image], store)).toEqual([image])
+    expect(store.save).not.toHaveBeenCalled()
+  })
+})
+
+describe('toBaileysContent', () => {
+  it('should send media by URL with caption and MIME type', () => {
+    expect(toBaileysContent(
+      { type: 'image', mimeType: 'image/png', url: 'https://example.com/a.png' },
+      'Look'
+    )).toEqual({ image: { url: 'https://example.com/a.png' }, mimetype: 'image/png', caption: 'Look' })
+  })
+
+  it('should decode inline documents and keep the file name', () => {
+    const content = toBaileysContent(
+      { type: 'document', mimeType: 'application/pdf', data: Buffer.from('%PDF').toString('base64'), filename: 'a.pdf' },
+      ''
+    ) as { document: Buffer; fileName: string; caption?: string }
+
+    expect(content.document.toString()).toBe('%PDF')
+    expect(content.fileName).toBe('a.pdf')
+    expect(content.caption).toBeUndefined()
+  })
+
+  it('should send audio without caption', () => {
+    expect(toBaileysContent(
+      { type: 'audio', mimeType: 'audio/ogg; codecs=opus', url: 'https://example.com/a.ogg' },
+      'ignored'
+    )).toEqual({ audio: { url: 'https://example.com/a.ogg' }, mimetype: 'audio/ogg; codecs=opus' })
+  })
+
+  it('should map locations and contacts', () => {
+    expect(toBaileysContent({ type: 'location', latitude: -34.6, longitude: -58.38, name: 'Office' }, '')).toEqual({
+      location: { degreesLatitude: -34.6, degreesLongitude: -58.38, name: 'Office' },
+    })
+    expect(toBaileysContent({ type: 'contact', name: 'Support', phone: '+54 9 11 5555-0000' }, '')).toEqual({
+      contacts: {
+        displayName: 'Support',
+        contacts: [{
+          vcard: 'BEGIN:VCARD\nVERSION:3.0\nFN:Support\nTEL;type=CELL;waid=5491155550000:+54 9 11 5555-0000\nEND:VCARD',
+        }],
+      },
+    })
+  })
+
+  it('should reject media without url or data', () => {
+    expect(() => toBaileysContent({ type: 'video', mimeType: 'video/mp4' }, '')).toThrow(
+      'Outgoing video has neither url nor data'
+    )
+  })
+})
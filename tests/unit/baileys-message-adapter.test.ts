@@ -11,6 +11,9 @@ import {
   isStatusBroadcast,
   extractTextContent,
   getMessageType,
+  extractAttachments,
+  extractMessageContext,
+  stripBotMentions,
   normalizeBaileysMessage,
   shouldProcessMessage,
   processBaileysMessages,
@@ -217,7 +220,179 @@ describe('BaileysMessageAdapter', () => {
     })
   })
 
+  describe('extractAttachments', () => {
+    it('should describe an image', () => {
+      const message: BaileysMessageContent = {
+        imageMessage: { mimetype: 'image/jpeg', fileLength: 48213, caption: 'Look' },
+      }
+      expect(extractAttachments(message)).toEqual([{ type: 'image', mimeType: 'image/jpeg', size: 48213 }])
+    })
+
+    it('should describe a voice note with a Long file length', () => {
+      const message: BaileysMessageContent = {
+        audioMessage: { mimetype: 'audio/ogg; codecs=opus', fileLength: { toNumber: () => 9120 } as never, ptt: true },
+      }
+      expect(extractAttachments(message)).toEqual([{ type: 'audio', mimeType: 'audio/ogg; codecs=opus', size: 9120 }])
+    })
+
+    it('should describe a captioned document with its file name', () => {
+      const message: BaileysMessageContent = {
+        documentWithCaptionMessage: {
+          message: { documentMessage: { mimetype: 'application/pdf', fileName: 'invoice.pdf', caption: 'Invoice' } },
+        },
+      }
+      expect(extractAttachments(message)).toEqual([
+        { type: 'document', mimeType: 'application/pdf', filename: 'invoice.pdf' },
+      ])
+    })
+
+    it('should fall back to a default MIME type', () => {
+      expect(extractAttachments({ stickerMessage: {} })).toEqual([{ type: 'sticker', mimeType: 'image/webp' }])
+    })
+
+    it('should return no attachments for text messages', () => {
+      expect(extractAttachments({ conversation: 'Hi' })).toEqual([])
+      expect(extractAttachments(null)).toEqual([])
+    })
+  })
+
+  describe('extractMessageContext', () => {
+    it('should extract mentions and the quoted message of an extended text', () => {
+      const message: BaileysMessageContent = {
+        extendedTextMessage: {
+          text: '@5491100000000 what about this?',
+          contextInfo: {
+            mentionedJid: ['5491100000000@s.whatsapp.net'],
+            stanzaId: 'BOTMSG1',
+            participant: '5491100000000@s.whatsapp.net',
+            quotedMessage: { conversation: 'Your order shipped' },
+          },
+        },
+      }
+
+      expect(extractMessageContext(message)).toEqual({
+        mentionedJids: ['5491100000000@s.whatsapp.net'],
+        quotedMessageId: 'BOTMSG1',
+        quotedParticipant: '5491100000000@s.whatsapp.net',
+      })
+    })
+
+    it('should extract mentions from a media caption', () => {
+      const message: BaileysMessageContent = {
+        imageMessage: {
+          caption: '@5491100000000 is this damaged?',
+          contextInfo: { mentionedJid: ['5491100000000@s.whatsapp.net'] },
+        },
+      }
+
+      expect(extractMessageContext(message)).toEqual({ mentionedJids: ['5491100000000@s.whatsapp.net'] })
+    })
+
+    it('should return no context for plain text', () => {
+      expect(extractMessageContext({ conversation: 'Hi' })).toEqual({ mentionedJids: [] })
+      expect(extractMessageContext(null)).toEqual({ mentionedJids: [] })
+    })
+  })
+
+  describe('stripBotMentions', () => {
+    it('should remove mentions of the bot by phone number and LID', () => {
+      const botJids = ['5491100000000@s.whatsapp.net', '123456789@lid']
+      expect(stripBotMentions('@5491100000000 where is my order?', botJids)).toBe('where is my order?')
+      expect(stripBotMentions('hey @123456789 help', botJids)).toBe('hey help')
+    })
+
+    it('should keep mentions of other users', () => {
+      expect(stripBotMentions('ask @5491177778888 instead', ['5491100000000@s.whatsapp.net']))
+        .toBe('ask @5491177778888 instead')
+    })
+  })
+
   describe('normalizeBaileysMessage', () => {
+    const botJids = ['5491100000000:12@s.whatsapp.net', '123456789:12@lid']
+
+    it('should flag and strip a mention of the bot in a group', () => {
+      const result = normalizeBaileysMessage({
+        key: { remoteJid: '120363123456789@g.us', id: 'GRP1', participant: '5491155551234@s.whatsapp.net' },
+        message: {
+          extendedTextMessage: {
+            text: '@5491100000000 where is my order?',
+            contextInfo: { mentionedJid: ['5491100000000@s.whatsapp.net'] },
+          },
+        },
+        messageTimestamp: 1700000000,
+      }, botJids)
+
+      expect(result!.text).toBe('where is my order?')
+      expect(result!.metadata).toMatchObject({
+        mentionedJids: ['5491100000000@s.whatsapp.net'],
+        mentionsBot: true,
+        repliesToBot: false,
+      })
+    })
+
+    it('should flag a reply to a bot message sent by LID', () => {
+      const result = normalizeBaileysMessage({
+        key: { remoteJid: '120363123456789@g.us', id: 'GRP2', participant: '5491155551234@s.whatsapp.net' },
+        message: {
+          extendedTextMessage: {
+            text: 'and tomorrow?',
+            contextInfo: {
+              stanzaId: 'BOTMSG1',
+              participant: '123456789@lid',
+              quotedMessage: { conversation: 'Open until 6pm' },
+            },
+          },
+        },
+        messageTimestamp: 1700000000,
+      }, botJids)
+
+      expect(result!.text).toBe('and tomorrow?')
+      expect(result!.metadata).toMatchObject({
+        quotedMessageId: 'BOTMSG1',
+        quotedParticipant: '123456789@lid',
+        mentionsBot: false,
+        repliesToBot: true,
+      })
+    })
+
+    it('should keep mentions of other users in the text', () => {
+      const result = normalizeBaileysMessage({
+        key: { remoteJid: '120363123456789@g.us', id: 'GRP3', participant: '5491155551234@s.whatsapp.net' },
+        message: {
+          extendedTextMessage: {
+            text: '@5491177778888 can you check?',
+            contextInfo: { mentionedJid: ['5491177778888@s.whatsapp.net'] },
+          },
+        },
+        messageTimestamp: 1700000000,
+      }, botJids)
+
+      expect(result!.text).toBe('@5491177778888 can you check?')
+      expect(result!.metadata?.mentionsBot).toBe(false)
+    })
+
+    it('should not set bot flags when the bot JIDs are unknown', () => {
+      const result = normalizeBaileysMessage({
+        key: { remoteJid: '120363123456789@g.us', id: 'GRP4' },
+        message: { conversation: 'Hi all' },
+        messageTimestamp: 1700000000,
+      })
+
+      expect(result!.metadata).not.toHaveProperty('mentionsBot')
+      expect(result!.metadata).not.toHaveProperty('repliesToBot')
+    })
+
+    it('should include media attachments', () => {
+      const result = normalizeBaileysMessage({
+        key: { remoteJid: '5491155551234@s.whatsapp.net', fromMe: false, id: 'IMG001' },
+        message: { imageMessage: { mimetype: 'image/png', fileLength: 1024 } },
+        messageTimestamp: 1700000000,
+      })
+
+      expect(result!.text).toBe('[imageMessage]')
+      expect(result!.attachments).toEqual([{ type: 'image', mimeType: 'image/png', size: 1024 }])
+    })
+
     it('should normalize a simple text message', () => {
       const msg: BaileysWebMessageInfo = {
         key: {
@@ -244,6 +419,7 @@ describe('BaileysMessageAdapter', () => {
       expect(result!.metadata?.fromMe).toBe(false)
       expect(result!.metadata?.isGroup).toBe(false)
       expect(result!.metadata?.pushName).toBe('John Doe')
+      expect(result!.attachments).toBeUndefined()
     })
 
     it('should normalize a group message', () => {
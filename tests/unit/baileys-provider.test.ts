@@ -12,6 +12,9 @@ vi.mock('../../router/src/providers/baileys-connection.js', () => {
   const mockConnectionService = {
     getState: vi.fn(),
     sendTextMessage: vi.fn(),
+    sendContentMessage: vi.fn(),
+    markRead: vi.fn(),
+    sendPresence: vi.fn(),
   }
 
   return {
@@ -62,14 +65,15 @@ describe('BaileysProvider', () => {
         reconnectAttempt: 0,
         needsCredentialsClear: false,
       })
-      vi.mocked(mockConnectionService.sendTextMessage).mockResolvedValue(undefined)
+      vi.mocked(mockConnectionService.sendTextMessage).mockResolvedValue('3EB0SENT')
 
       const provider = new BaileysProvider()
-      await provider.sendMessage(message)
+      await expect(provider.sendMessage(message)).resolves.toBe('3EB0SENT')
 
       expect(mockConnectionService.sendTextMessage).toHaveBeenCalledWith(
         'test-user-123@s.whatsapp.net',
-        'Test message'
+        'Test message',
+        {}
       )
     })
 
@@ -96,7 +100,8 @@ describe('BaileysProvider', () => {
 
       expect(mockConnectionService.sendTextMessage).toHaveBeenCalledWith(
         'test-user-123@s.whatsapp.net',
-        'Test message'
+        'Test message',
+        {}
       )
     })
 
@@ -123,7 +128,8 @@ describe('BaileysProvider', () => {
 
       expect(mockConnectionService.sendTextMessage).toHaveBeenCalledWith(
         'test-group-123@g.us',
-        'Group message'
+        'Group message',
+        {}
       )
     })
 
@@ -211,8 +217,127 @@ describe('BaileysProvider', () => {
       // Metadata is not sent to Baileys, only text
       expect(mockConnectionService.sendTextMessage).toHaveBeenCalledWith(
         'test-user-123@s.whatsapp.net',
-        'Message with metadata'
+        'Message with metadata',
+        {}
+      )
+    })
+
+    it('should send messages with content as Baileys content messages', async () => {
+      vi.mocked(mockConnectionService.getState).mockReturnValue({
+        status: 'connected',
+        qrCode: null,
+        lastError: null,
+        lastDisconnectReason: null,
+        lastDisconnectDescription: null,
+        reconnectAttempt: 0,
+        needsCredentialsClear: false,
+      })
+      vi.mocked(mockConnectionService.sendContentMessage).mockResolvedValue(undefined)
+
+      const provider = new BaileysProvider()
+      await provider.sendMessage({
+        to: 'test-user-123',
+        channelId: 'test-channel-123',
+        text: 'Here it is',
+        content: { type: 'image', mimeType: 'image/jpeg', url: 'https://example.com/a.jpg' },
+      })
+
+      expect(mockConnectionService.sendTextMessage).not.toHaveBeenCalled()
+      expect(mockConnectionService.sendContentMessage).toHaveBeenCalledWith(
+        'test-user-123@s.whatsapp.net',
+        { image: { url: 'https://example.com/a.jpg' }, mimetype: 'image/jpeg', caption: 'Here it is' },
+        {}
       )
     })
   })
+
+  describe('sendMessage with quoted', () => {
+    it('should pass the quoted message ID to the connection', async () => {
+      vi.mocked(mockConnectionService.getState).mockReturnValue({
+        status: 'connected',
+        qrCode: null,
+        lastError: null,
+        lastDisconnectReason: null,
+        lastDisconnectDescription: null,
+        reconnectAttempt: 0,
+        needsCredentialsClear: false,
+      })
+      vi.mocked(mockConnectionService.sendTextMessage).mockResolvedValue(undefined)
+
+      const provider = new BaileysProvider()
+      await provider.sendMessage({
+        to: '120363025246125486@g.us',
+        channelId: '120363025246125486',
+        text: 'Ana is',
+        quoted: { id: 'MSG001', text: 'Who is on call?' },
+      })
+
+      expect(mockConnectionService.sendTextMessage).toHaveBeenCalledWith(
+        '120363025246125486@g.us',
+        'Ana is',
+        { quotedMessageId: 'MSG001' }
+      )
+    })
+  })
+
+  describe('markRead', () => {
+    it('should send a read receipt with the group participant', async () => {
+      vi.mocked(mockConnectionService.markRead).mockResolvedValue(undefined)
+
+      const provider = new BaileysProvider()
+      await provider.markRead({
+        id: 'MSG001',
+        from: '120363025246125486@g.us',
+        channelId: '120363025246125486',
+        text: 'Hi',
+        timestamp: new Date(),
+        metadata: { participant: '5491155551234@s.whatsapp.net' },
+      })
+
+      expect(mockConnectionService.markRead).toHaveBeenCalledWith([{
+        remoteJid: '120363025246125486@g.us',
+        id: 'MSG001',
+        fromMe: false,
+        participant: '5491155551234@s.whatsapp.net',
+      }])
+    })
+
+    it('should wrap connection errors', async () => {
+      vi.mocked(mockConnectionService.markRead).mockRejectedValue(new Error('Not connected to WhatsApp'))
+
+      const provider = new BaileysProvider()
+
+      await expect(provider.markRead({
+        id: 'MSG001',
+        from: '5491155551234',
+        channelId: '5491155551234',
+        text: 'Hi',
+        timestamp: new Date(),
+      })).rejects.toThrow('Failed to mark message as read via Baileys: Not connected to WhatsApp')
+    })
+  })
+
+  describe('setTyping', () => {
+    it('should send composing and paused presence updates', async () => {
+      vi.mocked(mockConnectionService.sendPresence).mockResolvedValue(undefined)
+
+      const provider = new BaileysProvider()
+      await provider.setTyping('5491155551234', true)
+      await provider.setTyping('5491155551234@s.whatsapp.net', false)
+
+      expect(vi.mocked(mockConnectionService.sendPresence).mock.calls).toEqual([
+        ['5491155551234@s.whatsapp.net', 'composing'],
+        ['5491155551234@s.whatsapp.net', 'paused'],
+      ])
+    })
+  })
+
+  describe('toChatId', () => {
+    it('should return the JID of a phone number or chat', () => {
+      const provider = new BaileysProvider()
+
+      expect(provider.toChatId('5491155551234')).toBe('5491155551234@s.whatsapp.net')
+      expect(provider.toChatId('120363025246125486@g.us')).toBe('120363025246125486@g.us')
+    })
+  })
 })
@@ -6,6 +6,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { setupBaileysDirectRouting } from '../../router/src/providers/baileys-routing.js'
 import type { MessageRouter } from '../../router/src/core/message-router.js'
 import type { IncomingMessage } from '../../router/src/core/models.js'
+import type { InboundQueue } from '../../router/src/core/inbound-queue.js'
+import { MessageDeduplicator, InMemoryDedupStore } from '../../router/src/core/message-dedup.js'
 import { getBaileysConnection } from '../../router/src/providers/baileys-connection.js'
 import { logger, isDebugMode } from '../../router/src/core/logger.js'
 
@@ -222,5 +224,66 @@ describe('BaileysRouting', () => {
 
       expect(mockMessageRouter2.routeMessage).toHaveBeenCalledWith(testMessage)
     })
+
+    it('should store messages in the durable queue instead of routing them', async () => {
+      const inboundQueue = { submit: vi.fn().mockResolvedValue({ id: 'entry-1' }) }
+      setupBaileysDirectRouting(mockMessageRouter, inboundQueue as unknown as InboundQueue)
+
+      const testMessage: IncomingMessage = {
+        id: 'MSG001',
+        from: 'test-user-123@s.whatsapp.net',
+        channelId: 'test-channel-123',
+        text: 'Hello',
+        timestamp: new Date(),
+      }
+
+      const result = await messageHandler(testMessage)
+
+      expect(inboundQueue.submit).toHaveBeenCalledWith(testMessage)
+      expect(mockMessageRouter.routeMessage).not.toHaveBeenCalled()
+      expect(result).toEqual({ success: true, metadata: { queued: true } })
+    })
+
+    it('should route the message right away when it cannot be stored', async () => {
+      const inboundQueue = {
+        submit: vi.fn().mockRejectedValue(new Error('Failed to enqueue message: connection refused')),
+      }
+      setupBaileysDirectRouting(mockMessageRouter, inboundQueue as unknown as InboundQueue)
+
+      const testMessage: IncomingMessage = {
+        id: 'MSG001',
+        from: 'test-user-123@s.whatsapp.net',
+        channelId: 'test-channel-123',
+        text: 'Hello',
+        timestamp: new Date(),
+      }
+
+      await messageHandler(testMessage)
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[BaileysRouting] Message could not be queued, routing it right away',
+        expect.objectContaining({ messageId: 'MSG001' })
+      )
+      expect(mockMessageRouter.routeMessage).toHaveBeenCalledWith(testMessage)
+    })
+
+    it('should skip messages redelivered after a reconnect', async () => {
+      const deduplicator = new MessageDeduplicator({ store: new InMemoryDedupStore() })
+      setupBaileysDirectRouting(mockMessageRouter, undefined, deduplicator)
+
+      const testMessage: IncomingMessage = {
+        id: 'MSG001',
+        from: 'test-user-123@s.whatsapp.net',
+        channelId: 'test-channel-123',
+        text: 'Hello',
+        timestamp: new Date(),
+      }
+
+      await messageHandler(testMessage)
+      const result = await messageHandler({ ...testMessage })
+
+      expect(mockMessageRouter.routeMessage).toHaveBeenCalledTimes(1)
+      expect(result).toEqual({ success: true, metadata: { skipped: true, duplicate: true } })
+    })
   })
 })
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for route callback tokens.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { CallbackTokens } from '../../router/src/core/callback-tokens.js'
+
+describe('CallbackTokens', () => {
+  const routeId = '9b2f6c1e-3d4a-4f7b-8e21-5c0d9a7f1b23'
+  const tokens = new CallbackTokens({ secret: 'test-secret' })
+
+  it('should issue a stable token that verifies to its route', () => {
+    const token = tokens.issue(routeId)
+
+    expect(token.startsWith(`${routeId}.`)).toBe(true)
+    expect(tokens.issue(routeId)).toBe(token)
+    expect(tokens.verify(token)).toBe(routeId)
+  })
+
+  it('should reject tokens of another route, another secret or malformed ones', () => {
+    const token = tokens.issue(routeId)
+    const signature = token.slice(token.lastIndexOf('.') + 1)
+
+    expect(tokens.verify(`another-route.${signature}`)).toBeNull()
+    expect(new CallbackTokens({ secret: 'other-secret' }).verify(token)).toBeNull()
+    expect(tokens.verify(`${token}x`)).toBeNull()
+    expect(tokens.verify(routeId)).toBeNull()
+    expect(tokens.verify('')).toBeNull()
+  })
+
+  it('should require a secret', () => {
+    expect(() => new CallbackTokens({ secret: '' })).toThrow('Failed to create callback tokens: secret is empty')
+  })
+})
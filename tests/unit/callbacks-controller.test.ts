@@ -0,0 +1,296 @@
+/**
+ * Unit tests for the agent callback endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fastify, { type FastifyInstance } from 'fastify'
+import { registerCallbackEndpoints } from '../../router/src/callbacks-controller.js'
+import { CallbackTokens } from '../../router/src/core/callback-tokens.js'
+import { MessageSender } from '../../router/src/core/message-sender.js'
+import { InMemoryRoutesRepository } from '../../router/src/core/routes-repository.js'
+import { RouterService } from '../../router/src/core/router-service.js'
+import { TakeoverService } from '../../router/src/core/takeover.js'
+import {
+  TranscriptService,
+  type TranscriptRecord,
+  type TranscriptRepository,
+} from '../../router/src/core/transcript.js'
+import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.js'
+
+describe('CallbacksController', () => {
+  const chatId = '5491155551234@s.whatsapp.net'
+  const record: TranscriptRecord = {
+    id: 'record-1',
+    channelId: '5491155551234',
+    chatId,
+    direction: 'inbound',
+    messageId: 'MSG001',
+    text: 'Send me the report',
+    sessionId: '5491155551234_s_whatsapp_net_5491155551234',
+    success: true,
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+  }
+  const tokens = new CallbackTokens({ secret: 'test-secret' })
+  const adminToken = 'test-admin-token'
+  let app: FastifyInstance
+  let provider: WhatsAppProvider
+  let repository: TranscriptRepository
+  let routesRepository: InMemoryRoutesRepository
+  let takeover: TakeoverService
+  let routeToken: string
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    provider = {
+      sendMessage: vi.fn().mockResolvedValue('3EB0A1B2C3D4E5F6'),
+      normalizeWebhook: vi.fn(),
+    }
+    repository = {
+      add: vi.fn().mockResolvedValue(undefined),
+      listConversations: vi.fn(),
+      listMessages: vi.fn().mockResolvedValue([record]),
+      findLatestBySession: vi.fn().mockResolvedValue(record),
+      deleteBefore: vi.fn(),
+    }
+    routesRepository = new InMemoryRoutesRepository()
+    const route = await routesRepository.addRoute({
+      channelId: '5491155551234',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+    })
+    routeToken = tokens.issue(route.id!)
+    takeover = new TakeoverService()
+    const transcript = new TranscriptService({ repository })
+    app = fastify()
+    registerCallbackEndpoints(app, {
+      tokens,
+      routesRepository,
+      routerService: new RouterService(routesRepository),
+      adminToken,
+      sender: new MessageSender({ provider, takeover, transcript }),
+      transcript,
+      takeover,
+    })
+    await app.ready()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    vi.restoreAllMocks()
+  })
+
+  const postMessage = (payload: Record<string, unknown>, token: string | null = routeToken) => app.inject({
+    method: 'POST',
+    url: '/api/callbacks/messages',
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+    payload,
+  })
+
+  const getToken = (routeId: string, token: string | null = adminToken) => app.inject({
+    method: 'GET',
+    url: `/api/routes/${routeId}/callback-token`,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  })
+
+  describe('GET /api/routes/:id/callback-token', () => {
+    it('should return the token of the route', async () => {
+      const [route] = await routesRepository.findAll()
+
+      const response = await getToken(route.id!)
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toEqual({ success: true, data: { routeId: route.id, token: routeToken } })
+    })
+
+    it('should reject requests without the admin token', async () => {
+      const [route] = await routesRepository.findAll()
+
+      const missing = await getToken(route.id!, null)
+      const wrong = await getToken(route.id!, 'wrong-token')
+      const routeTokenUsed = await getToken(route.id!, routeToken)
+
+      expect(missing.statusCode).toBe(401)
+      expect(missing.json()).toEqual({ success: false, error: 'Missing or invalid admin token', code: 'UNAUTHORIZED' })
+      expect(wrong.statusCode).toBe(401)
+      expect(routeTokenUsed.statusCode).toBe(401)
+    })
+
+    it('should reject every request when no admin token is configured', async () => {
+      const [route] = await routesRepository.findAll()
+      const unprotectedApp = fastify()
+      registerCallbackEndpoints(unprotectedApp, {
+        tokens,
+        routesRepository,
+        routerService: new RouterService(routesRepository),
+        sender: new MessageSender({ provider }),
+        transcript: new TranscriptService({ repository }),
+      })
+
+      const response = await unprotectedApp.inject({ method: 'GET', url: `/api/routes/${route.id}/callback-token` })
+      await unprotectedApp.close()
+
+      expect(response.statusCode).toBe(401)
+    })
+
+    it('should return 404 for unknown routes', async () => {
+      const response = await getToken('missing')
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('POST /api/callbacks/messages', () => {
+    it('should send to the chat of a session and record it for the route', async () => {
+      const response = await postMessage({ sessionId: record.sessionId, text: 'Your report is ready' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toMatchObject({
+        success: true,
+        data: { delivered: true, messageId: '3EB0A1B2C3D4E5F6', to: chatId, channelId: '5491155551234' },
+      })
+      expect(repository.findLatestBySession).toHaveBeenCalledWith(record.sessionId)
+      expect(provider.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        to: chatId,
+        channelId: '5491155551234',
+        text: 'Your report is ready',
+      }))
+      expect(repository.add).toHaveBeenCalledWith([expect.objectContaining({
+        direction: 'outbound',
+        agentEndpoint: 'http://localhost:8000',
+      })])
+    })
+
+    it('should send to the latest chat of a channel', async () => {
+      const response = await postMessage({ channelId: '5491155551234', text: 'Your report is ready' })
+
+      expect(response.statusCode).toBe(200)
+      expect(repository.listMessages).toHaveBeenCalledWith('5491155551234', { limit: 1 })
+    })
+
+    it('should reject missing and invalid tokens', async () => {
+      const missing = await postMessage({ channelId: '5491155551234', text: 'Hi' }, null)
+      const forged = await postMessage({ channelId: '5491155551234', text: 'Hi' }, tokens.issue('missing-route'))
+      const otherSecret = await postMessage(
+        { channelId: '5491155551234', text: 'Hi' },
+        new CallbackTokens({ secret: 'other' }).issue('any')
+      )
+
+      expect(missing.statusCode).toBe(401)
+      expect(missing.json()).toMatchObject({ success: false, code: 'UNAUTHORIZED' })
+      expect(forged.statusCode).toBe(401)
+      expect(otherSecret.statusCode).toBe(401)
+      expect(provider.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should reject channels the route does not serve', async () => {
+      const byChannel = await postMessage({ channelId: '5491100000000', text: 'Hi' })
+      vi.mocked(repository.findLatestBySession).mockResolvedValueOnce({ ...record, channelId: '5491100000000' })
+      const bySession = await postMessage({ sessionId: 'other-session', text: 'Hi' })
+
+      expect(byChannel.statusCode).toBe(403)
+      expect(byChannel.json()).toMatchObject({ code: 'RECIPIENT_NOT_ALLOWED' })
+      expect(repository.listMessages).not.toHaveBeenCalled()
+      expect(bySession.statusCode).toBe(403)
+      expect(provider.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should let wildcard routes message channels without routes of their own', async () => {
+      const route = await routesRepository.addRoute({
+        channelId: '*',
+        agentEndpoint: 'http://localhost:9000',
+        environment: 'lab',
+      })
+      vi.mocked(repository.listMessages).mockResolvedValueOnce([{ ...record, channelId: '5491100000000' }])
+
+      const response = await postMessage({ channelId: '5491100000000', text: 'Hi' }, tokens.issue(route.id!))
+
+      expect(response.statusCode).toBe(200)
+    })
+
+    it('should let wildcard routes message channels whose routes do not match every message', async () => {
+      const [channelRoute] = await routesRepository.findAll()
+      await routesRepository.updateRoute(channelRoute.id!, { ...channelRoute, regexFilter: '^/support' })
+      const route = await routesRepository.addRoute({
+        channelId: '*',
+        agentEndpoint: 'http://localhost:9000',
+        environment: 'lab',
+      })
+
+      const response = await postMessage({ channelId: '5491155551234', text: 'Hi' }, tokens.issue(route.id!))
+
+      expect(response.statusCode).toBe(200)
+      expect(provider.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ to: chatId }))
+    })
+
+    it('should not let wildcard routes message channels with a route for every message', async () => {
+      const route = await routesRepository.addRoute({
+        channelId: '*',
+        agentEndpoint: 'http://localhost:9000',
+        environment: 'lab',
+      })
+      const wildcardToken = tokens.issue(route.id!)
+
+      const byChannel = await postMessage({ channelId: '5491155551234', text: 'Hi' }, wildcardToken)
+      const bySession = await postMessage({ sessionId: record.sessionId, text: 'Hi' }, wildcardToken)
+
+      expect(byChannel.statusCode).toBe(403)
+      expect(byChannel.json()).toMatchObject({ code: 'RECIPIENT_NOT_ALLOWED' })
+      expect(bySession.statusCode).toBe(403)
+      expect(provider.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should reject invalid messages', async () => {
+      const noText = await postMessage({ channelId: '5491155551234' })
+      const bothReferences = await postMessage({ channelId: '5491155551234', sessionId: 's', text: 'Hi' })
+      const noReference = await postMessage({ text: 'Hi' })
+
+      for (const response of [noText, bothReferences, noReference]) {
+        expect(response.statusCode).toBe(400)
+        expect(response.json()).toMatchObject({ code: 'INVALID_MESSAGE' })
+      }
+    })
+
+    it('should return 404 when the conversation is unknown', async () => {
+      vi.mocked(repository.findLatestBySession).mockResolvedValueOnce(null)
+
+      const response = await postMessage({ sessionId: 'unknown', text: 'Hi' })
+
+      expect(response.statusCode).toBe(404)
+      expect(response.json()).toMatchObject({ code: 'CONVERSATION_NOT_FOUND' })
+    })
+
+    it('should not message chats taken over by an operator', async () => {
+      takeover.pause(chatId, 'operator')
+
+      const response = await postMessage({ channelId: '5491155551234', text: 'Hi' })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json()).toMatchObject({ code: 'CHAT_TAKEN_OVER' })
+      expect(provider.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should return 502 with the delivery result when sending fails', async () => {
+      vi.mocked(provider.sendMessage).mockRejectedValueOnce(new Error('Connection closed'))
+
+      const response = await postMessage({ channelId: '5491155551234', text: 'Hi' })
+
+      expect(response.statusCode).toBe(502)
+      expect(response.json()).toMatchObject({
+        code: 'DELIVERY_FAILED',
+        data: { delivered: false, error: 'Connection closed', to: chatId },
+      })
+    })
+
+    it('should return 500 when the transcript cannot be read', async () => {
+      vi.mocked(repository.listMessages).mockRejectedValueOnce(new Error('Failed to list messages: timeout'))
+
+      const response = await postMessage({ channelId: '5491155551234', text: 'Hi' })
+
+      expect(response.statusCode).toBe(500)
+      expect(response.json()).toEqual({ success: false, error: 'Failed to list messages: timeout' })
+    })
+  })
+})
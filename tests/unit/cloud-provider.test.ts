@@ -0,0 +1,450 @@
+/**
+ * Unit tests for CloudApiProvider.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createHmac } from 'crypto'
+import {
+  CloudApiProvider,
+  extractCloudApiText,
+  normalizeCloudApiWebhook,
+  verifyCloudApiSignature,
+} from '../../router/src/providers/cloud-provider.js'
+import type { OutgoingMessage } from '../../router/src/core/models.js'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch as unknown as typeof fetch
+
+/**
+ * Builds a Cloud API webhook payload around the given value.
+ */
+function buildWebhook(value: Record<string, unknown>, field = 'messages') {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: 'WABA_ID',
+        changes: [{ field, value }],
+      },
+    ],
+  }
+}
+
+describe('CloudApiProvider', () => {
+  const config = {
+    accessToken: 'test-token',
+    phoneNumberId: '1234567890',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('sendMessage', () => {
+    const message: OutgoingMessage = {
+      to: '5491155551234@s.whatsapp.net',
+      channelId: '5491155551234',
+      text: 'Hello from Cloud API',
+    }
+
+    it('should POST a text message to the phone number messages endpoint', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({ messages: [{ id: 'wamid.1' }] }),
+      })
+
+      const provider = new CloudApiProvider(config)
+      await provider.sendMessage(message)
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://graph.facebook.com/v21.0/1234567890/messages')
+      expect(init.method).toBe('POST')
+      expect(init.headers).toEqual(
+        expect.objectContaining({
+          'Authorization': 'Bearer test-token',
+          'Content-Type': 'application/json',
+        })
+      )
+      expect(JSON.parse(init.body)).toEqual({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: '5491155551234',
+        type: 'text',
+        text: { preview_url: false, body: 'Hello from Cloud API' },
+      })
+    })
+
+    it('should use custom api url and version', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({}),
+      })
+
+      const provider = new CloudApiProvider({
+        ...config,
+        apiUrl: 'http://localhost:9999/',
+        apiVersion: 'v19.0',
+      })
+      await provider.sendMessage(message)
+
+      expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:9999/v19.0/1234567890/messages')
+    })
+
+    it('should throw with the Graph error message on non-OK status', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: vi.fn().mockResolvedValue(JSON.stringify({
+          error: { message: 'Invalid OAuth access token', code: 190 },
+        })),
+      })
+
+      const provider = new CloudApiProvider(config)
+
+      await expect(provider.sendMessage(message)).rejects.toThrow(
+        'Failed to send message via Cloud API: Cloud API returned 401: Invalid OAuth access token'
+      )
+    })
+
+    it('should throw on network failure', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'))
+
+      const provider = new CloudApiProvider(config)
+
+      await expect(provider.sendMessage(message)).rejects.toThrow(
+        'Failed to send message via Cloud API: Network error'
+      )
+    })
+  })
+
+  describe('sendMessage with content', () => {
+    const base = {
+      to: '5491155551234@s.whatsapp.net',
+      channelId: '5491155551234',
+    }
+
+    /**
+     * Returns the parsed body of the messages request.
+     */
+    function getMessageBody() {
+      const call = mockFetch.mock.calls.find(([url]) => String(url).endsWith('/messages'))
+      return JSON.parse(call![1].body as string)
+    }
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({ messages: [{ id: 'wamid.1' }] }),
+      })
+    })
+
+    it('should send media by link with caption and document file name', async () => {
+      const provider = new CloudApiProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: 'Your invoice',
+        content: {
+          type: 'document',
+          mimeType: 'application/pdf',
+          url: 'https://example.com/invoice.pdf',
+          filename: 'invoice.pdf',
+        },
+      })
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(getMessageBody()).toEqual({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: '5491155551234',
+        type: 'document',
+        document: { link: 'https://example.com/invoice.pdf', caption: 'Your invoice', filename: 'invoice.pdf' },
+      })
+    })
+
+    it('should upload inline media and send it by ID', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: vi.fn().mockResolvedValue({ id: 'media-1' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: vi.fn().mockResolvedValue({ messages: [{ id: 'wamid.1' }] }),
+        })
+
+      const provider = new CloudApiProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: 'Voice note',
+        content: { type: 'audio', mimeType: 'audio/ogg', data: Buffer.from('ogg').toString('base64') },
+      })
+
+      const [uploadUrl, uploadInit] = mockFetch.mock.calls[0]
+      expect(uploadUrl).toBe('https://graph.facebook.com/v21.0/1234567890/media')
+      expect(uploadInit.headers).toEqual({ 'Authorization': 'Bearer test-token' })
+      const form = uploadInit.body as FormData
+      expect(form.get('messaging_product')).toBe('whatsapp')
+      expect(form.get('type')).toBe('audio/ogg')
+      expect(Buffer.from(await (form.get('file') as Blob).arrayBuffer()).toString()).toBe('ogg')
+
+      // Audio messages have no caption
+      expect(getMessageBody()).toEqual(expect.objectContaining({
+        type: 'audio',
+        audio: { id: 'media-1' },
+      }))
+    })
+
+    it('should throw when the media upload fails', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        text: vi.fn().mockResolvedValue(JSON.stringify({ error: { message: 'Unsupported type' } })),
+      })
+
+      const provider = new CloudApiProvider(config)
+
+      await expect(provider.sendMessage({
+        ...base,
+        text: '',
+        content: { type: 'image', mimeType: 'image/bmp', data: 'AAAA' },
+      })).rejects.toThrow(
+        'Failed to send message via Cloud API: Cloud API media upload returned 400: Unsupported type'
+      )
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reply in context of the quoted message', async () => {
+      const provider = new CloudApiProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: 'Ana is',
+        quoted: { id: 'wamid.MSG001', text: 'Who is on call?' },
+      })
+
+      expect(getMessageBody()).toEqual(expect.objectContaining({
+        context: { message_id: 'wamid.MSG001' },
+        type: 'text',
+      }))
+    })
+
+    it('should send locations and contacts', async () => {
+      const provider = new CloudApiProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: '',
+        content: { type: 'location', latitude: -34.6, longitude: -58.38, address: 'Av. Corrientes 1234' },
+      })
+      await provider.sendMessage({
+        ...base,
+        text: '',
+        content: { type: 'contact', name: 'Support', phone: '+5491155550000' },
+      })
+
+      const [location, contact] = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body as string))
+      expect(location).toEqual(expect.objectContaining({
+        type: 'location',
+        location: { latitude: -34.6, longitude: -58.38, address: 'Av. Corrientes 1234' },
+      }))
+      expect(contact).toEqual(expect.objectContaining({
+        type: 'contacts',
+        contacts: [{
+          name: { formatted_name: 'Support', first_name: 'Support' },
+          phones: [{ phone: '+5491155550000', type: 'CELL' }],
+        }],
+      }))
+    })
+  })
+
+  describe('toChatId', () => {
+    it('should return the bare phone number of a JID or phone number', () => {
+      const provider = new CloudApiProvider(config)
+
+      expect(provider.toChatId('5491155551234@s.whatsapp.net')).toBe('5491155551234')
+      expect(provider.toChatId('5491155551234')).toBe('5491155551234')
+    })
+  })
+
+  describe('normalizeWebhook', () => {
+    it('should normalize a text message with contact profile name', () => {
+      const payload = buildWebhook({
+        messaging_product: 'whatsapp',
+        metadata: { display_phone_number: '15550001111', phone_number_id: '1234567890' },
+        contacts: [{ wa_id: '5491155551234', profile: { name: 'Ana' } }],
+        messages: [
+          {
+            from: '5491155551234',
+            id: 'wamid.ABC',
+            timestamp: '1700000000',
+            type: 'text',
+            text: { body: 'Hola' },
+          },
+        ],
+      })
+
+      const provider = new CloudApiProvider(config)
+      const message = provider.normalizeWebhook(payload)
+
+      expect(message).toEqual({
+        id: 'wamid.ABC',
+        from: '5491155551234',
+        channelId: '5491155551234',
+        text: 'Hola',
+        timestamp: new Date(1700000000 * 1000),
+        metadata: expect.objectContaining({
+          messageType: 'conversation',
+          cloudMessageType: 'text',
+          fromMe: false,
+          isGroup: false,
+          pushName: 'Ana',
+          waId: '5491155551234',
+          phoneNumberId: '1234567890',
+          displayPhoneNumber: '15550001111',
+        }),
+      })
+    })
+
+    it('should return null for status-only webhooks', () => {
+      const payload = buildWebhook({
+        metadata: { phone_number_id: '1234567890' },
+        statuses: [{ id: 'wamid.ABC', status: 'delivered' }],
+      })
+
+      const provider = new CloudApiProvider(config)
+      expect(provider.normalizeWebhook(payload)).toBeNull()
+    })
+
+    it('should return null for unknown payloads', () => {
+      const provider = new CloudApiProvider(config)
+      expect(provider.normalizeWebhook({ event: 'messages.upsert' })).toBeNull()
+      expect(provider.normalizeWebhook(null)).toBeNull()
+    })
+
+    it('should ignore changes for other fields', () => {
+      const payload = buildWebhook({ messages: [{ from: '1', id: 'x', type: 'text' }] }, 'account_update')
+
+      expect(normalizeCloudApiWebhook(payload)).toEqual([])
+    })
+  })
+
+  describe('normalizeWebhookBatch', () => {
+    it('should normalize every message across entries and match contacts by wa_id', () => {
+      const payload = {
+        object: 'whatsapp_business_account',
+        entry: [
+          {
+            id: 'WABA_ID',
+            changes: [
+              {
+                field: 'messages',
+                value: {
+                  contacts: [
+                    { wa_id: '111', profile: { name: 'One' } },
+                    { wa_id: '222', profile: { name: 'Two' } },
+                  ],
+                  messages: [
+                    { from: '111', id: 'm1', timestamp: '1700000000', type: 'text', text: { body: 'first' } },
+                    { from: '222', id: 'm2', timestamp: '1700000001', type: 'audio', audio: { id: 'media' } },
+                    { id: 'invalid-no-from', type: 'text' },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      }
+
+      const provider = new CloudApiProvider(config)
+      const messages = provider.normalizeWebhookBatch(payload)
+
+      expect(messages).toHaveLength(2)
+      expect(messages[0].metadata?.pushName).toBe('One')
+      expect(messages[1].metadata?.pushName).toBe('Two')
+      expect(messages[1].metadata?.messageType).toBe('audioMessage')
+      expect(messages[1].text).toBe('[audio]')
+    })
+
+    it('should leave pushName unset when no contact matches the sender', () => {
+      const payload = {
+        object: 'whatsapp_business_account',
+        entry: [{
+          id: 'WABA_ID',
+          changes: [{
+            field: 'messages',
+            value: {
+              contacts: [{ wa_id: '111', profile: { name: 'One' } }],
+              messages: [
+                { from: '111', id: 'm1', timestamp: '1700000000', type: 'text', text: { body: 'first' } },
+                { from: '222', id: 'm2', timestamp: '1700000001', type: 'text', text: { body: 'second' } },
+              ],
+            },
+          }],
+        }],
+      }
+
+      const messages = new CloudApiProvider(config).normalizeWebhookBatch(payload)
+
+      expect(messages[0].metadata?.pushName).toBe('One')
+      expect(messages[1].metadata?.pushName).toBeUndefined()
+      expect(messages[1].metadata?.waId).toBeUndefined()
+    })
+  })
+
+  describe('extractCloudApiText', () => {
+    it('should extract media captions', () => {
+      expect(extractCloudApiText({ type: 'image', image: { caption: 'photo' } })).toBe('photo')
+      expect(extractCloudApiText({ type: 'video' })).toBe('[video]')
+      expect(extractCloudApiText({ type: 'document', document: { caption: 'report' } })).toBe('report')
+    })
+
+    it('should extract interactive and button replies', () => {
+      expect(extractCloudApiText({
+        type: 'interactive',
+        interactive: { type: 'button_reply', button_reply: { id: 'yes', title: 'Yes' } },
+      })).toBe('Yes')
+      expect(extractCloudApiText({
+        type: 'interactive',
+        interactive: { type: 'list_reply', list_reply: { id: 'opt', title: 'Option' } },
+      })).toBe('Option')
+      expect(extractCloudApiText({ type: 'button', button: { text: 'Start' } })).toBe('Start')
+    })
+
+    it('should use a placeholder for other types', () => {
+      expect(extractCloudApiText({ type: 'location' })).toBe('[location]')
+    })
+  })
+
+  describe('verifyCloudApiSignature', () => {
+    const body = '{"object":"whatsapp_business_account"}'
+    const signature = `sha256=${createHmac('sha256', 'secret').update(body).digest('hex')}`
+
+    it('should accept a matching signature', () => {
+      expect(verifyCloudApiSignature(body, signature, 'secret')).toBe(true)
+      expect(verifyCloudApiSignature(Buffer.from(body), signature, 'secret')).toBe(true)
+    })
+
+    it('should reject a signature computed with another secret or body', () => {
+      expect(verifyCloudApiSignature(body, signature, 'other')).toBe(false)
+      expect(verifyCloudApiSignature(`${body} `, signature, 'secret')).toBe(false)
+    })
+
+    it('should reject missing or malformed headers', () => {
+      expect(verifyCloudApiSignature(body, undefined, 'secret')).toBe(false)
+      expect(verifyCloudApiSignature(body, 'sha1=abcdef', 'secret')).toBe(false)
+      expect(verifyCloudApiSignature(body, 'sha256=abc', 'secret')).toBe(false)
+    })
+  })
+})
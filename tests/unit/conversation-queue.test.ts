@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the conversation queue.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ConversationQueue, getConversationKey } from '../../router/src/core/conversation-queue.js'
+
+describe('ConversationQueue', () => {
+  /**
+   * Creates a task that finishes when `finish` is called.
+   */
+  function deferredTask(log: string[], name: string) {
+    let finish!: () => void
+    const done = new Promise<void>((resolve) => {
+      finish = resolve
+    })
+    const task = async () => {
+      log.push(`start ${name}`)
+      await done
+      log.push(`end ${name}`)
+      return name
+    }
+    return { task, finish }
+  }
+
+  /**
+   * Lets pending promise callbacks run.
+   */
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should key conversations by sender and channel', () => {
+    expect(getConversationKey({
+      id: 'M1',
+      from: '5491155551234@s.whatsapp.net',
+      channelId: '5491155551234',
+      text: 'Hi',
+      timestamp: new Date(),
+    })).toBe('5491155551234@s.whatsapp.net|5491155551234')
+  })
+
+  it('should run tasks of a conversation in order and other conversations in parallel', async () => {
+    const queue = new ConversationQueue()
+    const log: string[] = []
+    const first = deferredTask(log, 'a1')
+    const second = deferredTask(log, 'a2')
+    const other = deferredTask(log, 'b1')
+
+    const slots = [queue.reserve('a'), queue.reserve('a'), queue.reserve('b')]
+    const results = [
+      slots[1]!.run(second.task),
+      slots[0]!.run(first.task),
+      slots[2]!.run(other.task),
+    ]
+    await flush()
+
+    expect(log).toEqual(['start a1', 'start b1'])
+    expect(queue.getStats()).toMatchObject({ pending: 3, active: 2, conversations: 2, maxConversationDepth: 2 })
+
+    first.finish()
+    await flush()
+    expect(log).toEqual(['start a1', 'start b1', 'end a1', 'start a2'])
+
+    second.finish()
+    other.finish()
+    expect(await Promise.all(results)).toEqual(['a2', 'a1', 'b1'])
+    expect(queue.getStats()).toMatchObject({ pending: 0, active: 0, conversations: 0, processed: 3 })
+  })
+
+  it('should let later messages through when a slot is released', async () => {
+    const queue = new ConversationQueue()
+    const log: string[] = []
+    const first = queue.reserve('a')!
+    const second = deferredTask(log, 'a2')
+
+    const result = queue.reserve('a')!.run(second.task)
+    await flush()
+    expect(log).toEqual([])
+
+    first.release()
+    first.release()
+    await flush()
+    expect(log).toEqual(['start a2'])
+
+    second.finish()
+    expect(await result).toBe('a2')
+    expect(queue.getStats().pending).toBe(0)
+  })
+
+  it('should cap the number of tasks running at the same time', async () => {
+    const queue = new ConversationQueue({ maxConcurrency: 1 })
+    const log: string[] = []
+    const first = deferredTask(log, 'a1')
+    const other = deferredTask(log, 'b1')
+
+    const results = [queue.reserve('a')!.run(first.task), queue.reserve('b')!.run(other.task)]
+    await flush()
+    expect(log).toEqual(['start a1'])
+
+    first.finish()
+    await flush()
+    expect(log).toEqual(['start a1', 'end a1', 'start b1'])
+    expect(queue.getStats().active).toBe(1)
+
+    other.finish()
+    await Promise.all(results)
+    expect(queue.getStats().active).toBe(0)
+  })
+
+  it('should reject messages when the queue is full', async () => {
+    const queue = new ConversationQueue({ maxQueueSize: 1 })
+    const slot = queue.reserve('a')!
+
+    expect(queue.reserve('b')).toBeNull()
+    expect(queue.getStats().rejected).toBe(1)
+
+    await slot.run(async () => 'done')
+    expect(queue.reserve('b')).not.toBeNull()
+  })
+
+  it('should free the slot when a task fails', async () => {
+    const queue = new ConversationQueue()
+
+    await expect(queue.reserve('a')!.run(async () => {
+      throw new Error('Agent down')
+    })).rejects.toThrow('Agent down')
+
+    expect(queue.getStats()).toMatchObject({ pending: 0, active: 0, processed: 1 })
+    expect(await queue.reserve('a')!.run(async () => 'next')).toBe('next')
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the conversation endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fastify, { type FastifyInstance } from 'fastify'
+import { registerConversationEndpoints } from '../../router/src/conversations-controller.js'
+import { TranscriptService, type TranscriptRepository } from '../../router/src/core/transcript.js'
+
+describe('ConversationsController', () => {
+  let app: FastifyInstance
+  let repository: TranscriptRepository
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    repository = {
+      add: vi.fn(),
+      listConversations: vi.fn().mockResolvedValue([{
+        channelId: '5491155551234',
+        chatId: '5491155551234@s.whatsapp.net',
+        messageCount: 2,
+        lastMessageAt: new Date('2026-01-01T10:00:02Z'),
+        lastMessageText: 'Hi!',
+        lastDirection: 'outbound',
+        lastAgentEndpoint: 'http://localhost:8000',
+        errorCount: 0,
+      }]),
+      listMessages: vi.fn().mockResolvedValue([]),
+      findLatestBySession: vi.fn(),
+      deleteBefore: vi.fn(),
+    }
+    app = fastify()
+    registerConversationEndpoints(app, new TranscriptService({ repository }))
+    await app.ready()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    vi.restoreAllMocks()
+  })
+
+  describe('GET /api/conversations', () => {
+    it('should list conversations with the default page', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/conversations' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toEqual({
+        success: true,
+        count: 1,
+        data: [{
+          channelId: '5491155551234',
+          chatId: '5491155551234@s.whatsapp.net',
+          messageCount: 2,
+          lastMessageAt: '2026-01-01T10:00:02.000Z',
+          lastMessageText: 'Hi!',
+          lastDirection: 'outbound',
+          lastAgentEndpoint: 'http://localhost:8000',
+          errorCount: 0,
+        }],
+      })
+      expect(repository.listConversations).toHaveBeenCalledWith({ limit: 50, offset: 0 })
+    })
+
+    it('should pass pagination and time filters', async () => {
+      await app.inject({
+        method: 'GET',
+        url: '/api/conversations?limit=10&offset=20&since=2026-01-01T00:00:00Z&until=2026-01-02T00:00:00Z',
+      })
+
+      expect(repository.listConversations).toHaveBeenCalledWith({
+        limit: 10,
+        offset: 20,
+        since: new Date('2026-01-01T00:00:00Z'),
+        until: new Date('2026-01-02T00:00:00Z'),
+      })
+    })
+
+    it('should pass the search text', async () => {
+      await app.inject({ method: 'GET', url: '/api/conversations?search=%20549115%20' })
+
+      expect(repository.listConversations).toHaveBeenCalledWith({ limit: 50, offset: 0, search: '549115' })
+    })
+
+    it('should reject invalid pagination', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/conversations?limit=0' })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json()).toMatchObject({ success: false, code: 'INVALID_PAGINATION' })
+    })
+
+    it('should reject invalid dates', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/conversations?since=yesterday' })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json()).toMatchObject({ success: false, code: 'INVALID_TIME_FILTER', details: { since: 'yesterday' } })
+    })
+
+    it('should return 500 when the conversations cannot be listed', async () => {
+      vi.mocked(repository.listConversations).mockRejectedValueOnce(new Error('Failed to list conversations: connection refused'))
+
+      const response = await app.inject({ method: 'GET', url: '/api/conversations' })
+
+      expect(response.statusCode).toBe(500)
+      expect(response.json()).toEqual({ success: false, error: 'Failed to list conversations: connection refused' })
+    })
+  })
+
+  describe('GET /api/conversations/:channelId/messages', () => {
+    it('should list the messages of the conversation', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/conversations/5491155551234/messages?limit=20&since=2026-01-01T00:00:00Z',
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toEqual({ success: true, data: [], count: 0 })
+      expect(repository.listMessages).toHaveBeenCalledWith('5491155551234', {
+        limit: 20,
+        offset: 0,
+        since: new Date('2026-01-01T00:00:00Z'),
+      })
+    })
+
+    it('should reject invalid pagination', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/conversations/5491155551234/messages?offset=-1' })
+
+      expect(response.statusCode).toBe(400)
+      expect(repository.listMessages).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when the messages cannot be listed', async () => {
+      vi.mocked(repository.listMessages).mockRejectedValueOnce(new Error('Failed to list messages: connection refused'))
+
+      const response = await app.inject({ method: 'GET', url: '/api/conversations/5491155551234/messages' })
+
+      expect(response.statusCode).toBe(500)
+    })
+  })
+})
@@ -60,7 +60,7 @@ describe('EvolutionProvider', () => {
       mockFetch.mockResolvedValue(mockResponse)
 
       const provider = new EvolutionProvider(config)
-      await provider.sendMessage(message)
+      await expect(provider.sendMessage(message)).resolves.toBe('msg-123')
 
       expect(mockFetch).toHaveBeenCalledWith(
         'http://localhost:8080/message/sendText/test-instance',
@@ -193,4 +193,229 @@ describe('EvolutionProvider', () => {
       // Note: Evolution API may not support metadata directly, but we send the text
     })
   })
+
+  describe('sendMessage with content', () => {
+    const base = {
+      to: '5491155551234@s.whatsapp.net',
+      channelId: 'test-channel-123',
+    }
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({ status: 200 }),
+      })
+    })
+
+    /**
+     * Returns the URL and parsed body of the first fetch call.
+     */
+    function getRequest() {
+      const [url, init] = mockFetch.mock.calls[0]
+      return { url, body: JSON.parse(init.body as string) }
+    }
+
+    it('should send images by URL through sendMedia with the text as caption', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: 'Your receipt',
+        content: { type: 'image', mimeType: 'image/png', url: 'https://example.com/r.png' },
+      })
+
+      const { url, body } = getRequest()
+      expect(url).toBe('http://localhost:8080/message/sendMedia/test-instance')
+      expect(body).toEqual({
+        number: '5491155551234',
+        mediatype: 'image',
+        mimetype: 'image/png',
+        media: 'https://example.com/r.png',
+        caption: 'Your receipt',
+      })
+    })
+
+    it('should send inline documents as base64 with the file name', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: '',
+        content: { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0=', filename: 'invoice.pdf' },
+      })
+
+      expect(getRequest().body).toEqual({
+        number: '5491155551234',
+        mediatype: 'document',
+        mimetype: 'application/pdf',
+        media: 'JVBERi0=',
+        fileName: 'invoice.pdf',
+      })
+    })
+
+    it('should send audio through sendWhatsAppAudio', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: 'ignored',
+        content: { type: 'audio', mimeType: 'audio/ogg', url: 'https://example.com/a.ogg' },
+      })
+
+      const { url, body } = getRequest()
+      expect(url).toBe('http://localhost:8080/message/sendWhatsAppAudio/test-instance')
+      expect(body).toEqual({ number: '5491155551234', audio: 'https://example.com/a.ogg' })
+    })
+
+    it('should send locations through sendLocation', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: '',
+        content: { type: 'location', latitude: -34.6, longitude: -58.38, name: 'Office' },
+      })
+
+      const { url, body } = getRequest()
+      expect(url).toBe('http://localhost:8080/message/sendLocation/test-instance')
+      expect(body).toEqual({
+        number: '5491155551234',
+        name: 'Office',
+        address: '',
+        latitude: -34.6,
+        longitude: -58.38,
+      })
+    })
+
+    it('should send contacts through sendContact', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: '',
+        content: { type: 'contact', name: 'Support', phone: '+54 9 11 5555-0000' },
+      })
+
+      const { url, body } = getRequest()
+      expect(url).toBe('http://localhost:8080/message/sendContact/test-instance')
+      expect(body).toEqual({
+        number: '5491155551234',
+        contact: [{ fullName: 'Support', wuid: '5491155550000', phoneNumber: '+54 9 11 5555-0000' }],
+      })
+    })
+
+    it('should quote the original message', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.sendMessage({
+        ...base,
+        text: 'Ana is',
+        quoted: { id: 'MSG001', text: 'Who is on call?' },
+      })
+
+      expect(getRequest().body).toEqual({
+        number: '5491155551234',
+        text: 'Ana is',
+        quoted: { key: { id: 'MSG001' }, message: { conversation: 'Who is on call?' } },
+      })
+    })
+
+    it('should reject media without url or data', async () => {
+      const provider = new EvolutionProvider(config)
+
+      await expect(provider.sendMessage({
+        ...base,
+        text: '',
+        content: { type: 'video', mimeType: 'video/mp4' },
+      })).rejects.toThrow('Outgoing video has neither url nor data')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('markRead and setTyping', () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: vi.fn().mockResolvedValue({}) })
+    })
+
+    it('should mark messages as read through the chat endpoint', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.markRead({
+        id: 'MSG001',
+        from: '5491155551234@s.whatsapp.net',
+        channelId: '5491155551234',
+        text: 'Hi',
+        timestamp: new Date(),
+      })
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('http://localhost:8080/chat/markMessageAsRead/test-instance')
+      expect(init.headers).toEqual(expect.objectContaining({ 'apikey': 'test-api-key' }))
+      expect(JSON.parse(init.body as string)).toEqual({
+        readMessages: [{ remoteJid: '5491155551234@s.whatsapp.net', fromMe: false, id: 'MSG001' }],
+      })
+    })
+
+    it('should send composing and paused presence', async () => {
+      const provider = new EvolutionProvider(config)
+      await provider.setTyping('5491155551234@s.whatsapp.net', true)
+      await provider.setTyping('5491155551234@s.whatsapp.net', false)
+
+      expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:8080/chat/sendPresence/test-instance')
+      expect(mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body as string))).toEqual([
+        { number: '5491155551234', presence: 'composing', delay: 7500 },
+        { number: '5491155551234', presence: 'paused', delay: 0 },
+      ])
+    })
+
+    it('should throw when the chat endpoint fails', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 404, text: vi.fn().mockResolvedValue('Not Found') })
+
+      const provider = new EvolutionProvider(config)
+
+      await expect(provider.setTyping('5491155551234', true)).rejects.toThrow('Evolution API returned 404: Not Found')
+    })
+  })
+
+  describe('toChatId', () => {
+    it('should return the JID of a phone number or chat', () => {
+      const provider = new EvolutionProvider(config)
+
+      expect(provider.toChatId('5491155551234')).toBe('5491155551234@s.whatsapp.net')
+      expect(provider.toChatId('120363025246125486@g.us')).toBe('120363025246125486@g.us')
+    })
+  })
+
+  describe('normalizeWebhook', () => {
+    it('should flag messages sent from the connected account', () => {
+      const provider = new EvolutionProvider(config)
+
+      const message = provider.normalizeWebhook({
+        event: 'messages.upsert',
+        instance: 'test-instance',
+        data: {
+          key: { remoteJid: '5491155551234@s.whatsapp.net', fromMe: true, id: 'OP1' },
+          message: { conversation: 'Hi, this is Ana' },
+          messageTimestamp: 1704067200,
+        },
+      })
+
+      expect(message?.metadata?.fromMe).toBe(true)
+    })
+
+    it('should derive a stable ID from the contents when the message has none', () => {
+      const provider = new EvolutionProvider(config)
+      const webhook = (text: string) => ({
+        event: 'messages.upsert',
+        instance: 'test-instance',
+        data: {
+          key: { remoteJid: '5491155551234@s.whatsapp.net', fromMe: false },
+          message: { conversation: text },
+          messageTimestamp: 1704067200,
+        },
+      })
+
+      const first = provider.normalizeWebhook(webhook('Hola'))
+      const redelivered = provider.normalizeWebhook(webhook('Hola'))
+      const other = provider.normalizeWebhook(webhook('Chau'))
+
+      expect(first?.id).toMatch(/^hash-[0-9a-f]{32}$/)
+      expect(redelivered?.id).toBe(first?.id)
+      expect(other?.id).not.toBe(first?.id)
+    })
+  })
 })
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the filesystem media store.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm, utimes } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { FileSystemMediaStore } from '../../router/src/infra/filesystem-media-store.js'
+
+describe('FileSystemMediaStore', () => {
+  let dir: string
+  let store: FileSystemMediaStore
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'wa2ai-media-'))
+    store = new FileSystemMediaStore({ dir, maxBytes: 16, retentionMs: 60_000 })
+  })
+
+  afterEach(async () => {
+    store.stopCleanup()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should save a file and read it back by URL', async () => {
+    const stored = await store.save(Buffer.from('voice note'), {
+      messageId: 'ABC/123',
+      mimeType: 'audio/ogg; codecs=opus',
+    })
+
+    expect(stored.size).toBe(10)
+    expect(stored.url).toMatch(/^file:\/\/.*-ABC_123-[0-9a-f]{8}\.ogg$/)
+    expect((await store.read(stored.url)).toString()).toBe('voice note')
+  })
+
+  it('should take the extension from the file name for unknown MIME types', async () => {
+    const stored = await store.save(Buffer.from('a,b'), {
+      messageId: 'DOC1',
+      mimeType: 'text/csv',
+      filename: 'report.CSV',
+    })
+
+    expect(stored.url).toMatch(/\.csv$/)
+  })
+
+  it('should reject files over the size limit', async () => {
+    await expect(store.save(Buffer.alloc(17), { messageId: 'BIG', mimeType: 'video/mp4' })).rejects.toThrow(
+      'Media of 17 bytes exceeds the 16 byte limit'
+    )
+    expect(await readdir(dir)).toEqual([])
+  })
+
+  it('should refuse to read files outside the media directory', async () => {
+    const outside = pathToFileURL(join(dir, '..', 'secret.txt')).href
+
+    await expect(store.read(outside)).rejects.toThrow(`Not a media store URL: ${outside}`)
+    await expect(store.read('https://example.com/a.jpg')).rejects.toThrow('Not a media store URL')
+  })
+
+  it('should purge files older than the retention period', async () => {
+    const old = await store.save(Buffer.from('old'), { messageId: 'OLD', mimeType: 'image/jpeg' })
+    const recent = await store.save(Buffer.from('new'), { messageId: 'NEW', mimeType: 'image/jpeg' })
+    const twoMinutesAgo = new Date(Date.now() - 120_000)
+    await utimes(fileURLToPath(old.url), twoMinutesAgo, twoMinutesAgo)
+
+    expect(await store.purgeExpired()).toBe(1)
+    await expect(store.read(old.url)).rejects.toThrow('Failed to read media')
+    expect((await store.read(recent.url)).toString()).toBe('new')
+  })
+
+  it('should purge nothing before anything was saved', async () => {
+    const empty = new FileSystemMediaStore({ dir: join(dir, 'missing') })
+
+    expect(await empty.purgeExpired()).toBe(0)
+  })
+})
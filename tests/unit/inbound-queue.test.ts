@@ -0,0 +1,247 @@
+/**
+ * Unit tests for the durable inbound queue.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import {
+  InboundQueue,
+  type InboundMessageQuery,
+  type InboundMessageRecord,
+  type InboundQueueRepository,
+} from '../../router/src/core/inbound-queue.js'
+import type { IncomingMessage } from '../../router/src/core/models.js'
+import type { MessageHandlerResult } from '../../router/src/core/message-handler.js'
+
+/**
+ * In-memory InboundQueueRepository.
+ */
+class MemoryInboundQueueRepository implements InboundQueueRepository {
+  records: InboundMessageRecord[] = []
+  private nextId = 1
+
+  async add(message: IncomingMessage): Promise<InboundMessageRecord> {
+    const now = new Date()
+    const record: InboundMessageRecord = {
+      id: `entry-${this.nextId++}`,
+      message,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.records.push(record)
+    return { ...record }
+  }
+
+  async claimDue(limit: number): Promise<InboundMessageRecord[]> {
+    const due = this.records
+      .filter((record) => record.status === 'pending' && record.nextAttemptAt.getTime() <= Date.now())
+      .slice(0, limit)
+    for (const record of due) {
+      record.status = 'processing'
+      record.attempts++
+    }
+    return due.map((record) => ({ ...record }))
+  }
+
+  async markDone(id: string, error?: string): Promise<void> {
+    Object.assign(this.get(id), { status: 'done', lastError: error })
+  }
+
+  async markFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    Object.assign(this.get(id), nextAttemptAt
+      ? { status: 'pending', lastError: error, nextAttemptAt }
+      : { status: 'dead', lastError: error })
+  }
+
+  async requeueProcessing(): Promise<number> {
+    const processing = this.records.filter((record) => record.status === 'processing')
+    processing.forEach((record) => {
+      record.status = 'pending'
+    })
+    return processing.length
+  }
+
+  async replay(id: string): Promise<InboundMessageRecord | null> {
+    const record = this.records.find((entry) => entry.id === id && entry.status === 'dead')
+    if (!record) {
+      return null
+    }
+    Object.assign(record, { status: 'pending', attempts: 0, nextAttemptAt: new Date() })
+    return { ...record }
+  }
+
+  async findById(id: string): Promise<InboundMessageRecord | null> {
+    return this.records.find((record) => record.id === id) ?? null
+  }
+
+  async list(query: InboundMessageQuery): Promise<InboundMessageRecord[]> {
+    return this.records.filter((record) => !query.status || record.status === query.status)
+  }
+
+  async deleteDone(): Promise<number> {
+    return 0
+  }
+
+  get(id: string): InboundMessageRecord {
+    return this.records.find((record) => record.id === id)!
+  }
+}
+
+describe('InboundQueue', () => {
+  const message: IncomingMessage = {
+    id: 'MSG001',
+    from: '5491155551234@s.whatsapp.net',
+    channelId: '5491155551234',
+    text: 'Hi',
+    timestamp: new Date(),
+  }
+  let repository: MemoryInboundQueueRepository
+  let handler: Mock<[IncomingMessage], Promise<MessageHandlerResult>>
+  let queue: InboundQueue
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    repository = new MemoryInboundQueueRepository()
+    handler = vi.fn<[IncomingMessage], Promise<MessageHandlerResult>>().mockResolvedValue({ success: true })
+    queue = new InboundQueue({
+      repository,
+      handler,
+      maxAttempts: 3,
+      retryBaseDelayMs: 1000,
+      pollIntervalMs: 100,
+    })
+  })
+
+  afterEach(() => {
+    queue.stop()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should store a message and route it', async () => {
+    await queue.start()
+
+    const record = await queue.submit(message)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(handler).toHaveBeenCalledWith(message)
+    expect(repository.get(record.id)).toMatchObject({ status: 'done', attempts: 1 })
+  })
+
+  it('should record why a message was not answered without retrying it', async () => {
+    handler.mockResolvedValueOnce({ success: false, error: 'No route found for channel: 5491155551234' })
+    await queue.start()
+
+    const record = await queue.submit(message)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(repository.get(record.id)).toMatchObject({
+      status: 'done',
+      lastError: 'No route found for channel: 5491155551234',
+    })
+  })
+
+  it('should retry retryable failures with exponential backoff and dead-letter them', async () => {
+    handler.mockResolvedValue({ success: false, error: 'Agent down', metadata: { retryable: true } })
+    await queue.start()
+
+    const record = await queue.submit(message)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(repository.get(record.id)).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Agent down' })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(handler).toHaveBeenCalledTimes(2)
+
+    await vi.advanceTimersByTimeAsync(1900)
+    expect(handler).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(handler).toHaveBeenCalledTimes(3)
+    expect(repository.get(record.id)).toMatchObject({ status: 'dead', attempts: 3 })
+  })
+
+  it('should not hold back later messages of a conversation while a retry is pending', async () => {
+    handler.mockResolvedValueOnce({ success: false, error: 'Agent down', metadata: { retryable: true } })
+    await queue.start()
+
+    const first = await queue.submit({ ...message, id: 'M1' })
+    await vi.advanceTimersByTimeAsync(0)
+    const second = await queue.submit({ ...message, id: 'M2' })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(repository.get(first.id)).toMatchObject({ status: 'pending', attempts: 1 })
+    expect(repository.get(second.id)).toMatchObject({ status: 'done', attempts: 1 })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(handler.mock.calls.map(([routed]) => routed.id)).toEqual(['M1', 'M2', 'M1'])
+    expect(repository.get(first.id).status).toBe('done')
+  })
+
+  it('should retry when the handler throws', async () => {
+    handler.mockRejectedValueOnce(new Error('Database unreachable'))
+    await queue.start()
+
+    const record = await queue.submit(message)
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(repository.get(record.id).status).toBe('done')
+  })
+
+  it('should replay a dead-lettered message with fresh attempts', async () => {
+    handler.mockResolvedValue({ success: false, error: 'Agent down', metadata: { retryable: true } })
+    const record = await queue.submit(message)
+    await repository.markFailed(record.id, 'Agent down', null)
+    handler.mockResolvedValue({ success: true })
+    await queue.start()
+
+    expect(await queue.replay('missing')).toBeNull()
+    expect(await queue.replay(record.id)).toMatchObject({ status: 'pending', attempts: 0 })
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(repository.get(record.id)).toMatchObject({ status: 'done', attempts: 1 })
+  })
+
+  it('should route messages left in process by a previous run', async () => {
+    const record = await repository.add(message)
+    await repository.claimDue(1)
+
+    await queue.start()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(repository.get(record.id)).toMatchObject({ status: 'done', attempts: 2 })
+  })
+
+  it('should not route more messages at the same time than allowed', async () => {
+    const pending: Array<() => void> = []
+    handler.mockImplementation(() => new Promise((resolve) => pending.push(() => resolve({ success: true }))))
+    queue = new InboundQueue({ repository, handler, maxInFlight: 2, pollIntervalMs: 100 })
+    await queue.start()
+
+    for (const id of ['M1', 'M2', 'M3']) {
+      await queue.submit({ ...message, id })
+    }
+    await vi.advanceTimersByTimeAsync(100)
+    expect(handler).toHaveBeenCalledTimes(2)
+
+    pending[0]()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(handler.mock.calls.map(([routed]) => routed.id)).toEqual(['M1', 'M2', 'M3'])
+  })
+
+  it('should compute the retry delay', () => {
+    expect([1, 2, 3].map((attempts) => queue.getRetryDelayMs(attempts))).toEqual([1000, 2000, 4000])
+    expect(queue.getRetryDelayMs(20)).toBe(5 * 60 * 1000)
+  })
+
+  it('should report messages that could not be stored', async () => {
+    vi.spyOn(repository, 'add').mockRejectedValueOnce(new Error('connection refused'))
+
+    await expect(queue.submit(message)).rejects.toThrow('Failed to enqueue message: connection refused')
+  })
+})
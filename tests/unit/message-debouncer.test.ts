@@ -0,0 +1,83 @@
+/**
+ * Unit tests for merging bursts of messages.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { MAX_BURST_MESSAGES, MessageDebouncer, mergeMessages } from '../../router/src/core/message-debouncer.js'
+import type { IncomingMessage } from '../../router/src/core/models.js'
+
+describe('MessageDebouncer', () => {
+  /**
+   * Creates a message from the same sender.
+   */
+  function message(id: string, text: string): IncomingMessage {
+    return { id, from: '5491155551234@s.whatsapp.net', channelId: '5491155551234', text, timestamp: new Date() }
+  }
+
+  let debouncer: MessageDebouncer
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    debouncer = new MessageDebouncer()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should release the burst once the sender pauses', async () => {
+    const first = debouncer.collect('chat', message('M1', 'Hi'), 1000)
+    await vi.advanceTimersByTimeAsync(900)
+    const second = debouncer.collect('chat', message('M2', 'there'), 1000)
+
+    expect(await first).toBeNull()
+    expect(debouncer.getPendingCount()).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect((await second)?.map((item) => item.id)).toEqual(['M1', 'M2'])
+    expect(debouncer.getPendingCount()).toBe(0)
+  })
+
+  it('should release a burst right away when it is full', async () => {
+    const calls = Array.from({ length: MAX_BURST_MESSAGES }, (_, index) =>
+      debouncer.collect('chat', message(`M${index}`, 'spam'), 1000)
+    )
+
+    expect(await calls[MAX_BURST_MESSAGES - 1]).toHaveLength(MAX_BURST_MESSAGES)
+    expect(debouncer.getPendingCount()).toBe(0)
+  })
+})
+
+describe('mergeMessages', () => {
+  const base: IncomingMessage = {
+    id: 'M1',
+    from: '5491155551234@s.whatsapp.net',
+    channelId: '5491155551234',
+    text: 'Look at this',
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12)),
+  }
+
+  it('should return a single message unchanged', () => {
+    expect(mergeMessages([base])).toBe(base)
+  })
+
+  it('should join texts and attachments and keep every ID', () => {
+    const attachment = { type: 'image' as const, mimeType: 'image/jpeg', url: 'file:///photo.jpg' }
+    const photo: IncomingMessage = {
+      ...base,
+      id: 'M2',
+      text: '',
+      timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0, 5)),
+      attachments: [attachment],
+      metadata: { pushName: 'Ana' },
+    }
+
+    expect(mergeMessages([base, photo, { ...photo, id: 'M3', text: 'Is it broken?', attachments: undefined }])).toEqual({
+      ...photo,
+      id: 'M3',
+      text: 'Look at this\nIs it broken?',
+      attachments: [attachment],
+      metadata: { pushName: 'Ana', messageIds: ['M1', 'M2', 'M3'] },
+    })
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for message deduplication.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  MessageDeduplicator,
+  InMemoryDedupStore,
+  hashMessageId,
+  getDedupKey,
+  type DedupStore,
+} from '../../router/src/core/message-dedup.js'
+import type { IncomingMessage } from '../../router/src/core/models.js'
+
+describe('hashMessageId', () => {
+  it('should return the same ID for the same contents', () => {
+    const id = hashMessageId('5491155551234@s.whatsapp.net', 1704067200, '{"conversation":"Hola"}')
+
+    expect(id).toMatch(/^hash-[0-9a-f]{32}$/)
+    expect(hashMessageId('5491155551234@s.whatsapp.net', 1704067200, '{"conversation":"Hola"}')).toBe(id)
+  })
+
+  it('should tell different contents apart', () => {
+    expect(hashMessageId('ab', 'c')).not.toBe(hashMessageId('a', 'bc'))
+    expect(hashMessageId('a', undefined, 'b')).not.toBe(hashMessageId('a', 'b'))
+  })
+})
+
+describe('InMemoryDedupStore', () => {
+  let now: number
+  let store: InMemoryDedupStore
+
+  beforeEach(() => {
+    now = 1_000_000
+    store = new InMemoryDedupStore({ maxEntries: 3, now: () => now })
+  })
+
+  it('should record a key once until it expires', async () => {
+    expect(await store.add('k1', 1000)).toBe(true)
+    expect(await store.add('k1', 1000)).toBe(false)
+
+    now += 1000
+    expect(await store.add('k1', 1000)).toBe(true)
+  })
+
+  it('should forget removed keys', async () => {
+    await store.add('k1', 1000)
+    await store.remove('k1')
+
+    expect(await store.add('k1', 1000)).toBe(true)
+  })
+
+  it('should drop the oldest keys beyond the maximum', async () => {
+    for (const key of ['k1', 'k2', 'k3', 'k4']) {
+      await store.add(key, 1000)
+    }
+
+    expect(store.getSize()).toBe(3)
+    expect(await store.add('k1', 1000)).toBe(true)
+    expect(await store.add('k4', 1000)).toBe(false)
+  })
+
+  it('should purge expired keys', async () => {
+    await store.add('k1', 1000)
+    await store.add('k2', 5000)
+    now += 2000
+
+    expect(await store.purgeExpired()).toBe(1)
+    expect(store.getSize()).toBe(1)
+  })
+})
+
+describe('MessageDeduplicator', () => {
+  const message: IncomingMessage = {
+    id: '3EB0C767D71D',
+    from: '5491155551234@s.whatsapp.net',
+    channelId: '5491155551234',
+    text: 'Hola',
+    timestamp: new Date(),
+  }
+  let deduplicator: MessageDeduplicator
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    deduplicator = new MessageDeduplicator({ store: new InMemoryDedupStore(), ttlMs: 60000 })
+  })
+
+  afterEach(() => {
+    deduplicator.stopCleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('should key messages by channel and message ID', () => {
+    expect(getDedupKey(message)).toBe('5491155551234|3EB0C767D71D')
+  })
+
+  it('should count and log duplicates', async () => {
+    expect(await deduplicator.isDuplicate(message)).toBe(false)
+    expect(await deduplicator.isDuplicate(message)).toBe(true)
+    expect(await deduplicator.isDuplicate({ ...message, channelId: '5491166665678' })).toBe(false)
+
+    expect(deduplicator.getStats()).toEqual({ checked: 3, duplicates: 1 })
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Duplicate message ignored'))
+  })
+
+  it('should process a forgotten message again', async () => {
+    await deduplicator.isDuplicate(message)
+    await deduplicator.forget(message)
+
+    expect(await deduplicator.isDuplicate(message)).toBe(false)
+  })
+
+  it('should process messages when the store fails', async () => {
+    const store: DedupStore = {
+      add: vi.fn().mockRejectedValue(new Error('Failed to record message: connection refused')),
+      remove: vi.fn(),
+      purgeExpired: vi.fn(),
+    }
+    deduplicator = new MessageDeduplicator({ store })
+
+    expect(await deduplicator.isDuplicate(message)).toBe(false)
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Failed to check message'))
+  })
+
+  it('should purge the store periodically', async () => {
+    vi.useFakeTimers()
+    const store: DedupStore = {
+      add: vi.fn(),
+      remove: vi.fn(),
+      purgeExpired: vi.fn().mockResolvedValue(0),
+    }
+    deduplicator = new MessageDeduplicator({ store })
+
+    deduplicator.startCleanup(1000)
+    await vi.advanceTimersByTimeAsync(2000)
+    deduplicator.stopCleanup()
+    await vi.advanceTimersByTimeAsync(2000)
+    vi.useRealTimers()
+
+    expect(store.purgeExpired).toHaveBeenCalledTimes(2)
+  })
+})
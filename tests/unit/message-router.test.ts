@@ -2,13 +2,18 @@
  * Unit tests for message router.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { MessageRouter } from '../../router/src/core/message-router.js'
 import { RouterService } from '../../router/src/core/router-service.js'
 import type { RoutesRepository } from '../../router/src/core/router-service.js'
 import type { IncomingMessage, Route } from '../../router/src/core/models.js'
-import type { AgentClient, AgentClientFactory } from '../../router/src/core/agent-client.js'
+import type { AgentClient, AgentClientFactory, AgentProtocol } from '../../router/src/core/agent-client.js'
+import { AgentProtocolRegistry } from '../../router/src/core/agent-registry.js'
+import { AdkAgentProtocol } from '../../router/src/infra/adk-agent-protocol.js'
 import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.js'
+import { TakeoverService } from '../../router/src/core/takeover.js'
+import { ConversationQueue } from '../../router/src/core/conversation-queue.js'
+import { TranscriptService, type TranscriptRepository } from '../../router/src/core/transcript.js'
 
 // Mock fetch for ADK client
 global.fetch = vi.fn()
@@ -31,6 +36,7 @@ describe('MessageRouter', () => {
 
   beforeEach(() => {
     mockRepository = {
+      findById: vi.fn(),
       findByChannelId: vi.fn(),
       findAll: vi.fn().mockResolvedValue([]),
     }
@@ -43,10 +49,10 @@ describe('MessageRouter', () => {
       sendMessage: sendMessageMock,
     } as AgentClient
     
-    // Create a mock agent client factory
-    mockAgentClientFactory = {
-      createAdkClient: vi.fn().mockReturnValue(mockAgentClient),
-    } as AgentClientFactory
+    // Create an agent registry whose clients are the mock agent client
+    const registry = new AgentProtocolRegistry().register(new AdkAgentProtocol())
+    vi.spyOn(registry, 'createClient').mockReturnValue(mockAgentClient)
+    mockAgentClientFactory = registry
     
     // Create a mock WhatsApp provider
     mockWhatsAppProvider = {
@@ -63,12 +69,13 @@ describe('MessageRouter', () => {
 
   describe('routeMessage', () => {
     it('should return error when no route is found', async () => {
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(null)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([])
 
       const result = await messageRouter.routeMessage(mockMessage)
 
       expect(result.success).toBe(false)
       expect(result.error).toContain('No route found')
+      expect(result.metadata?.retryable).toBeUndefined()
       expect(mockAgentClient.sendMessage).not.toHaveBeenCalled()
     })
 
@@ -85,7 +92,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Agent response',
@@ -95,10 +102,11 @@ describe('MessageRouter', () => {
 
       expect(result.success).toBe(true)
       expect(result.response).toBe('Agent response')
-      expect(mockAgentClientFactory.createAdkClient).toHaveBeenCalled()
+      expect(mockAgentClientFactory.createClient).toHaveBeenCalledWith(route)
       expect(mockAgentClient.sendMessage).toHaveBeenCalledWith(
         'http://localhost:8000',
-        mockMessage
+        mockMessage,
+        expect.objectContaining({ onReply: expect.any(Function) })
       )
     })
 
@@ -110,12 +118,76 @@ describe('MessageRouter', () => {
         // Missing ADK config
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
 
       const result = await messageRouter.routeMessage(mockMessage)
 
       expect(result.success).toBe(false)
-      expect(result.error).toContain('Route missing required agent configuration')
+      expect(result.error).toBe('Invalid agent configuration: ADK routes require config.adk.appName')
+      expect(mockAgentClientFactory.createClient).not.toHaveBeenCalled()
+    })
+
+    it('should return error when route has an unknown agent type', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        environment: 'lab',
+        config: { type: 'grpc' },
+      }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+
+      const result = await messageRouter.routeMessage(mockMessage)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Invalid agent configuration: Unknown agent type "grpc". Supported types: adk')
+      expect(mockAgentClient.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should return error when route has invalid options', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        environment: 'lab',
+        config: { adk: { appName: 'test_agent' }, replyDelayMs: -1 },
+      }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+
+      const result = await messageRouter.routeMessage(mockMessage)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Invalid route options: config.replyDelayMs must be an integer between 0 and 60000')
+      expect(mockAgentClientFactory.createClient).not.toHaveBeenCalled()
+    })
+
+    it('should route to a newly registered agent type without changes to MessageRouter', async () => {
+      const echoClient: AgentClient = {
+        sendMessage: vi.fn().mockResolvedValue({ success: true, response: 'echo: Hello' }),
+      }
+      const echoProtocol: AgentProtocol = {
+        type: 'echo',
+        validateConfig: () => null,
+        createClient: () => echoClient,
+        getEndpoint: () => 'echo://local',
+      }
+      const registry = new AgentProtocolRegistry().register(echoProtocol)
+      const router = new MessageRouter(routerService, {
+        whatsappProvider: mockWhatsAppProvider,
+        agentClientFactory: registry,
+      })
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([{
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://unused:8000',
+        environment: 'lab',
+        config: { type: 'echo' },
+      }])
+
+      const result = await router.routeMessage(mockMessage)
+
+      expect(result.success).toBe(true)
+      expect(result.response).toBe('echo: Hello')
+      expect(echoClient.sendMessage).toHaveBeenCalledWith('echo://local', mockMessage, expect.anything())
     })
 
     it('should handle agent client errors', async () => {
@@ -131,13 +203,14 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockRejectedValueOnce(new Error('Network error'))
 
       const result = await messageRouter.routeMessage(mockMessage)
 
       expect(result.success).toBe(false)
       expect(result.error).toContain('Failed to communicate with agent')
+      expect(result.metadata?.retryable).toBe(true)
     })
 
     it('should include route metadata in successful response', async () => {
@@ -153,7 +226,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Response',
@@ -180,7 +253,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Agent response text',
@@ -211,7 +284,7 @@ describe('MessageRouter', () => {
         environment: 'lab',
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Agent response text',
@@ -230,6 +303,119 @@ describe('MessageRouter', () => {
       )
     })
 
+    it('should send reply parts in order as separate messages', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        config: { adk: { appName: 'test_agent', replyMode: 'all' } },
+        environment: 'lab',
+      }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
+        success: true,
+        response: 'On it.\n\nDone.',
+        parts: [{ text: 'On it.' }, { text: 'Done.' }],
+      })
+
+      const result = await messageRouter.routeMessage(mockMessage)
+
+      expect(result.success).toBe(true)
+      expect(result.response).toBe('On it.\n\nDone.')
+      expect(vi.mocked(mockWhatsAppProvider.sendMessage).mock.calls.map(([sent]) => sent.text)).toEqual([
+        'On it.',
+        'Done.',
+      ])
+    })
+
+    it('should send the content of reply parts with the text as caption', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        config: { adk: { appName: 'test_agent' } },
+        environment: 'lab',
+      }
+      const content = { type: 'image' as const, mimeType: 'image/png', data: 'AAAA' }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
+        success: true,
+        response: 'Your chart',
+        parts: [{ text: 'Your chart', content }],
+      })
+
+      await messageRouter.routeMessage(mockMessage)
+
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        to: mockMessage.from,
+        text: 'Your chart',
+        content,
+      }))
+    })
+
+    it('should wait config.replyDelayMs between reply parts', async () => {
+      vi.useFakeTimers()
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        config: { adk: { appName: 'test_agent', replyMode: 'all' }, replyDelayMs: 1000 },
+        environment: 'lab',
+      }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
+        success: true,
+        parts: [{ text: 'First' }, { text: 'Second' }],
+      })
+
+      const routing = messageRouter.routeMessage(mockMessage)
+
+      await vi.advanceTimersByTimeAsync(0)
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(999)
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(1)
+      await routing
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledTimes(2)
+      vi.useRealTimers()
+    })
+
+    it('should send streamed replies as they arrive and not resend them', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        config: {
+          adk: {
+            appName: 'test_agent',
+            streaming: true,
+          },
+        },
+        environment: 'lab',
+      }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockImplementationOnce(async (_endpoint, _message, options) => {
+        await options?.onReply?.('Working on it...')
+        expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledTimes(1)
+        await options?.onReply?.('Here is your answer.')
+        return { success: true, response: 'Working on it...\n\nHere is your answer.', streamed: true }
+      })
+
+      const result = await messageRouter.routeMessage(mockMessage)
+
+      expect(result.success).toBe(true)
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledTimes(2)
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        to: mockMessage.from,
+        text: 'Working on it...',
+      }))
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        text: 'Here is your answer.',
+      }))
+    })
+
     it('should handle timeout errors from agent client', async () => {
       const route: Route = {
         channelId: 'test-channel-123',
@@ -243,7 +429,7 @@ describe('MessageRouter', () => {
         environment: 'lab',
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       const timeoutError = new Error('ADK request timed out after 30000ms')
       timeoutError.name = 'AbortError'
       vi.mocked(mockAgentClient.sendMessage).mockRejectedValueOnce(timeoutError)
@@ -267,7 +453,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: false,
         error: 'Agent processing failed',
@@ -277,6 +463,56 @@ describe('MessageRouter', () => {
 
       expect(result.success).toBe(false)
       expect(result.error).toBe('Agent processing failed')
+      expect(result.metadata?.retryable).toBe(true)
+    })
+
+    it('should not retry an agent failure after a reply was delivered', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        environment: 'lab',
+        config: { adk: { appName: 'test_agent', streaming: true } },
+      }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage)
+        .mockImplementationOnce(async (_endpoint, _message, options) => {
+          await options?.onReply?.('First sentence.')
+          return { success: false, error: 'Stream interrupted' }
+        })
+        .mockImplementationOnce(async (_endpoint, _message, options) => {
+          await options?.onReply?.('First sentence.')
+          throw new Error('Connection reset')
+        })
+
+      const interrupted = await messageRouter.routeMessage(mockMessage)
+      const reset = await messageRouter.routeMessage(mockMessage)
+
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledTimes(2)
+      expect(interrupted).toMatchObject({ success: false, error: 'Stream interrupted' })
+      expect(interrupted.metadata?.retryable).toBeUndefined()
+      expect(reset.success).toBe(false)
+      expect(reset.metadata?.retryable).toBeUndefined()
+    })
+
+    it('should retry an agent failure when no reply could be delivered', async () => {
+      const route: Route = {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000',
+        environment: 'lab',
+        config: { adk: { appName: 'test_agent', streaming: true } },
+      }
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockWhatsAppProvider.sendMessage).mockRejectedValueOnce(new Error('Not connected'))
+      vi.mocked(mockAgentClient.sendMessage).mockImplementationOnce(async (_endpoint, _message, options) => {
+        await options?.onReply?.('First sentence.')
+        return { success: false, error: 'Stream interrupted' }
+      })
+
+      const result = await messageRouter.routeMessage(mockMessage)
+
+      expect(result.metadata?.retryable).toBe(true)
     })
 
     it('should handle agent response with success=false and no error message', async () => {
@@ -292,7 +528,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: false,
       })
@@ -316,7 +552,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         // No response text
@@ -342,7 +578,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Agent response text',
@@ -372,7 +608,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Response',
@@ -380,14 +616,11 @@ describe('MessageRouter', () => {
 
       await messageRouter.routeMessage(mockMessage)
 
-      expect(mockAgentClientFactory.createAdkClient).toHaveBeenCalledWith({
-        appName: 'test_agent',
-        baseUrl: 'http://custom-base-url:9000',
-        timeout: 30000,
-      })
+      expect(mockAgentClientFactory.createClient).toHaveBeenCalledWith(route)
       expect(mockAgentClient.sendMessage).toHaveBeenCalledWith(
         'http://custom-base-url:9000',
-        mockMessage
+        mockMessage,
+        expect.objectContaining({ onReply: expect.any(Function) })
       )
     })
 
@@ -404,7 +637,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Response',
@@ -412,14 +645,11 @@ describe('MessageRouter', () => {
 
       await messageRouter.routeMessage(mockMessage)
 
-      expect(mockAgentClientFactory.createAdkClient).toHaveBeenCalledWith({
-        appName: 'test_agent',
-        baseUrl: 'http://fallback-endpoint:8000',
-        timeout: 30000,
-      })
+      expect(mockAgentClientFactory.createClient).toHaveBeenCalledWith(route)
       expect(mockAgentClient.sendMessage).toHaveBeenCalledWith(
         'http://fallback-endpoint:8000',
-        mockMessage
+        mockMessage,
+        expect.objectContaining({ onReply: expect.any(Function) })
       )
     })
 
@@ -436,7 +666,7 @@ describe('MessageRouter', () => {
         },
       }
 
-      vi.mocked(mockRepository.findByChannelId).mockResolvedValue(route)
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
       vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
         success: true,
         response: 'Response',
@@ -461,5 +691,544 @@ describe('MessageRouter', () => {
       })
     })
   })
+
+  describe('quoted replies', () => {
+    const route: Route = {
+      channelId: '120363025246125486',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+      config: { adk: { appName: 'test_agent', replyMode: 'all' } },
+    }
+    const groupMessage: IncomingMessage = {
+      id: 'MSG002',
+      from: '120363025246125486@g.us',
+      channelId: '120363025246125486',
+      text: 'Who is on call?',
+      timestamp: new Date(),
+      metadata: { participant: '5491155551234@s.whatsapp.net', isGroup: true },
+    }
+
+    it('should quote the group message in the first reply only', async () => {
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
+        success: true,
+        parts: [{ text: 'Checking.' }, { text: 'Ana is.' }],
+      })
+
+      await messageRouter.routeMessage(groupMessage)
+
+      const sent = vi.mocked(mockWhatsAppProvider.sendMessage).mock.calls.map(([message]) => message)
+      expect(sent[0].quoted).toEqual({
+        id: 'MSG002',
+        text: 'Who is on call?',
+        participant: '5491155551234@s.whatsapp.net',
+      })
+      expect(sent[1].quoted).toBeUndefined()
+    })
+
+    it('should not quote direct messages unless config.quoteReplies is true', async () => {
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([{ ...route, channelId: 'test-channel-123' }])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValue({ success: true, response: 'Hi' })
+
+      await messageRouter.routeMessage(mockMessage)
+      expect(vi.mocked(mockWhatsAppProvider.sendMessage).mock.calls[0][0].quoted).toBeUndefined()
+
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([{
+        ...route,
+        channelId: 'test-channel-123',
+        config: { ...route.config, quoteReplies: true },
+      }])
+      await messageRouter.routeMessage(mockMessage)
+      expect(vi.mocked(mockWhatsAppProvider.sendMessage).mock.calls[1][0].quoted).toEqual({ id: 'MSG001', text: 'Hello' })
+    })
+  })
+
+  describe('group mode', () => {
+    const route: Route = {
+      channelId: '120363025246125486',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+      config: { adk: { appName: 'test_agent' }, groupMode: 'mention-only' },
+    }
+    const groupMessage: IncomingMessage = {
+      id: 'MSG003',
+      from: '120363025246125486@g.us',
+      channelId: '120363025246125486',
+      text: 'See you tomorrow',
+      timestamp: new Date(),
+      metadata: { isGroup: true, mentionsBot: false, repliesToBot: false },
+    }
+
+    it('should skip group messages that do not mention the bot', async () => {
+      const markRead = vi.fn().mockResolvedValue(undefined)
+      const router = new MessageRouter(routerService, {
+        whatsappProvider: { ...mockWhatsAppProvider, markRead },
+        agentClientFactory: mockAgentClientFactory,
+      })
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+
+      const result = await router.routeMessage(groupMessage)
+
+      expect(result).toEqual({ success: true, metadata: { skipped: true, groupMode: 'mention-only' } })
+      expect(mockAgentClient.sendMessage).not.toHaveBeenCalled()
+      expect(markRead).not.toHaveBeenCalled()
+    })
+
+    it('should forward group messages that mention the bot', async () => {
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'On it' })
+
+      const result = await messageRouter.routeMessage({
+        ...groupMessage,
+        metadata: { isGroup: true, mentionsBot: true, repliesToBot: false },
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockAgentClient.sendMessage).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('debounce', () => {
+    const route: Route = {
+      channelId: 'test-channel-123',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+      config: { adk: { appName: 'test_agent' }, debounceMs: 2000 },
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValue({ success: true, response: 'Got it' })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should merge a burst from the same sender into one agent call', async () => {
+      const first = messageRouter.routeMessage({ ...mockMessage, id: 'MSG1', text: 'Hi' })
+      await vi.advanceTimersByTimeAsync(1500)
+      const second = messageRouter.routeMessage({ ...mockMessage, id: 'MSG2', text: 'I need help' })
+      await vi.advanceTimersByTimeAsync(1500)
+      const third = messageRouter.routeMessage({ ...mockMessage, id: 'MSG3', text: 'with my order' })
+
+      expect(mockAgentClient.sendMessage).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(2000)
+      expect((await third).success).toBe(true)
+      expect(await first).toEqual({ success: true, metadata: { skipped: true, debounced: true } })
+      expect(await second).toEqual({ success: true, metadata: { skipped: true, debounced: true } })
+      expect(mockAgentClient.sendMessage).toHaveBeenCalledTimes(1)
+      expect(vi.mocked(mockAgentClient.sendMessage).mock.calls[0][1]).toMatchObject({
+        id: 'MSG3',
+        text: 'Hi\nI need help\nwith my order',
+        metadata: { messageIds: ['MSG1', 'MSG2', 'MSG3'] },
+      })
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('should settle the earlier messages of a burst only once the burst was answered', async () => {
+      let settled = false
+      const first = messageRouter.routeMessage({ ...mockMessage, id: 'MSG1', text: 'Hi' })
+        .finally(() => { settled = true })
+      await vi.advanceTimersByTimeAsync(1000)
+      const second = messageRouter.routeMessage({ ...mockMessage, id: 'MSG2', text: 'I need help' })
+
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(settled).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(1000)
+      await second
+      expect(settled).toBe(true)
+      await first
+    })
+
+    it('should fail the earlier messages of a burst when the burst fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValue({ success: false, error: 'Agent unavailable' })
+
+      const first = messageRouter.routeMessage({ ...mockMessage, id: 'MSG1', text: 'Hi' })
+      const second = messageRouter.routeMessage({ ...mockMessage, id: 'MSG2', text: 'I need help' })
+      await vi.advanceTimersByTimeAsync(2000)
+
+      const [firstResult, secondResult] = await Promise.all([first, second])
+      expect(secondResult).toMatchObject({ success: false, error: 'Agent unavailable', metadata: { retryable: true } })
+      expect(firstResult).toEqual(secondResult)
+      expect(mockAgentClient.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('should answer a burst in its conversation queue', async () => {
+      const router = new MessageRouter(routerService, {
+        whatsappProvider: mockWhatsAppProvider,
+        agentClientFactory: mockAgentClientFactory,
+        queue: new ConversationQueue(),
+      })
+
+      const first = router.routeMessage({ ...mockMessage, id: 'MSG1', text: 'Hi' })
+      const second = router.routeMessage({ ...mockMessage, id: 'MSG2', text: 'I need help' })
+      await vi.advanceTimersByTimeAsync(2000)
+
+      expect((await second).success).toBe(true)
+      expect(await first).toEqual({ success: true, metadata: { skipped: true, debounced: true } })
+      expect(mockAgentClient.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep bursts of different senders apart', async () => {
+      const first = messageRouter.routeMessage(mockMessage)
+      const second = messageRouter.routeMessage({ ...mockMessage, id: 'MSG2', from: 'other-user@s.whatsapp.net' })
+
+      await vi.advanceTimersByTimeAsync(2000)
+      await Promise.all([first, second])
+
+      expect(mockAgentClient.sendMessage).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(mockAgentClient.sendMessage).mock.calls[0][1]).toBe(mockMessage)
+    })
+  })
+
+  describe('conversation queue', () => {
+    const route: Route = {
+      channelId: 'test-channel-123',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+      config: { adk: { appName: 'test_agent' } },
+    }
+
+    beforeEach(() => {
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+    })
+
+    it('should answer a conversation in order even when a later message is routed faster', async () => {
+      const router = new MessageRouter(routerService, {
+        whatsappProvider: mockWhatsAppProvider,
+        agentClientFactory: mockAgentClientFactory,
+        queue: new ConversationQueue(),
+      })
+      let finishFirst!: () => void
+      vi.mocked(mockAgentClient.sendMessage)
+        .mockImplementationOnce(() => new Promise((resolve) => {
+          finishFirst = () => resolve({ success: true, response: 'First answer' })
+        }))
+        .mockResolvedValueOnce({ success: true, response: 'Second answer' })
+
+      const first = router.routeMessage(mockMessage)
+      const second = router.routeMessage({ ...mockMessage, id: 'MSG002', text: 'Are you there?' })
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      expect(mockAgentClient.sendMessage).toHaveBeenCalledTimes(1)
+
+      finishFirst()
+      await Promise.all([first, second])
+
+      expect(vi.mocked(mockWhatsAppProvider.sendMessage).mock.calls.map(([sent]) => sent.text))
+        .toEqual(['First answer', 'Second answer'])
+    })
+
+    it('should reject messages when the queue is full', async () => {
+      const queue = new ConversationQueue({ maxQueueSize: 0 })
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const router = new MessageRouter(routerService, {
+        whatsappProvider: mockWhatsAppProvider,
+        agentClientFactory: mockAgentClientFactory,
+        queue,
+      })
+
+      const result = await router.routeMessage(mockMessage)
+
+      expect(result).toEqual({ success: false, error: 'Message queue is full', metadata: { queueFull: true, retryable: true } })
+      expect(mockRepository.findByChannelId).not.toHaveBeenCalled()
+    })
+
+    it('should let the next message through when a message is skipped', async () => {
+      const queue = new ConversationQueue()
+      const router = new MessageRouter(routerService, {
+        whatsappProvider: mockWhatsAppProvider,
+        agentClientFactory: mockAgentClientFactory,
+        queue,
+      })
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([
+        { ...route, config: { ...route.config, groupMode: 'mention-only' } },
+      ])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'Hi' })
+      const groupMessage = { ...mockMessage, from: '120363025246125486@g.us', metadata: { isGroup: true } }
+
+      const [skipped, answered] = await Promise.all([
+        router.routeMessage(groupMessage),
+        router.routeMessage({ ...groupMessage, id: 'MSG002', metadata: { isGroup: true, mentionsBot: true } }),
+      ])
+
+      expect(skipped.metadata).toEqual({ skipped: true, groupMode: 'mention-only' })
+      expect(answered.success).toBe(true)
+      expect(queue.getStats().pending).toBe(0)
+    })
+  })
+
+  describe('transcript', () => {
+    const route: Route = {
+      id: 'route-1',
+      channelId: 'test-channel-123',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+      config: { adk: { appName: 'test_agent' } },
+    }
+    let repository: TranscriptRepository
+    let router: MessageRouter
+
+    beforeEach(() => {
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      repository = {
+        add: vi.fn().mockResolvedValue(undefined),
+        listConversations: vi.fn(),
+        listMessages: vi.fn(),
+        findLatestBySession: vi.fn(),
+        deleteBefore: vi.fn(),
+      }
+      router = new MessageRouter(routerService, {
+        whatsappProvider: mockWhatsAppProvider,
+        agentClientFactory: mockAgentClientFactory,
+        transcript: new TranscriptService({ repository }),
+      })
+    })
+
+    it('should record the message and the replies with the route and the agent session', async () => {
+      vi.mocked(mockWhatsAppProvider.sendMessage).mockResolvedValueOnce('REPLY001')
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({
+        success: true,
+        response: 'Hi there',
+        metadata: { adk: { sessionId: 'session-42' } },
+      })
+
+      await router.routeMessage(mockMessage)
+
+      const [entries] = vi.mocked(repository.add).mock.calls[0]
+      expect(entries).toEqual([
+        expect.objectContaining({
+          direction: 'inbound',
+          messageId: 'MSG001',
+          chatId: 'test-user-123@s.whatsapp.net',
+          text: 'Hello',
+          routeId: 'route-1',
+          agentEndpoint: 'http://localhost:8000',
+          sessionId: 'session-42',
+          latencyMs: expect.any(Number),
+          success: true,
+          timestamp: mockMessage.timestamp,
+        }),
+        expect.objectContaining({
+          direction: 'outbound',
+          messageId: 'REPLY001',
+          text: 'Hi there',
+          sessionId: 'session-42',
+          success: true,
+        }),
+      ])
+    })
+
+    it('should record agent failures', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: false, error: 'Agent down' })
+
+      await router.routeMessage(mockMessage)
+
+      const [entries] = vi.mocked(repository.add).mock.calls[0]
+      expect(entries).toEqual([expect.objectContaining({ direction: 'inbound', success: false, error: 'Agent down' })])
+    })
+
+    it('should record replies that could not be delivered', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(mockWhatsAppProvider.sendMessage).mockRejectedValueOnce(new Error('Connection closed'))
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'Hi there' })
+
+      await router.routeMessage(mockMessage)
+
+      const [entries] = vi.mocked(repository.add).mock.calls[0]
+      expect(entries[1]).toEqual(expect.objectContaining({ direction: 'outbound', success: false, error: 'Connection closed' }))
+    })
+
+    it('should answer even when the transcript cannot be stored', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(repository.add).mockRejectedValueOnce(new Error('Failed to store messages: connection refused'))
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'Hi there' })
+
+      const result = await router.routeMessage(mockMessage)
+
+      expect(result.success).toBe(true)
+      expect(mockWhatsAppProvider.sendMessage).toHaveBeenCalled()
+    })
+
+    it('should not record messages without a route', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([])
+
+      await router.routeMessage(mockMessage)
+
+      expect(repository.add).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('human takeover', () => {
+    const route: Route = {
+      channelId: 'test-channel-123',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+      config: { adk: { appName: 'test_agent' } },
+    }
+    let takeover: TakeoverService
+    let router: MessageRouter
+
+    beforeEach(() => {
+      takeover = new TakeoverService()
+      router = new MessageRouter(routerService, {
+        whatsappProvider: mockWhatsAppProvider,
+        agentClientFactory: mockAgentClientFactory,
+        takeover,
+      })
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+    })
+
+    it('should pause the chat when an operator writes and resume it on the resume command', async () => {
+      const operatorMessage = { ...mockMessage, id: 'OP1', text: 'Hi, this is Ana', metadata: { fromMe: true } }
+
+      expect(await router.routeMessage(operatorMessage)).toEqual({
+        success: true,
+        metadata: { skipped: true, takeover: 'paused' },
+      })
+      expect(await router.routeMessage(mockMessage)).toEqual({
+        success: true,
+        metadata: { skipped: true, takeover: 'paused' },
+      })
+      expect(mockAgentClient.sendMessage).not.toHaveBeenCalled()
+
+      await router.routeMessage({ ...operatorMessage, id: 'OP2', text: '/bot' })
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'Hi' })
+      expect((await router.routeMessage(mockMessage)).success).toBe(true)
+      expect(mockAgentClient.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not pause the chat for echoes of its own replies', async () => {
+      vi.mocked(mockWhatsAppProvider.sendMessage).mockResolvedValueOnce('SENT1')
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'Hi' })
+      await router.routeMessage(mockMessage)
+
+      const result = await router.routeMessage({ ...mockMessage, id: 'SENT1', text: 'Hi', metadata: { fromMe: true } })
+
+      expect(result.metadata).toEqual({ skipped: true, takeover: 'echo' })
+      expect(takeover.isPaused(mockMessage.from)).toBe(false)
+    })
+
+    it('should drop replies when an operator steps in while the agent works', async () => {
+      vi.mocked(mockAgentClient.sendMessage).mockImplementationOnce(async () => {
+        takeover.pause(mockMessage.from, 'operator')
+        return { success: true, response: 'Late answer' }
+      })
+
+      await router.routeMessage(mockMessage)
+
+      expect(mockWhatsAppProvider.sendMessage).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('read receipts and typing indicator', () => {
+    const route: Route = {
+      channelId: 'test-channel-123',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+      config: { adk: { appName: 'test_agent' } },
+    }
+
+    /**
+     * Creates a router whose provider supports markRead and setTyping.
+     */
+    function createPresenceRouter() {
+      const provider = {
+        ...mockWhatsAppProvider,
+        sendMessage: vi.fn().mockResolvedValue(undefined),
+        markRead: vi.fn().mockResolvedValue(undefined),
+        setTyping: vi.fn().mockResolvedValue(undefined),
+      }
+      const router = new MessageRouter(routerService, {
+        whatsappProvider: provider,
+        agentClientFactory: mockAgentClientFactory,
+      })
+      return { provider, router }
+    }
+
+    it('should mark the message read and type until the reply is sent', async () => {
+      const { provider, router } = createPresenceRouter()
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockImplementationOnce(async () => {
+        expect(provider.markRead).toHaveBeenCalledWith(mockMessage)
+        expect(provider.setTyping).toHaveBeenCalledWith(mockMessage.from, true)
+        return { success: true, response: 'Done' }
+      })
+
+      await router.routeMessage(mockMessage)
+
+      expect(provider.sendMessage).toHaveBeenCalledTimes(1)
+      expect(provider.setTyping).toHaveBeenLastCalledWith(mockMessage.from, false)
+      expect(provider.sendMessage.mock.invocationCallOrder[0])
+        .toBeLessThan(provider.setTyping.mock.invocationCallOrder[1])
+    })
+
+    it('should keep the typing indicator alive while the agent works', async () => {
+      vi.useFakeTimers()
+      const { provider, router } = createPresenceRouter()
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockImplementationOnce(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20000))
+        return { success: true, response: 'Done' }
+      })
+
+      const routing = router.routeMessage(mockMessage)
+      await vi.advanceTimersByTimeAsync(20000)
+      await routing
+
+      expect(provider.setTyping.mock.calls).toEqual([
+        [mockMessage.from, true],
+        [mockMessage.from, true],
+        [mockMessage.from, true],
+        [mockMessage.from, false],
+      ])
+      vi.useRealTimers()
+    })
+
+    it('should stop typing when the agent fails', async () => {
+      const { provider, router } = createPresenceRouter()
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockRejectedValueOnce(new Error('Agent down'))
+
+      const result = await router.routeMessage(mockMessage)
+
+      expect(result.success).toBe(false)
+      expect(provider.setTyping).toHaveBeenLastCalledWith(mockMessage.from, false)
+    })
+
+    it('should respect the per-route opt-out', async () => {
+      const { provider, router } = createPresenceRouter()
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([{
+        ...route,
+        config: { ...route.config, readReceipts: false, typingIndicator: false },
+      }])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'Done' })
+
+      await router.routeMessage(mockMessage)
+
+      expect(provider.markRead).not.toHaveBeenCalled()
+      expect(provider.setTyping).not.toHaveBeenCalled()
+      expect(provider.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('should route the message when receipts and presence updates fail', async () => {
+      const { provider, router } = createPresenceRouter()
+      provider.markRead.mockRejectedValue(new Error('Not connected to WhatsApp'))
+      provider.setTyping.mockRejectedValue(new Error('Not connected to WhatsApp'))
+      vi.mocked(mockRepository.findByChannelId).mockResolvedValue([route])
+      vi.mocked(mockAgentClient.sendMessage).mockResolvedValueOnce({ success: true, response: 'Done' })
+
+      const result = await router.routeMessage(mockMessage)
+
+      expect(result.success).toBe(true)
+      expect(provider.sendMessage).toHaveBeenCalledTimes(1)
+    })
+  })
 })
 
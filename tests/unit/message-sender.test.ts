@@ -0,0 +1,104 @@
+/**
+ * Unit tests for MessageSender.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { MessageSender } from '../../router/src/core/message-sender.js'
+import { TakeoverService } from '../../router/src/core/takeover.js'
+import { TranscriptService, type TranscriptRepository } from '../../router/src/core/transcript.js'
+import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.js'
+import type { OutgoingMessage } from '../../router/src/core/models.js'
+
+describe('MessageSender', () => {
+  const message: OutgoingMessage = {
+    to: '5491155551234@s.whatsapp.net',
+    channelId: '5491155551234',
+    text: 'Hi, this is Ana from support',
+  }
+  let provider: WhatsAppProvider
+  let repository: TranscriptRepository
+  let takeover: TakeoverService
+  let sender: MessageSender
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    provider = {
+      sendMessage: vi.fn().mockResolvedValue('3EB0A1B2C3D4E5F6'),
+      normalizeWebhook: vi.fn(),
+    }
+    repository = {
+      add: vi.fn().mockResolvedValue(undefined),
+      listConversations: vi.fn(),
+      listMessages: vi.fn(),
+      findLatestBySession: vi.fn(),
+      deleteBefore: vi.fn(),
+    }
+    takeover = new TakeoverService()
+    sender = new MessageSender({ provider, takeover, transcript: new TranscriptService({ repository }) })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should send the message and record it', async () => {
+    const result = await sender.send(message)
+
+    expect(provider.sendMessage).toHaveBeenCalledWith(message)
+    expect(result).toEqual({ delivered: true, messageId: '3EB0A1B2C3D4E5F6', sentAt: expect.any(Date) })
+    expect(takeover.isSentByRouter('3EB0A1B2C3D4E5F6')).toBe(true)
+    expect(repository.add).toHaveBeenCalledWith([{
+      channelId: '5491155551234',
+      chatId: '5491155551234@s.whatsapp.net',
+      direction: 'outbound',
+      messageId: '3EB0A1B2C3D4E5F6',
+      text: 'Hi, this is Ana from support',
+      success: true,
+      timestamp: result.sentAt,
+    }])
+  })
+
+  it('should record the agent a message is sent for', async () => {
+    await sender.send(
+      { ...message, content: { type: 'location', latitude: -34.6, longitude: -58.4 } },
+      { routeId: 'route-1', agentEndpoint: 'http://localhost:8000' }
+    )
+
+    expect(repository.add).toHaveBeenCalledWith([expect.objectContaining({
+      contentType: 'location',
+      routeId: 'route-1',
+      agentEndpoint: 'http://localhost:8000',
+    })])
+  })
+
+  it('should return and record delivery failures', async () => {
+    vi.mocked(provider.sendMessage).mockRejectedValueOnce(new Error('Connection closed'))
+
+    const result = await sender.send(message)
+
+    expect(result).toEqual({ delivered: false, error: 'Connection closed', sentAt: expect.any(Date) })
+    expect(repository.add).toHaveBeenCalledWith([expect.objectContaining({
+      success: false,
+      error: 'Connection closed',
+    })])
+  })
+
+  it('should send to and record the chat ID of a phone number', async () => {
+    provider.toChatId = vi.fn((recipient: string) => recipient.includes('@') ? recipient : `${recipient}@s.whatsapp.net`)
+
+    await sender.send({ ...message, to: '5491155551234' })
+
+    expect(provider.sendMessage).toHaveBeenCalledWith(message)
+    expect(repository.add).toHaveBeenCalledWith([expect.objectContaining({
+      chatId: '5491155551234@s.whatsapp.net',
+    })])
+  })
+
+  it('should send without takeover or transcript', async () => {
+    vi.mocked(provider.sendMessage).mockResolvedValueOnce(undefined)
+    sender = new MessageSender({ provider })
+
+    expect(await sender.send(message)).toEqual({ delivered: true, sentAt: expect.any(Date) })
+  })
+})
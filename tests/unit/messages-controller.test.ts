@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the message endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fastify, { type FastifyInstance } from 'fastify'
+import { registerMessageEndpoints } from '../../router/src/messages-controller.js'
+import { MessageSender } from '../../router/src/core/message-sender.js'
+import { TakeoverService } from '../../router/src/core/takeover.js'
+import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.js'
+
+describe('MessagesController', () => {
+  const chatId = '5491155551234@s.whatsapp.net'
+  let app: FastifyInstance
+  let provider: WhatsAppProvider
+  let takeover: TakeoverService
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    provider = {
+      sendMessage: vi.fn().mockResolvedValue('3EB0A1B2C3D4E5F6'),
+      normalizeWebhook: vi.fn(),
+    }
+    takeover = new TakeoverService({ cooldownMs: 60_000 })
+    app = fastify()
+    registerMessageEndpoints(app, new MessageSender({ provider, takeover }), takeover)
+    await app.ready()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    vi.restoreAllMocks()
+  })
+
+  it('should send the message and pause the agent in the chat', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: chatId, channelId: '5491155551234', text: 'Hi' },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toMatchObject({
+      success: true,
+      message: 'Message sent',
+      data: {
+        delivered: true,
+        messageId: '3EB0A1B2C3D4E5F6',
+        pause: { chatId, reason: 'api' },
+      },
+    })
+    expect(provider.sendMessage).toHaveBeenCalledWith({ to: chatId, channelId: '5491155551234', text: 'Hi' })
+    expect(takeover.isPaused(chatId)).toBe(true)
+  })
+
+  it('should quote a message and leave the agent active when asked', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: chatId, channelId: '5491155551234', text: 'Hi', quoted: { id: 'MSG001' }, pauseAgent: false },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json().data.pause).toBeUndefined()
+    expect(provider.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ quoted: { id: 'MSG001', text: '' } }))
+    expect(takeover.isPaused(chatId)).toBe(false)
+  })
+
+  it('should reject invalid messages', async () => {
+    const missingText = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: chatId, channelId: '5491155551234', text: '  ' },
+    })
+    expect(missingText.statusCode).toBe(400)
+    expect(missingText.json()).toMatchObject({
+      success: false,
+      code: 'INVALID_MESSAGE',
+      details: { field: 'text' },
+    })
+
+    const invalidQuote = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: chatId, channelId: '5491155551234', text: 'Hi', quoted: {} },
+    })
+    expect(invalidQuote.json()).toMatchObject({ code: 'INVALID_MESSAGE', details: { field: 'quoted.id' } })
+    expect(provider.sendMessage).not.toHaveBeenCalled()
+  })
+
+  it('should return 502 with the delivery result when sending fails', async () => {
+    vi.mocked(provider.sendMessage).mockRejectedValueOnce(new Error('Connection closed'))
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: chatId, channelId: '5491155551234', text: 'Hi' },
+    })
+
+    expect(response.statusCode).toBe(502)
+    expect(response.json()).toMatchObject({
+      success: false,
+      error: 'Failed to send message: Connection closed',
+      code: 'DELIVERY_FAILED',
+      data: { delivered: false, error: 'Connection closed' },
+    })
+    expect(takeover.isPaused(chatId)).toBe(false)
+  })
+
+  it('should restore an earlier timed pause when sending fails', async () => {
+    vi.mocked(provider.sendMessage).mockRejectedValueOnce(new Error('Connection closed'))
+    const earlier = takeover.pause(chatId, 'operator', 5_000)
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: chatId, channelId: '5491155551234', text: 'Hi' },
+    })
+
+    expect(response.statusCode).toBe(502)
+    expect(takeover.getPause(chatId)).toEqual(earlier)
+  })
+
+  it('should restart an earlier pause when the message is sent', async () => {
+    takeover.pause(chatId, 'operator', 5_000)
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: chatId, channelId: '5491155551234', text: 'Hi' },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(takeover.getPause(chatId)).toMatchObject({ reason: 'api' })
+    expect(takeover.getPause(chatId)?.until?.getTime()).toBeGreaterThan(Date.now() + 5_000)
+  })
+
+  it('should pause and send to the chat ID of a phone number', async () => {
+    provider.toChatId = vi.fn((recipient: string) => recipient.includes('@') ? recipient : `${recipient}@s.whatsapp.net`)
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/messages',
+      payload: { to: '5491155551234', channelId: '5491155551234', text: 'Hi' },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json().data.pause).toMatchObject({ chatId })
+    expect(provider.sendMessage).toHaveBeenCalledWith({ to: chatId, channelId: '5491155551234', text: 'Hi' })
+    expect(takeover.isPaused(chatId)).toBe(true)
+  })
+})
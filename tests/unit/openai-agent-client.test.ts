@@ -0,0 +1,373 @@
+/**
+ * Unit tests for the OpenAI-compatible agent client and protocol.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  ChatHistoryStore,
+  OpenAiAgentClient,
+  buildChatCompletionsUrl,
+} from '../../router/src/infra/openai-agent-client.js'
+import { OpenAiAgentProtocol } from '../../router/src/infra/openai-agent-protocol.js'
+import type { IncomingMessage, Route } from '../../router/src/core/models.js'
+
+// Mock fetch globally
+global.fetch = vi.fn()
+
+/**
+ * Builds a chat completion response for the fetch mock.
+ */
+function completion(content: string | null) {
+  return {
+    ok: true,
+    json: async () => ({
+      id: 'chatcmpl-1',
+      model: 'test-model',
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+    }),
+  }
+}
+
+/**
+ * Returns the parsed JSON body of a fetch call.
+ */
+function requestBody(fetchMock: ReturnType<typeof vi.fn>, call = 0) {
+  return JSON.parse(fetchMock.mock.calls[call][1].body as string)
+}
+
+const mockMessage: IncomingMessage = {
+  id: 'MSG001',
+  from: '5491155551234@s.whatsapp.net',
+  channelId: 'test-channel-123',
+  text: 'Hello, agent!',
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+}
+
+describe('OpenAiAgentClient', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+  let history: ChatHistoryStore
+
+  beforeEach(() => {
+    fetchMock = global.fetch as ReturnType<typeof vi.fn>
+    fetchMock.mockReset()
+    history = new ChatHistoryStore()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should send the message as a chat completion', async () => {
+    const client = new OpenAiAgentClient({
+      openai: { model: 'test-model', systemPrompt: 'Be brief.', temperature: 0.2, history },
+    })
+    fetchMock.mockResolvedValueOnce(completion('Hi there!'))
+
+    const result = await client.sendMessage('http://localhost:4000/v1', mockMessage)
+
+    expect(result.success).toBe(true)
+    expect(result.response).toBe('Hi there!')
+    expect(result.metadata?.openai).toEqual(expect.objectContaining({
+      sessionId: '5491155551234_s_whatsapp_net_test_channel_123',
+      completionId: 'chatcmpl-1',
+      finishReason: 'stop',
+      historyLength: 0,
+    }))
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:4000/v1/chat/completions',
+      expect.objectContaining({ method: 'POST' })
+    )
+    expect(requestBody(fetchMock)).toEqual({
+      model: 'test-model',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hello, agent!' },
+      ],
+      temperature: 0.2,
+      stream: false,
+    })
+  })
+
+  it('should omit the system prompt and temperature when not configured', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', history } })
+    fetchMock.mockResolvedValueOnce(completion('Hi'))
+
+    await client.sendMessage('http://localhost:4000', mockMessage)
+
+    const body = requestBody(fetchMock)
+    expect(body.messages).toEqual([{ role: 'user', content: 'Hello, agent!' }])
+    expect(body).not.toHaveProperty('temperature')
+  })
+
+  it('should send the conversation history on later messages', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', systemPrompt: 'Be brief.', history } })
+    fetchMock
+      .mockResolvedValueOnce(completion('First reply'))
+      .mockResolvedValueOnce(completion('Second reply'))
+
+    await client.sendMessage('http://localhost:4000', mockMessage)
+    const result = await client.sendMessage('http://localhost:4000', { ...mockMessage, text: 'And now?' })
+
+    expect(requestBody(fetchMock, 1).messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hello, agent!' },
+      { role: 'assistant', content: 'First reply' },
+      { role: 'user', content: 'And now?' },
+    ])
+    expect(result.metadata?.openai).toEqual(expect.objectContaining({ historyLength: 2 }))
+  })
+
+  it('should keep separate histories per session', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', history } })
+    fetchMock
+      .mockResolvedValueOnce(completion('First reply'))
+      .mockResolvedValueOnce(completion('Other reply'))
+
+    await client.sendMessage('http://localhost:4000', mockMessage)
+    await client.sendMessage('http://localhost:4000', { ...mockMessage, from: '5491166667777@s.whatsapp.net' })
+
+    expect(requestBody(fetchMock, 1).messages).toEqual([{ role: 'user', content: 'Hello, agent!' }])
+  })
+
+  it('should limit the history to maxHistoryMessages', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', history, maxHistoryMessages: 2 } })
+    fetchMock
+      .mockResolvedValueOnce(completion('Reply 1'))
+      .mockResolvedValueOnce(completion('Reply 2'))
+      .mockResolvedValueOnce(completion('Reply 3'))
+
+    await client.sendMessage('http://localhost:4000', { ...mockMessage, text: 'Message 1' })
+    await client.sendMessage('http://localhost:4000', { ...mockMessage, text: 'Message 2' })
+    await client.sendMessage('http://localhost:4000', { ...mockMessage, text: 'Message 3' })
+
+    expect(requestBody(fetchMock, 2).messages).toEqual([
+      { role: 'user', content: 'Message 2' },
+      { role: 'assistant', content: 'Reply 2' },
+      { role: 'user', content: 'Message 3' },
+    ])
+  })
+
+  it('should not record failed turns in the history', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', history } })
+    fetchMock
+      .mockResolvedValueOnce({ ok: false, status: 500, text: async () => 'boom' })
+      .mockResolvedValueOnce(completion('Reply'))
+
+    await expect(client.sendMessage('http://localhost:4000', mockMessage)).rejects.toThrow(
+      'Failed to send message to OpenAI-compatible agent: Chat completions endpoint returned 500: boom'
+    )
+    await client.sendMessage('http://localhost:4000', { ...mockMessage, text: 'Retry' })
+
+    expect(requestBody(fetchMock, 1).messages).toEqual([{ role: 'user', content: 'Retry' }])
+  })
+
+  it('should send the API key as a bearer token by default', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', apiKey: 'sk-test', history } })
+    fetchMock.mockResolvedValueOnce(completion('Hi'))
+
+    await client.sendMessage('http://localhost:4000', mockMessage)
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer sk-test',
+    })
+  })
+
+  it('should send the raw API key in a custom header', async () => {
+    const client = new OpenAiAgentClient({
+      openai: { model: 'test-model', apiKey: 'azure-key', apiKeyHeader: 'api-key', history },
+    })
+    fetchMock.mockResolvedValueOnce(completion('Hi'))
+
+    await client.sendMessage('http://localhost:4000', mockMessage)
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      'api-key': 'azure-key',
+    })
+  })
+
+  it('should return no response text for an empty completion', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', history } })
+    fetchMock.mockResolvedValueOnce(completion(null))
+
+    const result = await client.sendMessage('http://localhost:4000', mockMessage)
+
+    expect(result.success).toBe(true)
+    expect(result.response).toBeUndefined()
+  })
+
+  it('should throw when the response has no choices', async () => {
+    const client = new OpenAiAgentClient({ openai: { model: 'test-model', history } })
+    fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [] }) })
+
+    await expect(client.sendMessage('http://localhost:4000', mockMessage)).rejects.toThrow(
+      'Chat completion response has no choices'
+    )
+  })
+
+  it('should report timeouts', async () => {
+    const client = new OpenAiAgentClient({ timeout: 5, openai: { model: 'test-model', history } })
+    fetchMock.mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        const error = new Error('aborted')
+        error.name = 'AbortError'
+        reject(error)
+      })
+    }))
+
+    await expect(client.sendMessage('http://localhost:4000', mockMessage)).rejects.toThrow(
+      'Chat completion request timed out after 5ms'
+    )
+  })
+})
+
+describe('buildChatCompletionsUrl', () => {
+  it('should accept the server root, the API base or the full URL', () => {
+    expect(buildChatCompletionsUrl('http://vllm:8000')).toBe('http://vllm:8000/v1/chat/completions')
+    expect(buildChatCompletionsUrl('http://vllm:8000/v1/')).toBe('http://vllm:8000/v1/chat/completions')
+    expect(buildChatCompletionsUrl('http://litellm:4000/chat/completions')).toBe('http://litellm:4000/chat/completions')
+  })
+})
+
+describe('ChatHistoryStore', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should forget sessions idle for longer than the TTL', () => {
+    vi.useFakeTimers()
+    const store = new ChatHistoryStore({ ttlMs: 1000 })
+
+    store.append('a', [{ role: 'user', content: 'hi' }])
+    vi.advanceTimersByTime(1001)
+    store.append('b', [{ role: 'user', content: 'hello' }])
+
+    expect(store.size).toBe(1)
+    expect(store.get('a')).toEqual([])
+    expect(store.get('b')).toEqual([{ role: 'user', content: 'hello' }])
+  })
+
+  it('should keep no history when the limit is 0', () => {
+    const store = new ChatHistoryStore()
+
+    store.append('a', [{ role: 'user', content: 'hi' }], 0)
+
+    expect(store.get('a')).toEqual([])
+    expect(store.size).toBe(0)
+  })
+})
+
+describe('OpenAiAgentProtocol', () => {
+  const route: Route = {
+    id: 'route-1',
+    channelId: 'channel-1',
+    agentEndpoint: 'http://localhost:4000',
+    environment: 'lab',
+    config: { type: 'openai', openai: { model: 'test-model' } },
+  }
+
+  it('should accept a route with a model', () => {
+    expect(new OpenAiAgentProtocol().validateConfig(route)).toBeNull()
+  })
+
+  it('should require config.openai.model', () => {
+    const protocol = new OpenAiAgentProtocol()
+
+    expect(protocol.validateConfig({ ...route, config: { type: 'openai' } })).toBe(
+      'OpenAI routes require config.openai.model'
+    )
+  })
+
+  it.each([
+    [{ baseUrl: 'not-a-url' }, 'config.openai.baseUrl must be an http(s) URL'],
+    [{ temperature: 3 }, 'config.openai.temperature must be a number between 0 and 2'],
+    [{ temperature: '0.5' }, 'config.openai.temperature must be a number between 0 and 2'],
+    [{ maxHistoryMessages: -1 }, 'config.openai.maxHistoryMessages must be a non-negative integer'],
+    [{ systemPrompt: 42 }, 'config.openai.systemPrompt must be a non-empty string'],
+    [{ apiKeyHeader: '' }, 'config.openai.apiKeyHeader must be a non-empty string'],
+    [{ apiKeyEnv: 'WA2AI_CALLBACK_SECRET' }, 'config.openai.apiKeyEnv must start with WA2AI_AGENT_KEY_'],
+  ])('should reject invalid option %j', (options, error) => {
+    const protocol = new OpenAiAgentProtocol()
+
+    expect(protocol.validateConfig({
+      ...route,
+      config: { type: 'openai', openai: { model: 'test-model', ...options } },
+    })).toBe(error)
+  })
+
+  it('should use baseUrl as endpoint, falling back to agentEndpoint', () => {
+    const protocol = new OpenAiAgentProtocol()
+
+    expect(protocol.getEndpoint(route)).toBe('http://localhost:4000')
+    expect(protocol.getEndpoint({
+      ...route,
+      config: { type: 'openai', openai: { model: 'test-model', baseUrl: 'http://vllm:8000/v1' } },
+    })).toBe('http://vllm:8000/v1')
+  })
+
+  describe('createClient', () => {
+    let fetchMock: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      fetchMock = global.fetch as ReturnType<typeof vi.fn>
+      fetchMock.mockReset()
+    })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should keep history across clients of the same route', async () => {
+      const protocol = new OpenAiAgentProtocol()
+      fetchMock
+        .mockResolvedValueOnce(completion('First reply'))
+        .mockResolvedValueOnce(completion('Second reply'))
+
+      await protocol.createClient(route).sendMessage('http://localhost:4000', mockMessage)
+      await protocol.createClient(route).sendMessage('http://localhost:4000', { ...mockMessage, text: 'Again' })
+
+      expect(requestBody(fetchMock, 1).messages).toHaveLength(3)
+    })
+
+    it('should not share history between routes', async () => {
+      const protocol = new OpenAiAgentProtocol()
+      fetchMock
+        .mockResolvedValueOnce(completion('First reply'))
+        .mockResolvedValueOnce(completion('Other route reply'))
+
+      await protocol.createClient(route).sendMessage('http://localhost:4000', mockMessage)
+      await protocol.createClient({ ...route, id: 'route-2' }).sendMessage('http://localhost:4000', mockMessage)
+
+      expect(requestBody(fetchMock, 1).messages).toHaveLength(1)
+    })
+
+    it('should read the API key from apiKeyEnv', async () => {
+      vi.stubEnv('WA2AI_AGENT_KEY_TEST', 'sk-from-env')
+      const protocol = new OpenAiAgentProtocol()
+      fetchMock.mockResolvedValueOnce(completion('Hi'))
+
+      await protocol.createClient({
+        ...route,
+        config: { type: 'openai', openai: { model: 'test-model', apiKeyEnv: 'WA2AI_AGENT_KEY_TEST' } },
+      }).sendMessage('http://localhost:4000', mockMessage)
+
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer sk-from-env')
+    })
+
+    it('should not read other environment variables, even for stored routes', async () => {
+      vi.stubEnv('WA2AI_CALLBACK_SECRET', 'router-secret')
+      const protocol = new OpenAiAgentProtocol()
+      fetchMock.mockResolvedValueOnce(completion('Hi'))
+
+      await protocol.createClient({
+        ...route,
+        config: { type: 'openai', openai: { model: 'test-model', apiKeyEnv: 'WA2AI_CALLBACK_SECRET' } },
+      }).sendMessage('http://localhost:4000', mockMessage)
+
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Unit tests for PostgresDedupStore.
+ *
+ * These tests mock the PostgreSQL connection pool to avoid requiring
+ * a real database connection during unit testing.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PostgresDedupStore } from '../../router/src/infra/postgres-dedup-store.js'
+
+// Mock pg module
+const mockPool = {
+  query: vi.fn(),
+  end: vi.fn(),
+  on: vi.fn(),
+}
+
+vi.mock('pg', () => {
+  return {
+    Pool: vi.fn(() => mockPool),
+  }
+})
+
+describe('PostgresDedupStore', () => {
+  let store: PostgresDedupStore
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockPool.query = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 })
+    mockPool.end = vi.fn().mockResolvedValue(undefined)
+    store = new PostgresDedupStore({ host: 'localhost', database: 'test_db' })
+  })
+
+  it('should register pool error handler', () => {
+    expect(mockPool.on).toHaveBeenCalledWith('error', expect.any(Function))
+  })
+
+  describe('add', () => {
+    it('should record a new key', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ key: 'k1' }], rowCount: 1 })
+
+      expect(await store.add('k1', 60000)).toBe(true)
+      expect(mockPool.query.mock.calls[0][0]).toContain('ON CONFLICT (key) DO UPDATE')
+      expect(mockPool.query.mock.calls[0][0]).toContain('WHERE processed_messages.expires_at <= CURRENT_TIMESTAMP')
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['k1', 60000])
+    })
+
+    it('should report a key that is already recorded', async () => {
+      expect(await store.add('k1', 60000)).toBe(false)
+    })
+
+    it('should wrap database errors', async () => {
+      mockPool.query.mockRejectedValueOnce(new Error('connection refused'))
+
+      await expect(store.add('k1', 60000)).rejects.toThrow('Failed to record message: connection refused')
+    })
+  })
+
+  it('should delete removed keys', async () => {
+    await store.remove('k1')
+
+    expect(mockPool.query).toHaveBeenCalledWith('DELETE FROM processed_messages WHERE key = $1', ['k1'])
+  })
+
+  it('should return the number of expired keys purged', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 4 })
+
+    expect(await store.purgeExpired()).toBe(4)
+  })
+
+  it('should end the pool on close', async () => {
+    await store.close()
+
+    expect(mockPool.end).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for PostgresInboundQueueRepository.
+ *
+ * These tests mock the PostgreSQL connection pool to avoid requiring
+ * a real database connection during unit testing.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PostgresInboundQueueRepository } from '../../router/src/infra/postgres-inbound-queue-repository.js'
+import type { IncomingMessage } from '../../router/src/core/models.js'
+
+// Mock pg module
+const mockPool = {
+  query: vi.fn(),
+  end: vi.fn(),
+  on: vi.fn(),
+}
+
+vi.mock('pg', () => {
+  return {
+    Pool: vi.fn(() => mockPool),
+  }
+})
+
+describe('PostgresInboundQueueRepository', () => {
+  const message: IncomingMessage = {
+    id: 'MSG001',
+    from: '5491155551234@s.whatsapp.net',
+    channelId: '5491155551234',
+    text: 'Hi',
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+  }
+
+  const row = (overrides: Record<string, unknown> = {}) => ({
+    id: 'entry-1',
+    message: { ...message, timestamp: '2026-01-01T10:00:00.000Z' },
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date('2026-01-01T10:00:00Z'),
+    last_error: null,
+    created_at: new Date('2026-01-01T10:00:00Z'),
+    updated_at: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  })
+
+  let repository: PostgresInboundQueueRepository
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockPool.query = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 })
+    mockPool.end = vi.fn().mockResolvedValue(undefined)
+    repository = new PostgresInboundQueueRepository({ host: 'localhost', database: 'test_db' })
+  })
+
+  it('should register pool error handler', () => {
+    expect(mockPool.on).toHaveBeenCalledWith('error', expect.any(Function))
+  })
+
+  describe('add', () => {
+    it('should store the message as JSON and map the row', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [row()] })
+
+      const record = await repository.add(message)
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO inbound_messages'),
+        ['MSG001', '5491155551234', JSON.stringify(message)]
+      )
+      expect(record).toEqual({
+        id: 'entry-1',
+        message,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date('2026-01-01T10:00:00Z'),
+        createdAt: new Date('2026-01-01T10:00:00Z'),
+        updatedAt: new Date('2026-01-01T10:00:00Z'),
+      })
+      expect(record.message.timestamp).toBeInstanceOf(Date)
+    })
+
+    it('should wrap database errors', async () => {
+      mockPool.query.mockRejectedValueOnce(new Error('connection refused'))
+
+      await expect(repository.add(message)).rejects.toThrow('Failed to store message: connection refused')
+    })
+  })
+
+  describe('claimDue', () => {
+    it('should claim due messages with SKIP LOCKED and return them oldest first', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          row({ id: 'entry-2', status: 'processing', attempts: 1, created_at: new Date('2026-01-01T10:00:02Z') }),
+          row({ id: 'entry-1', status: 'processing', attempts: 1 }),
+        ],
+      })
+
+      const records = await repository.claimDue(10)
+
+      expect(mockPool.query.mock.calls[0][0]).toContain('FOR UPDATE SKIP LOCKED')
+      expect(mockPool.query.mock.calls[0][1]).toEqual([10])
+      expect(records.map((record) => record.id)).toEqual(['entry-1', 'entry-2'])
+    })
+  })
+
+  describe('markFailed', () => {
+    it('should schedule a retry', async () => {
+      const nextAttemptAt = new Date('2026-01-01T10:00:02Z')
+
+      await repository.markFailed('entry-1', 'Agent down', nextAttemptAt)
+
+      expect(mockPool.query.mock.calls[0][0]).toContain("status = 'pending'")
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['entry-1', 'Agent down', nextAttemptAt])
+    })
+
+    it('should dead-letter the message without a retry date', async () => {
+      await repository.markFailed('entry-1', 'Agent down', null)
+
+      expect(mockPool.query.mock.calls[0][0]).toContain("status = 'dead'")
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['entry-1', 'Agent down'])
+    })
+  })
+
+  describe('markDone', () => {
+    it('should store why the message was not answered', async () => {
+      await repository.markDone('entry-1', 'No route found')
+
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['entry-1', 'No route found'])
+    })
+  })
+
+  describe('replay', () => {
+    it('should only replay dead-lettered messages', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [row({ last_error: 'Agent down' })] })
+
+      const record = await repository.replay('entry-1')
+
+      expect(mockPool.query.mock.calls[0][0]).toContain("status = 'dead'")
+      expect(record).toMatchObject({ id: 'entry-1', status: 'pending', lastError: 'Agent down' })
+    })
+
+    it('should return null when nothing was replayed', async () => {
+      expect(await repository.replay('entry-1')).toBeNull()
+    })
+
+    it('should return null when the id is not a UUID', async () => {
+      mockPool.query.mockRejectedValueOnce(Object.assign(new Error('invalid input syntax for type uuid: "missing"'), { code: '22P02' }))
+
+      expect(await repository.replay('missing')).toBeNull()
+    })
+  })
+
+  describe('findById', () => {
+    it('should map the stored message', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [row({ status: 'dead' })] })
+
+      const record = await repository.findById('entry-1')
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('WHERE id = $1'), ['entry-1'])
+      expect(record).toMatchObject({ id: 'entry-1', status: 'dead' })
+    })
+
+    it('should return null when the id is not a UUID', async () => {
+      mockPool.query.mockRejectedValueOnce(Object.assign(new Error('invalid input syntax for type uuid: "missing"'), { code: '22P02' }))
+
+      expect(await repository.findById('missing')).toBeNull()
+    })
+
+    it('should wrap other database errors', async () => {
+      mockPool.query.mockRejectedValueOnce(new Error('connection refused'))
+
+      await expect(repository.findById('entry-1')).rejects.toThrow('Failed to find message: connection refused')
+    })
+  })
+
+  describe('list', () => {
+    it('should paginate all messages', async () => {
+      await repository.list({ limit: 10, offset: 20 })
+
+      expect(mockPool.query.mock.calls[0][0]).not.toContain('WHERE')
+      expect(mockPool.query.mock.calls[0][1]).toEqual([10, 20])
+    })
+
+    it('should filter by status', async () => {
+      await repository.list({ status: 'dead' })
+
+      expect(mockPool.query.mock.calls[0][0]).toContain('WHERE status = $3')
+      expect(mockPool.query.mock.calls[0][1]).toEqual([50, 0, 'dead'])
+    })
+  })
+
+  describe('requeueProcessing and deleteDone', () => {
+    it('should return the number of affected messages', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 2 })
+      mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 5 })
+
+      expect(await repository.requeueProcessing()).toBe(2)
+      expect(await repository.deleteDone(new Date())).toBe(5)
+    })
+  })
+
+  describe('close', () => {
+    it('should end the pool', async () => {
+      await repository.close()
+
+      expect(mockPool.end).toHaveBeenCalled()
+    })
+  })
+})
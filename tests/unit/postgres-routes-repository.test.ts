@@ -81,14 +81,80 @@ describe('PostgresRoutesRepository', () => {
     })
   })
 
+  describe('findById', () => {
+    it('should return null for non-existent id', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+      })
+
+      const result = await repository.findById('non-existent')
+
+      expect(result).toBeNull()
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE id = $1'),
+        ['non-existent']
+      )
+      expect(mockClient.release).toHaveBeenCalled()
+    })
+
+    it('should return route when id exists', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'route-1',
+            channel_id: 'test-channel-123',
+            priority: 2,
+            agent_endpoint: 'http://localhost:8000/agent',
+            environment: 'lab',
+            created_at: new Date('2024-01-01T00:00:00Z'),
+            updated_at: new Date('2024-01-01T00:00:00Z'),
+          },
+        ],
+        rowCount: 1,
+      })
+
+      const result = await repository.findById('route-1')
+
+      expect(result).toEqual({
+        id: 'route-1',
+        channelId: 'test-channel-123',
+        priority: 2,
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+      })
+    })
+
+    it('should handle database errors', async () => {
+      mockClient.query.mockRejectedValueOnce(new Error('Database connection failed'))
+
+      await expect(repository.findById('route-1')).rejects.toThrow(
+        'Failed to find route: Database connection failed'
+      )
+
+      expect(mockClient.release).toHaveBeenCalled()
+    })
+
+    it('should return null when the id is not a UUID', async () => {
+      mockClient.query.mockRejectedValueOnce(Object.assign(new Error('invalid input syntax for type uuid: "5491155551234"'), { code: '22P02' }))
+
+      const result = await repository.findById('5491155551234')
+
+      expect(result).toBeNull()
+      expect(mockClient.release).toHaveBeenCalled()
+    })
+  })
+
   describe('findByChannelId', () => {
     const testRoute: Route = {
+      id: 'route-1',
       channelId: 'test-channel-123',
+      priority: 0,
       agentEndpoint: 'http://localhost:8000/agent',
       environment: 'lab',
     }
 
-    it('should return null for non-existent channel', async () => {
+    it('should return empty array for non-existent channel', async () => {
       mockClient.query.mockResolvedValueOnce({
         rows: [],
         rowCount: 0,
@@ -96,19 +162,21 @@ describe('PostgresRoutesRepository', () => {
 
       const result = await repository.findByChannelId('non-existent')
 
-      expect(result).toBeNull()
+      expect(result).toEqual([])
       expect(mockClient.query).toHaveBeenCalledWith(
-        expect.stringContaining('SELECT channel_id, agent_endpoint, environment'),
+        expect.stringContaining('SELECT id, channel_id, priority, agent_endpoint, environment'),
         ['non-existent']
       )
       expect(mockClient.release).toHaveBeenCalled()
     })
 
-    it('should return route when channel exists', async () => {
+    it('should return routes when channel exists', async () => {
       mockClient.query.mockResolvedValueOnce({
         rows: [
           {
+            id: 'route-1',
             channel_id: 'test-channel-123',
+            priority: 0,
             agent_endpoint: 'http://localhost:8000/agent',
             environment: 'lab',
             created_at: new Date('2024-01-01T00:00:00Z'),
@@ -120,9 +188,9 @@ describe('PostgresRoutesRepository', () => {
 
       const result = await repository.findByChannelId('test-channel-123')
 
-      expect(result).toEqual(testRoute)
+      expect(result).toEqual([testRoute])
       expect(mockClient.query).toHaveBeenCalledWith(
-        expect.stringContaining('SELECT channel_id, agent_endpoint, environment'),
+        expect.stringContaining('WHERE channel_id = $1 ORDER BY priority ASC, created_at ASC'),
         ['test-channel-123']
       )
       expect(mockClient.release).toHaveBeenCalled()
@@ -139,27 +207,36 @@ describe('PostgresRoutesRepository', () => {
       expect(mockClient.release).toHaveBeenCalled()
     })
 
-    it('should map database row to Route correctly', async () => {
+    it('should keep database order for several routes', async () => {
       mockClient.query.mockResolvedValueOnce({
         rows: [
           {
-            channel_id: 'test-channel-456',
-            agent_endpoint: 'http://localhost:9000/agent',
+            id: 'route-support',
+            channel_id: 'group-1',
+            priority: 0,
+            agent_endpoint: 'http://localhost:9000/support',
+            environment: 'prod',
+            regex_filter: '^/support',
+            created_at: new Date('2024-01-01T00:00:00Z'),
+            updated_at: new Date('2024-01-01T00:00:00Z'),
+          },
+          {
+            id: 'route-default',
+            channel_id: 'group-1',
+            priority: 10,
+            agent_endpoint: 'http://localhost:9000/general',
             environment: 'prod',
             created_at: new Date('2024-01-01T00:00:00Z'),
             updated_at: new Date('2024-01-01T00:00:00Z'),
           },
         ],
-        rowCount: 1,
+        rowCount: 2,
       })
 
-      const result = await repository.findByChannelId('test-channel-456')
+      const result = await repository.findByChannelId('group-1')
 
-      expect(result).toEqual({
-        channelId: 'test-channel-456',
-        agentEndpoint: 'http://localhost:9000/agent',
-        environment: 'prod',
-      })
+      expect(result.map((route) => route.id)).toEqual(['route-support', 'route-default'])
+      expect(result[0].regexFilter).toBe('^/support')
     })
   })
 
@@ -174,7 +251,7 @@ describe('PostgresRoutesRepository', () => {
 
       expect(result).toEqual([])
       expect(mockClient.query).toHaveBeenCalledWith(
-        expect.stringContaining('SELECT channel_id, agent_endpoint, environment')
+        expect.stringContaining('SELECT id, channel_id, priority, agent_endpoint, environment')
       )
       expect(mockClient.release).toHaveBeenCalled()
     })
@@ -252,10 +329,22 @@ describe('PostgresRoutesRepository', () => {
       environment: 'lab',
     }
 
-    it('should add a new route', async () => {
+    const insertedRow = {
+      id: 'generated-id',
+      channel_id: 'test-channel-123',
+      priority: 0,
+      agent_endpoint: 'http://localhost:8000/agent',
+      environment: 'lab',
+      regex_filter: null,
+      config: null,
+      created_at: new Date('2024-01-01T00:00:00Z'),
+      updated_at: new Date('2024-01-01T00:00:00Z'),
+    }
+
+    it('should add a new route and return it with the generated id', async () => {
       mockClient.query
         .mockResolvedValueOnce({
-          rows: [],
+          rows: [insertedRow],
           rowCount: 1,
         })
         .mockResolvedValueOnce({
@@ -263,25 +352,43 @@ describe('PostgresRoutesRepository', () => {
           rowCount: 1,
         })
 
-      await repository.addRoute(testRoute)
+      const result = await repository.addRoute(testRoute)
 
+      expect(result).toEqual({ ...testRoute, id: 'generated-id', priority: 0 })
       expect(mockClient.query).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO routes'),
-        [testRoute.channelId, testRoute.agentEndpoint, testRoute.environment, null, null]
+        [testRoute.channelId, 0, testRoute.agentEndpoint, testRoute.environment, null, null, null]
       )
       expect(mockClient.release).toHaveBeenCalled()
     })
 
-    it('should update existing route on conflict', async () => {
-      const updatedRoute: Route = {
-        channelId: 'test-channel-123',
-        agentEndpoint: 'http://localhost:9000/agent',
-        environment: 'prod',
-      }
+    it('should insert a new row even if the channel already has routes', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({
+          rows: [{ ...insertedRow, priority: 5 }],
+          rowCount: 1,
+        })
+        .mockResolvedValueOnce({
+          rows: [{ count: '2' }],
+          rowCount: 1,
+        })
+
+      await repository.addRoute({ ...testRoute, priority: 5 })
+
+      const [sql, params] = mockClient.query.mock.calls[0]
+      expect(sql).not.toContain('ON CONFLICT')
+      expect(sql).toContain('RETURNING')
+      expect(params[1]).toBe(5)
+    })
 
+    it('should store and return match conditions as JSON', async () => {
+      const match = {
+        operator: 'and' as const,
+        conditions: [{ field: 'messageType' as const, operator: 'equals' as const, value: 'audioMessage' }],
+      }
       mockClient.query
         .mockResolvedValueOnce({
-          rows: [],
+          rows: [{ ...insertedRow, match_conditions: match }],
           rowCount: 1,
         })
         .mockResolvedValueOnce({
@@ -289,18 +396,18 @@ describe('PostgresRoutesRepository', () => {
           rowCount: 1,
         })
 
-      await repository.addRoute(updatedRoute)
+      const result = await repository.addRoute({ ...testRoute, match })
 
-      expect(mockClient.query).toHaveBeenCalledWith(
-        expect.stringContaining('ON CONFLICT'),
-        [updatedRoute.channelId, updatedRoute.agentEndpoint, updatedRoute.environment, null, null]
-      )
+      const [sql, params] = mockClient.query.mock.calls[0]
+      expect(sql).toContain('match_conditions')
+      expect(params[5]).toBe(JSON.stringify(match))
+      expect(result.match).toEqual(match)
     })
 
     it('should refresh cache after adding route', async () => {
       mockClient.query
         .mockResolvedValueOnce({
-          rows: [],
+          rows: [insertedRow],
           rowCount: 1,
         })
         .mockResolvedValueOnce({
@@ -325,6 +432,87 @@ describe('PostgresRoutesRepository', () => {
     })
   })
 
+  describe('updateRoute', () => {
+    it('should update the route by id and return it', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'route-1',
+            channel_id: 'new-channel',
+            priority: 3,
+            agent_endpoint: 'http://localhost:9000/agent',
+            environment: 'prod',
+            regex_filter: null,
+            config: null,
+            created_at: new Date('2024-01-01T00:00:00Z'),
+            updated_at: new Date('2024-01-02T00:00:00Z'),
+          },
+        ],
+        rowCount: 1,
+      })
+
+      const result = await repository.updateRoute('route-1', {
+        channelId: 'new-channel',
+        priority: 3,
+        agentEndpoint: 'http://localhost:9000/agent',
+        environment: 'prod',
+      })
+
+      expect(result).toEqual({
+        id: 'route-1',
+        channelId: 'new-channel',
+        priority: 3,
+        agentEndpoint: 'http://localhost:9000/agent',
+        environment: 'prod',
+      })
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE id = $1'),
+        ['route-1', 'new-channel', 3, 'http://localhost:9000/agent', 'prod', null, null, null]
+      )
+      expect(mockClient.release).toHaveBeenCalled()
+    })
+
+    it('should return null when the route does not exist', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [],
+        rowCount: 0,
+      })
+
+      const result = await repository.updateRoute('missing', {
+        channelId: 'channel',
+        agentEndpoint: 'http://localhost:9000/agent',
+        environment: 'lab',
+      })
+
+      expect(result).toBeNull()
+    })
+
+    it('should handle database errors', async () => {
+      mockClient.query.mockRejectedValueOnce(new Error('Update failed'))
+
+      await expect(repository.updateRoute('route-1', {
+        channelId: 'channel',
+        agentEndpoint: 'http://localhost:9000/agent',
+        environment: 'lab',
+      })).rejects.toThrow('Failed to update route: Update failed')
+
+      expect(mockClient.release).toHaveBeenCalled()
+    })
+
+    it('should return null when the id is not a UUID', async () => {
+      mockClient.query.mockRejectedValueOnce(Object.assign(new Error('invalid input syntax for type uuid: "5491155551234"'), { code: '22P02' }))
+
+      const result = await repository.updateRoute('5491155551234', {
+        channelId: 'channel',
+        agentEndpoint: 'http://localhost:9000/agent',
+        environment: 'lab',
+      })
+
+      expect(result).toBeNull()
+      expect(mockClient.release).toHaveBeenCalled()
+    })
+  })
+
   describe('removeRoute', () => {
     it('should return false for non-existent route', async () => {
       mockClient.query.mockResolvedValueOnce({
@@ -336,7 +524,7 @@ describe('PostgresRoutesRepository', () => {
 
       expect(result).toBe(false)
       expect(mockClient.query).toHaveBeenCalledWith(
-        'DELETE FROM routes WHERE channel_id = $1',
+        'DELETE FROM routes WHERE id = $1',
         ['non-existent']
       )
       expect(mockClient.release).toHaveBeenCalled()
@@ -353,12 +541,12 @@ describe('PostgresRoutesRepository', () => {
           rowCount: 1,
         })
 
-      const result = await repository.removeRoute('test-channel-123')
+      const result = await repository.removeRoute('route-1')
 
       expect(result).toBe(true)
       expect(mockClient.query).toHaveBeenCalledWith(
-        'DELETE FROM routes WHERE channel_id = $1',
-        ['test-channel-123']
+        'DELETE FROM routes WHERE id = $1',
+        ['route-1']
       )
       expect(mockClient.release).toHaveBeenCalled()
     })
@@ -383,7 +571,7 @@ describe('PostgresRoutesRepository', () => {
           rowCount: 1,
         })
 
-      await repository.removeRoute('test-channel-123')
+      await repository.removeRoute('route-1')
 
       expect(repository.getRouteCount()).toBe(0)
     })
@@ -392,12 +580,21 @@ describe('PostgresRoutesRepository', () => {
       const dbError = new Error('Delete failed')
       mockClient.query.mockRejectedValueOnce(dbError)
 
-      await expect(repository.removeRoute('test-channel-123')).rejects.toThrow(
+      await expect(repository.removeRoute('route-1')).rejects.toThrow(
         'Failed to remove route: Delete failed'
       )
 
       expect(mockClient.release).toHaveBeenCalled()
     })
+
+    it('should return false when the id is not a UUID', async () => {
+      mockClient.query.mockRejectedValueOnce(Object.assign(new Error('invalid input syntax for type uuid: "5491155551234"'), { code: '22P02' }))
+
+      const result = await repository.removeRoute('5491155551234')
+
+      expect(result).toBe(false)
+      expect(mockClient.release).toHaveBeenCalled()
+    })
   })
 
   describe('clear', () => {
@@ -634,7 +831,7 @@ describe('PostgresRoutesRepository', () => {
       })
 
       const result = await repository.findByChannelId('test')
-      expect(result).toBeNull()
+      expect(result).toEqual([])
       expect(mockClient.release).toHaveBeenCalled()
     })
 
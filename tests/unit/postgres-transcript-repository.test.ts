@@ -0,0 +1,218 @@
+/**
+ * Unit tests for PostgresTranscriptRepository.
+ *
+ * These tests mock the PostgreSQL connection pool to avoid requiring
+ * a real database connection during unit testing.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { PostgresTranscriptRepository } from '../../router/src/infra/postgres-transcript-repository.js'
+import type { TranscriptEntry } from '../../router/src/core/transcript.js'
+
+// Mock pg module
+const mockPool = {
+  query: vi.fn(),
+  end: vi.fn(),
+  on: vi.fn(),
+}
+
+vi.mock('pg', () => {
+  return {
+    Pool: vi.fn(() => mockPool),
+  }
+})
+
+describe('PostgresTranscriptRepository', () => {
+  const entry: TranscriptEntry = {
+    channelId: '5491155551234',
+    chatId: '5491155551234@s.whatsapp.net',
+    direction: 'inbound',
+    messageId: 'MSG001',
+    text: 'Hola',
+    routeId: '9b2f6c1e-3d4a-4f7b-8e21-5c0d9a7f1b23',
+    agentEndpoint: 'http://localhost:8000',
+    sessionId: 'session-42',
+    latencyMs: 1200,
+    success: true,
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+  }
+  let repository: PostgresTranscriptRepository
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockPool.query = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 })
+    mockPool.end = vi.fn().mockResolvedValue(undefined)
+    repository = new PostgresTranscriptRepository({ host: 'localhost', database: 'test_db' })
+  })
+
+  it('should register pool error handler', () => {
+    expect(mockPool.on).toHaveBeenCalledWith('error', expect.any(Function))
+  })
+
+  describe('add', () => {
+    it('should insert every message in one statement', async () => {
+      await repository.add([entry, { ...entry, direction: 'outbound', messageId: undefined, text: 'Hi!' }])
+
+      const [sql, params] = mockPool.query.mock.calls[0]
+      expect(sql).toContain('INSERT INTO messages')
+      expect(sql).toContain('($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14), ($15,')
+      expect(params).toHaveLength(28)
+      expect(params.slice(0, 5)).toEqual(['5491155551234', '5491155551234@s.whatsapp.net', 'inbound', 'MSG001', 'Hola'])
+      expect(params[17]).toBeNull()
+    })
+
+    it('should not query without messages', async () => {
+      await repository.add([])
+
+      expect(mockPool.query).not.toHaveBeenCalled()
+    })
+
+    it('should wrap database errors', async () => {
+      mockPool.query.mockRejectedValueOnce(new Error('connection refused'))
+
+      await expect(repository.add([entry])).rejects.toThrow('Failed to store messages: connection refused')
+    })
+  })
+
+  describe('listConversations', () => {
+    it('should group messages by channel and apply the time filter', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{
+          channel_id: '5491155551234',
+          chat_id: '5491155551234@s.whatsapp.net',
+          message_count: 4,
+          last_message_at: new Date('2026-01-01T10:00:02Z'),
+          last_message_text: 'Hi!',
+          last_direction: 'outbound',
+          last_agent_endpoint: 'http://localhost:8000',
+          error_count: 1,
+        }],
+      })
+      const since = new Date('2026-01-01T00:00:00Z')
+
+      const conversations = await repository.listConversations({ limit: 10, offset: 0, since })
+
+      const [sql, params] = mockPool.query.mock.calls[0]
+      expect(sql).toContain('GROUP BY channel_id')
+      expect(sql).toContain('WHERE timestamp >= $3')
+      expect(params).toEqual([10, 0, since])
+      expect(conversations).toEqual([{
+        channelId: '5491155551234',
+        chatId: '5491155551234@s.whatsapp.net',
+        messageCount: 4,
+        lastMessageAt: new Date('2026-01-01T10:00:02Z'),
+        lastMessageText: 'Hi!',
+        lastDirection: 'outbound',
+        lastAgentEndpoint: 'http://localhost:8000',
+        errorCount: 1,
+      }])
+    })
+
+    it('should keep conversations with a message matching the search', async () => {
+      await repository.listConversations({ search: '50%_off' })
+
+      const [sql, params] = mockPool.query.mock.calls[0]
+      expect(sql).not.toMatch(/FROM messages\s+WHERE/)
+      expect(sql).toContain('HAVING bool_or(channel_id ILIKE $3 OR chat_id ILIKE $3 OR text ILIKE $3)')
+      expect(params).toEqual([50, 0, '%50\\%\\_off%'])
+    })
+  })
+
+  describe('listMessages', () => {
+    it('should filter by channel and time and map the rows', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{
+          id: 'record-1',
+          channel_id: '5491155551234',
+          chat_id: '5491155551234@s.whatsapp.net',
+          direction: 'inbound',
+          message_id: 'MSG001',
+          text: 'Hola',
+          attachments: null,
+          content_type: null,
+          route_id: null,
+          agent_endpoint: 'http://localhost:8000',
+          session_id: 'session-42',
+          latency_ms: 0,
+          success: false,
+          error: 'Agent down',
+          timestamp: new Date('2026-01-01T10:00:00Z'),
+          created_at: new Date('2026-01-01T10:00:01Z'),
+        }],
+      })
+      const until = new Date('2026-01-02T00:00:00Z')
+
+      const messages = await repository.listMessages('5491155551234', { until })
+
+      const [sql, params] = mockPool.query.mock.calls[0]
+      expect(sql).toContain('WHERE channel_id = $3 AND timestamp < $4')
+      expect(params).toEqual([50, 0, '5491155551234', until])
+      expect(messages).toEqual([{
+        id: 'record-1',
+        channelId: '5491155551234',
+        chatId: '5491155551234@s.whatsapp.net',
+        direction: 'inbound',
+        messageId: 'MSG001',
+        text: 'Hola',
+        agentEndpoint: 'http://localhost:8000',
+        sessionId: 'session-42',
+        latencyMs: 0,
+        success: false,
+        error: 'Agent down',
+        timestamp: new Date('2026-01-01T10:00:00Z'),
+        createdAt: new Date('2026-01-01T10:00:01Z'),
+      }])
+    })
+  })
+
+  describe('findLatestBySession', () => {
+    it('should return the latest message of the session', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{
+          id: 'record-1',
+          channel_id: '5491155551234',
+          chat_id: '5491155551234@s.whatsapp.net',
+          direction: 'outbound',
+          message_id: null,
+          text: 'Hi!',
+          attachments: null,
+          content_type: null,
+          route_id: null,
+          agent_endpoint: null,
+          session_id: 'session-42',
+          latency_ms: null,
+          success: true,
+          error: null,
+          timestamp: new Date('2026-01-01T10:00:00Z'),
+          created_at: new Date('2026-01-01T10:00:01Z'),
+        }],
+      })
+
+      const record = await repository.findLatestBySession('session-42')
+
+      const [sql, params] = mockPool.query.mock.calls[0]
+      expect(sql).toContain('WHERE session_id = $1')
+      expect(sql).toContain('LIMIT 1')
+      expect(params).toEqual(['session-42'])
+      expect(record).toMatchObject({ channelId: '5491155551234', chatId: '5491155551234@s.whatsapp.net' })
+    })
+
+    it('should return null for unknown sessions', async () => {
+      expect(await repository.findLatestBySession('unknown')).toBeNull()
+    })
+  })
+
+  it('should return the number of messages deleted', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [], rowCount: 7 })
+
+    expect(await repository.deleteBefore(new Date('2026-01-01T00:00:00Z'))).toBe(7)
+  })
+
+  it('should end the pool on close', async () => {
+    await repository.close()
+
+    expect(mockPool.end).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for the queue endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fastify, { type FastifyInstance } from 'fastify'
+import { registerQueueEndpoints } from '../../router/src/queue-controller.js'
+import { ConversationQueue } from '../../router/src/core/conversation-queue.js'
+import type { InboundMessageRecord, InboundQueue } from '../../router/src/core/inbound-queue.js'
+import { MessageDeduplicator, InMemoryDedupStore } from '../../router/src/core/message-dedup.js'
+
+describe('QueueController', () => {
+  let app: FastifyInstance
+  let queue: ConversationQueue
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    queue = new ConversationQueue({ maxConcurrency: 4, maxQueueSize: 100 })
+    app = fastify()
+    registerQueueEndpoints(app, queue)
+    await app.ready()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    vi.restoreAllMocks()
+  })
+
+  it('should return the queue depth metrics', async () => {
+    queue.reserve('5491155551234@s.whatsapp.net|5491155551234')
+    queue.reserve('5491155551234@s.whatsapp.net|5491155551234')
+
+    const response = await app.inject({ method: 'GET', url: '/api/queue' })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({
+      success: true,
+      data: {
+        pending: 2,
+        active: 0,
+        conversations: 1,
+        maxConversationDepth: 2,
+        processed: 0,
+        rejected: 0,
+        maxConcurrency: 4,
+        maxQueueSize: 100,
+      },
+    })
+  })
+
+  it('should include the duplicates ignored', async () => {
+    const deduplicator = new MessageDeduplicator({ store: new InMemoryDedupStore() })
+    const message = {
+      id: 'MSG001',
+      from: '5491155551234@s.whatsapp.net',
+      channelId: '5491155551234',
+      text: 'Hi',
+      timestamp: new Date(),
+    }
+    await deduplicator.isDuplicate(message)
+    await deduplicator.isDuplicate(message)
+    await app.close()
+    app = fastify()
+    registerQueueEndpoints(app, queue, undefined, deduplicator)
+    await app.ready()
+
+    const response = await app.inject({ method: 'GET', url: '/api/queue' })
+
+    expect(response.json().data.deduplication).toEqual({ checked: 2, duplicates: 1 })
+  })
+
+  it('should not register the dead-letter endpoints without a durable queue', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/queue/messages' })
+
+    expect(response.statusCode).toBe(404)
+  })
+
+  describe('dead-lettered messages', () => {
+    const record: InboundMessageRecord = {
+      id: 'entry-1',
+      message: {
+        id: 'MSG001',
+        from: '5491155551234@s.whatsapp.net',
+        channelId: '5491155551234',
+        text: 'Hi',
+        timestamp: new Date('2026-01-01T10:00:00Z'),
+      },
+      status: 'dead',
+      attempts: 5,
+      nextAttemptAt: new Date('2026-01-01T10:00:00Z'),
+      lastError: 'Agent down',
+      createdAt: new Date('2026-01-01T10:00:00Z'),
+      updatedAt: new Date('2026-01-01T10:05:00Z'),
+    }
+    let inboundQueue: {
+      list: ReturnType<typeof vi.fn>
+      findById: ReturnType<typeof vi.fn>
+      replay: ReturnType<typeof vi.fn>
+    }
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      inboundQueue = {
+        list: vi.fn().mockResolvedValue([record]),
+        findById: vi.fn().mockResolvedValue(record),
+        replay: vi.fn().mockResolvedValue({ ...record, status: 'pending', attempts: 0 }),
+      }
+      await app.close()
+      app = fastify()
+      registerQueueEndpoints(app, queue, inboundQueue as unknown as InboundQueue)
+      await app.ready()
+    })
+
+    it('should list dead-lettered messages by default', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/queue/messages' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toMatchObject({ success: true, count: 1, data: [{ id: 'entry-1', lastError: 'Agent down' }] })
+      expect(inboundQueue.list).toHaveBeenCalledWith({ status: 'dead', limit: 50, offset: 0 })
+    })
+
+    it('should pass the status and pagination', async () => {
+      await app.inject({ method: 'GET', url: '/api/queue/messages?status=pending&limit=10&offset=20' })
+
+      expect(inboundQueue.list).toHaveBeenCalledWith({ status: 'pending', limit: 10, offset: 20 })
+    })
+
+    it('should reject an unknown status', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/queue/messages?status=failed' })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json()).toMatchObject({ success: false, code: 'INVALID_STATUS' })
+    })
+
+    it('should reject invalid pagination', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/queue/messages?limit=500' })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json()).toMatchObject({ success: false, code: 'INVALID_PAGINATION' })
+    })
+
+    it('should return 500 when the messages cannot be listed', async () => {
+      inboundQueue.list.mockRejectedValueOnce(new Error('Failed to list messages: connection refused'))
+
+      const response = await app.inject({ method: 'GET', url: '/api/queue/messages' })
+
+      expect(response.statusCode).toBe(500)
+      expect(response.json()).toEqual({ success: false, error: 'Failed to list messages: connection refused' })
+    })
+
+    it('should return a stored message', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/queue/messages/entry-1' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toMatchObject({ success: true, data: { id: 'entry-1', message: { id: 'MSG001' } } })
+    })
+
+    it('should return 404 for an unknown message', async () => {
+      inboundQueue.findById.mockResolvedValueOnce(null)
+
+      const response = await app.inject({ method: 'GET', url: '/api/queue/messages/missing' })
+
+      expect(response.statusCode).toBe(404)
+      expect(response.json()).toEqual({ success: false, error: 'Queued message not found: missing' })
+    })
+
+    it('should replay a dead-lettered message', async () => {
+      const response = await app.inject({ method: 'POST', url: '/api/queue/messages/entry-1/replay' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toMatchObject({
+        success: true,
+        message: 'Message queued for replay',
+        data: { id: 'entry-1', status: 'pending', attempts: 0 },
+      })
+    })
+
+    it('should return 409 when the message is not dead-lettered', async () => {
+      inboundQueue.replay.mockResolvedValueOnce(null)
+      inboundQueue.findById.mockResolvedValueOnce({ ...record, status: 'done' })
+
+      const response = await app.inject({ method: 'POST', url: '/api/queue/messages/entry-1/replay' })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json()).toMatchObject({ code: 'NOT_DEAD_LETTERED', details: { status: 'done' } })
+    })
+
+    it('should return 404 when replaying an unknown message', async () => {
+      inboundQueue.replay.mockResolvedValueOnce(null)
+      inboundQueue.findById.mockResolvedValueOnce(null)
+
+      const response = await app.inject({ method: 'POST', url: '/api/queue/messages/missing/replay' })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { evaluateRouteMatch, validateRouteMatch } from '../../router/src/core/route-match.js'
+import type { IncomingMessage, RouteMatch } from '../../router/src/core/models.js'
+
+describe('route-match', () => {
+  const groupMessage: IncomingMessage = {
+    id: 'msg-1',
+    from: '120363000000000000@g.us',
+    channelId: '120363000000000000',
+    text: 'hello',
+    timestamp: new Date(),
+    metadata: {
+      messageType: 'audioMessage',
+      fromMe: false,
+      isGroup: true,
+      pushName: 'Ana Perez',
+      participant: '5491155551234@s.whatsapp.net',
+    },
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('evaluateRouteMatch', () => {
+    it('should match when all "and" conditions hold', () => {
+      const match: RouteMatch = {
+        operator: 'and',
+        conditions: [
+          { field: 'isGroup', operator: 'equals', value: true },
+          { field: 'messageType', operator: 'equals', value: 'audioMessage' },
+          { field: 'fromMe', operator: 'notEquals', value: true },
+        ],
+      }
+
+      expect(evaluateRouteMatch(match, groupMessage)).toBe(true)
+    })
+
+    it('should not match when one "and" condition fails', () => {
+      const match: RouteMatch = {
+        operator: 'and',
+        conditions: [
+          { field: 'isGroup', operator: 'equals', value: true },
+          { field: 'messageType', operator: 'equals', value: 'conversation' },
+        ],
+      }
+
+      expect(evaluateRouteMatch(match, groupMessage)).toBe(false)
+    })
+
+    it('should match when any "or" condition holds', () => {
+      const match: RouteMatch = {
+        operator: 'or',
+        conditions: [
+          { field: 'messageType', operator: 'equals', value: 'conversation' },
+          { field: 'pushName', operator: 'regex', value: '^Ana' },
+        ],
+      }
+
+      expect(evaluateRouteMatch(match, groupMessage)).toBe(true)
+    })
+
+    it('should match an empty condition list', () => {
+      expect(evaluateRouteMatch({ operator: 'or', conditions: [] }, groupMessage)).toBe(true)
+    })
+
+    it('should compare the group participant as sender, by JID or bare number', () => {
+      const byNumber: RouteMatch = {
+        operator: 'and',
+        conditions: [{ field: 'sender', operator: 'in', value: ['5491100000000', '5491155551234'] }],
+      }
+      const byJid: RouteMatch = {
+        operator: 'and',
+        conditions: [{ field: 'sender', operator: 'equals', value: '5491155551234@s.whatsapp.net' }],
+      }
+
+      expect(evaluateRouteMatch(byNumber, groupMessage)).toBe(true)
+      expect(evaluateRouteMatch(byJid, groupMessage)).toBe(true)
+    })
+
+    it('should fall back to message.from as sender outside groups', () => {
+      const match: RouteMatch = {
+        operator: 'and',
+        conditions: [{ field: 'sender', operator: 'notIn', value: ['5491155551234'] }],
+      }
+      const directMessage: IncomingMessage = {
+        ...groupMessage,
+        from: '5499999999999@s.whatsapp.net',
+        metadata: { messageType: 'conversation', isGroup: false },
+      }
+
+      expect(evaluateRouteMatch(match, directMessage)).toBe(true)
+    })
+
+    it('should derive isGroup from the JID when metadata lacks it', () => {
+      const match: RouteMatch = {
+        operator: 'and',
+        conditions: [{ field: 'isGroup', operator: 'equals', value: true }],
+      }
+
+      expect(evaluateRouteMatch(match, { ...groupMessage, metadata: undefined })).toBe(true)
+    })
+
+    it('should treat missing string fields as not matching equals', () => {
+      const match: RouteMatch = {
+        operator: 'and',
+        conditions: [{ field: 'pushName', operator: 'equals', value: 'Ana Perez' }],
+      }
+
+      expect(evaluateRouteMatch(match, { ...groupMessage, metadata: {} })).toBe(false)
+    })
+
+    it('should treat an invalid regex as non-matching', () => {
+      const match: RouteMatch = {
+        operator: 'and',
+        conditions: [{ field: 'pushName', operator: 'regex', value: '[invalid' }],
+      }
+
+      expect(evaluateRouteMatch(match, groupMessage)).toBe(false)
+    })
+  })
+
+  describe('validateRouteMatch', () => {
+    it('should accept valid conditions', () => {
+      expect(validateRouteMatch({
+        operator: 'or',
+        conditions: [
+          { field: 'sender', operator: 'in', value: ['5491155551234'] },
+          { field: 'fromMe', operator: 'equals', value: false },
+          { field: 'pushName', operator: 'regex', value: '^Ana' },
+        ],
+      })).toBeNull()
+    })
+
+    it('should reject an unknown combinator', () => {
+      expect(validateRouteMatch({ operator: 'xor', conditions: [] })).toEqual(
+        expect.objectContaining({ field: 'match.operator' })
+      )
+    })
+
+    it('should reject a non-array condition list', () => {
+      expect(validateRouteMatch({ operator: 'and', conditions: {} })).toEqual(
+        expect.objectContaining({ field: 'match.conditions' })
+      )
+    })
+
+    it('should reject an unknown field', () => {
+      expect(validateRouteMatch({
+        operator: 'and',
+        conditions: [{ field: 'text', operator: 'equals', value: 'hi' }],
+      })).toEqual(expect.objectContaining({ field: 'match.conditions[0].field' }))
+    })
+
+    it('should reject a non-boolean value for boolean fields', () => {
+      expect(validateRouteMatch({
+        operator: 'and',
+        conditions: [{ field: 'fromMe', operator: 'equals', value: 'true' }],
+      })).toEqual(expect.objectContaining({ field: 'match.conditions[0].value' }))
+    })
+
+    it('should reject an empty list for the in operator', () => {
+      expect(validateRouteMatch({
+        operator: 'and',
+        conditions: [{ field: 'messageType', operator: 'in', value: [] }],
+      })).toEqual(expect.objectContaining({ field: 'match.conditions[0].value' }))
+    })
+
+    it('should reject an invalid regex pattern', () => {
+      const error = validateRouteMatch({
+        operator: 'and',
+        conditions: [
+          { field: 'messageType', operator: 'equals', value: 'audioMessage' },
+          { field: 'pushName', operator: 'regex', value: '[invalid' },
+        ],
+      })
+
+      expect(error?.field).toBe('match.conditions[1].value')
+      expect(error?.message).toContain('Invalid regex pattern')
+    })
+  })
+})
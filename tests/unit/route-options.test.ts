@@ -0,0 +1,126 @@
+/**
+ * Unit tests for route options.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  isAddressedToAgent,
+  shouldQuoteReplies,
+  validateRouteOptions,
+} from '../../router/src/core/route-options.js'
+import type { Route } from '../../router/src/core/models.js'
+
+describe('route options', () => {
+  const route: Route = {
+    channelId: 'channel-1',
+    agentEndpoint: 'http://localhost:8000',
+    environment: 'lab',
+    config: { adk: { appName: 'test_agent' } },
+  }
+
+  /**
+   * Returns the validation error message for the given config options.
+   */
+  function validate(options: Record<string, unknown>): string | undefined {
+    return validateRouteOptions({ ...route, config: { ...route.config, ...options } })?.message
+  }
+
+  describe('validateRouteOptions', () => {
+    it('should accept routes without options', () => {
+      expect(validateRouteOptions(route)).toBeNull()
+      expect(validateRouteOptions({ ...route, config: undefined })).toBeNull()
+    })
+
+    it('should validate config.replyDelayMs', () => {
+      expect(validate({ replyDelayMs: 1500 })).toBeUndefined()
+      expect(validate({ replyDelayMs: -1 })).toBe('config.replyDelayMs must be an integer between 0 and 60000')
+      expect(validate({ replyDelayMs: '500' })).toBe('config.replyDelayMs must be an integer between 0 and 60000')
+    })
+
+    it('should validate config.debounceMs', () => {
+      expect(validate({ debounceMs: 2000 })).toBeUndefined()
+      expect(validate({ debounceMs: 30001 })).toBe('config.debounceMs must be an integer between 0 and 30000')
+      expect(validate({ debounceMs: 1.5 })).toBe('config.debounceMs must be an integer between 0 and 30000')
+    })
+
+    it('should validate config.readReceipts, config.typingIndicator and config.quoteReplies', () => {
+      expect(validate({ readReceipts: false, typingIndicator: true })).toBeUndefined()
+      expect(validate({ readReceipts: 'no' })).toBe('config.readReceipts must be a boolean')
+      expect(validate({ typingIndicator: 0 })).toBe('config.typingIndicator must be a boolean')
+      expect(validate({ quoteReplies: 'groups' })).toBe('config.quoteReplies must be a boolean')
+    })
+
+    it('should validate config.groupMode', () => {
+      expect(validate({ groupMode: 'mention-or-reply' })).toBeUndefined()
+      expect(validate({ groupMode: 'mentions' })).toBe(
+        'config.groupMode must be one of: all, mention-only, mention-or-reply'
+      )
+    })
+
+    it('should report the offending field and value', () => {
+      expect(validateRouteOptions({ ...route, config: { replyDelayMs: 90000 } })).toEqual({
+        field: 'config.replyDelayMs',
+        value: 90000,
+        message: 'config.replyDelayMs must be an integer between 0 and 60000',
+      })
+    })
+  })
+
+  describe('shouldQuoteReplies', () => {
+    const groupMessage = {
+      id: 'MSG001',
+      from: '120363025246125486@g.us',
+      channelId: '120363025246125486',
+      text: 'Who is on call?',
+      timestamp: new Date(),
+    }
+    const directMessage = { ...groupMessage, from: '5491155551234@s.whatsapp.net', channelId: '5491155551234' }
+
+    it('should quote group replies by default', () => {
+      expect(shouldQuoteReplies(route, groupMessage)).toBe(true)
+      expect(shouldQuoteReplies(route, directMessage)).toBe(false)
+      expect(shouldQuoteReplies(route, { ...directMessage, metadata: { isGroup: true } })).toBe(true)
+    })
+
+    it('should follow config.quoteReplies when set', () => {
+      expect(shouldQuoteReplies({ ...route, config: { quoteReplies: true } }, directMessage)).toBe(true)
+      expect(shouldQuoteReplies({ ...route, config: { quoteReplies: false } }, groupMessage)).toBe(false)
+    })
+  })
+
+  describe('isAddressedToAgent', () => {
+    const groupMessage = {
+      id: 'MSG002',
+      from: '120363025246125486@g.us',
+      channelId: '120363025246125486',
+      text: 'Lunch at 1?',
+      timestamp: new Date(),
+      metadata: { isGroup: true, mentionsBot: false, repliesToBot: false },
+    }
+    const mentionOnly: Route = { ...route, config: { groupMode: 'mention-only' } }
+    const mentionOrReply: Route = { ...route, config: { groupMode: 'mention-or-reply' } }
+
+    it('should forward every message by default', () => {
+      expect(isAddressedToAgent(route, groupMessage)).toBe(true)
+    })
+
+    it('should require a mention in mention-only groups', () => {
+      expect(isAddressedToAgent(mentionOnly, groupMessage)).toBe(false)
+      expect(isAddressedToAgent(mentionOnly, { ...groupMessage, metadata: { isGroup: true, repliesToBot: true } }))
+        .toBe(false)
+      expect(isAddressedToAgent(mentionOnly, { ...groupMessage, metadata: { isGroup: true, mentionsBot: true } }))
+        .toBe(true)
+    })
+
+    it('should accept replies to the bot in mention-or-reply groups', () => {
+      expect(isAddressedToAgent(mentionOrReply, groupMessage)).toBe(false)
+      expect(isAddressedToAgent(mentionOrReply, { ...groupMessage, metadata: { isGroup: true, repliesToBot: true } }))
+        .toBe(true)
+    })
+
+    it('should always forward direct messages', () => {
+      const directMessage = { ...groupMessage, from: '5491155551234@s.whatsapp.net', metadata: { isGroup: false } }
+      expect(isAddressedToAgent(mentionOnly, directMessage)).toBe(true)
+    })
+  })
+})
@@ -13,7 +13,8 @@ describe('RouterService', () => {
       }
 
       const mockRepository: RoutesRepository = {
-        findByChannelId: vi.fn().mockResolvedValue(mockRoute),
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([mockRoute]),
         findAll: vi.fn().mockResolvedValue([mockRoute]),
       }
 
@@ -35,7 +36,8 @@ describe('RouterService', () => {
 
     it('should return null when channel does not exist', async () => {
       const mockRepository: RoutesRepository = {
-        findByChannelId: vi.fn().mockResolvedValue(null),
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([]),
         findAll: vi.fn().mockResolvedValue([]),
       }
 
@@ -64,7 +66,8 @@ describe('RouterService', () => {
       }
 
       const mockRepository: RoutesRepository = {
-        findByChannelId: vi.fn().mockResolvedValue(mockRoute),
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([mockRoute]),
         findAll: vi.fn().mockResolvedValue([mockRoute]),
       }
 
@@ -92,7 +95,8 @@ describe('RouterService', () => {
       }
 
       const mockRepository: RoutesRepository = {
-        findByChannelId: vi.fn().mockResolvedValue(mockRoute),
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([mockRoute]),
         findAll: vi.fn().mockResolvedValue([mockRoute]),
       }
 
@@ -120,7 +124,8 @@ describe('RouterService', () => {
       }
 
       const mockRepository: RoutesRepository = {
-        findByChannelId: vi.fn().mockResolvedValue(mockRoute),
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([mockRoute]),
         findAll: vi.fn().mockResolvedValue([mockRoute]),
       }
 
@@ -148,9 +153,10 @@ describe('RouterService', () => {
       }
 
       const mockRepository: RoutesRepository = {
+        findById: vi.fn(),
         findByChannelId: vi.fn()
-          .mockResolvedValueOnce(null) // No specific route
-          .mockResolvedValueOnce(mockWildcardRoute), // Wildcard route
+          .mockResolvedValueOnce([]) // No specific route
+          .mockResolvedValueOnce([mockWildcardRoute]), // Wildcard route
         findAll: vi.fn().mockResolvedValue([mockWildcardRoute]),
       }
 
@@ -180,9 +186,10 @@ describe('RouterService', () => {
       }
 
       const mockRepository: RoutesRepository = {
+        findById: vi.fn(),
         findByChannelId: vi.fn()
-          .mockResolvedValueOnce(null) // No specific route
-          .mockResolvedValueOnce(mockWildcardRoute), // Wildcard route
+          .mockResolvedValueOnce([]) // No specific route
+          .mockResolvedValueOnce([mockWildcardRoute]), // Wildcard route
         findAll: vi.fn().mockResolvedValue([mockWildcardRoute]),
       }
 
@@ -210,7 +217,8 @@ describe('RouterService', () => {
       }
 
       const mockRepository: RoutesRepository = {
-        findByChannelId: vi.fn().mockResolvedValue(mockRoute),
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([mockRoute]),
         findAll: vi.fn().mockResolvedValue([mockRoute]),
       }
 
@@ -229,6 +237,194 @@ describe('RouterService', () => {
       // Invalid regex should be treated as non-matching
       expect(result).toBeNull()
     })
+
+    it('should return the first matching route of a channel in priority order', async () => {
+      const supportRoute: Route = {
+        id: 'route-support',
+        channelId: 'group-1',
+        priority: 0,
+        agentEndpoint: 'http://support:8000',
+        environment: 'lab',
+        regexFilter: '^/support',
+      }
+      const defaultRoute: Route = {
+        id: 'route-default',
+        channelId: 'group-1',
+        priority: 10,
+        agentEndpoint: 'http://general:8000',
+        environment: 'lab',
+      }
+
+      const mockRepository: RoutesRepository = {
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([supportRoute, defaultRoute]),
+        findAll: vi.fn().mockResolvedValue([supportRoute, defaultRoute]),
+      }
+
+      const routerService = new RouterService(mockRepository)
+      const message = (text: string): IncomingMessage => ({
+        id: 'msg-1',
+        from: '1234567890',
+        channelId: 'group-1',
+        text,
+        timestamp: new Date(),
+      })
+
+      expect(await routerService.routeMessage(message('/support my order'))).toEqual(supportRoute)
+      expect(await routerService.routeMessage(message('hello everyone'))).toEqual(defaultRoute)
+      expect(mockRepository.findByChannelId).not.toHaveBeenCalledWith('*')
+    })
+
+    it('should fall back to wildcard routes when no channel route matches', async () => {
+      const channelRoute: Route = {
+        id: 'route-channel',
+        channelId: 'group-1',
+        agentEndpoint: 'http://support:8000',
+        environment: 'lab',
+        regexFilter: '^/support',
+      }
+      const wildcardRoutes: Route[] = [
+        { id: 'wild-1', channelId: '*', priority: 0, agentEndpoint: 'http://a:8000', environment: 'lab', regexFilter: '^/a' },
+        { id: 'wild-2', channelId: '*', priority: 5, agentEndpoint: 'http://b:8000', environment: 'lab' },
+      ]
+
+      const mockRepository: RoutesRepository = {
+        findById: vi.fn(),
+        findByChannelId: vi.fn()
+          .mockResolvedValueOnce([channelRoute])
+          .mockResolvedValueOnce(wildcardRoutes),
+        findAll: vi.fn().mockResolvedValue([]),
+      }
+
+      const routerService = new RouterService(mockRepository)
+
+      const result = await routerService.routeMessage({
+        id: 'msg-1',
+        from: '1234567890',
+        channelId: 'group-1',
+        text: 'hello',
+        timestamp: new Date(),
+      })
+
+      expect(result?.id).toBe('wild-2')
+    })
+
+    it('should skip routes whose match conditions do not hold', async () => {
+      const routes: Route[] = [
+        {
+          id: 'route-audio',
+          channelId: 'channel-1',
+          priority: 0,
+          agentEndpoint: 'http://transcriber:8000',
+          environment: 'lab',
+          match: {
+            operator: 'and',
+            conditions: [{ field: 'messageType', operator: 'equals', value: 'audioMessage' }],
+          },
+        },
+        { id: 'route-default', channelId: 'channel-1', priority: 1, agentEndpoint: 'http://default:8000', environment: 'lab' },
+      ]
+
+      const mockRepository: RoutesRepository = {
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue(routes),
+        findAll: vi.fn().mockResolvedValue(routes),
+      }
+
+      const routerService = new RouterService(mockRepository)
+      const message: IncomingMessage = {
+        id: 'msg-1',
+        from: '1234567890@s.whatsapp.net',
+        channelId: 'channel-1',
+        text: 'hello',
+        timestamp: new Date(),
+        metadata: { messageType: 'conversation' },
+      }
+
+      expect((await routerService.routeMessage(message))?.id).toBe('route-default')
+      expect((await routerService.routeMessage({
+        ...message,
+        metadata: { messageType: 'audioMessage' },
+      }))?.id).toBe('route-audio')
+    })
+
+    it('should require both the regex filter and the match conditions', async () => {
+      const route: Route = {
+        id: 'route-1',
+        channelId: 'channel-1',
+        agentEndpoint: 'http://localhost:8000',
+        environment: 'lab',
+        regexFilter: '^/help',
+        match: {
+          operator: 'and',
+          conditions: [{ field: 'isGroup', operator: 'equals', value: true }],
+        },
+      }
+
+      const mockRepository: RoutesRepository = {
+        findById: vi.fn(),
+        findByChannelId: vi.fn().mockResolvedValue([route]),
+        findAll: vi.fn().mockResolvedValue([route]),
+      }
+
+      const routerService = new RouterService(mockRepository)
+      const message: IncomingMessage = {
+        id: 'msg-1',
+        from: '120363000000000000@g.us',
+        channelId: 'channel-1',
+        text: '/help',
+        timestamp: new Date(),
+        metadata: { isGroup: false },
+      }
+
+      expect(await routerService.routeMessage(message)).toBeNull()
+      expect(await routerService.routeMessage({ ...message, metadata: { isGroup: true } })).toEqual(route)
+      expect(await routerService.routeMessage({ ...message, text: 'hi', metadata: { isGroup: true } })).toBeNull()
+    })
   })
-})
 
+  describe('findServingRoutes', () => {
+    const specificRoute: Route = {
+      id: 'route-1',
+      channelId: 'channel-1',
+      agentEndpoint: 'http://localhost:8000',
+      environment: 'lab',
+    }
+    const wildcardRoute: Route = { ...specificRoute, id: 'route-2', channelId: '*' }
+
+    /**
+     * Creates a repository holding the given routes.
+     */
+    function createRepository(routes: Route[]): RoutesRepository {
+      return {
+        findById: vi.fn(),
+        findByChannelId: vi.fn(async (channelId: string) => routes.filter((route) => route.channelId === channelId)),
+        findAll: vi.fn().mockResolvedValue(routes),
+      }
+    }
+
+    it('should return the routes of a channel that has its own', async () => {
+      const routerService = new RouterService(createRepository([specificRoute, wildcardRoute]))
+
+      expect(await routerService.findServingRoutes('channel-1')).toEqual([specificRoute])
+    })
+
+    it('should return the wildcard routes for other channels', async () => {
+      const routerService = new RouterService(createRepository([specificRoute, wildcardRoute]))
+
+      expect(await routerService.findServingRoutes('channel-2')).toEqual([wildcardRoute])
+    })
+
+    it('should add the wildcard routes when a message can match none of the channel routes', async () => {
+      const filteredRoute: Route = { ...specificRoute, regexFilter: '^/help' }
+      const conditionalRoute: Route = {
+        ...specificRoute,
+        id: 'route-3',
+        match: { operator: 'and', conditions: [{ field: 'isGroup', operator: 'equals', value: true }] },
+      }
+      const routerService = new RouterService(createRepository([filteredRoute, conditionalRoute, wildcardRoute]))
+
+      expect(await routerService.findServingRoutes('channel-1')).toEqual([filteredRoute, conditionalRoute, wildcardRoute])
+    })
+  })
+})
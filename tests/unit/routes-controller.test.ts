@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { registerRouteEndpoints } from '../../router/src/routes-controller.js'
 import { InMemoryRoutesRepository } from '../../router/src/core/routes-repository.js'
+import { HttpAgentClientFactory } from '../../router/src/infra/agent-client-factory.js'
 
 describe('RoutesController', () => {
   let mockApp: FastifyInstance
@@ -39,17 +40,17 @@ describe('RoutesController', () => {
       get: vi.fn((route: string, handler: any) => {
         if (route === '/api/routes') {
           ;(mockApp as any).getRoutesHandler = handler
-        } else if (route === '/api/routes/:channelId') {
+        } else if (route === '/api/routes/:id') {
           ;(mockApp as any).getRouteHandler = handler
         }
       }),
       put: vi.fn((route: string, handler: any) => {
-        if (route === '/api/routes/:channelId') {
+        if (route === '/api/routes/:id') {
           ;(mockApp as any).putRouteHandler = handler
         }
       }),
       delete: vi.fn((route: string, handler: any) => {
-        if (route === '/api/routes/:channelId') {
+        if (route === '/api/routes/:id') {
           ;(mockApp as any).deleteRouteHandler = handler
         }
       }),
@@ -65,7 +66,7 @@ describe('RoutesController', () => {
   })
 
   describe('POST /api/routes', () => {
-    it('should add a new route', async () => {
+    it('should add a new route and return it with its id', async () => {
       const routeBody = {
         channelId: '5491155551234',
         agentEndpoint: 'http://localhost:8000/agent',
@@ -82,13 +83,14 @@ describe('RoutesController', () => {
         expect.objectContaining({
           success: true,
           message: 'Route added successfully',
-          data: routeBody,
+          data: expect.objectContaining({ ...routeBody, id: expect.any(String), priority: 0 }),
         })
       )
 
       // Verify route was actually added
-      const route = await mockRoutesRepository.findByChannelId('5491155551234')
-      expect(route).toEqual(routeBody)
+      const routes = await mockRoutesRepository.findByChannelId('5491155551234')
+      expect(routes).toHaveLength(1)
+      expect(routes[0]).toMatchObject(routeBody)
     })
 
     it('should handle route with config', async () => {
@@ -105,9 +107,156 @@ describe('RoutesController', () => {
       await handler(mockRequest, mockReply)
 
       expect(mockReply.code).toHaveBeenCalledWith(201)
-      const route = await mockRoutesRepository.findByChannelId('5491155551234')
+      const [route] = await mockRoutesRepository.findByChannelId('5491155551234')
       expect(route?.config).toEqual({ timeout: 5000 })
     })
+
+    it('should allow several routes for the same channel', async () => {
+      const handler = (mockApp as any).postRouteHandler
+
+      mockRequest.body = {
+        channelId: 'group-1',
+        priority: 0,
+        agentEndpoint: 'http://localhost:8000/support',
+        environment: 'lab',
+        regexFilter: '^/support',
+      }
+      await handler(mockRequest, mockReply)
+
+      mockRequest.body = {
+        channelId: 'group-1',
+        priority: 10,
+        agentEndpoint: 'http://localhost:8000/general',
+        environment: 'lab',
+      }
+      await handler(mockRequest, mockReply)
+
+      const routes = await mockRoutesRepository.findByChannelId('group-1')
+      expect(routes.map((r) => r.agentEndpoint)).toEqual([
+        'http://localhost:8000/support',
+        'http://localhost:8000/general',
+      ])
+    })
+
+    it('should return 400 for a non-integer priority', async () => {
+      mockRequest.body = {
+        channelId: '5491155551234',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+        priority: 'high',
+      }
+
+      const handler = (mockApp as any).postRouteHandler
+      await handler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(400)
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          code: 'INVALID_PRIORITY',
+          details: expect.objectContaining({ field: 'priority' }),
+        })
+      )
+      expect(mockRoutesRepository.getRouteCount()).toBe(0)
+    })
+    it('should store valid match conditions', async () => {
+      const match = {
+        operator: 'or',
+        conditions: [
+          { field: 'sender', operator: 'in', value: ['5491111111111', '5492222222222'] },
+          { field: 'fromMe', operator: 'equals', value: true },
+        ],
+      }
+      mockRequest.body = {
+        channelId: '5491155551234',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+        match,
+      }
+
+      const handler = (mockApp as any).postRouteHandler
+      await handler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(201)
+      const [route] = await mockRoutesRepository.findByChannelId('5491155551234')
+      expect(route.match).toEqual(match)
+    })
+
+    it('should return 400 for an invalid match condition', async () => {
+      mockRequest.body = {
+        channelId: '5491155551234',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+        match: {
+          operator: 'and',
+          conditions: [{ field: 'isGroup', operator: 'regex', value: 'true' }],
+        },
+      }
+
+      const handler = (mockApp as any).postRouteHandler
+      await handler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(400)
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          code: 'INVALID_MATCH_CONDITION',
+          details: expect.objectContaining({ field: 'match.conditions[0].operator' }),
+        })
+      )
+      expect(mockRoutesRepository.getRouteCount()).toBe(0)
+    })
+    it('should reject invalid route options', async () => {
+      mockRequest.body = {
+        channelId: '5491155551234',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+        config: { adk: { appName: 'test_agent' }, replyDelayMs: 90000 },
+      }
+
+      const handler = (mockApp as any).postRouteHandler
+      await handler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(400)
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          code: 'INVALID_ROUTE_OPTIONS',
+          details: {
+            field: 'config.replyDelayMs',
+            value: 90000,
+            message: 'config.replyDelayMs must be an integer between 0 and 60000',
+          },
+        })
+      )
+      expect(mockRoutesRepository.getRouteCount()).toBe(0)
+    })
+
+    it('should validate agent configuration when an agent client factory is provided', async () => {
+      registerRouteEndpoints(mockApp, mockRoutesRepository, new HttpAgentClientFactory())
+      mockRequest.body = {
+        channelId: '5491155551234',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+        config: { type: 'grpc' },
+      }
+
+      const handler = (mockApp as any).postRouteHandler
+      await handler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(400)
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          code: 'INVALID_AGENT_CONFIG',
+          details: expect.objectContaining({
+            field: 'config',
+            message: 'Unknown agent type "grpc". Supported types: adk, openai, webhook',
+          }),
+        })
+      )
+      expect(mockRoutesRepository.getRouteCount()).toBe(0)
+    })
   })
 
   describe('GET /api/routes', () => {
@@ -146,18 +295,62 @@ describe('RoutesController', () => {
       expect(response.data).toHaveLength(2)
       expect(response.count).toBe(2)
     })
+
+    it('should filter routes by channelId query', async () => {
+      await mockRoutesRepository.addRoute({
+        channelId: '5491111111111',
+        agentEndpoint: 'http://localhost:8000/agent1',
+        environment: 'lab',
+      })
+      await mockRoutesRepository.addRoute({
+        channelId: '5492222222222',
+        agentEndpoint: 'http://localhost:8000/agent2',
+        environment: 'lab',
+      })
+
+      ;(mockRequest as any).query = { channelId: '5492222222222' }
+
+      const handler = (mockApp as any).getRoutesHandler
+      await handler(mockRequest, mockReply)
+
+      const response = (mockReply.send as ReturnType<typeof vi.fn>).mock.calls[0][0]
+      expect(response.count).toBe(1)
+      expect(response.data[0].channelId).toBe('5492222222222')
+    })
+  })
+
+  describe('secrets', () => {
+    it('should mask agent secrets when returning routes', async () => {
+      registerRouteEndpoints(mockApp, mockRoutesRepository, new HttpAgentClientFactory())
+      const route = await mockRoutesRepository.addRoute({
+        channelId: '5491155551234',
+        agentEndpoint: 'http://localhost:4000',
+        environment: 'lab',
+        config: { type: 'openai', openai: { model: 'test-model', apiKey: 'sk-secret' } },
+      })
+      const maskedConfig = { type: 'openai', openai: { model: 'test-model', apiKey: '********' } }
+
+      mockRequest.query = {}
+      await (mockApp as any).getRoutesHandler(mockRequest, mockReply)
+      mockRequest.params = { id: route.id }
+      await (mockApp as any).getRouteHandler(mockRequest, mockReply)
+
+      const [list, single] = vi.mocked(mockReply.send).mock.calls.map(([payload]) => payload as any)
+      expect(list.data[0].config).toEqual(maskedConfig)
+      expect(single.data.config).toEqual(maskedConfig)
+      expect(JSON.stringify([list, single])).not.toContain('sk-secret')
+    })
   })
 
-  describe('GET /api/routes/:channelId', () => {
+  describe('GET /api/routes/:id', () => {
     it('should return route when found', async () => {
-      const route = {
+      const route = await mockRoutesRepository.addRoute({
         channelId: '5491155551234',
         agentEndpoint: 'http://localhost:8000/agent',
-        environment: 'lab' as const,
-      }
-      await mockRoutesRepository.addRoute(route)
+        environment: 'lab',
+      })
 
-      mockRequest.params = { channelId: '5491155551234' }
+      mockRequest.params = { id: route.id }
 
       const handler = (mockApp as any).getRouteHandler
       await handler(mockRequest, mockReply)
@@ -172,7 +365,7 @@ describe('RoutesController', () => {
     })
 
     it('should return 404 when route not found', async () => {
-      mockRequest.params = { channelId: 'non-existent' }
+      mockRequest.params = { id: 'non-existent' }
 
       const handler = (mockApp as any).getRouteHandler
       await handler(mockRequest, mockReply)
@@ -187,14 +380,13 @@ describe('RoutesController', () => {
     })
   })
 
-  describe('PUT /api/routes/:channelId', () => {
+  describe('PUT /api/routes/:id', () => {
     it('should update existing route', async () => {
-      const existingRoute = {
+      const existingRoute = await mockRoutesRepository.addRoute({
         channelId: '5491155551234',
         agentEndpoint: 'http://localhost:8000/agent',
-        environment: 'lab' as const,
-      }
-      await mockRoutesRepository.addRoute(existingRoute)
+        environment: 'lab',
+      })
 
       const updatedRoute = {
         channelId: '5491155551234',
@@ -202,7 +394,7 @@ describe('RoutesController', () => {
         environment: 'prod' as const,
       }
 
-      mockRequest.params = { channelId: '5491155551234' }
+      mockRequest.params = { id: existingRoute.id }
       mockRequest.body = updatedRoute
 
       const handler = (mockApp as any).putRouteHandler
@@ -213,46 +405,59 @@ describe('RoutesController', () => {
         expect.objectContaining({
           success: true,
           message: 'Route updated successfully',
-          data: updatedRoute,
+          data: expect.objectContaining({ ...updatedRoute, id: existingRoute.id }),
         })
       )
 
       // Verify route was actually updated
-      const route = await mockRoutesRepository.findByChannelId('5491155551234')
+      const route = await mockRoutesRepository.findById(existingRoute.id as string)
       expect(route?.agentEndpoint).toBe('http://localhost:9000/agent')
       expect(route?.environment).toBe('prod')
     })
 
-    it('should create route if not exists (upsert)', async () => {
-      const newRoute = {
+    it('should return 404 if route does not exist', async () => {
+      mockRequest.params = { id: 'non-existent' }
+      mockRequest.body = {
         channelId: '5491155551234',
         agentEndpoint: 'http://localhost:8000/agent',
-        environment: 'lab' as const,
+        environment: 'lab',
       }
 
-      mockRequest.params = { channelId: '5491155551234' }
-      mockRequest.body = newRoute
+      const handler = (mockApp as any).putRouteHandler
+      await handler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(404)
+      expect(mockRoutesRepository.getRouteCount()).toBe(0)
+    })
+
+    it('should keep channelId and priority when omitted from body', async () => {
+      const existingRoute = await mockRoutesRepository.addRoute({
+        channelId: 'group-1',
+        priority: 5,
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+      })
+
+      mockRequest.params = { id: existingRoute.id }
+      mockRequest.body = {
+        agentEndpoint: 'http://localhost:9000/agent',
+        environment: 'lab',
+      }
 
       const handler = (mockApp as any).putRouteHandler
       await handler(mockRequest, mockReply)
 
-      expect(mockReply.code).toHaveBeenCalledWith(201)
-      expect(mockReply.send).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          message: 'Route created successfully',
-          data: newRoute,
-        })
-      )
+      const route = await mockRoutesRepository.findById(existingRoute.id as string)
+      expect(route?.channelId).toBe('group-1')
+      expect(route?.priority).toBe(5)
     })
 
     it('should change channelId when provided in body', async () => {
-      const existingRoute = {
+      const existingRoute = await mockRoutesRepository.addRoute({
         channelId: 'old-channel',
         agentEndpoint: 'http://localhost:8000/agent',
-        environment: 'lab' as const,
-      }
-      await mockRoutesRepository.addRoute(existingRoute)
+        environment: 'lab',
+      })
 
       const updatedRoute = {
         channelId: 'new-channel',
@@ -260,7 +465,7 @@ describe('RoutesController', () => {
         environment: 'lab' as const,
       }
 
-      mockRequest.params = { channelId: 'old-channel' }
+      mockRequest.params = { id: existingRoute.id }
       mockRequest.body = updatedRoute
 
       const handler = (mockApp as any).putRouteHandler
@@ -268,24 +473,53 @@ describe('RoutesController', () => {
 
       expect(mockReply.code).toHaveBeenCalledWith(200)
       
-      // Verify old route is gone and new one exists
-      const oldRoute = await mockRoutesRepository.findByChannelId('old-channel')
-      const newRoute = await mockRoutesRepository.findByChannelId('new-channel')
-      expect(oldRoute).toBeNull()
-      expect(newRoute).toEqual(updatedRoute)
+      // Verify route moved to the new channel and kept its id
+      const oldRoutes = await mockRoutesRepository.findByChannelId('old-channel')
+      const newRoutes = await mockRoutesRepository.findByChannelId('new-channel')
+      expect(oldRoutes).toEqual([])
+      expect(newRoutes).toHaveLength(1)
+      expect(newRoutes[0]).toMatchObject({ ...updatedRoute, id: existingRoute.id })
+    })
+
+    it('should keep a secret the update sends back masked', async () => {
+      registerRouteEndpoints(mockApp, mockRoutesRepository, new HttpAgentClientFactory())
+      const existingRoute = await mockRoutesRepository.addRoute({
+        channelId: '5491155551234',
+        agentEndpoint: 'http://localhost:4000',
+        environment: 'lab',
+        config: { type: 'openai', openai: { model: 'test-model', apiKey: 'sk-secret' } },
+      })
+
+      mockRequest.params = { id: existingRoute.id }
+      mockRequest.body = {
+        agentEndpoint: 'http://localhost:4000',
+        environment: 'lab',
+        config: { type: 'openai', openai: { model: 'other-model', apiKey: '********' } },
+      }
+
+      const handler = (mockApp as any).putRouteHandler
+      await handler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(200)
+      expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          config: { type: 'openai', openai: { model: 'other-model', apiKey: '********' } },
+        }),
+      }))
+      const storedRoute = await mockRoutesRepository.findById(existingRoute.id!)
+      expect(storedRoute?.config).toEqual({ type: 'openai', openai: { model: 'other-model', apiKey: 'sk-secret' } })
     })
   })
 
-  describe('DELETE /api/routes/:channelId', () => {
+  describe('DELETE /api/routes/:id', () => {
     it('should remove route when found', async () => {
-      const route = {
+      const route = await mockRoutesRepository.addRoute({
         channelId: '5491155551234',
         agentEndpoint: 'http://localhost:8000/agent',
-        environment: 'lab' as const,
-      }
-      await mockRoutesRepository.addRoute(route)
+        environment: 'lab',
+      })
 
-      mockRequest.params = { channelId: '5491155551234' }
+      mockRequest.params = { id: route.id }
 
       const handler = (mockApp as any).deleteRouteHandler
       await handler(mockRequest, mockReply)
@@ -294,12 +528,12 @@ describe('RoutesController', () => {
       expect(mockReply.send).toHaveBeenCalledWith()
 
       // Verify route was actually removed
-      const found = await mockRoutesRepository.findByChannelId('5491155551234')
+      const found = await mockRoutesRepository.findById(route.id as string)
       expect(found).toBeNull()
     })
 
     it('should return 404 when route not found', async () => {
-      mockRequest.params = { channelId: 'non-existent' }
+      mockRequest.params = { id: 'non-existent' }
 
       const handler = (mockApp as any).deleteRouteHandler
       await handler(mockRequest, mockReply)
@@ -13,10 +13,29 @@ describe('InMemoryRoutesRepository', () => {
     repository = new InMemoryRoutesRepository()
   })
 
+  describe('findById', () => {
+    it('should return null for non-existent id', async () => {
+      const result = await repository.findById('non-existent')
+      expect(result).toBeNull()
+    })
+
+    it('should return the route with the assigned id', async () => {
+      const added = await repository.addRoute({
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+      })
+
+      const result = await repository.findById(added.id as string)
+
+      expect(result).toEqual(added)
+    })
+  })
+
   describe('findByChannelId', () => {
-    it('should return null for non-existent channel', async () => {
+    it('should return empty array for non-existent channel', async () => {
       const result = await repository.findByChannelId('non-existent')
-      expect(result).toBeNull()
+      expect(result).toEqual([])
     })
 
     it('should return route when channel exists', async () => {
@@ -26,24 +45,56 @@ describe('InMemoryRoutesRepository', () => {
         environment: 'lab',
       }
 
-      await repository.addRoute(route)
+      const added = await repository.addRoute(route)
       const result = await repository.findByChannelId('test-channel-123')
 
-      expect(result).toEqual(route)
+      expect(result).toEqual([added])
+      expect(added).toMatchObject(route)
     })
 
-    it('should return null after route is removed', async () => {
-      const route: Route = {
+    it('should return every route of the channel sorted by priority', async () => {
+      const fallback = await repository.addRoute({
+        channelId: 'group-1',
+        priority: 10,
+        agentEndpoint: 'http://localhost:8000/general',
+        environment: 'lab',
+      })
+      const support = await repository.addRoute({
+        channelId: 'group-1',
+        priority: 1,
+        agentEndpoint: 'http://localhost:8000/support',
+        environment: 'lab',
+        regexFilter: '^/support',
+      })
+      const sales = await repository.addRoute({
+        channelId: 'group-1',
+        priority: 1,
+        agentEndpoint: 'http://localhost:8000/sales',
+        environment: 'lab',
+      })
+      await repository.addRoute({
+        channelId: 'group-2',
+        agentEndpoint: 'http://localhost:8000/other',
+        environment: 'lab',
+      })
+
+      const result = await repository.findByChannelId('group-1')
+
+      // Same priority keeps insertion order
+      expect(result.map((r) => r.id)).toEqual([support.id, sales.id, fallback.id])
+    })
+
+    it('should return empty array after route is removed', async () => {
+      const added = await repository.addRoute({
         channelId: 'test-channel-123',
         agentEndpoint: 'http://localhost:8000/agent',
         environment: 'lab',
-      }
+      })
 
-      await repository.addRoute(route)
-      await repository.removeRoute('test-channel-123')
+      await repository.removeRoute(added.id as string)
       const result = await repository.findByChannelId('test-channel-123')
 
-      expect(result).toBeNull()
+      expect(result).toEqual([])
     })
   })
 
@@ -70,42 +121,42 @@ describe('InMemoryRoutesRepository', () => {
 
       const result = await repository.findAll()
       expect(result).toHaveLength(2)
-      expect(result).toContainEqual(route1)
-      expect(result).toContainEqual(route2)
+      expect(result).toContainEqual(expect.objectContaining(route1))
+      expect(result).toContainEqual(expect.objectContaining(route2))
     })
   })
 
   describe('addRoute', () => {
-    it('should add a route', async () => {
+    it('should add a route with a generated id and default priority', async () => {
       const route: Route = {
         channelId: 'test-channel-123',
         agentEndpoint: 'http://localhost:8000/agent',
         environment: 'lab',
       }
 
-      await repository.addRoute(route)
-      const result = await repository.findByChannelId('test-channel-123')
+      const added = await repository.addRoute(route)
 
-      expect(result).toEqual(route)
+      expect(added.id).toEqual(expect.any(String))
+      expect(added.priority).toBe(0)
+      expect(added).toMatchObject(route)
     })
 
-    it('should overwrite existing route with same channelId', async () => {
-      const route1: Route = {
+    it('should keep several routes with the same channelId', async () => {
+      const route1 = await repository.addRoute({
         channelId: 'test-channel-123',
         agentEndpoint: 'http://localhost:8000/agent1',
         environment: 'lab',
-      }
-      const route2: Route = {
+      })
+      const route2 = await repository.addRoute({
         channelId: 'test-channel-123',
         agentEndpoint: 'http://localhost:8000/agent2',
         environment: 'prod',
-      }
-
-      await repository.addRoute(route1)
-      await repository.addRoute(route2)
+      })
 
       const result = await repository.findByChannelId('test-channel-123')
-      expect(result).toEqual(route2)
+
+      expect(route1.id).not.toBe(route2.id)
+      expect(result).toEqual([route1, route2])
     })
 
     it('should handle route with config', async () => {
@@ -120,32 +171,72 @@ describe('InMemoryRoutesRepository', () => {
       }
 
       await repository.addRoute(route)
-      const result = await repository.findByChannelId('test-channel-123')
+      const [result] = await repository.findByChannelId('test-channel-123')
 
-      expect(result).toEqual(route)
+      expect(result).toMatchObject(route)
       expect(result?.config).toEqual({ timeout: 5000, retries: 3 })
     })
   })
 
+  describe('updateRoute', () => {
+    it('should return null for non-existent route', async () => {
+      const result = await repository.updateRoute('non-existent', {
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+      })
+      expect(result).toBeNull()
+    })
+
+    it('should update the route and keep its id', async () => {
+      const added = await repository.addRoute({
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000/agent',
+        environment: 'lab',
+      })
+
+      const updated = await repository.updateRoute(added.id as string, {
+        channelId: 'test-channel-456',
+        priority: 3,
+        agentEndpoint: 'http://localhost:8000/agent2',
+        environment: 'prod',
+      })
+
+      expect(updated).toEqual({
+        id: added.id,
+        channelId: 'test-channel-456',
+        priority: 3,
+        agentEndpoint: 'http://localhost:8000/agent2',
+        environment: 'prod',
+      })
+      expect(await repository.findByChannelId('test-channel-123')).toEqual([])
+      expect(await repository.findByChannelId('test-channel-456')).toEqual([updated])
+    })
+  })
+
   describe('removeRoute', () => {
     it('should return false for non-existent route', async () => {
       const result = await repository.removeRoute('non-existent')
       expect(result).toBe(false)
     })
 
-    it('should return true and remove existing route', async () => {
-      const route: Route = {
+    it('should return true and remove only the given route', async () => {
+      const route1 = await repository.addRoute({
         channelId: 'test-channel-123',
-        agentEndpoint: 'http://localhost:8000/agent',
+        agentEndpoint: 'http://localhost:8000/agent1',
         environment: 'lab',
-      }
+      })
+      const route2 = await repository.addRoute({
+        channelId: 'test-channel-123',
+        agentEndpoint: 'http://localhost:8000/agent2',
+        environment: 'lab',
+      })
 
-      await repository.addRoute(route)
-      const removed = await repository.removeRoute('test-channel-123')
+      const removed = await repository.removeRoute(route1.id as string)
       const found = await repository.findByChannelId('test-channel-123')
 
       expect(removed).toBe(true)
-      expect(found).toBeNull()
+      expect(found).toEqual([route2])
     })
   })
 
@@ -177,7 +268,7 @@ describe('InMemoryRoutesRepository', () => {
     it('should return correct count after adding routes', async () => {
       expect(repository.getRouteCount()).toBe(0)
 
-      await repository.addRoute({
+      const route1 = await repository.addRoute({
         channelId: 'test-channel-111',
         agentEndpoint: 'http://localhost:8000/agent1',
         environment: 'lab',
@@ -191,7 +282,7 @@ describe('InMemoryRoutesRepository', () => {
       })
       expect(repository.getRouteCount()).toBe(2)
 
-      await repository.removeRoute('test-channel-111')
+      await repository.removeRoute(route1.id as string)
       expect(repository.getRouteCount()).toBe(1)
     })
   })
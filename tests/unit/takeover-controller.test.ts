@@ -0,0 +1,78 @@
+/**
+ * Unit tests for the takeover endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fastify, { type FastifyInstance } from 'fastify'
+import { registerTakeoverEndpoints } from '../../router/src/takeover-controller.js'
+import { TakeoverService } from '../../router/src/core/takeover.js'
+
+describe('TakeoverController', () => {
+  const chatId = '5491155551234@s.whatsapp.net'
+  let app: FastifyInstance
+  let takeover: TakeoverService
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    takeover = new TakeoverService({ cooldownMs: 60_000 })
+    app = fastify()
+    registerTakeoverEndpoints(app, takeover)
+    await app.ready()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    vi.restoreAllMocks()
+  })
+
+  it('should list paused chats with the takeover settings', async () => {
+    takeover.pause(chatId, 'operator')
+
+    const response = await app.inject({ method: 'GET', url: '/api/takeovers' })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toMatchObject({
+      success: true,
+      data: [{ chatId, reason: 'operator' }],
+      count: 1,
+      cooldownMs: 60_000,
+      resumeCommand: '/bot',
+    })
+  })
+
+  it('should pause, get and resume a chat', async () => {
+    const url = `/api/takeovers/${encodeURIComponent(chatId)}`
+
+    const paused = await app.inject({ method: 'PUT', url, payload: { durationMs: 0 } })
+    expect(paused.statusCode).toBe(200)
+    expect(paused.json().data).toMatchObject({ chatId, until: null, reason: 'api' })
+
+    expect((await app.inject({ method: 'GET', url })).statusCode).toBe(200)
+    expect((await app.inject({ method: 'DELETE', url })).statusCode).toBe(204)
+    expect(takeover.isPaused(chatId)).toBe(false)
+
+    const missing = await app.inject({ method: 'GET', url })
+    expect(missing.statusCode).toBe(404)
+    expect(missing.json().error).toBe(`Chat is not paused: ${chatId}`)
+    expect((await app.inject({ method: 'DELETE', url })).statusCode).toBe(404)
+  })
+
+  it('should pause for the cooldown when no duration is given', async () => {
+    const response = await app.inject({ method: 'PUT', url: `/api/takeovers/${encodeURIComponent(chatId)}` })
+
+    expect(response.statusCode).toBe(200)
+    expect(takeover.getPause(chatId)?.until).not.toBeNull()
+  })
+
+  it('should reject an invalid duration', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/api/takeovers/${encodeURIComponent(chatId)}`,
+      payload: { durationMs: -5 },
+    })
+
+    expect(response.statusCode).toBe(400)
+    expect(response.json().code).toBe('INVALID_PAUSE_DURATION')
+    expect(takeover.isPaused(chatId)).toBe(false)
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for human takeover of chats.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { TakeoverService } from '../../router/src/core/takeover.js'
+import type { IncomingMessage } from '../../router/src/core/models.js'
+
+describe('TakeoverService', () => {
+  const chatId = '5491155551234@s.whatsapp.net'
+  let now: number
+  let takeover: TakeoverService
+
+  /**
+   * Creates a message sent from the connected account.
+   */
+  function ownMessage(id: string, text: string): IncomingMessage {
+    return { id, from: chatId, channelId: '5491155551234', text, timestamp: new Date(now), metadata: { fromMe: true } }
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    now = Date.UTC(2026, 0, 1, 12)
+    takeover = new TakeoverService({ cooldownMs: 60_000, now: () => now })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should ignore echoes of messages the router sent', () => {
+    takeover.recordSentMessage('SENT1')
+
+    expect(takeover.handleOwnMessage(ownMessage('SENT1', 'Your order shipped'))).toBe('echo')
+    expect(takeover.isPaused(chatId)).toBe(false)
+  })
+
+  it('should pause the chat for the cooldown when an operator writes', () => {
+    expect(takeover.handleOwnMessage(ownMessage('OP1', 'Hi, Ana here'))).toBe('paused')
+    expect(takeover.getPause(chatId)).toEqual({
+      chatId,
+      pausedAt: new Date(now),
+      until: new Date(now + 60_000),
+      reason: 'operator',
+    })
+
+    now += 60_000
+    expect(takeover.isPaused(chatId)).toBe(false)
+    expect(takeover.listPauses()).toEqual([])
+  })
+
+  it('should resume the chat on the resume command', () => {
+    takeover.handleOwnMessage(ownMessage('OP1', 'Hi, Ana here'))
+
+    expect(takeover.handleOwnMessage(ownMessage('OP2', ' /BOT '))).toBe('resumed')
+    expect(takeover.isPaused(chatId)).toBe(false)
+  })
+
+  it('should pause until resumed when the duration is 0', () => {
+    takeover.pause(chatId, 'api', 0)
+    now += 24 * 60 * 60 * 1000
+
+    expect(takeover.getPause(chatId)?.until).toBeNull()
+    expect(takeover.resume(chatId)).toBe(true)
+    expect(takeover.resume(chatId)).toBe(false)
+  })
+
+  it('should restore an earlier pause', () => {
+    const earlier = takeover.pause(chatId, 'operator')
+    now += 30_000
+    takeover.pause(chatId, 'api', 0)
+
+    takeover.restore(earlier)
+
+    expect(takeover.getPause(chatId)).toEqual(earlier)
+    now += 30_000
+    expect(takeover.isPaused(chatId)).toBe(false)
+  })
+
+  it('should forget sent message IDs after a while', () => {
+    takeover.recordSentMessage('SENT1')
+    now += 11 * 60 * 1000
+
+    expect(takeover.isSentByRouter('SENT1')).toBe(false)
+  })
+
+  it('should list pauses most recent first', () => {
+    takeover.pause('a@s.whatsapp.net', 'api')
+    now += 1000
+    takeover.pause('b@s.whatsapp.net', 'operator')
+
+    expect(takeover.listPauses().map((pause) => pause.chatId)).toEqual(['b@s.whatsapp.net', 'a@s.whatsapp.net'])
+  })
+})
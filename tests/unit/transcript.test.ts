@@ -0,0 +1,157 @@
+/**
+ * Unit tests for conversation transcripts.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  TranscriptService,
+  getSessionId,
+  type TranscriptRepository,
+} from '../../router/src/core/transcript.js'
+import type { IncomingMessage, Route } from '../../router/src/core/models.js'
+
+describe('getSessionId', () => {
+  it('should read ADK and OpenAI-compatible sessions', () => {
+    expect(getSessionId({ adk: { sessionId: 'adk-1', userId: 'u' } })).toBe('adk-1')
+    expect(getSessionId({ openai: { sessionId: 'chat-1' } })).toBe('chat-1')
+  })
+
+  it('should return undefined without a session', () => {
+    expect(getSessionId(undefined)).toBeUndefined()
+    expect(getSessionId({ agentEndpoint: 'http://localhost:8000' })).toBeUndefined()
+  })
+})
+
+describe('TranscriptService', () => {
+  const message: IncomingMessage = {
+    id: 'MSG001',
+    from: '5491155551234@s.whatsapp.net',
+    channelId: '5491155551234',
+    text: 'What is this?',
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+    attachments: [{ type: 'image', mimeType: 'image/jpeg', size: 1024, url: 'file:///media/MSG001.jpg' }],
+  }
+  const route: Route = {
+    id: 'route-1',
+    channelId: '5491155551234',
+    agentEndpoint: 'http://localhost:8000',
+    environment: 'lab',
+  }
+  let repository: TranscriptRepository
+  let transcript: TranscriptService
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    repository = {
+      add: vi.fn().mockResolvedValue(undefined),
+      listConversations: vi.fn().mockResolvedValue([]),
+      listMessages: vi.fn().mockResolvedValue([]),
+      findLatestBySession: vi.fn(),
+      deleteBefore: vi.fn().mockResolvedValue(3),
+    }
+    transcript = new TranscriptService({ repository, retentionMs: 60000 })
+  })
+
+  afterEach(() => {
+    transcript.stopCleanup()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('should store the message and its replies', async () => {
+    await transcript.recordExchange({
+      message,
+      route,
+      result: { success: true, response: 'A cat', metadata: { openai: { sessionId: 'chat-1' } } },
+      replies: [
+        { text: 'A cat', messageId: 'REPLY001', sentAt: new Date('2026-01-01T10:00:02Z') },
+        { text: '', contentType: 'image', error: 'Connection closed', sentAt: new Date('2026-01-01T10:00:03Z') },
+      ],
+      startedAt: new Date('2026-01-01T10:00:00.500Z'),
+      latencyMs: 1500,
+    })
+
+    expect(repository.add).toHaveBeenCalledWith([
+      {
+        channelId: '5491155551234',
+        chatId: '5491155551234@s.whatsapp.net',
+        direction: 'inbound',
+        messageId: 'MSG001',
+        text: 'What is this?',
+        attachments: [{ type: 'image', mimeType: 'image/jpeg' }],
+        routeId: 'route-1',
+        agentEndpoint: 'http://localhost:8000',
+        sessionId: 'chat-1',
+        latencyMs: 1500,
+        success: true,
+        timestamp: new Date('2026-01-01T10:00:00Z'),
+      },
+      {
+        channelId: '5491155551234',
+        chatId: '5491155551234@s.whatsapp.net',
+        direction: 'outbound',
+        messageId: 'REPLY001',
+        text: 'A cat',
+        routeId: 'route-1',
+        agentEndpoint: 'http://localhost:8000',
+        sessionId: 'chat-1',
+        latencyMs: 1500,
+        success: true,
+        timestamp: new Date('2026-01-01T10:00:02Z'),
+      },
+      {
+        channelId: '5491155551234',
+        chatId: '5491155551234@s.whatsapp.net',
+        direction: 'outbound',
+        text: '',
+        contentType: 'image',
+        routeId: 'route-1',
+        agentEndpoint: 'http://localhost:8000',
+        sessionId: 'chat-1',
+        latencyMs: 2500,
+        success: false,
+        error: 'Connection closed',
+        timestamp: new Date('2026-01-01T10:00:03Z'),
+      },
+    ])
+  })
+
+  it('should log storage errors instead of throwing', async () => {
+    vi.mocked(repository.add).mockRejectedValueOnce(new Error('Failed to store messages: connection refused'))
+
+    await expect(transcript.recordExchange({
+      message,
+      route,
+      result: { success: false, error: 'Agent down' },
+      replies: [],
+      startedAt: new Date(),
+      latencyMs: 10,
+    })).resolves.toBeUndefined()
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Failed to record conversation'))
+  })
+
+  it('should purge messages older than the retention period', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'))
+
+    expect(await transcript.purgeExpired()).toBe(3)
+    expect(repository.deleteBefore).toHaveBeenCalledWith(new Date('2026-01-01T09:59:00Z'))
+  })
+
+  it('should keep messages forever with a retention of 0', async () => {
+    transcript = new TranscriptService({ repository, retentionMs: 0 })
+
+    expect(await transcript.purgeExpired()).toBe(0)
+    expect(repository.deleteBefore).not.toHaveBeenCalled()
+  })
+
+  it('should purge periodically', async () => {
+    vi.useFakeTimers()
+
+    transcript.startCleanup(1000)
+    await vi.advanceTimersByTimeAsync(2000)
+
+    expect(repository.deleteBefore).toHaveBeenCalledTimes(2)
+  })
+})
@@ -259,7 +259,9 @@ describe('WebhookAdapter', () => {
       const result = normalizeEvolutionApiWebhook(payload)
 
       expect(result).not.toBeNull()
-      expect(result?.id).toMatch(/^msg-\d+$/)
+      expect(result?.id).toMatch(/^hash-[0-9a-f]{32}$/)
+      // A redelivery of the same message gets the same ID
+      expect(normalizeEvolutionApiWebhook(payload)?.id).toBe(result?.id)
     })
 
     it('should use current date if messageTimestamp is missing', () => {
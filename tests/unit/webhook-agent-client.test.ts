@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the generic JSON webhook agent client and protocol.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  WebhookAgentClient,
+  extractJsonPath,
+  parseJsonPath,
+  renderBodyTemplate,
+} from '../../router/src/infra/webhook-agent-client.js'
+import { WebhookAgentProtocol } from '../../router/src/infra/webhook-agent-protocol.js'
+import type { IncomingMessage, Route } from '../../router/src/core/models.js'
+
+// Mock fetch globally
+global.fetch = vi.fn()
+
+const mockMessage: IncomingMessage = {
+  id: 'MSG001',
+  from: '5491155551234@s.whatsapp.net',
+  channelId: 'test-channel-123',
+  text: 'Hello, bot!',
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+  metadata: { pushName: 'Ana', isGroup: false },
+}
+
+describe('renderBodyTemplate', () => {
+  it('should keep raw values for single placeholders', () => {
+    expect(renderBodyTemplate({
+      message: '{{text}}',
+      meta: '{{metadata}}',
+      group: '{{ metadata.isGroup }}',
+      missing: '{{metadata.unknown}}',
+    }, mockMessage)).toEqual({
+      message: 'Hello, bot!',
+      meta: { pushName: 'Ana', isGroup: false },
+      group: false,
+      missing: null,
+    })
+  })
+
+  it('should interpolate placeholders inside strings', () => {
+    expect(renderBodyTemplate(
+      { prompt: '{{metadata.pushName}} ({{from}}) says: {{text}}{{metadata.unknown}}' },
+      mockMessage
+    )).toEqual({ prompt: 'Ana (5491155551234@s.whatsapp.net) says: Hello, bot!' })
+  })
+
+  it('should render nested objects, arrays and the timestamp', () => {
+    expect(renderBodyTemplate(
+      { events: [{ type: 'message', at: '{{timestamp}}', id: '{{id}}' }], version: 2 },
+      mockMessage
+    )).toEqual({ events: [{ type: 'message', at: '2024-01-01T00:00:00.000Z', id: 'MSG001' }], version: 2 })
+  })
+})
+
+describe('parseJsonPath', () => {
+  it('should parse member and index access', () => {
+    expect(parseJsonPath('$')).toEqual([])
+    expect(parseJsonPath('$.reply.text')).toEqual(['reply', 'text'])
+    expect(parseJsonPath('$.choices[0].text')).toEqual(['choices', 0, 'text'])
+    expect(parseJsonPath("$['reply-text']")).toEqual(['reply-text'])
+  })
+
+  it('should reject invalid paths', () => {
+    expect(parseJsonPath('reply.text')).toBeNull()
+    expect(parseJsonPath('$.reply..text')).toBeNull()
+    expect(parseJsonPath('$.items[*]')).toBeNull()
+  })
+})
+
+describe('extractJsonPath', () => {
+  it('should read the value at the path', () => {
+    const data = { reply: { text: 'Hi' }, items: [{ text: 'first' }] }
+
+    expect(extractJsonPath(data, '$.reply.text')).toBe('Hi')
+    expect(extractJsonPath(data, '$.items[0].text')).toBe('first')
+    expect(extractJsonPath(data, '$.reply.missing.text')).toBeUndefined()
+  })
+
+  it('should throw for an invalid path', () => {
+    expect(() => extractJsonPath({}, 'reply')).toThrow('Invalid JSON path: reply')
+  })
+})
+
+describe('WebhookAgentClient', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fetchMock = global.fetch as ReturnType<typeof vi.fn>
+    fetchMock.mockReset()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should post the whole message by default and read $.response', async () => {
+    const client = new WebhookAgentClient()
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ response: 'Hi!' }) })
+
+    const result = await client.sendMessage('http://bot.local/hook', mockMessage)
+
+    expect(result).toEqual({
+      success: true,
+      response: 'Hi!',
+      metadata: { webhook: { status: 200, responsePath: '$.response' } },
+    })
+    expect(fetchMock).toHaveBeenCalledWith('http://bot.local/hook', expect.objectContaining({ method: 'POST' }))
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      id: 'MSG001',
+      from: '5491155551234@s.whatsapp.net',
+      channelId: 'test-channel-123',
+      text: 'Hello, bot!',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      metadata: { pushName: 'Ana', isGroup: false },
+    })
+  })
+
+  it('should use the configured method, headers, template and response path', async () => {
+    const client = new WebhookAgentClient({
+      headers: { 'X-Api-Key': 'secret' },
+      webhook: {
+        method: 'PUT',
+        bodyTemplate: { user: '{{from}}', message: '{{text}}' },
+        responsePath: '$.reply.text',
+      },
+    })
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ reply: { text: 'Done' } }) })
+
+    const result = await client.sendMessage('http://bot.local/hook', mockMessage)
+
+    expect(result.response).toBe('Done')
+    expect(fetchMock.mock.calls[0][1]).toEqual(expect.objectContaining({
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'X-Api-Key': 'secret' },
+      body: JSON.stringify({ user: '5491155551234@s.whatsapp.net', message: 'Hello, bot!' }),
+    }))
+  })
+
+  it('should convert scalar replies to text', async () => {
+    const client = new WebhookAgentClient({ webhook: { responsePath: '$.count' } })
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ count: 3 }) })
+
+    expect((await client.sendMessage('http://bot.local/hook', mockMessage)).response).toBe('3')
+  })
+
+  it('should return no response text when the path does not resolve', async () => {
+    const client = new WebhookAgentClient({ webhook: { responsePath: '$.reply.text' } })
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ reply: null }) })
+
+    const result = await client.sendMessage('http://bot.local/hook', mockMessage)
+
+    expect(result.success).toBe(true)
+    expect(result.response).toBeUndefined()
+  })
+
+  it('should throw when the path resolves to an object', async () => {
+    const client = new WebhookAgentClient({ webhook: { responsePath: '$.reply' } })
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ reply: { text: 'Hi' } }) })
+
+    await expect(client.sendMessage('http://bot.local/hook', mockMessage)).rejects.toThrow(
+      'Failed to send message to webhook agent: Response path $.reply did not resolve to text'
+    )
+  })
+
+  it('should throw on HTTP errors', async () => {
+    const client = new WebhookAgentClient()
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 502, text: async () => 'Bad Gateway' })
+
+    await expect(client.sendMessage('http://bot.local/hook', mockMessage)).rejects.toThrow(
+      'Failed to send message to webhook agent: Webhook returned 502: Bad Gateway'
+    )
+  })
+})
+
+describe('WebhookAgentProtocol', () => {
+  const protocol = new WebhookAgentProtocol()
+  const route: Route = {
+    id: 'route-1',
+    channelId: 'channel-1',
+    agentEndpoint: 'http://bot.local/hook',
+    environment: 'lab',
+    config: { type: 'webhook' },
+  }
+
+  it('should accept a route without config.webhook', () => {
+    expect(protocol.validateConfig(route)).toBeNull()
+  })
+
+  it('should accept a full configuration', () => {
+    expect(protocol.validateConfig({
+      ...route,
+      config: {
+        type: 'webhook',
+        webhook: {
+          url: 'https://bots.internal/support',
+          method: 'PATCH',
+          headers: { Authorization: 'Bearer token' },
+          bodyTemplate: { message: '{{text}}' },
+          responsePath: '$.data[0].reply',
+          timeoutMs: 5000,
+        },
+      },
+    })).toBeNull()
+  })
+
+  it.each([
+    ['not-an-object', 'config.webhook must be an object'],
+    [{ url: 'ftp://bot' }, 'config.webhook.url must be an http(s) URL'],
+    [{ method: 'GET' }, 'config.webhook.method must be one of: POST, PUT, PATCH'],
+    [{ headers: { 'X-Retries': 3 } }, 'config.webhook.headers must be an object of string values'],
+    [{ responsePath: 'reply.text' }, 'config.webhook.responsePath must be a JSON path such as $.reply.text'],
+    [{ timeoutMs: 0 }, 'config.webhook.timeoutMs must be a positive integer'],
+  ])('should reject invalid webhook config %j', (webhook, error) => {
+    expect(protocol.validateConfig({ ...route, config: { type: 'webhook', webhook } })).toBe(error)
+  })
+
+  it('should use url as endpoint, falling back to agentEndpoint', () => {
+    expect(protocol.getEndpoint(route)).toBe('http://bot.local/hook')
+    expect(protocol.getEndpoint({
+      ...route,
+      config: { type: 'webhook', webhook: { url: 'https://bots.internal/support' } },
+    })).toBe('https://bots.internal/support')
+  })
+
+  it('should create a WebhookAgentClient', () => {
+    expect(protocol.createClient(route)).toBeInstanceOf(WebhookAgentClient)
+  })
+})
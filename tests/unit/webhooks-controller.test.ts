@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { createHmac } from 'crypto'
 import { registerWebhooks } from '../../router/src/webhooks-controller.js'
 import type { MessageRouter } from '../../router/src/core/message-router.js'
 import type { WhatsAppProvider } from '../../router/src/core/whatsapp-provider.js'
+import type { InboundQueue } from '../../router/src/core/inbound-queue.js'
+import { MessageDeduplicator, InMemoryDedupStore } from '../../router/src/core/message-dedup.js'
 import * as baileysConnection from '../../router/src/providers/baileys-connection.js'
 
 // Mock the baileys-connection module
@@ -56,6 +59,8 @@ describe('WebhooksController', () => {
     mockReply = {
       code: vi.fn().mockReturnThis(),
       send: vi.fn().mockReturnThis(),
+      type: vi.fn().mockReturnThis(),
+      header: vi.fn().mockReturnThis(),
     } as unknown as FastifyReply
 
     // Mock FastifyRequest
@@ -69,6 +74,8 @@ describe('WebhooksController', () => {
       post: vi.fn((route: string, handler: any) => {
         if (route === '/webhooks/whatsapp/lab') {
           ;(mockApp as any).labHandler = handler
+        } else if (route === '/webhooks/whatsapp/prod') {
+          (mockApp as any).prodHandler = handler
         } else if (route === '/api/routes') {
           ;(mockApp as any).postRouteHandler = handler
         }
@@ -76,6 +83,8 @@ describe('WebhooksController', () => {
       get: vi.fn((route: string, handler: any) => {
         if (route === '/health') {
           ;(mockApp as any).healthHandler = handler
+        } else if (route === '/webhooks/whatsapp/prod') {
+          (mockApp as any).prodVerifyHandler = handler
         } else if (route === '/api/routes') {
           ;(mockApp as any).getRoutesHandler = handler
         } else if (route === '/api/routes/:channelId') {
@@ -87,6 +96,8 @@ describe('WebhooksController', () => {
           ;(mockApp as any).deleteRouteHandler = handler
         }
       }),
+      removeContentTypeParser: vi.fn(),
+      addContentTypeParser: vi.fn(),
     } as unknown as FastifyInstance
 
     // Reset environment variable to default (false)
@@ -243,6 +254,24 @@ describe('WebhooksController', () => {
       expect(mockReply.code).toHaveBeenCalledWith(200)
     })
 
+    it('should answer 503 when the message queue is full', async () => {
+      vi.mocked(mockMessageRouter.routeMessage).mockResolvedValueOnce({
+        success: false,
+        error: 'Message queue is full',
+        metadata: { queueFull: true },
+      })
+      mockRequest.body = {
+        event: 'messages.upsert',
+        data: { key: { remoteJid: '5493777239922@s.whatsapp.net', id: 'test503' }, message: { conversation: 'Hi' } },
+      }
+
+      await (mockApp as any).labHandler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(503)
+      expect(mockReply.header).toHaveBeenCalledWith('Retry-After', '5')
+      expect(mockReply.send).toHaveBeenCalledWith({ error: 'Message queue is full', code: 'QUEUE_FULL' })
+    })
+
     it('should handle connection.update event', async () => {
       const handler = (mockApp as any).labHandler
       const payload = {
@@ -382,6 +411,303 @@ describe('WebhooksController', () => {
     })
   })
 
+  describe('/webhooks/whatsapp/prod', () => {
+    const cloudMessage = (id: string) => ({
+      id,
+      from: '5491155551234',
+      channelId: '5491155551234',
+      text: 'Hola',
+      timestamp: new Date(),
+    })
+
+    it('should route every message returned by normalizeWebhookBatch', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1'), cloudMessage('m2')]),
+      }
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+      })
+
+      const payload = { object: 'whatsapp_business_account', entry: [] }
+      mockRequest.body = payload
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(batchProvider.normalizeWebhookBatch).toHaveBeenCalledWith(payload)
+      expect(mockMessageRouter.routeMessage).toHaveBeenCalledTimes(2)
+      expect(mockReply.code).toHaveBeenCalledWith(200)
+      expect(mockReply.send).toHaveBeenCalledWith({ status: 'ok', received: 2 })
+    })
+
+    it('should ask Meta to retry when the message queue is full', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1'), cloudMessage('m2')]),
+      }
+      vi.mocked(mockMessageRouter.routeMessage)
+        .mockResolvedValue({ success: false, error: 'Message queue is full', metadata: { queueFull: true } })
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+      })
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(503)
+      expect(mockReply.header).toHaveBeenCalledWith('Retry-After', '5')
+      expect(mockReply.send).toHaveBeenCalledWith({ error: 'Message queue is full', code: 'QUEUE_FULL' })
+    })
+
+    it('should not ask Meta to retry a partly accepted batch without a deduplicator', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1'), cloudMessage('m2')]),
+      }
+      vi.mocked(mockMessageRouter.routeMessage)
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: false, error: 'Message queue is full', metadata: { queueFull: true } })
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+      })
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(200)
+      expect(mockReply.send).toHaveBeenCalledWith({ status: 'ok', received: 2 })
+    })
+
+    it('should ask Meta to retry a partly accepted batch when accepted messages are deduplicated', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1'), cloudMessage('m2')]),
+      }
+      vi.mocked(mockMessageRouter.routeMessage)
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: false, error: 'Message queue is full', metadata: { queueFull: true } })
+        .mockResolvedValueOnce({ success: true })
+      const deduplicator = new MessageDeduplicator({ store: new InMemoryDedupStore() })
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+        deduplicator,
+      })
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(503)
+
+      // Meta's redelivery only routes the message that was not accepted
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockMessageRouter.routeMessage).toHaveBeenCalledTimes(3)
+      expect(vi.mocked(mockMessageRouter.routeMessage).mock.calls[2][0].id).toBe('m2')
+      expect(mockReply.code).toHaveBeenLastCalledWith(200)
+    })
+
+    it('should store messages in the durable queue instead of routing them', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1'), cloudMessage('m2')]),
+      }
+      const inboundQueue = { submit: vi.fn().mockResolvedValue({ id: 'entry-1' }) }
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+        inboundQueue: inboundQueue as unknown as InboundQueue,
+      })
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(inboundQueue.submit).toHaveBeenCalledTimes(2)
+      expect(mockMessageRouter.routeMessage).not.toHaveBeenCalled()
+      expect(mockReply.send).toHaveBeenCalledWith({ status: 'ok', received: 2 })
+    })
+
+    it('should ask Meta to retry when a message cannot be stored', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1')]),
+      }
+      const inboundQueue = {
+        submit: vi.fn().mockRejectedValue(new Error('Failed to enqueue message: connection refused')),
+      }
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+        inboundQueue: inboundQueue as unknown as InboundQueue,
+      })
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockMessageRouter.routeMessage).not.toHaveBeenCalled()
+      expect(mockReply.code).toHaveBeenCalledWith(503)
+      expect(mockReply.header).toHaveBeenCalledWith('Retry-After', '5')
+      expect(mockReply.send).toHaveBeenCalledWith({ error: 'Message could not be stored', code: 'QUEUE_UNAVAILABLE' })
+    })
+
+    it('should skip messages delivered more than once', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1'), cloudMessage('m1'), cloudMessage('m2')]),
+      }
+      const deduplicator = new MessageDeduplicator({ store: new InMemoryDedupStore() })
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+        deduplicator,
+      })
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockMessageRouter.routeMessage).toHaveBeenCalledTimes(2)
+      expect(deduplicator.getStats()).toEqual({ checked: 3, duplicates: 1 })
+      expect(mockReply.send).toHaveBeenCalledWith({ status: 'ok', received: 3 })
+    })
+
+    it('should process the retry of a message that was not accepted', async () => {
+      const batchProvider: WhatsAppProvider = {
+        ...mockProvider,
+        normalizeWebhookBatch: vi.fn().mockReturnValue([cloudMessage('m1')]),
+      }
+      vi.mocked(mockMessageRouter.routeMessage)
+        .mockResolvedValueOnce({ success: false, error: 'Message queue is full', metadata: { queueFull: true } })
+      const deduplicator = new MessageDeduplicator({ store: new InMemoryDedupStore() })
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: batchProvider,
+        deduplicator,
+      })
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockMessageRouter.routeMessage).toHaveBeenCalledTimes(2)
+      expect(deduplicator.getStats().duplicates).toBe(0)
+    })
+
+    it('should fall back to normalizeWebhook when batch normalization is not available', async () => {
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: mockProvider,
+      })
+
+      mockRequest.body = { object: 'whatsapp_business_account' }
+
+      await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+      expect(mockProvider.normalizeWebhook).toHaveBeenCalled()
+      expect(mockMessageRouter.routeMessage).not.toHaveBeenCalled()
+      expect(mockReply.send).toHaveBeenCalledWith({ status: 'ok', received: 0 })
+    })
+
+    describe('signature validation', () => {
+      const appSecret = 'test-app-secret'
+      const rawBody = Buffer.from(JSON.stringify({ object: 'whatsapp_business_account', entry: [] }))
+      const sign = (body: Buffer, secret = appSecret) =>
+        `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+
+      beforeEach(() => {
+        registerWebhooks(mockApp, {
+          messageRouter: mockMessageRouter,
+          whatsappProvider: mockProvider,
+          cloudApi: { appSecret },
+        })
+        mockRequest.body = JSON.parse(rawBody.toString())
+        ;(mockRequest as any).rawBody = rawBody
+      })
+
+      it('should register a raw JSON body parser when an app secret is configured', () => {
+        expect(mockApp.removeContentTypeParser).toHaveBeenCalledWith('application/json')
+        expect(mockApp.addContentTypeParser).toHaveBeenCalledWith(
+          'application/json',
+          { parseAs: 'buffer' },
+          expect.any(Function)
+        )
+      })
+
+      it('should accept a request with a valid signature', async () => {
+        mockRequest.headers['x-hub-signature-256'] = sign(rawBody)
+
+        await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+        expect(mockProvider.normalizeWebhook).toHaveBeenCalled()
+        expect(mockReply.code).toHaveBeenCalledWith(200)
+      })
+
+      it('should reject a request signed with another secret', async () => {
+        mockRequest.headers['x-hub-signature-256'] = sign(rawBody, 'other-secret')
+
+        await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+        expect(mockProvider.normalizeWebhook).not.toHaveBeenCalled()
+        expect(mockReply.code).toHaveBeenCalledWith(401)
+        expect(mockReply.send).toHaveBeenCalledWith({ error: 'Invalid signature' })
+      })
+
+      it('should reject and log a request without a signature header', async () => {
+        await (mockApp as any).prodHandler(mockRequest, mockReply)
+
+        expect(mockReply.code).toHaveBeenCalledWith(401)
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          expect.stringContaining('Rejected prod webhook with invalid signature')
+        )
+      })
+    })
+  })
+
+  describe('GET /webhooks/whatsapp/prod', () => {
+    const verifyQuery = (overrides: Record<string, string> = {}) => ({
+      'hub.mode': 'subscribe',
+      'hub.verify_token': 'my-verify-token',
+      'hub.challenge': '1158201444',
+      ...overrides,
+    })
+
+    it('should echo the challenge when the verify token matches', async () => {
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: mockProvider,
+        cloudApi: { verifyToken: 'my-verify-token' },
+      })
+      ;(mockRequest as any).query = verifyQuery()
+
+      await (mockApp as any).prodVerifyHandler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(200)
+      expect(mockReply.send).toHaveBeenCalledWith('1158201444')
+    })
+
+    it('should return 403 when the verify token does not match', async () => {
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: mockProvider,
+        cloudApi: { verifyToken: 'my-verify-token' },
+      })
+      ;(mockRequest as any).query = verifyQuery({ 'hub.verify_token': 'wrong' })
+
+      await (mockApp as any).prodVerifyHandler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(403)
+    })
+
+    it('should return 403 when no verify token is configured', async () => {
+      registerWebhooks(mockApp, {
+        messageRouter: mockMessageRouter,
+        whatsappProvider: mockProvider,
+      })
+      ;(mockRequest as any).query = verifyQuery()
+
+      await (mockApp as any).prodVerifyHandler(mockRequest, mockReply)
+
+      expect(mockReply.code).toHaveBeenCalledWith(403)
+    })
+  })
+
   describe('/health', () => {
     beforeEach(() => {
       registerWebhooks(mockApp, {